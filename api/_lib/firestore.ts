@@ -0,0 +1,261 @@
+import type { VercelRequest } from '@vercel/node'
+import { createSign } from 'node:crypto'
+
+/**
+ * Firestore REST helpers for the API routes that use the Firegrid service
+ * account: share links and scheduled alerts. Vercel doesn't deploy files
+ * under api/_lib as routes.
+ */
+
+export const FIRESTORE_BASE = 'https://firestore.googleapis.com/v1'
+const TOKEN_URL = 'https://oauth2.googleapis.com/token'
+const IDENTITY_LOOKUP_URL = 'https://identitytoolkit.googleapis.com/v1/accounts:lookup'
+const DATASTORE_SCOPE = 'https://www.googleapis.com/auth/datastore'
+
+// ---- Auth ----
+
+export interface ServiceAccount {
+  client_email: string
+  private_key: string
+  project_id: string
+}
+
+let cachedToken: { token: string; expiresAt: number } | null = null
+
+/** Exchanges a signed JWT for an access token (service account flow) */
+export async function getAccessToken(account: ServiceAccount): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now() + 60_000) return cachedToken.token
+
+  const now = Math.floor(Date.now() / 1000)
+  const encode = (part: object) => Buffer.from(JSON.stringify(part)).toString('base64url')
+  const unsigned = `${encode({ alg: 'RS256', typ: 'JWT' })}.${encode({
+    iss: account.client_email,
+    scope: DATASTORE_SCOPE,
+    aud: TOKEN_URL,
+    iat: now,
+    exp: now + 3600,
+  })}`
+  const signature = createSign('RSA-SHA256').update(unsigned).sign(account.private_key, 'base64url')
+
+  const response = await fetch(TOKEN_URL, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+      assertion: `${unsigned}.${signature}`,
+    }),
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || !data.access_token) {
+    throw new Error(data.error_description || `Token exchange failed: ${response.status}`)
+  }
+
+  cachedToken = { token: data.access_token, expiresAt: Date.now() + (data.expires_in ?? 3600) * 1000 }
+  return cachedToken.token
+}
+
+/** The Firegrid project's documents URL, from FIREBASE_PROJECT_ID or the service account */
+export function appDocumentsUrl(account: ServiceAccount): string {
+  return `${FIRESTORE_BASE}/${documentsPath(process.env.FIREBASE_PROJECT_ID || account.project_id)}`
+}
+
+export interface VerifiedUser {
+  uid: string
+  /** Lower-cased, and only set once Google has verified it */
+  email: string | null
+}
+
+/** The user a Firebase ID token belongs to, or null if it isn't valid */
+export async function verifyIdToken(idToken: string, apiKey: string): Promise<VerifiedUser | null> {
+  const response = await fetch(`${IDENTITY_LOOKUP_URL}?key=${encodeURIComponent(apiKey)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken }),
+  })
+  if (!response.ok) return null
+  const data = await response.json()
+  const user = data.users?.[0]
+  if (!user?.localId) return null
+  return { uid: String(user.localId), email: user.email && user.emailVerified ? String(user.email).toLowerCase() : null }
+}
+
+/** The request's `Authorization: Bearer` token, if any */
+export function bearerToken(req: VercelRequest): string | null {
+  return req.headers.authorization?.replace(/^Bearer\s+/i, '') || null
+}
+
+// ---- Firestore REST ----
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type FirestoreValue = Record<string, any>
+
+export interface FirestoreDocument {
+  name: string
+  fields?: Record<string, FirestoreValue>
+  updateTime?: string
+}
+
+export function documentsPath(projectId: string, databaseId = '(default)'): string {
+  return `projects/${projectId}/databases/${databaseId}/documents`
+}
+
+/** Same conversions as parseFirestoreValue in the app, so widgets see the same rows */
+export function fromValue(value: FirestoreValue): unknown {
+  if (value.stringValue !== undefined) return value.stringValue
+  if (value.integerValue !== undefined) return Number(value.integerValue)
+  if (value.doubleValue !== undefined) return value.doubleValue
+  if (value.booleanValue !== undefined) return value.booleanValue
+  if (value.timestampValue !== undefined) return value.timestampValue
+  if (value.nullValue !== undefined) return null
+  if (value.referenceValue !== undefined) return value.referenceValue
+  if (value.geoPointValue !== undefined) return `${value.geoPointValue.latitude}, ${value.geoPointValue.longitude}`
+  if (value.mapValue) return fromFields(value.mapValue.fields ?? {})
+  if (value.arrayValue) return (value.arrayValue.values ?? []).map(fromValue)
+  return null
+}
+
+export function fromFields(fields: Record<string, FirestoreValue>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(fields).map(([k, v]) => [k, fromValue(v)]))
+}
+
+export function toValue(value: unknown): FirestoreValue {
+  if (value === null || value === undefined) return { nullValue: null }
+  if (value instanceof Date) return { timestampValue: value.toISOString() }
+  if (typeof value === 'boolean') return { booleanValue: value }
+  if (typeof value === 'number') return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toValue) } }
+  if (typeof value === 'object') return { mapValue: { fields: toFields(value as Record<string, unknown>) } }
+  return { stringValue: String(value) }
+}
+
+/** Fields for a document write; undefined values are left out */
+export function toFields(data: Record<string, unknown>): Record<string, FirestoreValue> {
+  return Object.fromEntries(Object.entries(data).filter(([, v]) => v !== undefined).map(([k, v]) => [k, toValue(v)]))
+}
+
+/** Backtick-quotes any path segment that isn't a plain identifier */
+export function toFieldPath(field: string): string {
+  return field
+    .split('.')
+    .map((part) => (/^[a-zA-Z_][a-zA-Z_0-9]*$/.test(part) ? part : `\`${part.replace(/\\/g, '\\\\').replace(/`/g, '\\`')}\``))
+    .join('.')
+}
+
+export async function firestoreFetch<T>(token: string, url: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+  })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error?.message || data[0]?.error?.message || `Firestore request failed: ${response.status}`)
+  }
+  return data as T
+}
+
+/** A document, or null if it doesn't exist */
+export async function getDocument(token: string, url: string): Promise<FirestoreDocument | null> {
+  const response = await fetch(url, { headers: { Authorization: `Bearer ${token}` } })
+  if (response.status === 404) return null
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(data.error?.message || `Firestore request failed: ${response.status}`)
+  return data
+}
+
+/** Replaces the listed fields of a document, creating it if needed */
+export async function patchDocument(token: string, url: string, data: Record<string, unknown>): Promise<void> {
+  const mask = Object.keys(data).map((k) => `updateMask.fieldPaths=${encodeURIComponent(toFieldPath(k))}`).join('&')
+  await firestoreFetch(token, `${url}?${mask}`, { method: 'PATCH', body: JSON.stringify({ fields: toFields(data) }) })
+}
+
+export async function deleteDocument(token: string, url: string): Promise<void> {
+  await firestoreFetch(token, url, { method: 'DELETE' })
+}
+
+/** Adds to a numeric field in one write, so concurrent requests all count */
+export async function incrementField(token: string, url: string, field: string, by = 1): Promise<void> {
+  const name = url.slice(FIRESTORE_BASE.length + 1)
+  const database = name.slice(0, name.indexOf('/documents/') + '/documents'.length)
+  await firestoreFetch(token, `${FIRESTORE_BASE}/${database}:commit`, {
+    method: 'POST',
+    body: JSON.stringify({
+      writes: [{ transform: { document: name, fieldTransforms: [{ fieldPath: toFieldPath(field), increment: toValue(by) }] } }],
+    }),
+  })
+}
+
+export async function listDocuments(token: string, collectionUrl: string): Promise<FirestoreDocument[]> {
+  const documents: FirestoreDocument[] = []
+  let pageToken = ''
+  do {
+    const data = await firestoreFetch<{ documents?: FirestoreDocument[]; nextPageToken?: string }>(
+      token,
+      `${collectionUrl}?pageSize=300${pageToken ? `&pageToken=${encodeURIComponent(pageToken)}` : ''}`
+    )
+    documents.push(...(data.documents ?? []))
+    pageToken = data.nextPageToken ?? ''
+  } while (pageToken)
+  return documents
+}
+
+// ---- Table sources ----
+
+/** The collection a saved Firestore table reads */
+export interface TableSource {
+  projectId: string
+  databaseId?: string
+  collectionPath: string
+  isCollectionGroup?: boolean
+}
+
+/** A table's source, or null for query and CSV tables, which live in the app's database */
+export function tableSource(table: Record<string, unknown>): TableSource | null {
+  const { projectId, databaseId, collectionPath, isCollectionGroup } = table
+  if (typeof projectId !== 'string' || typeof collectionPath !== 'string') return null
+  if (projectId === '__query__' || projectId === '__csv__') return null
+  return {
+    projectId,
+    ...(typeof databaseId === 'string' && databaseId ? { databaseId } : {}),
+    collectionPath,
+    ...(isCollectionGroup === true ? { isCollectionGroup: true } : {}),
+  }
+}
+
+/** Identifies a source in the verified lists the service account checks before reading */
+export function sourceKey(source: TableSource): string {
+  return `${source.projectId}/${source.databaseId || '(default)'}/${source.isCollectionGroup ? '**/' : ''}${source.collectionPath}`
+}
+
+/** runQuery URL and `from` clause for a source's collection */
+export function sourceQuery(source: TableSource): { url: string; from: Record<string, unknown> } {
+  const isGroup = source.isCollectionGroup === true
+  const lastSlash = isGroup ? -1 : source.collectionPath.lastIndexOf('/')
+  const parentPath = lastSlash === -1 ? '' : source.collectionPath.substring(0, lastSlash)
+  const collectionId = source.collectionPath.substring(lastSlash + 1)
+  const dbPath = documentsPath(source.projectId, source.databaseId)
+  return {
+    url: `${FIRESTORE_BASE}/${parentPath ? `${dbPath}/${parentPath}` : dbPath}`,
+    from: { collectionId, ...(isGroup ? { allDescendants: true } : {}) },
+  }
+}
+
+/**
+ * Whether the holder of a Google access token can read a source, by reading
+ * one document name with it. The service account can read every project it
+ * has been granted, so routes check this with the owner's own token before
+ * reading a source on their behalf.
+ */
+export async function canReadSource(googleAccessToken: string, source: TableSource): Promise<boolean> {
+  const { url, from } = sourceQuery(source)
+  const response = await fetch(`${url}:runQuery`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${googleAccessToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      structuredQuery: { from: [from], select: { fields: [{ fieldPath: '__name__' }] }, limit: 1 },
+    }),
+  })
+  if (response.ok) return true
+  if (response.status === 401 || response.status === 403 || response.status === 404) return false
+  const data = await response.json().catch(() => ({}))
+  throw new Error(data.error?.message || data[0]?.error?.message || `Firestore request failed: ${response.status}`)
+}
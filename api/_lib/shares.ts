@@ -0,0 +1,113 @@
+import { pbkdf2Sync, randomBytes, timingSafeEqual } from 'node:crypto'
+
+/** Helpers for share links, used by api/share/link and api/share/snapshot. */
+
+const PASSWORD_ITERATIONS = 100_000
+const PASSWORD_KEY_BYTES = 32
+
+/** IDs of every table the widgets read, including metric targets */
+export function widgetTableIds(widgets: Record<string, unknown>[]): string[] {
+  const ids = new Set<string>()
+  for (const w of widgets) {
+    const metric = w.metricConfig as { tableId?: string; target?: { tableId?: string } } | undefined
+    const chart = w.chartConfig as { tableId?: string } | undefined
+    const pivot = w.pivotConfig as { tableId?: string } | undefined
+    for (const id of [w.tableId, metric?.tableId, metric?.target?.tableId, chart?.tableId, pivot?.tableId]) {
+      if (typeof id === 'string' && id) ids.add(id)
+    }
+  }
+  return [...ids]
+}
+
+/** A column as saved on a table; widgets refer to it by sourcePath */
+export interface SharedColumn {
+  sourcePath: string
+  visible: boolean
+}
+
+type WidgetRecord = Record<string, unknown> & {
+  type?: string
+  tableId?: string
+  hiddenColumns?: string[]
+  customColumns?: { formula?: string }[]
+  conditionalFormats?: { column?: string }[]
+  filters?: { column?: string }[]
+  metricConfig?: { tableId?: string; column?: string; dateColumn?: string; target?: { tableId?: string; column?: string; dateColumn?: string } }
+  chartConfig?: {
+    tableId?: string
+    categoryColumn?: string
+    valueColumn?: string
+    seriesColumn?: string
+    valueSeries?: { valueColumn?: string }[]
+    sizeColumn?: string
+    colourColumn?: string
+    dateColumn?: string
+  }
+  pivotConfig?: { tableId?: string; rowColumns?: string[]; colColumns?: string[]; values?: { column?: string }[]; columnFilters?: Record<string, unknown> }
+}
+
+/**
+ * Columns of one table that the dashboard shows or computes with: table
+ * widgets' own columns (and those their formulas refer to), the fields
+ * metrics, charts and pivots aggregate or group by, and the columns widget
+ * and dashboard filters match on. The snapshot sends viewers nothing else.
+ */
+export function referencedColumns(
+  tableId: string,
+  columns: SharedColumn[],
+  widgets: Record<string, unknown>[],
+  dashboardFilters: Record<string, unknown>[]
+): Set<string> {
+  const referenced = new Set<string>()
+  const add = (column: unknown) => {
+    if (typeof column === 'string' && column) referenced.add(column)
+  }
+
+  for (const w of widgets as WidgetRecord[]) {
+    const metric = w.metricConfig
+    const chart = w.chartConfig
+    const pivot = w.pivotConfig
+    if (w.type === 'table' && w.tableId === tableId) {
+      const hidden = new Set(w.hiddenColumns ?? [])
+      for (const c of columns) if (c.visible && !hidden.has(c.sourcePath)) add(c.sourcePath)
+      // Formulas refer to columns as [sourcePath] or by the path's last segment
+      for (const { formula } of w.customColumns ?? []) {
+        for (const [, name] of (formula ?? '').matchAll(/\[([^\]]+)\]/g)) {
+          for (const c of columns) if (c.sourcePath === name || c.sourcePath.endsWith(`.${name}`)) add(c.sourcePath)
+        }
+      }
+      for (const rule of w.conditionalFormats ?? []) add(rule.column)
+    }
+    if (metric?.tableId === tableId) [metric.column, metric.dateColumn].forEach(add)
+    if (metric?.target?.tableId === tableId) [metric.target.column, metric.target.dateColumn].forEach(add)
+    if (chart?.tableId === tableId) {
+      [chart.categoryColumn, chart.valueColumn, chart.seriesColumn, chart.sizeColumn, chart.colourColumn, chart.dateColumn].forEach(add)
+      for (const series of chart.valueSeries ?? []) add(series.valueColumn)
+    }
+    if (pivot?.tableId === tableId) {
+      [...(pivot.rowColumns ?? []), ...(pivot.colColumns ?? [])].forEach(add)
+      for (const value of pivot.values ?? []) add(value.column)
+      Object.keys(pivot.columnFilters ?? {}).forEach(add)
+    }
+    if ((metric?.tableId || chart?.tableId || pivot?.tableId || w.tableId) === tableId) {
+      for (const filter of w.filters ?? []) add(filter.column)
+    }
+  }
+  for (const filter of dashboardFilters) {
+    add((filter.columns as Record<string, unknown> | undefined)?.[tableId])
+  }
+  return referenced
+}
+
+/** PBKDF2-SHA256 of a link password with a new salt, both as hex */
+export function hashPassword(password: string): { passwordSalt: string; passwordHash: string } {
+  const salt = randomBytes(16).toString('hex')
+  const hash = pbkdf2Sync(password, salt, PASSWORD_ITERATIONS, PASSWORD_KEY_BYTES, 'sha256')
+  return { passwordSalt: salt, passwordHash: hash.toString('hex') }
+}
+
+export function passwordMatches(password: string, salt: string, hash: string): boolean {
+  const expected = Buffer.from(hash, 'hex')
+  const actual = pbkdf2Sync(password, salt, PASSWORD_ITERATIONS, expected.length, 'sha256')
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
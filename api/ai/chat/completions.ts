@@ -0,0 +1,235 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+
+/**
+ * OpenAI-compatible chat completions endpoint that holds the provider key,
+ * so it never has to be bundled into the client.
+ *
+ * Usage:
+ *   POST /api/ai/chat/completions
+ *   Authorization: Bearer <Firebase ID token>
+ *   Body: { messages, model?, temperature?, max_tokens?, redact_samples? }
+ *
+ * Environment:
+ *   AI_API_KEY (or OPENAI_API_KEY)  key for the upstream provider
+ *   AI_BASE_URL                     upstream API root, default https://api.openai.com/v1
+ *   AI_MODELS                       comma-separated models clients may pick; the first is the default
+ *   AI_RATE_LIMIT_PER_MINUTE        requests per user per minute, default 10
+ *   AI_RATE_LIMIT_PER_DAY           requests per user per day, default 200
+ */
+
+const IDENTITY_LOOKUP_URL = 'https://identitytoolkit.googleapis.com/v1/accounts:lookup'
+const MAX_TOKENS_CAP = 4096
+
+// ---- Auth ----
+
+// Verified ID tokens, so repeat calls skip the lookup (tokens live an hour).
+// Expired entries are dropped as new ones arrive, and the oldest past the cap.
+const verifiedTokens = new Map<string, { uid: string; expiresAt: number }>()
+const TOKEN_CACHE_MS = 5 * 60 * 1000
+const MAX_CACHED_TOKENS = 1000
+
+/** Resolves a Firebase ID token to its user's uid, or null if it isn't valid */
+async function verifyIdToken(idToken: string, apiKey: string): Promise<string | null> {
+  const cached = verifiedTokens.get(idToken)
+  if (cached && cached.expiresAt > Date.now()) return cached.uid
+
+  const response = await fetch(`${IDENTITY_LOOKUP_URL}?key=${encodeURIComponent(apiKey)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken }),
+  })
+  if (!response.ok) return null
+  const data = await response.json()
+  const uid: string | undefined = data.users?.[0]?.localId
+  if (!uid) return null
+
+  const now = Date.now()
+  for (const [token, entry] of verifiedTokens) {
+    if (entry.expiresAt <= now) verifiedTokens.delete(token)
+  }
+  verifiedTokens.set(idToken, { uid, expiresAt: now + TOKEN_CACHE_MS })
+  for (const token of verifiedTokens.keys()) {
+    if (verifiedTokens.size <= MAX_CACHED_TOKENS) break
+    verifiedTokens.delete(token)
+  }
+  return uid
+}
+
+// ---- Rate limiting ----
+
+// Per-instance and in memory: a burst spread over several cold instances can
+// exceed the limits, but a single user can't run up the bill unchecked.
+// Users with nothing in the last day are swept out at most once a minute.
+const requestLog = new Map<string, number[]>()
+let lastSweepAt = 0
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+/** Records a request for the user; returns seconds to wait if a limit is hit */
+function checkRateLimit(uid: string): number | null {
+  const now = Date.now()
+  const minute = 60 * 1000
+  const day = 24 * 60 * minute
+  if (now - lastSweepAt > minute) {
+    lastSweepAt = now
+    for (const [user, userTimes] of requestLog) {
+      if (userTimes[userTimes.length - 1] <= now - day) requestLog.delete(user)
+    }
+  }
+  const times = (requestLog.get(uid) ?? []).filter((t) => t > now - day)
+
+  const perMinute = envNumber('AI_RATE_LIMIT_PER_MINUTE', 10)
+  const perDay = envNumber('AI_RATE_LIMIT_PER_DAY', 200)
+  const lastMinute = times.filter((t) => t > now - minute)
+
+  if (times.length >= perDay) {
+    requestLog.set(uid, times)
+    return Math.ceil((times[0] + day - now) / 1000)
+  }
+  if (lastMinute.length >= perMinute) {
+    requestLog.set(uid, times)
+    return Math.ceil((lastMinute[0] + minute - now) / 1000)
+  }
+
+  times.push(now)
+  requestLog.set(uid, times)
+  return null
+}
+
+// ---- Redaction ----
+
+const SAMPLE_KEYS = ['samples', 'sampleValues']
+
+function redactValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactValue)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, SAMPLE_KEYS.includes(key) ? [] : redactValue(v)])
+    )
+  }
+  return value
+}
+
+/**
+ * Empties the sample value arrays in the JSON blocks of a prompt (schemas
+ * are sent as pretty-printed JSON), leaving field names and types intact.
+ */
+function redactSamples(content: string): string {
+  let out = ''
+  let i = 0
+  while (i < content.length) {
+    const ch = content[i]
+    const atBlockStart = (ch === '{' || ch === '[') && (i === 0 || content[i - 1] === '\n')
+    const end = atBlockStart ? findJsonEnd(content, i) : -1
+    if (end === -1) {
+      out += ch
+      i++
+      continue
+    }
+    const block = content.slice(i, end + 1)
+    try {
+      out += JSON.stringify(redactValue(JSON.parse(block)), null, 2)
+    } catch {
+      out += block
+    }
+    i = end + 1
+  }
+  return out
+}
+
+/** Index of the bracket closing the JSON value that starts at `start`, or -1 */
+function findJsonEnd(text: string, start: number): number {
+  let depth = 0
+  let inString = false
+  for (let i = start; i < text.length; i++) {
+    const ch = text[i]
+    if (inString) {
+      if (ch === '\\') i++
+      else if (ch === '"') inString = false
+    } else if (ch === '"') {
+      inString = true
+    } else if (ch === '{' || ch === '[') {
+      depth++
+    } else if (ch === '}' || ch === ']') {
+      depth--
+      if (depth === 0) return i
+    }
+  }
+  return -1
+}
+
+// ---- Handler ----
+
+function sendError(res: VercelResponse, status: number, message: string) {
+  // Same shape as OpenAI errors, so clients handle both alike
+  return res.status(status).json({ error: { message } })
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'Method not allowed')
+  }
+
+  const providerKey = process.env.AI_API_KEY || process.env.OPENAI_API_KEY
+  const firebaseApiKey = process.env.VITE_FIREBASE_API_KEY || process.env.FIREBASE_API_KEY
+  if (!providerKey || !firebaseApiKey) {
+    return sendError(res, 500, 'AI proxy not configured')
+  }
+
+  const idToken = req.headers.authorization?.replace(/^Bearer\s+/i, '')
+  if (!idToken) {
+    return sendError(res, 401, 'Sign in to use AI features')
+  }
+
+  const { messages, model, temperature, max_tokens, redact_samples } = req.body ?? {}
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return sendError(res, 400, 'messages are required')
+  }
+
+  try {
+    const uid = await verifyIdToken(idToken, firebaseApiKey)
+    if (!uid) {
+      return sendError(res, 401, 'Your session has expired, sign in again')
+    }
+
+    const retryAfter = checkRateLimit(uid)
+    if (retryAfter !== null) {
+      res.setHeader('Retry-After', String(retryAfter))
+      return sendError(res, 429, `AI request limit reached, try again in ${retryAfter}s`)
+    }
+
+    const models = (process.env.AI_MODELS || 'gpt-4o-mini').split(',').map((m) => m.trim()).filter(Boolean)
+    const baseUrl = (process.env.AI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, '')
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${providerKey}`,
+      },
+      body: JSON.stringify({
+        model: models.includes(model) ? model : models[0],
+        messages: messages.map((m: { role: string; content: string }) => ({
+          role: m.role,
+          content: redact_samples ? redactSamples(String(m.content)) : String(m.content),
+        })),
+        temperature: typeof temperature === 'number' ? temperature : undefined,
+        max_tokens: Math.min(Number(max_tokens) || MAX_TOKENS_CAP, MAX_TOKENS_CAP),
+      }),
+    })
+
+    const data = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      console.error('AI provider error:', response.status, data)
+      return sendError(res, response.status, data.error?.message || 'AI provider error')
+    }
+
+    return res.status(200).json(data)
+  } catch (error) {
+    console.error('AI proxy error:', error)
+    return sendError(res, 500, 'Internal server error')
+  }
+}
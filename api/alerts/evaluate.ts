@@ -0,0 +1,313 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import {
+  FIRESTORE_BASE,
+  appDocumentsUrl,
+  firestoreFetch,
+  fromFields,
+  fromValue,
+  getAccessToken,
+  getDocument,
+  listDocuments,
+  patchDocument,
+  sourceKey,
+  sourceQuery,
+  tableSource,
+  toFieldPath,
+  toFields,
+  type FirestoreDocument,
+  type FirestoreValue,
+  type ServiceAccount,
+  type TableSource,
+} from '../_lib/firestore.js'
+
+/**
+ * Checks dashboard alert rules marked "Also check on a schedule", so they
+ * fire while no one has the dashboard open. The dashboard builder registers
+ * those rules through api/alerts/schedule, which checks the owner can read
+ * each rule's table and stores them in scheduledAlerts/{uid}_{dashboardId}; each
+ * rule is a Firestore aggregation run against the project the table reads.
+ * Crossings are written to users/{uid}/dashboards/{id}/alertEvents, where
+ * the dashboard's notification centre shows them.
+ *
+ * Usage:
+ *   GET /api/alerts/evaluate  (run by the cron in vercel.json)
+ *   Authorization: Bearer <CRON_SECRET>
+ *
+ * Environment:
+ *   CRON_SECRET                shared secret Vercel sends with cron requests
+ *   FIREBASE_SERVICE_ACCOUNT   service account key JSON for the Firegrid project; it also
+ *                              needs read access (Cloud Datastore Viewer) on each data project
+ *   FIREBASE_PROJECT_ID        Firegrid project, default the service account's project
+ */
+
+// Matches ALERT_HISTORY_LIMIT in the dashboard builder
+const HISTORY_LIMIT = 100
+// Rules stop running this long after the owner's access was last checked;
+// the builder re-registers them whenever the dashboard is opened or saved
+const VERIFIED_FOR_MS = 30 * 24 * 60 * 60 * 1000
+// Dashboards checked at once, and when to stop starting more so the run
+// finishes inside the function's maxDuration (vercel.json)
+const CONCURRENCY = 4
+const TIME_BUDGET_MS = 45_000
+
+// ---- Rules ----
+
+/** A rule as api/alerts/schedule stored it, with its table's source */
+interface ScheduledRule extends TableSource {
+  ruleId: string
+  ruleName: string
+  widgetId: string
+  tableId: string
+  aggregation: { alias: string; op: 'COUNT' | 'SUM' | 'AVG'; field?: string }
+  where?: Record<string, unknown>
+  dateColumn?: string
+  period?: string
+  operator: 'gt' | 'gte' | 'lt' | 'lte' | 'eq'
+  threshold: number
+}
+
+/**
+ * Start of an alert window or metric timeframe, as the dashboard computes it.
+ * `timezoneOffset` is the author's, so "today" starts at their midnight.
+ */
+function periodStart(period: string, timezoneOffset: number, now = new Date()): Date | null {
+  const offsetMs = timezoneOffset * 60000
+  // UTC fields of `local` read as the author's wall clock
+  const local = new Date(now.getTime() - offsetMs)
+  const localDate = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day) + offsetMs)
+  switch (period) {
+    case '1h': case '2h': case '6h': case '24h':
+      return new Date(now.getTime() - parseInt(period) * 3600000)
+    case 'today': return localDate(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate())
+    case '7d': return new Date(now.getTime() - 7 * 86400000)
+    case '30d': return new Date(now.getTime() - 30 * 86400000)
+    case '90d': return new Date(now.getTime() - 90 * 86400000)
+    case 'this_month': return localDate(local.getUTCFullYear(), local.getUTCMonth(), 1)
+    case 'this_year': return localDate(local.getUTCFullYear(), 0, 1)
+    default: return null
+  }
+}
+
+function isTriggered(value: number | null, rule: ScheduledRule): boolean {
+  // No matching documents counts as zero, as in the dashboard
+  const v = value ?? 0
+  switch (rule.operator) {
+    case 'gt': return v > rule.threshold
+    case 'gte': return v >= rule.threshold
+    case 'lt': return v < rule.threshold
+    case 'lte': return v <= rule.threshold
+    case 'eq': return v === rule.threshold
+  }
+}
+
+async function evaluateRule(token: string, rule: ScheduledRule, timezoneOffset: number): Promise<number | null> {
+  const { url, from } = sourceQuery(rule)
+  const filters: Record<string, unknown>[] = rule.where ? [rule.where] : []
+  const start = rule.dateColumn && rule.period ? periodStart(rule.period, timezoneOffset) : null
+  if (start) {
+    filters.push({
+      fieldFilter: {
+        field: { fieldPath: toFieldPath(rule.dateColumn!) },
+        op: 'GREATER_THAN_OR_EQUAL',
+        value: { timestampValue: start.toISOString() },
+      },
+    })
+  }
+
+  const { alias, op, field } = rule.aggregation
+  const aggregation =
+    op === 'COUNT' ? { alias, count: {} }
+      : { alias, [op === 'SUM' ? 'sum' : 'avg']: { field: { fieldPath: toFieldPath(field ?? '') } } }
+
+  const results = await firestoreFetch<Array<{ result?: { aggregateFields?: Record<string, FirestoreValue> } }>>(
+    token,
+    `${url}:runAggregationQuery`,
+    {
+      method: 'POST',
+      body: JSON.stringify({
+        structuredAggregationQuery: {
+          structuredQuery: {
+            from: [from],
+            ...(filters.length === 1 ? { where: filters[0] } : {}),
+            ...(filters.length > 1 ? { where: { compositeFilter: { op: 'AND', filters } } } : {}),
+          },
+          aggregations: [aggregation],
+        },
+      }),
+    }
+  )
+
+  const value = results.find((r) => r.result)?.result?.aggregateFields?.[alias]
+  return value ? (fromValue(value) as number | null) : null
+}
+
+/** Latest state of each rule from the dashboard's alert history */
+async function latestRuleStates(token: string, dashboardUrl: string): Promise<Map<string, string>> {
+  const results = await firestoreFetch<Array<{ document?: FirestoreDocument }>>(token, `${dashboardUrl}:runQuery`, {
+    method: 'POST',
+    body: JSON.stringify({
+      structuredQuery: {
+        from: [{ collectionId: 'alertEvents' }],
+        orderBy: [{ field: { fieldPath: 'firedAt' }, direction: 'DESCENDING' }],
+        limit: HISTORY_LIMIT,
+      },
+    }),
+  })
+
+  const states = new Map<string, string>()
+  for (const r of results) {
+    if (!r.document?.fields) continue
+    const event = fromFields(r.document.fields)
+    const ruleId = String(event.ruleId)
+    if (!states.has(ruleId)) states.set(ruleId, String(event.state))
+  }
+  return states
+}
+
+/**
+ * Whether a rule's source is still the one the owner was checked against:
+ * their table must still read it and it must be in verifiedSources, which
+ * only api/alerts/schedule writes.
+ */
+function isSourceVerified(rule: ScheduledRule, table: Record<string, unknown> | null, verifiedSources: string[]): boolean {
+  const source = table ? tableSource(table) : null
+  return !!source && sourceKey(source) === sourceKey(rule) && verifiedSources.includes(sourceKey(rule))
+}
+
+interface ScheduledDashboard {
+  uid: string
+  dashboardId: string
+  rules?: ScheduledRule[]
+  timezoneOffset?: number
+  verifiedSources?: string[]
+  verifiedAt?: string
+  lastEvaluatedAt?: string
+}
+
+interface RunTotals {
+  checked: number
+  fired: number
+  failures: string[]
+}
+
+/** Checks one dashboard's rules and records any crossings in its alert history */
+async function evaluateDashboard(token: string, appDb: string, entry: ScheduledDashboard, totals: RunTotals): Promise<void> {
+  const { uid, dashboardId, rules, timezoneOffset, verifiedSources = [] } = entry
+  const dashboardUrl = `${appDb}/users/${uid}/dashboards/${dashboardId}`
+
+  // Rules stay registered for archived dashboards, which are restorable
+  const dashboard = await getDocument(token, dashboardUrl)
+  if (!dashboard || dashboard.fields?.archived?.booleanValue === true) return
+
+  const tables = new Map<string, Record<string, unknown> | null>()
+  const states = await latestRuleStates(token, dashboardUrl)
+  for (const rule of rules ?? []) {
+    if (!tables.has(rule.tableId)) {
+      const tableDoc = await getDocument(token, `${appDb}/users/${uid}/tables/${rule.tableId}`)
+      tables.set(rule.tableId, tableDoc?.fields ? fromFields(tableDoc.fields) : null)
+    }
+    if (!isSourceVerified(rule, tables.get(rule.tableId) ?? null, verifiedSources)) {
+      totals.failures.push(`${dashboardId}/${rule.ruleId}: source not verified for the owner`)
+      continue
+    }
+
+    let value: number | null
+    try {
+      value = await evaluateRule(token, rule, timezoneOffset ?? 0)
+    } catch (error) {
+      totals.failures.push(`${dashboardId}/${rule.ruleId}: ${error instanceof Error ? error.message : error}`)
+      continue
+    }
+    totals.checked++
+
+    const triggered = isTriggered(value, rule)
+    const previous = states.get(rule.ruleId)
+    // Only a change is an event; a rule that has never fired has nothing to resolve
+    if (triggered ? previous === 'triggered' : previous !== 'triggered') continue
+
+    await firestoreFetch(token, `${dashboardUrl}/alertEvents`, {
+      method: 'POST',
+      body: JSON.stringify({
+        fields: toFields({
+          widgetId: rule.widgetId,
+          ruleId: rule.ruleId,
+          ruleName: rule.ruleName,
+          state: triggered ? 'triggered' : 'resolved',
+          value,
+          operator: rule.operator,
+          threshold: rule.threshold,
+          source: 'schedule',
+          firedAt: new Date(),
+        }),
+      }),
+    })
+    totals.fired++
+  }
+}
+
+// ---- Handler ----
+
+function sendError(res: VercelResponse, status: number, message: string) {
+  return res.status(status).json({ error: message })
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return sendError(res, 405, 'Method not allowed')
+  }
+
+  const cronSecret = process.env.CRON_SECRET
+  const serviceAccountJson = process.env.FIREBASE_SERVICE_ACCOUNT
+  if (!cronSecret || !serviceAccountJson) {
+    return sendError(res, 500, 'Scheduled alerts not configured')
+  }
+  if (req.headers.authorization !== `Bearer ${cronSecret}`) {
+    return sendError(res, 401, 'Unauthorized')
+  }
+
+  const startedAt = Date.now()
+  try {
+    const account: ServiceAccount = JSON.parse(serviceAccountJson)
+    const appDb = appDocumentsUrl(account)
+    const token = await getAccessToken(account)
+
+    const entries = (await listDocuments(token, `${appDb}/scheduledAlerts`))
+      .map((d) => ({ url: `${FIRESTORE_BASE}/${d.name}`, data: fromFields(d.fields ?? {}) as unknown as ScheduledDashboard }))
+      // Only rules registered through api/alerts/schedule, recently enough, under their owner's key
+      .filter(({ url, data }) => url.endsWith(`/scheduledAlerts/${data.uid}_${data.dashboardId}`))
+      .filter(({ data }) => data.verifiedAt && startedAt - Date.parse(data.verifiedAt) < VERIFIED_FOR_MS)
+      // Longest-waiting first, so dashboards a run didn't reach go first next time
+      .sort((a, b) => (a.data.lastEvaluatedAt ?? '').localeCompare(b.data.lastEvaluatedAt ?? ''))
+
+    const totals: RunTotals = { checked: 0, fired: 0, failures: [] }
+    let started = 0
+    let evaluated = 0
+    for (let i = 0; i < entries.length && Date.now() - startedAt < TIME_BUDGET_MS; i += CONCURRENCY) {
+      const batch = entries.slice(i, i + CONCURRENCY)
+      started += batch.length
+      await Promise.all(batch.map(async ({ url, data }) => {
+        try {
+          await evaluateDashboard(token, appDb, data, totals)
+          await patchDocument(token, url, { lastEvaluatedAt: new Date() })
+          evaluated++
+        } catch (error) {
+          totals.failures.push(`${data.dashboardId}: ${error instanceof Error ? error.message : error}`)
+        }
+      }))
+    }
+
+    if (totals.failures.length > 0) console.error('Scheduled alert failures:', totals.failures)
+    return res.status(200).json({
+      dashboards: entries.length,
+      evaluated,
+      // Left for the next run once the time budget ran out
+      deferred: entries.length - started,
+      checked: totals.checked,
+      fired: totals.fired,
+      failed: totals.failures.length,
+    })
+  } catch (error) {
+    console.error('Scheduled alerts error:', error)
+    return sendError(res, 500, 'Internal server error')
+  }
+}
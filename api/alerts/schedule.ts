@@ -0,0 +1,166 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import {
+  appDocumentsUrl,
+  bearerToken,
+  canReadSource,
+  deleteDocument,
+  fromFields,
+  getAccessToken,
+  getDocument,
+  patchDocument,
+  sourceKey,
+  tableSource,
+  verifyIdToken,
+  type ServiceAccount,
+  type TableSource,
+} from '../_lib/firestore.js'
+
+/**
+ * Registers a dashboard's scheduled alert rules for api/alerts/evaluate. The
+ * dashboard builder posts the rules whenever they change; an empty list
+ * removes them. The owner comes from the ID token and each rule's source from
+ * the owner's saved table, and the owner's Google token must be able to read
+ * that source — the cron reads it later with the service account, so this is
+ * the only place the owner's own access is checked. The sources that passed
+ * are stored with the rules as verifiedSources, in
+ * scheduledAlerts/{uid}_{dashboardId}.
+ *
+ * Usage:
+ *   POST /api/alerts/schedule
+ *   Authorization: Bearer <Firebase ID token>
+ *   X-Google-Access-Token: <the owner's Google OAuth token>
+ *   Body: { dashboardId, rules, timezoneOffset }
+ *
+ * Environment:
+ *   FIREBASE_SERVICE_ACCOUNT   service account key JSON for the Firegrid project
+ *   FIREBASE_PROJECT_ID        Firegrid project, default the service account's project
+ *   VITE_FIREBASE_API_KEY (or FIREBASE_API_KEY)  for checking ID tokens
+ */
+
+const MAX_RULES = 50
+const OPERATORS = ['gt', 'gte', 'lt', 'lte', 'eq']
+const AGGREGATIONS = ['COUNT', 'SUM', 'AVG']
+
+/** A rule as the builder sends it; the source fields are filled in here */
+interface RuleInput {
+  ruleId: string
+  ruleName: string
+  widgetId: string
+  tableId: string
+  aggregation: { alias: string; op: string; field?: string }
+  where?: Record<string, unknown>
+  dateColumn?: string
+  period?: string
+  operator: string
+  threshold: number
+}
+
+function isRuleInput(value: unknown): value is RuleInput {
+  const r = value as RuleInput
+  return (
+    typeof r === 'object' && r !== null &&
+    typeof r.ruleId === 'string' && typeof r.ruleName === 'string' &&
+    typeof r.widgetId === 'string' && typeof r.tableId === 'string' && /^[\w-]+$/.test(r.tableId) &&
+    typeof r.aggregation?.alias === 'string' && AGGREGATIONS.includes(r.aggregation.op) &&
+    (r.aggregation.op === 'COUNT' || typeof r.aggregation.field === 'string') &&
+    (r.where === undefined || (typeof r.where === 'object' && r.where !== null)) &&
+    (r.dateColumn === undefined || typeof r.dateColumn === 'string') &&
+    (r.period === undefined || typeof r.period === 'string') &&
+    OPERATORS.includes(r.operator) && Number.isFinite(r.threshold)
+  )
+}
+
+function sendError(res: VercelResponse, status: number, message: string) {
+  return res.status(status).json({ error: message })
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    return sendError(res, 405, 'Method not allowed')
+  }
+
+  const serviceAccountJson = process.env.FIREBASE_SERVICE_ACCOUNT
+  const firebaseApiKey = process.env.VITE_FIREBASE_API_KEY || process.env.FIREBASE_API_KEY
+  if (!serviceAccountJson || !firebaseApiKey) {
+    return sendError(res, 500, 'Scheduled alerts not configured')
+  }
+
+  const idToken = bearerToken(req)
+  const user = idToken ? await verifyIdToken(idToken, firebaseApiKey) : null
+  if (!user) {
+    return sendError(res, 401, 'Sign in to schedule alerts')
+  }
+
+  const { dashboardId, rules, timezoneOffset } = (req.body ?? {}) as { dashboardId?: unknown; rules?: unknown; timezoneOffset?: unknown }
+  if (typeof dashboardId !== 'string' || !/^[\w-]+$/.test(dashboardId)) {
+    return sendError(res, 400, 'Invalid dashboard')
+  }
+  if (!Array.isArray(rules) || rules.length > MAX_RULES || !rules.every(isRuleInput)) {
+    return sendError(res, 400, 'Invalid alert rules')
+  }
+
+  try {
+    const account: ServiceAccount = JSON.parse(serviceAccountJson)
+    const appDb = appDocumentsUrl(account)
+    const token = await getAccessToken(account)
+    // Keyed by owner as well, since each user picks their own dashboard IDs
+    const scheduledUrl = `${appDb}/scheduledAlerts/${user.uid}_${dashboardId}`
+
+    const dashboardDoc = await getDocument(token, `${appDb}/users/${user.uid}/dashboards/${dashboardId}`)
+    if (!dashboardDoc) {
+      return sendError(res, 404, 'Dashboard not found')
+    }
+
+    if (rules.length === 0) {
+      if (await getDocument(token, scheduledUrl)) await deleteDocument(token, scheduledUrl)
+      return res.status(200).json({ scheduled: 0 })
+    }
+
+    const googleToken = req.headers['x-google-access-token']
+    if (typeof googleToken !== 'string' || !googleToken) {
+      return sendError(res, 401, 'Reconnect with Google to schedule alerts')
+    }
+
+    const sources = new Map<string, TableSource>()
+    for (const tableId of new Set(rules.map((r) => r.tableId))) {
+      const tableDoc = await getDocument(token, `${appDb}/users/${user.uid}/tables/${tableId}`)
+      const source = tableDoc?.fields ? tableSource(fromFields(tableDoc.fields)) : null
+      if (!source) {
+        return sendError(res, 400, 'Scheduled checks need a Firestore table')
+      }
+      if (!(await canReadSource(googleToken, source))) {
+        return sendError(res, 403, `Your Google account can't read ${source.collectionPath} in ${source.projectId}`)
+      }
+      sources.set(tableId, source)
+    }
+
+    const dashboard = fromFields(dashboardDoc.fields ?? {})
+    await patchDocument(token, scheduledUrl, {
+      uid: user.uid,
+      dashboardId,
+      dashboardName: String(dashboard.name ?? 'Dashboard'),
+      rules: rules.map((r) => ({
+        ruleId: r.ruleId,
+        ruleName: r.ruleName,
+        widgetId: r.widgetId,
+        tableId: r.tableId,
+        ...sources.get(r.tableId),
+        aggregation: r.aggregation,
+        where: r.where,
+        dateColumn: r.dateColumn,
+        period: r.period,
+        operator: r.operator,
+        threshold: r.threshold,
+      })),
+      // For "today" and "this month" in the author's time zone
+      timezoneOffset: Number.isFinite(timezoneOffset) ? Number(timezoneOffset) : 0,
+      verifiedSources: [...new Set([...sources.values()].map(sourceKey))],
+      verifiedAt: new Date(),
+      updatedAt: new Date(),
+    })
+    return res.status(200).json({ scheduled: rules.length })
+  } catch (error) {
+    console.error('Schedule alerts error:', error)
+    return sendError(res, 500, 'Failed to schedule the alerts')
+  }
+}
@@ -0,0 +1,156 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { randomBytes } from 'node:crypto'
+import {
+  FIRESTORE_BASE,
+  appDocumentsUrl,
+  bearerToken,
+  canReadSource,
+  deleteDocument,
+  fromFields,
+  getAccessToken,
+  getDocument,
+  listDocuments,
+  patchDocument,
+  sourceKey,
+  tableSource,
+  verifyIdToken,
+  type ServiceAccount,
+} from '../_lib/firestore.js'
+import { hashPassword, widgetTableIds } from '../_lib/shares.js'
+
+/**
+ * Publishes, updates and revokes a dashboard's read-only link. The owner
+ * comes from the ID token, and their Google token must be able to read every
+ * table the dashboard shows: api/share/snapshot reads them with the service
+ * account, so this is where the owner's own access is checked. The sources
+ * that passed are stored on sharedDashboards/{shareId} as verifiedSources,
+ * and the snapshot leaves out any table whose source isn't among them. The
+ * builder posts again whenever the dashboard's tables change.
+ *
+ * Usage:
+ *   POST /api/share/link      publishes the link, or updates and re-checks it
+ *   Body: { dashboardId, password?: string | null, allowedDomain?: string | null }
+ *   DELETE /api/share/link?dashboardId=<id>   revokes it
+ *   Authorization: Bearer <Firebase ID token>
+ *   X-Google-Access-Token: <the owner's Google OAuth token>   for POST
+ *
+ * Environment:
+ *   FIREBASE_SERVICE_ACCOUNT   service account key JSON for the Firegrid project
+ *   FIREBASE_PROJECT_ID        Firegrid project, default the service account's project
+ *   VITE_FIREBASE_API_KEY (or FIREBASE_API_KEY)  for checking ID tokens
+ */
+
+const MAX_PASSWORD_LENGTH = 200
+const DOMAIN_PATTERN = /^[a-z0-9-]+(\.[a-z0-9-]+)+$/
+
+function sendError(res: VercelResponse, status: number, message: string) {
+  return res.status(status).json({ error: message })
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST' && req.method !== 'DELETE') {
+    return sendError(res, 405, 'Method not allowed')
+  }
+
+  const serviceAccountJson = process.env.FIREBASE_SERVICE_ACCOUNT
+  const firebaseApiKey = process.env.VITE_FIREBASE_API_KEY || process.env.FIREBASE_API_KEY
+  if (!serviceAccountJson || !firebaseApiKey) {
+    return sendError(res, 500, 'Dashboard sharing not configured')
+  }
+
+  const idToken = bearerToken(req)
+  const user = idToken ? await verifyIdToken(idToken, firebaseApiKey) : null
+  if (!user) {
+    return sendError(res, 401, 'Sign in to share dashboards')
+  }
+
+  const body = (req.body ?? {}) as { dashboardId?: unknown; password?: unknown; allowedDomain?: unknown }
+  const dashboardId = req.method === 'DELETE' ? req.query.dashboardId : body.dashboardId
+  if (typeof dashboardId !== 'string' || !/^[\w-]+$/.test(dashboardId)) {
+    return sendError(res, 400, 'Invalid dashboard')
+  }
+  const { password, allowedDomain } = body
+  if (password !== undefined && password !== null && (typeof password !== 'string' || password.length > MAX_PASSWORD_LENGTH)) {
+    return sendError(res, 400, 'Invalid password')
+  }
+  const domain = typeof allowedDomain === 'string' ? allowedDomain.trim().toLowerCase().replace(/^@/, '') : allowedDomain
+  if (domain !== undefined && domain !== null && domain !== '' && (typeof domain !== 'string' || !DOMAIN_PATTERN.test(domain))) {
+    return sendError(res, 400, 'Enter a domain like example.com')
+  }
+
+  try {
+    const account: ServiceAccount = JSON.parse(serviceAccountJson)
+    const appDb = appDocumentsUrl(account)
+    const token = await getAccessToken(account)
+    const dashboardUrl = `${appDb}/users/${user.uid}/dashboards/${dashboardId}`
+
+    const dashboardDoc = await getDocument(token, dashboardUrl)
+    if (!dashboardDoc) {
+      return sendError(res, 404, 'Dashboard not found')
+    }
+    const dashboard = fromFields(dashboardDoc.fields ?? {})
+
+    // The dashboard's shareId is the owner's to write, so the link it names
+    // is only reused if it really is this dashboard's
+    const currentId = typeof dashboard.shareId === 'string' && /^[\w-]{16,}$/.test(dashboard.shareId) ? dashboard.shareId : null
+    const currentDoc = currentId ? await getDocument(token, `${appDb}/sharedDashboards/${currentId}`) : null
+    const current = currentDoc?.fields ? fromFields(currentDoc.fields) : null
+    const shareId = current?.uid === user.uid && current.dashboardId === dashboardId ? currentId : null
+
+    if (req.method === 'DELETE') {
+      if (shareId) {
+        await deleteDocument(token, `${appDb}/sharedDashboards/${shareId}`)
+        for (const attempts of await listDocuments(token, `${appDb}/shareAttempts/${shareId}/clients`)) {
+          await deleteDocument(token, `${FIRESTORE_BASE}/${attempts.name}`)
+        }
+      }
+      await patchDocument(token, dashboardUrl, { shareId: null })
+      return res.status(200).json({ shareId: null })
+    }
+
+    const googleToken = req.headers['x-google-access-token']
+    if (typeof googleToken !== 'string' || !googleToken) {
+      return sendError(res, 401, 'Reconnect with Google to share this dashboard')
+    }
+
+    const verifiedSources = new Set<string>()
+    for (const tableId of widgetTableIds((dashboard.widgets as Record<string, unknown>[] | undefined) ?? [])) {
+      if (!/^[\w-]+$/.test(tableId)) continue
+      const tableDoc = await getDocument(token, `${appDb}/users/${user.uid}/tables/${tableId}`)
+      const source = tableDoc?.fields ? tableSource(fromFields(tableDoc.fields)) : null
+      if (!source) continue
+      if (!(await canReadSource(googleToken, source))) {
+        return sendError(res, 403, `Your Google account can't read ${source.collectionPath} in ${source.projectId}`)
+      }
+      verifiedSources.add(sourceKey(source))
+    }
+
+    const id = shareId ?? randomBytes(15).toString('base64url')
+    const changes: Record<string, unknown> = {
+      uid: user.uid,
+      dashboardId,
+      verifiedSources: [...verifiedSources],
+      verifiedAt: new Date(),
+      updatedAt: new Date(),
+    }
+    if (!shareId) {
+      Object.assign(changes, { passwordSalt: null, passwordHash: null, allowedDomain: null, createdAt: new Date() })
+    }
+    if (password !== undefined) {
+      Object.assign(changes, password ? hashPassword(password as string) : { passwordSalt: null, passwordHash: null })
+    }
+    if (domain !== undefined) {
+      changes.allowedDomain = domain || null
+    }
+
+    await patchDocument(token, `${appDb}/sharedDashboards/${id}`, changes)
+    if (!shareId) await patchDocument(token, dashboardUrl, { shareId: id })
+
+    const hasPassword = password !== undefined ? !!password : !!current?.passwordHash && !!shareId
+    const domainNow = domain !== undefined ? domain || null : shareId ? current?.allowedDomain ?? null : null
+    return res.status(200).json({ shareId: id, hasPassword, allowedDomain: domainNow ?? '' })
+  } catch (error) {
+    console.error('Share link error:', error)
+    return sendError(res, 500, 'Failed to update the link')
+  }
+}
@@ -0,0 +1,328 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node'
+import { createHash } from 'node:crypto'
+import {
+  appDocumentsUrl,
+  bearerToken,
+  firestoreFetch,
+  fromFields,
+  getAccessToken,
+  getDocument,
+  incrementField,
+  patchDocument,
+  sourceKey,
+  sourceQuery,
+  tableSource,
+  toFieldPath,
+  verifyIdToken,
+  type FirestoreDocument,
+  type ServiceAccount,
+} from '../_lib/firestore.js'
+import { passwordMatches, referencedColumns, widgetTableIds } from '../_lib/shares.js'
+
+/**
+ * Read-only snapshot of a shared dashboard, for viewers without access to
+ * its Google Cloud project. The owner publishes a link from the dashboard
+ * builder through api/share/link, which writes sharedDashboards/{shareId};
+ * deleting that document revokes the link. The response holds the
+ * dashboard's widgets and the rows of each table they read, limited to the
+ * columns the widgets and filters use, so fields the owner never put on the
+ * dashboard stay private. Tables are only read from sources in the link's
+ * verifiedSources, which api/share/link checked the owner can read.
+ *
+ * firestore.rules lets a link's owner (its uid field) read
+ * sharedDashboards/{shareId}, and nobody write it; viewers go through this function.
+ *
+ * Usage:
+ *   GET /api/share/snapshot?id=<shareId>
+ *   X-Share-Password: <password>          when the link has one
+ *   Authorization: Bearer <Firebase ID token>  when the link is limited to an email domain
+ *
+ * Environment:
+ *   FIREBASE_SERVICE_ACCOUNT   service account key JSON for the Firegrid project; it also
+ *                              needs read access (Cloud Datastore Viewer) on each data project
+ *   FIREBASE_PROJECT_ID        Firegrid project, default the service account's project
+ *   VITE_FIREBASE_API_KEY (or FIREBASE_API_KEY)  for checking viewers' ID tokens
+ */
+
+// Responses are capped at 4.5 MB, so large tables are cut short (and flagged)
+const MAX_ROWS_PER_TABLE = 5000
+const PAGE_SIZE = 1000
+const SNAPSHOT_TTL_MS = 5 * 60 * 1000
+
+// ---- Password attempts ----
+
+// Counted per viewer in shareAttempts/{shareId}/clients/{client}, so the limit
+// holds across instances and one visitor guessing can't lock out the rest
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000
+const MAX_FAILED_ATTEMPTS = 10
+
+/** The viewer's IP address, hashed so it isn't stored */
+function clientKey(req: VercelRequest): string {
+  const forwarded = req.headers['x-forwarded-for']
+  const ip = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(',')[0].trim() || req.socket?.remoteAddress || 'unknown'
+  return createHash('sha256').update(ip).digest('hex').slice(0, 32)
+}
+
+interface AttemptWindow {
+  count: number
+  windowStart: string
+}
+
+/** Wrong passwords in the current window, or null if none */
+async function recentFailedAttempts(token: string, attemptsUrl: string): Promise<AttemptWindow | null> {
+  const doc = await getDocument(token, attemptsUrl)
+  const attempts = doc?.fields ? (fromFields(doc.fields) as unknown as AttemptWindow) : null
+  return attempts && Date.parse(attempts.windowStart) > Date.now() - ATTEMPT_WINDOW_MS ? attempts : null
+}
+
+/** Counts a wrong password; the first one after a window has passed starts a new window */
+async function recordFailedAttempt(token: string, attemptsUrl: string, current: AttemptWindow | null) {
+  if (current) {
+    await incrementField(token, attemptsUrl, 'count')
+  } else {
+    await patchDocument(token, attemptsUrl, { count: 1, windowStart: new Date() })
+  }
+}
+
+// ---- Firestore REST ----
+
+/** Same as flattenObject in the app: nested maps become dot paths, arrays are joined */
+function flattenObject(obj: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(obj)) {
+    const newKey = prefix ? `${prefix}.${key}` : key
+    if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+      Object.assign(result, flattenObject(value as Record<string, unknown>, newKey))
+    } else if (Array.isArray(value)) {
+      result[newKey] = value.map((v) => (typeof v === 'object' && v !== null ? JSON.stringify(v) : String(v))).join(', ')
+    } else {
+      result[newKey] = value
+    }
+  }
+  return result
+}
+
+// ---- Tables ----
+
+interface SharedTable {
+  id: string
+  tableName: string
+  projectId: string
+  collectionPath: string
+  isCollectionGroup?: boolean
+  databaseId?: string
+  columns: { sourcePath: string; alias: string; visible: boolean; dataType: string; order: number }[]
+  queryChunkCount?: number
+  queryGeneration?: string
+  queryData?: Record<string, unknown>[]
+  lastRefreshedAt?: string
+}
+
+/** A row with only the given columns */
+function pickColumns(row: Record<string, unknown>, columns: Set<string>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(row).filter(([key]) => columns.has(key)))
+}
+
+/** Documents of a Firestore table, projected to the given columns */
+async function fetchTableRows(token: string, table: SharedTable, columns: Set<string>): Promise<{ rows: Record<string, unknown>[]; truncated: boolean }> {
+  const isGroup = table.isCollectionGroup === true
+  const { url, from } = sourceQuery(table)
+
+  const fields = [...columns].filter((c) => !c.startsWith('__'))
+  const rows: Record<string, unknown>[] = []
+  let cursor: string | undefined
+
+  while (rows.length < MAX_ROWS_PER_TABLE) {
+    const results = await firestoreFetch<Array<{ document?: FirestoreDocument }>>(token, `${url}:runQuery`, {
+      method: 'POST',
+      body: JSON.stringify({
+        structuredQuery: {
+          from: [from],
+          select: { fields: (fields.length > 0 ? fields.map(toFieldPath) : ['__name__']).map((fieldPath) => ({ fieldPath })) },
+          orderBy: [{ field: { fieldPath: '__name__' }, direction: 'ASCENDING' }],
+          ...(cursor ? { startAt: { values: [{ referenceValue: cursor }], before: false } } : {}),
+          limit: Math.min(PAGE_SIZE, MAX_ROWS_PER_TABLE - rows.length),
+        },
+      }),
+    })
+
+    const documents = results.map((r) => r.document).filter((d): d is FirestoreDocument => !!d)
+    for (const doc of documents) {
+      const relative = doc.name.substring(doc.name.indexOf('/documents/') + '/documents/'.length)
+      const segments = relative.split('/')
+      rows.push(pickColumns({
+        __id: segments[segments.length - 1],
+        ...(isGroup ? { __path: relative, __parentId: segments.length >= 3 ? segments[segments.length - 3] : '' } : {}),
+        ...flattenObject(fromFields(doc.fields ?? {})),
+      }, columns))
+    }
+    if (documents.length < PAGE_SIZE) return { rows, truncated: false }
+    cursor = documents[documents.length - 1].name
+  }
+  return { rows, truncated: true }
+}
+
+/** A query table's stored result rows, inline or in queryChunks/ */
+async function fetchQueryTableRows(token: string, tableUrl: string, table: SharedTable): Promise<Record<string, unknown>[]> {
+  if (table.queryChunkCount === undefined) return table.queryData ?? []
+  const prefix = table.queryGeneration ? `${table.queryGeneration}_` : ''
+  const chunks = await Promise.all(
+    Array.from({ length: table.queryChunkCount }, (_, i) => getDocument(token, `${tableUrl}/queryChunks/${prefix}${i}`))
+  )
+  // A refresh that finished meanwhile has deleted this generation
+  if (chunks.some((chunk) => !chunk)) throw new Error(`Query table ${table.id} was re-run while loading`)
+  return chunks.flatMap((chunk) => (chunk?.fields ? (fromFields(chunk.fields).rows as Record<string, unknown>[]) ?? [] : []))
+}
+
+// ---- Handler ----
+
+interface Snapshot {
+  name: string
+  widgets: unknown[]
+  filters: unknown[]
+  tables: Omit<SharedTable, 'queryData' | 'queryChunkCount' | 'queryGeneration'>[]
+  rows: Record<string, Record<string, unknown>[]>
+  /** Names of tables cut short at MAX_ROWS_PER_TABLE */
+  truncated: string[]
+  /** Names of tables added since the owner's access was last checked, left empty */
+  unverified: string[]
+  takenAt: string
+}
+
+// Recent snapshots per link, so a room of viewers doesn't re-read every table
+const snapshots = new Map<string, { version: string; expiresAt: number; snapshot: Snapshot }>()
+
+function sendError(res: VercelResponse, status: number, message: string, requires?: 'password' | 'signin') {
+  return res.status(status).json({ error: message, ...(requires ? { requires } : {}) })
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return sendError(res, 405, 'Method not allowed')
+  }
+
+  const serviceAccountJson = process.env.FIREBASE_SERVICE_ACCOUNT
+  const firebaseApiKey = process.env.VITE_FIREBASE_API_KEY || process.env.FIREBASE_API_KEY
+  if (!serviceAccountJson || !firebaseApiKey) {
+    return sendError(res, 500, 'Dashboard sharing not configured')
+  }
+
+  const shareId = typeof req.query.id === 'string' ? req.query.id : ''
+  if (!/^[\w-]{16,}$/.test(shareId)) {
+    return sendError(res, 400, 'Invalid link')
+  }
+
+  try {
+    const account: ServiceAccount = JSON.parse(serviceAccountJson)
+    const appDb = appDocumentsUrl(account)
+    const token = await getAccessToken(account)
+
+    const shareDoc = await getDocument(token, `${appDb}/sharedDashboards/${shareId}`)
+    if (!shareDoc) {
+      return sendError(res, 404, 'This link has been revoked or doesn\u2019t exist')
+    }
+    const share = fromFields(shareDoc.fields ?? {}) as {
+      uid: string
+      dashboardId: string
+      passwordSalt?: string | null
+      passwordHash?: string | null
+      allowedDomain?: string | null
+      verifiedSources?: string[]
+    }
+
+    if (share.allowedDomain) {
+      const idToken = bearerToken(req)
+      const email = idToken ? (await verifyIdToken(idToken, firebaseApiKey))?.email : null
+      if (!email) {
+        return sendError(res, 401, `Sign in with your ${share.allowedDomain} Google account to view this dashboard`, 'signin')
+      }
+      if (!email.endsWith(`@${share.allowedDomain.toLowerCase()}`)) {
+        return sendError(res, 403, `This dashboard is only shared with ${share.allowedDomain} accounts`, 'signin')
+      }
+    }
+
+    if (share.passwordHash && share.passwordSalt) {
+      const attemptsUrl = `${appDb}/shareAttempts/${shareId}/clients/${clientKey(req)}`
+      const attempts = await recentFailedAttempts(token, attemptsUrl)
+      if (attempts && attempts.count >= MAX_FAILED_ATTEMPTS) {
+        return sendError(res, 429, 'Too many wrong passwords, try again later', 'password')
+      }
+      const password = req.headers['x-share-password']
+      if (typeof password !== 'string' || !password) {
+        return sendError(res, 401, 'This dashboard needs a password', 'password')
+      }
+      if (!passwordMatches(password, share.passwordSalt, share.passwordHash)) {
+        await recordFailedAttempt(token, attemptsUrl, attempts)
+        return sendError(res, 401, 'Wrong password', 'password')
+      }
+    }
+
+    const dashboardUrl = `${appDb}/users/${share.uid}/dashboards/${share.dashboardId}`
+    const dashboardDoc = await getDocument(token, dashboardUrl)
+    const dashboard = dashboardDoc?.fields ? fromFields(dashboardDoc.fields) : null
+    if (!dashboard || dashboard.archived === true) {
+      return sendError(res, 404, 'This dashboard is no longer available')
+    }
+
+    // A saved change to the dashboard or the link's settings replaces the cached snapshot
+    const version = `${dashboardDoc!.updateTime}:${shareDoc.updateTime}`
+    const cached = snapshots.get(shareId)
+    if (cached && cached.version === version && cached.expiresAt > Date.now()) {
+      return res.status(200).json(cached.snapshot)
+    }
+
+    const widgets = (dashboard.widgets as Record<string, unknown>[] | undefined) ?? []
+    const filters = (dashboard.filters as Record<string, unknown>[] | undefined) ?? []
+    const tables: Snapshot['tables'] = []
+    const rows: Snapshot['rows'] = {}
+    const truncated: string[] = []
+    const unverified: string[] = []
+
+    for (const tableId of widgetTableIds(widgets)) {
+      const tableUrl = `${appDb}/users/${share.uid}/tables/${tableId}`
+      const tableDoc = await getDocument(token, tableUrl)
+      if (!tableDoc?.fields) continue
+      const table = { id: tableId, ...fromFields(tableDoc.fields) } as SharedTable
+      const columns = referencedColumns(tableId, table.columns ?? [], widgets, filters)
+
+      const source = tableSource(table as unknown as Record<string, unknown>)
+      if (table.projectId === '__query__') {
+        rows[tableId] = (await fetchQueryTableRows(token, tableUrl, table)).map((row) => pickColumns(row, columns))
+      } else if (source && !share.verifiedSources?.includes(sourceKey(source))) {
+        rows[tableId] = []
+        unverified.push(table.tableName)
+      } else if (table.projectId !== '__csv__') {
+        const result = await fetchTableRows(token, table, columns)
+        rows[tableId] = result.rows
+        if (result.truncated) truncated.push(table.tableName)
+      }
+
+      tables.push({
+        id: tableId,
+        tableName: table.tableName,
+        projectId: table.projectId,
+        collectionPath: table.collectionPath,
+        isCollectionGroup: table.isCollectionGroup,
+        databaseId: table.databaseId,
+        columns: (table.columns ?? []).filter((c) => columns.has(c.sourcePath)),
+        lastRefreshedAt: table.lastRefreshedAt,
+      })
+    }
+
+    const snapshot: Snapshot = {
+      name: String(dashboard.name ?? 'Dashboard'),
+      widgets,
+      filters,
+      tables,
+      rows,
+      truncated,
+      unverified,
+      takenAt: new Date().toISOString(),
+    }
+    snapshots.set(shareId, { version, expiresAt: Date.now() + SNAPSHOT_TTL_MS, snapshot })
+    return res.status(200).json(snapshot)
+  } catch (error) {
+    console.error('Shared dashboard error:', error)
+    return sendError(res, 500, 'Failed to load the dashboard')
+  }
+}
@@ -10,6 +10,7 @@ import QueryPage from '@/pages/QueryPage'
 import QueryTablePage from '@/pages/QueryTablePage'
 import CsvTablePage from '@/pages/CsvTablePage'
 import DashboardCreatorPage from '@/pages/DashboardCreatorPage'
+import SharedDashboardPage from '@/pages/SharedDashboardPage'
 import CollectionExplorerPage from '@/pages/CollectionExplorerPage'
 import LightspeedCallbackPage from '@/pages/LightspeedCallbackPage'
 import SalesPage from '@/pages/SalesPage'
@@ -131,6 +132,8 @@ function AppRoutes() {
     <Routes>
       <Route path="/" element={<LandingPage />} />
       <Route path="/login" element={<LoginPage />} />
+      {/* Read-only dashboard links; access is checked by the snapshot API */}
+      <Route path="/share/:shareId" element={<SharedDashboardPage />} />
       <Route
         path="/dashboard"
         element={
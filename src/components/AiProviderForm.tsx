@@ -0,0 +1,91 @@
+import { AI_PROVIDER_PRESETS, isServerProvider, type AiProviderSettings } from '@/lib/ai-provider'
+
+const inputClass =
+  'w-full h-7 px-2 text-xs text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md placeholder:text-gray-400 focus:outline-none focus:ring-1 focus:ring-gray-400'
+
+interface AiProviderFormProps {
+  value: AiProviderSettings
+  onChange: (settings: AiProviderSettings) => void
+}
+
+/**
+ * Base URL, model and key for the OpenAI-compatible API the AI features use.
+ * Presets fill in the URL and a default model; any other server can be typed in.
+ */
+export default function AiProviderForm({ value, onChange }: AiProviderFormProps) {
+  const preset = AI_PROVIDER_PRESETS.find((p) => p.baseUrl === value.baseUrl.replace(/\/+$/, ''))
+  const viaServer = isServerProvider(value)
+
+  return (
+    <div className="grid grid-cols-[auto_1fr] items-center gap-x-3 gap-y-2">
+      <label className="text-[11px] font-medium text-gray-500 dark:text-gray-400">Provider</label>
+      <select
+        value={preset?.id ?? 'custom'}
+        onChange={(e) => {
+          const next = AI_PROVIDER_PRESETS.find((p) => p.id === e.target.value)
+          if (next) onChange({ ...value, baseUrl: next.baseUrl, model: next.model })
+          // Custom: clear the preset's URL so one can be typed in
+          else if (preset) onChange({ ...value, baseUrl: '' })
+        }}
+        className={inputClass}
+      >
+        {AI_PROVIDER_PRESETS.map((p) => (
+          <option key={p.id} value={p.id}>{p.label}</option>
+        ))}
+        <option value="custom">Other (OpenAI-compatible)</option>
+      </select>
+
+      {!viaServer && (
+        <>
+          <label className="text-[11px] font-medium text-gray-500 dark:text-gray-400">Base URL</label>
+          <input
+            type="url"
+            value={value.baseUrl}
+            onChange={(e) => onChange({ ...value, baseUrl: e.target.value })}
+            placeholder="https://my-llm.internal/v1"
+            className={inputClass}
+          />
+        </>
+      )}
+
+      <label className="text-[11px] font-medium text-gray-500 dark:text-gray-400">Model</label>
+      <input
+        type="text"
+        value={value.model}
+        onChange={(e) => onChange({ ...value, model: e.target.value })}
+        placeholder="gpt-4o-mini"
+        className={inputClass}
+      />
+
+      {viaServer ? (
+        <label className="col-start-2 flex items-center gap-1.5 text-[11px] text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={value.redactSamples === true}
+            onChange={(e) => onChange({ ...value, redactSamples: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          Don't send sample values, only field names and types
+        </label>
+      ) : (
+        <>
+          <label className="text-[11px] font-medium text-gray-500 dark:text-gray-400">API key</label>
+          <input
+            type="password"
+            value={value.apiKey}
+            onChange={(e) => onChange({ ...value, apiKey: e.target.value })}
+            placeholder={preset?.id === 'openai' ? 'sk-...' : 'Optional for local servers'}
+            autoComplete="off"
+            className={inputClass}
+          />
+        </>
+      )}
+
+      <p className="col-start-2 text-[11px] text-gray-400 dark:text-gray-500">
+        {viaServer
+          ? 'The server holds the API key and limits requests per user.'
+          : 'Saved in this browser for your account only.'}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,143 @@
+import { useRef, useState, type RefObject } from 'react'
+import { createPortal } from 'react-dom'
+import { BellRing, Bell, Check } from 'lucide-react'
+import { formatDatePretty } from '@/lib/dashboard-dates'
+import type { AlertEvent, DashboardWidget } from '@/lib/types'
+import { cn } from '@/lib/utils'
+import { useAnchoredPosition, useOutsideClose } from '@/lib/popover'
+import { ALERT_OPERATORS } from '@/lib/dashboard-alerts'
+
+// When the notification centre was last opened, per dashboard, in this browser
+const ALERTS_SEEN_KEY = 'firegrid_alerts_seen'
+
+function formatAlertTime(d: Date): string {
+  const mins = Math.round((Date.now() - d.getTime()) / 60000)
+  if (mins < 1) return 'Just now'
+  if (mins < 60) return `${mins}m ago`
+  if (mins < 24 * 60) return `${Math.round(mins / 60)}h ago`
+  return formatDatePretty(d, 'hour')
+}
+
+/** Bell in the toolbar with the dashboard's alert history */
+export default function AlertNotificationCentre({
+  dashboardId,
+  events,
+  widgets,
+}: {
+  dashboardId: string
+  events: AlertEvent[]
+  widgets: DashboardWidget[]
+}) {
+  const anchorRef = useRef<HTMLButtonElement>(null)
+  const [open, setOpen] = useState(false)
+  const [seenAt, setSeenAt] = useState(() => {
+    try {
+      return Number(localStorage.getItem(`${ALERTS_SEEN_KEY}:${dashboardId}`)) || 0
+    } catch {
+      return 0
+    }
+  })
+  const unread = events.filter((e) => e.state === 'triggered' && e.firedAt.getTime() > seenAt).length
+  // Rules firing now: their latest event is a trigger
+  const latestByRule = new Map<string, AlertEvent>()
+  for (const e of events) if (!latestByRule.has(e.ruleId)) latestByRule.set(e.ruleId, e)
+  const firing = [...latestByRule.values()].filter((e) => e.state === 'triggered').length
+
+  const toggle = () => {
+    if (!open) {
+      const now = Date.now()
+      setSeenAt(now)
+      try {
+        localStorage.setItem(`${ALERTS_SEEN_KEY}:${dashboardId}`, String(now))
+      } catch {
+        // localStorage unavailable
+      }
+    }
+    setOpen((v) => !v)
+  }
+
+  return (
+    <>
+      <button
+        ref={anchorRef}
+        onClick={toggle}
+        className={cn(
+          'relative p-1.5 rounded-md transition-colors cursor-pointer',
+          firing > 0 ? 'text-red-500 hover:bg-red-50' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+        )}
+        title={firing > 0 ? `${firing} ${firing === 1 ? 'alert' : 'alerts'} firing` : 'Alerts'}
+      >
+        {firing > 0 ? <BellRing size={14} /> : <Bell size={14} />}
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[14px] h-[14px] px-0.5 bg-red-500 text-white text-[8px] font-bold rounded-full flex items-center justify-center tabular-nums">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+      {open && <AlertHistoryPanel anchorRef={anchorRef} events={events} widgets={widgets} onClose={() => setOpen(false)} />}
+    </>
+  )
+}
+
+function AlertHistoryPanel({
+  anchorRef,
+  events,
+  widgets,
+  onClose,
+}: {
+  anchorRef: RefObject<HTMLButtonElement | null>
+  events: AlertEvent[]
+  widgets: DashboardWidget[]
+  onClose: () => void
+}) {
+  const panelRef = useRef<HTMLDivElement>(null)
+  const pos = useAnchoredPosition(anchorRef, 320)
+  useOutsideClose(panelRef, anchorRef, onClose)
+
+  if (!pos) return null
+
+  return createPortal(
+    <div
+      ref={panelRef}
+      style={{ position: 'fixed', top: pos.top, left: pos.left, zIndex: 9999 }}
+      className="bg-white border border-gray-200 rounded-md shadow-lg w-[320px]"
+    >
+      <div className="px-3 py-2 border-b border-gray-100">
+        <p className="text-xs font-medium text-gray-900">Alerts</p>
+        <p className="text-[10px] text-gray-400">Checked whenever the dashboard&apos;s data refreshes</p>
+      </div>
+      <div className="max-h-[360px] overflow-auto">
+        {events.length === 0 ? (
+          <p className="text-[11px] text-gray-400 text-center py-6">No alerts have fired yet</p>
+        ) : (
+          events.map((e) => {
+            const widget = widgets.find((w) => w.i === e.widgetId)
+            const op = ALERT_OPERATORS.find((o) => o.value === e.operator)?.label ?? e.operator
+            return (
+              <div key={e.id} className="flex items-start gap-2 px-3 py-2 border-b border-gray-50 last:border-b-0">
+                {e.state === 'triggered'
+                  ? <BellRing size={12} className="text-red-500 mt-0.5 shrink-0" />
+                  : <Check size={12} className="text-green-600 mt-0.5 shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <p className="text-[11px] text-gray-800 truncate">
+                    <span className="font-medium">{e.ruleName}</span>
+                    <span className="text-gray-400">{e.state === 'triggered' ? ' fired' : ' resolved'}</span>
+                  </p>
+                  <p className="text-[10px] text-gray-500 tabular-nums truncate">
+                    {widget?.metricConfig?.label || widget?.chartConfig?.label || 'Removed widget'}:{' '}
+                    {e.value === null ? '—' : e.value.toLocaleString(undefined, { maximumFractionDigits: 2 })} (alert {op} {e.threshold.toLocaleString()})
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-[10px] text-gray-400">{formatAlertTime(e.firedAt)}</p>
+                  {e.source === 'schedule' && <p className="text-[9px] text-gray-300">Scheduled</p>}
+                </div>
+              </div>
+            )
+          })
+        )}
+      </div>
+    </div>,
+    document.body
+  )
+}
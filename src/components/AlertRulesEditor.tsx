@@ -0,0 +1,106 @@
+import { Trash2, Plus } from 'lucide-react'
+import type { AlertRule, AlertOperator, AlertWindow } from '@/lib/types'
+import { cn } from '@/lib/utils'
+import { ALERT_OPERATORS, ALERT_WINDOW_LABELS } from '@/lib/dashboard-alerts'
+
+/** Alert rules section of the metric and chart config panels */
+export default function AlertRulesEditor({
+  rules,
+  onChange,
+  hasDateColumn,
+  showCategory,
+  scheduleBlocker,
+}: {
+  rules: AlertRule[]
+  onChange: (rules: AlertRule[]) => void
+  hasDateColumn: boolean
+  showCategory: boolean
+  /** Why rules can't be scheduled; undefined hides the option (charts) */
+  scheduleBlocker?: string | null
+}) {
+  const update = (id: string, patch: Partial<AlertRule>) =>
+    onChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)))
+  const inputCls = 'w-full text-xs border border-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-gray-300 focus:border-gray-300 bg-white'
+
+  return (
+    <div className="space-y-2">
+      {rules.map((rule) => (
+        <div key={rule.id} className="p-2 rounded-md border border-gray-200 space-y-1.5">
+          <div className="flex items-center gap-1.5">
+            <input
+              type="text"
+              value={rule.name}
+              onChange={(e) => update(rule.id, { name: e.target.value })}
+              placeholder="Alert name (optional)"
+              className={inputCls}
+            />
+            <button
+              onClick={() => onChange(rules.filter((r) => r.id !== rule.id))}
+              className="p-1 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-gray-100 cursor-pointer shrink-0"
+              title="Remove alert"
+            >
+              <Trash2 size={11} />
+            </button>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <span className="text-[10px] text-gray-500 shrink-0">When value</span>
+            <select
+              value={rule.operator}
+              onChange={(e) => update(rule.id, { operator: e.target.value as AlertOperator })}
+              className={cn(inputCls, 'w-14 shrink-0')}
+            >
+              {ALERT_OPERATORS.map((o) => (<option key={o.value} value={o.value}>{o.label}</option>))}
+            </select>
+            <input
+              type="number"
+              value={Number.isFinite(rule.threshold) ? rule.threshold : ''}
+              onChange={(e) => update(rule.id, { threshold: parseFloat(e.target.value) || 0 })}
+              className={inputCls}
+            />
+          </div>
+          {hasDateColumn && (
+            <select
+              value={rule.window ?? ''}
+              onChange={(e) => update(rule.id, { window: (e.target.value || undefined) as AlertWindow | undefined })}
+              className={inputCls}
+            >
+              <option value="">Over the widget&apos;s timeframe</option>
+              {Object.entries(ALERT_WINDOW_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
+            </select>
+          )}
+          {showCategory && (
+            <input
+              type="text"
+              value={rule.category ?? ''}
+              onChange={(e) => update(rule.id, { category: e.target.value || undefined })}
+              placeholder="Category (blank for the whole chart)"
+              className={inputCls}
+            />
+          )}
+          {scheduleBlocker !== undefined && (
+            <label
+              className={cn('flex items-center gap-1.5 text-[10px]', scheduleBlocker ? 'text-gray-400' : 'text-gray-600')}
+              title={scheduleBlocker ?? `Checked every 15 minutes on the server, even when the dashboard is closed, until it goes 30 days unopened${hasDateColumn ? '. Time windows need dates stored as Firestore timestamps' : ''}`}
+            >
+              <input
+                type="checkbox"
+                checked={!scheduleBlocker && rule.scheduled === true}
+                disabled={!!scheduleBlocker}
+                onChange={(e) => update(rule.id, { scheduled: e.target.checked || undefined })}
+                className="rounded border-gray-300"
+              />
+              Also check on a schedule
+            </label>
+          )}
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...rules, { id: `alert-${Date.now()}`, name: '', operator: 'gt', threshold: 0 }])}
+        className="flex items-center gap-1 text-[11px] text-gray-500 hover:text-gray-800 cursor-pointer"
+      >
+        <Plus size={11} />
+        Add alert
+      </button>
+    </div>
+  )
+}
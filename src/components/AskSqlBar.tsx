@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { Sparkles, Loader2, AlertCircle, AlertTriangle, CheckCircle2, Undo2, X, Settings2 } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import { generateSqlFromQuestion, type GeneratedSql, type SqlTableSchema } from '@/lib/openai'
+import {
+  getAiProviderSettings,
+  setAiProviderSettings,
+  isAiProviderConfigured,
+  describeAiProvider,
+  type AiProviderSettings,
+} from '@/lib/ai-provider'
+import AiProviderForm from './AiProviderForm'
+
+interface AskSqlBarProps {
+  /** Workbench tables the model may query */
+  tables: SqlTableSchema[]
+  /** Dry-runs SQL against sample rows; resolves to an error message, or null if it runs */
+  validate: (sql: string) => Promise<string | null>
+  /** Editor contents, restored by Undo */
+  currentSql: string
+  onSqlChange: (sql: string) => void
+  onClose: () => void
+}
+
+/**
+ * "Ask in English" box above the SQL editor: turns a question into SQL,
+ * checks it runs on sample rows, and puts it in the editor.
+ */
+export default function AskSqlBar({ tables, validate, currentSql, onSqlChange, onClose }: AskSqlBarProps) {
+  const { user } = useAuth()
+  const [provider, setProvider] = useState<AiProviderSettings>(() => getAiProviderSettings(user?.uid))
+  const [showSettings, setShowSettings] = useState(false)
+  const [question, setQuestion] = useState('')
+  const [generating, setGenerating] = useState(false)
+  const [attempt, setAttempt] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<GeneratedSql | null>(null)
+  const [previousSql, setPreviousSql] = useState<string | null>(null)
+
+  const handleGenerate = async () => {
+    if (!question.trim() || generating) return
+    setGenerating(true)
+    setError(null)
+    setResult(null)
+    try {
+      const generated = await generateSqlFromQuestion(provider, question.trim(), tables, { validate, onAttempt: setAttempt })
+      setPreviousSql(currentSql)
+      setResult(generated)
+      onSqlChange(generated.sql)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate SQL')
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  const handleUndo = () => {
+    if (previousSql === null) return
+    onSqlChange(previousSql)
+    setPreviousSql(null)
+    setResult(null)
+  }
+
+  const updateProvider = (settings: AiProviderSettings) => {
+    setProvider(settings)
+    setAiProviderSettings(user?.uid, settings)
+  }
+
+  const configured = isAiProviderConfigured(provider)
+
+  return (
+    <div className="px-4 py-2 border-b border-gray-100 dark:border-gray-700 bg-gray-50/60 dark:bg-gray-800/60 space-y-2">
+      <div className="flex items-center gap-2">
+        <Sparkles size={13} className="text-gray-400 shrink-0" />
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleGenerate()
+            if (e.key === 'Escape') onClose()
+          }}
+          placeholder={
+            tables.length > 0
+              ? `Ask in English, e.g. "Top 10 ${tables[0].alias} by created date"`
+              : 'Load tables to ask questions about them'
+          }
+          disabled={!configured || tables.length === 0}
+          autoFocus
+          className="flex-1 h-7 px-2 text-xs text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400 disabled:opacity-60"
+        />
+        <button
+          onClick={handleGenerate}
+          disabled={!configured || !question.trim() || generating || tables.length === 0}
+          className="flex items-center gap-1.5 h-7 px-3 text-xs font-medium text-white bg-gray-900 hover:bg-gray-800 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {generating ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+          {generating ? (attempt > 1 ? `Fixing (try ${attempt})…` : 'Writing SQL…') : 'Generate SQL'}
+        </button>
+        <button
+          onClick={() => setShowSettings((v) => !v)}
+          className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+          title={`AI provider: ${describeAiProvider(provider)}`}
+        >
+          <Settings2 size={13} />
+        </button>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200" title="Close">
+          <X size={13} />
+        </button>
+      </div>
+
+      {(showSettings || !configured) && (
+        <div className="max-w-md py-1">
+          {!configured && (
+            <p className="text-[11px] text-gray-500 flex items-center gap-1 mb-2">
+              <AlertCircle size={11} />
+              Set up an AI provider to ask questions in English.
+            </p>
+          )}
+          <AiProviderForm value={provider} onChange={updateProvider} />
+        </div>
+      )}
+
+      {error && (
+        <p className="text-[11px] text-red-600 flex items-center gap-1">
+          <AlertCircle size={11} />
+          {error}
+        </p>
+      )}
+
+      {result && (
+        <div className="flex items-start gap-2 text-[11px]">
+          {result.validationError ? (
+            <AlertTriangle size={12} className="text-amber-500 mt-px shrink-0" />
+          ) : (
+            <CheckCircle2 size={12} className="text-green-600 mt-px shrink-0" />
+          )}
+          <div className="flex-1 space-y-0.5">
+            {result.explanation && <p className="text-gray-600 dark:text-gray-300">{result.explanation}</p>}
+            <p className={result.validationError ? 'text-amber-600 dark:text-amber-400' : 'text-gray-400'}>
+              {result.validationError
+                ? `Still fails on sample rows after ${result.attempts} tries: ${result.validationError}`
+                : `Ran on sample rows${result.attempts > 1 ? ` after ${result.attempts} tries` : ''}. Review it, then run the query.`}
+            </p>
+          </div>
+          {previousSql !== null && (
+            <button
+              onClick={handleUndo}
+              className="flex items-center gap-1 text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 shrink-0"
+              title="Restore the SQL from before"
+            >
+              <Undo2 size={11} />
+              Undo
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
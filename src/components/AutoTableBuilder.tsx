@@ -17,14 +17,21 @@ import {
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { useAuth } from '@/contexts/AuthContext'
-import { listCollections, sampleDocuments } from '@/lib/firestore-rest'
+import { listCollections, sampleDocuments, DEFAULT_DATABASE_ID } from '@/lib/firestore-rest'
 import { discoverSchema } from '@/lib/utils'
 import {
   analyseCollectionsWithAI,
-  hasOpenAIKey,
   type CollectionSchema,
   type TableRecommendation,
 } from '@/lib/openai'
+import {
+  getAiProviderSettings,
+  setAiProviderSettings,
+  isAiProviderConfigured,
+  describeAiProvider,
+  type AiProviderSettings,
+} from '@/lib/ai-provider'
+import AiProviderForm from './AiProviderForm'
 import { db } from '@/lib/firebase'
 import { doc, setDoc, serverTimestamp } from 'firebase/firestore'
 
@@ -32,6 +39,7 @@ type Step = 'idle' | 'scanning' | 'analysing' | 'review' | 'building' | 'done' |
 
 interface Props {
   projectId: string
+  databaseId?: string
   open: boolean
   onClose: () => void
   onComplete: () => void
@@ -52,7 +60,7 @@ function getActiveStepIndex(step: Step): number {
   return -1
 }
 
-export default function AutoTableBuilder({ projectId, open, onClose, onComplete }: Props) {
+export default function AutoTableBuilder({ projectId, databaseId = DEFAULT_DATABASE_ID, open, onClose, onComplete }: Props) {
   const { user } = useAuth()
   const [step, setStep] = useState<Step>('idle')
   const [progress, setProgress] = useState('')
@@ -61,8 +69,8 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
   const [error, setError] = useState<string | null>(null)
   const [buildResults, setBuildResults] = useState<{ name: string; ok: boolean }[]>([])
   const [expandedIdx, setExpandedIdx] = useState<number | null>(null)
-  const [apiKeyInput, setApiKeyInput] = useState('')
-  const [needsKey, setNeedsKey] = useState(false)
+  const [provider, setProvider] = useState<AiProviderSettings>(() => getAiProviderSettings(user?.uid))
+  const [showProviderForm, setShowProviderForm] = useState(false)
   const [collectionCount, setCollectionCount] = useState(0)
   const [scannedCount, setScannedCount] = useState(0)
   const logEndRef = useRef<HTMLDivElement>(null)
@@ -73,7 +81,9 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
   }, [scanLog])
 
   // Reset on open
-  useEffect(() => {
+  const [wasOpen, setWasOpen] = useState(open)
+  if (open !== wasOpen) {
+    setWasOpen(open)
     if (open) {
       setStep('idle')
       setProgress('')
@@ -82,23 +92,32 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
       setError(null)
       setBuildResults([])
       setExpandedIdx(null)
-      setNeedsKey(!hasOpenAIKey())
+      setShowProviderForm(false)
       setCollectionCount(0)
       setScannedCount(0)
     }
-  }, [open])
+  }
+
+  const updateProvider = (settings: AiProviderSettings) => {
+    setProvider(settings)
+    setAiProviderSettings(user?.uid, settings)
+  }
+
+  const providerConfigured = isAiProviderConfigured(provider)
 
   const addLog = useCallback((msg: string) => {
     setScanLog((prev) => [...prev, msg])
   }, [])
 
   // ---- Step 1: Scan collections ----
+  const accessToken = user?.accessToken
+  const userId = user?.uid
+
   const startScan = useCallback(async () => {
-    if (!user?.accessToken) return
+    if (!accessToken) return
 
-    const effectiveKey = hasOpenAIKey() ? undefined : apiKeyInput.trim()
-    if (!hasOpenAIKey() && !effectiveKey) {
-      setNeedsKey(true)
+    if (!isAiProviderConfigured(provider)) {
+      setShowProviderForm(true)
       return
     }
 
@@ -112,7 +131,7 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
       addLog('Discovering collections…')
       setProgress('Listing collections')
 
-      const collections = await listCollections(user.accessToken, projectId)
+      const collections = await listCollections(accessToken, projectId, undefined, databaseId)
       setCollectionCount(collections.length)
       addLog(`Found ${collections.length} collection${collections.length === 1 ? '' : 's'}`)
 
@@ -130,7 +149,7 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
         addLog(`Sampling ${coll.path}…`)
 
         try {
-          const docs = await sampleDocuments(user.accessToken, projectId, coll.path, 20)
+          const docs = await sampleDocuments(accessToken, projectId, coll.path, 20, databaseId)
           if (docs.length === 0) {
             addLog(`  ↳ Empty, skipping`)
             continue
@@ -141,7 +160,7 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
 
           schemas.push({
             collectionPath: coll.path,
-            documentCount: docs.length,
+            documentCount: coll.documentCount ?? docs.length,
             fields: schema.map((f) => ({
               path: f.path,
               dataType: f.dataType,
@@ -167,18 +186,7 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
       setProgress('AI is analysing your data…')
       addLog('Sending schemas to AI for analysis…')
 
-      let recs: TableRecommendation[]
-      if (effectiveKey) {
-        const origKey = import.meta.env.VITE_OPENAI_API_KEY
-        ;(import.meta.env as Record<string, string>).VITE_OPENAI_API_KEY = effectiveKey
-        try {
-          recs = await analyseCollectionsWithAI(schemas)
-        } finally {
-          ;(import.meta.env as Record<string, string>).VITE_OPENAI_API_KEY = origKey ?? ''
-        }
-      } else {
-        recs = await analyseCollectionsWithAI(schemas)
-      }
+      const recs = await analyseCollectionsWithAI(provider, schemas)
 
       addLog(`AI recommended ${recs.length} table${recs.length === 1 ? '' : 's'}`)
       setRecommendations(recs)
@@ -190,7 +198,7 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
       setStep('error')
       addLog(`Error: ${msg}`)
     }
-  }, [user?.accessToken, projectId, addLog, apiKeyInput])
+  }, [accessToken, projectId, databaseId, addLog, provider])
 
   const toggleSelection = (idx: number) => {
     setRecommendations((prev) =>
@@ -202,7 +210,7 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
 
   // ---- Step 3: Build selected tables ----
   const buildTables = useCallback(async () => {
-    if (!user?.uid || !db) return
+    if (!userId || !db) return
     const selected = recommendations.filter((r) => r.selected)
     if (selected.length === 0) return
 
@@ -213,9 +221,10 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
     for (const rec of selected) {
       try {
         const id = crypto.randomUUID()
-        await setDoc(doc(db, 'users', user.uid, 'tables', id), {
+        await setDoc(doc(db, 'users', userId, 'tables', id), {
           tableName: rec.tableName,
           projectId,
+          ...(databaseId !== DEFAULT_DATABASE_ID ? { databaseId } : {}),
           collectionPath: rec.collectionPath,
           isCollectionGroup: false,
           columns: rec.columns,
@@ -231,7 +240,7 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
     setBuildResults(results)
     setStep('done')
     setProgress('')
-  }, [user?.uid, projectId, recommendations])
+  }, [userId, projectId, databaseId, recommendations])
 
   if (!open) return null
 
@@ -357,25 +366,23 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
                 ))}
               </div>
 
-              {/* API Key input if not set */}
-              {needsKey && (
+              {/* AI provider: summary, or the form when unset or being changed */}
+              {providerConfigured && !showProviderForm ? (
+                <div className="flex items-center justify-between text-xs">
+                  <span className="text-gray-400 dark:text-gray-500">
+                    AI provider: <span className="text-gray-600 dark:text-gray-300">{describeAiProvider(provider)}</span>
+                  </span>
+                  <button
+                    onClick={() => setShowProviderForm(true)}
+                    className="text-gray-500 hover:text-gray-800 dark:hover:text-gray-200"
+                  >
+                    Change
+                  </button>
+                </div>
+              ) : (
                 <div className="mb-4">
-                  <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1.5">
-                    OpenAI API Key
-                  </label>
-                  <input
-                    type="password"
-                    placeholder="sk-..."
-                    value={apiKeyInput}
-                    onChange={(e) => setApiKeyInput(e.target.value)}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter' && apiKeyInput.trim()) startScan()
-                    }}
-                    className="w-full text-sm border border-gray-200 dark:border-gray-600 rounded-md px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder:text-gray-400 focus:outline-none focus:ring-2 focus:ring-gray-200 dark:focus:ring-gray-600 focus:border-gray-300 dark:focus:border-gray-500"
-                  />
-                  <p className="text-[11px] text-gray-400 dark:text-gray-500 mt-1.5">
-                    No key found in environment. Your key is only used for this session.
-                  </p>
+                  <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-2">AI provider</p>
+                  <AiProviderForm value={provider} onChange={updateProvider} />
                 </div>
               )}
             </div>
@@ -687,7 +694,7 @@ export default function AutoTableBuilder({ projectId, open, onClose, onComplete
             {step === 'idle' && (
               <button
                 onClick={startScan}
-                disabled={needsKey && !apiKeyInput.trim()}
+                disabled={!providerConfigured}
                 className="flex items-center gap-1.5 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 text-sm font-medium rounded-md px-4 py-2 hover:bg-gray-800 dark:hover:bg-gray-200 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
               >
                 <Wand2 size={14} />
@@ -0,0 +1,102 @@
+import { useEffect, useRef, useState } from 'react'
+import { Clock, Check, Trash2, RefreshCw } from 'lucide-react'
+import { CACHE_TTL_OPTIONS, clearDocumentCache, getCacheSettings, setCacheSettings } from '@/lib/document-cache'
+import { cn, formatRelativeTime } from '@/lib/utils'
+
+interface CacheStatusProps {
+  /** When the displayed data was last confirmed against Firestore */
+  refreshedAt: Date | null
+  /** Fetch changes now, ignoring the cache TTL */
+  onRefresh?: () => void
+  refreshing?: boolean
+}
+
+/**
+ * "Last refreshed" indicator with a menu for the IndexedDB cache TTL.
+ */
+export default function CacheStatus({ refreshedAt, onRefresh, refreshing }: CacheStatusProps) {
+  const [open, setOpen] = useState(false)
+  const [ttlMinutes, setTtlMinutes] = useState(() => getCacheSettings().ttlMinutes)
+  const [cleared, setCleared] = useState(false)
+  const [now, setNow] = useState(() => Date.now())
+  const ref = useRef<HTMLDivElement>(null)
+
+  // Keep the relative time current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30_000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Close on outside click
+  useEffect(() => {
+    if (!open) return
+    function handleClick(e: MouseEvent) {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const handleTtlChange = (value: number) => {
+    setTtlMinutes(value)
+    setCacheSettings({ ttlMinutes: value })
+  }
+
+  const handleClear = () => {
+    clearDocumentCache()
+      .then(() => setCleared(true))
+      .catch((err) => console.error('Failed to clear cache:', err))
+  }
+
+  if (!refreshedAt) return null
+
+  return (
+    <div className="relative" ref={ref}>
+      <button
+        onClick={() => { setOpen((o) => !o); setCleared(false) }}
+        className="flex items-center gap-1 px-2 py-1.5 text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md transition-colors tabular-nums"
+        title={`Last refreshed ${refreshedAt.toLocaleString()}`}
+      >
+        <Clock className="h-3 w-3" />
+        {formatRelativeTime(refreshedAt, Math.max(now, refreshedAt.getTime()))}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-1 w-52 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-md shadow-lg z-50 py-1 text-xs">
+          <div className="px-3 py-1.5 text-[10px] font-medium text-gray-400 uppercase tracking-wide">
+            Keep cached data for
+          </div>
+          {CACHE_TTL_OPTIONS.map((opt) => (
+            <button
+              key={opt.value}
+              onClick={() => handleTtlChange(opt.value)}
+              className="w-full flex items-center justify-between px-3 py-1.5 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              {opt.label}
+              {ttlMinutes === opt.value && <Check className="h-3 w-3 text-gray-500" />}
+            </button>
+          ))}
+          <div className="my-1 border-t border-gray-100 dark:border-gray-700" />
+          {onRefresh && (
+            <button
+              onClick={() => { setOpen(false); onRefresh() }}
+              disabled={refreshing}
+              className="w-full flex items-center gap-2 px-3 py-1.5 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              <RefreshCw className={cn('h-3 w-3', refreshing && 'animate-spin')} />
+              Refresh now
+            </button>
+          )}
+          <button
+            onClick={handleClear}
+            disabled={cleared}
+            className="w-full flex items-center gap-2 px-3 py-1.5 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          >
+            <Trash2 className="h-3 w-3" />
+            {cleared ? 'Cache cleared' : 'Clear cached data'}
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,560 @@
+import { useState, useRef, useEffect } from 'react'
+import { TableProperties, Filter, Settings2, Copy, X, Loader2, AlertCircle } from 'lucide-react'
+import {
+  ResponsiveContainer,
+  ScatterChart,
+  CartesianGrid,
+  XAxis,
+  YAxis,
+  ZAxis,
+  Tooltip,
+  Legend,
+  Scatter,
+  ReferenceLine,
+  PieChart,
+  Pie,
+  Cell,
+  ComposedChart,
+  Line,
+  Area,
+  Bar,
+} from 'recharts'
+import type { DashboardWidget, SavedTable, WidgetFilter } from '@/lib/types'
+import { useWidgetServerFilter, useDashboardRowFilter, useCrossFilter } from '@/contexts/DashboardFiltersContext'
+import { useDashboardDataset } from '@/contexts/DashboardDataContext'
+import { applyWidgetFilters } from '@/lib/dashboard-filters'
+import {
+  buildChartData,
+  buildScatterData,
+  chartTypeOption,
+  CHART_COLOUR_DEFAULT,
+  type ScatterPoint,
+  chartSeriesColour,
+  chartValueLabel,
+  isPieChart,
+} from '@/lib/dashboard-charts'
+import DrillThroughPanel, { type DrillThrough } from '@/components/DrillThroughPanel'
+import { filterByTimeframe, chartCategory } from '@/lib/dashboard-dates'
+import { cn } from '@/lib/utils'
+import WidgetUpdatedAt from '@/components/WidgetUpdatedAt'
+import FilterPanel from '@/components/FilterPanel'
+import FirestoreErrorMessage from '@/components/FirestoreErrorMessage'
+
+export default function ChartCard({
+  widget,
+  savedTables,
+  editMode,
+  onRemove,
+  onDuplicate,
+  onOpenConfig,
+  onLabelChange,
+  onFiltersChange,
+}: {
+  widget: DashboardWidget
+  savedTables: SavedTable[]
+  editMode: boolean
+  onRemove: () => void
+  onDuplicate: () => void
+  onOpenConfig: () => void
+  onLabelChange: (label: string) => void
+  onFiltersChange: (filters: WidgetFilter[]) => void
+}) {
+  const config = widget.chartConfig
+  const isConfigured = !!config?.tableId && !!config?.categoryColumn
+
+  // Data
+  const sourceTable = isConfigured ? savedTables.find((t) => t.id === config!.tableId) : undefined
+  const serverFilter = useWidgetServerFilter(widget.filters, sourceTable)
+  const { rows, loading, error, loadedAt } = useDashboardDataset(sourceTable, serverFilter)
+  const dashboardRowFilter = useDashboardRowFilter(widget.i, sourceTable?.id)
+
+  // Filter panel
+  const [showFilters, setShowFilters] = useState(false)
+  const filterBtnRef = useRef<HTMLButtonElement>(null)
+
+  // Inline title editing
+  const [editingTitle, setEditingTitle] = useState(false)
+  const [draftTitle, setDraftTitle] = useState('')
+  const titleInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (editingTitle) setTimeout(() => { titleInputRef.current?.focus(); titleInputRef.current?.select() }, 50)
+  }, [editingTitle])
+
+  const commitTitle = () => {
+    setEditingTitle(false)
+    const trimmed = draftTitle.trim()
+    if (trimmed && trimmed !== config?.label) {
+      onLabelChange(trimmed)
+    }
+  }
+
+  const filteredRows = dashboardRowFilter.apply(applyWidgetFilters(rows, widget.filters))
+  const isScatter = config?.chartType === 'scatter'
+  const { data: chartData, series } = isConfigured && !isScatter && filteredRows.length > 0
+    ? buildChartData(filteredRows, config!)
+    : { data: [], series: [] }
+  const scatterData = isConfigured && isScatter && filteredRows.length > 0 ? buildScatterData(filteredRows, config!) : null
+  const isEmpty = isScatter ? !scatterData?.shown : chartData.length === 0
+
+  // Click a category to cross-filter the rest of the dashboard
+  const { selections, toggle: toggleSelection } = useCrossFilter()
+  const selectedCategory = selections.find((sel) => sel.sourceWidgetId === widget.i)?.value
+  const selectCategory = (name: string) => {
+    if (!config || isScatter) return
+    const trunc = config.dateTruncate ?? 'none'
+    toggleSelection(widget.i, [{
+      sourceWidgetId: widget.i,
+      tableId: config.tableId,
+      column: config.categoryColumn,
+      value: name,
+      keyKind: 'chart',
+      ...(trunc !== 'none' ? { dateTruncate: trunc } : {}),
+      label: name,
+    }])
+  }
+
+  // Drill-through: the rows behind the selected category, or behind the whole chart
+  const [drill, setDrill] = useState<DrillThrough | null>(null)
+  const openDrill = () => {
+    if (!config || !sourceTable) return
+    const trunc = config.dateTruncate ?? 'none'
+    const category = isScatter ? undefined : selectedCategory
+    const categoryLabel = sourceTable.columns.find((c) => c.sourcePath === config.categoryColumn)?.alias || config.categoryColumn
+    setDrill({
+      title: config.label || `${chartTypeOption(config.chartType).label} Chart`,
+      description: category !== undefined ? `${categoryLabel}: ${category}` : undefined,
+      table: sourceTable,
+      serverFilter,
+      select: (all) => {
+        const chartRows = filterByTimeframe(dashboardRowFilter.apply(applyWidgetFilters(all, widget.filters)), config)
+        return category === undefined
+          ? chartRows
+          : chartRows.filter((row) => chartCategory(row[config.categoryColumn], trunc).cat === category)
+      },
+    })
+  }
+  const typeOption = chartTypeOption(config?.chartType)
+  const TypeIcon = typeOption.icon
+  const activeFilterCount = (widget.filters ?? []).filter((f) => f.column && f.operator).length
+
+  // ----- Display card -----
+  const table = isConfigured ? savedTables.find((t) => t.id === config!.tableId) : undefined
+  const filterColumns = table ? table.columns.filter((c) => c.visible).map((c) => c.sourcePath) : (rows.length > 0 ? Object.keys(rows[0]).filter((k) => !k.startsWith('__')) : [])
+
+  return (
+    <div className="h-full bg-white rounded-md border border-gray-200 flex flex-col overflow-hidden shadow-sm hover:shadow-md transition-shadow group/chart">
+      {/* Header */}
+      <div className={cn(
+        'widget-drag-handle flex items-center justify-between px-3 py-2 shrink-0 select-none',
+        editMode ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'
+      )}>
+        <div className="flex items-center gap-2 min-w-0">
+          {editingTitle && editMode ? (
+            <input
+              ref={titleInputRef}
+              type="text"
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              onBlur={commitTitle}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitTitle()
+                if (e.key === 'Escape') setEditingTitle(false)
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+              className="w-full text-xs font-medium text-gray-900 bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none py-0"
+            />
+          ) : (
+            <h4
+              className={cn('text-xs font-medium text-gray-900 truncate', editMode && 'cursor-text')}
+              onDoubleClick={() => {
+                if (!editMode) return
+                setDraftTitle(config?.label || `${typeOption.label} Chart`)
+                setEditingTitle(true)
+              }}
+            >
+              {config?.label || `${typeOption.label} Chart`}
+            </h4>
+          )}
+          {scatterData && scatterData.shown < scatterData.total && (
+            <span
+              className="text-[9px] text-gray-400 tabular-nums shrink-0"
+              title={`Showing an evenly spaced sample of ${scatterData.shown.toLocaleString()} points; the trendline uses all ${scatterData.total.toLocaleString()}`}
+            >
+              {scatterData.shown.toLocaleString()} of {scatterData.total.toLocaleString()}
+            </span>
+          )}
+          {!editingTitle && <WidgetUpdatedAt at={loadedAt} className="shrink-0" />}
+        </div>
+        <div className="flex items-center gap-0.5 shrink-0 relative" onMouseDown={(e) => e.stopPropagation()}>
+          {isConfigured && sourceTable && (
+            <button
+              onClick={openDrill}
+              className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer"
+              title={selectedCategory !== undefined && !isScatter ? `View rows for ${selectedCategory}` : 'View rows'}
+            >
+              <TableProperties size={12} />
+            </button>
+          )}
+          <button
+            ref={filterBtnRef}
+            onClick={() => setShowFilters((v) => !v)}
+            className={cn(
+              'p-1 transition-colors rounded-md hover:bg-gray-100 cursor-pointer relative',
+              activeFilterCount > 0 ? 'text-gray-600' : 'text-gray-300 hover:text-gray-600'
+            )}
+            title="Filter data"
+          >
+            <Filter size={12} />
+            {activeFilterCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 w-3 h-3 bg-gray-700 text-white text-[7px] font-bold rounded-full flex items-center justify-center">
+                {activeFilterCount}
+              </span>
+            )}
+          </button>
+          {showFilters && (
+            <FilterPanel
+              filters={widget.filters ?? []}
+              columns={filterColumns}
+              onChange={onFiltersChange}
+              onClose={() => setShowFilters(false)}
+              anchorRef={filterBtnRef}
+            />
+          )}
+          {editMode && (
+            <>
+              <button onClick={onOpenConfig} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Configure chart">
+                <Settings2 size={12} />
+              </button>
+              <button onClick={onDuplicate} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Duplicate">
+                <Copy size={12} />
+              </button>
+              <button onClick={onRemove} className="p-1 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Remove chart">
+                <X size={12} />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Chart body */}
+      <div className="flex-1 overflow-hidden px-4 pt-2 pb-3">
+        {!isConfigured ? (
+          <div className="h-full flex flex-col items-center justify-center">
+            <TypeIcon size={24} className="text-gray-200 mb-2" />
+            <p className="text-xs text-gray-400">Not configured</p>
+            {editMode && (
+              <button onClick={onOpenConfig} className="mt-1.5 text-[10px] text-gray-500 hover:text-gray-700 underline cursor-pointer">Configure</button>
+            )}
+          </div>
+        ) : loading ? (
+          <div className="h-full flex flex-col items-center justify-center">
+            <Loader2 size={18} className="animate-spin text-gray-300 mb-1" />
+            <p className="text-[10px] text-gray-400">Loading…</p>
+          </div>
+        ) : error ? (
+          <div className="h-full flex flex-col items-center justify-center">
+            <AlertCircle size={16} className="text-gray-300 mb-1" />
+            <p className="text-[10px] text-gray-500"><FirestoreErrorMessage message={error} /></p>
+          </div>
+        ) : isEmpty ? (
+          <div className="h-full flex flex-col items-center justify-center">
+            <TypeIcon size={20} className="text-gray-200 mb-1" />
+            <p className="text-[10px] text-gray-400">No data to display</p>
+          </div>
+        ) : (
+          <ResponsiveContainer width="100%" height="100%">
+            {(() => {
+              const chartColour = config?.colour ?? CHART_COLOUR_DEFAULT
+              const chartType = config?.chartType ?? 'bar'
+              const formatTick = (v: unknown) => {
+                if (typeof v !== 'number') return String(v)
+                const abs = Math.abs(v)
+                if (abs >= 1_000_000) return `${(v / 1_000_000).toFixed(abs >= 10_000_000 ? 0 : 1)}M`
+                if (abs >= 1_000) return `${(v / 1_000).toFixed(abs >= 10_000 ? 0 : 1)}k`
+                return String(Math.round(v * 100) / 100)
+              }
+
+              if (scatterData) {
+                const columnLabel = (path: string | undefined) =>
+                  table?.columns.find((c) => c.sourcePath === path)?.alias || path || ''
+                const { groups, trend } = scatterData
+                return (
+                  <ScatterChart margin={{ top: 8, right: 12, left: -8, bottom: 0 }}>
+                    <CartesianGrid stroke="#F3F4F6" />
+                    <XAxis
+                      type="number"
+                      dataKey="x"
+                      name={columnLabel(config!.categoryColumn)}
+                      domain={['auto', 'auto']}
+                      tick={{ fontSize: 10, fill: '#9CA3AF' }}
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={formatTick}
+                    />
+                    <YAxis
+                      type="number"
+                      dataKey="y"
+                      name={columnLabel(config!.valueColumn)}
+                      domain={['auto', 'auto']}
+                      tick={{ fontSize: 10, fill: '#B0B5BD' }}
+                      tickLine={false}
+                      axisLine={false}
+                      width={40}
+                      tickFormatter={formatTick}
+                    />
+                    <ZAxis type="number" dataKey="z" range={config!.sizeColumn ? [24, 400] : [36, 36]} />
+                    <Tooltip
+                      cursor={{ stroke: '#D1D5DB', strokeDasharray: '4 4' }}
+                      content={({ active, payload }) => {
+                        if (!active || !payload?.length) return null
+                        const point = payload[0].payload as ScatterPoint
+                        const group = groups.length > 1 ? String(payload[0].name ?? '') : ''
+                        return (
+                          <div className="bg-gray-900 text-white px-3 py-1.5 rounded-md shadow-lg text-xs tabular-nums">
+                            {group && <p className="font-medium">{group}</p>}
+                            <p className="text-gray-300">{columnLabel(config!.categoryColumn)}: {point.x.toLocaleString()}</p>
+                            <p className="text-gray-300">{columnLabel(config!.valueColumn)}: {point.y.toLocaleString()}</p>
+                            {point.z !== undefined && (
+                              <p className="text-gray-300">{columnLabel(config!.sizeColumn)}: {point.z.toLocaleString()}</p>
+                            )}
+                          </div>
+                        )
+                      }}
+                    />
+                    {groups.length > 1 && (
+                      <Legend iconType="circle" iconSize={8} wrapperStyle={{ fontSize: 10, color: '#6B7280' }} />
+                    )}
+                    {groups.map((g, gi) => (
+                      <Scatter
+                        key={g.name}
+                        name={g.name}
+                        data={g.points}
+                        fill={chartSeriesColour(gi, chartColour)}
+                        fillOpacity={0.6}
+                        // Animating thousands of points stalls the page
+                        isAnimationActive={scatterData.shown <= 300}
+                      />
+                    ))}
+                    {trend && (
+                      <ReferenceLine
+                        segment={[{ x: trend.x1, y: trend.y1 }, { x: trend.x2, y: trend.y2 }]}
+                        stroke="#6B7280"
+                        strokeWidth={1.5}
+                        strokeDasharray="5 4"
+                        ifOverflow="hidden"
+                        label={{ value: `R² ${trend.r2.toFixed(2)}`, position: 'insideTopRight', fontSize: 10, fill: '#6B7280' }}
+                      />
+                    )}
+                  </ScatterChart>
+                )
+              }
+
+              const multiSeries = series.length > 1
+              const stacked = multiSeries && !!config?.stacked && !config?.valueSeries?.length
+              const valueSeries = config?.valueSeries ?? []
+              // Colour, shape, axis and legend name of each series
+              const seriesMeta = series.map((key, si) => {
+                const extra = valueSeries.find((vs) => vs.id === key)
+                if (extra) {
+                  return {
+                    key,
+                    kind: extra.display ?? 'line',
+                    axis: extra.axis ?? 'left',
+                    colour: extra.colour ?? chartSeriesColour(si, chartColour),
+                    name: chartValueLabel(extra),
+                  }
+                }
+                return {
+                  key,
+                  kind: chartType,
+                  axis: 'left' as const,
+                  colour: chartSeriesColour(si, chartColour),
+                  name: key === 'value' ? chartValueLabel(config!) : key,
+                }
+              })
+              const hasRightAxis = seriesMeta.some((m) => m.axis === 'right')
+
+              const tooltip = (
+                <Tooltip
+                  content={({ active, payload, label }) => {
+                    if (!active || !payload?.length) return null
+                    return (
+                      <div className="bg-gray-900 text-white px-3 py-1.5 rounded-md shadow-lg text-xs">
+                        <p className="font-medium">{label ?? payload[0].name}</p>
+                        {payload.map((p) => (
+                          <p key={String(p.dataKey ?? p.name)} className="text-gray-300 tabular-nums flex items-center gap-1.5">
+                            {multiSeries && <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: p.color }} />}
+                            {multiSeries && <span>{p.name}:</span>}
+                            {(p.value as number).toLocaleString()}
+                          </p>
+                        ))}
+                      </div>
+                    )
+                  }}
+                  cursor={chartType === 'bar' ? { fill: `${chartColour}10`, radius: 4 } : { stroke: chartColour, strokeWidth: 1, strokeDasharray: '4 4' }}
+                />
+              )
+
+              if (isPieChart(chartType)) {
+                return (
+                  <PieChart margin={{ top: 4, right: 8, left: 8, bottom: 4 }}>
+                    <Pie
+                      data={chartData}
+                      dataKey="value"
+                      nameKey="name"
+                      innerRadius={chartType === 'donut' ? '55%' : 0}
+                      outerRadius="80%"
+                      paddingAngle={chartType === 'donut' ? 1 : 0}
+                      stroke="#fff"
+                      className="cursor-pointer"
+                      onClick={(_, index) => selectCategory(String(chartData[index].name))}
+                      animationDuration={600}
+                      animationEasing="ease-out"
+                    >
+                      {chartData.map((d, i) => (
+                        <Cell
+                          key={String(d.name)}
+                          fill={chartSeriesColour(i, chartColour)}
+                          fillOpacity={selectedCategory === undefined || d.name === selectedCategory ? 1 : 0.3}
+                        />
+                      ))}
+                    </Pie>
+                    {tooltip}
+                    {chartData.length <= 12 && (
+                      <Legend iconType="circle" iconSize={8} wrapperStyle={{ fontSize: 10, color: '#6B7280' }} />
+                    )}
+                  </PieChart>
+                )
+              }
+
+              const maxLabelLen = Math.max(...chartData.map((d) => String(d.name).length))
+              const shouldAngle = chartData.length > 6 || maxLabelLen > 8
+              const xTickHeight = shouldAngle ? Math.min(90, Math.max(40, maxLabelLen * 3.2 + 16)) : 24
+              const interval = chartData.length > 40 ? Math.floor(chartData.length / 20) : chartData.length > 20 ? Math.floor(chartData.length / 12) : 0
+
+              const CustomXTick = ({ x, y, payload }: { x: number; y: number; payload: { value: string } }) => {
+                const label = String(payload.value)
+                const display = label.length > 14 ? label.slice(0, 12) + '…' : label
+                return (
+                  <g transform={`translate(${x},${y + 8})`}>
+                    <text
+                      x={0} y={0}
+                      textAnchor={shouldAngle ? 'end' : 'middle'}
+                      transform={shouldAngle ? 'rotate(-40)' : undefined}
+                      fontSize={10}
+                      fill="#9CA3AF"
+                    >
+                      {display}
+                    </text>
+                  </g>
+                )
+              }
+
+              return (
+                <ComposedChart
+                  data={chartData}
+                  margin={{ top: 4, right: hasRightAxis ? -8 : 8, left: -8, bottom: shouldAngle ? 4 : 0 }}
+                  barCategoryGap="20%"
+                  className="cursor-pointer"
+                  onClick={(state) => {
+                    if (state.activeLabel !== undefined) selectCategory(String(state.activeLabel))
+                  }}
+                >
+                  <defs>
+                    {seriesMeta.map((m, si) => {
+                      const faint = m.kind !== 'bar'
+                      return (
+                        <linearGradient key={m.key} id={`chartGrad-${widget.i}-${si}`} x1="0" y1="0" x2="0" y2="1">
+                          <stop offset="0%" stopColor={m.colour} stopOpacity={faint ? (stacked ? 0.5 : 0.25) : 0.85} />
+                          <stop offset="100%" stopColor={m.colour} stopOpacity={faint ? (stacked ? 0.3 : 0.02) : 0.5} />
+                        </linearGradient>
+                      )
+                    })}
+                  </defs>
+                  <CartesianGrid stroke="#F3F4F6" vertical={false} yAxisId="left" />
+                  <XAxis
+                    dataKey="name"
+                    tick={CustomXTick as never}
+                    tickLine={false}
+                    axisLine={false}
+                    interval={interval}
+                    height={xTickHeight}
+                  />
+                  <YAxis yAxisId="left" tick={{ fontSize: 10, fill: '#B0B5BD' }} tickLine={false} axisLine={false} width={40} tickFormatter={formatTick} />
+                  {hasRightAxis && (
+                    <YAxis yAxisId="right" orientation="right" tick={{ fontSize: 10, fill: '#B0B5BD' }} tickLine={false} axisLine={false} width={40} tickFormatter={formatTick} />
+                  )}
+                  {tooltip}
+                  {multiSeries && (
+                    <Legend iconType="circle" iconSize={8} wrapperStyle={{ fontSize: 10, color: '#6B7280' }} />
+                  )}
+                  {selectedCategory !== undefined && seriesMeta.some((m) => m.kind !== 'bar') && (
+                    <ReferenceLine x={selectedCategory} yAxisId="left" stroke={chartColour} strokeOpacity={0.35} strokeWidth={2} />
+                  )}
+                  {seriesMeta.map((m, si) => {
+                    if (m.kind === 'line') {
+                      return (
+                        <Line
+                          key={m.key}
+                          yAxisId={m.axis}
+                          type="monotone"
+                          dataKey={m.key}
+                          name={m.name}
+                          stroke={m.colour}
+                          strokeWidth={2}
+                          dot={multiSeries ? false : { r: 3, fill: '#fff', stroke: m.colour, strokeWidth: 2 }}
+                          activeDot={{ r: 5, fill: m.colour, stroke: '#fff', strokeWidth: 2 }}
+                          animationDuration={600}
+                          animationEasing="ease-out"
+                        />
+                      )
+                    }
+                    if (m.kind === 'area') {
+                      return (
+                        <Area
+                          key={m.key}
+                          yAxisId={m.axis}
+                          type="monotone"
+                          dataKey={m.key}
+                          name={m.name}
+                          stackId={stacked ? 'stack' : undefined}
+                          stroke={m.colour}
+                          strokeWidth={2}
+                          fill={`url(#chartGrad-${widget.i}-${si})`}
+                          animationDuration={600}
+                          animationEasing="ease-out"
+                        />
+                      )
+                    }
+                    return (
+                      <Bar
+                        key={m.key}
+                        yAxisId={m.axis}
+                        dataKey={m.key}
+                        name={m.name}
+                        stackId={stacked ? 'stack' : undefined}
+                        fill={`url(#chartGrad-${widget.i}-${si})`}
+                        // Only the top of a stack gets rounded corners
+                        radius={!stacked || si === series.length - 1 ? [4, 4, 0, 0] : undefined}
+                        maxBarSize={56}
+                        animationDuration={600}
+                        animationEasing="ease-out"
+                      >
+                        {selectedCategory !== undefined && chartData.map((d) => (
+                          <Cell key={String(d.name)} fillOpacity={d.name === selectedCategory ? 1 : 0.3} />
+                        ))}
+                      </Bar>
+                    )
+                  })}
+                </ComposedChart>
+              )
+            })()}
+          </ResponsiveContainer>
+        )}
+      </div>
+
+      {drill && <DrillThroughPanel drill={drill} onClose={() => setDrill(null)} />}
+    </div>
+  )
+}
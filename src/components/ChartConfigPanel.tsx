@@ -0,0 +1,475 @@
+import { useState, useEffect } from 'react'
+import { X, Trash2, Plus } from 'lucide-react'
+import type {
+  DashboardWidget,
+  SavedTable,
+  ChartConfig,
+  AggregationType,
+  DateTruncation,
+  ChartType,
+  ChartValueSeries,
+  AlertRule,
+} from '@/lib/types'
+import {
+  CHART_COLOUR_DEFAULT,
+  SCATTER_MAX_POINTS_DEFAULT,
+  isPieChart,
+  chartTypeOption,
+  CHART_TYPE_OPTIONS,
+  MAX_CHART_SERIES,
+  OTHER_SERIES,
+  chartSeriesColour,
+  chartValueLabel,
+  CHART_COLOUR_PRESETS,
+} from '@/lib/dashboard-charts'
+import { AGGREGATION_LABELS } from '@/lib/dashboard-metrics'
+import { cn } from '@/lib/utils'
+import { TIMEFRAME_LABELS } from '@/lib/dashboard-dates'
+import AlertRulesEditor from '@/components/AlertRulesEditor'
+
+/** Chart widget settings: type, series, colours, timeframe and alerts */
+export default function ChartConfigPanel({
+  widget,
+  savedTables,
+  onApply,
+  onClose,
+}: {
+  widget: DashboardWidget
+  savedTables: SavedTable[]
+  onApply: (config: ChartConfig) => void
+  onClose: () => void
+}) {
+  const config = widget.chartConfig
+  const [draftTableId, setDraftTableId] = useState(config?.tableId ?? '')
+  const [draftCategoryCol, setDraftCategoryCol] = useState(config?.categoryColumn ?? '')
+  const [draftValueCol, setDraftValueCol] = useState(config?.valueColumn ?? '')
+  const [draftAgg, setDraftAgg] = useState<AggregationType>(config?.aggregation ?? 'count')
+  const [draftDateColumn, setDraftDateColumn] = useState(config?.dateColumn ?? '')
+  const [draftTimeframe, setDraftTimeframe] = useState(config?.timeframe ?? 'all')
+  const [draftLabel, setDraftLabel] = useState(config?.label ?? '')
+  const [draftMaxBars, setDraftMaxBars] = useState(config?.maxBars ?? 20)
+  const [draftSortBy, setDraftSortBy] = useState<'value' | 'category'>(config?.sortBy ?? 'value')
+  const [draftDateTruncate, setDraftDateTruncate] = useState<DateTruncation>(config?.dateTruncate ?? 'none')
+  const [draftColour, setDraftColour] = useState(config?.colour ?? CHART_COLOUR_DEFAULT)
+  const [draftChartType, setDraftChartType] = useState<ChartType>(config?.chartType ?? 'bar')
+  const [draftSeriesColumn, setDraftSeriesColumn] = useState(config?.seriesColumn ?? '')
+  const [draftStacked, setDraftStacked] = useState(config?.stacked ?? false)
+  const [draftValueSeries, setDraftValueSeries] = useState<ChartValueSeries[]>(config?.valueSeries ?? [])
+  const [draftSizeColumn, setDraftSizeColumn] = useState(config?.sizeColumn ?? '')
+  const [draftColourColumn, setDraftColourColumn] = useState(config?.colourColumn ?? '')
+  const [draftTrendline, setDraftTrendline] = useState(config?.trendline ?? false)
+  const [draftMaxPoints, setDraftMaxPoints] = useState(config?.maxPoints ?? SCATTER_MAX_POINTS_DEFAULT)
+  const [draftAlerts, setDraftAlerts] = useState<AlertRule[]>(config?.alerts ?? [])
+  const isPie = isPieChart(draftChartType)
+  const isScatter = draftChartType === 'scatter'
+  // Series splits and extra values apply to bar, line and area charts
+  const canSplit = !isPie && !isScatter
+
+  const draftTable = savedTables.find((t) => t.id === draftTableId)
+  const draftColumns = draftTable?.columns.filter((c) => c.visible) ?? []
+  const dateColumns = draftColumns.filter((c) =>
+    ['timestamp', 'date', 'time', 'datetime'].some((t) => c.dataType.toLowerCase().includes(t)) ||
+    ['createdAt', 'updatedAt', 'created_at', 'updated_at', 'date', 'timestamp'].includes(c.sourcePath)
+  )
+
+  const selectedCatCol = draftColumns.find((c) => c.sourcePath === draftCategoryCol)
+  const isCategoryDate = selectedCatCol && (
+    ['timestamp', 'date', 'time', 'datetime'].some((t) => selectedCatCol.dataType.toLowerCase().includes(t)) ||
+    ['createdAt', 'updatedAt', 'created_at', 'updated_at', 'date', 'timestamp'].includes(selectedCatCol.sourcePath)
+  )
+
+  const canApply = draftTableId && draftCategoryCol && (isScatter ? draftValueCol : draftAgg === 'count' || draftValueCol)
+
+  // Auto-apply on every change
+  useEffect(() => {
+    if (!canApply) return
+    if (isScatter) {
+      onApply({
+        chartType: 'scatter',
+        tableId: draftTableId,
+        categoryColumn: draftCategoryCol,
+        valueColumn: draftValueCol,
+        aggregation: 'none',
+        label: draftLabel || `${draftValueCol} vs ${draftCategoryCol}`,
+        maxPoints: draftMaxPoints,
+        ...(draftSizeColumn ? { sizeColumn: draftSizeColumn } : {}),
+        ...(draftColourColumn ? { colourColumn: draftColourColumn } : {}),
+        ...(draftTrendline ? { trendline: true } : {}),
+        ...(draftDateColumn ? { dateColumn: draftDateColumn } : {}),
+        ...(draftTimeframe !== 'all' ? { timeframe: draftTimeframe } : {}),
+        ...(draftColour !== CHART_COLOUR_DEFAULT ? { colour: draftColour } : {}),
+      })
+      return
+    }
+    const newConfig: ChartConfig = {
+      chartType: draftChartType,
+      tableId: draftTableId,
+      categoryColumn: draftCategoryCol,
+      valueColumn: draftValueCol,
+      aggregation: draftAgg,
+      label: draftLabel || `${AGGREGATION_LABELS[draftAgg]} by ${draftCategoryCol}`,
+      maxBars: draftMaxBars,
+      sortBy: draftSortBy,
+      ...(draftDateTruncate !== 'none' ? { dateTruncate: draftDateTruncate } : {}),
+      ...(draftDateColumn ? { dateColumn: draftDateColumn } : {}),
+      ...(draftTimeframe !== 'all' ? { timeframe: draftTimeframe } : {}),
+      ...(draftColour !== CHART_COLOUR_DEFAULT ? { colour: draftColour } : {}),
+      ...(draftSeriesColumn && canSplit ? { seriesColumn: draftSeriesColumn } : {}),
+      ...(draftStacked && draftSeriesColumn && canSplit && draftChartType !== 'line' ? { stacked: true } : {}),
+      ...(draftValueSeries.length > 0 && canSplit ? { valueSeries: draftValueSeries } : {}),
+      ...(draftAlerts.length > 0 ? { alerts: draftAlerts } : {}),
+    }
+    onApply(newConfig)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftChartType, draftTableId, draftCategoryCol, draftValueCol, draftAgg, draftLabel, draftMaxBars, draftSortBy, draftDateTruncate, draftDateColumn, draftTimeframe, draftColour, draftSeriesColumn, draftStacked, draftValueSeries, draftSizeColumn, draftColourColumn, draftTrendline, draftMaxPoints, draftAlerts])
+
+  const inputCls = 'w-full mt-0.5 text-xs border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-300 focus:border-gray-300 bg-white'
+  const sectionLabel = 'text-[9px] font-semibold text-gray-400 uppercase tracking-widest mt-1 mb-1'
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 shrink-0">
+        <div className="flex items-center gap-2">
+          {(() => {
+            const Icon = chartTypeOption(draftChartType).icon
+            return <Icon size={14} className="text-gray-400" />
+          })()}
+          <h3 className="text-sm font-semibold text-gray-900">Configure Chart</h3>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-3">
+        {/* ── Chart Type ── */}
+        <div>
+          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Chart Type</label>
+          <div className="flex items-center flex-wrap bg-gray-100 p-0.5 rounded-md w-fit mt-1">
+            {CHART_TYPE_OPTIONS.map(({ value, label, icon: Icon }) => (
+              <button
+                key={value}
+                onClick={() => setDraftChartType(value)}
+                className={cn(
+                  'flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium rounded-md transition-colors',
+                  draftChartType === value ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-600 hover:bg-gray-200/70'
+                )}
+              >
+                <Icon className="h-3 w-3" />
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* ── Title ── */}
+        <div>
+          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Chart Title</label>
+          <input type="text" value={draftLabel} onChange={(e) => setDraftLabel(e.target.value)} placeholder="e.g. Revenue by Region" className={inputCls} />
+        </div>
+
+        {/* ── Data Source ── */}
+        <p className={sectionLabel}>Data</p>
+        <div>
+          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Table</label>
+          <select value={draftTableId} onChange={(e) => { setDraftTableId(e.target.value); setDraftCategoryCol(''); setDraftValueCol(''); setDraftDateColumn(''); setDraftSeriesColumn(''); setDraftValueSeries([]); setDraftSizeColumn(''); setDraftColourColumn('') }} className={inputCls}>
+            <option value="">Select a table…</option>
+            {savedTables.map((t) => (<option key={t.id} value={t.id}>{t.tableName}</option>))}
+          </select>
+        </div>
+
+        {/* ── X-Axis ── */}
+        {draftTableId && (
+          <>
+            <p className={sectionLabel}>{isPie ? 'Slices' : isScatter ? 'X-Axis (Numeric)' : 'X-Axis (Categories)'}</p>
+            <div>
+              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Column</label>
+              <select value={draftCategoryCol} onChange={(e) => { setDraftCategoryCol(e.target.value); setDraftDateTruncate('none') }} className={inputCls}>
+                <option value="">Select column…</option>
+                {draftColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
+              </select>
+            </div>
+
+            {draftCategoryCol && isCategoryDate && !isScatter && (
+              <div>
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Group Dates By</label>
+                <select value={draftDateTruncate} onChange={(e) => setDraftDateTruncate(e.target.value as DateTruncation)} className={inputCls}>
+                  <option value="none">Exact value</option>
+                  <option value="day">Day</option>
+                  <option value="week">Week</option>
+                  <option value="month">Month</option>
+                  <option value="year">Year</option>
+                </select>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* ── Series ── */}
+        {draftTableId && canSplit && draftValueSeries.length === 0 && (
+          <>
+            <p className={sectionLabel}>Series (optional)</p>
+            <div>
+              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Split By</label>
+              <select value={draftSeriesColumn} onChange={(e) => setDraftSeriesColumn(e.target.value)} className={inputCls}>
+                <option value="">None</option>
+                {draftColumns.filter((c) => c.sourcePath !== draftCategoryCol).map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
+              </select>
+              <p className="text-[9px] text-gray-400 mt-0.5">One series per value; the top {MAX_CHART_SERIES} are kept and the rest combined as "{OTHER_SERIES}"</p>
+            </div>
+
+            {draftSeriesColumn && draftChartType !== 'line' && (
+              <div>
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Layout</label>
+                <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
+                  {[false, true].map((stacked) => (
+                    <button
+                      key={String(stacked)}
+                      onClick={() => setDraftStacked(stacked)}
+                      className={cn(
+                        'px-2.5 py-1.5 text-xs font-medium rounded-md transition-colors',
+                        draftStacked === stacked ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-600 hover:bg-gray-200/70'
+                      )}
+                    >
+                      {stacked ? 'Stacked' : draftChartType === 'bar' ? 'Grouped' : 'Overlapping'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* ── Y-Axis ── */}
+        {draftTableId && isScatter && (
+          <>
+            <p className={sectionLabel}>Y-Axis (Numeric)</p>
+            <div>
+              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Column</label>
+              <select value={draftValueCol} onChange={(e) => setDraftValueCol(e.target.value)} className={inputCls}>
+                <option value="">Select column…</option>
+                {draftColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
+              </select>
+              <p className="text-[9px] text-gray-400 mt-0.5">Rows without a number in both columns are left out</p>
+            </div>
+
+            <p className={sectionLabel}>Points</p>
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Size By</label>
+                <select value={draftSizeColumn} onChange={(e) => setDraftSizeColumn(e.target.value)} className={inputCls}>
+                  <option value="">Fixed size</option>
+                  {draftColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Colour By</label>
+                <select value={draftColourColumn} onChange={(e) => setDraftColourColumn(e.target.value)} className={inputCls}>
+                  <option value="">Single colour</option>
+                  {draftColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
+                </select>
+              </div>
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="flex-1">
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Max Points</label>
+                <input type="number" min={50} max={10000} step={50} value={draftMaxPoints} onChange={(e) => setDraftMaxPoints(Math.min(10000, Math.max(50, parseInt(e.target.value) || SCATTER_MAX_POINTS_DEFAULT)))} className={inputCls} />
+              </div>
+              <label className="flex-1 flex items-center gap-1.5 pb-1.5 text-xs text-gray-600 cursor-pointer">
+                <input type="checkbox" checked={draftTrendline} onChange={(e) => setDraftTrendline(e.target.checked)} className="rounded border-gray-300" />
+                Trendline
+              </label>
+            </div>
+            <p className="text-[9px] text-gray-400">Larger tables are sampled down to Max Points; the trendline is fitted to every row</p>
+          </>
+        )}
+
+        {draftTableId && !isScatter && (
+          <>
+            <p className={sectionLabel}>Y-Axis (Values)</p>
+            <div>
+              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Aggregation</label>
+              <select value={draftAgg} onChange={(e) => { setDraftAgg(e.target.value as AggregationType); if (e.target.value === 'count') setDraftValueCol('') }} className={inputCls}>
+                {Object.entries(AGGREGATION_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
+              </select>
+            </div>
+
+            {draftAgg !== 'count' && (
+              <div>
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Value Column</label>
+                <select value={draftValueCol} onChange={(e) => setDraftValueCol(e.target.value)} className={inputCls}>
+                  <option value="">Select column…</option>
+                  {draftColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
+                </select>
+                <p className="text-[9px] text-gray-400 mt-0.5">Numeric values stored as text will be parsed automatically</p>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* ── More Values ── */}
+        {draftTableId && canSplit && !draftSeriesColumn && (
+          <>
+            <p className={sectionLabel}>More Values (optional)</p>
+            {draftValueSeries.map((vs, idx) => {
+              const update = (patch: Partial<ChartValueSeries>) =>
+                setDraftValueSeries((prev) => prev.map((v) => (v.id === vs.id ? { ...v, ...patch } : v)))
+              const colour = vs.colour ?? chartSeriesColour(idx + 1, draftColour)
+              return (
+                <div key={vs.id} className="border border-gray-200 rounded-md p-2 space-y-1.5">
+                  <div className="flex items-center gap-1.5">
+                    <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: colour }} />
+                    <input
+                      type="text"
+                      value={vs.label ?? ''}
+                      onChange={(e) => update({ label: e.target.value || undefined })}
+                      placeholder={chartValueLabel({ ...vs, label: undefined })}
+                      className={cn(inputCls, 'mt-0')}
+                    />
+                    <button
+                      onClick={() => setDraftValueSeries((prev) => prev.filter((v) => v.id !== vs.id))}
+                      className="p-1 text-gray-400 hover:text-red-500 transition-colors cursor-pointer shrink-0"
+                      title="Remove value"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                  <div className="flex gap-1.5">
+                    <select
+                      value={vs.aggregation}
+                      onChange={(e) => update({ aggregation: e.target.value as AggregationType, ...(e.target.value === 'count' ? { valueColumn: '' } : {}) })}
+                      className={cn(inputCls, 'flex-1')}
+                    >
+                      {Object.entries(AGGREGATION_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
+                    </select>
+                    {vs.aggregation !== 'count' && (
+                      <select value={vs.valueColumn} onChange={(e) => update({ valueColumn: e.target.value })} className={cn(inputCls, 'flex-1')}>
+                        <option value="">Column…</option>
+                        {draftColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
+                      </select>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1.5">
+                    <select value={vs.display ?? 'line'} onChange={(e) => update({ display: e.target.value as ChartValueSeries['display'] })} className={cn(inputCls, 'flex-1')}>
+                      <option value="bar">Bars</option>
+                      <option value="line">Line</option>
+                      <option value="area">Area</option>
+                    </select>
+                    <select value={vs.axis ?? 'left'} onChange={(e) => update({ axis: e.target.value as ChartValueSeries['axis'] })} className={cn(inputCls, 'flex-1')}>
+                      <option value="left">Left axis</option>
+                      <option value="right">Right axis</option>
+                    </select>
+                  </div>
+                  <div className="flex items-center gap-1 flex-wrap">
+                    {CHART_COLOUR_PRESETS.map((c) => (
+                      <button
+                        key={c}
+                        onClick={() => update({ colour: c })}
+                        className={cn(
+                          'w-4 h-4 rounded-full transition-all cursor-pointer border-2',
+                          colour === c ? 'border-gray-900' : 'border-transparent hover:scale-110'
+                        )}
+                        style={{ backgroundColor: c }}
+                        title={c}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )
+            })}
+            <button
+              onClick={() => setDraftValueSeries((prev) => [
+                ...prev,
+                { id: `series-${Date.now()}`, valueColumn: '', aggregation: 'count', display: 'line', axis: prev.length === 0 ? 'right' : 'left' },
+              ])}
+              className="flex items-center gap-1 text-[11px] font-medium text-gray-500 hover:text-gray-800 transition-colors cursor-pointer"
+            >
+              <Plus size={11} />
+              Add value
+            </button>
+            {draftValueSeries.length === 0 && (
+              <p className="text-[9px] text-gray-400">Plot another value per category, e.g. order count as a line over revenue bars</p>
+            )}
+          </>
+        )}
+
+        {/* ── Date Filter (optional) ── */}
+        {draftTableId && dateColumns.length > 0 && (
+          <>
+            <p className={sectionLabel}>Date Filter (optional)</p>
+            <div className="flex gap-2">
+              <div className="flex-1">
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Date Column</label>
+                <select value={draftDateColumn} onChange={(e) => setDraftDateColumn(e.target.value)} className={inputCls}>
+                  <option value="">None</option>
+                  {dateColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
+                </select>
+              </div>
+              {draftDateColumn && (
+                <div className="flex-1">
+                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Timeframe</label>
+                  <select value={draftTimeframe} onChange={(e) => setDraftTimeframe(e.target.value as ChartConfig['timeframe'])} className={inputCls}>
+                    {Object.entries(TIMEFRAME_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
+                  </select>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+
+        {/* ── Alerts ── */}
+        {draftTableId && !isScatter && (
+          <>
+            <p className={sectionLabel}>Alerts</p>
+            <AlertRulesEditor
+              rules={draftAlerts}
+              onChange={setDraftAlerts}
+              hasDateColumn={!!draftDateColumn}
+              showCategory
+            />
+          </>
+        )}
+
+        {/* ── Display ── */}
+        {draftTableId && (
+          <>
+            <p className={sectionLabel}>Display</p>
+            <div>
+              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Colour</label>
+              <div className="flex items-center gap-1.5 mt-1 flex-wrap">
+                {CHART_COLOUR_PRESETS.map((c) => (
+                  <button
+                    key={c}
+                    onClick={() => setDraftColour(c)}
+                    className={cn(
+                      'w-6 h-6 rounded-full transition-all cursor-pointer border-2',
+                      draftColour === c ? 'border-gray-900 scale-110' : 'border-transparent hover:scale-110'
+                    )}
+                    style={{ backgroundColor: c }}
+                    title={c}
+                  />
+                ))}
+              </div>
+            </div>
+            {!isScatter && (
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Sort By</label>
+                  <select value={draftSortBy} onChange={(e) => setDraftSortBy(e.target.value as 'value' | 'category')} className={inputCls}>
+                    <option value="value">Value (desc)</option>
+                    <option value="category">Category (A-Z)</option>
+                  </select>
+                </div>
+                <div className="flex-1">
+                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">{isPie ? 'Max Slices' : 'Max Bars'}</label>
+                  <input type="number" min={1} max={100} value={draftMaxBars} onChange={(e) => setDraftMaxBars(Math.max(1, parseInt(e.target.value) || 20))} className={inputCls} />
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+
+    </div>
+  )
+}
@@ -0,0 +1,162 @@
+import React, { useRef, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { Wand2, Hash, DollarSign, Percent, Calendar, CaseSensitive } from 'lucide-react'
+import type { ColFormatType, ColumnFormat } from '@/lib/types'
+import { cn } from '@/lib/utils'
+import { CURRENCY_OPTIONS, DATE_FORMAT_OPTIONS } from '@/lib/column-format'
+
+const QUICK_FORMATS: { type: ColFormatType; icon: React.ReactNode; label: string; defaults?: Partial<ColumnFormat> }[] = [
+  { type: 'auto', icon: <Wand2 size={12} />, label: 'Auto' },
+  { type: 'number', icon: <Hash size={12} />, label: 'Number', defaults: { decimals: 2, thousandSep: true } },
+  { type: 'currency', icon: <DollarSign size={12} />, label: 'Currency', defaults: { decimals: 2, currency: 'USD' } },
+  { type: 'percent', icon: <Percent size={12} />, label: 'Percent', defaults: { decimals: 1 } },
+  { type: 'date', icon: <Calendar size={12} />, label: 'Date', defaults: { dateFormat: 'medium' } },
+  { type: 'text', icon: <CaseSensitive size={12} />, label: 'Text' },
+]
+
+/** Floating quick-format toolbar for a table or pivot column */
+export default function ColumnFormatToolbar({
+  colKey,
+  currentFormat,
+  anchorRect,
+  onApply,
+  onClose,
+}: {
+  colKey: string
+  currentFormat: ColumnFormat | undefined
+  anchorRect: { top: number; left: number; width: number; bottom: number }
+  onApply: (colKey: string, format: ColumnFormat | null) => void
+  onClose: () => void
+}) {
+  const toolbarRef = useRef<HTMLDivElement>(null)
+  const currentType = currentFormat?.type ?? 'auto'
+
+  // Close on outside click
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (toolbarRef.current && !toolbarRef.current.contains(e.target as Node)) {
+        onClose()
+      }
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [onClose])
+
+  // Close on Escape
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose() }
+    document.addEventListener('keydown', handler)
+    return () => document.removeEventListener('keydown', handler)
+  }, [onClose])
+
+  const handleSelect = (qf: typeof QUICK_FORMATS[number]) => {
+    if (qf.type === 'auto') {
+      onApply(colKey, null) // remove format
+    } else {
+      onApply(colKey, { type: qf.type, ...qf.defaults } as ColumnFormat)
+    }
+    onClose()
+  }
+
+  // Decimals quick adjust for current format
+  const showDecimals = currentFormat && ['number', 'currency', 'percent'].includes(currentFormat.type)
+  const currentDecimals = currentFormat?.decimals ?? 2
+
+  const adjustDecimals = (delta: number) => {
+    const newDec = Math.max(0, Math.min(10, currentDecimals + delta))
+    onApply(colKey, { ...currentFormat!, decimals: newDec })
+  }
+
+  // Currency quick switch
+  const showCurrency = currentFormat?.type === 'currency'
+
+  return createPortal(
+    <div
+      ref={toolbarRef}
+      className="fixed z-[9999] animate-in slide-in-from-top-1 fade-in duration-150"
+      style={{
+        top: anchorRect.bottom + 4,
+        left: anchorRect.left,
+      }}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="bg-white border border-gray-200 rounded-md shadow-lg p-1 flex flex-col gap-1" style={{ minWidth: 200 }}>
+        {/* Quick format buttons */}
+        <div className="flex items-center gap-0.5">
+          {QUICK_FORMATS.map((qf) => (
+            <button
+              key={qf.type}
+              onClick={() => handleSelect(qf)}
+              className={cn(
+                'flex items-center gap-1 px-2 py-1.5 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
+                currentType === qf.type
+                  ? 'text-gray-800 bg-gray-100'
+                  : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'
+              )}
+              title={qf.label}
+            >
+              {qf.icon}
+            </button>
+          ))}
+        </div>
+
+        {/* Decimals adjuster */}
+        {showDecimals && (
+          <div className="flex items-center justify-between px-1 py-0.5 border-t border-gray-100">
+            <span className="text-[9px] text-gray-400 uppercase tracking-wider">Decimals</span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => adjustDecimals(-1)}
+                disabled={currentDecimals <= 0}
+                className="w-5 h-5 flex items-center justify-center text-[10px] font-medium text-gray-500 hover:bg-gray-100 rounded cursor-pointer disabled:opacity-30 disabled:cursor-default"
+              >
+                −
+              </button>
+              <span className="text-[10px] font-medium text-gray-700 w-4 text-center tabular-nums">{currentDecimals}</span>
+              <button
+                onClick={() => adjustDecimals(1)}
+                disabled={currentDecimals >= 10}
+                className="w-5 h-5 flex items-center justify-center text-[10px] font-medium text-gray-500 hover:bg-gray-100 rounded cursor-pointer disabled:opacity-30 disabled:cursor-default"
+              >
+                +
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Currency quick switch */}
+        {showCurrency && (
+          <div className="flex items-center justify-between px-1 py-0.5 border-t border-gray-100">
+            <span className="text-[9px] text-gray-400 uppercase tracking-wider">Currency</span>
+            <select
+              value={currentFormat?.currency || 'USD'}
+              onChange={(e) => onApply(colKey, { ...currentFormat!, currency: e.target.value })}
+              className="text-[10px] border border-gray-200 rounded px-1 py-0.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 cursor-pointer"
+            >
+              {CURRENCY_OPTIONS.map((c) => (
+                <option key={c.code} value={c.code}>{c.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Date style quick switch */}
+        {currentFormat && (currentFormat.type === 'date' || currentFormat.type === 'datetime') && (
+          <div className="flex items-center justify-between px-1 py-0.5 border-t border-gray-100">
+            <span className="text-[9px] text-gray-400 uppercase tracking-wider">Style</span>
+            <select
+              value={currentFormat.dateFormat || 'medium'}
+              onChange={(e) => onApply(colKey, { ...currentFormat, dateFormat: e.target.value })}
+              className="text-[10px] border border-gray-200 rounded px-1 py-0.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 cursor-pointer"
+            >
+              {DATE_FORMAT_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>{o.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  )
+}
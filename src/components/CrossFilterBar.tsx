@@ -0,0 +1,43 @@
+import { MousePointer2, X } from 'lucide-react'
+import type { CrossFilter, SavedTable } from '@/lib/types'
+
+export default function CrossFilterBar({
+  selections,
+  tables,
+  onChange,
+}: {
+  selections: CrossFilter[]
+  tables: SavedTable[]
+  onChange: (selections: CrossFilter[]) => void
+}) {
+  const columnLabel = (sel: CrossFilter) => {
+    const col = tables.find((t) => t.id === sel.tableId)?.columns.find((c) => c.sourcePath === sel.column)
+    return col?.alias || sel.column
+  }
+
+  return (
+    <div className="flex items-center gap-1.5 flex-wrap mb-4">
+      <MousePointer2 size={12} className="text-gray-400 shrink-0" />
+      <span className="text-[11px] text-gray-500">Selected:</span>
+      {selections.map((sel) => (
+        <span
+          key={`${sel.sourceWidgetId}:${sel.column}`}
+          className="flex items-center gap-1 h-6 pl-2 pr-1 text-[11px] text-gray-700 bg-white border border-gray-300 rounded-full"
+        >
+          <span className="text-gray-400">{columnLabel(sel)}:</span>
+          <span className="max-w-[180px] truncate font-medium">{sel.label}</span>
+          <button
+            onClick={() => onChange(selections.filter((s) => s !== sel))}
+            className="p-0.5 text-gray-400 hover:text-gray-700 rounded-full cursor-pointer"
+            title="Remove selection"
+          >
+            <X size={10} />
+          </button>
+        </span>
+      ))}
+      <button onClick={() => onChange([])} className="text-[11px] text-gray-400 hover:text-gray-700 transition-colors cursor-pointer">
+        Clear all
+      </button>
+    </div>
+  )
+}
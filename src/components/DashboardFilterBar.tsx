@@ -0,0 +1,407 @@
+import React, { useState, useRef, useCallback, useMemo } from 'react'
+import { createPortal } from 'react-dom'
+import { Filter, Plus, ChevronDown, Settings2, Loader2, Check, X, Trash2 } from 'lucide-react'
+import type { DashboardFilter, SavedTable, DashboardDatePreset, DashboardFilterType } from '@/lib/types'
+import {
+  isDashboardFilterActive,
+  filterOptionValue,
+  MAX_FILTER_OPTIONS,
+  DASHBOARD_FILTER_TYPES,
+} from '@/lib/dashboard-filters'
+import { useDashboardDataset } from '@/contexts/DashboardDataContext'
+import { cn } from '@/lib/utils'
+import { TIMEFRAME_LABELS } from '@/lib/dashboard-dates'
+import { useAnchoredPosition, useOutsideClose } from '@/lib/popover'
+
+export default function DashboardFilterBar({
+  filters,
+  tables,
+  editMode,
+  onChange,
+}: {
+  filters: DashboardFilter[]
+  /** Tables the dashboard's widgets read from */
+  tables: SavedTable[]
+  editMode: boolean
+  onChange: (filters: DashboardFilter[]) => void
+}) {
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const activeCount = filters.filter(isDashboardFilterActive).length
+
+  const addFilter = () => {
+    const id = `dashfilter-${Date.now()}`
+    onChange([...filters, { id, label: 'Filter', type: 'select', columns: {} }])
+    setEditingId(id)
+  }
+
+  const clearValues = () => {
+    onChange(filters.map((f) => ({ ...f, values: undefined, text: undefined, datePreset: undefined, from: undefined, to: undefined })))
+  }
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap mb-4">
+      <Filter size={12} className="text-gray-400 shrink-0" />
+      {filters.length === 0 && (
+        <span className="text-xs text-gray-400">Add filters that apply to every widget on the dashboard</span>
+      )}
+      {filters.map((f) => (
+        <DashboardFilterControl
+          key={f.id}
+          filter={f}
+          tables={tables}
+          editMode={editMode}
+          editing={editingId === f.id}
+          onToggleEditor={() => setEditingId((id) => (id === f.id ? null : f.id))}
+          onCloseEditor={() => setEditingId(null)}
+          onChange={(patch) => onChange(filters.map((x) => (x.id === f.id ? { ...x, ...patch } : x)))}
+          onRemove={() => {
+            setEditingId(null)
+            onChange(filters.filter((x) => x.id !== f.id))
+          }}
+        />
+      ))}
+      {editMode && (
+        <button
+          onClick={addFilter}
+          className="flex items-center gap-1 h-7 px-2 text-xs font-medium text-gray-500 hover:text-gray-800 border border-dashed border-gray-300 rounded-md hover:bg-white transition-colors cursor-pointer"
+        >
+          <Plus size={11} />
+          Add filter
+        </button>
+      )}
+      {activeCount > 0 && (
+        <button onClick={clearValues} className="text-xs text-gray-400 hover:text-gray-700 transition-colors cursor-pointer">
+          Clear
+        </button>
+      )}
+    </div>
+  )
+}
+
+function DashboardFilterControl({
+  filter,
+  tables,
+  editMode,
+  editing,
+  onToggleEditor,
+  onCloseEditor,
+  onChange,
+  onRemove,
+}: {
+  filter: DashboardFilter
+  tables: SavedTable[]
+  editMode: boolean
+  editing: boolean
+  onToggleEditor: () => void
+  onCloseEditor: () => void
+  onChange: (patch: Partial<DashboardFilter>) => void
+  onRemove: () => void
+}) {
+  const settingsRef = useRef<HTMLButtonElement>(null)
+  const optionsRef = useRef<HTMLButtonElement>(null)
+  const [showOptions, setShowOptions] = useState(false)
+  const closeOptions = useCallback(() => setShowOptions(false), [])
+
+  // Options come from the first mapped table's rows (shared with its widgets)
+  const hasOptions = filter.type === 'select' || filter.type === 'multi_select'
+  const optionsTable = hasOptions ? tables.find((t) => filter.columns[t.id]) : undefined
+  const { rows, loading } = useDashboardDataset(optionsTable)
+  const options = useMemo(() => {
+    if (!optionsTable) return []
+    const column = filter.columns[optionsTable.id]
+    const unique = new Set(filter.values ?? [])
+    for (const row of rows) {
+      unique.add(filterOptionValue(row[column]))
+      if (unique.size >= MAX_FILTER_OPTIONS) break
+    }
+    return [...unique].sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+  }, [rows, optionsTable, filter.columns, filter.values])
+
+  const active = isDashboardFilterActive(filter)
+  const mapped = Object.values(filter.columns).some(Boolean)
+  const selected = filter.values ?? []
+  const controlCls = 'h-6 text-xs text-gray-700 bg-transparent focus:outline-none cursor-pointer'
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-1.5 h-7 pl-2 pr-1 bg-white border rounded-md',
+        active ? 'border-gray-400' : 'border-gray-200'
+      )}
+    >
+      <span className="text-[11px] font-medium text-gray-500">{filter.label}</span>
+
+      {filter.type === 'date_range' && (
+        <>
+          <select
+            value={filter.datePreset ?? 'all'}
+            onChange={(e) => onChange({ datePreset: e.target.value as DashboardDatePreset })}
+            className={controlCls}
+          >
+            {Object.entries(TIMEFRAME_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
+            <option value="custom">Custom…</option>
+          </select>
+          {filter.datePreset === 'custom' && (
+            <>
+              <input type="date" value={filter.from ?? ''} onChange={(e) => onChange({ from: e.target.value || undefined })} className={controlCls} />
+              <span className="text-[11px] text-gray-400">–</span>
+              <input type="date" value={filter.to ?? ''} onChange={(e) => onChange({ to: e.target.value || undefined })} className={controlCls} />
+            </>
+          )}
+        </>
+      )}
+
+      {filter.type === 'select' && (
+        <select
+          value={selected[0] ?? ''}
+          onChange={(e) => onChange({ values: e.target.value ? [e.target.value] : undefined })}
+          className={cn(controlCls, 'max-w-[160px]')}
+        >
+          <option value="">All</option>
+          {options.map((o) => (<option key={o} value={o}>{o}</option>))}
+        </select>
+      )}
+
+      {filter.type === 'multi_select' && (
+        <>
+          <button
+            ref={optionsRef}
+            onClick={() => setShowOptions((v) => !v)}
+            className="flex items-center gap-1 h-6 text-xs text-gray-700 cursor-pointer"
+          >
+            <span className="max-w-[160px] truncate">
+              {selected.length === 0 ? 'All' : selected.length === 1 ? selected[0] : `${selected.length} selected`}
+            </span>
+            <ChevronDown size={11} className="text-gray-400" />
+          </button>
+          {showOptions && (
+            <DashboardFilterOptions
+              anchorRef={optionsRef}
+              options={options}
+              loading={loading}
+              selected={selected}
+              onChange={(values) => onChange({ values: values.length > 0 ? values : undefined })}
+              onClose={closeOptions}
+            />
+          )}
+        </>
+      )}
+
+      {filter.type === 'text' && (
+        <input
+          type="text"
+          value={filter.text ?? ''}
+          onChange={(e) => onChange({ text: e.target.value || undefined })}
+          placeholder="Contains…"
+          className="h-6 w-32 text-xs text-gray-700 bg-transparent focus:outline-none placeholder:text-gray-300"
+        />
+      )}
+
+      {editMode && !mapped && (
+        <span className="text-[10px] text-amber-600" title="Choose a column for at least one table">Not mapped</span>
+      )}
+      {editMode && (
+        <>
+          <button
+            ref={settingsRef}
+            onClick={onToggleEditor}
+            className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded cursor-pointer"
+            title="Filter settings"
+          >
+            <Settings2 size={11} />
+          </button>
+          {editing && (
+            <DashboardFilterEditor
+              anchorRef={settingsRef}
+              filter={filter}
+              tables={tables}
+              onChange={onChange}
+              onRemove={onRemove}
+              onClose={onCloseEditor}
+            />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+function DashboardFilterOptions({
+  anchorRef,
+  options,
+  loading,
+  selected,
+  onChange,
+  onClose,
+}: {
+  anchorRef: React.RefObject<HTMLButtonElement | null>
+  options: string[]
+  loading: boolean
+  selected: string[]
+  onChange: (values: string[]) => void
+  onClose: () => void
+}) {
+  const panelRef = useRef<HTMLDivElement>(null)
+  const pos = useAnchoredPosition(anchorRef, 220)
+  const [search, setSearch] = useState('')
+  useOutsideClose(panelRef, anchorRef, onClose)
+
+  if (!pos) return null
+  const shown = options.filter((o) => o.toLowerCase().includes(search.toLowerCase()))
+
+  return createPortal(
+    <div
+      ref={panelRef}
+      style={{ position: 'fixed', top: pos.top, left: pos.left, zIndex: 9999 }}
+      className="bg-white border border-gray-200 rounded-md shadow-lg w-[220px]"
+    >
+      <div className="p-1.5 border-b border-gray-100">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search…"
+          autoFocus
+          className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 focus:outline-none focus:border-gray-400 placeholder:text-gray-300"
+        />
+      </div>
+      <div className="max-h-[240px] overflow-auto py-1">
+        {loading && options.length === 0 ? (
+          <p className="flex items-center justify-center gap-1.5 text-[10px] text-gray-400 py-3">
+            <Loader2 size={10} className="animate-spin" />
+            Loading values…
+          </p>
+        ) : shown.length === 0 ? (
+          <p className="text-[10px] text-gray-400 text-center py-3">No values</p>
+        ) : (
+          shown.map((o) => {
+            const checked = selected.includes(o)
+            return (
+              <button
+                key={o}
+                onClick={() => onChange(checked ? selected.filter((v) => v !== o) : [...selected, o])}
+                className="w-full flex items-center gap-2 px-2.5 py-1 text-[11px] text-gray-700 hover:bg-gray-50 text-left cursor-pointer"
+              >
+                <span className={cn(
+                  'w-3 h-3 rounded-sm border flex items-center justify-center shrink-0',
+                  checked ? 'bg-gray-900 border-gray-900' : 'border-gray-300'
+                )}>
+                  {checked && <Check size={9} className="text-white" />}
+                </span>
+                <span className="truncate">{o}</span>
+              </button>
+            )
+          })
+        )}
+      </div>
+      {selected.length > 0 && (
+        <div className="px-2.5 py-1.5 border-t border-gray-100">
+          <button onClick={() => onChange([])} className="text-[10px] text-gray-500 hover:text-gray-800 cursor-pointer">
+            Clear selection
+          </button>
+        </div>
+      )}
+    </div>,
+    document.body
+  )
+}
+
+function DashboardFilterEditor({
+  anchorRef,
+  filter,
+  tables,
+  onChange,
+  onRemove,
+  onClose,
+}: {
+  anchorRef: React.RefObject<HTMLButtonElement | null>
+  filter: DashboardFilter
+  tables: SavedTable[]
+  onChange: (patch: Partial<DashboardFilter>) => void
+  onRemove: () => void
+  onClose: () => void
+}) {
+  const panelRef = useRef<HTMLDivElement>(null)
+  const pos = useAnchoredPosition(anchorRef, 300)
+  useOutsideClose(panelRef, anchorRef, onClose)
+
+  if (!pos) return null
+  const inputCls = 'w-full text-[11px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400'
+
+  return createPortal(
+    <div
+      ref={panelRef}
+      style={{ position: 'fixed', top: pos.top, left: pos.left, zIndex: 9999 }}
+      className="bg-white border border-gray-200 rounded-md shadow-lg w-[300px] max-h-[420px] overflow-auto"
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+        <span className="text-xs font-medium text-gray-700">Dashboard filter</span>
+        <button onClick={onClose} className="p-0.5 text-gray-400 hover:text-gray-600 transition-colors cursor-pointer">
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="p-3 space-y-2.5">
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Label</label>
+            <input type="text" value={filter.label} onChange={(e) => onChange({ label: e.target.value })} className={inputCls} />
+          </div>
+          <div className="flex-1">
+            <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Type</label>
+            <select
+              value={filter.type}
+              // Values don't carry over between types
+              onChange={(e) => onChange({ type: e.target.value as DashboardFilterType, values: undefined, text: undefined, datePreset: undefined, from: undefined, to: undefined })}
+              className={inputCls}
+            >
+              {DASHBOARD_FILTER_TYPES.map((t) => (<option key={t.value} value={t.value}>{t.label}</option>))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Column in each table</label>
+          {tables.length === 0 ? (
+            <p className="text-[10px] text-gray-400 mt-1">Add widgets to the dashboard to map this filter to their tables.</p>
+          ) : (
+            <div className="space-y-1.5 mt-1">
+              {tables.map((t) => (
+                <div key={t.id} className="flex items-center gap-2">
+                  <span className="w-24 text-[11px] text-gray-600 truncate shrink-0" title={t.tableName}>{t.tableName}</span>
+                  <select
+                    value={filter.columns[t.id] ?? ''}
+                    onChange={(e) => {
+                      const columns = { ...filter.columns }
+                      if (e.target.value) columns[t.id] = e.target.value
+                      else delete columns[t.id]
+                      onChange({ columns })
+                    }}
+                    className={inputCls}
+                  >
+                    <option value="">Not filtered</option>
+                    {t.columns.filter((c) => c.visible).map((c) => (
+                      <option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-[9px] text-gray-400 mt-1">Widgets on tables left unmapped ignore this filter</p>
+        </div>
+      </div>
+
+      <div className="px-3 pb-3">
+        <button
+          onClick={onRemove}
+          className="flex items-center gap-1 text-[11px] text-gray-500 hover:text-red-600 transition-colors cursor-pointer"
+        >
+          <Trash2 size={11} />
+          Remove filter
+        </button>
+      </div>
+    </div>,
+    document.body
+  )
+}
@@ -0,0 +1,178 @@
+import { useMemo, useState, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { TableProperties, Download, X, Loader2, AlertCircle, ExternalLink } from 'lucide-react'
+import type { SavedTable, QueryFilter } from '@/lib/types'
+import { isFirestoreTable } from '@/lib/dashboard-filters'
+import { useDashboardDataset } from '@/contexts/DashboardDataContext'
+import { exportToCSV, exportToJSON } from '@/lib/utils'
+import FirestoreErrorMessage from '@/components/FirestoreErrorMessage'
+import { formatCellValue } from '@/lib/dashboard-dates'
+
+const DRILL_PAGE_SIZE = 100
+
+/** The source rows behind a clicked metric, chart category or pivot row */
+export interface DrillThrough {
+  title: string
+  /** What the rows are narrowed to, e.g. "Region: West" */
+  description?: string
+  table: SavedTable
+  serverFilter?: QueryFilter
+  /** Narrows the table's rows to the ones the aggregate was computed from */
+  select: (rows: Record<string, unknown>[]) => Record<string, unknown>[]
+}
+
+/** Link to a row's document in the collection explorer, for Firestore tables */
+function explorerDocumentUrl(table: SavedTable, row: Record<string, unknown>): string | null {
+  if (!isFirestoreTable(table) || typeof row.__path !== 'string') return null
+  const slash = row.__path.lastIndexOf('/')
+  if (slash <= 0) return null
+  const parent = row.__path.slice(0, slash)
+  const docId = row.__path.slice(slash + 1)
+  return `/project/${table.projectId}/explore/${encodeURIComponent(parent)}?doc=${encodeURIComponent(docId)}${table.databaseId ? `&db=${encodeURIComponent(table.databaseId)}` : ''}`
+}
+
+export default function DrillThroughPanel({ drill, onClose }: { drill: DrillThrough; onClose: () => void }) {
+  const { table } = drill
+  const { rows, loading, error } = useDashboardDataset(table, drill.serverFilter)
+  const drillRows = useMemo(() => drill.select(rows), [drill, rows])
+  const [shown, setShown] = useState(DRILL_PAGE_SIZE)
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose() }
+    document.addEventListener('keydown', handleKey)
+    return () => document.removeEventListener('keydown', handleKey)
+  }, [onClose])
+
+  const visibleColumns = table.columns.filter((c) => c.visible)
+  const columns = visibleColumns.length > 0
+    ? visibleColumns.map((c) => ({ key: c.sourcePath, label: c.alias || c.sourcePath }))
+    : Object.keys(drillRows[0] ?? {}).filter((k) => !k.startsWith('__')).map((k) => ({ key: k, label: k }))
+  const canOpenDocuments = isFirestoreTable(table)
+
+  // Exports use the column aliases and leave out internal fields like __path
+  const exportRows = () => drillRows.map((row) => Object.fromEntries(columns.map((c) => [c.label, row[c.key]])))
+  const exportName = `${drill.title}${drill.description ? ` - ${drill.description}` : ''}`.replace(/[\\/:*?"<>|]+/g, '_')
+
+  return createPortal(
+    // Portal events still bubble to the widget, which would start a drag or open its config
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <div className="relative bg-white rounded-lg shadow-xl border border-gray-200 w-[min(1100px,calc(100vw-48px))] max-h-[calc(100vh-48px)] flex flex-col">
+        <div className="flex items-center justify-between gap-3 px-5 py-3 border-b border-gray-100 shrink-0">
+          <div className="flex items-center gap-2 min-w-0">
+            <TableProperties size={14} className="text-gray-400 shrink-0" />
+            <h3 className="text-sm font-semibold text-gray-900 truncate">{drill.title}</h3>
+            {drill.description && <span className="text-xs text-gray-500 truncate">{drill.description}</span>}
+            {!loading && !error && (
+              <span className="text-[11px] text-gray-400 tabular-nums shrink-0">
+                {drillRows.length.toLocaleString()} {drillRows.length === 1 ? 'row' : 'rows'}
+              </span>
+            )}
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <button
+              onClick={() => exportToCSV(exportRows(), exportName)}
+              disabled={loading || drillRows.length === 0}
+              className="flex items-center gap-1 h-7 px-2.5 text-xs text-gray-600 hover:text-gray-900 border border-gray-200 hover:border-gray-300 rounded-md transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={12} />
+              CSV
+            </button>
+            <button
+              onClick={() => exportToJSON(exportRows(), exportName)}
+              disabled={loading || drillRows.length === 0}
+              className="flex items-center gap-1 h-7 px-2.5 text-xs text-gray-600 hover:text-gray-900 border border-gray-200 hover:border-gray-300 rounded-md transition-colors cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Download size={12} />
+              JSON
+            </button>
+            <button onClick={onClose} className="p-1 ml-1 text-gray-400 hover:text-gray-600 rounded-md cursor-pointer" title="Close">
+              <X size={14} />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-auto">
+          {loading ? (
+            <div className="flex items-center justify-center gap-2 py-16 text-xs text-gray-400">
+              <Loader2 size={14} className="animate-spin" />Loading rows…
+            </div>
+          ) : error ? (
+            <div className="flex items-center justify-center gap-2 py-16 text-xs text-gray-500">
+              <AlertCircle size={14} className="text-gray-300" /><FirestoreErrorMessage message={error} />
+            </div>
+          ) : drillRows.length === 0 ? (
+            <p className="py-16 text-center text-xs text-gray-400">No rows match</p>
+          ) : (
+            <table className="w-full border-collapse">
+              <thead>
+                <tr>
+                  {canOpenDocuments && <th className="sticky top-0 z-10 bg-gray-50 border-b border-gray-200 w-8" />}
+                  {columns.map((c) => (
+                    <th
+                      key={c.key}
+                      className="sticky top-0 z-10 bg-gray-50 text-left px-3 py-2 text-xs font-medium text-gray-600 border-b border-gray-200 whitespace-nowrap"
+                    >
+                      {c.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {drillRows.slice(0, shown).map((row, ri) => {
+                  const documentUrl = explorerDocumentUrl(table, row)
+                  return (
+                    <tr key={String(row.__path ?? ri)} className="hover:bg-gray-50 transition-colors">
+                      {canOpenDocuments && (
+                        <td className="px-2 py-1.5 border-b border-gray-100 text-center">
+                          {documentUrl && (
+                            <a
+                              href={documentUrl}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="inline-flex p-0.5 text-gray-300 hover:text-gray-600 rounded"
+                              title="Open document in the explorer"
+                            >
+                              <ExternalLink size={11} />
+                            </a>
+                          )}
+                        </td>
+                      )}
+                      {columns.map((c) => (
+                        <td
+                          key={c.key}
+                          className="px-3 py-1.5 text-xs text-gray-700 border-b border-gray-100 whitespace-nowrap max-w-[280px] overflow-hidden text-ellipsis"
+                        >
+                          {formatCellValue(row[c.key])}
+                        </td>
+                      ))}
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {!loading && !error && drillRows.length > shown && (
+          <div className="flex items-center justify-between px-5 py-2 border-t border-gray-100 shrink-0">
+            <span className="text-[11px] text-gray-400 tabular-nums">
+              Showing {shown.toLocaleString()} of {drillRows.length.toLocaleString()}; exports include every row
+            </span>
+            <button
+              onClick={() => setShown((n) => n + DRILL_PAGE_SIZE * 5)}
+              className="text-[11px] font-medium text-gray-600 hover:text-gray-900 cursor-pointer"
+            >
+              Show more
+            </button>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  )
+}
@@ -0,0 +1,283 @@
+import { useState, useRef, useEffect } from 'react'
+import { Copy, X, Pencil, Settings2 } from 'lucide-react'
+import type { DashboardWidget, ElementFontSize, ElementAlign } from '@/lib/types'
+import { cn } from '@/lib/utils'
+
+/** Heading, text block or divider placed on the dashboard canvas */
+export default function ElementCard({
+  widget,
+  editMode,
+  isSelected,
+  onRemove,
+  onDuplicate,
+  onContentChange,
+  onOpenConfig,
+}: {
+  widget: DashboardWidget
+  editMode: boolean
+  isSelected?: boolean
+  onRemove: () => void
+  onDuplicate: () => void
+  onContentChange: (content: string) => void
+  onOpenConfig?: () => void
+}) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [localContent, setLocalContent] = useState(widget.content ?? '')
+  const inputRef = useRef<HTMLInputElement>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  const elCfg = widget.elementConfig ?? {}
+
+  // Font size class map
+  const fontSizeMap: Record<ElementFontSize, string> = {
+    xs: 'text-xs',
+    sm: 'text-sm',
+    base: 'text-base',
+    lg: 'text-lg',
+    xl: 'text-xl',
+    '2xl': 'text-2xl',
+    '3xl': 'text-3xl',
+  }
+  const fontWeightMap: Record<string, string> = {
+    normal: 'font-normal',
+    medium: 'font-medium',
+    semibold: 'font-semibold',
+    bold: 'font-bold',
+  }
+  const alignMap: Record<ElementAlign, string> = {
+    left: 'text-left',
+    center: 'text-center',
+    right: 'text-right',
+  }
+
+  useEffect(() => {
+    setLocalContent(widget.content ?? '')
+  }, [widget.content])
+
+  useEffect(() => {
+    if (isEditing) {
+      setTimeout(() => {
+        if (widget.type === 'heading') {
+          inputRef.current?.focus()
+          inputRef.current?.select()
+        } else if (widget.type === 'text') {
+          textareaRef.current?.focus()
+          textareaRef.current?.select()
+        }
+      }, 50)
+    }
+  }, [isEditing, widget.type])
+
+  const commitEdit = () => {
+    setIsEditing(false)
+    if (localContent !== widget.content) {
+      onContentChange(localContent)
+    }
+  }
+
+  // Divider element
+  if (widget.type === 'divider') {
+    return (
+      <div className={cn(
+        'h-full flex items-center px-4 relative group/el',
+        editMode && 'widget-drag-handle cursor-grab active:cursor-grabbing'
+      )}>
+        <div className="w-full border-t border-gray-200 dark:border-gray-600" />
+        {editMode && (
+          <div className="absolute top-1 right-1 flex items-center gap-0.5 opacity-0 group-hover/el:opacity-100">
+            <button
+              onClick={(e) => { e.stopPropagation(); onDuplicate() }}
+              onMouseDown={(e) => e.stopPropagation()}
+              className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
+              title="Duplicate"
+            >
+              <Copy size={12} />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onRemove() }}
+              onMouseDown={(e) => e.stopPropagation()}
+              className="p-0.5 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-white cursor-pointer"
+              title="Remove divider"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  // Heading element
+  if (widget.type === 'heading') {
+    const headingFontSize = fontSizeMap[elCfg.fontSize ?? 'base']
+    const headingFontWeight = fontWeightMap[elCfg.fontWeight ?? 'semibold']
+    const headingAlign = alignMap[elCfg.align ?? 'left']
+
+    return (
+      <div
+        className={cn(
+          'h-full flex flex-col relative group/el rounded-md border-2 transition-colors',
+          isSelected ? 'border-gray-400 dark:border-gray-500' : 'border-transparent',
+          editMode && !isSelected && 'hover:border-gray-200 dark:hover:border-gray-700',
+          editMode && 'widget-drag-handle cursor-grab active:cursor-grabbing'
+        )}
+        onClick={(e) => {
+          if (editMode && !isEditing && onOpenConfig) {
+            e.stopPropagation()
+            onOpenConfig()
+          }
+        }}
+      >
+        <div className={cn('flex-1 flex items-center px-3', headingAlign)}>
+          {isEditing && editMode ? (
+            <input
+              ref={inputRef}
+              type="text"
+              value={localContent}
+              onChange={(e) => setLocalContent(e.target.value)}
+              onBlur={commitEdit}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitEdit()
+                if (e.key === 'Escape') { setLocalContent(widget.content ?? ''); setIsEditing(false) }
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => e.stopPropagation()}
+              className={cn('w-full bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none text-gray-900 dark:text-gray-100', headingFontSize, headingFontWeight)}
+            />
+          ) : (
+            <h3
+              className={cn(
+                'text-gray-900 dark:text-gray-100 truncate w-full',
+                headingFontSize, headingFontWeight,
+                editMode && 'cursor-text'
+              )}
+              style={elCfg.colour ? { color: elCfg.colour } : undefined}
+              onDoubleClick={(e) => { e.stopPropagation(); editMode && setIsEditing(true) }}
+            >
+              {widget.content || 'Untitled Heading'}
+            </h3>
+          )}
+        </div>
+        {editMode && (
+          <div className="absolute top-1 right-1 flex items-center gap-0.5 opacity-0 group-hover/el:opacity-100 transition-opacity" onMouseDown={(e) => e.stopPropagation()}>
+            <button
+              onClick={(e) => { e.stopPropagation(); setIsEditing(true) }}
+              className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
+              title="Edit heading"
+            >
+              <Pencil size={11} />
+            </button>
+            {onOpenConfig && (
+              <button
+                onClick={(e) => { e.stopPropagation(); onOpenConfig() }}
+                className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
+                title="Configure"
+              >
+                <Settings2 size={11} />
+              </button>
+            )}
+            <button
+              onClick={(e) => { e.stopPropagation(); onDuplicate() }}
+              className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
+              title="Duplicate"
+            >
+              <Copy size={12} />
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); onRemove() }}
+              className="p-0.5 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-white cursor-pointer"
+              title="Remove heading"
+            >
+              <X size={12} />
+            </button>
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  // Text element
+  const textFontSize = fontSizeMap[elCfg.fontSize ?? 'sm']
+  const textFontWeight = fontWeightMap[elCfg.fontWeight ?? 'normal']
+  const textAlign = alignMap[elCfg.align ?? 'left']
+
+  return (
+    <div
+      className={cn(
+        'h-full flex flex-col relative group/el rounded-md border-2 transition-colors',
+        isSelected ? 'border-gray-400 dark:border-gray-500' : 'border-transparent',
+        editMode && !isSelected && 'hover:border-gray-200 dark:hover:border-gray-700',
+        editMode && 'widget-drag-handle cursor-grab active:cursor-grabbing',
+      )}
+      onClick={(e) => {
+        if (editMode && !isEditing && onOpenConfig) {
+          e.stopPropagation()
+          onOpenConfig()
+        }
+      }}
+    >
+      <div className={cn('flex-1 overflow-auto px-3 py-2', textAlign)}>
+        {isEditing && editMode ? (
+          <textarea
+            ref={textareaRef}
+            value={localContent}
+            onChange={(e) => setLocalContent(e.target.value)}
+            onBlur={commitEdit}
+            onKeyDown={(e) => {
+              if (e.key === 'Escape') { setLocalContent(widget.content ?? ''); setIsEditing(false) }
+            }}
+            onMouseDown={(e) => e.stopPropagation()}
+            onClick={(e) => e.stopPropagation()}
+            className="w-full h-full text-sm text-gray-700 dark:text-gray-300 bg-transparent border border-gray-200 rounded-md p-2 focus:border-gray-400 focus:outline-none resize-none"
+          />
+        ) : (
+          <p
+            className={cn(
+              'text-gray-600 dark:text-gray-400 whitespace-pre-wrap',
+              textFontSize, textFontWeight,
+              editMode && 'cursor-text'
+            )}
+            style={elCfg.colour ? { color: elCfg.colour } : undefined}
+            onDoubleClick={(e) => { e.stopPropagation(); editMode && setIsEditing(true) }}
+          >
+            {widget.content || 'Enter your text here...'}
+          </p>
+        )}
+      </div>
+      {editMode && (
+        <div className="absolute top-1 right-1 flex items-center gap-0.5 opacity-0 group-hover/el:opacity-100 transition-opacity" onMouseDown={(e) => e.stopPropagation()}>
+          <button
+            onClick={(e) => { e.stopPropagation(); setIsEditing(true) }}
+            className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
+            title="Edit text"
+          >
+            <Pencil size={11} />
+          </button>
+          {onOpenConfig && (
+            <button
+              onClick={(e) => { e.stopPropagation(); onOpenConfig() }}
+              className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
+              title="Configure"
+            >
+              <Settings2 size={11} />
+            </button>
+          )}
+          <button
+            onClick={(e) => { e.stopPropagation(); onDuplicate() }}
+            className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
+            title="Duplicate"
+          >
+            <Copy size={12} />
+          </button>
+          <button
+            onClick={(e) => { e.stopPropagation(); onRemove() }}
+            className="p-0.5 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-white cursor-pointer"
+            title="Remove text block"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,137 @@
+import React, { useRef, useState, useLayoutEffect, useEffect } from 'react'
+import { createPortal } from 'react-dom'
+import { X, Trash2, Plus } from 'lucide-react'
+import type { WidgetFilter, FilterOperator } from '@/lib/types'
+import { FILTER_OPERATORS } from '@/lib/dashboard-filters'
+
+export default function FilterPanel({
+  filters,
+  columns,
+  onChange,
+  onClose,
+  anchorRef,
+}: {
+  filters: WidgetFilter[]
+  columns: string[]
+  onChange: (filters: WidgetFilter[]) => void
+  onClose: () => void
+  anchorRef: React.RefObject<HTMLButtonElement | null>
+}) {
+  const panelRef = useRef<HTMLDivElement>(null)
+  const [pos, setPos] = useState<{ top: number; left: number } | null>(null)
+
+  // Position the panel below the anchor button
+  useLayoutEffect(() => {
+    if (!anchorRef.current) return
+    const rect = anchorRef.current.getBoundingClientRect()
+    let left = rect.left
+    // Clamp so it doesn't overflow the right edge
+    const panelW = 340
+    if (left + panelW > window.innerWidth - 16) {
+      left = window.innerWidth - panelW - 16
+    }
+    if (left < 8) left = 8
+    setPos({ top: rect.bottom + 4, left })
+  }, [anchorRef])
+
+  // Close on outside click
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node) && anchorRef.current && !anchorRef.current.contains(e.target as Node)) {
+        onClose()
+      }
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [onClose, anchorRef])
+
+  const addFilter = () => {
+    onChange([...filters, { id: `f-${Date.now()}`, column: columns[0] ?? '', operator: 'contains', value: '' }])
+  }
+
+  const updateFilter = (id: string, patch: Partial<WidgetFilter>) => {
+    onChange(filters.map((f) => f.id === id ? { ...f, ...patch } : f))
+  }
+
+  const removeFilter = (id: string) => {
+    onChange(filters.filter((f) => f.id !== id))
+  }
+
+  const noValueOps: FilterOperator[] = ['is_empty', 'is_not_empty']
+
+  if (!pos) return null
+
+  return createPortal(
+    <div
+      ref={panelRef}
+      style={{ position: 'fixed', top: pos.top, left: pos.left, zIndex: 9999 }}
+      className="bg-white border border-gray-200 rounded-md shadow-lg w-[340px] max-h-[320px] overflow-auto"
+      onMouseDown={(e) => e.stopPropagation()}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
+        <span className="text-xs font-medium text-gray-700">Filters</span>
+        <button onClick={onClose} className="p-0.5 text-gray-400 hover:text-gray-600 transition-colors cursor-pointer">
+          <X size={12} />
+        </button>
+      </div>
+
+      <div className="p-2 space-y-2">
+        {filters.length === 0 && (
+          <p className="text-[10px] text-gray-400 text-center py-2">No filters applied</p>
+        )}
+
+        {filters.map((f) => (
+          <div key={f.id} className="flex items-start gap-1.5">
+            <div className="flex-1 space-y-1">
+              <select
+                value={f.column}
+                onChange={(e) => updateFilter(f.id, { column: e.target.value })}
+                className="w-full text-[10px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400"
+              >
+                {columns.map((col) => (
+                  <option key={col} value={col}>{col}</option>
+                ))}
+              </select>
+              <select
+                value={f.operator}
+                onChange={(e) => updateFilter(f.id, { operator: e.target.value as FilterOperator })}
+                className="w-full text-[10px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400"
+              >
+                {FILTER_OPERATORS.map((op) => (
+                  <option key={op.value} value={op.value}>{op.label}</option>
+                ))}
+              </select>
+              {!noValueOps.includes(f.operator) && (
+                <input
+                  type="text"
+                  value={f.value}
+                  onChange={(e) => updateFilter(f.id, { value: e.target.value })}
+                  placeholder="Value…"
+                  className="w-full text-[10px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400 placeholder:text-gray-300"
+                />
+              )}
+            </div>
+            <button
+              onClick={() => removeFilter(f.id)}
+              className="mt-0.5 p-1 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-gray-50 cursor-pointer shrink-0"
+            >
+              <Trash2 size={11} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="px-2 pb-2">
+        <button
+          onClick={addFilter}
+          className="w-full flex items-center justify-center gap-1 text-[10px] font-medium text-gray-500 hover:text-gray-700 hover:bg-gray-50 rounded-md py-1.5 transition-colors cursor-pointer"
+        >
+          <Plus size={10} />
+          Add filter
+        </button>
+      </div>
+    </div>,
+    document.body
+  )
+}
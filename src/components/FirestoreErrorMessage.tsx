@@ -0,0 +1,36 @@
+import { ExternalLink } from 'lucide-react'
+import { extractIndexCreationUrl } from '@/lib/firestore-rest'
+import { cn } from '@/lib/utils'
+
+interface FirestoreErrorMessageProps {
+  message: string
+  className?: string
+}
+
+/**
+ * Renders a Firestore error. Missing-index errors are replaced with a short
+ * explanation and a link to create the index in the Firebase console.
+ */
+export default function FirestoreErrorMessage({ message, className }: FirestoreErrorMessageProps) {
+  const indexUrl = extractIndexCreationUrl(message)
+
+  if (!indexUrl) {
+    return <span className={className}>{message}</span>
+  }
+
+  return (
+    <span className={cn('inline-flex flex-wrap items-center gap-x-1.5 gap-y-0.5', className)}>
+      <span>This filter needs a composite index in Firestore.</span>
+      <a
+        href={indexUrl}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center gap-0.5 font-medium underline underline-offset-2 hover:no-underline"
+      >
+        Create index
+        <ExternalLink size={10} />
+      </a>
+      <span className="opacity-75">(builds take a few minutes)</span>
+    </span>
+  )
+}
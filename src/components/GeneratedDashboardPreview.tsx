@@ -0,0 +1,123 @@
+import React, { useRef, useState, useLayoutEffect } from 'react'
+import type { DashboardWidget, SavedTable } from '@/lib/types'
+import { gridToPixel, GRID_MAX_W } from '@/lib/dashboard-grid'
+import MetricCard from '@/components/MetricCard'
+import ChartCard from '@/components/ChartCard'
+import PivotErrorBoundary from '@/components/PivotErrorBoundary'
+import PivotCard from '@/components/PivotCard'
+import WidgetCard from '@/components/WidgetCard'
+import ElementCard from '@/components/ElementCard'
+
+const noop = () => {}
+
+/** Read-only render of generated widgets, so they can be checked before they're added */
+export default function GeneratedDashboardPreview({
+  widgets,
+  savedTables,
+  accessToken,
+}: {
+  widgets: DashboardWidget[]
+  savedTables: SavedTable[]
+  accessToken: string | null
+}) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [width, setWidth] = useState(0)
+
+  useLayoutEffect(() => {
+    const el = containerRef.current
+    if (!el) return
+    // Fires once on observe, then on every resize
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)))
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [])
+
+  const height = widgets.reduce((max, w) => {
+    const pos = gridToPixel(w.x, w.y, w.w, w.h, width || 1)
+    return Math.max(max, pos.top + pos.height)
+  }, 0)
+
+  return (
+    <div ref={containerRef} className="relative w-full view-mode" style={{ height }}>
+      {width > 0 && widgets.map((widget) => {
+        const pos = gridToPixel(widget.x, widget.y, widget.w, widget.h, width)
+        let card: React.ReactNode
+        if (widget.type === 'metric') {
+          card = (
+            <MetricCard
+              widget={widget}
+              savedTables={savedTables}
+              accessToken={accessToken}
+              editMode={false}
+              globalFetchKey={0}
+              autoRefreshKey={0}
+              onRemove={noop}
+              onDuplicate={noop}
+              onOpenConfig={noop}
+              onLabelChange={noop}
+              onFiltersChange={noop}
+            />
+          )
+        } else if (widget.type === 'chart') {
+          card = (
+            <ChartCard
+              widget={widget}
+              savedTables={savedTables}
+              editMode={false}
+              onRemove={noop}
+              onDuplicate={noop}
+              onOpenConfig={noop}
+              onLabelChange={noop}
+              onFiltersChange={noop}
+            />
+          )
+        } else if (widget.type === 'pivot') {
+          card = (
+            <PivotErrorBoundary>
+              <PivotCard
+                widget={widget}
+                savedTables={savedTables}
+                editMode={false}
+                onRemove={noop}
+                onDuplicate={noop}
+                onOpenConfig={noop}
+                onDisplayNameChange={noop}
+                onPivotConfigChange={noop}
+                onColumnFormatsChange={noop}
+                onColumnSelect={noop}
+              />
+            </PivotErrorBoundary>
+          )
+        } else if (widget.type === 'table') {
+          card = (
+            <WidgetCard
+              widget={widget}
+              table={savedTables.find((t) => t.id === widget.tableId)}
+              isFullWidth={widget.w >= GRID_MAX_W}
+              editMode={false}
+              onRemove={noop}
+              onDuplicate={noop}
+              onToggleFullWidth={noop}
+              onDisplayNameChange={noop}
+              onColumnAliasChange={noop}
+              onFiltersChange={noop}
+              onHiddenColumnsChange={noop}
+              onColumnOrderChange={noop}
+              onOpenConfig={noop}
+              onOpenTable={noop}
+              onColumnFormatsChange={noop}
+              onColumnSelect={noop}
+            />
+          )
+        } else {
+          card = <ElementCard widget={widget} editMode={false} onRemove={noop} onDuplicate={noop} onContentChange={noop} />
+        }
+        return (
+          <div key={widget.i} className="absolute overflow-hidden" style={pos}>
+            {card}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,523 @@
+import { useMemo, useState, useRef, useEffect } from 'react'
+import {
+  ArrowUp,
+  ArrowDown,
+  Minus,
+  Filter,
+  TableProperties,
+  Settings2,
+  Copy,
+  X,
+  Gauge,
+  Loader2,
+  AlertCircle,
+} from 'lucide-react'
+import { ResponsiveContainer, ComposedChart, YAxis, Area } from 'recharts'
+import type { MetricTargetDisplay, DashboardWidget, SavedTable, WidgetFilter, MetricValueSize } from '@/lib/types'
+import { cn } from '@/lib/utils'
+import {
+  formatMetricValue,
+  planMetricAggregation,
+  computeMetric,
+  compareMetric,
+  buildMetricSparkline,
+  metricTargetValue,
+  metricComparisonLabel,
+  projectMetricPace,
+} from '@/lib/dashboard-metrics'
+import { useWidgetServerFilter, useDashboardRowFilter } from '@/contexts/DashboardFiltersContext'
+import { useDashboardDataset } from '@/contexts/DashboardDataContext'
+import { runAggregationQuery } from '@/lib/firestore-rest'
+import { applyWidgetFilters } from '@/lib/dashboard-filters'
+import DrillThroughPanel, { type DrillThrough } from '@/components/DrillThroughPanel'
+import { TIMEFRAME_LABELS, filterByTimeframe } from '@/lib/dashboard-dates'
+import { CHART_COLOUR_DEFAULT } from '@/lib/dashboard-charts'
+import FilterPanel from '@/components/FilterPanel'
+import FirestoreErrorMessage from '@/components/FirestoreErrorMessage'
+import WidgetUpdatedAt from '@/components/WidgetUpdatedAt'
+
+/** Progress towards a metric's target as a bar, gauge or bullet chart, with the pace projection */
+function MetricTargetProgress({
+  value,
+  target,
+  projected,
+  display,
+  higherIsBetter,
+  colour,
+  prefix,
+  suffix,
+  centered,
+}: {
+  value: number
+  target: number
+  projected: number | null
+  display: MetricTargetDisplay
+  higherIsBetter: boolean
+  colour: string
+  prefix?: string
+  suffix?: string
+  centered: boolean
+}) {
+  const ratio = target !== 0 ? value / target : 0
+  const pct = (v: number) => `${Math.round(Math.min(Math.max(v, 0), 1) * 100)}%`
+  const onTrack = (v: number) => (higherIsBetter ? v >= target : v <= target)
+
+  const summary = (
+    <p className={cn('text-[10px] text-gray-500 tabular-nums truncate', centered && 'text-center')}>
+      <span className={cn('font-medium', onTrack(value) ? 'text-green-600' : 'text-gray-700')}>
+        {Math.round(ratio * 100)}%
+      </span>
+      {' '}of {formatMetricValue(target, prefix, suffix)}
+      {projected !== null && (
+        <span className={onTrack(projected) ? 'text-green-600' : 'text-amber-600'}>
+          {' · '}on pace for {formatMetricValue(Math.round(projected), prefix, suffix)}
+        </span>
+      )}
+    </p>
+  )
+
+  if (display === 'gauge') {
+    return (
+      <div className={cn('w-32 max-w-full mt-1', centered && 'mx-auto')}>
+        <svg viewBox="0 0 100 56" className="w-full">
+          <path d="M 10 50 A 40 40 0 0 1 90 50" fill="none" stroke="#F3F4F6" strokeWidth={9} strokeLinecap="round" />
+          {projected !== null && (
+            <path
+              d="M 10 50 A 40 40 0 0 1 90 50"
+              fill="none"
+              stroke={colour}
+              strokeOpacity={0.25}
+              strokeWidth={9}
+              strokeLinecap="round"
+              pathLength={100}
+              strokeDasharray={`${Math.min(Math.max(projected / target, 0), 1) * 100} 100`}
+            />
+          )}
+          <path
+            d="M 10 50 A 40 40 0 0 1 90 50"
+            fill="none"
+            stroke={colour}
+            strokeWidth={9}
+            strokeLinecap="round"
+            pathLength={100}
+            strokeDasharray={`${Math.min(Math.max(ratio, 0), 1) * 100} 100`}
+          />
+        </svg>
+        {summary}
+      </div>
+    )
+  }
+
+  if (display === 'bullet') {
+    // Scaled past the target so overshoot and the projection stay visible
+    const max = Math.max(target, value, projected ?? 0) * 1.1 || 1
+    return (
+      <div className={cn('w-48 max-w-full mt-1.5 space-y-1', centered && 'mx-auto')}>
+        <div className="relative h-4 rounded-sm overflow-hidden bg-gray-100">
+          <div className="absolute inset-y-0 left-0 bg-gray-200/80" style={{ width: pct((target * 0.75) / max) }} />
+          <div className="absolute inset-y-0 left-0 bg-gray-300/60" style={{ width: pct((target * 0.5) / max) }} />
+          {projected !== null && (
+            <div className="absolute left-0 top-[5px] h-1.5" style={{ width: pct(projected / max), backgroundColor: colour, opacity: 0.25 }} />
+          )}
+          <div className="absolute left-0 top-[5px] h-1.5" style={{ width: pct(value / max), backgroundColor: colour }} />
+          <div className="absolute inset-y-0.5 w-0.5 bg-gray-800" style={{ left: pct(target / max) }} title="Target" />
+        </div>
+        {summary}
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('w-48 max-w-full mt-1.5 space-y-1', centered && 'mx-auto')}>
+      <div className="relative h-1.5 rounded-full overflow-hidden bg-gray-100">
+        {projected !== null && (
+          <div className="absolute inset-y-0 left-0 rounded-full" style={{ width: pct(projected / target), backgroundColor: colour, opacity: 0.25 }} />
+        )}
+        <div className="absolute inset-y-0 left-0 rounded-full" style={{ width: pct(ratio), backgroundColor: colour }} />
+      </div>
+      {summary}
+    </div>
+  )
+}
+
+export default function MetricCard({
+  widget,
+  savedTables,
+  accessToken,
+  editMode,
+  globalFetchKey,
+  autoRefreshKey,
+  onRemove,
+  onDuplicate,
+  onOpenConfig,
+  onLabelChange,
+  onFiltersChange,
+}: {
+  widget: DashboardWidget
+  savedTables: SavedTable[]
+  accessToken: string | null
+  editMode: boolean
+  globalFetchKey: number
+  autoRefreshKey: number
+  onRemove: () => void
+  onDuplicate: () => void
+  onOpenConfig: () => void
+  onLabelChange: (label: string) => void
+  onFiltersChange: (filters: WidgetFilter[]) => void
+}) {
+  const config = widget.metricConfig
+  const isConfigured = !!config?.tableId && !!config?.aggregation
+
+  const sourceTable = isConfigured ? savedTables.find((t) => t.id === config!.tableId) : undefined
+  const serverFilter = useWidgetServerFilter(widget.filters, sourceTable)
+  // Dashboard filters and selections are applied to rows, so they rule out a server-side aggregation
+  const dashboardRowFilter = useDashboardRowFilter(widget.i, sourceTable?.id)
+
+  // count / sum / average run as a Firestore aggregation when possible (not on
+  // shared dashboards, which have no token). Keyed by its JSON so unrelated
+  // config edits (label, colour) don't refetch.
+  const aggregationPlanKey = JSON.stringify(
+    isConfigured && accessToken && !dashboardRowFilter.active ? planMetricAggregation(config!, widget.filters, sourceTable) : null
+  )
+  const aggregationPlan = useMemo(
+    () => JSON.parse(aggregationPlanKey) as ReturnType<typeof planMetricAggregation>,
+    [aggregationPlanKey]
+  )
+  const [aggregateValue, setAggregateValue] = useState<number | null>(null)
+  const [aggregateLoading, setAggregateLoading] = useState(false)
+  const [aggregateError, setAggregateError] = useState<string | null>(null)
+  const [aggregateLoadedAt, setAggregateLoadedAt] = useState<Date | null>(null)
+
+  // Without an aggregation plan the metric is computed from the shared rows
+  const dataset = useDashboardDataset(aggregationPlan ? undefined : sourceTable, serverFilter)
+
+  // Targets from another table follow the dashboard filters mapped to that table
+  const targetTable = isConfigured && config!.target?.tableId
+    ? savedTables.find((t) => t.id === config!.target!.tableId)
+    : undefined
+  const targetDataset = useDashboardDataset(targetTable)
+  const targetRowFilter = useDashboardRowFilter(widget.i, targetTable?.id)
+  const rows = aggregationPlan ? [] : dataset.rows
+  const loading = aggregationPlan ? aggregateLoading : dataset.loading
+  const error = aggregationPlan ? aggregateError : dataset.error
+  const loadedAt = aggregationPlan ? aggregateLoadedAt : dataset.loadedAt
+
+  // Filter panel
+  const [showFilters, setShowFilters] = useState(false)
+  const filterBtnRef = useRef<HTMLButtonElement>(null)
+
+  // Inline label editing
+  const [editingLabel, setEditingLabel] = useState(false)
+  const [draftLabel, setDraftLabel] = useState('')
+  const labelInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (editingLabel) setTimeout(() => { labelInputRef.current?.focus(); labelInputRef.current?.select() }, 50)
+  }, [editingLabel])
+
+  const commitLabel = () => {
+    setEditingLabel(false)
+    const trimmed = draftLabel.trim()
+    if (trimmed && trimmed !== config?.label) {
+      onLabelChange(trimmed)
+    }
+  }
+
+  // Auto-refreshes keep the current value on screen until the new one arrives
+  const lastAutoRefreshKey = useRef(autoRefreshKey)
+  useEffect(() => {
+    if (!aggregationPlan || !sourceTable || !accessToken) return
+    const table = sourceTable
+    const background = lastAutoRefreshKey.current !== autoRefreshKey
+    lastAutoRefreshKey.current = autoRefreshKey
+
+    let cancelled = false
+    if (!background) {
+      setAggregateLoading(true)
+      setAggregateError(null)
+    }
+
+    const load = async () => {
+      try {
+        const result = await runAggregationQuery(
+          accessToken,
+          table.projectId,
+          table.collectionPath,
+          [aggregationPlan.spec],
+          { filter: aggregationPlan.filter, isCollectionGroup: table.isCollectionGroup, databaseId: table.databaseId }
+        )
+        if (cancelled) return
+        setAggregateValue(result[aggregationPlan.spec.alias])
+        setAggregateError(null)
+        setAggregateLoadedAt(new Date())
+      } catch (err) {
+        if (cancelled) return
+        if (background) console.warn('Background refresh of metric failed:', err)
+        else setAggregateError(err instanceof Error ? err.message : 'Failed to load data')
+      } finally { if (!cancelled) setAggregateLoading(false) }
+    }
+    load()
+    return () => { cancelled = true }
+  }, [sourceTable, accessToken, globalFetchKey, autoRefreshKey, aggregationPlan])
+
+  const filteredRows = dashboardRowFilter.apply(applyWidgetFilters(rows, widget.filters))
+  const computedValue = aggregationPlan
+    ? aggregateValue
+    : isConfigured && filteredRows.length > 0 ? computeMetric(filteredRows, config!) : null
+  const comparison = isConfigured && !aggregationPlan ? compareMetric(filteredRows, config!, computedValue) : null
+  const sparkline = isConfigured && !aggregationPlan && config!.sparkline ? buildMetricSparkline(filteredRows, config!) : []
+  const targetValue = isConfigured && config!.target
+    ? metricTargetValue(config!.target, targetRowFilter.apply(targetDataset.rows), config!.dateColumn ? config!.timeframe : 'all')
+    : null
+  const activeFilterCount = (widget.filters ?? []).filter((f) => f.column && f.operator).length
+  const metricTable = sourceTable
+
+  // Drill-through: the rows the value is computed from, loaded even when the value came from the server
+  const [drill, setDrill] = useState<DrillThrough | null>(null)
+  const openDrill = () => {
+    if (!config || !sourceTable) return
+    const timeframe = config.dateColumn ? config.timeframe ?? 'all' : 'all'
+    setDrill({
+      title: config.label,
+      description: timeframe !== 'all' ? TIMEFRAME_LABELS[timeframe] : undefined,
+      table: sourceTable,
+      serverFilter,
+      select: (all) => filterByTimeframe(dashboardRowFilter.apply(applyWidgetFilters(all, widget.filters)), config),
+    })
+  }
+  const filterColumns = metricTable ? metricTable.columns.filter((c) => c.visible).map((c) => c.sourcePath) : (rows.length > 0 ? Object.keys(rows[0]).filter((k) => !k.startsWith('__')) : [])
+
+  const layout = config?.layout ?? 'centered'
+  const titleSize = config?.titleSize ?? 'sm'
+  const valueSize = config?.valueSize ?? 'md'
+  const showLabel = config?.showLabel !== false
+  const metricColour = config?.colour
+
+  const titleSizeCls: Record<MetricValueSize, string> = {
+    sm: 'text-xs',
+    md: 'text-sm',
+    lg: 'text-base',
+    xl: 'text-lg',
+  }
+
+  const valueSizeCls: Record<MetricValueSize, string> = {
+    sm: 'text-lg',
+    md: 'text-2xl',
+    lg: 'text-4xl',
+    xl: 'text-5xl',
+  }
+
+  const labelBlock = showLabel && isConfigured && !loading && !error && (
+    editingLabel && editMode ? (
+      <input
+        ref={labelInputRef}
+        type="text"
+        value={draftLabel}
+        onChange={(e) => setDraftLabel(e.target.value)}
+        onBlur={commitLabel}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') commitLabel()
+          if (e.key === 'Escape') setEditingLabel(false)
+        }}
+        onMouseDown={(e) => e.stopPropagation()}
+        className={cn(
+          'font-semibold text-gray-900 bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none',
+          titleSizeCls[titleSize],
+          layout === 'centered' ? 'text-center w-full mb-1' : 'w-full mb-0.5'
+        )}
+      />
+    ) : (
+      <p
+        className={cn(
+          'font-semibold text-gray-900 truncate max-w-full',
+          titleSizeCls[titleSize],
+          layout === 'centered' ? 'mb-1' : 'mb-0.5',
+          editMode && 'cursor-text'
+        )}
+        onDoubleClick={() => {
+          if (!editMode) return
+          setDraftLabel(config!.label)
+          setEditingLabel(true)
+        }}
+      >
+        {config!.label}
+      </p>
+    )
+  )
+
+  const valueBlock = isConfigured && !loading && !error && (
+    <p
+      className={cn('font-bold tabular-nums tracking-tight truncate max-w-full', valueSizeCls[valueSize], !editMode && 'cursor-pointer')}
+      style={metricColour ? { color: metricColour } : undefined}
+      onClick={editMode ? undefined : openDrill}
+      title={editMode ? undefined : 'View rows'}
+    >
+      {formatMetricValue(computedValue, config!.prefix, config!.suffix)}
+    </p>
+  )
+
+  const comparisonBlock = isConfigured && !loading && !error && comparison && (() => {
+    const { change, percent, previous } = comparison
+    const better = change !== 0 && (change > 0) === (config!.higherIsBetter !== false)
+    const sign = change > 0 ? '+' : change < 0 ? '−' : ''
+    return (
+      <p
+        className={cn(
+          'flex items-center gap-1 text-[11px] tabular-nums max-w-full',
+          layout === 'centered' && 'justify-center',
+          change === 0 ? 'text-gray-500' : better ? 'text-green-600' : 'text-red-600'
+        )}
+        title={`${formatMetricValue(previous, config!.prefix, config!.suffix)} ${metricComparisonLabel(config!)}`}
+      >
+        {change > 0 ? <ArrowUp size={11} className="shrink-0" /> : change < 0 ? <ArrowDown size={11} className="shrink-0" /> : <Minus size={11} className="shrink-0" />}
+        <span className="font-medium">{sign}{formatMetricValue(Math.abs(change), config!.prefix, config!.suffix)}</span>
+        {percent !== null && <span>({sign}{(Math.abs(percent) * 100).toFixed(1)}%)</span>}
+        <span className="text-gray-400 truncate">vs {metricComparisonLabel(config!)}</span>
+      </p>
+    )
+  })()
+
+  const sparklineColour = metricColour || CHART_COLOUR_DEFAULT
+  const targetBlock = isConfigured && !loading && !error && computedValue !== null && targetValue !== null && targetValue !== 0 && (
+    <MetricTargetProgress
+      value={computedValue}
+      target={targetValue}
+      projected={projectMetricPace(computedValue, config!)}
+      display={config!.target?.display ?? 'bar'}
+      higherIsBetter={config!.higherIsBetter !== false}
+      colour={sparklineColour}
+      prefix={config!.prefix}
+      suffix={config!.suffix}
+      centered={layout === 'centered'}
+    />
+  )
+  const sparklineBlock = isConfigured && !loading && !error && sparkline.length > 1 && (
+    <div className={cn('w-40 max-w-full h-8 mt-1', layout === 'centered' && 'mx-auto')}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart data={sparkline} margin={{ top: 2, right: 0, left: 0, bottom: 2 }}>
+          <YAxis hide domain={['dataMin', 'dataMax']} />
+          <Area
+            type="monotone"
+            dataKey="value"
+            stroke={sparklineColour}
+            strokeWidth={1.5}
+            fill={sparklineColour}
+            fillOpacity={0.12}
+            dot={false}
+            connectNulls
+            isAnimationActive={false}
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  )
+
+  return (
+    <div className={cn(
+      'h-full bg-white rounded-md border border-gray-200 flex flex-col overflow-hidden shadow-sm hover:shadow-md transition-shadow group/metric relative',
+      layout === 'centered' && 'items-center justify-center',
+      layout === 'left' && 'justify-center',
+      layout === 'minimal' && 'justify-end',
+      editMode && 'widget-drag-handle cursor-grab active:cursor-grabbing'
+    )}>
+      {/* Top-right controls */}
+      <div className="absolute top-1.5 right-1.5 flex items-center gap-0.5 z-10" onMouseDown={(e) => e.stopPropagation()}>
+        {isConfigured && (
+          <div className="relative">
+            <button
+              ref={filterBtnRef}
+              onClick={() => setShowFilters((v) => !v)}
+              className={cn(
+                'p-1 transition-colors rounded-md hover:bg-gray-100 cursor-pointer relative',
+                activeFilterCount > 0 ? 'text-gray-600' : 'text-gray-300 hover:text-gray-600',
+                activeFilterCount === 0 && !showFilters && 'opacity-0 group-hover/metric:opacity-100'
+              )}
+              title="Filter data"
+            >
+              <Filter size={11} />
+              {activeFilterCount > 0 && (
+                <span className="absolute -top-0.5 -right-0.5 w-3 h-3 bg-gray-700 text-white text-[7px] font-bold rounded-full flex items-center justify-center">
+                  {activeFilterCount}
+                </span>
+              )}
+            </button>
+            {showFilters && (
+              <FilterPanel
+                filters={widget.filters ?? []}
+                columns={filterColumns}
+                onChange={onFiltersChange}
+                onClose={() => setShowFilters(false)}
+                anchorRef={filterBtnRef}
+              />
+            )}
+          </div>
+        )}
+        {isConfigured && sourceTable && (
+          <button onClick={openDrill} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer opacity-0 group-hover/metric:opacity-100" title="View rows">
+            <TableProperties size={11} />
+          </button>
+        )}
+        {editMode && (
+          <>
+            <button onClick={onOpenConfig} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer opacity-0 group-hover/metric:opacity-100" title="Configure metric">
+              <Settings2 size={11} />
+            </button>
+            <button onClick={onDuplicate} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer opacity-0 group-hover/metric:opacity-100" title="Duplicate">
+              <Copy size={12} />
+            </button>
+            <button onClick={onRemove} className="p-1 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-gray-100 cursor-pointer opacity-0 group-hover/metric:opacity-100" title="Remove metric">
+              <X size={12} />
+            </button>
+          </>
+        )}
+      </div>
+
+      {!isConfigured ? (
+        <div className="text-center flex-1 flex flex-col items-center justify-center">
+          <Gauge size={20} className="text-gray-200 mx-auto mb-2" />
+          <p className="text-xs text-gray-400">Not configured</p>
+          {editMode && (
+            <button onClick={onOpenConfig} onMouseDown={(e) => e.stopPropagation()} className="mt-1.5 text-[10px] text-gray-500 hover:text-gray-700 underline cursor-pointer">Configure</button>
+          )}
+        </div>
+      ) : loading ? (
+        <div className="flex-1 flex items-center justify-center">
+          <Loader2 size={18} className="animate-spin text-gray-300" />
+        </div>
+      ) : error ? (
+        <div className="text-center px-4 flex-1 flex flex-col items-center justify-center">
+          <AlertCircle size={16} className="text-gray-300 mx-auto mb-1" />
+          <p className="text-[10px] text-gray-500"><FirestoreErrorMessage message={error} /></p>
+        </div>
+      ) : layout === 'centered' ? (
+        <div className="text-center px-4">
+          {labelBlock}
+          {valueBlock}
+          {comparisonBlock}
+          {targetBlock}
+          {sparklineBlock}
+        </div>
+      ) : layout === 'left' ? (
+        <div className="px-4">
+          {labelBlock}
+          {valueBlock}
+          {comparisonBlock}
+          {targetBlock}
+          {sparklineBlock}
+        </div>
+      ) : /* minimal */ (
+        <div className="px-3 pb-3">
+          {sparklineBlock}
+          {valueBlock}
+          {comparisonBlock}
+          {labelBlock}
+          {targetBlock}
+        </div>
+      )}
+
+      {isConfigured && !loading && !error && <WidgetUpdatedAt at={loadedAt} className="absolute bottom-1 right-2" />}
+
+      {drill && <DrillThroughPanel drill={drill} onClose={() => setDrill(null)} />}
+    </div>
+  )
+}
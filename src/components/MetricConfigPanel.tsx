@@ -0,0 +1,501 @@
+import { useState, useEffect } from 'react'
+import { Gauge, X } from 'lucide-react'
+import type {
+  DashboardWidget,
+  SavedTable,
+  MetricConfig,
+  AggregationType,
+  MetricComparison,
+  MetricTargetDisplay,
+  MetricLayout,
+  MetricValueSize,
+  AlertRule,
+  MetricTarget,
+} from '@/lib/types'
+import { AGGREGATION_LABELS, METRIC_COMPARISON_LABELS, METRIC_TARGET_DISPLAYS } from '@/lib/dashboard-metrics'
+import { TIMEFRAME_LABELS } from '@/lib/dashboard-dates'
+import { cn } from '@/lib/utils'
+import AlertRulesEditor from '@/components/AlertRulesEditor'
+import { scheduledAlertBlocker } from '@/lib/dashboard-alerts'
+import { CHART_COLOUR_PRESETS } from '@/lib/dashboard-charts'
+
+/** Metric widget settings: aggregation, comparison, target, layout and alerts */
+export default function MetricConfigPanel({
+  widget,
+  savedTables,
+  onApply,
+  onClose,
+}: {
+  widget: DashboardWidget
+  savedTables: SavedTable[]
+  onApply: (config: MetricConfig) => void
+  onClose: () => void
+}) {
+  const config = widget.metricConfig
+  const [draftTableId, setDraftTableId] = useState(config?.tableId ?? '')
+  const [draftAgg, setDraftAgg] = useState<AggregationType>(config?.aggregation ?? 'count')
+  const [draftColumn, setDraftColumn] = useState(config?.column ?? '')
+  const [draftDateColumn, setDraftDateColumn] = useState(config?.dateColumn ?? '')
+  const [draftTimeframe, setDraftTimeframe] = useState(config?.timeframe ?? 'all')
+  const [draftComparison, setDraftComparison] = useState<MetricComparison | ''>(config?.comparison ?? '')
+  const [draftCompareFrom, setDraftCompareFrom] = useState(config?.compareFrom ?? '')
+  const [draftCompareTo, setDraftCompareTo] = useState(config?.compareTo ?? '')
+  const [draftHigherIsBetter, setDraftHigherIsBetter] = useState(config?.higherIsBetter !== false)
+  const [draftSparkline, setDraftSparkline] = useState(config?.sparkline === true)
+  const [draftTargetSource, setDraftTargetSource] = useState<'none' | 'fixed' | 'table'>(
+    config?.target?.tableId ? 'table' : config?.target ? 'fixed' : 'none'
+  )
+  const [draftTargetValue, setDraftTargetValue] = useState(config?.target?.value != null ? String(config.target.value) : '')
+  const [draftTargetTableId, setDraftTargetTableId] = useState(config?.target?.tableId ?? '')
+  const [draftTargetColumn, setDraftTargetColumn] = useState(config?.target?.column ?? '')
+  const [draftTargetDateColumn, setDraftTargetDateColumn] = useState(config?.target?.dateColumn ?? '')
+  const [draftTargetDisplay, setDraftTargetDisplay] = useState<MetricTargetDisplay>(config?.target?.display ?? 'bar')
+  const [draftPrefix, setDraftPrefix] = useState(config?.prefix ?? '')
+  const [draftSuffix, setDraftSuffix] = useState(config?.suffix ?? '')
+  const [draftLabel, setDraftLabel] = useState(config?.label ?? '')
+  const [draftLayout, setDraftLayout] = useState<MetricLayout>(config?.layout ?? 'centered')
+  const [draftTitleSize, setDraftTitleSize] = useState<MetricValueSize>(config?.titleSize ?? 'sm')
+  const [draftValueSize, setDraftValueSize] = useState<MetricValueSize>(config?.valueSize ?? 'md')
+  const [draftShowLabel, setDraftShowLabel] = useState(config?.showLabel !== false)
+  const [draftColour, setDraftColour] = useState(config?.colour ?? '')
+  const [draftAlerts, setDraftAlerts] = useState<AlertRule[]>(config?.alerts ?? [])
+
+  const draftTable = savedTables.find((t) => t.id === draftTableId)
+  const draftColumns = draftTable?.columns.filter((c) => c.visible) ?? []
+  const dateColumns = draftColumns.filter((c) =>
+    ['timestamp', 'date', 'time', 'datetime'].some((t) => c.dataType.toLowerCase().includes(t)) ||
+    ['createdAt', 'updatedAt', 'created_at', 'updated_at', 'date', 'timestamp'].includes(c.sourcePath)
+  )
+  const needsColumn = draftAgg !== 'count'
+  const targetTableColumns = savedTables.find((t) => t.id === draftTargetTableId)?.columns.filter((c) => c.visible) ?? []
+
+  const buildTarget = (): MetricTarget | undefined => {
+    const display = draftTargetDisplay !== 'bar' ? { display: draftTargetDisplay } : {}
+    if (draftTargetSource === 'fixed') {
+      const value = parseFloat(draftTargetValue)
+      return isNaN(value) ? undefined : { value, ...display }
+    }
+    if (draftTargetSource === 'table' && draftTargetTableId && draftTargetColumn) {
+      return {
+        tableId: draftTargetTableId,
+        column: draftTargetColumn,
+        ...(draftTargetDateColumn ? { dateColumn: draftTargetDateColumn } : {}),
+        ...display,
+      }
+    }
+    return undefined
+  }
+
+  // Auto-apply on every change
+  useEffect(() => {
+    if (!draftTableId) return
+    if (needsColumn && !draftColumn) return
+    const target = buildTarget()
+    const newConfig: MetricConfig = {
+      tableId: draftTableId,
+      aggregation: draftAgg,
+      column: draftColumn,
+      label: draftLabel || `${AGGREGATION_LABELS[draftAgg]}${draftColumn ? ` of ${draftColumn}` : ''}`,
+      ...(draftDateColumn ? { dateColumn: draftDateColumn } : {}),
+      ...(draftTimeframe !== 'all' ? { timeframe: draftTimeframe } : {}),
+      ...(draftDateColumn && draftComparison ? { comparison: draftComparison } : {}),
+      ...(draftDateColumn && draftComparison === 'custom' && draftCompareFrom ? { compareFrom: draftCompareFrom } : {}),
+      ...(draftDateColumn && draftComparison === 'custom' && draftCompareTo ? { compareTo: draftCompareTo } : {}),
+      ...(((draftDateColumn && draftComparison) || target) && !draftHigherIsBetter ? { higherIsBetter: false } : {}),
+      ...(draftDateColumn && draftSparkline ? { sparkline: true } : {}),
+      ...(target ? { target } : {}),
+      ...(draftPrefix ? { prefix: draftPrefix } : {}),
+      ...(draftSuffix ? { suffix: draftSuffix } : {}),
+      layout: draftLayout,
+      titleSize: draftTitleSize,
+      valueSize: draftValueSize,
+      showLabel: draftShowLabel,
+      ...(draftColour ? { colour: draftColour } : {}),
+      ...(draftAlerts.length > 0 ? { alerts: draftAlerts } : {}),
+    }
+    onApply(newConfig)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftTableId, draftAgg, draftColumn, draftDateColumn, draftTimeframe, draftComparison, draftCompareFrom, draftCompareTo, draftHigherIsBetter, draftSparkline, draftTargetSource, draftTargetValue, draftTargetTableId, draftTargetColumn, draftTargetDateColumn, draftTargetDisplay, draftPrefix, draftSuffix, draftLabel, draftLayout, draftTitleSize, draftValueSize, draftShowLabel, draftColour, draftAlerts])
+
+  const inputCls = 'w-full mt-0.5 text-xs border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-300 focus:border-gray-300 bg-white'
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 shrink-0">
+        <div className="flex items-center gap-2">
+          <Gauge size={14} className="text-gray-400" />
+          <h3 className="text-sm font-semibold text-gray-900">Configure Metric</h3>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer">
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4 space-y-3">
+        <div>
+          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Label</label>
+          <input type="text" value={draftLabel} onChange={(e) => setDraftLabel(e.target.value)} placeholder="e.g. Total Revenue" className={inputCls} />
+        </div>
+
+        <div>
+          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Data Source</label>
+          <select value={draftTableId} onChange={(e) => { setDraftTableId(e.target.value); setDraftColumn(''); setDraftDateColumn('') }} className={inputCls}>
+            <option value="">Select a table…</option>
+            {savedTables.map((t) => (<option key={t.id} value={t.id}>{t.tableName}</option>))}
+          </select>
+        </div>
+
+        <div>
+          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Aggregation</label>
+          <select value={draftAgg} onChange={(e) => { setDraftAgg(e.target.value as AggregationType); if (e.target.value === 'count') setDraftColumn('') }} className={inputCls}>
+            {Object.entries(AGGREGATION_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
+          </select>
+        </div>
+
+        {needsColumn && draftTableId && (
+          <div>
+            <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Column</label>
+            <select value={draftColumn} onChange={(e) => setDraftColumn(e.target.value)} className={inputCls}>
+              <option value="">Select column…</option>
+              {draftColumns.map((c) => (
+                <option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>
+              ))}
+            </select>
+            <p className="text-[9px] text-gray-400 mt-0.5">Numeric values stored as text will be parsed automatically</p>
+          </div>
+        )}
+
+        {draftTableId && dateColumns.length > 0 && (
+          <div className="flex gap-2">
+            <div className="flex-1">
+              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Date Column</label>
+              <select value={draftDateColumn} onChange={(e) => setDraftDateColumn(e.target.value)} className={inputCls}>
+                <option value="">None</option>
+                {dateColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
+              </select>
+            </div>
+            {draftDateColumn && (
+              <div className="flex-1">
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Timeframe</label>
+                <select value={draftTimeframe} onChange={(e) => setDraftTimeframe(e.target.value as MetricConfig['timeframe'])} className={inputCls}>
+                  {Object.entries(TIMEFRAME_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
+                </select>
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Prefix</label>
+            <input type="text" value={draftPrefix} onChange={(e) => setDraftPrefix(e.target.value)} placeholder="$ £ €" className={inputCls} />
+          </div>
+          <div className="flex-1">
+            <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Suffix</label>
+            <input type="text" value={draftSuffix} onChange={(e) => setDraftSuffix(e.target.value)} placeholder="% users" className={inputCls} />
+          </div>
+        </div>
+
+        {/* ── Comparison section ── */}
+        {draftTableId && draftDateColumn && (
+          <div className="pt-2 border-t border-gray-100">
+            <p className="text-[10px] font-medium text-gray-500 uppercase tracking-wider mb-2">Comparison</p>
+
+            <div className="space-y-3">
+              <div>
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Compare To</label>
+                <select value={draftComparison} onChange={(e) => setDraftComparison(e.target.value as MetricComparison | '')} className={inputCls}>
+                  <option value="">None</option>
+                  {Object.entries(METRIC_COMPARISON_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
+                </select>
+                {(draftComparison === 'previous_period' || draftComparison === 'previous_year') && draftTimeframe === 'all' && (
+                  <p className="text-[9px] text-gray-400 mt-0.5">Pick a timeframe other than All Time to compare against</p>
+                )}
+              </div>
+
+              {draftComparison === 'custom' && (
+                <div className="flex gap-2">
+                  <div className="flex-1">
+                    <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">From</label>
+                    <input type="date" value={draftCompareFrom} onChange={(e) => setDraftCompareFrom(e.target.value)} className={inputCls} />
+                  </div>
+                  <div className="flex-1">
+                    <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">To</label>
+                    <input type="date" value={draftCompareTo} onChange={(e) => setDraftCompareTo(e.target.value)} className={inputCls} />
+                  </div>
+                </div>
+              )}
+
+              {draftComparison && (
+                <div>
+                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">When It Goes Up</label>
+                  <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
+                    {([[true, 'Higher is better'], [false, 'Lower is better']] as [boolean, string][]).map(([val, lbl]) => (
+                      <button
+                        key={lbl}
+                        onClick={() => setDraftHigherIsBetter(val)}
+                        className={cn(
+                          'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
+                          draftHigherIsBetter === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
+                        )}
+                      >
+                        {lbl}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Sparkline toggle */}
+              <div className="flex items-center justify-between">
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Show Sparkline</label>
+                <button
+                  onClick={() => setDraftSparkline((v) => !v)}
+                  className={cn(
+                    'w-8 h-[18px] rounded-full transition-colors relative cursor-pointer',
+                    draftSparkline ? 'bg-gray-700' : 'bg-gray-300'
+                  )}
+                >
+                  <span className={cn(
+                    'absolute top-[2px] w-[14px] h-[14px] rounded-full bg-white transition-transform shadow-sm',
+                    draftSparkline ? 'left-[16px]' : 'left-[2px]'
+                  )} />
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* ── Target section ── */}
+        {draftTableId && (
+          <div className="pt-2 border-t border-gray-100">
+            <p className="text-[10px] font-medium text-gray-500 uppercase tracking-wider mb-2">Target</p>
+
+            <div className="space-y-3">
+              <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit">
+                {([['none', 'None'], ['fixed', 'Fixed'], ['table', 'From Table']] as ['none' | 'fixed' | 'table', string][]).map(([val, lbl]) => (
+                  <button
+                    key={val}
+                    onClick={() => setDraftTargetSource(val)}
+                    className={cn(
+                      'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
+                      draftTargetSource === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
+                    )}
+                  >
+                    {lbl}
+                  </button>
+                ))}
+              </div>
+
+              {draftTargetSource === 'fixed' && (
+                <div>
+                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Target Value</label>
+                  <input type="number" value={draftTargetValue} onChange={(e) => setDraftTargetValue(e.target.value)} placeholder="e.g. 50000" className={inputCls} />
+                </div>
+              )}
+
+              {draftTargetSource === 'table' && (
+                <>
+                  <div>
+                    <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Target Table</label>
+                    <select value={draftTargetTableId} onChange={(e) => { setDraftTargetTableId(e.target.value); setDraftTargetColumn(''); setDraftTargetDateColumn('') }} className={inputCls}>
+                      <option value="">Select a table…</option>
+                      {savedTables.map((t) => (<option key={t.id} value={t.id}>{t.tableName}</option>))}
+                    </select>
+                  </div>
+                  {draftTargetTableId && (
+                    <div className="flex gap-2">
+                      <div className="flex-1">
+                        <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Target Column</label>
+                        <select value={draftTargetColumn} onChange={(e) => setDraftTargetColumn(e.target.value)} className={inputCls}>
+                          <option value="">Select column…</option>
+                          {targetTableColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
+                        </select>
+                      </div>
+                      <div className="flex-1">
+                        <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Period Column</label>
+                        <select value={draftTargetDateColumn} onChange={(e) => setDraftTargetDateColumn(e.target.value)} className={inputCls}>
+                          <option value="">None</option>
+                          {targetTableColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
+                        </select>
+                      </div>
+                    </div>
+                  )}
+                  <p className="text-[9px] text-gray-400">
+                    Sums the target column over rows dated in this metric&apos;s period, after any dashboard filters mapped to the target table
+                  </p>
+                </>
+              )}
+
+              {draftTargetSource !== 'none' && (
+                <div>
+                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Show As</label>
+                  <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
+                    {METRIC_TARGET_DISPLAYS.map(({ value, label }) => (
+                      <button
+                        key={value}
+                        onClick={() => setDraftTargetDisplay(value)}
+                        className={cn(
+                          'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
+                          draftTargetDisplay === value ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                  {(draftAgg === 'count' || draftAgg === 'sum') && draftDateColumn && (draftTimeframe === 'this_month' || draftTimeframe === 'this_year') && (
+                    <p className="text-[9px] text-gray-400 mt-1">Shows where the period will end at the current pace</p>
+                  )}
+                </div>
+              )}
+
+              {/* Shares the comparison's setting, which is set above when there is one */}
+              {draftTargetSource !== 'none' && !(draftDateColumn && draftComparison) && (
+                <div>
+                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Goal</label>
+                  <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
+                    {([[true, 'Reach the target'], [false, 'Stay under it']] as [boolean, string][]).map(([val, lbl]) => (
+                      <button
+                        key={lbl}
+                        onClick={() => setDraftHigherIsBetter(val)}
+                        className={cn(
+                          'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
+                          draftHigherIsBetter === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
+                        )}
+                      >
+                        {lbl}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* ── Alerts section ── */}
+        {draftTableId && (
+          <div className="pt-2 border-t border-gray-100">
+            <p className="text-[10px] font-medium text-gray-500 uppercase tracking-wider mb-2">Alerts</p>
+            <AlertRulesEditor
+              rules={draftAlerts}
+              onChange={setDraftAlerts}
+              hasDateColumn={!!draftDateColumn}
+              showCategory={false}
+              scheduleBlocker={scheduledAlertBlocker({ tableId: draftTableId, aggregation: draftAgg, column: draftColumn, label: '' }, widget.filters, draftTable)}
+            />
+          </div>
+        )}
+
+        {/* ── Display section ── */}
+        <div className="pt-2 border-t border-gray-100">
+          <p className="text-[10px] font-medium text-gray-500 uppercase tracking-wider mb-2">Display</p>
+
+          <div className="space-y-3">
+            {/* Layout */}
+            <div>
+              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Layout</label>
+              <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
+                {([['centered', 'Centre'], ['left', 'Left'], ['minimal', 'Minimal']] as [MetricLayout, string][]).map(([val, lbl]) => (
+                  <button
+                    key={val}
+                    onClick={() => setDraftLayout(val)}
+                    className={cn(
+                      'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
+                      draftLayout === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
+                    )}
+                  >
+                    {lbl}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Title size */}
+            <div>
+              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Title Size</label>
+              <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
+                {([['sm', 'S'], ['md', 'M'], ['lg', 'L'], ['xl', 'XL']] as [MetricValueSize, string][]).map(([val, lbl]) => (
+                  <button
+                    key={val}
+                    onClick={() => setDraftTitleSize(val)}
+                    className={cn(
+                      'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer min-w-[28px] text-center',
+                      draftTitleSize === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
+                    )}
+                  >
+                    {lbl}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Value size */}
+            <div>
+              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Value Size</label>
+              <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
+                {([['sm', 'S'], ['md', 'M'], ['lg', 'L'], ['xl', 'XL']] as [MetricValueSize, string][]).map(([val, lbl]) => (
+                  <button
+                    key={val}
+                    onClick={() => setDraftValueSize(val)}
+                    className={cn(
+                      'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer min-w-[28px] text-center',
+                      draftValueSize === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
+                    )}
+                  >
+                    {lbl}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {/* Show label toggle */}
+            <div className="flex items-center justify-between">
+              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Show Label</label>
+              <button
+                onClick={() => setDraftShowLabel((v) => !v)}
+                className={cn(
+                  'w-8 h-[18px] rounded-full transition-colors relative cursor-pointer',
+                  draftShowLabel ? 'bg-gray-700' : 'bg-gray-300'
+                )}
+              >
+                <span className={cn(
+                  'absolute top-[2px] w-[14px] h-[14px] rounded-full bg-white transition-transform shadow-sm',
+                  draftShowLabel ? 'left-[16px]' : 'left-[2px]'
+                )} />
+              </button>
+            </div>
+
+            {/* Value colour */}
+            <div>
+              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Value Colour</label>
+              <div className="flex items-center gap-1.5 mt-1 flex-wrap">
+                <button
+                  onClick={() => setDraftColour('')}
+                  className={cn(
+                    'w-5 h-5 rounded-full border-2 transition-colors cursor-pointer bg-gray-900',
+                    !draftColour ? 'border-gray-400 ring-1 ring-gray-300' : 'border-transparent'
+                  )}
+                  title="Default"
+                />
+                {CHART_COLOUR_PRESETS.map((c) => (
+                  <button
+                    key={c}
+                    onClick={() => setDraftColour(c)}
+                    className={cn(
+                      'w-5 h-5 rounded-full border-2 transition-colors cursor-pointer',
+                      draftColour === c ? 'border-gray-400 ring-1 ring-gray-300' : 'border-transparent'
+                    )}
+                    style={{ backgroundColor: c }}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+    </div>
+  )
+}
@@ -0,0 +1,1511 @@
+import React, { useRef, useState, useLayoutEffect, useEffect, useMemo, useCallback } from 'react'
+import { createPortal } from 'react-dom'
+import {
+  ArrowUp,
+  ArrowDown,
+  X,
+  Calendar,
+  ChevronRight,
+  Clock,
+  Search,
+  Grid3X3,
+  Settings2,
+  Copy,
+  Trash2,
+  TableProperties,
+  Loader2,
+  AlertCircle,
+  ArrowUpDown,
+  Hash,
+  DollarSign,
+  Percent,
+  CaseSensitive,
+  Paintbrush,
+  Filter,
+} from 'lucide-react'
+import type {
+  DateTruncation,
+  PivotColumnFilter,
+  DashboardWidget,
+  SavedTable,
+  PivotConfig,
+  ColumnFormat,
+  PivotValueConfig,
+} from '@/lib/types'
+import { cn } from '@/lib/utils'
+import { useDashboardDataset } from '@/contexts/DashboardDataContext'
+import { useDashboardRowFilter, useCrossFilter } from '@/contexts/DashboardFiltersContext'
+import DrillThroughPanel, { type DrillThrough } from '@/components/DrillThroughPanel'
+import { pivotGroupKey, looksLikeDate, parseDate, formatDatePretty } from '@/lib/dashboard-dates'
+import WidgetUpdatedAt from '@/components/WidgetUpdatedAt'
+import { getCondStyle, applyColumnFormat } from '@/lib/column-format'
+import ColumnFormatToolbar from '@/components/ColumnFormatToolbar'
+import { AGGREGATION_LABELS } from '@/lib/dashboard-metrics'
+
+/* ───────── Pivot Header Context Menu ───────── */
+
+const DATE_TRUNCATION_OPTIONS: { value: DateTruncation; label: string }[] = [
+  { value: 'none', label: 'None (exact)' },
+  { value: 'hour', label: 'Hour' },
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'month', label: 'Month' },
+  { value: 'quarter', label: 'Quarter' },
+  { value: 'year', label: 'Year' },
+]
+
+function PivotHeaderContextMenu({
+  x,
+  y,
+  columnKey,
+  displayName,
+  currentTruncation,
+  isDateColumn,
+  sortState,
+  onSort,
+  onTruncation,
+  onClose,
+}: {
+  x: number
+  y: number
+  columnKey: string
+  displayName: string
+  currentTruncation: DateTruncation | undefined
+  isDateColumn: boolean
+  sortState: 'asc' | 'desc' | null
+  onSort: (dir: 'asc' | 'desc' | null) => void
+  onTruncation: (col: string, trunc: DateTruncation | undefined) => void
+  onClose: () => void
+}) {
+  const menuRef = useRef<HTMLDivElement>(null)
+  const [showDateSub, setShowDateSub] = useState(false)
+
+  // Clamp position
+  const [pos, setPos] = useState({ top: y, left: x })
+  useLayoutEffect(() => {
+    const menuW = 200
+    const menuH = 220
+    let left = x
+    let top = y
+    if (left + menuW > window.innerWidth - 8) left = window.innerWidth - menuW - 8
+    if (left < 8) left = 8
+    if (top + menuH > window.innerHeight - 8) top = window.innerHeight - menuH - 8
+    if (top < 8) top = 8
+    setPos({ top, left })
+  }, [x, y])
+
+  // Close on outside click
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose()
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [onClose])
+
+  // Close on scroll
+  useEffect(() => {
+    const handler = () => onClose()
+    window.addEventListener('scroll', handler, true)
+    return () => window.removeEventListener('scroll', handler, true)
+  }, [onClose])
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      style={{ position: 'fixed', top: pos.top, left: pos.left, zIndex: 9999 }}
+      className="bg-white border border-gray-200 rounded-md shadow-lg w-[200px] py-1 animate-in fade-in zoom-in-95 duration-100"
+    >
+      {/* Sort options */}
+      <button
+        onClick={() => { onSort(sortState === 'asc' ? null : 'asc'); onClose() }}
+        className={cn(
+          'w-full flex items-center gap-2 px-3 py-1.5 text-[11px] transition-colors cursor-pointer',
+          sortState === 'asc' ? 'text-gray-900 bg-gray-50 font-medium' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+        )}
+      >
+        <ArrowUp size={12} className="shrink-0 text-gray-400" />
+        <span>Sort ascending</span>
+      </button>
+      <button
+        onClick={() => { onSort(sortState === 'desc' ? null : 'desc'); onClose() }}
+        className={cn(
+          'w-full flex items-center gap-2 px-3 py-1.5 text-[11px] transition-colors cursor-pointer',
+          sortState === 'desc' ? 'text-gray-900 bg-gray-50 font-medium' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+        )}
+      >
+        <ArrowDown size={12} className="shrink-0 text-gray-400" />
+        <span>Sort descending</span>
+      </button>
+
+      {sortState !== null && (
+        <button
+          onClick={() => { onSort(null); onClose() }}
+          className="w-full flex items-center gap-2 px-3 py-1.5 text-[11px] text-gray-600 hover:bg-gray-50 hover:text-gray-900 transition-colors cursor-pointer"
+        >
+          <X size={12} className="shrink-0 text-gray-400" />
+          <span>Clear sort</span>
+        </button>
+      )}
+
+      {/* Date truncation section */}
+      {isDateColumn && (
+        <>
+          <div className="my-1 border-t border-gray-100" />
+          <div className="relative">
+            <button
+              onMouseEnter={() => setShowDateSub(true)}
+              onClick={() => setShowDateSub((v) => !v)}
+              className={cn(
+                'w-full flex items-center gap-2 px-3 py-1.5 text-[11px] transition-colors cursor-pointer',
+                currentTruncation && currentTruncation !== 'none'
+                  ? 'text-gray-900 bg-gray-50 font-medium'
+                  : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+              )}
+            >
+              <Calendar size={12} className="shrink-0 text-gray-400" />
+              <span className="flex-1 text-left">
+                Date truncation
+                {currentTruncation && currentTruncation !== 'none' && (
+                  <span className="ml-1 text-gray-400 font-normal">({DATE_TRUNCATION_OPTIONS.find((o) => o.value === currentTruncation)?.label})</span>
+                )}
+              </span>
+              <ChevronRight size={10} className="shrink-0 text-gray-400" />
+            </button>
+
+            {/* Submenu */}
+            {showDateSub && (
+              <div
+                className="absolute left-full top-0 ml-1 bg-white border border-gray-200 rounded-md shadow-lg w-[150px] py-1 animate-in fade-in zoom-in-95 duration-100"
+                onMouseLeave={() => setShowDateSub(false)}
+              >
+                {DATE_TRUNCATION_OPTIONS.map((opt) => (
+                  <button
+                    key={opt.value}
+                    onClick={() => {
+                      onTruncation(columnKey, opt.value === 'none' ? undefined : opt.value)
+                      onClose()
+                    }}
+                    className={cn(
+                      'w-full flex items-center gap-2 px-3 py-1.5 text-[11px] transition-colors cursor-pointer',
+                      (currentTruncation || 'none') === opt.value
+                        ? 'text-gray-900 bg-gray-50 font-medium'
+                        : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+                    )}
+                  >
+                    {opt.value === 'hour' && <Clock size={11} className="shrink-0 text-gray-400" />}
+                    {opt.value !== 'hour' && opt.value !== 'none' && <Calendar size={11} className="shrink-0 text-gray-400" />}
+                    {opt.value === 'none' && <X size={11} className="shrink-0 text-gray-400" />}
+                    <span>{opt.label}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </>
+      )}
+
+      {/* Remove truncation if currently set */}
+      {currentTruncation && currentTruncation !== 'none' && (
+        <button
+          onClick={() => { onTruncation(columnKey, undefined); onClose() }}
+          className="w-full flex items-center gap-2 px-3 py-1.5 text-[11px] text-gray-600 hover:bg-gray-50 hover:text-gray-900 transition-colors cursor-pointer"
+        >
+          <X size={12} className="shrink-0 text-gray-400" />
+          <span>Remove truncation</span>
+        </button>
+      )}
+    </div>,
+    document.body
+  )
+}
+
+/* ───────── Column Filter Popover ───────── */
+
+function ColumnFilterPopover({
+  anchorRect,
+  columnKey,
+  displayName,
+  allRows,
+  currentFilter,
+  onApply,
+  onClose,
+}: {
+  anchorRect: DOMRect
+  columnKey: string
+  displayName: string
+  allRows: Record<string, unknown>[]
+  currentFilter: PivotColumnFilter | undefined
+  onApply: (columnKey: string, filter: PivotColumnFilter | undefined) => void
+  onClose: () => void
+}) {
+  const menuRef = useRef<HTMLDivElement>(null)
+  const [search, setSearch] = useState('')
+  const [excludeNulls, setExcludeNulls] = useState(currentFilter?.excludeNulls ?? false)
+  const [excludeBlanks, setExcludeBlanks] = useState(currentFilter?.excludeBlanks ?? false)
+  const [excludeValues, setExcludeValues] = useState<Set<string>>(new Set(currentFilter?.excludeValues ?? []))
+
+  // Compute unique values for this column
+  const uniqueValues = useMemo(() => {
+    const valMap = new Map<string, { raw: unknown; count: number }>()
+    let nullCount = 0
+    let blankCount = 0
+    for (const row of allRows) {
+      const raw = row[columnKey]
+      if (raw == null) { nullCount++; continue }
+      const str = String(raw)
+      if (str.trim() === '') { blankCount++; continue }
+      if (valMap.has(str)) valMap.get(str)!.count++
+      else valMap.set(str, { raw, count: 1 })
+    }
+    const sorted = [...valMap.entries()].sort((a, b) => a[0].localeCompare(b[0]))
+    return { values: sorted, nullCount, blankCount }
+  }, [allRows, columnKey])
+
+  const filteredValues = useMemo(() => {
+    if (!search) return uniqueValues.values
+    const lower = search.toLowerCase()
+    return uniqueValues.values.filter(([str]) => str.toLowerCase().includes(lower))
+  }, [uniqueValues.values, search])
+
+  // Close on outside click
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose()
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [onClose])
+
+  const toggleValue = (str: string) => {
+    setExcludeValues((prev) => {
+      const next = new Set(prev)
+      if (next.has(str)) next.delete(str)
+      else next.add(str)
+      return next
+    })
+  }
+
+  const selectAll = () => {
+    setExcludeValues(new Set())
+    setExcludeNulls(false)
+    setExcludeBlanks(false)
+  }
+
+  const selectNone = () => {
+    setExcludeValues(new Set(uniqueValues.values.map(([str]) => str)))
+    setExcludeNulls(true)
+    setExcludeBlanks(true)
+  }
+
+  const handleApply = () => {
+    const hasExcludes = excludeNulls || excludeBlanks || excludeValues.size > 0
+    if (!hasExcludes) {
+      onApply(columnKey, undefined)  // clear filter
+    } else {
+      onApply(columnKey, {
+        excludeNulls: excludeNulls || undefined,
+        excludeBlanks: excludeBlanks || undefined,
+        excludeValues: excludeValues.size > 0 ? [...excludeValues] : undefined,
+      })
+    }
+    onClose()
+  }
+
+  // Position below the anchor
+  const top = Math.min(anchorRect.bottom + 4, window.innerHeight - 380)
+  const left = Math.min(anchorRect.left, window.innerWidth - 260)
+
+  const isFiltered = excludeNulls || excludeBlanks || excludeValues.size > 0
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      style={{ position: 'fixed', top, left, zIndex: 9999 }}
+      className="bg-white border border-gray-200 rounded-md shadow-lg w-[250px] animate-in fade-in zoom-in-95 duration-100 flex flex-col"
+    >
+      {/* Header */}
+      <div className="px-3 py-2 border-b border-gray-100 flex items-center justify-between">
+        <span className="text-xs font-semibold text-gray-700 truncate">{displayName}</span>
+        <button onClick={onClose} className="p-0.5 rounded hover:bg-gray-100 text-gray-400 hover:text-gray-600 cursor-pointer">
+          <X size={12} />
+        </button>
+      </div>
+
+      {/* Search */}
+      <div className="px-3 py-2 border-b border-gray-100">
+        <div className="flex items-center gap-1.5 bg-gray-50 border border-gray-200 rounded-md px-2 py-1.5">
+          <Search size={11} className="text-gray-400 shrink-0" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search values..."
+            className="text-xs bg-transparent outline-none flex-1 text-gray-700 placeholder-gray-400"
+          />
+        </div>
+      </div>
+
+      {/* Select All / None */}
+      <div className="px-3 py-1.5 flex items-center gap-2 border-b border-gray-100">
+        <button onClick={selectAll} className="text-[10px] text-blue-600 hover:text-blue-700 font-medium cursor-pointer">Select All</button>
+        <span className="text-gray-300">|</span>
+        <button onClick={selectNone} className="text-[10px] text-blue-600 hover:text-blue-700 font-medium cursor-pointer">Select None</button>
+        {isFiltered && (
+          <>
+            <span className="text-gray-300">|</span>
+            <button onClick={selectAll} className="text-[10px] text-red-500 hover:text-red-600 font-medium cursor-pointer">Clear Filter</button>
+          </>
+        )}
+      </div>
+
+      {/* Values list */}
+      <div className="max-h-[200px] overflow-y-auto py-1">
+        {/* Null option */}
+        {uniqueValues.nullCount > 0 && (
+          <label className="flex items-center gap-2 px-3 py-1 hover:bg-gray-50 cursor-pointer">
+            <input type="checkbox" checked={!excludeNulls} onChange={() => setExcludeNulls(!excludeNulls)} className="rounded border-gray-300 text-blue-600 h-3 w-3" />
+            <span className="text-xs text-gray-500 italic flex-1">(null)</span>
+            <span className="text-[10px] text-gray-400">{uniqueValues.nullCount}</span>
+          </label>
+        )}
+
+        {/* Blank option */}
+        {uniqueValues.blankCount > 0 && (
+          <label className="flex items-center gap-2 px-3 py-1 hover:bg-gray-50 cursor-pointer">
+            <input type="checkbox" checked={!excludeBlanks} onChange={() => setExcludeBlanks(!excludeBlanks)} className="rounded border-gray-300 text-blue-600 h-3 w-3" />
+            <span className="text-xs text-gray-500 italic flex-1">(blank)</span>
+            <span className="text-[10px] text-gray-400">{uniqueValues.blankCount}</span>
+          </label>
+        )}
+
+        {/* Actual values */}
+        {filteredValues.map(([str, { count }]) => (
+          <label key={str} className="flex items-center gap-2 px-3 py-1 hover:bg-gray-50 cursor-pointer">
+            <input type="checkbox" checked={!excludeValues.has(str)} onChange={() => toggleValue(str)} className="rounded border-gray-300 text-blue-600 h-3 w-3" />
+            <span className="text-xs text-gray-700 truncate flex-1">{str}</span>
+            <span className="text-[10px] text-gray-400">{count}</span>
+          </label>
+        ))}
+
+        {filteredValues.length === 0 && uniqueValues.nullCount === 0 && uniqueValues.blankCount === 0 && (
+          <p className="text-xs text-gray-400 italic px-3 py-2">No values</p>
+        )}
+      </div>
+
+      {/* Apply button */}
+      <div className="px-3 py-2 border-t border-gray-100">
+        <button
+          onClick={handleApply}
+          className="w-full bg-gray-900 text-white text-xs font-medium py-1.5 rounded-md hover:bg-gray-800 transition-colors cursor-pointer"
+        >
+          Apply Filter
+        </button>
+      </div>
+    </div>,
+    document.body
+  )
+}
+
+/* ───────── Pivot Table Card ───────── */
+
+export default function PivotCard({
+  widget,
+  savedTables,
+  editMode,
+  onRemove,
+  onDuplicate,
+  onOpenConfig,
+  onDisplayNameChange,
+  onPivotConfigChange,
+  onColumnFormatsChange,
+  onColumnSelect,
+}: {
+  widget: DashboardWidget
+  savedTables: SavedTable[]
+  editMode: boolean
+  onRemove: () => void
+  onDuplicate: () => void
+  onOpenConfig: () => void
+  onDisplayNameChange: (name: string) => void
+  onPivotConfigChange: (config: PivotConfig) => void
+  onColumnFormatsChange: (formats: Record<string, ColumnFormat>) => void
+  onColumnSelect: (colKey: string) => void
+}) {
+  const config = widget.pivotConfig
+  const table = savedTables.find((t) => t.id === config?.tableId)
+
+  // Data (shared with other widgets on the same table)
+  const { rows: tableRows, loading, error, loadedAt } = useDashboardDataset(config?.tableId ? table : undefined)
+  const dashboardRowFilter = useDashboardRowFilter(widget.i, table?.id)
+  const rows = useMemo(() => dashboardRowFilter.apply(tableRows), [tableRows, dashboardRowFilter])
+
+  // Click a row header to cross-filter by it, or a value cell to filter by the whole row
+  const { selections, toggle: toggleSelection } = useCrossFilter()
+  const ownSelections = useMemo(
+    () => selections.filter((sel) => sel.sourceWidgetId === widget.i),
+    [selections, widget.i]
+  )
+  const rowColumns = config?.rowColumns ?? []
+  const selectPivotKeys = (keys: unknown[], columnIndexes: number[], labels: string[]) => {
+    if (!config) return
+    toggleSelection(widget.i, columnIndexes.map((ki, i) => {
+      const trunc = config.columnTruncations?.[rowColumns[ki]]
+      return {
+        sourceWidgetId: widget.i,
+        tableId: config.tableId,
+        column: rowColumns[ki],
+        value: String(keys[ki] ?? ''),
+        keyKind: 'pivot',
+        ...(trunc && trunc !== 'none' ? { dateTruncate: trunc } : {}),
+        label: labels[i],
+      }
+    }))
+  }
+
+  // Drill-through: the rows behind the selected pivot rows, or behind the whole pivot
+  const [drill, setDrill] = useState<DrillThrough | null>(null)
+  const openDrill = () => {
+    if (!config || !table) return
+    const keys = ownSelections
+    const columnLabel = (column: string) => table.columns.find((c) => c.sourcePath === column)?.alias || column
+    setDrill({
+      title: widget.displayName || 'Pivot Table',
+      description: keys.length > 0 ? keys.map((sel) => `${columnLabel(sel.column)}: ${sel.label}`).join(', ') : undefined,
+      table,
+      select: (all) => applyPivotColumnFilters(dashboardRowFilter.apply(all), config.columnFilters)
+        .filter((row) => keys.every((sel) => pivotGroupKey(row[sel.column], sel.dateTruncate) === sel.value)),
+    })
+  }
+
+  // Inline rename state — title
+  const [editingTitle, setEditingTitle] = useState(false)
+  const [draftTitle, setDraftTitle] = useState('')
+  const titleInputRef = useRef<HTMLInputElement>(null)
+
+  // Inline rename state — column headers
+  const [editingColIdx, setEditingColIdx] = useState<number | null>(null)
+  const [draftColLabel, setDraftColLabel] = useState('')
+  const colInputRef = useRef<HTMLInputElement>(null)
+
+  // Column resize state
+  const [colWidths, setColWidths] = useState<Record<number, number>>({})
+  const resizingCol = useRef<{ idx: number; startX: number; startW: number } | null>(null)
+  const thRefs = useRef<Map<number, HTMLTableCellElement>>(new Map())
+
+  // Quick column format toolbar state
+  const [pivotFmtCol, setPivotFmtCol] = useState<string | null>(null)
+  const [pivotFmtRect, setPivotFmtRect] = useState<{ top: number; left: number; width: number; bottom: number } | null>(null)
+
+  // Right-click context menu state
+  const [pivotCtxMenu, setPivotCtxMenu] = useState<{
+    x: number; y: number; columnKey: string; displayName: string; colIdx: number
+  } | null>(null)
+
+  // Column filter popover state
+  const [filterPopover, setFilterPopover] = useState<{
+    columnKey: string; displayName: string; anchorRect: DOMRect
+  } | null>(null)
+
+  const handleFilterApply = useCallback((col: string, filter: PivotColumnFilter | undefined) => {
+    if (!config) return
+    const prev = config.columnFilters || {}
+    if (!filter) {
+      const next = { ...prev }
+      delete next[col]
+      onPivotConfigChange({ ...config, columnFilters: Object.keys(next).length > 0 ? next : undefined })
+    } else {
+      onPivotConfigChange({ ...config, columnFilters: { ...prev, [col]: filter } })
+    }
+  }, [config, onPivotConfigChange])
+
+  // Detect if a column contains date values
+  const dateColumnCache = useMemo(() => {
+    const cache: Record<string, boolean> = {}
+    if (!rows.length) return cache
+    const sampleSize = Math.min(rows.length, 20)
+    const allCols = [...(config?.rowColumns || []), ...(config?.colColumns || [])]
+    for (const col of allCols) {
+      let dateCount = 0
+      for (let i = 0; i < sampleSize; i++) {
+        if (looksLikeDate(rows[i]?.[col])) dateCount++
+      }
+      cache[col] = dateCount > sampleSize * 0.3
+    }
+    return cache
+  }, [rows, config?.rowColumns, config?.colColumns])
+
+  const handleTruncationChange = useCallback((col: string, trunc: DateTruncation | undefined) => {
+    if (!config) return
+    const prev = config.columnTruncations || {}
+    if (trunc === undefined) {
+      const next = { ...prev }
+      delete next[col]
+      onPivotConfigChange({ ...config, columnTruncations: next })
+    } else {
+      onPivotConfigChange({ ...config, columnTruncations: { ...prev, [col]: trunc } })
+    }
+  }, [config, onPivotConfigChange])
+
+  const openPivotFmtToolbar = useCallback((colKey: string, thElement: HTMLElement) => {
+    const rect = thElement.getBoundingClientRect()
+    setPivotFmtRect({ top: rect.top, left: rect.left, width: rect.width, bottom: rect.bottom })
+    setPivotFmtCol(colKey)
+  }, [])
+
+  const handlePivotFmtApply = useCallback((colKey: string, fmt: ColumnFormat | null) => {
+    const prev = widget.columnFormats || {}
+    if (fmt === null) {
+      const next = { ...prev }
+      delete next[colKey]
+      onColumnFormatsChange(next)
+    } else {
+      onColumnFormatsChange({ ...prev, [colKey]: fmt })
+    }
+  }, [widget.columnFormats, onColumnFormatsChange])
+
+  const startColResize = useCallback((colIdx: number, e: React.MouseEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    const th = thRefs.current.get(colIdx)
+    const startW = th ? th.getBoundingClientRect().width : 100
+    const startX = e.clientX
+    resizingCol.current = { idx: colIdx, startX, startW }
+
+    // Prevent text selection while dragging
+    document.body.style.cursor = 'col-resize'
+    document.body.style.userSelect = 'none'
+
+    const onMove = (me: MouseEvent) => {
+      if (!resizingCol.current) return
+      const delta = me.clientX - resizingCol.current.startX
+      const newW = Math.max(40, resizingCol.current.startW + delta)
+      setColWidths((prev) => ({ ...prev, [resizingCol.current!.idx]: newW }))
+    }
+    const onUp = () => {
+      resizingCol.current = null
+      document.body.style.cursor = ''
+      document.body.style.userSelect = ''
+      window.removeEventListener('mousemove', onMove)
+      window.removeEventListener('mouseup', onUp)
+    }
+    window.addEventListener('mousemove', onMove)
+    window.addEventListener('mouseup', onUp)
+  }, [])
+
+  // Auto-focus title input
+  useEffect(() => {
+    if (editingTitle) setTimeout(() => { titleInputRef.current?.focus(); titleInputRef.current?.select() }, 50)
+  }, [editingTitle])
+
+  // Auto-focus column rename input
+  useEffect(() => {
+    if (editingColIdx !== null) setTimeout(() => { colInputRef.current?.focus(); colInputRef.current?.select() }, 50)
+  }, [editingColIdx])
+
+  // Compute pivot data
+  const pivotData = usePivotData(rows, config)
+
+  // Sort state
+  const [pivotSortCol, setPivotSortCol] = useState<number | null>(null) // index into combined [rowHeaders..., valueHeaders...]
+  const [pivotSortDir, setPivotSortDir] = useState<'asc' | 'desc' | null>(null)
+
+  const togglePivotSort = useCallback((colIdx: number) => {
+    if (pivotSortCol === colIdx) {
+      if (pivotSortDir === 'asc') setPivotSortDir('desc')
+      else if (pivotSortDir === 'desc') { setPivotSortDir(null); setPivotSortCol(null) }
+      else { setPivotSortDir('asc') }
+    } else {
+      setPivotSortCol(colIdx)
+      setPivotSortDir('asc')
+    }
+  }, [pivotSortCol, pivotSortDir])
+
+  const sortedPivotRows = useMemo(() => {
+    if (pivotSortCol === null || pivotSortDir === null) return pivotData.rows
+    const rowHeaderCount = pivotData.rowHeaders.length
+    const isRowCol = pivotSortCol < rowHeaderCount
+    return [...pivotData.rows].sort((a, b) => {
+      const aVal = isRowCol ? a.keys[pivotSortCol] : a.values[pivotSortCol - rowHeaderCount]
+      const bVal = isRowCol ? b.keys[pivotSortCol] : b.values[pivotSortCol - rowHeaderCount]
+      if (aVal == null && bVal == null) return 0
+      if (aVal == null) return 1
+      if (bVal == null) return -1
+      if (typeof aVal === 'number' && typeof bVal === 'number') {
+        return pivotSortDir === 'asc' ? aVal - bVal : bVal - aVal
+      }
+      // Try date comparison for date-like strings
+      const aDate = parseDate(aVal)
+      const bDate = parseDate(bVal)
+      if (aDate && bDate) {
+        const diff = aDate.getTime() - bDate.getTime()
+        return pivotSortDir === 'asc' ? diff : -diff
+      }
+      const cmp = String(aVal).localeCompare(String(bVal))
+      return pivotSortDir === 'asc' ? cmp : -cmp
+    })
+  }, [pivotData.rows, pivotData.rowHeaders.length, pivotSortCol, pivotSortDir])
+
+  // Inline rename state — row column headers
+  const [editingRowColIdx, setEditingRowColIdx] = useState<number | null>(null)
+  const [draftRowColLabel, setDraftRowColLabel] = useState('')
+  const rowColInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (editingRowColIdx !== null) setTimeout(() => { rowColInputRef.current?.focus(); rowColInputRef.current?.select() }, 50)
+  }, [editingRowColIdx])
+
+  const commitRowColLabel = () => {
+    if (editingRowColIdx === null || !config) { setEditingRowColIdx(null); return }
+    setEditingRowColIdx(null)
+    const trimmed = draftRowColLabel.trim()
+    if (!trimmed) return
+    const updatedRowColumns = [...config.rowColumns]
+    // Store the display label as a columnLabel map on the config
+    const labels = { ...(config.rowColumnLabels || {}) }
+    labels[config.rowColumns[editingRowColIdx]] = trimmed
+    onPivotConfigChange({ ...config, rowColumnLabels: labels })
+  }
+
+  const commitTitle = () => {
+    setEditingTitle(false)
+    const trimmed = draftTitle.trim()
+    if (trimmed && trimmed !== (widget.displayName || 'Pivot Table')) {
+      onDisplayNameChange(trimmed)
+    }
+  }
+
+  // Commit a column header rename — maps the visible header index back
+  // to the value's label in the PivotConfig.
+  const commitColLabel = () => {
+    if (editingColIdx === null || !config) { setEditingColIdx(null); return }
+    setEditingColIdx(null)
+    const trimmed = draftColLabel.trim()
+    if (!trimmed) return
+
+    // Determine which value this header index maps to.
+    // Headers are generated as: for each colKey × each value → one header.
+    const valIdx = editingColIdx % config.values.length
+    const updatedValues = config.values.map((v, i) =>
+      i === valIdx ? { ...v, label: trimmed } : v
+    )
+    onPivotConfigChange({ ...config, values: updatedValues })
+  }
+
+  const displayTitle = widget.displayName || 'Pivot Table'
+
+  if (!config?.tableId) {
+    return (
+      <div className="h-full flex flex-col bg-white rounded-md border border-gray-200 overflow-hidden relative group/el">
+        {/* Header — drag handle */}
+        <div className={cn(
+          'widget-drag-handle flex items-center justify-between px-3 py-2 shrink-0 select-none',
+          editMode ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'
+        )}>
+          <div className="flex items-center gap-2 min-w-0">
+            <Grid3X3 size={13} className="text-gray-400 shrink-0" />
+            <span className="text-xs font-medium text-gray-700 truncate">{displayTitle}</span>
+          </div>
+          <div className="flex items-center gap-1 shrink-0" onMouseDown={(e) => e.stopPropagation()}>
+            <button onClick={onOpenConfig} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Configure"><Settings2 size={12} /></button>
+            {editMode && (
+              <>
+                <button onClick={onDuplicate} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Duplicate"><Copy size={12} /></button>
+                <button onClick={onRemove} className="p-1 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Remove"><Trash2 size={12} /></button>
+              </>
+            )}
+          </div>
+        </div>
+        <div className="flex-1 flex flex-col items-center justify-center">
+          <Grid3X3 size={24} className="text-gray-300 mb-2" />
+          <p className="text-sm text-gray-400">Configure pivot table</p>
+          <button
+            onClick={onOpenConfig}
+            className="mt-2 text-xs font-medium text-gray-600 hover:text-gray-800 bg-gray-100 hover:bg-gray-200 rounded-md px-3 py-1.5 transition-colors cursor-pointer"
+          >
+            <Settings2 size={12} className="inline mr-1" />
+            Configure
+          </button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="h-full flex flex-col bg-white rounded-md border border-gray-200 overflow-hidden relative group/el">
+      {/* Header — drag handle */}
+      <div className={cn(
+        'widget-drag-handle flex items-center justify-between px-4 py-2.5 shrink-0 select-none',
+        editMode ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'
+      )}>
+        <div className="flex items-center gap-2 min-w-0">
+          {editingTitle && editMode ? (
+            <input
+              ref={titleInputRef}
+              type="text"
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              onBlur={commitTitle}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitTitle()
+                if (e.key === 'Escape') setEditingTitle(false)
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+              className="w-full text-sm font-semibold text-gray-900 bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none py-0"
+            />
+          ) : (
+            <h4
+              className={cn('text-sm font-semibold text-gray-900 truncate', editMode && 'cursor-text')}
+              onDoubleClick={() => {
+                if (!editMode) return
+                setDraftTitle(displayTitle)
+                setEditingTitle(true)
+              }}
+            >
+              {displayTitle}
+            </h4>
+          )}
+          {!editingTitle && <WidgetUpdatedAt at={loadedAt} className="shrink-0" />}
+        </div>
+        <div className="flex items-center gap-1 shrink-0 opacity-0 group-hover/el:opacity-100 transition-opacity" onMouseDown={(e) => e.stopPropagation()}>
+          {table && (
+            <button
+              onClick={openDrill}
+              className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer"
+              title={ownSelections.length > 0 ? 'View rows for the selection' : 'View rows'}
+            >
+              <TableProperties size={13} />
+            </button>
+          )}
+          <button onClick={onOpenConfig} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Configure"><Settings2 size={13} /></button>
+          {editMode && (
+            <>
+              <button onClick={onDuplicate} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Duplicate"><Copy size={13} /></button>
+              <button onClick={onRemove} className="p-1 text-gray-400 hover:text-red-500 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Remove"><Trash2 size={13} /></button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-hidden px-3 pb-3 flex flex-col min-h-0">
+        {loading ? (
+          <div className="flex items-center justify-center h-full gap-2 text-xs text-gray-400">
+            <Loader2 size={14} className="animate-spin" />Loading…
+          </div>
+        ) : error ? (
+          <div className="flex items-center justify-center h-full gap-2 text-xs text-red-400">
+            <AlertCircle size={14} />{error}
+          </div>
+        ) : pivotData.headers.length === 0 ? (
+          <div className="flex items-center justify-center h-full text-xs text-gray-400">
+            Add values to build the pivot table
+          </div>
+        ) : (
+          <div className="flex-1 min-h-0 border border-gray-200 rounded-md overflow-auto [&_th:last-child]:border-r-0 [&_td:last-child]:border-r-0 [&_tbody_tr:last-child_td]:border-b-0">
+          <table className="text-xs border-collapse" style={{ tableLayout: 'fixed', minWidth: '100%' }}>
+            <colgroup>
+              {pivotData.rowHeaders.map((_, ri) => (
+                <col key={`r${ri}`} style={{ width: colWidths[ri] ? `${colWidths[ri]}px` : undefined, minWidth: 40 }} />
+              ))}
+              {pivotData.headers.map((_, hi) => {
+                const ci = pivotData.rowHeaders.length + hi
+                return <col key={`v${hi}`} style={{ width: colWidths[ci] ? `${colWidths[ci]}px` : undefined, minWidth: 40 }} />
+              })}
+            </colgroup>
+            <thead>
+              {/* ── Row 1: Row headers + Column group spans (or flat headers if no col groups) ── */}
+              <tr className="bg-gray-50/80">
+                {pivotData.rowHeaders.map((rh, ri) => {
+                  const displayLabel = config?.rowColumnLabels?.[rh] || rh
+                  const isSorted = pivotSortCol === ri
+                  const hasTrunc = config?.columnTruncations?.[rh]
+                  return (
+                  <th
+                    key={rh}
+                    ref={(el) => { if (el) thRefs.current.set(ri, el); else thRefs.current.delete(ri) }}
+                    rowSpan={pivotData.hasColGroups ? 2 : 1}
+                    className="text-left px-3 py-2.5 text-xs font-medium text-gray-600 border-b border-r border-gray-200 sticky top-0 left-0 z-20 bg-gray-200 relative select-none overflow-hidden text-ellipsis whitespace-nowrap group/th cursor-pointer"
+                    onContextMenu={(e) => {
+                      e.preventDefault()
+                      setPivotCtxMenu({ x: e.clientX, y: e.clientY, columnKey: rh, displayName: displayLabel, colIdx: ri })
+                    }}
+                    onClick={() => {
+                      if (editingRowColIdx === ri) return
+                      togglePivotSort(ri)
+                    }}
+                  >
+                    {editingRowColIdx === ri && editMode ? (
+                      <input
+                        ref={rowColInputRef}
+                        type="text"
+                        value={draftRowColLabel}
+                        onChange={(e) => setDraftRowColLabel(e.target.value)}
+                        onBlur={commitRowColLabel}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRowColLabel()
+                          if (e.key === 'Escape') setEditingRowColIdx(null)
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        className="w-full text-[10px] font-semibold text-gray-900 bg-transparent border-b border-gray-400 focus:border-gray-600 focus:outline-none py-0"
+                      />
+                    ) : (
+                    <span
+                      className={cn('inline-flex items-center gap-1', editMode && 'cursor-text hover:text-gray-700')}
+                      onDoubleClick={(e) => {
+                        if (!editMode) return
+                        e.stopPropagation()
+                        setDraftRowColLabel(displayLabel)
+                        setEditingRowColIdx(ri)
+                      }}
+                    >
+                      {displayLabel}
+                      {hasTrunc && hasTrunc !== 'none' && (
+                        <span className="text-[9px] text-gray-400 font-normal">({hasTrunc})</span>
+                      )}
+                      {isSorted && pivotSortDir === 'asc' ? (
+                        <ArrowUp size={10} className="text-gray-700" />
+                      ) : isSorted && pivotSortDir === 'desc' ? (
+                        <ArrowDown size={10} className="text-gray-700" />
+                      ) : (
+                        <ArrowUpDown size={10} className="text-gray-300 opacity-0 group-hover/th:opacity-100 transition-opacity" />
+                      )}
+                      {editMode && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation()
+                            const th = (e.currentTarget as HTMLElement).closest('th')
+                            if (th) openPivotFmtToolbar(rh, th)
+                          }}
+                          onMouseDown={(e) => e.stopPropagation()}
+                          className={cn(
+                            'p-0.5 rounded transition-all cursor-pointer',
+                            widget.columnFormats?.[rh]
+                              ? 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
+                              : 'text-gray-300 opacity-0 group-hover/th:opacity-100 hover:text-gray-500 hover:bg-gray-200/50'
+                          )}
+                          title="Format column"
+                        >
+                          {(() => {
+                            const ft = widget.columnFormats?.[rh]?.type
+                            if (ft === 'number') return <Hash size={9} />
+                            if (ft === 'currency') return <DollarSign size={9} />
+                            if (ft === 'percent') return <Percent size={9} />
+                            if (ft === 'date' || ft === 'datetime') return <Calendar size={9} />
+                            if (ft === 'text') return <CaseSensitive size={9} />
+                            return <Paintbrush size={9} />
+                          })()}
+                        </button>
+                      )}
+                      {/* Filter icon */}
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          const th = (e.currentTarget as HTMLElement).closest('th')
+                          if (th) setFilterPopover({ columnKey: rh, displayName: displayLabel, anchorRect: th.getBoundingClientRect() })
+                        }}
+                        onMouseDown={(e) => e.stopPropagation()}
+                        className={cn(
+                          'p-0.5 rounded transition-all cursor-pointer',
+                          config?.columnFilters?.[rh]
+                            ? 'text-blue-600 hover:text-blue-700 hover:bg-blue-50'
+                            : 'text-gray-300 opacity-0 group-hover/th:opacity-100 hover:text-gray-500 hover:bg-gray-200/50'
+                        )}
+                        title="Filter column"
+                      >
+                        <Filter size={9} />
+                      </button>
+                    </span>
+                    )}
+                    {/* Column resize handle */}
+                    <div
+                      className="absolute right-[-4px] top-0 bottom-0 w-[9px] cursor-col-resize z-20 group/resize"
+                      onMouseDown={(e) => startColResize(ri, e)}
+                      onDoubleClick={(e) => { e.stopPropagation(); setColWidths((prev) => { const next = { ...prev }; delete next[ri]; return next }) }}
+                    >
+                      <div className="absolute left-1/2 -translate-x-1/2 top-1 bottom-1 w-[2px] rounded-full bg-gray-300 opacity-0 group-hover/resize:opacity-100 transition-opacity" />
+                    </div>
+                  </th>
+                  )
+                })}
+
+                {pivotData.hasColGroups ? (
+                  /* Column group header cells — span across their value columns */
+                  pivotData.colGroups.map((group, gi) => (
+                    <th
+                      key={`cg-${gi}`}
+                      colSpan={group.span}
+                      className="text-center px-3 py-2 text-xs font-semibold text-gray-700 border-b border-r border-gray-200 sticky top-0 z-10 bg-gray-50 whitespace-nowrap"
+                    >
+                      {group.label}
+                    </th>
+                  ))
+                ) : (
+                  /* No column groups — flat value headers */
+                  pivotData.headers.map((h, i) => {
+                    const ci = pivotData.rowHeaders.length + i
+                    const isSorted = pivotSortCol === ci
+                    return (
+                      <th
+                        key={i}
+                        ref={(el) => { if (el) thRefs.current.set(ci, el); else thRefs.current.delete(ci) }}
+                        className="text-right px-3 py-2.5 text-xs font-medium text-gray-600 border-b border-r border-gray-200 sticky top-0 z-10 bg-gray-50 whitespace-nowrap relative select-none overflow-hidden text-ellipsis group/th cursor-pointer"
+                        onContextMenu={(e) => {
+                          e.preventDefault()
+                          const vc = config?.values[i % (config?.values.length || 1)]
+                          const colKey = vc?.column || String(i)
+                          setPivotCtxMenu({ x: e.clientX, y: e.clientY, columnKey: colKey, displayName: h, colIdx: ci })
+                        }}
+                        onClick={() => {
+                          if (editingColIdx === i) return
+                          togglePivotSort(ci)
+                        }}
+                      >
+                        {editingColIdx === i && editMode ? (
+                          <input
+                            ref={colInputRef}
+                            type="text"
+                            value={draftColLabel}
+                            onChange={(e) => setDraftColLabel(e.target.value)}
+                            onBlur={commitColLabel}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') commitColLabel()
+                              if (e.key === 'Escape') setEditingColIdx(null)
+                            }}
+                            onClick={(e) => e.stopPropagation()}
+                            onMouseDown={(e) => e.stopPropagation()}
+                            className="w-full text-right text-[10px] font-semibold text-gray-900 bg-transparent border-b border-gray-400 focus:border-gray-600 focus:outline-none py-0"
+                          />
+                        ) : (
+                          <span
+                            className={cn('inline-flex items-center gap-1 justify-end', editMode && 'cursor-text hover:text-gray-700')}
+                            onDoubleClick={(e) => {
+                              if (!editMode) return
+                              e.stopPropagation()
+                              setDraftColLabel(h)
+                              setEditingColIdx(i)
+                            }}
+                          >
+                            {isSorted && pivotSortDir === 'asc' ? (
+                              <ArrowUp size={10} className="text-gray-700" />
+                            ) : isSorted && pivotSortDir === 'desc' ? (
+                              <ArrowDown size={10} className="text-gray-700" />
+                            ) : (
+                              <ArrowUpDown size={10} className="text-gray-300 opacity-0 group-hover/th:opacity-100 transition-opacity" />
+                            )}
+                            {h}
+                            {editMode && (() => {
+                              const vc = config?.values[i % (config?.values.length || 1)]
+                              const fmtKey = vc ? (vc.column || vc.id) : String(i)
+                              return (
+                                <>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    const th = (e.currentTarget as HTMLElement).closest('th')
+                                    if (th) openPivotFmtToolbar(fmtKey, th)
+                                  }}
+                                  onMouseDown={(e) => e.stopPropagation()}
+                                  className={cn(
+                                    'p-0.5 rounded transition-all cursor-pointer',
+                                    widget.columnFormats?.[fmtKey]
+                                      ? 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
+                                      : 'text-gray-300 opacity-0 group-hover/th:opacity-100 hover:text-gray-500 hover:bg-gray-200/50'
+                                  )}
+                                  title="Format column"
+                                >
+                                  {(() => {
+                                    const ft = widget.columnFormats?.[fmtKey]?.type
+                                    if (ft === 'number') return <Hash size={9} />
+                                    if (ft === 'currency') return <DollarSign size={9} />
+                                    if (ft === 'percent') return <Percent size={9} />
+                                    if (ft === 'date' || ft === 'datetime') return <Calendar size={9} />
+                                    if (ft === 'text') return <CaseSensitive size={9} />
+                                    return <Paintbrush size={9} />
+                                  })()}
+                                </button>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation()
+                                    const th = (e.currentTarget as HTMLElement).closest('th')
+                                    if (th) setFilterPopover({ columnKey: fmtKey, displayName: h, anchorRect: th.getBoundingClientRect() })
+                                  }}
+                                  onMouseDown={(e) => e.stopPropagation()}
+                                  className={cn(
+                                    'p-0.5 rounded transition-all cursor-pointer',
+                                    config?.columnFilters?.[fmtKey]
+                                      ? 'text-blue-600 hover:text-blue-700 hover:bg-blue-50'
+                                      : 'text-gray-300 opacity-0 group-hover/th:opacity-100 hover:text-gray-500 hover:bg-gray-200/50'
+                                  )}
+                                  title="Filter column"
+                                >
+                                  <Filter size={9} />
+                                </button>
+                                </>
+                              )
+                            })()}
+                          </span>
+                        )}
+                        {/* Column resize handle */}
+                        <div
+                          className="absolute right-[-4px] top-0 bottom-0 w-[9px] cursor-col-resize z-20 group/resize"
+                          onMouseDown={(e) => startColResize(ci, e)}
+                          onDoubleClick={(e) => { e.stopPropagation(); setColWidths((prev) => { const next = { ...prev }; delete next[ci]; return next }) }}
+                        >
+                          <div className="absolute left-1/2 -translate-x-1/2 top-1 bottom-1 w-[2px] rounded-full bg-gray-300 opacity-0 group-hover/resize:opacity-100 transition-opacity" />
+                        </div>
+                      </th>
+                    )
+                  })
+                )}
+              </tr>
+
+              {/* ── Row 2: Value labels under each column group (only when col groups exist) ── */}
+              {pivotData.hasColGroups && (
+                <tr className="bg-gray-50/60">
+                  {pivotData.headers.map((h, i) => {
+                    const ci = pivotData.rowHeaders.length + i
+                    const isSorted = pivotSortCol === ci
+                    const vlIdx = i % pivotData.valueLabels.length
+                    const valueLabel = pivotData.valueLabels[vlIdx]
+                    return (
+                      <th
+                        key={i}
+                        ref={(el) => { if (el) thRefs.current.set(ci, el); else thRefs.current.delete(ci) }}
+                        className="text-right px-3 py-2 text-[10px] font-medium text-gray-500 border-b border-r border-gray-200 sticky top-[29px] z-10 bg-gray-50 whitespace-nowrap relative select-none overflow-hidden text-ellipsis group/th cursor-pointer"
+                        onContextMenu={(e) => {
+                          e.preventDefault()
+                          const vc = config?.values[vlIdx]
+                          const colKey = vc?.column || String(i)
+                          setPivotCtxMenu({ x: e.clientX, y: e.clientY, columnKey: colKey, displayName: h, colIdx: ci })
+                        }}
+                        onClick={() => {
+                          if (editingColIdx === i) return
+                          togglePivotSort(ci)
+                        }}
+                      >
+                        <span className="inline-flex items-center gap-1 justify-end">
+                          {isSorted && pivotSortDir === 'asc' ? (
+                            <ArrowUp size={9} className="text-gray-600" />
+                          ) : isSorted && pivotSortDir === 'desc' ? (
+                            <ArrowDown size={9} className="text-gray-600" />
+                          ) : (
+                            <ArrowUpDown size={9} className="text-gray-300 opacity-0 group-hover/th:opacity-100 transition-opacity" />
+                          )}
+                          {valueLabel}
+                        </span>
+                        {/* Column resize handle */}
+                        <div
+                          className="absolute right-[-4px] top-0 bottom-0 w-[9px] cursor-col-resize z-20 group/resize"
+                          onMouseDown={(e) => startColResize(ci, e)}
+                          onDoubleClick={(e) => { e.stopPropagation(); setColWidths((prev) => { const next = { ...prev }; delete next[ci]; return next }) }}
+                        >
+                          <div className="absolute left-1/2 -translate-x-1/2 top-1 bottom-1 w-[2px] rounded-full bg-gray-300 opacity-0 group-hover/resize:opacity-100 transition-opacity" />
+                        </div>
+                      </th>
+                    )
+                  })}
+                </tr>
+              )}
+            </thead>
+            <tbody>
+              {sortedPivotRows.map((row, ri) => {
+                // Build a synthetic row object for conditional formatting evaluation
+                const syntheticRow: Record<string, unknown> = {}
+                pivotData.rowHeaders.forEach((rh, i) => { syntheticRow[rh] = row.keys[i] })
+                // Map value columns by the value config id/column
+                if (config) {
+                  const valCfgs = config.values
+                  row.values.forEach((v, vi) => {
+                    const vcIdx = row.valueIdx != null ? row.valueIdx : vi % valCfgs.length
+                    const vc = valCfgs[vcIdx]
+                    if (vc) {
+                      syntheticRow[vc.column || vc.id] = v
+                      if (vc.label) syntheticRow[vc.label] = v
+                    }
+                  })
+                }
+                const condRules = widget.conditionalFormats
+                // Keys past the row columns are metric labels (values placed in rows)
+                const keyIndexes = row.keys.map((_, ki) => ki).filter((ki) => ki < rowColumns.length)
+                const keyLabel = (k: unknown, ki: number) => {
+                  const trunc = config?.columnTruncations?.[pivotData.rowHeaders[ki]]
+                  const d = trunc && trunc !== 'none' ? parseDate(k) : null
+                  return d ? formatDatePretty(d, trunc!) : String(k ?? '—')
+                }
+                const rowSelected = ownSelections.length > 0 &&
+                  ownSelections.every((sel) => row.keys[rowColumns.indexOf(sel.column)] === sel.value)
+                return (
+                <tr key={ri} className={cn('hover:bg-gray-50 transition-colors', rowSelected && 'bg-blue-50/70 hover:bg-blue-50')}>
+                  {row.keys.map((k, ki) => {
+                    const rh = pivotData.rowHeaders[ki]
+                    const cellStyle = getCondStyle(condRules, syntheticRow, rh, 'cell')
+                    const colFmt = widget.columnFormats?.[rh]
+                    const trunc = config?.columnTruncations?.[rh]
+                    let displayVal: string
+                    if (colFmt) {
+                      displayVal = applyColumnFormat(k, colFmt)
+                    } else if (trunc && trunc !== 'none') {
+                      // Keys are ISO strings when truncated — format them prettily
+                      const d = parseDate(k)
+                      displayVal = d ? formatDatePretty(d, trunc) : String(k ?? '—')
+                    } else {
+                      displayVal = String(k ?? '—')
+                    }
+                    return (
+                    <td
+                      key={ki}
+                      className={cn("px-3 py-2 text-xs text-gray-800 border-b border-r border-gray-200 font-medium whitespace-nowrap overflow-hidden text-ellipsis bg-gray-100", ki === 0 && "sticky left-0 z-10", ki < rowColumns.length && "cursor-pointer")}
+                      style={cellStyle}
+                      onClick={ki < rowColumns.length ? () => selectPivotKeys(row.keys, [ki], [keyLabel(k, ki)]) : undefined}
+                    >
+                      {displayVal}
+                    </td>
+                    )
+                  })}
+                  {row.values.map((v, vi) => {
+                    // When values are placed in rows, all values in a row are for the same metric
+                    const vcIdx = row.valueIdx != null ? row.valueIdx : (config ? vi % config.values.length : 0)
+                    const vc = config?.values[vcIdx]
+                    const colKey = vc ? (vc.column || vc.id) : String(vi)
+                    const cellStyle = getCondStyle(condRules, syntheticRow, colKey, 'cell')
+                    const colFmt = widget.columnFormats?.[colKey]
+                    const displayVal = colFmt ? applyColumnFormat(v, colFmt) : (v != null ? (typeof v === 'number' ? v.toLocaleString(undefined, { maximumFractionDigits: 2 }) : String(v)) : '—')
+                    return (
+                    <td
+                      key={vi}
+                      className={cn("px-3 py-2 text-right text-xs text-gray-600 border-b border-r border-gray-200 tabular-nums whitespace-nowrap overflow-hidden text-ellipsis", keyIndexes.length > 0 && "cursor-pointer")}
+                      style={cellStyle}
+                      onClick={keyIndexes.length > 0 ? () => selectPivotKeys(row.keys, keyIndexes, keyIndexes.map((ki) => keyLabel(row.keys[ki], ki))) : undefined}
+                    >
+                      {displayVal}
+                    </td>
+                    )
+                  })}
+                </tr>
+                )
+              })}
+            </tbody>
+          </table>
+          </div>
+        )}
+      </div>
+
+      {/* Quick Column Format Toolbar */}
+      {editMode && pivotFmtCol && pivotFmtRect && (
+        <ColumnFormatToolbar
+          colKey={pivotFmtCol}
+          currentFormat={widget.columnFormats?.[pivotFmtCol]}
+          anchorRect={pivotFmtRect}
+          onApply={handlePivotFmtApply}
+          onClose={() => { setPivotFmtCol(null); setPivotFmtRect(null) }}
+        />
+      )}
+
+      {/* Pivot Header Context Menu */}
+      {pivotCtxMenu && (
+        <PivotHeaderContextMenu
+          x={pivotCtxMenu.x}
+          y={pivotCtxMenu.y}
+          columnKey={pivotCtxMenu.columnKey}
+          displayName={pivotCtxMenu.displayName}
+          currentTruncation={config?.columnTruncations?.[pivotCtxMenu.columnKey]}
+          isDateColumn={!!dateColumnCache[pivotCtxMenu.columnKey]}
+          sortState={pivotSortCol === pivotCtxMenu.colIdx ? pivotSortDir : null}
+          onSort={(dir) => {
+            if (dir === null) {
+              setPivotSortCol(null)
+              setPivotSortDir(null)
+            } else {
+              setPivotSortCol(pivotCtxMenu.colIdx)
+              setPivotSortDir(dir)
+            }
+          }}
+          onTruncation={handleTruncationChange}
+          onClose={() => setPivotCtxMenu(null)}
+        />
+      )}
+
+      {/* Column Filter Popover */}
+      {filterPopover && (
+        <ColumnFilterPopover
+          anchorRect={filterPopover.anchorRect}
+          columnKey={filterPopover.columnKey}
+          displayName={filterPopover.displayName}
+          allRows={rows}
+          currentFilter={config?.columnFilters?.[filterPopover.columnKey]}
+          onApply={handleFilterApply}
+          onClose={() => setFilterPopover(null)}
+        />
+      )}
+
+      {drill && <DrillThroughPanel drill={drill} onClose={() => setDrill(null)} />}
+    </div>
+  )
+}
+
+/** Drops the rows a pivot's column filters exclude */
+function applyPivotColumnFilters(
+  rows: Record<string, unknown>[],
+  columnFilters: PivotConfig['columnFilters']
+): Record<string, unknown>[] {
+  if (!columnFilters || Object.keys(columnFilters).length === 0) return rows
+  return rows.filter((row) => {
+    for (const [col, filter] of Object.entries(columnFilters)) {
+      if (!filter) continue
+      const raw = row[col]
+      if (filter.excludeNulls && raw == null) return false
+      if (filter.excludeBlanks && raw != null && String(raw).trim() === '') return false
+      if (filter.excludeValues && filter.excludeValues.length > 0) {
+        if (raw != null && String(raw).trim() !== '' && filter.excludeValues.includes(String(raw))) return false
+      }
+    }
+    return true
+  })
+}
+
+function usePivotData(
+  rows: Record<string, unknown>[],
+  config: PivotConfig | undefined
+): {
+  rowHeaders: string[]
+  headers: string[]
+  colGroups: { label: string; span: number }[]  // column group spans for two-row header
+  valueLabels: string[]                          // per-value labels (repeated per group)
+  hasColGroups: boolean                          // true when colColumns are configured
+  rows: { keys: unknown[]; values: (number | null)[] }[]
+} {
+  return useMemo(() => {
+    if (!config || !config.values || config.values.length === 0) {
+      return { rowHeaders: [], headers: [], colGroups: [], valueLabels: [], hasColGroups: false, rows: [] }
+    }
+
+    const { rowColumns = [], colColumns = [], values, columnTruncations } = config
+    const noRowCols = rowColumns.length === 0
+
+    const applyTrunc = (fieldName: string, raw: unknown): string => pivotGroupKey(raw, columnTruncations?.[fieldName])
+
+    // Helper: aggregate a value from a bucket
+    const aggregateValue = (bucket: { sums: number[]; counts: number[]; vals: number[][]; raws: unknown[][] }, vi: number, vc: PivotValueConfig): unknown => {
+      if (bucket.counts[vi] === 0) return null
+      switch (vc.aggregation) {
+        case 'none': return bucket.raws[vi][0] ?? null
+        case 'count': return bucket.counts[vi]
+        case 'sum': return bucket.sums[vi]
+        case 'average': return bucket.sums[vi] / bucket.counts[vi]
+        case 'min': return Math.min(...bucket.vals[vi])
+        case 'max': return Math.max(...bucket.vals[vi])
+        case 'count_distinct': return new Set(bucket.vals[vi].map(String)).size
+        default: return null
+      }
+    }
+
+    // Apply column filters — exclude rows that don't pass
+    const filteredRows = applyPivotColumnFilters(rows, config.columnFilters)
+
+    // Build a map: rowKey -> colKey -> valueIndex -> accumulated values
+    const dataMap = new Map<string, Map<string, { sums: number[]; counts: number[]; vals: number[][]; raws: unknown[][] }>>()
+    const colKeySet = new Set<string>()
+
+    for (const row of filteredRows) {
+      const rowKey = noRowCols ? '__total__' : rowColumns.map((rc) => applyTrunc(rc, row[rc])).join('|||')
+      const colKey = colColumns.length > 0 ? colColumns.map((cc) => applyTrunc(cc, row[cc])).join(' / ') : '__all__'
+      colKeySet.add(colKey)
+
+      if (!dataMap.has(rowKey)) dataMap.set(rowKey, new Map())
+      const colMap = dataMap.get(rowKey)!
+      if (!colMap.has(colKey)) {
+        colMap.set(colKey, {
+          sums: new Array(values.length).fill(0),
+          counts: new Array(values.length).fill(0),
+          vals: values.map(() => []),
+          raws: values.map(() => []),
+        })
+      }
+      const bucket = colMap.get(colKey)!
+
+      values.forEach((vc, vi) => {
+        const raw = row[vc.column]
+        if (vc.aggregation === 'none') {
+          bucket.raws[vi].push(raw)
+          bucket.counts[vi]++
+        } else if (vc.aggregation === 'count') {
+          bucket.counts[vi]++
+        } else if (vc.aggregation === 'count_distinct') {
+          bucket.vals[vi].push(raw as number) // we'll unique later
+          bucket.counts[vi]++
+        } else {
+          const num = raw != null ? parseFloat(String(raw)) : NaN
+          if (!isNaN(num)) {
+            bucket.sums[vi] += num
+            bucket.counts[vi]++
+            bucket.vals[vi].push(num)
+          }
+        }
+      })
+    }
+
+    const colKeys = colColumns.length > 0 ? [...colKeySet].sort() : ['__all__']
+
+    // Helper: format a col key for display (pretty-print truncated dates)
+    const formatColKey = (ck: string): string => {
+      if (ck === '__all__') return ck
+      // Check if any colColumn has truncation — if so, the key may be ISO
+      for (const cc of colColumns) {
+        const trunc = columnTruncations?.[cc]
+        if (trunc && trunc !== 'none') {
+          const d = parseDate(ck)
+          if (d) return formatDatePretty(d, trunc)
+        }
+      }
+      return ck
+    }
+
+    // Build value labels
+    const valueLabels: string[] = values.map((vc) =>
+      vc.label || (vc.aggregation === 'none' ? (vc.column || '—') : `${AGGREGATION_LABELS[vc.aggregation]}${vc.column ? ` of ${vc.column}` : ''}`)
+    )
+
+    // ─── No row columns ───
+    if (noRowCols) {
+      const placement = config.valuesPlacement ?? 'columns'
+      const hasMultipleCols = colColumns.length > 0 && colKeys.length > 1
+      const colMap = dataMap.get('__total__')
+
+      if (placement === 'rows') {
+        // ── Values as ROWS: metric names in the first column, dates as flat headers ──
+        const rowHeaders = ['']
+        const headers: string[] = []
+        if (hasMultipleCols) {
+          for (const ck of colKeys) headers.push(formatColKey(ck))
+        } else {
+          headers.push('Value')
+        }
+
+        const resultRows: { keys: unknown[]; values: unknown[]; valueIdx?: number }[] = []
+        for (let vi = 0; vi < values.length; vi++) {
+          const rowValues: unknown[] = []
+          for (const ck of colKeys) {
+            const bucket = colMap?.get(ck)
+            rowValues.push(bucket ? aggregateValue(bucket, vi, values[vi]) : null)
+          }
+          resultRows.push({ keys: [valueLabels[vi]], values: rowValues, valueIdx: vi })
+        }
+
+        return { rowHeaders, headers, colGroups: [], valueLabels, hasColGroups: false, rows: resultRows }
+      }
+
+      // ── Values as COLUMNS (default): metric names as sub-headers under dates ──
+      const rowHeaders: string[] = []
+      const headers: string[] = []
+      const colGroups: { label: string; span: number }[] = []
+      const hasColGroups = hasMultipleCols && values.length > 1
+
+      if (hasMultipleCols) {
+        for (const ck of colKeys) {
+          const prettyKey = formatColKey(ck)
+          if (hasColGroups) colGroups.push({ label: prettyKey, span: values.length })
+          for (const vc of values) {
+            const label = vc.label || (vc.aggregation === 'none' ? (vc.column || '—') : `${AGGREGATION_LABELS[vc.aggregation]}${vc.column ? ` of ${vc.column}` : ''}`)
+            headers.push(hasColGroups ? `${prettyKey} — ${label}` : prettyKey)
+          }
+        }
+      } else {
+        for (const vc of values) {
+          headers.push(vc.label || (vc.aggregation === 'none' ? (vc.column || '—') : `${AGGREGATION_LABELS[vc.aggregation]}${vc.column ? ` of ${vc.column}` : ''}`))
+        }
+      }
+
+      // Single row with all values
+      const resultRows: { keys: unknown[]; values: unknown[]; valueIdx?: number }[] = []
+      const rowValues: unknown[] = []
+      for (const ck of colKeys) {
+        const bucket = colMap?.get(ck)
+        for (let vi = 0; vi < values.length; vi++) {
+          rowValues.push(bucket ? aggregateValue(bucket, vi, values[vi]) : null)
+        }
+      }
+      resultRows.push({ keys: [], values: rowValues })
+
+      return { rowHeaders, headers, colGroups, valueLabels, hasColGroups, rows: resultRows }
+    }
+
+    const placement = config.valuesPlacement ?? 'columns'
+
+    // ─── Values in ROWS: each value metric becomes a separate row ───
+    if (placement === 'rows') {
+      // Row headers = original row columns + a "Metric" column at the end
+      const rowHeaders = [...rowColumns, '']
+      // No two-row header for rows mode — column headers are just the group names
+      const hasColGroups = false
+      const colGroups: { label: string; span: number }[] = []
+
+      // One column header per colKey (no value multiplication)
+      const headers: string[] = []
+      for (const ck of colKeys) {
+        const prettyKey = formatColKey(ck)
+        headers.push(ck === '__all__' ? 'Value' : prettyKey)
+      }
+
+      // Build rows: for each original row key × each value → one result row
+      const resultRows: { keys: unknown[]; values: unknown[]; valueIdx?: number }[] = []
+      const sortedRowKeys = [...dataMap.keys()].sort()
+
+      for (const rowKey of sortedRowKeys) {
+        const baseKeys = rowKey.split('|||')
+        const colMap = dataMap.get(rowKey)!
+
+        for (let vi = 0; vi < values.length; vi++) {
+          const rowValues: unknown[] = []
+          for (const ck of colKeys) {
+            const bucket = colMap.get(ck)
+            rowValues.push(bucket ? aggregateValue(bucket, vi, values[vi]) : null)
+          }
+          // Append the metric label as the last key; track value index
+          resultRows.push({ keys: [...baseKeys, valueLabels[vi]], values: rowValues, valueIdx: vi })
+        }
+      }
+
+      return { rowHeaders, headers, colGroups, valueLabels, hasColGroups, rows: resultRows }
+    }
+
+    // ─── Values in COLUMNS (default): each value gets its own column ───
+    const rowHeaders = rowColumns.map((rc) => rc)
+    const headers: string[] = []
+    // Only show two-row header (col group + value sub-labels) when >1 value
+    const hasColGroups = colColumns.length > 0 && colKeys.length > 1 && values.length > 1
+    const colGroups: { label: string; span: number }[] = []
+    for (const ck of colKeys) {
+      const prettyKey = formatColKey(ck)
+      if (hasColGroups) {
+        colGroups.push({ label: prettyKey, span: values.length })
+      }
+      for (const vc of values) {
+        const label = vc.label || (vc.aggregation === 'none' ? (vc.column || '—') : `${AGGREGATION_LABELS[vc.aggregation]}${vc.column ? ` of ${vc.column}` : ''}`)
+        headers.push(hasColGroups ? `${prettyKey} — ${label}` : label)
+      }
+    }
+
+    // Build rows
+    const resultRows: { keys: unknown[]; values: unknown[]; valueIdx?: number }[] = []
+    const sortedRowKeys = [...dataMap.keys()].sort()
+
+    for (const rowKey of sortedRowKeys) {
+      const keys = rowKey.split('|||')
+      const colMap = dataMap.get(rowKey)!
+      const rowValues: unknown[] = []
+
+      for (const ck of colKeys) {
+        const bucket = colMap.get(ck)
+        for (let vi = 0; vi < values.length; vi++) {
+          rowValues.push(bucket ? aggregateValue(bucket, vi, values[vi]) : null)
+        }
+      }
+
+      resultRows.push({ keys, values: rowValues })
+    }
+
+    return { rowHeaders, headers, colGroups, valueLabels, hasColGroups, rows: resultRows }
+  }, [rows, config])
+}
@@ -0,0 +1,20 @@
+import React from 'react'
+
+/** Shows a pivot's render error in place of the card instead of unmounting the dashboard */
+export default class PivotErrorBoundary extends React.Component<{ children: React.ReactNode }, { error: Error | null }> {
+  state = { error: null as Error | null }
+  static getDerivedStateFromError(error: Error) { return { error } }
+  componentDidCatch(error: Error, info: React.ErrorInfo) { console.error('[PivotCard crash]', error, info) }
+  render() {
+    if (this.state.error) {
+      return (
+        <div className="p-4 text-xs text-red-600 bg-white rounded-md border border-red-200">
+          <p className="font-semibold mb-1">Pivot table error</p>
+          <p className="text-red-500">{this.state.error.message}</p>
+          <button onClick={() => this.setState({ error: null })} className="mt-2 text-blue-600 hover:underline text-[10px] cursor-pointer">Try again</button>
+        </div>
+      )
+    }
+    return this.props.children
+  }
+}
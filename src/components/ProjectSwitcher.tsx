@@ -8,7 +8,11 @@ import {
   Plus,
   X,
   Clock,
+  Check,
+  HardDrive,
 } from 'lucide-react'
+import type { FirestoreDatabase } from '@/lib/types'
+import { DEFAULT_DATABASE_ID } from '@/lib/firestore-rest'
 
 const RECENT_PROJECTS_KEY = 'firegrid_recent_projects'
 
@@ -28,9 +32,13 @@ interface ProjectSwitcherProps {
   onAddProject?: () => void
   /** Called when the user removes a project — parent handles Firestore + cache sync. */
   onRemoveProject?: (projectId: string) => void
+  /** Databases in the current project. The picker is only shown when there is more than one. */
+  databases?: FirestoreDatabase[]
+  currentDatabaseId?: string
+  onDatabaseChange?: (databaseId: string) => void
 }
 
-export default function ProjectSwitcher({ currentProjectId, recentProjects: recentProjectsProp, onAddProject, onRemoveProject }: ProjectSwitcherProps) {
+export default function ProjectSwitcher({ currentProjectId, recentProjects: recentProjectsProp, onAddProject, onRemoveProject, databases, currentDatabaseId = DEFAULT_DATABASE_ID, onDatabaseChange }: ProjectSwitcherProps) {
   const [open, setOpen] = useState(false)
   const containerRef = useRef<HTMLDivElement>(null)
   const navigate = useNavigate()
@@ -61,12 +69,18 @@ export default function ProjectSwitcher({ currentProjectId, recentProjects: rece
   }, [open])
 
   const otherProjects = recentProjects.filter((p) => p !== currentProjectId)
+  const showDatabases = !!onDatabaseChange && !!databases && databases.length > 1
 
   const handleSelectProject = (projectId: string) => {
     setOpen(false)
     navigate(`/project/${projectId}`)
   }
 
+  const handleSelectDatabase = (databaseId: string) => {
+    setOpen(false)
+    if (databaseId !== currentDatabaseId) onDatabaseChange?.(databaseId)
+  }
+
   const handleRemoveProject = (projectId: string, e: React.MouseEvent) => {
     e.stopPropagation()
     onRemoveProject?.(projectId)
@@ -97,6 +111,9 @@ export default function ProjectSwitcher({ currentProjectId, recentProjects: rece
         <span className="font-medium truncate max-w-[180px]">
           {currentProjectId || 'No project'}
         </span>
+        {currentDatabaseId !== DEFAULT_DATABASE_ID && (
+          <span className="text-xs text-gray-400 truncate max-w-[120px]">/ {currentDatabaseId}</span>
+        )}
         <ChevronDown
           className={cn(
             'h-3.5 w-3.5 text-gray-400 transition-transform duration-200 shrink-0',
@@ -131,6 +148,34 @@ export default function ProjectSwitcher({ currentProjectId, recentProjects: rece
                 </div>
               )}
 
+              {/* Databases in current project */}
+              {showDatabases && (
+                <div className="py-1.5 border-b border-gray-100 dark:border-gray-700">
+                  <p className="px-3 py-1 text-[10px] font-medium text-gray-400 uppercase tracking-wide flex items-center gap-1">
+                    <HardDrive size={9} />
+                    Databases
+                  </p>
+                  {databases.map((db) => (
+                    <button
+                      key={db.databaseId}
+                      onClick={() => handleSelectDatabase(db.databaseId)}
+                      className="w-full flex items-center justify-between px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <HardDrive size={13} className="text-gray-300 shrink-0" />
+                        <span className="text-sm text-gray-700 dark:text-gray-300 truncate">{db.databaseId}</span>
+                        {db.locationId && (
+                          <span className="text-[10px] text-gray-400 shrink-0">{db.locationId}</span>
+                        )}
+                      </div>
+                      {db.databaseId === currentDatabaseId && (
+                        <Check size={12} className="text-gray-500 shrink-0" />
+                      )}
+                    </button>
+                  ))}
+                </div>
+              )}
+
               {/* Other recent projects */}
               {otherProjects.length > 0 && (
                 <div className="py-1.5">
@@ -0,0 +1,126 @@
+import { SlidersHorizontal, Loader2 } from 'lucide-react'
+import type { QueryParameter, QueryParameterType } from '@/lib/types'
+
+const PARAM_TYPES: { value: QueryParameterType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Column values' },
+]
+
+const inputClass =
+  'h-7 px-2 text-xs text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 rounded-md focus:outline-none focus:ring-1 focus:ring-gray-400'
+
+// ---- Component ----
+
+interface QueryParamsPanelProps {
+  /** Placeholders in the current SQL, with their input settings */
+  params: QueryParameter[]
+  values: Record<string, string>
+  onParamChange: (name: string, patch: Partial<QueryParameter>) => void
+  onValueChange: (name: string, value: string) => void
+  /** "table.column" choices for select parameters */
+  sourceColumns: string[]
+  /** Distinct values per source column; undefined until the table is loaded */
+  sourceValues: Record<string, string[] | undefined>
+  /** Source columns whose table is being fetched */
+  loadingSources: string[]
+  onLoadSource: (sourceColumn: string) => void
+}
+
+/**
+ * Inputs for the `:name` placeholders in the workbench SQL.
+ */
+export default function QueryParamsPanel({
+  params,
+  values,
+  onParamChange,
+  onValueChange,
+  sourceColumns,
+  sourceValues,
+  loadingSources,
+  onLoadSource,
+}: QueryParamsPanelProps) {
+  if (params.length === 0) return null
+
+  return (
+    <div className="px-4 py-2 border-t border-gray-100 dark:border-gray-700 flex items-start gap-3">
+      <div className="flex items-center gap-1.5 h-7 text-[10px] font-medium text-gray-400 uppercase tracking-wide shrink-0">
+        <SlidersHorizontal size={10} />
+        Parameters
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-2">
+        {params.map((param) => {
+          const value = values[param.name] ?? ''
+          const options = param.sourceColumn ? sourceValues[param.sourceColumn] : undefined
+          const loadingOptions = param.sourceColumn ? loadingSources.includes(param.sourceColumn) : false
+
+          return (
+            <div key={param.name} className="flex items-center gap-1.5">
+              <span className="text-xs font-mono text-gray-600 dark:text-gray-300">:{param.name}</span>
+              <select
+                value={param.type}
+                onChange={(e) => onParamChange(param.name, { type: e.target.value as QueryParameterType })}
+                className={inputClass}
+                title="Input type"
+              >
+                {PARAM_TYPES.map((t) => (
+                  <option key={t.value} value={t.value}>{t.label}</option>
+                ))}
+              </select>
+
+              {param.type === 'select' && (
+                <select
+                  value={param.sourceColumn ?? ''}
+                  onChange={(e) => {
+                    onParamChange(param.name, { sourceColumn: e.target.value || undefined })
+                    if (e.target.value) onLoadSource(e.target.value)
+                  }}
+                  className={inputClass}
+                  title="Offer the values of this column"
+                >
+                  <option value="">Column…</option>
+                  {sourceColumns.map((c) => (
+                    <option key={c} value={c}>{c}</option>
+                  ))}
+                </select>
+              )}
+
+              {param.type === 'select' && param.sourceColumn && !options ? (
+                <button
+                  onClick={() => onLoadSource(param.sourceColumn!)}
+                  disabled={loadingOptions}
+                  className="h-7 px-2 flex items-center gap-1 text-xs text-gray-500 hover:text-gray-800 dark:hover:text-gray-200 disabled:opacity-60"
+                >
+                  {loadingOptions && <Loader2 size={11} className="animate-spin" />}
+                  {loadingOptions ? 'Loading values…' : 'Load values'}
+                </button>
+              ) : param.type === 'select' && options ? (
+                <select
+                  value={value}
+                  onChange={(e) => onValueChange(param.name, e.target.value)}
+                  className={`${inputClass} max-w-48`}
+                >
+                  <option value="">Choose…</option>
+                  {/* Keep a value that isn't (or is no longer) among the column's values */}
+                  {value && !options.includes(value) && <option value={value}>{value}</option>}
+                  {options.map((o) => (
+                    <option key={o} value={o}>{o}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={param.type === 'date' ? 'date' : param.type === 'number' ? 'number' : 'text'}
+                  value={value}
+                  onChange={(e) => onValueChange(param.name, e.target.value)}
+                  placeholder={param.type === 'select' ? 'Value' : undefined}
+                  className={`${inputClass} w-36`}
+                />
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import { Plus, X, Loader2, Filter, AlertCircle } from 'lucide-react'
+import {
+  SERVER_FILTER_OPERATORS,
+  isListFilterOp,
+  isUnaryFilterOp,
+  type ServerFilterCondition,
+} from '@/lib/server-filters'
+import FirestoreErrorMessage from '@/components/FirestoreErrorMessage'
+
+function newCondition(field = ''): ServerFilterCondition {
+  return { id: crypto.randomUUID(), field, op: 'EQUAL', value: '' }
+}
+
+// ---- Component ----
+
+interface ServerFilterBarProps {
+  /** Known field paths, offered as suggestions */
+  fields: string[]
+  /** Currently applied conditions */
+  conditions: ServerFilterCondition[]
+  onApply: (conditions: ServerFilterCondition[]) => void
+  loading?: boolean
+  error?: string | null
+}
+
+export default function ServerFilterBar({ fields, conditions, onApply, loading, error }: ServerFilterBarProps) {
+  const [draft, setDraft] = useState<ServerFilterCondition[]>(
+    conditions.length > 0 ? conditions : [newCondition()]
+  )
+
+  // Re-sync when the applied filters change from outside (e.g. cleared on navigation)
+  const [syncedConditions, setSyncedConditions] = useState(conditions)
+  if (syncedConditions !== conditions) {
+    setSyncedConditions(conditions)
+    setDraft(conditions.length > 0 ? conditions : [newCondition()])
+  }
+
+  const updateCondition = (id: string, patch: Partial<ServerFilterCondition>) => {
+    setDraft((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)))
+  }
+
+  const removeCondition = (id: string) => {
+    setDraft((prev) => {
+      const next = prev.filter((c) => c.id !== id)
+      return next.length > 0 ? next : [newCondition()]
+    })
+  }
+
+  const handleApply = () => {
+    onApply(draft.filter((c) => c.field.trim()))
+  }
+
+  const datalistId = 'server-filter-fields'
+
+  return (
+    <div className="px-4 py-2.5 bg-gray-50/60 dark:bg-gray-800/60 border-b border-gray-200 dark:border-gray-700 space-y-2">
+      <div className="flex items-center gap-1.5 text-[10px] font-medium text-gray-400 uppercase tracking-wide">
+        <Filter size={10} />
+        Firestore filters
+        <span className="normal-case tracking-normal font-normal text-gray-400 dark:text-gray-500">
+          — run on the server, only matching documents are downloaded
+        </span>
+      </div>
+
+      <datalist id={datalistId}>
+        {fields.map((f) => (
+          <option key={f} value={f} />
+        ))}
+      </datalist>
+
+      {draft.map((c) => (
+        <div key={c.id} className="flex items-center gap-2">
+          <input
+            type="text"
+            list={datalistId}
+            value={c.field}
+            onChange={(e) => updateCondition(c.id, { field: e.target.value })}
+            placeholder="field.path"
+            spellCheck={false}
+            className="w-48 text-xs font-mono border border-gray-200 dark:border-gray-600 rounded-md px-2 py-1.5 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-200 dark:focus:ring-gray-600"
+          />
+          <select
+            value={c.op}
+            onChange={(e) => updateCondition(c.id, { op: e.target.value as ServerFilterCondition['op'] })}
+            className="text-xs border border-gray-200 dark:border-gray-600 rounded-md px-2 py-1.5 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-200 dark:focus:ring-gray-600"
+          >
+            {SERVER_FILTER_OPERATORS.map((op) => (
+              <option key={op.value} value={op.value}>{op.label}</option>
+            ))}
+          </select>
+          {!isUnaryFilterOp(c.op) && (
+            <input
+              type="text"
+              value={c.value}
+              onChange={(e) => updateCondition(c.id, { value: e.target.value })}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleApply() }}
+              placeholder={isListFilterOp(c.op) ? 'a, b, c' : 'value'}
+              spellCheck={false}
+              className="w-56 text-xs font-mono border border-gray-200 dark:border-gray-600 rounded-md px-2 py-1.5 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-2 focus:ring-gray-200 dark:focus:ring-gray-600"
+            />
+          )}
+          <button
+            onClick={() => removeCondition(c.id)}
+            className="p-1 text-gray-300 hover:text-gray-500 dark:hover:text-gray-300 rounded-md transition-colors"
+            title="Remove condition"
+          >
+            <X size={12} />
+          </button>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={() => setDraft((prev) => [...prev, newCondition()])}
+          className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+        >
+          <Plus size={12} />
+          Add condition
+        </button>
+        <div className="ml-auto flex items-center gap-2">
+          {conditions.length > 0 && (
+            <button
+              onClick={() => onApply([])}
+              disabled={loading}
+              className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors disabled:opacity-50"
+            >
+              Clear
+            </button>
+          )}
+          <button
+            onClick={handleApply}
+            disabled={loading}
+            className="flex items-center gap-1.5 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 text-xs font-medium rounded-md px-3 py-1.5 hover:bg-gray-800 dark:hover:bg-gray-200 transition-colors disabled:opacity-50"
+          >
+            {loading && <Loader2 size={11} className="animate-spin" />}
+            Apply
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 text-xs text-red-600 dark:text-red-400">
+          <AlertCircle size={13} className="mt-0.5 shrink-0" />
+          <FirestoreErrorMessage message={error} />
+        </div>
+      )}
+    </div>
+  )
+}
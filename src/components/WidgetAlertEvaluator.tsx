@@ -0,0 +1,36 @@
+import { useRef, useEffect } from 'react'
+import type { DashboardWidget, SavedTable, AlertRule } from '@/lib/types'
+import { useWidgetServerFilter } from '@/contexts/DashboardFiltersContext'
+import { useDashboardDataset } from '@/contexts/DashboardDataContext'
+import { applyWidgetFilters } from '@/lib/dashboard-filters'
+import { widgetAlertRules, alertRuleValue } from '@/lib/dashboard-alerts'
+
+/** Re-checks a widget's alert rules each time its rows finish loading */
+export default function WidgetAlertEvaluator({
+  widget,
+  table,
+  onEvaluate,
+}: {
+  widget: DashboardWidget
+  table: SavedTable | undefined
+  onEvaluate: (widget: DashboardWidget, rule: AlertRule, value: number | null) => void
+}) {
+  const serverFilter = useWidgetServerFilter(widget.filters, table)
+  const { rows, loading, error, loadedAt } = useDashboardDataset(table, serverFilter)
+  // Editing a rule waits for the next refresh rather than firing on each keystroke
+  const latestRef = useRef({ widget, onEvaluate })
+  useEffect(() => {
+    latestRef.current = { widget, onEvaluate }
+  }, [widget, onEvaluate])
+
+  useEffect(() => {
+    if (loading || error || !loadedAt) return
+    const { widget: current, onEvaluate: evaluate } = latestRef.current
+    const filtered = applyWidgetFilters(rows, current.filters)
+    for (const rule of widgetAlertRules(current)) {
+      evaluate(current, rule, alertRuleValue(current, filtered, rule))
+    }
+  }, [rows, loading, error, loadedAt])
+
+  return null
+}
@@ -0,0 +1,822 @@
+import React, { useRef, useState, useLayoutEffect, useEffect, useCallback } from 'react'
+import { createPortal } from 'react-dom'
+import {
+  ArrowUp,
+  ArrowDown,
+  X,
+  Filter,
+  Pencil,
+  EyeOff,
+  Minimize2,
+  Maximize2,
+  Eye,
+  Settings2,
+  Copy,
+  Loader2,
+  AlertCircle,
+  RefreshCw,
+  Calculator,
+  ArrowUpDown,
+  Hash,
+  DollarSign,
+  Percent,
+  Calendar,
+  CaseSensitive,
+  Paintbrush,
+} from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { DashboardWidget, SavedTable, WidgetFilter, ColumnFormat, CustomColumn, ColumnConfig } from '@/lib/types'
+import { useWidgetServerFilter, useDashboardRowFilter } from '@/contexts/DashboardFiltersContext'
+import { useDashboardDataset } from '@/contexts/DashboardDataContext'
+import { applyWidgetFilters } from '@/lib/dashboard-filters'
+import WidgetUpdatedAt from '@/components/WidgetUpdatedAt'
+import FilterPanel from '@/components/FilterPanel'
+import FirestoreErrorMessage from '@/components/FirestoreErrorMessage'
+import { getCondStyle, applyColumnFormat } from '@/lib/column-format'
+import { formatCellValue } from '@/lib/dashboard-dates'
+import ColumnFormatToolbar from '@/components/ColumnFormatToolbar'
+
+/* ---- Sort helpers ---- */
+
+type SortDir = 'asc' | 'desc' | null
+
+function compareCellValues(a: unknown, b: unknown): number {
+  // Nulls/undefined always last
+  if (a == null && b == null) return 0
+  if (a == null) return 1
+  if (b == null) return -1
+
+  // Numbers
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+
+  // Booleans
+  if (typeof a === 'boolean' && typeof b === 'boolean') return a === b ? 0 : a ? -1 : 1
+
+  // Default: string comparison
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' })
+}
+
+function sortRows(
+  rows: Record<string, unknown>[],
+  sortCol: string | null,
+  sortDir: SortDir
+): Record<string, unknown>[] {
+  if (!sortCol || !sortDir) return rows
+  const sorted = [...rows].sort((a, b) => {
+    const cmp = compareCellValues(a[sortCol], b[sortCol])
+    return sortDir === 'desc' ? -cmp : cmp
+  })
+  return sorted
+}
+
+/* ---- Column right-click context menu ---- */
+
+interface ColumnMenuAction {
+  type: 'sort_asc' | 'sort_desc' | 'clear_sort' | 'filter' | 'rename' | 'hide_column'
+}
+
+function ColumnContextMenu({
+  x,
+  y,
+  colKey,
+  displayName,
+  editMode,
+  sortCol,
+  sortDir,
+  onAction,
+  onClose,
+}: {
+  x: number
+  y: number
+  colKey: string
+  displayName: string
+  editMode: boolean
+  sortCol: string | null
+  sortDir: SortDir
+  onAction: (action: ColumnMenuAction) => void
+  onClose: () => void
+}) {
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Clamp position to viewport
+  const [pos, setPos] = useState({ top: y, left: x })
+  useLayoutEffect(() => {
+    const menuW = 180
+    const menuH = 200
+    let left = x
+    let top = y
+    if (left + menuW > window.innerWidth - 8) left = window.innerWidth - menuW - 8
+    if (left < 8) left = 8
+    if (top + menuH > window.innerHeight - 8) top = window.innerHeight - menuH - 8
+    if (top < 8) top = 8
+    setPos({ top, left })
+  }, [x, y])
+
+  // Close on outside click
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose()
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [onClose])
+
+  // Close on scroll
+  useEffect(() => {
+    const handler = () => onClose()
+    window.addEventListener('scroll', handler, true)
+    return () => window.removeEventListener('scroll', handler, true)
+  }, [onClose])
+
+  const isSortedAsc = sortCol === colKey && sortDir === 'asc'
+  const isSortedDesc = sortCol === colKey && sortDir === 'desc'
+  const isSorted = sortCol === colKey && sortDir !== null
+
+  const items: { label: string; icon: React.ReactNode; action: ColumnMenuAction; active?: boolean; danger?: boolean; show?: boolean; separator?: boolean }[] = [
+    { label: 'Sort ascending', icon: <ArrowUp size={12} />, action: { type: 'sort_asc' }, active: isSortedAsc, show: true },
+    { label: 'Sort descending', icon: <ArrowDown size={12} />, action: { type: 'sort_desc' }, active: isSortedDesc, show: true },
+    { label: 'Clear sort', icon: <X size={12} />, action: { type: 'clear_sort' }, show: isSorted },
+    { label: `Filter by "${displayName}"`, icon: <Filter size={12} />, action: { type: 'filter' }, show: true, separator: true },
+    { label: 'Rename column', icon: <Pencil size={12} />, action: { type: 'rename' }, show: editMode },
+    { label: 'Hide column', icon: <EyeOff size={12} />, action: { type: 'hide_column' }, show: true },
+  ]
+
+  return createPortal(
+    <div
+      ref={menuRef}
+      style={{ position: 'fixed', top: pos.top, left: pos.left, zIndex: 9999 }}
+      className="bg-white border border-gray-200 rounded-md shadow-lg w-[180px] py-1 animate-in fade-in zoom-in-95 duration-100"
+    >
+      {items.filter((i) => i.show).map((item, idx) => (
+        <div key={idx}>
+          {item.separator && <div className="my-1 border-t border-gray-100" />}
+          <button
+            onClick={() => { onAction(item.action); onClose() }}
+            className={cn(
+              'w-full flex items-center gap-2 px-3 py-1.5 text-[11px] transition-colors cursor-pointer',
+              item.active ? 'text-gray-900 bg-gray-50 font-medium' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+            )}
+          >
+          <span className="shrink-0 text-gray-400">{item.icon}</span>
+          <span className="truncate">{item.label}</span>
+        </button>
+        </div>
+      ))}
+    </div>,
+    document.body
+  )
+}
+
+/* ---- Formula evaluator ---- */
+function evaluateFormula(
+  formula: string,
+  row: Record<string, unknown>,
+  prefix?: string,
+  suffix?: string
+): unknown {
+  try {
+    // Replace [ColumnName] references with actual values
+    let expr = formula
+    const refPattern = /\[([^\]]+)\]/g
+    const refs: { name: string; value: number }[] = []
+    let match: RegExpExecArray | null
+    while ((match = refPattern.exec(formula)) !== null) {
+      const colName = match[1]
+      // Find value by sourcePath, alias, or custom column key
+      let raw: unknown = undefined
+      for (const [key, val] of Object.entries(row)) {
+        if (key === colName || key.endsWith(`.${colName}`)) {
+          raw = val
+          break
+        }
+      }
+      const num = raw != null ? parseFloat(String(raw)) : NaN
+      if (isNaN(num)) return '—'
+      refs.push({ name: colName, value: num })
+      expr = expr.replace(match[0], `__ref${refs.length - 1}__`)
+    }
+
+    // Handle IF(condition, trueVal, falseVal)
+    const ifPattern = /IF\s*\((.+?),(.+?),(.+?)\)/gi
+    expr = expr.replace(ifPattern, (_, cond, trueVal, falseVal) => {
+      // Replace comparison operators
+      let evalCond = cond.trim()
+      // Replace refs in condition
+      for (let i = 0; i < refs.length; i++) {
+        evalCond = evalCond.replace(new RegExp(`__ref${i}__`, 'g'), String(refs[i].value))
+      }
+      // Simple evaluation: support =, !=, >, <, >=, <=
+      const compMatch = evalCond.match(/^(.+?)\s*(>=|<=|!=|=|>|<)\s*(.+)$/)
+      if (compMatch) {
+        const left = parseFloat(compMatch[1])
+        const right = parseFloat(compMatch[3])
+        const op = compMatch[2]
+        let result = false
+        if (op === '=' || op === '==') result = left === right
+        else if (op === '!=') result = left !== right
+        else if (op === '>') result = left > right
+        else if (op === '<') result = left < right
+        else if (op === '>=') result = left >= right
+        else if (op === '<=') result = left <= right
+        return result ? trueVal.trim() : falseVal.trim()
+      }
+      return falseVal.trim()
+    })
+
+    // Replace remaining refs with numeric values
+    for (let i = 0; i < refs.length; i++) {
+      expr = expr.replace(new RegExp(`__ref${i}__`, 'g'), String(refs[i].value))
+    }
+
+    // Handle common functions: ROUND, ABS, CEIL, FLOOR, MIN, MAX
+    expr = expr.replace(/ROUND\s*\((.+?)\)/gi, (_, inner) => {
+      const num = parseFloat(inner)
+      return isNaN(num) ? inner : String(Math.round(num))
+    })
+    expr = expr.replace(/ABS\s*\((.+?)\)/gi, (_, inner) => {
+      const num = parseFloat(inner)
+      return isNaN(num) ? inner : String(Math.abs(num))
+    })
+    expr = expr.replace(/CEIL\s*\((.+?)\)/gi, (_, inner) => {
+      const num = parseFloat(inner)
+      return isNaN(num) ? inner : String(Math.ceil(num))
+    })
+    expr = expr.replace(/FLOOR\s*\((.+?)\)/gi, (_, inner) => {
+      const num = parseFloat(inner)
+      return isNaN(num) ? inner : String(Math.floor(num))
+    })
+
+    // Safely evaluate arithmetic expression (only numbers and operators)
+    const sanitised = expr.replace(/[^0-9+\-*/().%\s]/g, '')
+    if (!sanitised.trim()) return '—'
+    // eslint-disable-next-line no-eval
+    const result = Function(`"use strict"; return (${sanitised})`)()
+    if (typeof result !== 'number' || isNaN(result)) return '—'
+    const formatted = Number.isInteger(result)
+      ? result.toLocaleString()
+      : result.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 2 })
+    return `${prefix ?? ''}${formatted}${suffix ?? ''}`
+  } catch {
+    return '—'
+  }
+}
+
+/* ---- Widget Card Component ---- */
+
+export default function WidgetCard({
+  widget,
+  table,
+  isFullWidth,
+  editMode,
+  onRemove,
+  onDuplicate,
+  onToggleFullWidth,
+  onDisplayNameChange,
+  onColumnAliasChange,
+  onFiltersChange,
+  onHiddenColumnsChange,
+  onColumnOrderChange,
+  onOpenConfig,
+  onOpenTable,
+  onColumnFormatsChange,
+  onColumnSelect,
+}: {
+  widget: DashboardWidget
+  table: SavedTable | undefined
+  isFullWidth: boolean
+  editMode: boolean
+  onRemove: () => void
+  onDuplicate: () => void
+  onToggleFullWidth: () => void
+  onDisplayNameChange: (name: string) => void
+  onColumnAliasChange: (sourcePath: string, alias: string) => void
+  onFiltersChange: (filters: WidgetFilter[]) => void
+  onHiddenColumnsChange: (cols: string[]) => void
+  onColumnOrderChange: (order: string[]) => void
+  onOpenConfig: () => void
+  onOpenTable: () => void
+  onColumnFormatsChange: (formats: Record<string, ColumnFormat>) => void
+  onColumnSelect: (colKey: string) => void
+}) {
+  const [sortCol, setSortCol] = useState<string | null>(null)
+  const [sortDir, setSortDir] = useState<SortDir>(null)
+
+  // Inline rename state for widget title
+  const [editingTitle, setEditingTitle] = useState(false)
+  const [draftTitle, setDraftTitle] = useState('')
+  const titleInputRef = useRef<HTMLInputElement>(null)
+
+  // Inline rename state for column headers
+  const [editingColKey, setEditingColKey] = useState<string | null>(null)
+  const [draftColName, setDraftColName] = useState('')
+  const colInputRef = useRef<HTMLInputElement>(null)
+
+  // Filter panel state
+  const [showFilters, setShowFilters] = useState(false)
+  const filterBtnRef = useRef<HTMLButtonElement>(null)
+
+  // Column context menu state
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; colKey: string; displayName: string } | null>(null)
+
+  // Quick column format toolbar state
+  const [formatToolbarCol, setFormatToolbarCol] = useState<string | null>(null)
+  const [formatToolbarRect, setFormatToolbarRect] = useState<{ top: number; left: number; width: number; bottom: number } | null>(null)
+
+  const openFormatToolbar = useCallback((colKey: string, thElement: HTMLElement) => {
+    const rect = thElement.getBoundingClientRect()
+    setFormatToolbarRect({ top: rect.top, left: rect.left, width: rect.width, bottom: rect.bottom })
+    setFormatToolbarCol(colKey)
+  }, [])
+
+  const handleFormatApply = useCallback((colKey: string, fmt: ColumnFormat | null) => {
+    const prev = widget.columnFormats || {}
+    if (fmt === null) {
+      const next = { ...prev }
+      delete next[colKey]
+      onColumnFormatsChange(next)
+    } else {
+      onColumnFormatsChange({ ...prev, [colKey]: fmt })
+    }
+  }, [widget.columnFormats, onColumnFormatsChange])
+
+  const serverFilter = useWidgetServerFilter(widget.filters, table)
+  const dashboardRowFilter = useDashboardRowFilter(widget.i, table?.id)
+
+  // Live data for this widget, shared with other widgets on the same table
+  const { rows, loading, error, loadedAt, retry: handleRetry } = useDashboardDataset(table, serverFilter)
+
+  const handleSort = useCallback((colKey: string) => {
+    setSortCol((prev) => {
+      if (prev !== colKey) {
+        setSortDir('asc')
+        return colKey
+      }
+      // Cycle: asc → desc → none
+      setSortDir((d) => {
+        if (d === 'asc') return 'desc'
+        if (d === 'desc') return null
+        return 'asc'
+      })
+      return colKey
+    })
+  }, [])
+
+  // Clear sort when switching to a column that ended up null
+  useEffect(() => {
+    if (sortDir === null) setSortCol(null)
+  }, [sortDir])
+
+  // Auto-focus title input
+  useEffect(() => {
+    if (editingTitle) setTimeout(() => { titleInputRef.current?.focus(); titleInputRef.current?.select() }, 50)
+  }, [editingTitle])
+
+  // Auto-focus column input
+  useEffect(() => {
+    if (editingColKey) setTimeout(() => { colInputRef.current?.focus(); colInputRef.current?.select() }, 50)
+  }, [editingColKey])
+
+  const commitTitle = () => {
+    setEditingTitle(false)
+    const trimmed = draftTitle.trim()
+    if (trimmed && trimmed !== (widget.displayName || table?.tableName || '')) {
+      onDisplayNameChange(trimmed)
+    }
+  }
+
+  const commitColRename = () => {
+    if (!editingColKey) return
+    setEditingColKey(null)
+    const trimmed = draftColName.trim()
+    if (trimmed) {
+      onColumnAliasChange(editingColKey, trimmed)
+    }
+  }
+
+  const handleColumnContextAction = useCallback((action: ColumnMenuAction, colKey: string, displayName: string) => {
+    switch (action.type) {
+      case 'sort_asc':
+        setSortCol(colKey)
+        setSortDir('asc')
+        break
+      case 'sort_desc':
+        setSortCol(colKey)
+        setSortDir('desc')
+        break
+      case 'clear_sort':
+        setSortCol(null)
+        setSortDir(null)
+        break
+      case 'filter': {
+        const existing = widget.filters ?? []
+        const newFilter: WidgetFilter = { id: `f-${Date.now()}`, column: colKey, operator: 'contains', value: '' }
+        onFiltersChange([...existing, newFilter])
+        setShowFilters(true)
+        break
+      }
+      case 'rename':
+        if (editMode) {
+          setDraftColName(displayName)
+          setEditingColKey(colKey)
+        }
+        break
+      case 'hide_column': {
+        const current = widget.hiddenColumns ?? []
+        if (!current.includes(colKey)) {
+          onHiddenColumnsChange([...current, colKey])
+        }
+        break
+      }
+    }
+  }, [widget.filters, widget.hiddenColumns, editMode, onFiltersChange, onHiddenColumnsChange])
+
+  if (!table) {
+    return (
+      <div className="h-full bg-white rounded-md border border-gray-200 flex items-center justify-center">
+        <p className="text-xs text-gray-400">Table not found</p>
+      </div>
+    )
+  }
+
+  const hiddenSet = new Set(widget.hiddenColumns ?? [])
+  const visibleSourceCols = table.columns.filter((c) => c.visible && !hiddenSet.has(c.sourcePath))
+  // Build a unified column list mixing source + custom columns
+  type UnifiedCol = { key: string; displayName: string; isCustom: boolean; customCol?: CustomColumn; sourceCol?: ColumnConfig }
+  const customCols = widget.customColumns ?? []
+  const allUnifiedCols: UnifiedCol[] = [
+    ...visibleSourceCols.map((c) => ({
+      key: c.sourcePath,
+      displayName: widget.columnAliases?.[c.sourcePath] || c.alias || c.sourcePath,
+      isCustom: false,
+      sourceCol: c,
+    })),
+    ...customCols.filter((cc) => !hiddenSet.has(`custom:${cc.id}`)).map((cc) => ({
+      key: `custom:${cc.id}`,
+      displayName: cc.name,
+      isCustom: true,
+      customCol: cc,
+    })),
+  ]
+
+  // Apply column ordering if set
+  const orderedCols = widget.columnOrder
+    ? widget.columnOrder.map((k) => allUnifiedCols.find((c) => c.key === k)).filter(Boolean) as UnifiedCol[]
+    : allUnifiedCols
+  // Add any cols not in order list (new columns)
+  const orderedSet = new Set(widget.columnOrder ?? [])
+  const unordered = allUnifiedCols.filter((c) => !orderedSet.has(c.key))
+  const visibleCols = [...orderedCols, ...unordered]
+
+  // Compute custom column values
+  const computedRows = rows.map((row) => {
+    const extendedRow = { ...row }
+    for (const cc of customCols) {
+      extendedRow[`custom:${cc.id}`] = evaluateFormula(cc.formula, row, cc.formatPrefix, cc.formatSuffix)
+    }
+    return extendedRow
+  })
+
+  // Show all columns when full width, otherwise cap at 6
+  const previewCols = isFullWidth ? visibleCols : visibleCols.slice(0, 6)
+  const hiddenColCount = isFullWidth ? 0 : Math.max(0, visibleCols.length - 6)
+  const removedColCount = (widget.hiddenColumns ?? []).length
+  const filteredRows = dashboardRowFilter.apply(applyWidgetFilters(computedRows, widget.filters))
+  const displayRows = sortRows(filteredRows, sortCol, sortDir)
+  const activeFilterCount = (widget.filters ?? []).filter((f) => f.column && f.operator).length
+
+  return (
+    <div className="h-full bg-white rounded-md border border-gray-200 flex flex-col overflow-hidden shadow-sm hover:shadow-md transition-shadow">
+      {/* Widget Header — draggable in edit mode */}
+      <div className={cn(
+        'widget-drag-handle flex items-center justify-between px-3 py-2 shrink-0 select-none',
+        editMode ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'
+      )}>
+        <div className="flex items-center gap-2 min-w-0">
+          {editingTitle && editMode ? (
+            <input
+              ref={titleInputRef}
+              type="text"
+              value={draftTitle}
+              onChange={(e) => setDraftTitle(e.target.value)}
+              onBlur={commitTitle}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitTitle()
+                if (e.key === 'Escape') setEditingTitle(false)
+              }}
+              onMouseDown={(e) => e.stopPropagation()}
+              className="w-full text-xs font-medium text-gray-900 bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none py-0"
+            />
+          ) : (
+            <h4
+              className={cn('text-xs font-medium text-gray-900 truncate', editMode && 'cursor-text')}
+              onDoubleClick={() => {
+                if (!editMode) return
+                setDraftTitle(widget.displayName || table.tableName)
+                setEditingTitle(true)
+              }}
+            >
+              {widget.displayName || table.tableName}
+            </h4>
+          )}
+          {!editingTitle && <WidgetUpdatedAt at={loadedAt} className="shrink-0" />}
+        </div>
+        <div className="flex items-center gap-0.5 shrink-0 relative" onMouseDown={(e) => e.stopPropagation()}>
+          <button
+            ref={filterBtnRef}
+            onClick={() => setShowFilters((v) => !v)}
+            className={cn(
+              'p-1 transition-colors rounded-md hover:bg-gray-100 cursor-pointer relative',
+              activeFilterCount > 0 ? 'text-gray-600' : 'text-gray-300 hover:text-gray-600'
+            )}
+            title="Filter"
+          >
+            <Filter size={12} />
+            {activeFilterCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 w-3 h-3 bg-gray-700 text-white text-[7px] font-bold rounded-full flex items-center justify-center">
+                {activeFilterCount}
+              </span>
+            )}
+          </button>
+          {showFilters && (
+            <FilterPanel
+              filters={widget.filters ?? []}
+              columns={visibleCols.map((c) => c.key)}
+              onChange={onFiltersChange}
+              onClose={() => setShowFilters(false)}
+              anchorRef={filterBtnRef}
+            />
+          )}
+          {editMode && (
+            <button
+              onClick={onToggleFullWidth}
+              className={cn(
+                'p-1 transition-colors rounded-md hover:bg-gray-100 cursor-pointer',
+                isFullWidth ? 'text-gray-500' : 'text-gray-300 hover:text-gray-600'
+              )}
+              title={isFullWidth ? 'Restore size' : 'Full width'}
+            >
+              {isFullWidth ? <Minimize2 size={12} /> : <Maximize2 size={12} />}
+            </button>
+          )}
+          <button
+            onClick={onOpenTable}
+            className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer"
+            title="Open table"
+          >
+            <Eye size={12} />
+          </button>
+          {editMode && (
+            <>
+              <button
+                onClick={onOpenConfig}
+                className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer"
+                title="Configure table"
+              >
+                <Settings2 size={12} />
+              </button>
+              <button
+                onClick={onDuplicate}
+                className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer"
+                title="Duplicate"
+              >
+                <Copy size={12} />
+              </button>
+              <button
+                onClick={onRemove}
+                className="p-1 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-gray-100 cursor-pointer"
+                title="Remove from dashboard"
+              >
+                <X size={12} />
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* Widget Body */}
+      <div className="flex-1 overflow-hidden">
+        {loading ? (
+          <div className="h-full flex flex-col items-center justify-center gap-2">
+            <Loader2 size={16} className="animate-spin text-gray-300" />
+            <p className="text-[10px] text-gray-400">Loading data…</p>
+          </div>
+        ) : error ? (
+          <div className="h-full flex flex-col items-center justify-center gap-2 px-4">
+            <AlertCircle size={16} className="text-gray-300" />
+            <p className="text-[10px] text-gray-500 text-center leading-tight"><FirestoreErrorMessage message={error} /></p>
+            <button
+              onClick={handleRetry}
+              className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-gray-700 transition-colors"
+            >
+              <RefreshCw size={10} />
+              Retry
+            </button>
+          </div>
+        ) : previewCols.length > 0 ? (
+          <div className="overflow-auto h-full px-3 pb-3">
+            <div className="border border-gray-200 rounded-md overflow-hidden [&_tbody_tr:last-child_td]:border-b-0">
+            <table className="w-full text-[11px]">
+              <thead className="sticky top-0 z-10">
+                <tr className="bg-gray-50">
+                  {previewCols.map((col) => {
+                    const colKey = col.key
+                    const isActive = sortCol === colKey
+                    const displayColName = col.displayName
+                    const isEditingCol = editingColKey === colKey && editMode
+                    return (
+                      <th
+                        key={colKey}
+                        onClick={() => { if (!isEditingCol) { handleSort(colKey); if (editMode) onColumnSelect(colKey) } }}
+                        onDoubleClick={(e) => {
+                          if (!editMode) return
+                          e.stopPropagation()
+                          setDraftColName(displayColName)
+                          setEditingColKey(colKey)
+                        }}
+                        onContextMenu={(e) => {
+                          e.preventDefault()
+                          e.stopPropagation()
+                          setContextMenu({ x: e.clientX, y: e.clientY, colKey, displayName: displayColName })
+                        }}
+                        className={cn(
+                          'text-left px-2 py-1.5 text-[10px] font-medium whitespace-nowrap border-b border-gray-100 select-none hover:bg-gray-100 transition-colors group/th',
+                          col.isCustom ? 'text-gray-500 italic' : 'text-gray-500',
+                          isEditingCol ? 'cursor-text' : 'cursor-pointer'
+                        )}
+                      >
+                        {isEditingCol ? (
+                          <input
+                            ref={colInputRef}
+                            type="text"
+                            value={draftColName}
+                            onChange={(e) => setDraftColName(e.target.value)}
+                            onBlur={commitColRename}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') commitColRename()
+                              if (e.key === 'Escape') setEditingColKey(null)
+                            }}
+                            onClick={(e) => e.stopPropagation()}
+                            onMouseDown={(e) => e.stopPropagation()}
+                            className="w-full text-[10px] font-medium text-gray-700 bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none py-0"
+                          />
+                        ) : (
+                          <span className="inline-flex items-center gap-1">
+                            {col.isCustom && <Calculator size={9} className="text-gray-400" />}
+                            {displayColName}
+                            {isActive && sortDir === 'asc' ? (
+                              <ArrowUp size={10} className="text-gray-700" />
+                            ) : isActive && sortDir === 'desc' ? (
+                              <ArrowDown size={10} className="text-gray-700" />
+                            ) : (
+                              <ArrowUpDown size={10} className="text-gray-300 opacity-0 group-hover/th:opacity-100 transition-opacity" />
+                            )}
+                            {editMode && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation()
+                                  const th = (e.currentTarget as HTMLElement).closest('th')
+                                  if (th) openFormatToolbar(colKey, th)
+                                }}
+                                onMouseDown={(e) => e.stopPropagation()}
+                                className={cn(
+                                  'ml-0.5 p-0.5 rounded transition-all cursor-pointer',
+                                  widget.columnFormats?.[colKey]
+                                    ? 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
+                                    : 'text-gray-300 opacity-0 group-hover/th:opacity-100 hover:text-gray-500 hover:bg-gray-200/50'
+                                )}
+                                title="Format column"
+                              >
+                                {(() => {
+                                  const ft = widget.columnFormats?.[colKey]?.type
+                                  if (ft === 'number') return <Hash size={9} />
+                                  if (ft === 'currency') return <DollarSign size={9} />
+                                  if (ft === 'percent') return <Percent size={9} />
+                                  if (ft === 'date' || ft === 'datetime') return <Calendar size={9} />
+                                  if (ft === 'text') return <CaseSensitive size={9} />
+                                  return <Paintbrush size={9} />
+                                })()}
+                              </button>
+                            )}
+                          </span>
+                        )}
+                      </th>
+                    )
+                  })}
+                  {hiddenColCount > 0 && (
+                    <th className="text-left px-2 py-1.5 text-[10px] font-medium text-gray-400 whitespace-nowrap border-b border-gray-100">
+                      +{hiddenColCount} more
+                    </th>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {displayRows.length > 0 ? (
+                  displayRows.slice(0, 100).map((row, idx) => {
+                    // Pre-compute row-level conditional styles once per row
+                    const condRules = widget.conditionalFormats
+                    return (
+                    <tr
+                      key={idx}
+                      className="border-b border-gray-50 last:border-0 hover:bg-gray-50/50 transition-colors"
+                    >
+                      {previewCols.map((col) => {
+                        const colKey = col.isCustom ? col.key : col.sourceCol!.sourcePath
+                        const cellStyle = getCondStyle(condRules, row, colKey, 'cell')
+                        const rawVal = col.isCustom ? row[col.key] : (row[col.sourceCol!.sourcePath] ?? row[col.sourceCol!.alias])
+                        const colFmt = widget.columnFormats?.[colKey]
+                        const displayVal = colFmt ? applyColumnFormat(rawVal, colFmt) : formatCellValue(rawVal)
+                        return (
+                        <td
+                          key={col.key}
+                          className={cn(
+                            'px-2 py-1 text-gray-600 whitespace-nowrap truncate',
+                            isFullWidth ? 'max-w-[200px]' : 'max-w-[120px]'
+                          )}
+                          style={cellStyle}
+                        >
+                          {displayVal}
+                        </td>
+                        )
+                      })}
+                      {hiddenColCount > 0 && (
+                        <td className="px-2 py-1 text-gray-300">…</td>
+                      )}
+                    </tr>
+                    )
+                  })
+                ) : (
+                  <tr>
+                    <td
+                      colSpan={previewCols.length + (hiddenColCount > 0 ? 1 : 0)}
+                      className="px-2 py-4 text-center text-[10px] text-gray-400"
+                    >
+                      No data in this collection
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+            </div>
+          </div>
+        ) : (
+          <div className="h-full flex items-center justify-center">
+            <p className="text-xs text-gray-400">No columns configured</p>
+          </div>
+        )}
+      </div>
+
+      {/* Column context menu */}
+      {contextMenu && (
+        <ColumnContextMenu
+          x={contextMenu.x}
+          y={contextMenu.y}
+          colKey={contextMenu.colKey}
+          displayName={contextMenu.displayName}
+          editMode={editMode}
+          sortCol={sortCol}
+          sortDir={sortDir}
+          onAction={(action) => handleColumnContextAction(action, contextMenu.colKey, contextMenu.displayName)}
+          onClose={() => setContextMenu(null)}
+        />
+      )}
+
+      {/* Quick Column Format Toolbar */}
+      {editMode && formatToolbarCol && formatToolbarRect && (
+        <ColumnFormatToolbar
+          colKey={formatToolbarCol}
+          currentFormat={widget.columnFormats?.[formatToolbarCol]}
+          anchorRect={formatToolbarRect}
+          onApply={handleFormatApply}
+          onClose={() => { setFormatToolbarCol(null); setFormatToolbarRect(null) }}
+        />
+      )}
+
+      {/* Widget Footer */}
+      <div className="flex items-center justify-between px-3 py-1.5 border-t border-gray-100 bg-gray-50/30 shrink-0">
+        <span className="text-[10px] text-gray-400">
+          {visibleCols.length} columns
+          {rows.length > 0 && ` · ${activeFilterCount > 0 ? `${filteredRows.length} of ${rows.length}` : rows.length} rows`}
+          {activeFilterCount > 0 && ` · ${activeFilterCount} filter${activeFilterCount > 1 ? 's' : ''}`}
+          {sortCol && sortDir && ` · Sorted by ${sortCol} ${sortDir}`}
+          {loading && ' · Loading…'}
+        </span>
+        <div className="flex items-center gap-2">
+          {removedColCount > 0 && (
+            <button
+              onClick={() => onHiddenColumnsChange([])}
+              onMouseDown={(e) => e.stopPropagation()}
+              className="text-[10px] text-gray-400 hover:text-gray-600 transition-colors cursor-pointer flex items-center gap-0.5"
+              title="Show all hidden columns"
+            >
+              <EyeOff size={9} />
+              {removedColCount} hidden
+            </button>
+          )}
+          <span className="text-[10px] text-gray-400">
+            {table.projectId === '__query__' ? 'SQL' : table.collectionPath}
+          </span>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react'
+import { cn, formatRelativeTime } from '@/lib/utils'
+
+/** When a widget's data was last fetched, kept current as time passes */
+export default function WidgetUpdatedAt({ at, className }: { at: Date | null; className?: string }) {
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30_000)
+    return () => clearInterval(interval)
+  }, [])
+
+  if (!at) return null
+  return (
+    <span className={cn('text-[9px] text-gray-300 tabular-nums whitespace-nowrap', className)} title={`Updated ${at.toLocaleString()}`}>
+      {formatRelativeTime(at, Math.max(now, at.getTime()))}
+    </span>
+  )
+}
@@ -17,6 +17,7 @@ import {
 import { doc, setDoc, serverTimestamp } from 'firebase/firestore'
 import { auth, db, googleProvider, isFirebaseConfigured } from '@/lib/firebase'
 import { TOKEN_EXPIRED_EVENT } from '@/lib/firestore-rest'
+import { clearDocumentCache } from '@/lib/document-cache'
 import { trackLogin, trackSessionStart } from '@/lib/metrics'
 import type { AppUser } from '@/lib/types'
 
@@ -279,6 +280,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     storeToken(null)
     storeTokenExpiry(null)
     setUser(null)
+    // Cached collections hold this account's data; the next account must not see them
+    await clearDocumentCache().catch((err) => console.warn('Failed to clear document cache:', err))
   }, [])
 
   /** Silently refresh the Google OAuth access token via signInWithPopup. */
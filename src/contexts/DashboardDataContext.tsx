@@ -0,0 +1,94 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState, useSyncExternalStore, type ReactNode } from 'react'
+import { createDatasetStore, type DatasetStore, type DatasetSnapshot } from '@/lib/dataset-store'
+import type { SavedTable, QueryFilter } from '@/lib/types'
+
+const DashboardDataContext = createContext<DatasetStore | null>(null)
+
+// Under 10-second polling, tables that can only be re-read whole still refresh once a minute
+const LIVE_FULL_REFRESH_MS = 60_000
+
+export function DashboardDataProvider({
+  accessToken,
+  userId,
+  refreshKey,
+  autoRefreshKey = 0,
+  live = false,
+  snapshot,
+  children,
+}: {
+  accessToken: string | null
+  /** Owner of the saved tables, for reading stored query results */
+  userId: string | null
+  /** Bumping this re-fetches every dataset on the dashboard */
+  refreshKey: number
+  /** Bumping this re-fetches every dataset in the background, keeping rows on screen */
+  autoRefreshKey?: number
+  /**
+   * 10-second polling: auto-refreshes skip query tables, whose rows only change
+   * when their SQL re-runs, and re-read whole collections at most once a minute
+   */
+  live?: boolean
+  /** Serve rows from a shared dashboard's snapshot instead of fetching them */
+  snapshot?: DatasetSnapshot
+  children: ReactNode
+}) {
+  // One store per signed-in session (or snapshot); a new token starts from scratch
+  const [store, setStore] = useState(() => createDatasetStore(accessToken, userId, snapshot))
+  const [storeSession, setStoreSession] = useState({ accessToken, userId, snapshot })
+  if (storeSession.accessToken !== accessToken || storeSession.userId !== userId || storeSession.snapshot !== snapshot) {
+    setStoreSession({ accessToken, userId, snapshot })
+    setStore(createDatasetStore(accessToken, userId, snapshot))
+  }
+
+  const lastRefreshKey = useRef(refreshKey)
+  useEffect(() => {
+    if (lastRefreshKey.current === refreshKey) return
+    lastRefreshKey.current = refreshKey
+    store.refreshAll()
+  }, [store, refreshKey])
+
+  const lastAutoRefreshKey = useRef(autoRefreshKey)
+  useEffect(() => {
+    if (lastAutoRefreshKey.current === autoRefreshKey) return
+    lastAutoRefreshKey.current = autoRefreshKey
+    store.refreshInBackground(live ? { skipQueryTables: true, minFullRefreshMs: LIVE_FULL_REFRESH_MS } : undefined)
+  }, [store, autoRefreshKey, live])
+
+  return (
+    <DashboardDataContext.Provider value={store}>
+      {children}
+    </DashboardDataContext.Provider>
+  )
+}
+
+function useDatasetStore() {
+  const store = useContext(DashboardDataContext)
+  if (!store) throw new Error('Dashboard data hooks must be used within DashboardDataProvider')
+  return store
+}
+
+/**
+ * Rows for a saved table, shared with every other widget on the dashboard
+ * that reads the same table (and server-side filter).
+ */
+export function useDashboardDataset(table: SavedTable | undefined, filter?: QueryFilter) {
+  const store = useDatasetStore()
+
+  const subscribe = useCallback(
+    (listener: () => void) => (table ? store.subscribe(table, filter, listener) : () => {}),
+    [store, table, filter]
+  )
+  const state = useSyncExternalStore(subscribe, () => store.getSnapshot(table, filter))
+
+  const retry = useCallback(() => {
+    if (table) store.reload(table, filter)
+  }, [store, table, filter])
+
+  return { ...state, retry }
+}
+
+/** Aggregate fetch progress across the dashboard, for a single header indicator */
+export function useDashboardDataProgress() {
+  const store = useDatasetStore()
+  return useSyncExternalStore(store.subscribeProgress, store.getProgress)
+}
@@ -0,0 +1,73 @@
+import { createContext, useContext, useMemo, type ReactNode } from 'react'
+import type { WidgetFilter, SavedTable, DashboardFilter, CrossFilter } from '@/lib/types'
+import {
+  widgetFiltersToQueryFilter,
+  crossFilterColumn,
+  crossFilterKey,
+  hasActiveDashboardFilter,
+  applyDashboardFilters,
+} from '@/lib/dashboard-filters'
+
+// Filters from the dashboard filter bar; every data widget applies the ones mapped to its table
+const DashboardFiltersContext = createContext<DashboardFilter[]>([])
+
+export interface CrossFilterState {
+  selections: CrossFilter[]
+  /** Replaces a widget's selections; selecting exactly the current ones again clears them */
+  toggle: (sourceWidgetId: string, next: CrossFilter[]) => void
+}
+
+const NO_CROSS_FILTER: CrossFilterState = { selections: [], toggle: () => {} }
+
+const CrossFilterContext = createContext<CrossFilterState>(NO_CROSS_FILTER)
+
+export function DashboardFiltersProvider({
+  filters,
+  crossFilter = NO_CROSS_FILTER,
+  children,
+}: {
+  filters: DashboardFilter[]
+  /** Omitted where widgets can't be clicked to filter */
+  crossFilter?: CrossFilterState
+  children: ReactNode
+}) {
+  return (
+    <DashboardFiltersContext.Provider value={filters}>
+      <CrossFilterContext.Provider value={crossFilter}>{children}</CrossFilterContext.Provider>
+    </DashboardFiltersContext.Provider>
+  )
+}
+
+/** Selections made by clicking chart segments and pivot rows */
+export function useCrossFilter() {
+  return useContext(CrossFilterContext)
+}
+
+/** A widget's own filters as a Firestore query filter, when they can all run server-side */
+export function useWidgetServerFilter(filters: WidgetFilter[] | undefined, table: SavedTable | undefined) {
+  return useMemo(() => widgetFiltersToQueryFilter(filters, table), [filters, table])
+}
+
+/** Row filtering for a widget's table from the filter bar and other widgets' selections */
+export function useDashboardRowFilter(widgetId: string, tableId: string | undefined) {
+  const dashboardFilters = useContext(DashboardFiltersContext)
+  const { selections } = useContext(CrossFilterContext)
+
+  return useMemo(() => {
+    const crossTests: ((row: Record<string, unknown>) => boolean)[] = []
+    if (tableId) {
+      for (const sel of selections) {
+        // The source widget keeps showing every category, with its selection highlighted
+        if (sel.sourceWidgetId === widgetId) continue
+        const column = crossFilterColumn(sel, tableId, dashboardFilters)
+        if (column) crossTests.push((row) => crossFilterKey(row[column], sel) === sel.value)
+      }
+    }
+    const active = crossTests.length > 0 || hasActiveDashboardFilter(dashboardFilters, tableId)
+    const apply = (rows: Record<string, unknown>[]) => {
+      const filtered = applyDashboardFilters(rows, dashboardFilters, tableId)
+      return crossTests.length > 0 ? filtered.filter((row) => crossTests.every((test) => test(row))) : filtered
+    }
+    return { active, apply }
+  }, [dashboardFilters, selections, widgetId, tableId])
+}
@@ -0,0 +1,102 @@
+// AI features talk to any OpenAI-compatible chat completions API: by default
+// the Firegrid server (api/ai, which keeps the key off the client), or OpenAI
+// itself, or a self-hosted model (Ollama, LM Studio, vLLM …) when schemas and
+// sample values shouldn't leave the team's own infrastructure.
+
+// ---- Settings ----
+
+export interface AiProviderSettings {
+  /** API root, e.g. "https://api.openai.com/v1"; /chat/completions is appended */
+  baseUrl: string
+  model: string
+  /** Sent as a bearer token; local servers usually don't need one */
+  apiKey: string
+  /** Ask the Firegrid server to strip sample values from prompts */
+  redactSamples?: boolean
+}
+
+// The api/ai proxy: holds the provider key and rate-limits by Firebase user
+export const AI_SERVER_BASE_URL = '/api/ai'
+
+export const AI_PROVIDER_PRESETS: { id: string; label: string; baseUrl: string; model: string }[] = [
+  { id: 'server', label: 'Firegrid server', baseUrl: AI_SERVER_BASE_URL, model: 'gpt-4o-mini' },
+  { id: 'openai', label: 'OpenAI', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+  { id: 'ollama', label: 'Ollama', baseUrl: 'http://localhost:11434/v1', model: 'llama3.1' },
+  { id: 'lmstudio', label: 'LM Studio', baseUrl: 'http://localhost:1234/v1', model: 'local-model' },
+]
+
+// Stored per user in this browser only; the key is never written to Firestore
+const AI_PROVIDER_KEY = 'firegrid_ai_provider'
+
+function storageKey(userId: string | null | undefined): string {
+  return `${AI_PROVIDER_KEY}:${userId ?? 'anonymous'}`
+}
+
+function defaultSettings(): AiProviderSettings {
+  const server = AI_PROVIDER_PRESETS[0]
+  return { baseUrl: server.baseUrl, model: server.model, apiKey: '' }
+}
+
+export function getAiProviderSettings(userId: string | null | undefined): AiProviderSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) || 'null')
+    if (stored && typeof stored.baseUrl === 'string' && typeof stored.model === 'string') {
+      return {
+        baseUrl: stored.baseUrl,
+        model: stored.model,
+        apiKey: stored.apiKey ?? '',
+        redactSamples: stored.redactSamples === true,
+      }
+    }
+  } catch {
+    // localStorage unavailable or corrupt
+  }
+  return defaultSettings()
+}
+
+export function setAiProviderSettings(userId: string | null | undefined, settings: AiProviderSettings) {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(settings))
+  } catch {
+    // localStorage unavailable
+  }
+}
+
+// ---- Helpers ----
+
+/** Requests go through the Firegrid server rather than straight to a provider */
+export function isServerProvider(settings: AiProviderSettings): boolean {
+  return settings.baseUrl.trim().replace(/\/+$/, '') === AI_SERVER_BASE_URL
+}
+
+function isOpenAIHosted(baseUrl: string): boolean {
+  try {
+    return new URL(baseUrl).hostname === 'api.openai.com'
+  } catch {
+    return false
+  }
+}
+
+/** Enough is set to make a request; only OpenAI itself requires a key */
+export function isAiProviderConfigured(settings: AiProviderSettings): boolean {
+  if (!settings.baseUrl.trim() || !settings.model.trim()) return false
+  return !isOpenAIHosted(settings.baseUrl) || !!settings.apiKey.trim()
+}
+
+/** Short label for the UI, e.g. "Ollama · llama3.1" */
+export function describeAiProvider(settings: AiProviderSettings): string {
+  const preset = AI_PROVIDER_PRESETS.find((p) => p.baseUrl === settings.baseUrl.replace(/\/+$/, ''))
+  let name = preset?.label
+  if (!name) {
+    try {
+      name = new URL(settings.baseUrl).host
+    } catch {
+      name = settings.baseUrl
+    }
+  }
+  return `${name} · ${settings.model}`
+}
+
+export function chatCompletionsUrl(settings: AiProviderSettings): string {
+  return `${settings.baseUrl.trim().replace(/\/+$/, '')}/chat/completions`
+}
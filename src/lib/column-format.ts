@@ -0,0 +1,190 @@
+import type { CSSProperties } from 'react'
+import type { ColFormatType, ColumnFormat, CondFormatOperator, CondFormatStyle, ConditionalFormatRule } from './types'
+import { formatCellValue, parseDate } from './dashboard-dates'
+
+// Number, currency and date formats for table and pivot columns, and the
+// conditional formatting rules that style their cells.
+
+// ---- Column formats ----
+
+export const COL_FORMAT_LABELS: Record<ColFormatType, string> = {
+  auto: 'Auto',
+  number: 'Number',
+  currency: 'Currency',
+  percent: 'Percentage',
+  date: 'Date',
+  datetime: 'Date & Time',
+  text: 'Plain Text',
+}
+
+export const CURRENCY_OPTIONS = [
+  { code: 'USD', symbol: '$', label: 'USD ($)' },
+  { code: 'EUR', symbol: '€', label: 'EUR (€)' },
+  { code: 'GBP', symbol: '£', label: 'GBP (£)' },
+  { code: 'AUD', symbol: 'A$', label: 'AUD (A$)' },
+  { code: 'CAD', symbol: 'C$', label: 'CAD (C$)' },
+  { code: 'JPY', symbol: '¥', label: 'JPY (¥)' },
+  { code: 'CNY', symbol: '¥', label: 'CNY (¥)' },
+  { code: 'INR', symbol: '₹', label: 'INR (₹)' },
+  { code: 'NZD', symbol: 'NZ$', label: 'NZD (NZ$)' },
+  { code: 'CHF', symbol: 'CHF', label: 'CHF' },
+]
+
+export const DATE_FORMAT_OPTIONS = [
+  { value: 'short', label: 'Short (1/2/26)' },
+  { value: 'medium', label: 'Medium (1 Feb 2026)' },
+  { value: 'long', label: 'Long (1 February 2026)' },
+  { value: 'iso', label: 'ISO (2026-02-01)' },
+]
+
+/** Format a raw cell value using a ColumnFormat config. */
+export function applyColumnFormat(value: unknown, fmt: ColumnFormat | undefined): string {
+  if (value === null || value === undefined) return '—'
+
+  // Plain text — just stringify
+  if (!fmt || fmt.type === 'text') {
+    if (typeof value === 'object') return JSON.stringify(value)
+    return String(value)
+  }
+
+  // Auto — use the existing heuristic
+  if (fmt.type === 'auto') {
+    return formatCellValue(value)
+  }
+
+  const decimals = fmt.decimals ?? 2
+  const useSep = fmt.thousandSep !== false
+
+  // Number
+  if (fmt.type === 'number') {
+    const num = typeof value === 'number' ? value : parseFloat(String(value))
+    if (isNaN(num)) return String(value)
+    const formatted = useSep
+      ? num.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+      : num.toFixed(decimals)
+    return (fmt.prefix ?? '') + formatted + (fmt.suffix ?? '')
+  }
+
+  // Currency
+  if (fmt.type === 'currency') {
+    const num = typeof value === 'number' ? value : parseFloat(String(value))
+    if (isNaN(num)) return String(value)
+    try {
+      return num.toLocaleString(undefined, {
+        style: 'currency',
+        currency: fmt.currency || 'USD',
+        minimumFractionDigits: decimals,
+        maximumFractionDigits: decimals,
+      })
+    } catch {
+      return (fmt.prefix ?? '$') + num.toFixed(decimals)
+    }
+  }
+
+  // Percentage
+  if (fmt.type === 'percent') {
+    const num = typeof value === 'number' ? value : parseFloat(String(value))
+    if (isNaN(num)) return String(value)
+    // If the value is already 0-100 range, display as-is with %
+    // If < 1, treat as a ratio and multiply by 100
+    const pct = Math.abs(num) <= 1 && Math.abs(num) > 0 ? num * 100 : num
+    const formatted = useSep
+      ? pct.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+      : pct.toFixed(decimals)
+    return formatted + '%'
+  }
+
+  // Date
+  if (fmt.type === 'date' || fmt.type === 'datetime') {
+    const d = parseDate(value)
+    if (!d) return String(value)
+    const df = fmt.dateFormat || 'medium'
+    if (df === 'iso') {
+      return fmt.type === 'datetime'
+        ? d.toISOString().replace('T', ' ').slice(0, 19)
+        : d.toISOString().slice(0, 10)
+    }
+    const opts: Intl.DateTimeFormatOptions = df === 'short'
+      ? { day: 'numeric', month: 'numeric', year: '2-digit' }
+      : df === 'long'
+        ? { day: 'numeric', month: 'long', year: 'numeric' }
+        : { day: 'numeric', month: 'short', year: 'numeric' }
+    if (fmt.type === 'datetime') {
+      opts.hour = '2-digit'
+      opts.minute = '2-digit'
+    }
+    return d.toLocaleDateString(undefined, opts)
+  }
+
+  return String(value)
+}
+
+// ---- Conditional formats ----
+
+export const COND_OP_LABELS: Record<CondFormatOperator, string> = {
+  gt: '>', gte: '≥', lt: '<', lte: '≤', eq: '=', neq: '≠',
+  contains: 'contains', not_contains: 'doesn\'t contain',
+  is_empty: 'is empty', is_not_empty: 'is not empty', between: 'between',
+}
+
+export const COND_STYLE_LABELS: Record<CondFormatStyle, string> = {
+  bg: 'Background', text: 'Text colour', bold: 'Bold', italic: 'Italic',
+}
+
+export const PRESET_COLOURS = [
+  '#dcfce7', '#fef9c3', '#fee2e2', '#dbeafe', '#f3e8ff', '#fce7f3', '#e0f2fe', '#ffedd5',
+  '#16a34a', '#ca8a04', '#dc2626', '#2563eb', '#9333ea', '#db2777', '#0891b2', '#ea580c',
+]
+
+/** Evaluate a single conditional format rule against a row. */
+function evalCondRule(rule: ConditionalFormatRule, row: Record<string, unknown>): boolean {
+  if (!rule.enabled) return false
+  const raw = row[rule.column]
+  const str = raw != null ? String(raw) : ''
+  const num = raw != null ? parseFloat(String(raw)) : NaN
+  const cmpNum = parseFloat(rule.value)
+
+  switch (rule.operator) {
+    case 'gt': return !isNaN(num) && !isNaN(cmpNum) && num > cmpNum
+    case 'gte': return !isNaN(num) && !isNaN(cmpNum) && num >= cmpNum
+    case 'lt': return !isNaN(num) && !isNaN(cmpNum) && num < cmpNum
+    case 'lte': return !isNaN(num) && !isNaN(cmpNum) && num <= cmpNum
+    case 'eq': return str === rule.value || (!isNaN(num) && !isNaN(cmpNum) && num === cmpNum)
+    case 'neq': return str !== rule.value
+    case 'contains': return str.toLowerCase().includes(rule.value.toLowerCase())
+    case 'not_contains': return !str.toLowerCase().includes(rule.value.toLowerCase())
+    case 'is_empty': return raw == null || str === ''
+    case 'is_not_empty': return raw != null && str !== ''
+    case 'between': {
+      const lo = parseFloat(rule.value)
+      const hi = parseFloat(rule.value2 ?? '')
+      return !isNaN(num) && !isNaN(lo) && !isNaN(hi) && num >= lo && num <= hi
+    }
+    default: return false
+  }
+}
+
+/** Compute inline style object for a cell given all conditional format rules. */
+export function getCondStyle(
+  rules: ConditionalFormatRule[] | undefined,
+  row: Record<string, unknown>,
+  columnKey: string,
+  target: 'cell'
+): CSSProperties {
+  if (!rules || rules.length === 0) return {}
+  const style: CSSProperties = {}
+  for (const rule of rules) {
+    if (!rule.enabled) continue
+    // For cell-targeted rules, only match the specific column
+    // For row-targeted rules, apply to every column
+    if (rule.target === 'cell' && rule.column !== columnKey) continue
+    if (!evalCondRule(rule, row)) continue
+    switch (rule.style) {
+      case 'bg': style.backgroundColor = rule.colour; break
+      case 'text': style.color = rule.colour; break
+      case 'bold': style.fontWeight = 600; break
+      case 'italic': style.fontStyle = 'italic'; break
+    }
+  }
+  return style
+}
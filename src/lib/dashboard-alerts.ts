@@ -0,0 +1,183 @@
+import type {
+  AlertOperator,
+  AlertWindow,
+  AlertRule,
+  DashboardWidget,
+  MetricConfig,
+  WidgetFilter,
+  SavedTable,
+  AggregationSpec,
+} from './types'
+import { aggregateMetric, computeMetric, planMetricAggregation } from './dashboard-metrics'
+import { filterByDateRange, filterByTimeframe, chartCategory } from './dashboard-dates'
+import { aggregateChartValues } from './dashboard-charts'
+import { isFirestoreTable } from './dashboard-filters'
+import { buildWhereClause } from './firestore-rest'
+import { auth } from './firebase'
+
+// Alert rules on metric and chart widgets: evaluating them against loaded rows
+// in the browser, and the subset api/alerts/evaluate checks on a schedule.
+
+export const ALERT_OPERATORS: { value: AlertOperator; label: string }[] = [
+  { value: 'gt', label: '>' },
+  { value: 'gte', label: '≥' },
+  { value: 'lt', label: '<' },
+  { value: 'lte', label: '≤' },
+  { value: 'eq', label: '=' },
+]
+
+export const ALERT_WINDOW_LABELS: Record<AlertWindow, string> = {
+  '1h': 'Last hour',
+  '2h': 'Last 2 hours',
+  '6h': 'Last 6 hours',
+  '24h': 'Last 24 hours',
+  today: 'Today',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days',
+}
+
+export const ALERT_HISTORY_LIMIT = 100
+
+/** Start of an alert window; api/alerts/evaluate has a copy for scheduled checks */
+function alertWindowStart(window: AlertWindow, now = new Date()): Date {
+  switch (window) {
+    case 'today': return new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    case '7d': return new Date(now.getTime() - 7 * 86400000)
+    case '30d': return new Date(now.getTime() - 30 * 86400000)
+    default: return new Date(now.getTime() - parseInt(window) * 3600000)
+  }
+}
+
+export function isAlertTriggered(value: number | null, rule: Pick<AlertRule, 'operator' | 'threshold'>): boolean {
+  // No matching rows counts as zero, so "no sales in 2 hours" is "count < 1"
+  const v = value ?? 0
+  switch (rule.operator) {
+    case 'gt': return v > rule.threshold
+    case 'gte': return v >= rule.threshold
+    case 'lt': return v < rule.threshold
+    case 'lte': return v <= rule.threshold
+    case 'eq': return v === rule.threshold
+  }
+}
+
+/** Alert rules on a widget; only metrics and non-scatter charts have them */
+export function widgetAlertRules(w: DashboardWidget): AlertRule[] {
+  if (w.type === 'metric') return w.metricConfig?.alerts ?? []
+  if (w.type === 'chart' && w.chartConfig?.chartType !== 'scatter') return w.chartConfig?.alerts ?? []
+  return []
+}
+
+export function alertRuleName(rule: AlertRule, widget: DashboardWidget | undefined): string {
+  if (rule.name) return rule.name
+  const op = ALERT_OPERATORS.find((o) => o.value === rule.operator)?.label ?? rule.operator
+  const label = widget?.metricConfig?.label || widget?.chartConfig?.label || 'Value'
+  return `${label}${rule.category ? ` (${rule.category})` : ''} ${op} ${rule.threshold.toLocaleString()}`
+}
+
+/**
+ * The value a rule checks, from the widget's rows after its own filters. The
+ * filter bar and cross-filters are left out so alerts don't change with the
+ * view, and agree with the scheduled check.
+ */
+export function alertRuleValue(widget: DashboardWidget, rows: Record<string, unknown>[], rule: AlertRule): number | null {
+  if (widget.type === 'metric' && widget.metricConfig) {
+    const mc = widget.metricConfig
+    if (rule.window && mc.dateColumn) {
+      return aggregateMetric(filterByDateRange(rows, mc.dateColumn, alertWindowStart(rule.window), null), mc)
+    }
+    return computeMetric(rows, mc)
+  }
+  if (widget.type === 'chart' && widget.chartConfig) {
+    const cc = widget.chartConfig
+    let chartRows = rule.window && cc.dateColumn
+      ? filterByDateRange(rows, cc.dateColumn, alertWindowStart(rule.window), null)
+      : filterByTimeframe(rows, cc)
+    if (rule.category) {
+      const trunc = cc.dateTruncate ?? 'none'
+      chartRows = chartRows.filter((row) => chartCategory(row[cc.categoryColumn], trunc).cat === rule.category)
+    }
+    return aggregateChartValues(chartRows, cc)
+  }
+  return null
+}
+
+/**
+ * Why a metric's rules can't be checked on a schedule, or null if they can:
+ * the server runs them as a Firestore aggregation, like a metric with a plan.
+ */
+export function scheduledAlertBlocker(config: MetricConfig, filters: WidgetFilter[] | undefined, table: SavedTable | undefined): string | null {
+  if (!table || !isFirestoreTable(table)) return 'Scheduled checks need a Firestore table'
+  const plan = planMetricAggregation({ tableId: config.tableId, aggregation: config.aggregation, column: config.column, label: config.label }, filters, table)
+  if (!plan) return 'Scheduled checks need a count, sum or average of a numeric column, with filters Firestore can match'
+  return null
+}
+
+/**
+ * A metric's rule as api/alerts/evaluate runs it: a Firestore aggregation
+ * over the widget's table, with its filters as a structuredQuery `where`.
+ * The server looks up the table's source itself.
+ */
+export interface ScheduledAlertRule {
+  ruleId: string
+  ruleName: string
+  widgetId: string
+  tableId: string
+  aggregation: AggregationSpec
+  where?: Record<string, unknown>
+  dateColumn?: string
+  /** Alert window, else the metric's timeframe; needs dates stored as timestamps */
+  period?: string
+  operator: AlertOperator
+  threshold: number
+}
+
+export function scheduledAlertRules(widgets: DashboardWidget[], tables: SavedTable[]): ScheduledAlertRule[] {
+  const out: ScheduledAlertRule[] = []
+  for (const w of widgets) {
+    const mc = w.metricConfig
+    if (w.type !== 'metric' || !mc?.alerts) continue
+    const table = tables.find((t) => t.id === mc.tableId)
+    if (!table || scheduledAlertBlocker(mc, w.filters, table)) continue
+    const plan = planMetricAggregation({ tableId: mc.tableId, aggregation: mc.aggregation, column: mc.column, label: mc.label }, w.filters, table)
+    if (!plan) continue
+    for (const rule of mc.alerts) {
+      if (!rule.scheduled) continue
+      const period = mc.dateColumn ? rule.window ?? (mc.timeframe !== 'all' ? mc.timeframe : undefined) : undefined
+      out.push({
+        ruleId: rule.id,
+        ruleName: alertRuleName(rule, w),
+        widgetId: w.i,
+        tableId: table.id,
+        aggregation: plan.spec,
+        ...(plan.filter ? { where: buildWhereClause(plan.filter) } : {}),
+        ...(period ? { dateColumn: mc.dateColumn, period } : {}),
+        operator: rule.operator,
+        threshold: rule.threshold,
+      })
+    }
+  }
+  return out
+}
+
+/**
+ * Registers a dashboard's scheduled rules with api/alerts/schedule, which
+ * checks with the user's Google token that they can read each rule's table.
+ * An empty list removes them.
+ */
+export async function saveScheduledAlerts(dashboardId: string, rules: ScheduledAlertRule[], googleAccessToken: string | null): Promise<void> {
+  const idToken = await auth?.currentUser?.getIdToken()
+  if (!idToken) throw new Error('Sign in to schedule alerts')
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', Authorization: `Bearer ${idToken}` }
+  if (googleAccessToken) headers['X-Google-Access-Token'] = googleAccessToken
+
+  const res = await fetch('/api/alerts/schedule', {
+    method: 'POST',
+    headers,
+    // For "today" and "this month" in the author's time zone
+    body: JSON.stringify({ dashboardId, rules, timezoneOffset: new Date().getTimezoneOffset() }),
+  })
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}))
+    throw new Error(err.error || `Failed to schedule alerts: ${res.status}`)
+  }
+}
@@ -0,0 +1,281 @@
+import {
+  BarChart3,
+  TrendingUp,
+  AreaChart as AreaChartIcon,
+  PieChart as PieChartIcon,
+  Donut,
+  ChartScatter as ScatterChartIcon,
+} from 'lucide-react'
+import type { ChartType, AggregationType, ChartConfig } from './types'
+import { AGGREGATION_LABELS } from './dashboard-metrics'
+import { filterByTimeframe, chartCategory } from './dashboard-dates'
+
+// Chart widget data: categories and series for bar/line/area/pie charts, and
+// sampled points for scatter charts.
+
+export const CHART_COLOUR_DEFAULT = '#6366F1'
+
+export const CHART_COLOUR_PRESETS = [
+  '#6366F1', // indigo
+  '#3B82F6', // blue
+  '#06B6D4', // cyan
+  '#10B981', // emerald
+  '#F59E0B', // amber
+  '#EF4444', // red
+  '#EC4899', // pink
+  '#8B5CF6', // violet
+  '#F97316', // orange
+  '#14B8A6', // teal
+  '#64748B', // slate
+  '#1F2937', // charcoal
+]
+
+export const CHART_TYPE_OPTIONS: { value: ChartType; label: string; icon: typeof BarChart3 }[] = [
+  { value: 'bar', label: 'Bar', icon: BarChart3 },
+  { value: 'line', label: 'Line', icon: TrendingUp },
+  { value: 'area', label: 'Area', icon: AreaChartIcon },
+  { value: 'pie', label: 'Pie', icon: PieChartIcon },
+  { value: 'donut', label: 'Donut', icon: Donut },
+  { value: 'scatter', label: 'Scatter', icon: ScatterChartIcon },
+]
+
+export function chartTypeOption(chartType: ChartType | undefined) {
+  return CHART_TYPE_OPTIONS.find((o) => o.value === (chartType ?? 'bar')) ?? CHART_TYPE_OPTIONS[0]
+}
+
+/** Top series by row count get their own colour; the rest are combined */
+export const MAX_CHART_SERIES = 8
+
+export const OTHER_SERIES = 'Other'
+
+export const isPieChart = (chartType: ChartType | undefined) => chartType === 'pie' || chartType === 'donut'
+
+/** Series colours: the palette, starting from the chart's own colour */
+export function chartSeriesColour(index: number, baseColour: string): string {
+  const start = Math.max(0, CHART_COLOUR_PRESETS.indexOf(baseColour))
+  if (index === 0) return baseColour
+  return CHART_COLOUR_PRESETS[(start + index) % CHART_COLOUR_PRESETS.length]
+}
+
+/** Legend name for an aggregated value, e.g. "Sum of amount" */
+export function chartValueLabel(value: { aggregation: AggregationType; valueColumn: string; label?: string }): string {
+  if (value.label) return value.label
+  if (value.aggregation === 'count' || !value.valueColumn) return AGGREGATION_LABELS[value.aggregation]
+  return `${AGGREGATION_LABELS[value.aggregation]} of ${value.valueColumn}`
+}
+
+export function aggregateChartValues(
+  groupRows: Record<string, unknown>[],
+  config: Pick<ChartConfig, 'aggregation' | 'valueColumn'>
+): number {
+  let val: number
+
+  if (config.aggregation === 'count') {
+    val = groupRows.length
+  } else if (config.aggregation === 'count_distinct') {
+    const unique = new Set(groupRows.map((r) => String(r[config.valueColumn] ?? '')))
+    val = unique.size
+  } else {
+    const nums = groupRows
+      .map((r) => {
+        const v = r[config.valueColumn]
+        if (typeof v === 'number') return v
+        if (typeof v === 'string') { const n = parseFloat(v); return isNaN(n) ? null : n }
+        return null
+      })
+      .filter((n): n is number => n !== null)
+
+    if (nums.length === 0) { val = 0 }
+    else if (config.aggregation === 'sum') val = nums.reduce((a, b) => a + b, 0)
+    else if (config.aggregation === 'average') val = nums.reduce((a, b) => a + b, 0) / nums.length
+    else if (config.aggregation === 'min') val = Math.min(...nums)
+    else if (config.aggregation === 'max') val = Math.max(...nums)
+    else val = 0
+  }
+
+  return Math.round(val * 100) / 100
+}
+
+export interface ChartData {
+  /** One entry per category: its name plus a value per series */
+  data: Record<string, string | number>[]
+  /** Value keys in legend order: 'value', then a split value or extra series id each */
+  series: string[]
+}
+
+export function buildChartData(
+  rows: Record<string, unknown>[],
+  config: ChartConfig
+): ChartData {
+  const filtered = filterByTimeframe(rows, config)
+
+  // Group by category column (with optional date truncation)
+  const trunc = config.dateTruncate ?? 'none'
+  const groups = new Map<string, Record<string, unknown>[]>()
+  const groupSortKeys = new Map<string, number>() // for chronological sorting of dates
+
+  for (const row of filtered) {
+    const { cat, time } = chartCategory(row[config.categoryColumn], trunc)
+    // Store timestamp for chronological sort
+    if (time !== undefined && !groupSortKeys.has(cat)) groupSortKeys.set(cat, time)
+
+    if (!groups.has(cat)) groups.set(cat, [])
+    groups.get(cat)!.push(row)
+  }
+
+  // Extra value series take the place of a series split; pie charts show a single series
+  const valueSeries = !isPieChart(config.chartType) ? config.valueSeries ?? [] : []
+  const seriesColumn = !isPieChart(config.chartType) && valueSeries.length === 0 ? config.seriesColumn : undefined
+  let series = ['value']
+  let seriesOf: (row: Record<string, unknown>) => string = () => 'value'
+  if (seriesColumn) {
+    const counts = new Map<string, number>()
+    for (const row of filtered) {
+      const key = String(row[seriesColumn] ?? '(empty)')
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    }
+    const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([key]) => key)
+    const top = new Set(ranked.slice(0, MAX_CHART_SERIES))
+    const hasOther = ranked.length > MAX_CHART_SERIES
+    series = [...ranked.slice(0, MAX_CHART_SERIES), ...(hasOther ? [OTHER_SERIES] : [])]
+    seriesOf = (row) => {
+      const key = String(row[seriesColumn] ?? '(empty)')
+      return top.has(key) ? key : OTHER_SERIES
+    }
+  }
+
+  // Aggregate per group (and per series within it)
+  const data: Record<string, string | number>[] = []
+  const totals = new Map<string, number>()
+
+  for (const [cat, groupRows] of groups.entries()) {
+    const entry: Record<string, string | number> = { name: cat }
+    const bySeries = new Map<string, Record<string, unknown>[]>()
+    for (const row of groupRows) {
+      const key = seriesOf(row)
+      if (!bySeries.has(key)) bySeries.set(key, [])
+      bySeries.get(key)!.push(row)
+    }
+    let total = 0
+    for (const key of series) {
+      const val = bySeries.has(key) ? aggregateChartValues(bySeries.get(key)!, config) : 0
+      entry[key] = val
+      total += val
+    }
+    // Extra values can be in other units, so they don't count towards the sort total
+    for (const vs of valueSeries) {
+      entry[vs.id] = aggregateChartValues(groupRows, vs)
+    }
+    totals.set(cat, total)
+    data.push(entry)
+  }
+
+  // Sort
+  if (config.sortBy === 'value') {
+    data.sort((a, b) => (totals.get(String(b.name)) ?? 0) - (totals.get(String(a.name)) ?? 0))
+  } else {
+    // Chronological sort if we have date keys, otherwise alphabetical
+    const hasDateKeys = groupSortKeys.size > 0
+    if (hasDateKeys) {
+      data.sort((a, b) => (groupSortKeys.get(String(a.name)) ?? 0) - (groupSortKeys.get(String(b.name)) ?? 0))
+    } else {
+      data.sort((a, b) => String(a.name).localeCompare(String(b.name), undefined, { numeric: true }))
+    }
+  }
+
+  // Limit bars
+  const max = config.maxBars ?? 20
+  return { data: data.slice(0, max), series: [...series, ...valueSeries.map((vs) => vs.id)] }
+}
+
+export const SCATTER_MAX_POINTS_DEFAULT = 1000
+
+function toChartNumber(v: unknown): number | null {
+  if (typeof v === 'number') return Number.isFinite(v) ? v : null
+  if (typeof v === 'string' && v.trim() !== '') { const n = Number(v); return Number.isFinite(n) ? n : null }
+  return null
+}
+
+export interface ScatterPoint { x: number; y: number; z?: number }
+
+export interface ScatterData {
+  /** One group per colour-by value (or a single unnamed group) */
+  groups: { name: string; points: ScatterPoint[] }[]
+  /** Rows with numeric X and Y, before sampling */
+  total: number
+  shown: number
+  /** Least-squares fit over every row, drawn across the X range */
+  trend: { x1: number; y1: number; x2: number; y2: number; r2: number } | null
+}
+
+export function buildScatterData(rows: Record<string, unknown>[], config: ChartConfig): ScatterData {
+  const filtered = filterByTimeframe(rows, config)
+
+  const valid: { row: Record<string, unknown>; point: ScatterPoint }[] = []
+  for (const row of filtered) {
+    const x = toChartNumber(row[config.categoryColumn])
+    const y = toChartNumber(row[config.valueColumn])
+    if (x === null || y === null) continue
+    const point: ScatterPoint = { x, y }
+    if (config.sizeColumn) point.z = Math.max(0, toChartNumber(row[config.sizeColumn]) ?? 0)
+    valid.push({ row, point })
+  }
+
+  // Trendline from all rows, so sampling doesn't move it
+  let trend: ScatterData['trend'] = null
+  if (config.trendline && valid.length >= 2) {
+    const n = valid.length
+    let sx = 0, sy = 0, sxx = 0, sxy = 0, syy = 0
+    let minX = Infinity, maxX = -Infinity
+    for (const { point: { x, y } } of valid) {
+      sx += x; sy += y; sxx += x * x; sxy += x * y; syy += y * y
+      if (x < minX) minX = x
+      if (x > maxX) maxX = x
+    }
+    const denom = n * sxx - sx * sx
+    if (denom !== 0 && minX !== maxX) {
+      const slope = (n * sxy - sx * sy) / denom
+      const intercept = (sy - slope * sx) / n
+      const ssTot = syy - (sy * sy) / n
+      const ssRes = syy - intercept * sy - slope * sxy
+      trend = {
+        x1: minX, y1: intercept + slope * minX,
+        x2: maxX, y2: intercept + slope * maxX,
+        r2: ssTot > 0 ? Math.max(0, 1 - ssRes / ssTot) : 1,
+      }
+    }
+  }
+
+  // Evenly spaced sample: keeps the overall shape and is stable between renders
+  const max = config.maxPoints ?? SCATTER_MAX_POINTS_DEFAULT
+  const sampled = valid.length > max
+    ? Array.from({ length: max }, (_, i) => valid[Math.floor((i * valid.length) / max)])
+    : valid
+
+  // Colour groups: the most common values, the rest combined
+  const colourColumn = config.colourColumn
+  const groups = new Map<string, ScatterPoint[]>()
+  if (colourColumn) {
+    const counts = new Map<string, number>()
+    for (const { row } of sampled) {
+      const key = String(row[colourColumn] ?? '(empty)')
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+    }
+    const top = new Set([...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_CHART_SERIES).map(([key]) => key))
+    for (const { row, point } of sampled) {
+      const raw = String(row[colourColumn] ?? '(empty)')
+      const key = top.has(raw) ? raw : OTHER_SERIES
+      if (!groups.has(key)) groups.set(key, [])
+      groups.get(key)!.push(point)
+    }
+  } else if (sampled.length > 0) {
+    groups.set('', sampled.map((v) => v.point))
+  }
+
+  return {
+    groups: [...groups.entries()].map(([name, points]) => ({ name, points })),
+    total: valid.length,
+    shown: sampled.length,
+    trend,
+  }
+}
@@ -0,0 +1,144 @@
+import type { DateTruncation } from './types'
+
+// Dates in dashboard widgets: timeframes, parsing, period truncation (in
+// local time) and the labels they are shown with.
+
+export const TIMEFRAME_LABELS: Record<string, string> = {
+  all: 'All Time',
+  '7d': 'Last 7 Days',
+  '30d': 'Last 30 Days',
+  '90d': 'Last 90 Days',
+  this_month: 'This Month',
+  this_year: 'This Year',
+}
+
+export function getTimeframeStart(tf: string): Date | null {
+  const now = new Date()
+  switch (tf) {
+    case '7d': return new Date(now.getTime() - 7 * 86400000)
+    case '30d': return new Date(now.getTime() - 30 * 86400000)
+    case '90d': return new Date(now.getTime() - 90 * 86400000)
+    case 'this_month': return new Date(now.getFullYear(), now.getMonth(), 1)
+    case 'this_year': return new Date(now.getFullYear(), 0, 1)
+    default: return null
+  }
+}
+
+export function parseDate(v: unknown): Date | null {
+  if (v instanceof Date) return v
+  if (typeof v === 'string') {
+    const d = new Date(v)
+    return isNaN(d.getTime()) ? null : d
+  }
+  if (typeof v === 'number') return new Date(v)
+  return null
+}
+
+/** Rows whose date column falls between two dates, inclusive; a null bound is open */
+export function filterByDateRange(
+  rows: Record<string, unknown>[],
+  dateColumn: string,
+  start: Date | null,
+  end: Date | null
+): Record<string, unknown>[] {
+  return rows.filter((r) => {
+    const d = parseDate(r[dateColumn])
+    return !!d && (!start || d >= start) && (!end || d <= end)
+  })
+}
+
+/** Rows whose date column falls in a metric or chart's timeframe */
+export function filterByTimeframe(
+  rows: Record<string, unknown>[],
+  config: { timeframe?: string; dateColumn?: string }
+): Record<string, unknown>[] {
+  const start = getTimeframeStart(config.timeframe ?? 'all')
+  if (!start || !config.dateColumn) return rows
+  return filterByDateRange(rows, config.dateColumn, start, null)
+}
+
+const MONTH_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+function ordinal(n: number): string {
+  const s = ['th', 'st', 'nd', 'rd']
+  const v = n % 100
+  return n + (s[(v - 20) % 10] || s[v] || s[0])
+}
+
+/** Pretty-format a date: "Jan 5th", "Jan 5th 2024", "Jan 2025", "2025" etc. */
+export function formatDatePretty(d: Date, trunc: DateTruncation = 'day'): string {
+  switch (trunc) {
+    case 'year': return String(d.getFullYear())
+    case 'quarter': return `Q${Math.floor(d.getMonth() / 3) + 1} ${d.getFullYear()}`
+    case 'month': return `${MONTH_SHORT[d.getMonth()]} ${d.getFullYear()}`
+    case 'week':
+    case 'day': return `${MONTH_SHORT[d.getMonth()]} ${ordinal(d.getDate())}`
+    case 'hour': return `${MONTH_SHORT[d.getMonth()]} ${ordinal(d.getDate())} ${String(d.getHours()).padStart(2, '0')}:00`
+    default: return `${MONTH_SHORT[d.getMonth()]} ${ordinal(d.getDate())}, ${d.getFullYear()}`
+  }
+}
+
+/** Truncate a date to a period boundary for grouping */
+export function truncateDate(d: Date, trunc: DateTruncation): Date {
+  switch (trunc) {
+    case 'hour': return new Date(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours())
+    case 'day': return new Date(d.getFullYear(), d.getMonth(), d.getDate())
+    case 'week': {
+      const day = d.getDay() // 0=Sun
+      const diff = d.getDate() - day + (day === 0 ? -6 : 1) // Mon start
+      return new Date(d.getFullYear(), d.getMonth(), diff)
+    }
+    case 'month': return new Date(d.getFullYear(), d.getMonth(), 1)
+    case 'quarter': return new Date(d.getFullYear(), Math.floor(d.getMonth() / 3) * 3, 1)
+    case 'year': return new Date(d.getFullYear(), 0, 1)
+    default: return d
+  }
+}
+
+/** Detect if a value looks like a date string */
+export function looksLikeDate(v: unknown): boolean {
+  if (typeof v !== 'string') return false
+  // ISO format, Firestore timestamp, or common date patterns
+  return /^\d{4}-\d{2}-\d{2}/.test(v) || /^\d{4}\/\d{2}\/\d{2}/.test(v) || /\d{4}-\d{2}-\d{2}T/.test(v)
+}
+
+/** The category a row value falls in on a chart, with its timestamp when it's a date */
+export function chartCategory(raw: unknown, trunc: DateTruncation): { cat: string; time?: number } {
+  if (trunc !== 'none') {
+    const d = parseDate(raw)
+    if (d) {
+      const truncated = truncateDate(d, trunc)
+      return { cat: formatDatePretty(truncated, trunc), time: truncated.getTime() }
+    }
+    return { cat: String(raw ?? '(empty)') }
+  }
+  // Auto-detect dates and format nicely even without truncation
+  const d = parseDate(raw)
+  if (d && looksLikeDate(raw)) return { cat: formatDatePretty(d, 'none'), time: d.getTime() }
+  return { cat: String(raw ?? '(empty)') }
+}
+
+/* ───────── Pivot computation hook ───────── */
+
+/**
+ * A field value's row/column grouping key. Truncated dates become ISO
+ * strings so grouping keys sort chronologically.
+ */
+export function pivotGroupKey(raw: unknown, trunc: DateTruncation | undefined): string {
+  if (!trunc || trunc === 'none') return String(raw ?? '')
+  const d = parseDate(raw)
+  if (!d) return String(raw ?? '')
+  return truncateDate(d, trunc).toISOString()
+}
+
+/** A cell value as display text, with date strings in the short format */
+export function formatCellValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'object') return JSON.stringify(value)
+  // Pretty-format date strings
+  if (typeof value === 'string' && looksLikeDate(value)) {
+    const d = parseDate(value)
+    if (d) return formatDatePretty(d, 'none')
+  }
+  return String(value)
+}
@@ -0,0 +1,232 @@
+import type {
+  FilterOperator,
+  WidgetFilter,
+  SavedTable,
+  QueryFilter,
+  DashboardFilterType,
+  DashboardWidget,
+  DashboardFilter,
+  CrossFilter,
+} from './types'
+import { fieldFilter, andFilters } from './firestore-rest'
+import { getTimeframeStart, parseDate, pivotGroupKey, chartCategory } from './dashboard-dates'
+
+// Row filters for dashboard widgets: a widget's own filters (run by Firestore
+// when they can be), the dashboard filter bar, and cross-filter selections.
+
+// ---- Widget filters ----
+
+export const FILTER_OPERATORS: { value: FilterOperator; label: string }[] = [
+  { value: 'equals', label: 'Equals' },
+  { value: 'not_equals', label: 'Does not equal' },
+  { value: 'contains', label: 'Contains' },
+  { value: 'not_contains', label: 'Does not contain' },
+  { value: 'starts_with', label: 'Starts with' },
+  { value: 'gt', label: 'Greater than' },
+  { value: 'gte', label: 'Greater or equal' },
+  { value: 'lt', label: 'Less than' },
+  { value: 'lte', label: 'Less or equal' },
+  { value: 'is_empty', label: 'Is empty' },
+  { value: 'is_not_empty', label: 'Is not empty' },
+]
+
+export function applyWidgetFilters(
+  rows: Record<string, unknown>[],
+  filters: WidgetFilter[] | undefined
+): Record<string, unknown>[] {
+  if (!filters || filters.length === 0) return rows
+
+  return rows.filter((row) =>
+    filters.every((f) => {
+      if (!f.column || !f.operator) return true
+      const raw = row[f.column]
+      const strVal = raw == null ? '' : String(raw).toLowerCase()
+      const filterVal = (f.value ?? '').toLowerCase()
+
+      switch (f.operator) {
+        case 'equals': return strVal === filterVal
+        case 'not_equals': return strVal !== filterVal
+        case 'contains': return strVal.includes(filterVal)
+        case 'not_contains': return !strVal.includes(filterVal)
+        case 'starts_with': return strVal.startsWith(filterVal)
+        case 'gt': {
+          const a = parseFloat(String(raw)); const b = parseFloat(f.value)
+          return !isNaN(a) && !isNaN(b) && a > b
+        }
+        case 'gte': {
+          const a = parseFloat(String(raw)); const b = parseFloat(f.value)
+          return !isNaN(a) && !isNaN(b) && a >= b
+        }
+        case 'lt': {
+          const a = parseFloat(String(raw)); const b = parseFloat(f.value)
+          return !isNaN(a) && !isNaN(b) && a < b
+        }
+        case 'lte': {
+          const a = parseFloat(String(raw)); const b = parseFloat(f.value)
+          return !isNaN(a) && !isNaN(b) && a <= b
+        }
+        case 'is_empty': return raw == null || String(raw).trim() === ''
+        case 'is_not_empty': return raw != null && String(raw).trim() !== ''
+        default: return true
+      }
+    })
+  )
+}
+
+export const isNumericType = (dataType: string | undefined) => dataType === 'integer' || dataType === 'double'
+
+export const isFirestoreTable = (table: SavedTable) => table.projectId !== '__query__' && table.projectId !== '__csv__'
+
+/**
+ * Converts one widget filter into a Firestore filter, or null when Firestore
+ * can't evaluate it. Local matching is case-insensitive and string-based, so
+ * only numeric/boolean comparisons and "is not empty" are sent. `exact` is
+ * false when the server result is a superset that still needs local filtering.
+ */
+export function widgetFilterToQueryFilter(
+  f: WidgetFilter,
+  dataType: string | undefined
+): { filter: QueryFilter; exact: boolean } | null {
+  if (f.operator === 'is_not_empty') {
+    // != null also drops missing fields; empty strings are still removed locally
+    return { filter: fieldFilter(f.column, 'NOT_EQUAL', null), exact: false }
+  }
+  if (isNumericType(dataType)) {
+    const num = parseFloat(f.value)
+    if (isNaN(num)) return null
+    switch (f.operator) {
+      case 'equals': return { filter: fieldFilter(f.column, 'EQUAL', num), exact: true }
+      case 'gt': return { filter: fieldFilter(f.column, 'GREATER_THAN', num), exact: true }
+      case 'gte': return { filter: fieldFilter(f.column, 'GREATER_THAN_OR_EQUAL', num), exact: true }
+      case 'lt': return { filter: fieldFilter(f.column, 'LESS_THAN', num), exact: true }
+      case 'lte': return { filter: fieldFilter(f.column, 'LESS_THAN_OR_EQUAL', num), exact: true }
+      default: return null
+    }
+  }
+  if (dataType === 'boolean' && f.operator === 'equals') {
+    const val = f.value.trim().toLowerCase()
+    if (val === 'true' || val === 'false') return { filter: fieldFilter(f.column, 'EQUAL', val === 'true'), exact: true }
+  }
+  return null
+}
+
+/**
+ * Pushes the widget filters Firestore can evaluate down to the query, so
+ * fewer documents are downloaded. applyWidgetFilters still runs on the
+ * result, so anything not pushed down is handled locally.
+ */
+export function widgetFiltersToQueryFilter(
+  filters: WidgetFilter[] | undefined,
+  table: SavedTable | undefined
+): QueryFilter | undefined {
+  if (!filters || !table || !isFirestoreTable(table)) return undefined
+
+  const columnTypes = new Map(table.columns.map((c) => [c.sourcePath, c.dataType]))
+  const pushed: QueryFilter[] = []
+
+  for (const f of filters) {
+    if (!f.column || f.column.startsWith('__') || !columnTypes.has(f.column)) continue
+    const converted = widgetFilterToQueryFilter(f, columnTypes.get(f.column))
+    if (converted) pushed.push(converted.filter)
+  }
+
+  return pushed.length > 0 ? andFilters(...pushed) : undefined
+}
+
+// ---- Dashboard filters ----
+
+export const DASHBOARD_FILTER_TYPES: { value: DashboardFilterType; label: string }[] = [
+  { value: 'date_range', label: 'Date range' },
+  { value: 'select', label: 'Select' },
+  { value: 'multi_select', label: 'Multi-select' },
+  { value: 'text', label: 'Text search' },
+]
+
+export const MAX_FILTER_OPTIONS = 200
+
+/** Table a widget reads its rows from, if any */
+export function widgetTableId(w: DashboardWidget): string | undefined {
+  switch (w.type) {
+    case 'table': return w.tableId || undefined
+    case 'metric': return w.metricConfig?.tableId || undefined
+    case 'chart': return w.chartConfig?.tableId || undefined
+    case 'pivot': return w.pivotConfig?.tableId || undefined
+    default: return undefined
+  }
+}
+
+/** Select options and row values are compared as strings */
+export const filterOptionValue = (v: unknown) => (v == null || v === '' ? '(empty)' : String(v))
+
+export function isDashboardFilterActive(f: DashboardFilter): boolean {
+  switch (f.type) {
+    case 'date_range': {
+      const preset = f.datePreset ?? 'all'
+      return preset === 'custom' ? !!(f.from || f.to) : preset !== 'all'
+    }
+    case 'select':
+    case 'multi_select':
+      return (f.values ?? []).length > 0
+    case 'text':
+      return !!f.text?.trim()
+  }
+}
+
+export function hasActiveDashboardFilter(filters: DashboardFilter[], tableId: string | undefined): boolean {
+  return !!tableId && filters.some((f) => !!f.columns[tableId] && isDashboardFilterActive(f))
+}
+
+/** Inclusive bounds of a date range filter; custom dates are whole local days */
+export function dashboardFilterDateRange(f: DashboardFilter): { start: Date | null; end: Date | null } {
+  const preset = f.datePreset ?? 'all'
+  if (preset !== 'custom') return { start: getTimeframeStart(preset), end: null }
+  return {
+    start: f.from ? new Date(`${f.from}T00:00:00`) : null,
+    end: f.to ? new Date(`${f.to}T23:59:59.999`) : null,
+  }
+}
+
+export function applyDashboardFilters(
+  rows: Record<string, unknown>[],
+  filters: DashboardFilter[],
+  tableId: string | undefined
+): Record<string, unknown>[] {
+  if (!tableId) return rows
+  const active = filters.filter((f) => f.columns[tableId] && isDashboardFilterActive(f))
+  if (active.length === 0) return rows
+
+  const tests = active.map((f): ((row: Record<string, unknown>) => boolean) => {
+    const column = f.columns[tableId]
+    if (f.type === 'date_range') {
+      const { start, end } = dashboardFilterDateRange(f)
+      return (row) => {
+        const d = parseDate(row[column])
+        return !!d && (!start || d >= start) && (!end || d <= end)
+      }
+    }
+    if (f.type === 'text') {
+      const needle = f.text!.trim().toLowerCase()
+      return (row) => String(row[column] ?? '').toLowerCase().includes(needle)
+    }
+    const values = new Set(f.values)
+    return (row) => values.has(filterOptionValue(row[column]))
+  })
+
+  return rows.filter((row) => tests.every((test) => test(row)))
+}
+
+/**
+ * Column a cross-filter selection applies to in a table: the selected column
+ * itself on the same table, or the column a dashboard filter maps it to.
+ */
+export function crossFilterColumn(sel: CrossFilter, tableId: string, dashboardFilters: DashboardFilter[]): string | undefined {
+  if (sel.tableId === tableId) return sel.column
+  const shared = dashboardFilters.find((f) => f.columns[sel.tableId] === sel.column && f.columns[tableId])
+  return shared?.columns[tableId]
+}
+
+export function crossFilterKey(raw: unknown, sel: CrossFilter): string {
+  return sel.keyKind === 'pivot'
+    ? pivotGroupKey(raw, sel.dateTruncate)
+    : chartCategory(raw, sel.dateTruncate ?? 'none').cat
+}
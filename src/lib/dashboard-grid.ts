@@ -0,0 +1,66 @@
+import type { DashboardWidget } from './types'
+
+// The dashboard canvas: a 24-column grid of short rows that widgets snap to.
+
+export const GRID_COLS = 24
+export const GRID_MAX_W = 24 // max usable width (matches GRID_COLS; right padding handled via gridWidth measurement)
+export const ROW_HEIGHT = 4
+export const WIDGET_MIN_W = 4
+export const WIDGET_MIN_H = 20
+export const MARGIN_X = 8
+export const MARGIN_Y = 4
+
+const ELEMENT_MIN_SIZES: Record<string, { minW: number; minH: number }> = {
+  heading: { minW: 4, minH: 6 },
+  text:    { minW: 4, minH: 8 },
+  divider: { minW: 4, minH: 3 },
+  metric:  { minW: 3, minH: 16 },
+  chart:   { minW: 6, minH: 28 },
+  pivot:   { minW: 6, minH: 28 },
+}
+
+/** A widget as saved, with its type's minimum size and older layouts migrated */
+export function toLoadedWidget(w: DashboardWidget): DashboardWidget {
+  const wType = w.type || 'table'
+  const mins = wType === 'table'
+    ? { minW: WIDGET_MIN_W, minH: WIDGET_MIN_H }
+    : ELEMENT_MIN_SIZES[wType] ?? { minW: 4, minH: 2 }
+  // Migrate from 48-col grid to 24-col: scale x and w by 0.5
+  const needsMigration = w.w > GRID_COLS || w.x >= GRID_COLS
+  const migrated = needsMigration
+    ? { x: Math.round(w.x / 2), w: Math.max(mins.minW, Math.round(w.w / 2)) }
+    : {}
+  return { ...w, type: wType, ...mins, ...migrated }
+}
+
+// ---- Grid position helpers ----
+
+function getColWidth(containerWidth: number) {
+  return (containerWidth - MARGIN_X * (GRID_COLS - 1)) / GRID_COLS
+}
+
+export function gridToPixel(gx: number, gy: number, gw: number, gh: number, containerWidth: number) {
+  const cw = getColWidth(containerWidth)
+  return {
+    left: Math.round(gx * (cw + MARGIN_X)),
+    top: Math.round(gy * (ROW_HEIGHT + MARGIN_Y)),
+    width: Math.round(gw * cw + Math.max(0, gw - 1) * MARGIN_X),
+    height: Math.round(gh * ROW_HEIGHT + Math.max(0, gh - 1) * MARGIN_Y),
+  }
+}
+
+export function pixelToGrid(px: number, py: number, containerWidth: number) {
+  const cw = getColWidth(containerWidth)
+  return {
+    x: Math.max(0, Math.round(px / (cw + MARGIN_X))),
+    y: Math.max(0, Math.round(py / (ROW_HEIGHT + MARGIN_Y))),
+  }
+}
+
+export function pixelSizeToGrid(pw: number, ph: number, containerWidth: number) {
+  const cw = getColWidth(containerWidth)
+  return {
+    w: Math.max(1, Math.round((pw + MARGIN_X) / (cw + MARGIN_X))),
+    h: Math.max(1, Math.round((ph + MARGIN_Y) / (ROW_HEIGHT + MARGIN_Y))),
+  }
+}
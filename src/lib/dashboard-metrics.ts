@@ -0,0 +1,316 @@
+import type {
+  AggregationType,
+  MetricConfig,
+  MetricComparison,
+  DateTruncation,
+  WidgetFilter,
+  SavedTable,
+  AggregationSpec,
+  QueryFilter,
+  MetricTargetDisplay,
+  MetricTarget,
+} from './types'
+import {
+  filterByTimeframe,
+  getTimeframeStart,
+  formatDatePretty,
+  filterByDateRange,
+  parseDate,
+  truncateDate,
+} from './dashboard-dates'
+import { isFirestoreTable, isNumericType, widgetFilterToQueryFilter } from './dashboard-filters'
+import { andFilters } from './firestore-rest'
+
+// Metric widget values: the aggregation (locally, or planned for Firestore),
+// period-over-period comparison, the sparkline trend and progress to target.
+
+export const AGGREGATION_LABELS: Record<AggregationType, string> = {
+  none: 'None (Raw)',
+  count: 'Count',
+  sum: 'Sum',
+  average: 'Average',
+  min: 'Min',
+  max: 'Max',
+  count_distinct: 'Count Distinct',
+}
+
+export function computeMetric(
+  rows: Record<string, unknown>[],
+  config: MetricConfig
+): number | null {
+  return aggregateMetric(filterByTimeframe(rows, config), config)
+}
+
+/** A metric's aggregation over rows already narrowed to a period */
+export function aggregateMetric(
+  filtered: Record<string, unknown>[],
+  config: Pick<MetricConfig, 'aggregation' | 'column'>
+): number | null {
+  const { aggregation, column } = config
+
+  if (aggregation === 'count') return filtered.length
+
+  if (!column) return null
+
+  if (aggregation === 'count_distinct') {
+    const unique = new Set(filtered.map((r) => String(r[column] ?? '')))
+    return unique.size
+  }
+
+  // Extract numeric values
+  const nums = filtered
+    .map((r) => {
+      const v = r[column]
+      if (typeof v === 'number') return v
+      if (typeof v === 'string') { const n = parseFloat(v); return isNaN(n) ? null : n }
+      return null
+    })
+    .filter((n): n is number => n !== null)
+
+  if (nums.length === 0) return null
+
+  switch (aggregation) {
+    case 'sum': return nums.reduce((a, b) => a + b, 0)
+    case 'average': return nums.reduce((a, b) => a + b, 0) / nums.length
+    case 'min': return Math.min(...nums)
+    case 'max': return Math.max(...nums)
+    default: return null
+  }
+}
+
+export const METRIC_COMPARISON_LABELS: Record<MetricComparison, string> = {
+  previous_period: 'Previous period',
+  previous_year: 'Same period last year',
+  custom: 'Custom range',
+}
+
+/**
+ * The dates a metric is compared against. A previous period covers as much
+ * time as the current one so far: on the 10th, "this month" is compared with
+ * the first ten days of last month.
+ */
+export function metricComparisonRange(config: MetricConfig, now = new Date()): { start: Date; end: Date } | null {
+  if (!config.comparison || !config.dateColumn) return null
+  if (config.comparison === 'custom') {
+    if (!config.compareFrom || !config.compareTo) return null
+    return { start: new Date(`${config.compareFrom}T00:00:00`), end: new Date(`${config.compareTo}T23:59:59.999`) }
+  }
+
+  const start = getTimeframeStart(config.timeframe ?? 'all')
+  if (!start) return null
+  const elapsed = now.getTime() - start.getTime()
+
+  if (config.comparison === 'previous_year') {
+    const yearAgo = (d: Date) => new Date(d.getFullYear() - 1, d.getMonth(), d.getDate(), d.getHours(), d.getMinutes(), d.getSeconds())
+    return { start: yearAgo(start), end: yearAgo(now) }
+  }
+  switch (config.timeframe) {
+    case 'this_month': {
+      const prev = new Date(start.getFullYear(), start.getMonth() - 1, 1)
+      return { start: prev, end: new Date(Math.min(prev.getTime() + elapsed, start.getTime() - 1)) }
+    }
+    case 'this_year': {
+      const prev = new Date(start.getFullYear() - 1, 0, 1)
+      return { start: prev, end: new Date(Math.min(prev.getTime() + elapsed, start.getTime() - 1)) }
+    }
+    default:
+      return { start: new Date(start.getTime() - elapsed), end: new Date(start.getTime() - 1) }
+  }
+}
+
+export function metricComparisonLabel(config: MetricConfig): string {
+  if (config.comparison === 'custom' && config.compareFrom && config.compareTo) {
+    const from = formatDatePretty(new Date(`${config.compareFrom}T00:00:00`), 'none')
+    const to = formatDatePretty(new Date(`${config.compareTo}T00:00:00`), 'none')
+    return `${from} – ${to}`
+  }
+  return config.comparison === 'previous_year' ? 'last year' : 'previous period'
+}
+
+export interface MetricChange {
+  previous: number
+  change: number
+  /** Change as a fraction of the previous value; null when that was zero */
+  percent: number | null
+}
+
+export function compareMetric(rows: Record<string, unknown>[], config: MetricConfig, current: number | null): MetricChange | null {
+  const range = metricComparisonRange(config)
+  if (!range || current === null) return null
+  const previous = aggregateMetric(filterByDateRange(rows, config.dateColumn!, range.start, range.end), config)
+  if (previous === null) return null
+  const change = current - previous
+  return { previous, change, percent: previous !== 0 ? change / Math.abs(previous) : null }
+}
+
+const SPARKLINE_MAX_POINTS = 120
+
+// Sparkline bucket sizes, finest first, with their rough length in days
+const SPARKLINE_BUCKETS: [DateTruncation, number][] = [
+  ['day', 1],
+  ['week', 7],
+  ['month', 30.44],
+  ['quarter', 91.31],
+  ['year', 365.25],
+]
+
+/** Start of the period after the one `d` starts */
+function nextPeriodStart(d: Date, trunc: DateTruncation): Date {
+  switch (trunc) {
+    case 'hour': return new Date(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours() + 1)
+    case 'week': return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 7)
+    case 'month': return new Date(d.getFullYear(), d.getMonth() + 1, 1)
+    case 'quarter': return new Date(d.getFullYear(), d.getMonth() + 3, 1)
+    case 'year': return new Date(d.getFullYear() + 1, 0, 1)
+    default: return new Date(d.getFullYear(), d.getMonth(), d.getDate() + 1)
+  }
+}
+
+/**
+ * The metric per day, week, month… across its timeframe, oldest first, with
+ * the smallest bucket that keeps the line under SPARKLINE_MAX_POINTS. Empty
+ * buckets count as zero for counts and sums and are left as gaps otherwise.
+ */
+export function buildMetricSparkline(rows: Record<string, unknown>[], config: MetricConfig): { time: number; value: number | null }[] {
+  const dateColumn = config.dateColumn
+  if (!dateColumn) return []
+
+  const dated: { row: Record<string, unknown>; time: number }[] = []
+  for (const row of filterByTimeframe(rows, config)) {
+    const d = parseDate(row[dateColumn])
+    if (d) dated.push({ row, time: d.getTime() })
+  }
+  if (dated.length === 0) return []
+
+  const earliest = dated.reduce((min, p) => Math.min(min, p.time), Infinity)
+  const latest = dated.reduce((max, p) => Math.max(max, p.time), -Infinity)
+  const start = getTimeframeStart(config.timeframe ?? 'all') ?? new Date(earliest)
+  const end = Math.max(Date.now(), latest)
+  const spanDays = (end - start.getTime()) / 86400000
+  const trunc = SPARKLINE_BUCKETS.find(([, days]) => spanDays / days <= SPARKLINE_MAX_POINTS)?.[0] ?? 'year'
+
+  const buckets = new Map<number, Record<string, unknown>[]>()
+  for (const { row, time } of dated) {
+    const key = truncateDate(new Date(time), trunc).getTime()
+    if (!buckets.has(key)) buckets.set(key, [])
+    buckets.get(key)!.push(row)
+  }
+
+  const additive = config.aggregation === 'count' || config.aggregation === 'sum' || config.aggregation === 'count_distinct'
+  const points: { time: number; value: number | null }[] = []
+  for (let d = truncateDate(start, trunc); d.getTime() <= end; d = nextPeriodStart(d, trunc)) {
+    const bucketRows = buckets.get(d.getTime())
+    points.push({
+      time: d.getTime(),
+      value: bucketRows ? aggregateMetric(bucketRows, config) : additive ? 0 : null,
+    })
+  }
+  return points
+}
+
+/**
+ * Plans a server-side aggregation for a metric so large collections aren't
+ * downloaded. Returns null when the value must be computed locally: other
+ * aggregations, non-Firestore tables, a timeframe, comparison or sparkline
+ * (date fields may be stored as strings), or widget filters Firestore can't
+ * match exactly.
+ */
+export function planMetricAggregation(
+  config: MetricConfig,
+  filters: WidgetFilter[] | undefined,
+  table: SavedTable | undefined
+): { spec: AggregationSpec; filter?: QueryFilter } | null {
+  if (!table || !isFirestoreTable(table)) return null
+  if (config.timeframe && config.timeframe !== 'all' && config.dateColumn) return null
+  if (config.dateColumn && (config.comparison || config.sparkline)) return null
+
+  const columnTypes = new Map(table.columns.map((c) => [c.sourcePath, c.dataType]))
+
+  let spec: AggregationSpec
+  if (config.aggregation === 'count') {
+    spec = { alias: 'value', op: 'COUNT' }
+  } else if (config.aggregation === 'sum' || config.aggregation === 'average') {
+    if (!config.column || !isNumericType(columnTypes.get(config.column))) return null
+    spec = { alias: 'value', op: config.aggregation === 'sum' ? 'SUM' : 'AVG', field: config.column }
+  } else {
+    return null
+  }
+
+  const pushed: QueryFilter[] = []
+  for (const f of filters ?? []) {
+    if (!f.column || !f.operator) continue
+    if (f.column.startsWith('__') || !columnTypes.has(f.column)) return null
+    const converted = widgetFilterToQueryFilter(f, columnTypes.get(f.column))
+    if (!converted?.exact) return null
+    pushed.push(converted.filter)
+  }
+
+  return { spec, filter: pushed.length > 0 ? andFilters(...pushed) : undefined }
+}
+
+export function formatMetricValue(value: number | null, prefix?: string, suffix?: string): string {
+  if (value === null) return '—'
+  // Format with commas, max 2 decimal places
+  const formatted = Number.isInteger(value)
+    ? value.toLocaleString()
+    : value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 2 })
+  return `${prefix ?? ''}${formatted}${suffix ?? ''}`
+}
+
+export const METRIC_TARGET_DISPLAYS: { value: MetricTargetDisplay; label: string }[] = [
+  { value: 'bar', label: 'Bar' },
+  { value: 'gauge', label: 'Gauge' },
+  { value: 'bullet', label: 'Bullet' },
+]
+
+/** End of the calendar period a timeframe runs in; rolling timeframes have none */
+function timeframePeriodEnd(tf: string | undefined): Date | null {
+  const now = new Date()
+  switch (tf) {
+    case 'this_month': return new Date(now.getFullYear(), now.getMonth() + 1, 1)
+    case 'this_year': return new Date(now.getFullYear() + 1, 0, 1)
+    default: return null
+  }
+}
+
+/** Like parseDate, but date-only strings ("2025-03-01", as spreadsheets hold them) are local days */
+function parseLocalDate(v: unknown): Date | null {
+  if (typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v)) return new Date(`${v}T00:00:00`)
+  return parseDate(v)
+}
+
+/**
+ * A metric's target: the fixed value, or the sum of the target table's column.
+ * With a date column, only target rows dated in the metric's whole calendar
+ * period count, so a monthly target row matches "This Month".
+ */
+export function metricTargetValue(target: MetricTarget, targetRows: Record<string, unknown>[], timeframe: string | undefined): number | null {
+  if (!target.tableId) return target.value ?? null
+  if (!target.column) return null
+  let rows = targetRows
+  const start = getTimeframeStart(timeframe ?? 'all')
+  if (start && target.dateColumn) {
+    const dateColumn = target.dateColumn
+    const end = timeframePeriodEnd(timeframe)
+    rows = rows.filter((r) => {
+      const d = parseLocalDate(r[dateColumn])
+      return !!d && d >= start && (!end || d < end)
+    })
+  }
+  return aggregateMetric(rows, { aggregation: 'sum', column: target.column })
+}
+
+/**
+ * Where a count or sum will end its calendar period at the rate so far, or
+ * null when there's nothing to project (rolling timeframes, other aggregations).
+ */
+export function projectMetricPace(value: number, config: MetricConfig): number | null {
+  if (config.aggregation !== 'count' && config.aggregation !== 'sum') return null
+  if (!config.dateColumn) return null
+  const start = getTimeframeStart(config.timeframe ?? 'all')
+  const end = timeframePeriodEnd(config.timeframe)
+  if (!start || !end) return null
+  const elapsed = Date.now() - start.getTime()
+  if (elapsed <= 0) return null
+  return (value * (end.getTime() - start.getTime())) / elapsed
+}
@@ -0,0 +1,256 @@
+import { fetchAllDocuments } from './firestore-rest'
+import { fetchCollectionRows } from './document-cache'
+import { flattenDocuments } from './utils'
+import { loadQueryTableRows } from './query-tables'
+import type { SavedTable, QueryFilter } from './types'
+
+// ---- Types ----
+
+export interface DatasetState {
+  rows: Record<string, unknown>[]
+  loading: boolean
+  error: string | null
+  /** Documents downloaded so far by the in-flight fetch */
+  loaded: number
+  /** When the rows were last confirmed against Firestore (may predate the fetch if cached) */
+  loadedAt: Date | null
+}
+
+export interface DatasetProgress {
+  /** Number of datasets currently fetching */
+  active: number
+  /** Documents downloaded so far across all in-flight fetches */
+  loaded: number
+  /** Oldest "last refreshed" time among the loaded datasets */
+  refreshedAt: Date | null
+}
+
+/** Rows computed by the server for a shared dashboard, served instead of fetching */
+export interface DatasetSnapshot {
+  /** Keyed by SavedTable.id */
+  rows: Record<string, Record<string, unknown>[]>
+  takenAt: Date
+}
+
+interface DatasetEntry {
+  table: SavedTable
+  filter?: QueryFilter
+  state: DatasetState
+  listeners: Set<() => void>
+  /** Bumped on every fetch so stale responses are discarded */
+  generation: number
+  /** Whether a refresh fetches only changed documents; filtered variants and collections without an "updated at" field are re-read whole */
+  incremental: boolean
+}
+
+const IDLE_STATE: DatasetState = { rows: [], loading: false, error: null, loaded: 0, loadedAt: null }
+/** Reported for a dataset that is about to be fetched but has no entry yet */
+const PENDING_STATE: DatasetState = { ...IDLE_STATE, loading: true }
+
+/**
+ * Datasets are keyed by SavedTable.id. Widgets that push a server-side
+ * filter down get their own variant of the table's dataset, shared with
+ * any other widget using the same filter.
+ */
+export function datasetKey(tableId: string, filter?: QueryFilter): string {
+  return filter ? `${tableId}?${JSON.stringify(filter)}` : tableId
+}
+
+// ---- Store ----
+
+/**
+ * Shared, de-duplicated row store for a dashboard. Each dataset is fetched
+ * once, concurrent subscribers share the in-flight request, and every
+ * subscriber is notified with the same rows. Shaped for useSyncExternalStore.
+ */
+export function createDatasetStore(accessToken: string | null, userId: string | null, snapshot?: DatasetSnapshot) {
+  const entries = new Map<string, DatasetEntry>()
+  const progressListeners = new Set<() => void>()
+  let progress: DatasetProgress = { active: 0, loaded: 0, refreshedAt: null }
+
+  const updateProgress = () => {
+    let active = 0
+    let loaded = 0
+    let refreshedAt: Date | null = null
+    for (const entry of entries.values()) {
+      if (entry.state.loading) {
+        active++
+        loaded += entry.state.loaded
+      } else if (entry.state.loadedAt && (!refreshedAt || entry.state.loadedAt < refreshedAt)) {
+        refreshedAt = entry.state.loadedAt
+      }
+    }
+    if (
+      active !== progress.active ||
+      loaded !== progress.loaded ||
+      refreshedAt?.getTime() !== progress.refreshedAt?.getTime()
+    ) {
+      progress = { active, loaded, refreshedAt }
+      progressListeners.forEach((l) => l())
+    }
+  }
+
+  const setState = (entry: DatasetEntry, patch: Partial<DatasetState>) => {
+    entry.state = { ...entry.state, ...patch }
+    entry.listeners.forEach((l) => l())
+    updateProgress()
+  }
+
+  /** `background` keeps the current rows on screen, without a spinner, until the new ones arrive */
+  const load = async (entry: DatasetEntry, force = false, background = false) => {
+    const { table, filter } = entry
+    const generation = ++entry.generation
+
+    const isStale = () => entry.generation !== generation
+
+    // Shared dashboards read every table from the snapshot; widget filters still apply to the rows
+    if (snapshot) {
+      setState(entry, { rows: snapshot.rows[table.id] ?? [], loading: false, error: null, loadedAt: snapshot.takenAt })
+      return
+    }
+
+    const quiet = background && entry.state.loadedAt !== null && !entry.state.error
+    const fail = (err: unknown) => {
+      if (quiet) {
+        // Leave the last good rows up; the next refresh tries again
+        console.warn(`Background refresh of ${table.tableName} failed:`, err)
+        return
+      }
+      console.error(`Failed to load data for ${table.tableName}:`, err)
+      setState(entry, { loading: false, error: err instanceof Error ? err.message : 'Failed to load data' })
+    }
+
+    // Query tables store their last results in the user's Firestore
+    if (table.projectId === '__query__') {
+      if (!userId) return
+      if (!quiet) setState(entry, { loading: true, error: null, loaded: 0 })
+      try {
+        const rows = await loadQueryTableRows(userId, table)
+        if (isStale()) return
+        setState(entry, { rows, loading: false, loadedAt: table.lastRefreshedAt ?? new Date() })
+      } catch (err) {
+        if (isStale()) return
+        fail(err)
+      }
+      return
+    }
+    if (!accessToken) return
+
+    if (!quiet) setState(entry, { loading: true, error: null, loaded: 0 })
+    const fetchOptions = {
+      isCollectionGroup: table.isCollectionGroup,
+      databaseId: table.databaseId,
+      isCancelled: isStale,
+      onProgress: (loaded: number) => {
+        if (!isStale() && !quiet) setState(entry, { loaded })
+      },
+    }
+
+    try {
+      // Whole collections go through the IndexedDB cache; filtered variants are always live
+      const { rows, refreshedAt, incremental } = filter
+        ? {
+            rows: flattenDocuments(
+              await fetchAllDocuments(accessToken, table.projectId, table.collectionPath, { ...fetchOptions, filter }),
+              table.isCollectionGroup
+            ),
+            refreshedAt: new Date(),
+            incremental: false,
+          }
+        : await fetchCollectionRows(accessToken, table.projectId, table.collectionPath, { ...fetchOptions, userId, force })
+      if (isStale()) return
+      entry.incremental = incremental
+      setState(entry, { rows, loading: false, loadedAt: refreshedAt })
+    } catch (err) {
+      if (isStale()) return
+      fail(err)
+    }
+  }
+
+  const getEntry = (table: SavedTable, filter?: QueryFilter) => {
+    const key = datasetKey(table.id, filter)
+    let entry = entries.get(key)
+    if (!entry) {
+      entry = { table, filter, state: IDLE_STATE, listeners: new Set(), generation: 0, incremental: false }
+      entries.set(key, entry)
+      load(entry)
+    } else {
+      // Keep the latest definition so refreshes pick up edits (e.g. new queryData)
+      entry.table = table
+    }
+    return entry
+  }
+
+  return {
+    /** Subscribes to a dataset, starting its fetch if nothing is cached or in flight */
+    subscribe(table: SavedTable, filter: QueryFilter | undefined, listener: () => void) {
+      const key = datasetKey(table.id, filter)
+      const entry = getEntry(table, filter)
+      entry.listeners.add(listener)
+      return () => {
+        entry.listeners.delete(listener)
+        // Deferred so a quick unsubscribe/resubscribe (remounts, StrictMode)
+        // keeps the dataset; otherwise abandon the fetch and forget the rows
+        setTimeout(() => {
+          if (entry.listeners.size > 0 || entries.get(key) !== entry) return
+          entry.generation++
+          entries.delete(key)
+          updateProgress()
+        }, 0)
+      }
+    },
+
+    getSnapshot(table: SavedTable | undefined, filter?: QueryFilter): DatasetState {
+      if (!table) return IDLE_STATE
+      const entry = entries.get(datasetKey(table.id, filter))
+      if (entry) return entry.state
+      return table.projectId !== '__query__' && accessToken && !snapshot ? PENDING_STATE : IDLE_STATE
+    },
+
+    /** Re-fetches one dataset (e.g. a widget's retry button) */
+    reload(table: SavedTable, filter?: QueryFilter) {
+      load(getEntry(table, filter))
+    },
+
+    /** Re-fetches every subscribed dataset, bypassing the cache TTL, and drops the rest */
+    refreshAll() {
+      for (const [key, entry] of entries) {
+        if (entry.listeners.size > 0) load(entry, true)
+        else entries.delete(key)
+      }
+      updateProgress()
+    },
+
+    /**
+     * Re-fetches subscribed datasets in the background (auto-refresh), leaving
+     * rows on screen. Datasets still loading are left alone. Whole collections
+     * only fetch documents changed since the last fetch when they have an
+     * "updated at" timestamp (see fetchCollectionRows). `minFullRefreshMs`
+     * leaves datasets that would be re-read whole until their rows are that old.
+     */
+    refreshInBackground(options?: { skipQueryTables?: boolean; minFullRefreshMs?: number }) {
+      for (const entry of entries.values()) {
+        if (entry.listeners.size === 0 || entry.state.loading) continue
+        if (options?.skipQueryTables && entry.table.projectId === '__query__') continue
+        if (
+          options?.minFullRefreshMs && !entry.incremental && entry.state.loadedAt &&
+          Date.now() - entry.state.loadedAt.getTime() < options.minFullRefreshMs
+        ) continue
+        load(entry, true, true)
+      }
+    },
+
+    subscribeProgress(listener: () => void) {
+      progressListeners.add(listener)
+      return () => {
+        progressListeners.delete(listener)
+      }
+    },
+
+    getProgress(): DatasetProgress {
+      return progress
+    },
+  }
+}
+
+export type DatasetStore = ReturnType<typeof createDatasetStore>
@@ -0,0 +1,279 @@
+import { fetchAllDocuments, countDocuments, fieldFilter, DEFAULT_DATABASE_ID } from './firestore-rest'
+import { flattenDocuments } from './utils'
+
+// ---- Settings ----
+
+const CACHE_SETTINGS_KEY = 'firegrid_cache_settings'
+
+export interface CacheSettings {
+  /** How long cached rows are served without asking Firestore; 0 disables the cache */
+  ttlMinutes: number
+}
+
+export const CACHE_TTL_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: 'Off' },
+  { value: 5, label: '5 minutes' },
+  { value: 15, label: '15 minutes' },
+  { value: 60, label: '1 hour' },
+  { value: 1440, label: '1 day' },
+]
+
+const DEFAULT_CACHE_SETTINGS: CacheSettings = { ttlMinutes: 15 }
+
+export function getCacheSettings(): CacheSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(CACHE_SETTINGS_KEY) || 'null')
+    if (stored && typeof stored.ttlMinutes === 'number') return stored
+  } catch {
+    // localStorage unavailable or corrupt
+  }
+  return DEFAULT_CACHE_SETTINGS
+}
+
+export function setCacheSettings(settings: CacheSettings) {
+  try {
+    localStorage.setItem(CACHE_SETTINGS_KEY, JSON.stringify(settings))
+  } catch {
+    // localStorage unavailable
+  }
+}
+
+// ---- IndexedDB ----
+
+const DB_NAME = 'firegrid-cache'
+const DB_VERSION = 2
+const STORE_NAME = 'collections'
+
+interface CachedCollection {
+  key: string
+  rows: Record<string, unknown>[]
+  /** Epoch ms of the last successful full or incremental fetch */
+  fetchedAt: number
+  /** Timestamp field used for incremental refresh, if every document has one */
+  updateField?: string
+  /** Highest value of updateField seen so far, as an ISO timestamp */
+  watermark?: string
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openCacheDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION)
+      req.onupgradeneeded = () => {
+        if (req.result.objectStoreNames.contains(STORE_NAME)) {
+          // Version 1 keys had no user id: drop those rows rather than leave them behind
+          req.transaction?.objectStore(STORE_NAME).clear()
+        } else {
+          req.result.createObjectStore(STORE_NAME, { keyPath: 'key' })
+        }
+      }
+      req.onsuccess = () => resolve(req.result)
+      req.onerror = () => reject(req.error)
+    })
+    dbPromise.catch(() => { dbPromise = null })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openCacheDb()
+  return new Promise((resolve, reject) => {
+    const req = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+// Keyed by user too: rows one account could read must never be served to another on a shared browser
+function cacheKey(userId: string, projectId: string, databaseId: string, collectionPath: string, isCollectionGroup: boolean) {
+  return [userId, projectId, databaseId, isCollectionGroup ? 'group' : 'collection', collectionPath].join('/')
+}
+
+async function readCache(key: string): Promise<CachedCollection | undefined> {
+  try {
+    return await withStore('readonly', (store) => store.get(key) as IDBRequest<CachedCollection | undefined>)
+  } catch (err) {
+    console.warn('Document cache unavailable:', err)
+    return undefined
+  }
+}
+
+async function writeCache(entry: CachedCollection) {
+  try {
+    await withStore('readwrite', (store) => store.put(entry))
+  } catch (err) {
+    // Quota exceeded or private browsing — the data is still returned uncached
+    console.warn('Failed to cache documents:', err)
+  }
+}
+
+/** Removes every cached collection (from the cache settings menu, and on sign-out) */
+export async function clearDocumentCache() {
+  await withStore('readwrite', (store) => store.clear())
+}
+
+// ---- Incremental refresh ----
+
+// Firestore can't order or filter on a document's own updateTime, so
+// incremental refresh relies on an "updated at" field maintained by the app.
+const UPDATE_FIELD_CANDIDATES = ['updatedAt', 'updated_at', 'updateTime', 'lastModified', 'modifiedAt']
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}/
+
+// Earliest Firestore timestamp: `field >= this` matches exactly the documents where field is a timestamp
+const MIN_TIMESTAMP = new Date('0001-01-01T00:00:00Z')
+
+/**
+ * Finds a field that looks like a timestamp on every row, with its highest
+ * value. Rows don't say whether a value was stored as a timestamp or as an
+ * ISO string, so confirmUpdateField checks that with Firestore before use.
+ */
+function detectUpdateField(rows: Record<string, unknown>[]) {
+  if (rows.length === 0) return undefined
+  for (const field of UPDATE_FIELD_CANDIDATES) {
+    let watermark: string | undefined
+    const usable = rows.every((row) => {
+      const value = row[field]
+      const valid = typeof value === 'string' && ISO_TIMESTAMP.test(value)
+      if (valid && (watermark === undefined || Date.parse(value) > Date.parse(watermark))) watermark = value
+      return valid
+    })
+    if (usable && watermark !== undefined) return { updateField: field, watermark }
+  }
+  return undefined
+}
+
+type CountOptions = { isCollectionGroup: boolean; databaseId: string }
+
+/** Documents whose field holds a real Firestore timestamp; range filters on strings never match one */
+function countTimestamped(accessToken: string, projectId: string, collectionPath: string, field: string, options: CountOptions) {
+  return countDocuments(accessToken, projectId, collectionPath, {
+    ...options,
+    filter: fieldFilter(field, 'GREATER_THAN_OR_EQUAL', MIN_TIMESTAMP),
+  })
+}
+
+/** The detected update field, if Firestore confirms it's a timestamp on all `total` documents */
+async function confirmUpdateField(
+  accessToken: string,
+  projectId: string,
+  collectionPath: string,
+  rows: Record<string, unknown>[],
+  options: CountOptions
+) {
+  const detected = detectUpdateField(rows)
+  if (!detected) return undefined
+  try {
+    const timestamped = await countTimestamped(accessToken, projectId, collectionPath, detected.updateField, options)
+    return timestamped === rows.length ? detected : undefined
+  } catch (err) {
+    console.warn(`Couldn't check ${collectionPath}.${detected.updateField} for incremental refresh:`, err)
+    return undefined
+  }
+}
+
+function rowKey(row: Record<string, unknown>, isCollectionGroup: boolean): string {
+  return String(isCollectionGroup ? row.__path : row.__id)
+}
+
+// ---- Cached fetch ----
+
+export interface CachedRowsResult {
+  rows: Record<string, unknown>[]
+  /** When the rows were last confirmed against Firestore */
+  refreshedAt: Date
+  /** cache: served from IndexedDB; incremental: only changed documents fetched; full: whole collection fetched */
+  source: 'cache' | 'incremental' | 'full'
+  /** Whether the next refresh can fetch only changed documents, rather than the whole collection */
+  incremental: boolean
+}
+
+/**
+ * Loads a whole collection as flattened rows, backed by an IndexedDB cache.
+ *
+ * Rows younger than the configured TTL are returned without a request.
+ * Older rows are topped up with only the documents whose "updated at"
+ * timestamp moved past the last seen value. COUNT queries then have to show
+ * that every document still has that timestamp and that nothing was deleted;
+ * otherwise the whole collection is fetched again. `force` skips the TTL
+ * check. Without a `userId` nothing is cached.
+ */
+export async function fetchCollectionRows(
+  accessToken: string,
+  projectId: string,
+  collectionPath: string,
+  options: {
+    /** Signed-in user the rows are cached for */
+    userId: string | null
+    isCollectionGroup?: boolean
+    databaseId?: string
+    force?: boolean
+    onProgress?: (loaded: number) => void
+    isCancelled?: () => boolean
+  }
+): Promise<CachedRowsResult> {
+  const isGroup = options.isCollectionGroup ?? false
+  const databaseId = options.databaseId ?? DEFAULT_DATABASE_ID
+  const ttlMinutes = options.userId ? getCacheSettings().ttlMinutes : 0
+  const key = cacheKey(options.userId ?? '', projectId, databaseId, collectionPath, isGroup)
+  const cached = ttlMinutes > 0 ? await readCache(key) : undefined
+
+  if (cached && !options.force && Date.now() - cached.fetchedAt < ttlMinutes * 60_000) {
+    return { rows: cached.rows, refreshedAt: new Date(cached.fetchedAt), source: 'cache', incremental: !!cached.updateField }
+  }
+
+  const fetchOptions = {
+    isCollectionGroup: isGroup,
+    databaseId,
+    onProgress: options.onProgress,
+    isCancelled: options.isCancelled,
+  }
+  const fetchedAt = Date.now()
+
+  const countOptions = { isCollectionGroup: isGroup, databaseId }
+
+  if (cached?.updateField && cached.watermark !== undefined) {
+    try {
+      const [changed, total, timestamped] = await Promise.all([
+        fetchAllDocuments(accessToken, projectId, collectionPath, {
+          ...fetchOptions,
+          // >= so documents written in the same instant as the watermark aren't missed
+          filter: fieldFilter(cached.updateField, 'GREATER_THAN_OR_EQUAL', cached.watermark),
+        }),
+        countDocuments(accessToken, projectId, collectionPath, countOptions),
+        countTimestamped(accessToken, projectId, collectionPath, cached.updateField, countOptions),
+      ])
+      if (options.isCancelled?.()) return { rows: cached.rows, refreshedAt: new Date(cached.fetchedAt), source: 'cache', incremental: true }
+
+      const merged = new Map(cached.rows.map((row) => [rowKey(row, isGroup), row]))
+      const added = changed.filter((d) => !merged.has(rowKey(d, isGroup))).length
+      for (const row of flattenDocuments(changed, isGroup)) merged.set(rowKey(row, isGroup), row)
+
+      // Fresh only if every document carries the timestamp (so none changed
+      // unseen) and the count grew by exactly the new documents (so none were
+      // deleted, including a delete hidden by an insert)
+      if (timestamped === total && total === cached.rows.length + added) {
+        const rows = [...merged.values()]
+        const detected = detectUpdateField(rows)
+        if (detected?.updateField === cached.updateField) {
+          await writeCache({ key, rows, fetchedAt, ...detected })
+          return { rows, refreshedAt: new Date(fetchedAt), source: 'incremental', incremental: true }
+        }
+      }
+    } catch (err) {
+      // e.g. a missing index on the update field — fall back to a full fetch
+      console.warn(`Incremental refresh of ${collectionPath} failed:`, err)
+    }
+  }
+
+  const documents = await fetchAllDocuments(accessToken, projectId, collectionPath, fetchOptions)
+  const rows = flattenDocuments(documents, isGroup)
+  let updateField: Awaited<ReturnType<typeof confirmUpdateField>>
+  if (ttlMinutes > 0 && !options.isCancelled?.()) {
+    updateField = await confirmUpdateField(accessToken, projectId, collectionPath, rows, countOptions)
+    await writeCache({ key, rows, fetchedAt, ...updateField })
+  }
+  return { rows, refreshedAt: new Date(fetchedAt), source: 'full', incremental: !!updateField }
+}
@@ -4,12 +4,25 @@ import type {
   DocumentData,
   CollectionInfo,
   GCPProject,
+  FirestoreDatabase,
+  QueryFilter,
+  FieldFilterOp,
+  UnaryFilterOp,
+  AggregationSpec,
 } from './types'
-import { parseFirestoreValue, toFirestoreFields } from './utils'
+import { parseFirestoreValue, toFirestoreFields, toFirestoreValue } from './utils'
 
 const FIRESTORE_BASE = 'https://firestore.googleapis.com/v1'
 const RESOURCE_MANAGER_BASE = 'https://cloudresourcemanager.googleapis.com/v1'
 
+/** ID of the database every Firestore project starts with. */
+export const DEFAULT_DATABASE_ID = '(default)'
+
+/** Resource path of a database's document root, e.g. projects/p/databases/(default)/documents */
+function documentsPath(projectId: string, databaseId = DEFAULT_DATABASE_ID): string {
+  return `projects/${projectId}/databases/${databaseId}/documents`
+}
+
 // ---- Token expiry event ----
 
 /**
@@ -109,14 +122,51 @@ export async function listGCPProjects(
   )
 }
 
+// ---- Firestore Databases ----
+
+/**
+ * Lists every Firestore database in a project. Projects that only use the
+ * default database return a single entry with databaseId "(default)".
+ */
+export async function listDatabases(
+  accessToken: string,
+  projectId: string
+): Promise<FirestoreDatabase[]> {
+  const res = await fetchWithRetry(`${FIRESTORE_BASE}/projects/${projectId}/databases`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  })
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}))
+    throw new Error(err.error?.message || `Failed to list databases: ${res.status}`)
+  }
+
+  const data = await res.json()
+  const databases: FirestoreDatabase[] = (data.databases ?? []).map(
+    (d: { name: string; locationId?: string; type?: string }) => ({
+      databaseId: extractDocId(d.name),
+      locationId: d.locationId ?? '',
+      type: d.type ?? '',
+    })
+  )
+
+  // Keep (default) first, then alphabetical
+  return databases.sort((a, b) => {
+    if (a.databaseId === DEFAULT_DATABASE_ID) return -1
+    if (b.databaseId === DEFAULT_DATABASE_ID) return 1
+    return a.databaseId.localeCompare(b.databaseId)
+  })
+}
+
 // ---- Firestore Collections ----
 
 export async function listCollections(
   accessToken: string,
   projectId: string,
-  parentPath?: string
+  parentPath?: string,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<CollectionInfo[]> {
-  const dbPath = `projects/${projectId}/databases/(default)/documents`
+  const dbPath = documentsPath(projectId, databaseId)
   const docPath = parentPath ? `${dbPath}/${parentPath}` : dbPath
 
   const res = await fetchWithRetry(`${FIRESTORE_BASE}/${docPath}:listCollectionIds`, {
@@ -151,7 +201,10 @@ export async function listCollections(
         const docs = countData.documents ?? []
 
         if (docs.length > 0) {
-          return { id, path: collPath, documentCount: null }
+          // Exact count via aggregation — no documents are downloaded
+          const documentCount = await countDocuments(accessToken, projectId, collPath, { databaseId })
+            .catch(() => null)
+          return { id, path: collPath, documentCount }
         }
 
         // No real docs — check for phantom/missing docs (documents that exist
@@ -189,9 +242,10 @@ async function listAllDocumentIds(
   accessToken: string,
   projectId: string,
   collectionPath: string,
-  showMissing = false
+  showMissing = false,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<string[]> {
-  const dbPath = `projects/${projectId}/databases/(default)/documents`
+  const dbPath = documentsPath(projectId, databaseId)
   const allIds: string[] = []
   let pageToken: string | undefined
 
@@ -227,18 +281,19 @@ async function listAllDocumentIds(
 export async function discoverSubCollections(
   accessToken: string,
   projectId: string,
-  collectionPath: string
+  collectionPath: string,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<string[]> {
   const subCollSet = new Set<string>()
-  const dbPath = `projects/${projectId}/databases/(default)/documents`
+  const dbPath = documentsPath(projectId, databaseId)
 
   // 1. Fetch ALL document IDs in the collection
-  let allDocIds = await listAllDocumentIds(accessToken, projectId, collectionPath)
+  let allDocIds = await listAllDocumentIds(accessToken, projectId, collectionPath, false, databaseId)
 
   // 2. If no real documents found, try with showMissing=true to find phantom
   //    documents (documents that don't exist but have subcollections underneath)
   if (allDocIds.length === 0) {
-    allDocIds = await listAllDocumentIds(accessToken, projectId, collectionPath, true)
+    allDocIds = await listAllDocumentIds(accessToken, projectId, collectionPath, true, databaseId)
     if (allDocIds.length === 0) return []
   }
 
@@ -283,12 +338,13 @@ export async function discoverSubCollections(
 export async function discoverSubCollectionsFromGroup(
   accessToken: string,
   projectId: string,
-  collectionId: string
+  collectionId: string,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<string[]> {
   const subCollSet = new Set<string>()
 
   // Sample a few docs from the collection group
-  const result = await fetchCollectionGroup(accessToken, projectId, collectionId, 5)
+  const result = await fetchCollectionGroup(accessToken, projectId, collectionId, 5, undefined, databaseId)
 
   // Check sub-collections on each sampled document
   await Promise.all(
@@ -296,7 +352,7 @@ export async function discoverSubCollectionsFromGroup(
       const docPath = doc.__path
       if (!docPath) return
       try {
-        const subs = await listCollections(accessToken, projectId, docPath)
+        const subs = await listCollections(accessToken, projectId, docPath, databaseId)
         for (const sub of subs) {
           subCollSet.add(sub.id)
         }
@@ -316,9 +372,10 @@ export async function fetchDocuments(
   projectId: string,
   collectionPath: string,
   pageSize = 100,
-  pageToken?: string
+  pageToken?: string,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<{ documents: DocumentData[]; nextPageToken?: string }> {
-  const dbPath = `projects/${projectId}/databases/(default)/documents`
+  const dbPath = documentsPath(projectId, databaseId)
   const url = new URL(`${FIRESTORE_BASE}/${dbPath}/${collectionPath}`)
   url.searchParams.set('pageSize', String(pageSize))
   if (pageToken) {
@@ -363,9 +420,10 @@ export async function fetchCollectionGroup(
   projectId: string,
   collectionId: string,
   pageSize = 100,
-  lastDocPath?: string
+  lastDocPath?: string,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<{ documents: DocumentData[]; lastDocumentPath?: string }> {
-  const dbPath = `projects/${projectId}/databases/(default)/documents`
+  const dbPath = documentsPath(projectId, databaseId)
 
   interface StructuredQuery {
     from: Array<{ collectionId: string; allDescendants: boolean }>
@@ -460,12 +518,15 @@ export async function queryDocumentsOrdered(
     orderDirection: 'ASCENDING' | 'DESCENDING'
     isCollectionGroup?: boolean
     cursor?: OrderedQueryCursor
+    databaseId?: string
+    /** Optional server-side filter. Range filters on another field may need a composite index. */
+    filter?: QueryFilter
   }
 ): Promise<{
   documents: DocumentData[]
   nextCursor?: OrderedQueryCursor
 }> {
-  const dbPath = `projects/${projectId}/databases/(default)/documents`
+  const dbPath = documentsPath(projectId, options.databaseId)
   const pageSize = options.pageSize ?? 100
 
   // Map __id (our internal meta field) to Firestore's __name__ pseudo-field
@@ -475,15 +536,7 @@ export async function queryDocumentsOrdered(
   // Split collectionPath into parent + collectionId for the runQuery endpoint.
   // "users" → parent: "", collectionId: "users"
   // "users/abc/orders" → parent: "users/abc", collectionId: "orders"
-  let parentPath = ''
-  let collectionId = collectionPath
-  if (!options.isCollectionGroup) {
-    const lastSlash = collectionPath.lastIndexOf('/')
-    if (lastSlash !== -1) {
-      parentPath = collectionPath.substring(0, lastSlash)
-      collectionId = collectionPath.substring(lastSlash + 1)
-    }
-  }
+  const { parentPath, collectionId } = splitCollectionPath(collectionPath, options.isCollectionGroup)
 
   // Build orderBy — primary field + __name__ tiebreaker
   const orderByClause: Array<{ field: { fieldPath: string }; direction: string }> = []
@@ -511,6 +564,9 @@ export async function queryDocumentsOrdered(
     limit: pageSize,
   }
 
+  const where = options.filter ? buildWhereClause(options.filter) : undefined
+  if (where) structuredQuery.where = where
+
   // Cursor-based pagination — start AFTER the last document from previous page
   if (options.cursor) {
     const cursorValues: FirestoreValue[] = []
@@ -605,6 +661,375 @@ function extractRawFieldValue(
   return current[parts[parts.length - 1]]
 }
 
+// ---- Query Filters ----
+
+/** Compares a field against a value, e.g. fieldFilter('status', 'EQUAL', 'paid') */
+export function fieldFilter(field: string, op: FieldFilterOp, value: unknown): QueryFilter {
+  return { kind: 'field', field, op, value }
+}
+
+/** Null / NaN checks, which Firestore models separately from comparisons */
+export function unaryFilter(field: string, op: UnaryFilterOp): QueryFilter {
+  return { kind: 'unary', field, op }
+}
+
+/** Matches documents whose field equals any of `values` (max 30 per Firestore) */
+export function inFilter(field: string, values: unknown[]): QueryFilter {
+  return { kind: 'field', field, op: 'IN', value: values }
+}
+
+/** Matches documents whose array field contains `value` */
+export function arrayContainsFilter(field: string, value: unknown): QueryFilter {
+  return { kind: 'field', field, op: 'ARRAY_CONTAINS', value }
+}
+
+/**
+ * Bounds a field on one or both sides. Bounds are inclusive unless
+ * `exclusive` is set. Returns an AND of up to two comparisons.
+ */
+export function rangeFilter(
+  field: string,
+  range: { min?: unknown; max?: unknown; exclusive?: boolean }
+): QueryFilter {
+  const filters: QueryFilter[] = []
+  if (range.min !== undefined) {
+    filters.push(fieldFilter(field, range.exclusive ? 'GREATER_THAN' : 'GREATER_THAN_OR_EQUAL', range.min))
+  }
+  if (range.max !== undefined) {
+    filters.push(fieldFilter(field, range.exclusive ? 'LESS_THAN' : 'LESS_THAN_OR_EQUAL', range.max))
+  }
+  return andFilters(...filters)
+}
+
+export function andFilters(...filters: QueryFilter[]): QueryFilter {
+  return { kind: 'composite', op: 'AND', filters }
+}
+
+export function orFilters(...filters: QueryFilter[]): QueryFilter {
+  return { kind: 'composite', op: 'OR', filters }
+}
+
+/**
+ * Firestore rejects queries that need a missing composite index with a
+ * FAILED_PRECONDITION whose message embeds a console link that creates it.
+ * Returns that link, or null for any other error.
+ */
+export function extractIndexCreationUrl(message: string): string | null {
+  if (!/requires an index/i.test(message)) return null
+  const match = message.match(/https:\/\/console\.firebase\.google\.com\/\S+/)
+  return match ? match[0] : null
+}
+
+/** Backtick-quotes any path segment that isn't a plain identifier */
+function toFieldPath(field: string): string {
+  return field
+    .split('.')
+    .map((part) => (/^[a-zA-Z_][a-zA-Z_0-9]*$/.test(part) ? part : `\`${part.replace(/\\/g, '\\\\').replace(/`/g, '\\`')}\``))
+    .join('.')
+}
+
+function toFilterValue(value: unknown): FirestoreValue {
+  if (value instanceof Date) return { timestampValue: value.toISOString() }
+  if (Array.isArray(value)) return { arrayValue: { values: value.map(toFilterValue) } }
+  return toFirestoreValue(value)
+}
+
+/**
+ * Converts a QueryFilter into a structuredQuery `where` clause.
+ * Empty composites are dropped and single-child composites are unwrapped,
+ * so builders can be combined freely without producing invalid queries.
+ * Exported for queries run elsewhere, e.g. scheduled alert checks.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export function buildWhereClause(filter: QueryFilter): Record<string, any> | undefined {
+  switch (filter.kind) {
+    case 'field':
+      return {
+        fieldFilter: {
+          field: { fieldPath: toFieldPath(filter.field) },
+          op: filter.op,
+          value: toFilterValue(filter.value),
+        },
+      }
+    case 'unary':
+      return {
+        unaryFilter: {
+          field: { fieldPath: toFieldPath(filter.field) },
+          op: filter.op,
+        },
+      }
+    case 'composite': {
+      const children = filter.filters
+        .map(buildWhereClause)
+        .filter((c): c is NonNullable<typeof c> => !!c)
+      if (children.length === 0) return undefined
+      if (children.length === 1) return children[0]
+      return { compositeFilter: { op: filter.op, filters: children } }
+    }
+  }
+}
+
+const INEQUALITY_OPS = new Set<FieldFilterOp>([
+  'NOT_EQUAL',
+  'LESS_THAN',
+  'LESS_THAN_OR_EQUAL',
+  'GREATER_THAN',
+  'GREATER_THAN_OR_EQUAL',
+  'NOT_IN',
+])
+
+/** Fields with range / not-equal comparisons, in first-seen order */
+export function getInequalityFields(filter: QueryFilter, out: string[] = []): string[] {
+  if (filter.kind === 'field' && INEQUALITY_OPS.has(filter.op) && !out.includes(filter.field)) {
+    out.push(filter.field)
+  } else if (filter.kind === 'unary' && filter.op === 'IS_NOT_NULL' && !out.includes(filter.field)) {
+    out.push(filter.field)
+  } else if (filter.kind === 'composite') {
+    for (const child of filter.filters) getInequalityFields(child, out)
+  }
+  return out
+}
+
+/** Splits "users/abc/orders" into parent "users/abc" + collectionId "orders" for runQuery */
+function splitCollectionPath(collectionPath: string, isCollectionGroup?: boolean) {
+  if (isCollectionGroup) return { parentPath: '', collectionId: collectionPath }
+  const lastSlash = collectionPath.lastIndexOf('/')
+  if (lastSlash === -1) return { parentPath: '', collectionId: collectionPath }
+  return {
+    parentPath: collectionPath.substring(0, lastSlash),
+    collectionId: collectionPath.substring(lastSlash + 1),
+  }
+}
+
+// ---- Filtered Query (server-side where via runQuery) ----
+
+export interface FilteredQueryCursor {
+  /** Raw values of every orderBy field from the last document, ending with its reference */
+  values: FirestoreValue[]
+}
+
+export interface QueryOrder {
+  field: string
+  direction: 'ASCENDING' | 'DESCENDING'
+}
+
+/**
+ * Fetches one page of documents matching a server-side filter.
+ * Works for both regular collections and collection groups.
+ *
+ * Results are ordered by `orderBy` (if given), then any inequality fields
+ * (as Firestore requires), then __name__, which keeps cursor pagination
+ * deterministic. Documents missing the `orderBy` field are not returned.
+ * Queries combining equality and range filters on different fields need
+ * a composite index — see extractIndexCreationUrl for surfacing the link.
+ */
+export async function queryDocuments(
+  accessToken: string,
+  projectId: string,
+  collectionPath: string,
+  options: {
+    filter?: QueryFilter
+    isCollectionGroup?: boolean
+    pageSize?: number
+    cursor?: FilteredQueryCursor
+    databaseId?: string
+    orderBy?: QueryOrder
+  } = {}
+): Promise<{
+  documents: DocumentData[]
+  nextCursor?: FilteredQueryCursor
+}> {
+  const dbPath = documentsPath(projectId, options.databaseId)
+  const pageSize = options.pageSize ?? 100
+  const { parentPath, collectionId } = splitCollectionPath(collectionPath, options.isCollectionGroup)
+
+  const inequalityFields = options.filter ? getInequalityFields(options.filter) : []
+  const orderFields = options.orderBy
+    ? [options.orderBy.field, ...inequalityFields.filter((f) => f !== options.orderBy!.field)]
+    : inequalityFields
+  const direction = options.orderBy?.direction ?? 'ASCENDING'
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const structuredQuery: Record<string, any> = {
+    from: [
+      {
+        collectionId,
+        ...(options.isCollectionGroup ? { allDescendants: true } : {}),
+      },
+    ],
+    orderBy: [
+      ...orderFields.map((f, i) => ({
+        field: { fieldPath: toFieldPath(f) },
+        direction: i === 0 ? direction : 'ASCENDING',
+      })),
+      { field: { fieldPath: '__name__' }, direction: orderFields.length <= 1 ? direction : 'ASCENDING' },
+    ],
+    limit: pageSize,
+  }
+
+  const where = options.filter ? buildWhereClause(options.filter) : undefined
+  if (where) structuredQuery.where = where
+
+  if (options.cursor) {
+    structuredQuery.startAt = { values: options.cursor.values, before: false }
+  }
+
+  const queryPath = parentPath ? `${dbPath}/${parentPath}` : dbPath
+
+  const res = await authFetch(`${FIRESTORE_BASE}/${queryPath}:runQuery`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ structuredQuery }),
+  })
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}))
+    throw new Error(err.error?.message || `Filtered query failed: ${res.status}`)
+  }
+
+  const results: Array<{ document?: FirestoreDocument; readTime?: string }> =
+    await res.json()
+
+  const documents: DocumentData[] = []
+  let lastRawDoc: FirestoreDocument | undefined
+
+  for (const result of results) {
+    if (!result.document) continue
+    const doc = result.document
+    const parsed: DocumentData = {
+      __id: extractDocId(doc.name),
+      __path: extractRelativePath(doc.name, projectId),
+    }
+    if (options.isCollectionGroup) {
+      parsed.__parentId = extractParentDocId(doc.name)
+    }
+    if (doc.fields) {
+      for (const [key, value] of Object.entries(doc.fields)) {
+        parsed[key] = parseFirestoreValue(value as FirestoreValue)
+      }
+    }
+    documents.push(parsed)
+    lastRawDoc = doc
+  }
+
+  let nextCursor: FilteredQueryCursor | undefined
+  if (lastRawDoc && documents.length >= pageSize) {
+    nextCursor = {
+      values: [
+        ...orderFields.map(
+          (f) => extractRawFieldValue(lastRawDoc.fields ?? {}, f) ?? { nullValue: null }
+        ),
+        { referenceValue: lastRawDoc.name },
+      ],
+    }
+  }
+
+  return { documents, nextCursor }
+}
+
+// ---- Aggregation Queries (server-side COUNT / SUM / AVG) ----
+
+/**
+ * Runs COUNT / SUM / AVG aggregations in Firestore without downloading the
+ * documents. Billed at one read per 1,000 index entries scanned.
+ *
+ * Returns a map of alias → value. AVG is null when no document has a
+ * numeric value for the field.
+ */
+export async function runAggregationQuery(
+  accessToken: string,
+  projectId: string,
+  collectionPath: string,
+  aggregations: AggregationSpec[],
+  options: {
+    filter?: QueryFilter
+    isCollectionGroup?: boolean
+    databaseId?: string
+  } = {}
+): Promise<Record<string, number | null>> {
+  const dbPath = documentsPath(projectId, options.databaseId)
+  const { parentPath, collectionId } = splitCollectionPath(collectionPath, options.isCollectionGroup)
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const structuredQuery: Record<string, any> = {
+    from: [
+      {
+        collectionId,
+        ...(options.isCollectionGroup ? { allDescendants: true } : {}),
+      },
+    ],
+  }
+  const where = options.filter ? buildWhereClause(options.filter) : undefined
+  if (where) structuredQuery.where = where
+
+  const aggregationClauses = aggregations.map((a) => {
+    switch (a.op) {
+      case 'COUNT':
+        return { alias: a.alias, count: {} }
+      case 'SUM':
+        return { alias: a.alias, sum: { field: { fieldPath: toFieldPath(a.field ?? '') } } }
+      case 'AVG':
+        return { alias: a.alias, avg: { field: { fieldPath: toFieldPath(a.field ?? '') } } }
+    }
+  })
+
+  const queryPath = parentPath ? `${dbPath}/${parentPath}` : dbPath
+
+  const res = await authFetch(`${FIRESTORE_BASE}/${queryPath}:runAggregationQuery`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      structuredAggregationQuery: { structuredQuery, aggregations: aggregationClauses },
+    }),
+  })
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}))
+    throw new Error(err.error?.message || `Aggregation query failed: ${res.status}`)
+  }
+
+  const results: Array<{
+    result?: { aggregateFields?: Record<string, FirestoreValue> }
+    readTime?: string
+  }> = await res.json()
+
+  const fields = results.find((r) => r.result)?.result?.aggregateFields ?? {}
+  const values: Record<string, number | null> = {}
+  for (const a of aggregations) {
+    const raw = fields[a.alias]
+    const parsed = raw ? parseFirestoreValue(raw) : null
+    values[a.alias] = typeof parsed === 'number' ? parsed : null
+  }
+  return values
+}
+
+/** Counts documents (optionally filtered) with a single COUNT aggregation */
+export async function countDocuments(
+  accessToken: string,
+  projectId: string,
+  collectionPath: string,
+  options: {
+    filter?: QueryFilter
+    isCollectionGroup?: boolean
+    databaseId?: string
+  } = {}
+): Promise<number> {
+  const result = await runAggregationQuery(
+    accessToken,
+    projectId,
+    collectionPath,
+    [{ alias: 'count', op: 'COUNT' }],
+    options
+  )
+  return result.count ?? 0
+}
+
 // ---- Fetch ALL Documents (paginate through entire collection) ----
 
 /**
@@ -612,7 +1037,8 @@ function extractRawFieldValue(
  * automatically paging through all results (300 per batch).
  *
  * An optional `onProgress` callback fires after each batch so callers
- * can show a live count to the user.
+ * can show a live count to the user. `limit` stops paging once that many
+ * documents have been downloaded.
  */
 export async function fetchAllDocuments(
   accessToken: string,
@@ -623,37 +1049,63 @@ export async function fetchAllDocuments(
     onProgress?: (loaded: number) => void
     /** If provided, checked before each batch. Return true to abort early. */
     isCancelled?: () => boolean
+    databaseId?: string
+    /** Server-side filter; only matching documents are downloaded */
+    filter?: QueryFilter
+    /** Maximum number of documents to download */
+    limit?: number
+    /** Server-side sort, mainly useful together with `limit` */
+    orderBy?: QueryOrder
   }
 ): Promise<DocumentData[]> {
-  const BATCH_SIZE = 300
+  const limit = options?.limit ?? Infinity
+  const BATCH_SIZE = Math.min(300, limit)
   const allDocuments: DocumentData[] = []
   const isGroup = options?.isCollectionGroup ?? false
+  const databaseId = options?.databaseId ?? DEFAULT_DATABASE_ID
 
-  if (isGroup) {
+  if (options?.filter || options?.orderBy) {
+    let cursor: FilteredQueryCursor | undefined
+    while (true) {
+      if (options.isCancelled?.()) return allDocuments
+      const result = await queryDocuments(accessToken, projectId, collectionPath, {
+        filter: options.filter,
+        orderBy: options.orderBy,
+        isCollectionGroup: isGroup,
+        pageSize: BATCH_SIZE,
+        cursor,
+        databaseId,
+      })
+      allDocuments.push(...result.documents)
+      options.onProgress?.(allDocuments.length)
+      cursor = result.nextCursor
+      if (!cursor || allDocuments.length >= limit) break
+    }
+  } else if (isGroup) {
     let cursor: string | undefined
     // eslint-disable-next-line no-constant-condition
     while (true) {
       if (options?.isCancelled?.()) return allDocuments
-      const result = await fetchCollectionGroup(accessToken, projectId, collectionPath, BATCH_SIZE, cursor)
+      const result = await fetchCollectionGroup(accessToken, projectId, collectionPath, BATCH_SIZE, cursor, databaseId)
       allDocuments.push(...result.documents)
       options?.onProgress?.(allDocuments.length)
       cursor = result.lastDocumentPath
-      if (!cursor || result.documents.length < BATCH_SIZE) break
+      if (!cursor || result.documents.length < BATCH_SIZE || allDocuments.length >= limit) break
     }
   } else {
     let token: string | undefined
     // eslint-disable-next-line no-constant-condition
     while (true) {
       if (options?.isCancelled?.()) return allDocuments
-      const result = await fetchDocuments(accessToken, projectId, collectionPath, BATCH_SIZE, token)
+      const result = await fetchDocuments(accessToken, projectId, collectionPath, BATCH_SIZE, token, databaseId)
       allDocuments.push(...result.documents)
       options?.onProgress?.(allDocuments.length)
       token = result.nextPageToken
-      if (!token || result.documents.length < BATCH_SIZE) break
+      if (!token || result.documents.length < BATCH_SIZE || allDocuments.length >= limit) break
     }
   }
 
-  return allDocuments
+  return allDocuments.length > limit ? allDocuments.slice(0, limit) : allDocuments
 }
 
 // ---- Sample Documents ----
@@ -662,9 +1114,10 @@ export async function sampleDocuments(
   accessToken: string,
   projectId: string,
   collectionPath: string,
-  sampleSize = 50
+  sampleSize = 50,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<DocumentData[]> {
-  const result = await fetchDocuments(accessToken, projectId, collectionPath, sampleSize)
+  const result = await fetchDocuments(accessToken, projectId, collectionPath, sampleSize, undefined, databaseId)
   return result.documents
 }
 
@@ -672,9 +1125,10 @@ export async function sampleCollectionGroup(
   accessToken: string,
   projectId: string,
   collectionId: string,
-  sampleSize = 50
+  sampleSize = 50,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<DocumentData[]> {
-  const result = await fetchCollectionGroup(accessToken, projectId, collectionId, sampleSize)
+  const result = await fetchCollectionGroup(accessToken, projectId, collectionId, sampleSize, undefined, databaseId)
   return result.documents
 }
 
@@ -684,9 +1138,10 @@ export async function sampleCollectionGroup(
 export async function fetchSingleDocument(
   accessToken: string,
   projectId: string,
-  documentPath: string
+  documentPath: string,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<DocumentData> {
-  const dbPath = `projects/${projectId}/databases/(default)/documents`
+  const dbPath = documentsPath(projectId, databaseId)
 
   const res = await authFetch(`${FIRESTORE_BASE}/${dbPath}/${documentPath}`, {
     headers: { Authorization: `Bearer ${accessToken}` },
@@ -715,9 +1170,10 @@ export async function updateDocument(
   accessToken: string,
   projectId: string,
   documentPath: string,
-  data: Record<string, unknown>
+  data: Record<string, unknown>,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<void> {
-  const dbPath = `projects/${projectId}/databases/(default)/documents`
+  const dbPath = documentsPath(projectId, databaseId)
   const fields = toFirestoreFields(data)
 
   const params = new URLSearchParams()
@@ -747,9 +1203,10 @@ export async function updateDocument(
 export async function deleteDocument(
   accessToken: string,
   projectId: string,
-  documentPath: string
+  documentPath: string,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<void> {
-  const dbPath = `projects/${projectId}/databases/(default)/documents`
+  const dbPath = documentsPath(projectId, databaseId)
 
   const res = await authFetch(`${FIRESTORE_BASE}/${dbPath}/${documentPath}`, {
     method: 'DELETE',
@@ -768,9 +1225,10 @@ export async function createDocument(
   projectId: string,
   collectionPath: string,
   data: Record<string, unknown>,
-  documentId?: string
+  documentId?: string,
+  databaseId = DEFAULT_DATABASE_ID
 ): Promise<string> {
-  const dbPath = `projects/${projectId}/databases/(default)/documents`
+  const dbPath = documentsPath(projectId, databaseId)
   const fields = toFirestoreFields(data)
 
   const url = new URL(`${FIRESTORE_BASE}/${dbPath}/${collectionPath}`)
@@ -804,10 +1262,13 @@ function extractDocId(fullPath: string): string {
 }
 
 function extractRelativePath(fullPath: string, projectId: string): string {
-  const prefix = `projects/${projectId}/databases/(default)/documents/`
+  // Database IDs vary, so match any database under this project
+  const prefix = `projects/${projectId}/databases/`
   const idx = fullPath.indexOf(prefix)
-  if (idx >= 0) return fullPath.slice(idx + prefix.length)
-  return fullPath
+  if (idx < 0) return fullPath
+  const docsIdx = fullPath.indexOf('/documents/', idx + prefix.length)
+  if (docsIdx < 0) return fullPath
+  return fullPath.slice(docsIdx + '/documents/'.length)
 }
 
 function extractParentDocId(fullPath: string): string {
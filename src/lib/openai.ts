@@ -1,15 +1,70 @@
 import type { ColumnConfig } from './types'
+import { auth } from './firebase'
+import { chatCompletionsUrl, isAiProviderConfigured, isServerProvider, type AiProviderSettings } from './ai-provider'
 
-const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions'
+// ---- Chat completions ----
 
-function getOpenAIKey(): string {
-  return import.meta.env.VITE_OPENAI_API_KEY ?? ''
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
 }
 
-export function hasOpenAIKey(): boolean {
-  return !!getOpenAIKey()
+async function chatCompletion(
+  provider: AiProviderSettings,
+  messages: ChatMessage[],
+  options: { temperature: number; maxTokens: number }
+): Promise<string> {
+  if (!isAiProviderConfigured(provider)) throw new Error('AI provider not configured')
+
+  const viaServer = isServerProvider(provider)
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (viaServer) {
+    // The server holds the key and rate-limits by the signed-in user
+    const idToken = await auth?.currentUser?.getIdToken()
+    if (!idToken) throw new Error('Sign in to use AI features')
+    headers.Authorization = `Bearer ${idToken}`
+  } else if (provider.apiKey.trim()) {
+    headers.Authorization = `Bearer ${provider.apiKey.trim()}`
+  }
+
+  let res: Response
+  try {
+    res = await fetch(chatCompletionsUrl(provider), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: provider.model.trim(),
+        messages,
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        ...(viaServer && provider.redactSamples ? { redact_samples: true } : {}),
+      }),
+    })
+  } catch {
+    // Self-hosted servers often aren't running, or don't allow this origin (CORS)
+    throw new Error(`Could not reach the AI provider at ${provider.baseUrl}`)
+  }
+
+  if (!res.ok) {
+    const err = await res.json().catch(() => ({}))
+    throw new Error(err.error?.message || `AI provider error: ${res.status}`)
+  }
+
+  const data = await res.json()
+  return data.choices?.[0]?.message?.content ?? ''
 }
 
+/** Parses a JSON reply, stripping markdown fences if present */
+function parseJsonReply<T>(content: string): T {
+  let jsonStr = content.trim()
+  if (jsonStr.startsWith('```')) {
+    jsonStr = jsonStr.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
+  }
+  return JSON.parse(jsonStr)
+}
+
+// ---- Table recommendations ----
+
 export interface CollectionSchema {
   collectionPath: string
   documentCount: number
@@ -31,11 +86,9 @@ export interface TableRecommendation {
 }
 
 export async function analyseCollectionsWithAI(
+  provider: AiProviderSettings,
   collections: CollectionSchema[]
 ): Promise<TableRecommendation[]> {
-  const apiKey = getOpenAIKey()
-  if (!apiKey) throw new Error('OpenAI API key not configured')
-
   // Build a concise representation of all collections
   const collectionSummaries = collections.map((c) => ({
     path: c.collectionPath,
@@ -92,38 +145,16 @@ Return ONLY the JSON array, no markdown, no explanation.`
 
   const userPrompt = `Here are the Firestore collections and their schemas:\n\n${JSON.stringify(collectionSummaries, null, 2)}`
 
-  const res = await fetch(OPENAI_API_URL, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: userPrompt },
-      ],
-      temperature: 0.3,
-      max_tokens: 4096,
-    }),
-  })
-
-  if (!res.ok) {
-    const err = await res.json().catch(() => ({}))
-    throw new Error(err.error?.message || `OpenAI API error: ${res.status}`)
-  }
-
-  const data = await res.json()
-  const content = data.choices?.[0]?.message?.content ?? '[]'
-
-  // Parse the response - strip markdown fences if present
-  let jsonStr = content.trim()
-  if (jsonStr.startsWith('```')) {
-    jsonStr = jsonStr.replace(/^```(?:json)?\n?/, '').replace(/\n?```$/, '')
-  }
+  const content = await chatCompletion(
+    provider,
+    [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userPrompt },
+    ],
+    { temperature: 0.3, maxTokens: 4096 }
+  )
 
-  const recommendations: TableRecommendation[] = JSON.parse(jsonStr).map(
+  const recommendations: TableRecommendation[] = parseJsonReply<TableRecommendation[]>(content || '[]').map(
     (rec: TableRecommendation) => ({
       ...rec,
       selected: rec.priority === 'high' || rec.priority === 'medium',
@@ -132,3 +163,233 @@ Return ONLY the JSON array, no markdown, no explanation.`
 
   return recommendations
 }
+
+// ---- Natural language to SQL ----
+
+export interface SqlTableSchema {
+  /** Name the table is queried by in the workbench */
+  alias: string
+  tableName: string
+  columns: {
+    name: string
+    dataType: string
+    sampleValues: unknown[]
+  }[]
+}
+
+export interface GeneratedSql {
+  sql: string
+  explanation: string
+  /** Model calls made, including retries after failed dry runs */
+  attempts: number
+  /** Error from the last dry run, if the SQL still doesn't run */
+  validationError: string | null
+}
+
+const MAX_SQL_ATTEMPTS = 3
+
+/**
+ * Turns a question into alasql SQL over the workbench tables. Each answer is
+ * dry-run with `validate` (which returns an error message, or null when the
+ * SQL runs); failures are sent back to the model to fix, up to three tries.
+ */
+export async function generateSqlFromQuestion(
+  provider: AiProviderSettings,
+  question: string,
+  tables: SqlTableSchema[],
+  options?: {
+    validate?: (sql: string) => Promise<string | null>
+    onAttempt?: (attempt: number) => void
+  }
+): Promise<GeneratedSql> {
+  const schemas = tables.map((t) => ({
+    table: t.alias,
+    description: t.tableName,
+    columns: t.columns.map((c) => ({
+      name: c.name,
+      type: c.dataType,
+      samples: c.sampleValues.slice(0, 3).map((v) =>
+        typeof v === 'object' ? JSON.stringify(v) : String(v).slice(0, 60)
+      ),
+    })),
+  }))
+
+  const systemPrompt = `You write SQL for AlaSQL, an in-browser SQL engine, to answer questions about the user's tables. You will receive the tables (with the exact names to query them by), their columns, column types and sample values.
+
+Rules:
+- Use only the listed tables and columns, spelled exactly as given
+- Write a single SELECT statement; never modify data
+- Timestamp columns hold ISO 8601 strings (e.g. "2024-03-01T12:00:00.000Z"), so compare them with ISO date strings and use SUBSTRING(col, 1, 7) for year-month or SUBSTRING(col, 1, 10) for dates
+- Numeric-looking values are numbers; compare strings with single quotes
+- Supported: JOIN, GROUP BY, HAVING, ORDER BY, LIMIT, COUNT/SUM/AVG/MIN/MAX, CASE, COALESCE, UPPER/LOWER, LIKE, IN, BETWEEN
+- Not supported: window functions, CTEs (WITH), and :named parameters
+- Give aggregate columns readable aliases with AS
+- Add LIMIT 100 to queries that return individual rows unless the user asks for everything
+
+Return valid JSON matching this exact structure:
+{
+  "sql": "string (the query)",
+  "explanation": "string (one or two sentences on how the query answers the question)"
+}
+
+Return ONLY the JSON object, no markdown.`
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: systemPrompt },
+    { role: 'user', content: `Tables:\n\n${JSON.stringify(schemas, null, 2)}\n\nQuestion: ${question}` },
+  ]
+
+  let result: GeneratedSql | null = null
+  for (let attempt = 1; attempt <= MAX_SQL_ATTEMPTS; attempt++) {
+    options?.onAttempt?.(attempt)
+    const content = await chatCompletion(provider, messages, { temperature: 0.1, maxTokens: 1024 })
+
+    let reply: { sql?: string; explanation?: string }
+    try {
+      reply = parseJsonReply(content)
+    } catch {
+      // Not JSON — treat the whole reply as SQL
+      reply = { sql: content.replace(/^```(?:sql)?\n?/, '').replace(/\n?```$/, '') }
+    }
+    const sql = reply.sql?.trim().replace(/;$/, '') ?? ''
+    if (!sql) throw new Error('The model did not return any SQL')
+
+    const validationError = options?.validate ? await options.validate(sql) : null
+    result = { sql, explanation: reply.explanation ?? '', attempts: attempt, validationError }
+    if (!validationError) break
+
+    messages.push(
+      { role: 'assistant', content },
+      {
+        role: 'user',
+        content: `Running that SQL failed with this AlaSQL error:\n\n${validationError}\n\nFix the query and reply with the same JSON structure.`,
+      }
+    )
+  }
+  return result!
+}
+
+// ---- Dashboard generation ----
+
+export interface DashboardTableSchema {
+  id: string
+  tableName: string
+  columns: {
+    /** Key widgets reference the column by */
+    key: string
+    alias: string
+    dataType: string
+  }[]
+}
+
+export type GeneratedAggregation = 'count' | 'sum' | 'average' | 'min' | 'max' | 'count_distinct'
+
+export interface GeneratedDashboardWidget {
+  type: 'heading' | 'text' | 'metric' | 'chart' | 'pivot' | 'table'
+  title: string
+  /** Share of the dashboard's width the widget takes */
+  width?: 'full' | 'half' | 'third' | 'quarter'
+  /** Heading / text content */
+  content?: string
+  tableId?: string
+  metric?: {
+    aggregation: GeneratedAggregation
+    column?: string
+    dateColumn?: string
+    timeframe?: 'all' | '7d' | '30d' | '90d' | 'this_month' | 'this_year'
+    prefix?: string
+    suffix?: string
+  }
+  chart?: {
+    chartType: 'bar' | 'line' | 'area' | 'pie' | 'donut'
+    categoryColumn: string
+    valueColumn?: string
+    aggregation: GeneratedAggregation
+    dateTruncate?: 'day' | 'week' | 'month' | 'quarter' | 'year'
+    maxBars?: number
+    sortBy?: 'value' | 'category'
+  }
+  pivot?: {
+    rowColumns: string[]
+    colColumns?: string[]
+    values: { column: string; aggregation: GeneratedAggregation }[]
+  }
+}
+
+export interface GeneratedDashboard {
+  name: string
+  widgets: GeneratedDashboardWidget[]
+}
+
+/**
+ * Designs a dashboard for a description like "weekly revenue by store, top 10
+ * products, refunds KPI" from the user's saved tables. Widgets reference
+ * tables by id and columns by key; the caller checks them before use.
+ */
+export async function generateDashboardFromPrompt(
+  provider: AiProviderSettings,
+  prompt: string,
+  tables: DashboardTableSchema[]
+): Promise<GeneratedDashboard> {
+  const schemas = tables.map((t) => ({
+    tableId: t.id,
+    name: t.tableName,
+    columns: t.columns.map((c) => ({ key: c.key, name: c.alias, type: c.dataType })),
+  }))
+
+  const systemPrompt = `You are an expert BI analyst designing a dashboard from a user's saved tables. You will receive the tables (with ids), their columns (with keys, display names and types) and a description of the dashboard the user wants.
+
+Widget types:
+- "heading": a section title (content = the heading text)
+- "text": a short note (content = the text)
+- "metric": a single KPI number, aggregated from one column
+- "chart": a bar, line, area, pie or donut chart grouping one column (categoryColumn) and aggregating another (valueColumn)
+- "pivot": a pivot table with row groupings, optional column groupings and aggregated values
+- "table": the raw rows of a table
+
+Rules:
+- Use only the listed tableIds and column keys, spelled exactly as given
+- Aggregations: "count" (needs no column), "sum", "average", "min", "max", "count_distinct"
+- Only sum/average/min/max numeric columns (integer or double)
+- For trends over time, use a line chart with a timestamp categoryColumn and dateTruncate ("day", "week", "month", "quarter" or "year")
+- For "top N" lists, use a bar chart with sortBy "value" and maxBars N
+- Use pie or donut charts only for shares of a whole with a handful of categories (maxBars 6 or fewer)
+- Metrics can be limited to a period with a timestamp dateColumn and a timeframe ("7d", "30d", "90d", "this_month", "this_year")
+- Start with a heading, put metrics first (width "quarter" or "third"), then charts ("half" or "full"), then pivots and tables ("full")
+- Give every widget a short, human-friendly title
+- Skip parts of the request no table can answer rather than inventing columns
+
+Return valid JSON matching this exact structure:
+{
+  "name": "string (dashboard name)",
+  "widgets": [
+    {
+      "type": "heading" | "text" | "metric" | "chart" | "pivot" | "table",
+      "title": "string",
+      "width": "full" | "half" | "third" | "quarter",
+      "content": "string (heading/text only)",
+      "tableId": "string (all but heading/text)",
+      "metric": { "aggregation": "string", "column": "string", "dateColumn": "string", "timeframe": "string", "prefix": "string", "suffix": "string" },
+      "chart": { "chartType": "bar" | "line" | "area" | "pie" | "donut", "categoryColumn": "string", "valueColumn": "string", "aggregation": "string", "dateTruncate": "string", "maxBars": number, "sortBy": "value" | "category" },
+      "pivot": { "rowColumns": ["string"], "colColumns": ["string"], "values": [{ "column": "string", "aggregation": "string" }] }
+    }
+  ]
+}
+
+Include only the config object matching each widget's type, and leave out optional fields you don't need. Return ONLY the JSON object, no markdown.`
+
+  const content = await chatCompletion(
+    provider,
+    [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: `Tables:\n\n${JSON.stringify(schemas, null, 2)}\n\nDashboard: ${prompt}` },
+    ],
+    { temperature: 0.2, maxTokens: 4096 }
+  )
+
+  const reply = parseJsonReply<Partial<GeneratedDashboard>>(content || '{}')
+  if (!Array.isArray(reply.widgets) || reply.widgets.length === 0) {
+    throw new Error('The model did not suggest any widgets')
+  }
+  return { name: reply.name?.trim() || 'Generated Dashboard', widgets: reply.widgets }
+}
@@ -0,0 +1,34 @@
+import { useState, useLayoutEffect, useEffect, type RefObject } from 'react'
+
+// Placement and dismissal for popovers rendered into a portal
+
+/** Fixed position just below an anchor, clamped to the viewport */
+export function useAnchoredPosition(anchorRef: RefObject<HTMLElement | null>, width: number) {
+  const [pos, setPos] = useState<{ top: number; left: number } | null>(null)
+  useLayoutEffect(() => {
+    if (!anchorRef.current) return
+    const rect = anchorRef.current.getBoundingClientRect()
+    let left = rect.left
+    if (left + width > window.innerWidth - 16) left = window.innerWidth - width - 16
+    if (left < 8) left = 8
+    setPos({ top: rect.bottom + 4, left })
+  }, [anchorRef, width])
+  return pos
+}
+
+/** Closes a popover on a click outside it and its anchor */
+export function useOutsideClose(
+  panelRef: RefObject<HTMLElement | null>,
+  anchorRef: RefObject<HTMLElement | null>,
+  onClose: () => void
+) {
+  useEffect(() => {
+    const handler = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node) && anchorRef.current && !anchorRef.current.contains(e.target as Node)) {
+        onClose()
+      }
+    }
+    document.addEventListener('mousedown', handler)
+    return () => document.removeEventListener('mousedown', handler)
+  }, [panelRef, anchorRef, onClose])
+}
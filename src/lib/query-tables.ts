@@ -0,0 +1,333 @@
+import { collection, doc, getDoc, getDocs, updateDoc, deleteField, query, orderBy, serverTimestamp, writeBatch, type DocumentReference } from 'firebase/firestore'
+import { db } from '@/lib/firebase'
+import { fetchCollectionRows } from './document-cache'
+import { createSqlRunner, getQueryTimeout } from './sql-runner'
+import { bindSqlParams, stripSqlLiterals } from './sql-params'
+import type { ColumnConfig, SavedTable } from './types'
+
+// ---- Workbench SQL helpers ----
+
+/** Turn a table name like "User Profiles" into a safe SQL identifier like "user_profiles" */
+function toSqlAlias(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '')
+    .replace(/^(\d)/, '_$1') || 'table'
+}
+
+/** Make aliases unique */
+function uniqueAlias(base: string, existing: string[]): string {
+  if (!existing.includes(base)) return base
+  let i = 2
+  while (existing.includes(`${base}${i}`)) i++
+  return `${base}${i}`
+}
+
+/**
+ * SQL aliases for the Firestore-backed saved tables, as the workbench names
+ * them. Pass tables in the workbench's order (newest update first) so
+ * duplicate names get the same numbered aliases.
+ */
+export function assignTableAliases(savedTables: SavedTable[]): { table: SavedTable; alias: string }[] {
+  const aliases: string[] = []
+  return savedTables
+    .filter((t) => t.projectId !== '__query__')
+    .map((table) => {
+      const alias = uniqueAlias(toSqlAlias(table.tableName), aliases)
+      aliases.push(alias)
+      return { table, alias }
+    })
+}
+
+/** SQL column name for a saved column (aliases may contain spaces etc.) */
+export function toSqlColumn(alias: string): string {
+  return alias.replace(/[^a-zA-Z0-9_]/g, '_')
+}
+
+/** Aliases of the loaded tables mentioned in the SQL (ignoring strings and comments) */
+export function findReferencedAliases(sql: string, aliases: string[]): string[] {
+  const words = new Set(
+    stripSqlLiterals(sql)
+      .toLowerCase()
+      .match(/[a-z_][a-z0-9_]*/g) ?? []
+  )
+  return aliases.filter((a) => words.has(a.toLowerCase()))
+}
+
+/** Coerce string values that look numeric into actual numbers so SQL aggregates work */
+function coerceValue(val: unknown): unknown {
+  if (val === null || val === undefined) return null
+  if (typeof val === 'number') return val
+  if (typeof val === 'boolean') return val
+  if (typeof val === 'string') {
+    const trimmed = val.trim()
+    if (trimmed === '') return val
+    // Check for numeric strings (integers, decimals, negative numbers)
+    if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
+      const num = Number(trimmed)
+      if (!isNaN(num) && isFinite(num)) return num
+    }
+  }
+  return val
+}
+
+/** Project flattened documents onto a saved table's visible columns, named for SQL */
+export function toQueryRows(savedTable: SavedTable, flatRows: Record<string, unknown>[]): Record<string, unknown>[] {
+  const visibleCols = savedTable.columns
+    .filter((c) => c.visible)
+    .sort((a, b) => a.order - b.order)
+
+  return flatRows.map((flat) => {
+    const row: Record<string, unknown> = {}
+    for (const col of visibleCols) {
+      row[toSqlColumn(col.alias)] = coerceValue(flat[col.sourcePath])
+    }
+    return row
+  })
+}
+
+/** Column dataType for a result column, from its first non-null values */
+export function inferColumnType(rows: Record<string, unknown>[], col: string): string {
+  for (const row of rows.slice(0, 10)) {
+    const val = row[col]
+    if (val === null || val === undefined) continue
+    if (typeof val === 'number') return Number.isInteger(val) ? 'integer' : 'double'
+    if (typeof val === 'boolean') return 'boolean'
+    if (typeof val === 'string') {
+      if (/^\d{4}-\d{2}-\d{2}T/.test(val)) return 'timestamp'
+      return 'string'
+    }
+    if (Array.isArray(val)) return 'array'
+    if (typeof val === 'object') return 'map'
+  }
+  return 'unknown'
+}
+
+/**
+ * Column configs for a query result. Columns the table already has keep
+ * their settings (alias, visibility, order); new ones are appended.
+ */
+export function toResultColumns(rows: Record<string, unknown>[], existing: ColumnConfig[] = []): ColumnConfig[] {
+  if (rows.length === 0) return existing
+  let nextOrder = existing.reduce((max, c) => Math.max(max, c.order + 1), 0)
+  return Object.keys(rows[0]).map((col) => {
+    const current = existing.find((c) => c.id === col)
+    if (current) return current
+    return {
+      id: col,
+      sourcePath: col,
+      alias: col,
+      dataType: inferColumnType(rows, col),
+      visible: true,
+      order: nextOrder++,
+    }
+  })
+}
+
+// ---- Chunked rows ----
+
+const CHUNK_MAX_ROWS = 400
+// Firestore documents are capped at 1 MiB; leave room for field encoding
+const CHUNK_MAX_BYTES = 700_000
+
+function chunkRows(rows: Record<string, unknown>[]): Record<string, unknown>[][] {
+  const chunks: Record<string, unknown>[][] = []
+  let current: Record<string, unknown>[] = []
+  let bytes = 0
+  for (const row of rows) {
+    const size = JSON.stringify(row).length
+    if (current.length > 0 && (current.length >= CHUNK_MAX_ROWS || bytes + size > CHUNK_MAX_BYTES)) {
+      chunks.push(current)
+      current = []
+      bytes = 0
+    }
+    current.push(row)
+    bytes += size
+  }
+  if (current.length > 0) chunks.push(current)
+  return chunks
+}
+
+/** Reads rows stored as numbered chunk documents (csvChunks/ or queryChunks/) */
+export async function loadTableChunks(
+  userId: string,
+  tableId: string,
+  subcollection: 'csvChunks' | 'queryChunks'
+): Promise<Record<string, unknown>[]> {
+  if (!db) throw new Error('Firestore not initialised')
+  const chunksSnap = await getDocs(collection(db, 'users', userId, 'tables', tableId, subcollection))
+  const rows: Record<string, unknown>[] = []
+  // Sort by document ID (numeric string) to preserve order
+  const sortedDocs = chunksSnap.docs.sort((a, b) => Number(a.id) - Number(b.id))
+  for (const chunkDoc of sortedDocs) {
+    const chunkData = chunkDoc.data()
+    if (Array.isArray(chunkData.rows)) rows.push(...chunkData.rows)
+  }
+  return rows
+}
+
+// Each save writes a new generation of query chunks (`<generation>_<n>`) and
+// the table document is pointed at it in one write afterwards, so readers see
+// either the old rows or the new ones. The old generation is deleted last.
+
+/** Where a query table's rows are stored */
+export type QueryChunkPointer = Pick<SavedTable, 'queryChunkCount' | 'queryGeneration'>
+
+// Firestore caps a commit at 500 writes and a request at 10 MiB
+const BATCH_MAX_WRITES = 500
+const BATCH_MAX_BYTES = 8_000_000
+
+function queryChunkId(generation: string | undefined, index: number): string {
+  // Tables saved before generations used plain numbered chunks
+  return generation ? `${generation}_${index}` : String(index)
+}
+
+/** Sets (or, without data, deletes) documents in as few batched commits as the limits allow */
+async function commitInBatches(
+  writes: { ref: DocumentReference; data?: Record<string, unknown>; bytes?: number }[]
+): Promise<void> {
+  if (!db) throw new Error('Firestore not initialised')
+  let batch = writeBatch(db)
+  let count = 0
+  let bytes = 0
+  for (const write of writes) {
+    const size = write.bytes ?? 0
+    if (count > 0 && (count >= BATCH_MAX_WRITES || bytes + size > BATCH_MAX_BYTES)) {
+      await batch.commit()
+      batch = writeBatch(db)
+      count = 0
+      bytes = 0
+    }
+    if (write.data) batch.set(write.ref, write.data)
+    else batch.delete(write.ref)
+    count++
+    bytes += size
+  }
+  if (count > 0) await batch.commit()
+}
+
+/** Rows of a query table: its stored chunks, or inline queryData for tables saved before chunking */
+export async function loadQueryTableRows(
+  userId: string,
+  table: Pick<SavedTable, 'id' | 'queryChunkCount' | 'queryGeneration' | 'queryData'>
+): Promise<Record<string, unknown>[]> {
+  if (table.queryChunkCount === undefined) return table.queryData ?? []
+  if (!table.queryGeneration) return loadTableChunks(userId, table.id, 'queryChunks')
+  if (!db) throw new Error('Firestore not initialised')
+
+  const chunksRef = collection(db, 'users', userId, 'tables', table.id, 'queryChunks')
+  const generation = table.queryGeneration
+  const snaps = await Promise.all(
+    Array.from({ length: table.queryChunkCount }, (_, i) => getDoc(doc(chunksRef, queryChunkId(generation, i))))
+  )
+  // A refresh that finished meanwhile has deleted this generation
+  if (snaps.some((s) => !s.exists())) throw new Error('This table was re-run while loading — reload to see the new rows')
+  return snaps.flatMap((s) => (s.data()?.rows as Record<string, unknown>[] | undefined) ?? [])
+}
+
+/**
+ * Writes a query table's rows as a new generation of queryChunks/ documents.
+ * The table keeps reading its previous rows until the returned pointer is
+ * stored on it; an interrupted save only leaves unreferenced chunks behind.
+ */
+export async function saveQueryTableRows(
+  userId: string,
+  tableId: string,
+  rows: Record<string, unknown>[]
+): Promise<Required<QueryChunkPointer>> {
+  if (!db) throw new Error('Firestore not initialised')
+  const chunksRef = collection(db, 'users', userId, 'tables', tableId, 'queryChunks')
+  const queryGeneration = crypto.randomUUID()
+  const chunks = chunkRows(rows)
+  await commitInBatches(
+    chunks.map((slice, i) => ({
+      ref: doc(chunksRef, queryChunkId(queryGeneration, i)),
+      data: { rows: slice },
+      bytes: JSON.stringify(slice).length,
+    }))
+  )
+  return { queryChunkCount: chunks.length, queryGeneration }
+}
+
+/** Deletes the chunks a table pointed at before it was switched to a new generation */
+export async function deleteQueryTableChunks(userId: string, tableId: string, previous: QueryChunkPointer): Promise<void> {
+  if (!db || !previous.queryChunkCount) return
+  const chunksRef = collection(db, 'users', userId, 'tables', tableId, 'queryChunks')
+  await commitInBatches(
+    Array.from({ length: previous.queryChunkCount }, (_, i) => ({ ref: doc(chunksRef, queryChunkId(previous.queryGeneration, i)) }))
+  )
+}
+
+// ---- Refresh ----
+
+export interface QueryTableRefreshResult {
+  rows: Record<string, unknown>[]
+  columns: ColumnConfig[]
+  queryChunkCount: number
+  queryGeneration: string
+  refreshedAt: Date
+}
+
+/**
+ * Re-runs a query table's SQL (with its saved parameter defaults) against
+ * the current contents of its source tables and replaces the stored rows.
+ * Source tables are read whole, through the IndexedDB document cache.
+ */
+export async function refreshQueryTable(
+  accessToken: string,
+  userId: string,
+  table: SavedTable
+): Promise<QueryTableRefreshResult> {
+  if (!db) throw new Error('Firestore not initialised')
+  if (!table.querySql) throw new Error('This table has no SQL to re-run')
+
+  const params = table.queryParams ?? []
+  const { sql, values } = bindSqlParams(
+    table.querySql,
+    params,
+    Object.fromEntries(params.map((p) => [p.name, p.defaultValue]))
+  )
+
+  // Resolve aliases exactly as the workbench does
+  const snap = await getDocs(query(collection(db, 'users', userId, 'tables'), orderBy('updatedAt', 'desc')))
+  const sources = assignTableAliases(snap.docs.map((d) => ({ id: d.id, ...d.data() }) as SavedTable))
+  const aliases = findReferencedAliases(sql, sources.map((s) => s.alias))
+  const referenced = sources.filter((s) => aliases.includes(s.alias))
+  if (referenced.length === 0) throw new Error('None of the tables this query uses exist any more')
+
+  const runner = createSqlRunner()
+  let rows: Record<string, unknown>[]
+  try {
+    await Promise.all(
+      referenced.map(async ({ table: source, alias }) => {
+        const { rows: flatRows } = await fetchCollectionRows(accessToken, source.projectId, source.collectionPath, {
+          userId,
+          isCollectionGroup: source.isCollectionGroup,
+          databaseId: source.databaseId,
+        })
+        runner.registerTable(alias, toQueryRows(source, flatRows))
+      })
+    )
+    const { result } = await runner.run(sql, { timeoutMs: getQueryTimeout(), params: values })
+    if (!Array.isArray(result)) throw new Error('The query no longer returns rows')
+    rows = result
+  } finally {
+    runner.dispose()
+  }
+
+  const columns = toResultColumns(rows, table.columns)
+  const pointer = await saveQueryTableRows(userId, table.id, rows)
+  await updateDoc(doc(db, 'users', userId, 'tables', table.id), {
+    columns,
+    ...pointer,
+    queryRowCount: rows.length,
+    lastRefreshedAt: serverTimestamp(),
+    // Rows now live in queryChunks/
+    queryData: deleteField(),
+  })
+  // Nothing reads the previous generation any more
+  await deleteQueryTableChunks(userId, table.id, table).catch((err) => console.error('Failed to delete old query chunks:', err))
+
+  return { rows, columns, ...pointer, refreshedAt: new Date() }
+}
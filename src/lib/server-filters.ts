@@ -0,0 +1,79 @@
+import { fieldFilter, unaryFilter, andFilters } from './firestore-rest'
+import type { FieldFilterOp, UnaryFilterOp, QueryFilter } from './types'
+
+// ---- Types ----
+
+export interface ServerFilterCondition {
+  id: string
+  field: string
+  op: FieldFilterOp | UnaryFilterOp
+  /** Raw text as typed; parsed by parseFilterInput when the filter is built */
+  value: string
+}
+
+export const SERVER_FILTER_OPERATORS: { value: FieldFilterOp | UnaryFilterOp; label: string }[] = [
+  { value: 'EQUAL', label: '==' },
+  { value: 'NOT_EQUAL', label: '!=' },
+  { value: 'GREATER_THAN', label: '>' },
+  { value: 'GREATER_THAN_OR_EQUAL', label: '>=' },
+  { value: 'LESS_THAN', label: '<' },
+  { value: 'LESS_THAN_OR_EQUAL', label: '<=' },
+  { value: 'IN', label: 'in' },
+  { value: 'NOT_IN', label: 'not in' },
+  { value: 'ARRAY_CONTAINS', label: 'array contains' },
+  { value: 'ARRAY_CONTAINS_ANY', label: 'array contains any' },
+  { value: 'IS_NULL', label: 'is null' },
+  { value: 'IS_NOT_NULL', label: 'is not null' },
+]
+
+const UNARY_OPS = new Set<string>(['IS_NULL', 'IS_NOT_NULL', 'IS_NAN', 'IS_NOT_NAN'])
+const LIST_OPS = new Set<string>(['IN', 'NOT_IN', 'ARRAY_CONTAINS_ANY'])
+
+/** Unary operators take no value */
+export function isUnaryFilterOp(op: string): op is UnaryFilterOp {
+  return UNARY_OPS.has(op)
+}
+
+/** List operators take a comma-separated value */
+export function isListFilterOp(op: string): boolean {
+  return LIST_OPS.has(op)
+}
+
+// ---- Helpers ----
+
+/**
+ * Parses a typed filter value. Numbers, booleans, null and ISO dates are
+ * converted to their native types; wrap a value in double quotes to force
+ * a string (e.g. "123").
+ */
+export function parseFilterInput(raw: string): unknown {
+  const str = raw.trim()
+  if (/^".*"$/.test(str)) return str.slice(1, -1)
+  if (str === 'true') return true
+  if (str === 'false') return false
+  if (str === 'null') return null
+  if (str !== '' && !isNaN(Number(str))) return Number(str)
+  if (/^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(str)) {
+    const date = new Date(str)
+    if (!isNaN(date.getTime())) return date
+  }
+  return str
+}
+
+/** Builds an AND of all complete conditions, or undefined when there are none */
+export function conditionsToQueryFilter(conditions: ServerFilterCondition[]): QueryFilter | undefined {
+  const filters: QueryFilter[] = []
+  for (const c of conditions) {
+    const field = c.field.trim()
+    if (!field) continue
+    if (isUnaryFilterOp(c.op)) {
+      filters.push(unaryFilter(field, c.op))
+    } else if (isListFilterOp(c.op)) {
+      const values = c.value.split(',').map((v) => v.trim()).filter(Boolean).map(parseFilterInput)
+      if (values.length > 0) filters.push(fieldFilter(field, c.op as FieldFilterOp, values))
+    } else {
+      filters.push(fieldFilter(field, c.op as FieldFilterOp, parseFilterInput(c.value)))
+    }
+  }
+  return filters.length > 0 ? andFilters(...filters) : undefined
+}
@@ -0,0 +1,61 @@
+import type { DashboardWidget } from './types'
+import { auth } from './firebase'
+
+// Read-only dashboard links. The builder publishes and changes them through
+// api/share/link, which checks with the owner's Google token that they can
+// read every table the dashboard shows; viewers load them from api/share/snapshot.
+
+/** Public settings of a published link, as stored in sharedDashboards/{shareId} */
+export interface DashboardShareSettings {
+  hasPassword: boolean
+  allowedDomain: string
+}
+
+export interface PublishedShareLink extends DashboardShareSettings {
+  shareId: string
+}
+
+/** Settings to change; a null or empty password removes it */
+export interface ShareLinkChanges {
+  password?: string | null
+  allowedDomain?: string | null
+}
+
+export function shareUrl(shareId: string): string {
+  return `${window.location.origin}/share/${shareId}`
+}
+
+/** IDs of every table the widgets read, as api/share/link checks them */
+export function dashboardTableIds(widgets: DashboardWidget[]): string[] {
+  const ids = new Set<string>()
+  for (const w of widgets) {
+    for (const id of [w.tableId, w.metricConfig?.tableId, w.metricConfig?.target?.tableId, w.chartConfig?.tableId, w.pivotConfig?.tableId]) {
+      if (id) ids.add(id)
+    }
+  }
+  return [...ids].sort()
+}
+
+async function shareLinkRequest<T>(method: 'POST' | 'DELETE', url: string, init: { body?: unknown; googleAccessToken?: string | null } = {}): Promise<T> {
+  const idToken = await auth?.currentUser?.getIdToken()
+  if (!idToken) throw new Error('Sign in to share dashboards')
+  const headers: Record<string, string> = { 'Content-Type': 'application/json', Authorization: `Bearer ${idToken}` }
+  if (init.googleAccessToken) headers['X-Google-Access-Token'] = init.googleAccessToken
+
+  const res = await fetch(url, { method, headers, ...(init.body ? { body: JSON.stringify(init.body) } : {}) })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data.error || `Failed to update the link: ${res.status}`)
+  return data as T
+}
+
+/**
+ * Publishes the dashboard's link, or applies changes to the existing one.
+ * Either way the server re-checks the user can read each of its tables.
+ */
+export function publishShareLink(dashboardId: string, changes: ShareLinkChanges, googleAccessToken: string | null): Promise<PublishedShareLink> {
+  return shareLinkRequest('POST', '/api/share/link', { body: { dashboardId, ...changes }, googleAccessToken })
+}
+
+export async function revokeShareLink(dashboardId: string): Promise<void> {
+  await shareLinkRequest('DELETE', `/api/share/link?dashboardId=${encodeURIComponent(dashboardId)}`)
+}
@@ -0,0 +1,120 @@
+import type { QueryParameter, QueryParameterType } from './types'
+
+// `:name` placeholders in workbench SQL. Before the query runs each one is
+// rewritten to an alasql `?` and its value bound separately, so a value (which
+// may come from a shared link) is never parsed as SQL.
+
+// ---- Parsing ----
+
+// Comments and string literals as alasql's lexer reads them: a backslash
+// escapes the next character and a doubled quote continues the string.
+const SQL_COMMENT_OR_STRING = String.raw`--[^\n]*|'(?:[^'\\]|\\.|'')*'|"(?:[^"\\]|\\.|"")*"`
+
+// Comments and strings are matched (and skipped) so placeholders inside them
+// are left alone; the lookbehind skips `::` casts and `a:b` in identifiers.
+const PARAM_PATTERN = new RegExp(String.raw`${SQL_COMMENT_OR_STRING}|(?<![:\w]):([a-zA-Z_]\w*)`, 'g')
+
+/** The SQL with comments and string literals blanked out, for scanning identifiers */
+export function stripSqlLiterals(sql: string): string {
+  return sql.replace(new RegExp(SQL_COMMENT_OR_STRING, 'g'), ' ')
+}
+
+/** Placeholder names in the SQL, in first-seen order */
+export function findSqlParams(sql: string): string[] {
+  const names: string[] = []
+  for (const m of sql.matchAll(PARAM_PATTERN)) {
+    if (m[1] && !names.includes(m[1])) names.push(m[1])
+  }
+  return names
+}
+
+/**
+ * The column a parameter is compared against, e.g. "created_at" for
+ * `created_at >= :start` — used to guess the parameter's input type.
+ */
+export function findParamColumn(sql: string, name: string): string | null {
+  const col = '([a-zA-Z_][\\w.]*)'
+  const op = '(?:=|<>|!=|<=|>=|<|>|LIKE)'
+  const patterns = [
+    new RegExp(`${col}\\s*${op}\\s*:${name}\\b`, 'i'),
+    new RegExp(`:${name}\\s*${op}\\s*${col}`, 'i'),
+    new RegExp(`${col}\\s+(?:NOT\\s+)?IN\\s*\\(\\s*:${name}\\b`, 'i'),
+    new RegExp(`${col}\\s+BETWEEN\\s+(?::${name}\\b|\\S+\\s+AND\\s+:${name}\\b)`, 'i'),
+  ]
+  for (const re of patterns) {
+    const m = re.exec(sql)
+    if (m) return m[1].split('.').pop() ?? null
+  }
+  return null
+}
+
+/** Input type for a parameter compared against a column of this dataType */
+export function paramTypeForColumn(dataType: string | undefined): QueryParameterType {
+  if (dataType === 'integer' || dataType === 'double') return 'number'
+  if (dataType === 'timestamp') return 'date'
+  return 'text'
+}
+
+// ---- Binding ----
+
+const NUMERIC = /^-?\d+(\.\d+)?$/
+
+/** SQL with `?` in place of each placeholder, and the values to bind in order */
+export interface BoundSql {
+  sql: string
+  values: (string | number)[]
+}
+
+/** The value bound for a parameter, or throws if it doesn't fit the type */
+export function toParamValue(param: Pick<QueryParameter, 'name' | 'type'>, value: string): string | number {
+  const trimmed = value.trim()
+  if (trimmed === '') throw new Error(`Enter a value for :${param.name}`)
+
+  switch (param.type) {
+    case 'number':
+      if (!NUMERIC.test(trimmed)) throw new Error(`:${param.name} must be a number`)
+      return Number(trimmed)
+    case 'date':
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) throw new Error(`:${param.name} must be a date (YYYY-MM-DD)`)
+      return trimmed
+    case 'select':
+      // Column values are loaded with numeric strings coerced to numbers
+      return NUMERIC.test(trimmed) ? Number(trimmed) : value
+    default:
+      return value
+  }
+}
+
+/** Replaces every `:name` placeholder with `?` and collects its value for binding */
+export function bindSqlParams(sql: string, params: QueryParameter[], values: Record<string, string>): BoundSql {
+  const bound: (string | number)[] = []
+  const text = sql.replace(PARAM_PATTERN, (match, name: string | undefined) => {
+    if (!name) return match
+    const param = params.find((p) => p.name === name) ?? { name, type: 'text' as const }
+    bound.push(toParamValue(param, values[name] ?? ''))
+    return '?'
+  })
+  return { sql: text, values: bound }
+}
+
+// ---- URLs ----
+
+// Parameter values travel in the workbench URL as p.<name>=<value>
+const URL_PARAM_PREFIX = 'p.'
+
+/** Parameter values from the workbench URL's search params */
+export function readUrlParamValues(searchParams: URLSearchParams): Record<string, string> {
+  const values: Record<string, string> = {}
+  for (const [key, value] of searchParams) {
+    if (key.startsWith(URL_PARAM_PREFIX)) values[key.slice(URL_PARAM_PREFIX.length)] = value
+  }
+  return values
+}
+
+/** Workbench link that opens (and optionally runs) the SQL with the given parameter values */
+export function buildQueryUrl(sql: string, options?: { autorun?: boolean; params?: QueryParameter[] }): string {
+  const search = new URLSearchParams({ sql })
+  if (options?.autorun) search.set('autorun', 'true')
+  for (const p of options?.params ?? []) search.set(`${URL_PARAM_PREFIX}${p.name}`, p.defaultValue)
+  return `/query?${search.toString()}`
+}
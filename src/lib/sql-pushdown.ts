@@ -0,0 +1,400 @@
+import { fieldFilter, unaryFilter, inFilter, andFilters, orFilters, getInequalityFields, type QueryOrder } from './firestore-rest'
+import type { QueryFilter } from './types'
+
+// Plans which parts of a workbench query can run in Firestore. Only simple
+// single-table queries qualify:
+//
+//   SELECT … FROM <table> [WHERE a AND b …] [GROUP BY …] [ORDER BY col] [LIMIT n]
+//
+// Pushed-down WHERE conditions pre-filter the documents that are downloaded;
+// the full SQL is still run by alasql on the result, so a condition may be
+// pushed as a looser one (e.g. > as >=) as long as it never drops a row the
+// local query would keep. ORDER BY and LIMIT are only pushed when the server
+// returns exactly the rows the local query would. Literals are only pushed when they
+// match the column's detected type, since Firestore never compares values of
+// different types. Numeric conditions also let string values through, since
+// numbers stored as text compare as numbers locally (see allowNumericText).
+
+// ---- Types ----
+
+export interface SqlPushdownColumn {
+  /** Column name as used in SQL */
+  name: string
+  /** Firestore field path */
+  field: string
+  dataType: string
+}
+
+export interface SqlPushdownPlan {
+  alias: string
+  filter?: QueryFilter
+  orderBy?: QueryOrder
+  limit?: number
+  /** SQL fragments evaluated by Firestore */
+  server: string[]
+  /** SQL fragments (or whole clauses) evaluated only by alasql */
+  local: string[]
+}
+
+// ---- Tokenizer ----
+
+type Token =
+  | { kind: 'word'; value: string; text: string }
+  | { kind: 'number'; value: number; text: string }
+  | { kind: 'string'; value: string; text: string }
+  | { kind: 'op'; value: string; text: string }
+
+/** `params` are the values bound to `?` placeholders, which become literal tokens */
+function tokenize(sql: string, params: readonly unknown[]): Token[] | null {
+  const tokens: Token[] = []
+  const re = /\s+|--[^\n]*|'((?:[^'\\]|\\.|'')*)'|(-?\d+(?:\.\d+)?)\b|([a-zA-Z_][\w$]*)|(<>|!=|<=|>=|[=<>(),.*;])|(\?)|(\S)/gy
+  let nextParam = 0
+  let m: RegExpExecArray | null
+  while ((m = re.exec(sql)) !== null) {
+    const [text, str, num, word, op, placeholder, other] = m
+    if (other) return null
+    if (placeholder) {
+      const value = params[nextParam++]
+      if (typeof value === 'number') tokens.push({ kind: 'number', value, text: String(value) })
+      else if (typeof value === 'string') tokens.push({ kind: 'string', value, text: `'${value.replace(/'/g, "''")}'` })
+      else return null
+    } else if (str !== undefined) {
+      // alasql only unescapes quotes; any other backslash stays in the value
+      tokens.push({ kind: 'string', value: str.replace(/\\'|''/g, "'"), text })
+    } else if (num !== undefined) tokens.push({ kind: 'number', value: Number(num), text })
+    else if (word !== undefined) tokens.push({ kind: 'word', value: word.toUpperCase(), text })
+    else if (op !== undefined) tokens.push({ kind: 'op', value: op, text })
+    if (re.lastIndex >= sql.length) break
+  }
+  // Drop a trailing semicolon
+  if (tokens.at(-1)?.value === ';') tokens.pop()
+  return tokens
+}
+
+function isWord(t: Token | undefined, ...words: string[]): boolean {
+  return t?.kind === 'word' && words.includes(t.value)
+}
+
+/** Re-assembles tokens as readable SQL for display */
+function joinTokens(tokens: Token[]): string {
+  let out = ''
+  tokens.forEach((t, i) => {
+    const prev = tokens[i - 1]
+    const tight =
+      i === 0 ||
+      (t.kind === 'op' && [',', ')', '.'].includes(t.value)) ||
+      prev.value === '(' || prev.value === '.' ||
+      (t.value === '(' && prev.kind === 'word' && !isWord(prev, 'IN', 'AND', 'OR', 'NOT'))
+    out += (tight ? '' : ' ') + t.text
+  })
+  return out
+}
+
+/** Splits top-level tokens (outside parentheses) into clauses by keyword */
+function splitClauses(tokens: Token[]) {
+  const clauses: Record<string, Token[]> = {}
+  let current = ''
+  let depth = 0
+  for (let i = 0; i < tokens.length; i++) {
+    const t = tokens[i]
+    if (t.value === '(') depth++
+    if (t.value === ')') depth--
+    if (depth === 0 && t.kind === 'word') {
+      const next = tokens[i + 1]
+      let clause: string | null = null
+      if (['SELECT', 'FROM', 'WHERE', 'HAVING', 'LIMIT', 'OFFSET', 'JOIN', 'UNION', 'EXCEPT', 'INTERSECT'].includes(t.value)) {
+        clause = t.value
+      } else if (isWord(t, 'GROUP', 'ORDER') && isWord(next, 'BY')) {
+        clause = `${t.value} BY`
+        i++
+      }
+      if (clause) {
+        if (clause in clauses) return null
+        clauses[clause] = []
+        current = clause
+        continue
+      }
+    }
+    if (!current) return null
+    clauses[current].push(t)
+  }
+  return depth === 0 ? clauses : null
+}
+
+// ---- Conditions ----
+
+const NUMERIC_TYPES = new Set(['integer', 'double'])
+
+interface PushedCondition {
+  /** Field the condition tests; documents without it never match */
+  field: string
+  filters: QueryFilter[]
+  /** False when the server condition is looser than the SQL one */
+  exact: boolean
+}
+
+/**
+ * Converts a SQL literal into the value stored in Firestore for a column.
+ * Mirrors the workbench's coercion: numeric-looking strings become numbers
+ * locally, so they can't be compared against string fields server-side.
+ */
+function literalFor(token: Token, col: SqlPushdownColumn): { value: unknown; exact: boolean } | null {
+  if (NUMERIC_TYPES.has(col.dataType)) {
+    return token.kind === 'number' ? { value: token.value, exact: true } : null
+  }
+  if (col.dataType === 'boolean') {
+    return isWord(token, 'TRUE', 'FALSE') ? { value: token.value === 'TRUE', exact: true } : null
+  }
+  if (col.dataType === 'string') {
+    if (token.kind !== 'string' || /^-?\d+(\.\d+)?$/.test(token.value.trim())) return null
+    return { value: token.value, exact: true }
+  }
+  if (col.dataType === 'timestamp') {
+    // Locally timestamps compare as ISO strings; the server compares instants.
+    // Those orders agree for UTC values like the ones Firestore returns (up to
+    // fractional seconds, see widenTimestamp). Zone-less literals would parse
+    // in the browser's time zone and other offsets sort differently as
+    // strings, so only dates and UTC date-times are pushed.
+    if (token.kind !== 'string' || !UTC_ISO_LITERAL.test(token.value)) return null
+    const date = new Date(token.value)
+    return isNaN(date.getTime()) ? null : { value: date, exact: false }
+  }
+  return null
+}
+
+// yyyy-mm-dd, which JavaScript parses as UTC midnight, or a date-time ending in Z / +00:00
+const UTC_ISO_LITERAL = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]00:00))?$/
+
+/**
+ * Moves a pushed timestamp bound out by a second. As strings, "10:00:00Z"
+ * and "10:00:00.5Z" sort the opposite way to the instants they name, so a
+ * bound within the same second could drop a row alasql keeps.
+ */
+function widenTimestamp(value: unknown, direction: 'lower' | 'upper'): unknown {
+  if (!(value instanceof Date)) return value
+  return new Date(value.getTime() + (direction === 'lower' ? -1000 : 1000))
+}
+
+/**
+ * A column's type is detected from a sample, so some documents may store its
+ * numbers as text. alasql compares those as numbers, but a numeric Firestore
+ * filter never matches a string, so a pushed numeric condition also admits
+ * every string value and is left for alasql to re-check.
+ */
+function allowNumericText(condition: PushedCondition, col: SqlPushdownColumn): PushedCondition {
+  if (!NUMERIC_TYPES.has(col.dataType)) return condition
+  const numeric = condition.filters.length === 1 ? condition.filters[0] : andFilters(...condition.filters)
+  return {
+    field: condition.field,
+    filters: [orFilters(numeric, fieldFilter(condition.field, 'GREATER_THAN_OR_EQUAL', ''))],
+    exact: false,
+  }
+}
+
+const COMPARISONS: Record<string, { op: 'EQUAL' | 'GREATER_THAN_OR_EQUAL' | 'LESS_THAN_OR_EQUAL' | 'GREATER_THAN' | 'LESS_THAN'; flipped: string }> = {
+  '=': { op: 'EQUAL', flipped: '=' },
+  '>': { op: 'GREATER_THAN', flipped: '<' },
+  '>=': { op: 'GREATER_THAN_OR_EQUAL', flipped: '<=' },
+  '<': { op: 'LESS_THAN', flipped: '>' },
+  '<=': { op: 'LESS_THAN_OR_EQUAL', flipped: '>=' },
+}
+
+function planCondition(
+  tokens: Token[],
+  resolveColumn: (tokens: Token[]) => { col: SqlPushdownColumn; length: number } | null
+): PushedCondition | null {
+  // literal op column → column op' literal
+  if (tokens.length >= 3 && tokens[0].kind !== 'word' && tokens[1].value in COMPARISONS) {
+    const flipped = COMPARISONS[tokens[1].value].flipped
+    return planCondition([...tokens.slice(2), { kind: 'op', value: flipped, text: flipped }, tokens[0]], resolveColumn)
+  }
+
+  const resolved = resolveColumn(tokens)
+  if (!resolved) return null
+  const { col } = resolved
+  const rest = tokens.slice(resolved.length)
+
+  // col IS NOT NULL — Firestore also skips documents missing the field, as SQL does
+  if (rest.length === 3 && isWord(rest[0], 'IS') && isWord(rest[1], 'NOT') && isWord(rest[2], 'NULL')) {
+    return { field: col.field, filters: [unaryFilter(col.field, 'IS_NOT_NULL')], exact: true }
+  }
+
+  // col op literal
+  if (rest.length === 2 && rest[0].value in COMPARISONS) {
+    const literal = literalFor(rest[1], col)
+    if (!literal) return null
+    let { op } = COMPARISONS[rest[0].value]
+    let value = literal.value
+    if (!literal.exact) {
+      if (op === 'EQUAL') return null
+      // Loosen strict bounds so the server never drops a row alasql would keep
+      if (op === 'GREATER_THAN') op = 'GREATER_THAN_OR_EQUAL'
+      if (op === 'LESS_THAN') op = 'LESS_THAN_OR_EQUAL'
+      value = widenTimestamp(value, op === 'GREATER_THAN_OR_EQUAL' ? 'lower' : 'upper')
+    }
+    return allowNumericText({ field: col.field, filters: [fieldFilter(col.field, op, value)], exact: literal.exact }, col)
+  }
+
+  // col BETWEEN a AND b
+  if (rest.length === 4 && isWord(rest[0], 'BETWEEN') && isWord(rest[2], 'AND')) {
+    const lo = literalFor(rest[1], col)
+    const hi = literalFor(rest[3], col)
+    if (!lo || !hi) return null
+    return allowNumericText({
+      field: col.field,
+      filters: [
+        fieldFilter(col.field, 'GREATER_THAN_OR_EQUAL', lo.exact ? lo.value : widenTimestamp(lo.value, 'lower')),
+        fieldFilter(col.field, 'LESS_THAN_OR_EQUAL', hi.exact ? hi.value : widenTimestamp(hi.value, 'upper')),
+      ],
+      exact: lo.exact && hi.exact,
+    }, col)
+  }
+
+  // col IN (a, b, …) — Firestore allows up to 30 values
+  if (isWord(rest[0], 'IN') && rest[1]?.value === '(' && rest.at(-1)?.value === ')') {
+    const items = rest.slice(2, -1)
+    const values: unknown[] = []
+    for (let i = 0; i < items.length; i += 2) {
+      const literal = literalFor(items[i], col)
+      if (!literal?.exact) return null
+      if (i + 1 < items.length && items[i + 1].value !== ',') return null
+      values.push(literal.value)
+    }
+    if (values.length === 0 || values.length > 30) return null
+    return allowNumericText({ field: col.field, filters: [inFilter(col.field, values)], exact: true }, col)
+  }
+
+  return null
+}
+
+/** Splits a WHERE clause on top-level ANDs (keeping BETWEEN … AND … together) */
+function splitConjuncts(tokens: Token[]): Token[][] | null {
+  const parts: Token[][] = [[]]
+  let depth = 0
+  let inBetween = false
+  for (const t of tokens) {
+    if (t.value === '(') depth++
+    if (t.value === ')') depth--
+    if (depth === 0 && isWord(t, 'OR')) return null
+    if (depth === 0 && isWord(t, 'BETWEEN')) inBetween = true
+    else if (depth === 0 && isWord(t, 'AND')) {
+      if (inBetween) inBetween = false
+      else {
+        parts.push([])
+        continue
+      }
+    }
+    parts[parts.length - 1].push(t)
+  }
+  return parts.every((p) => p.length > 0) ? parts : null
+}
+
+// ---- Planner ----
+
+/**
+ * Returns a plan when the SQL reads from exactly one of `tables` and at least
+ * one clause can run server-side; otherwise null and the query runs as before.
+ */
+export function planSqlPushdown(
+  sql: string,
+  tables: { alias: string; columns: SqlPushdownColumn[] }[],
+  params: readonly unknown[] = []
+): SqlPushdownPlan | null {
+  const tokens = tokenize(sql, params)
+  if (!tokens || !isWord(tokens[0], 'SELECT')) return null
+  const clauses = splitClauses(tokens)
+  if (!clauses || !clauses.FROM || clauses.JOIN || clauses.UNION || clauses.EXCEPT || clauses.INTERSECT) return null
+
+  // FROM <alias> [[AS] name]
+  const from = clauses.FROM
+  const table = from[0]?.kind === 'word' ? tables.find((t) => t.alias.toUpperCase() === from[0].value) : undefined
+  if (!table) return null
+  const rangeName = isWord(from[1], 'AS') ? from[2] : from[1]
+  if (from.length > (isWord(from[1], 'AS') ? 3 : 2) || (rangeName && rangeName.kind !== 'word')) return null
+  const qualifiers = new Set([table.alias.toUpperCase(), ...(rangeName ? [rangeName.value] : [])])
+
+  const resolveColumn = (ts: Token[]) => {
+    let length = 1
+    let nameToken = ts[0]
+    if (ts[1]?.value === '.' && ts[0]?.kind === 'word' && qualifiers.has(ts[0].value)) {
+      nameToken = ts[2]
+      length = 3
+    }
+    if (nameToken?.kind !== 'word') return null
+    const col = table.columns.find((c) => c.name === nameToken.text)
+    return col ? { col, length } : null
+  }
+
+  const plan: SqlPushdownPlan = { alias: table.alias, server: [], local: [] }
+  const pushed: QueryFilter[] = []
+  // Fields every returned document has, because a pushed condition tests them
+  const presentFields = new Set<string>()
+  let allExact = true
+
+  if (clauses.WHERE) {
+    const conjuncts = splitConjuncts(clauses.WHERE)
+    if (!conjuncts) {
+      allExact = false
+      plan.local.push(`WHERE ${joinTokens(clauses.WHERE)}`)
+    } else {
+      for (const part of conjuncts) {
+        const condition = planCondition(part, resolveColumn)
+        const text = joinTokens(part)
+        if (condition) {
+          pushed.push(...condition.filters)
+          presentFields.add(condition.field)
+          plan.server.push(condition.exact ? text : `${text} (pre-filter, re-checked locally)`)
+          if (!condition.exact) allExact = false
+        } else {
+          allExact = false
+          plan.local.push(text)
+        }
+      }
+    }
+  }
+  if (pushed.length > 0) plan.filter = pushed.length === 1 ? pushed[0] : andFilters(...pushed)
+
+  // LIMIT (with ORDER BY) can only move when the server sees exactly the rows
+  // alasql would, and nothing between WHERE and LIMIT changes the row count.
+  const selectList = clauses.SELECT ?? []
+  const simpleSelect = !selectList.some((t) => t.value === '(' || isWord(t, 'DISTINCT'))
+  const limitTokens = clauses.LIMIT
+  const limit = limitTokens?.length === 1 && limitTokens[0].kind === 'number' ? limitTokens[0].value : undefined
+
+  let orderBy: QueryOrder | undefined
+  let orderPushable = !clauses['ORDER BY']
+  if (clauses['ORDER BY']) {
+    const ob = clauses['ORDER BY']
+    const resolved = resolveColumn(ob)
+    const dirToken = resolved ? ob[resolved.length] : undefined
+    if (resolved && ob.length <= resolved.length + 1 && (!dirToken || isWord(dirToken, 'ASC', 'DESC'))) {
+      orderBy = { field: resolved.col.field, direction: isWord(dirToken, 'DESC') ? 'DESCENDING' : 'ASCENDING' }
+      // Firestore can't sort by one field while range-filtering another without extra rules
+      const inequalities = pushed.flatMap((f) => getInequalityFields(f))
+      // Ordering by a field also drops documents without it, which alasql keeps
+      // (sorted as nulls); that's only harmless when a pushed filter drops them anyway
+      orderPushable = presentFields.has(orderBy.field) && inequalities.every((f) => f === orderBy!.field)
+    }
+  }
+
+  if (
+    limit !== undefined && Number.isInteger(limit) && limit > 0 &&
+    allExact && simpleSelect && orderPushable &&
+    !clauses['GROUP BY'] && !clauses.HAVING && !clauses.OFFSET
+  ) {
+    plan.limit = limit
+    if (orderBy) {
+      plan.orderBy = orderBy
+      plan.server.push(`ORDER BY ${joinTokens(clauses['ORDER BY'])}`)
+    }
+    plan.server.push(`LIMIT ${limit}`)
+  } else {
+    if (clauses['GROUP BY']) plan.local.push(`GROUP BY ${joinTokens(clauses['GROUP BY'])}`)
+    if (clauses.HAVING) plan.local.push(`HAVING ${joinTokens(clauses.HAVING)}`)
+    if (clauses['ORDER BY']) plan.local.push(`ORDER BY ${joinTokens(clauses['ORDER BY'])}`)
+    if (limitTokens) plan.local.push(`LIMIT ${joinTokens(limitTokens)}`)
+  }
+  if (clauses.OFFSET) plan.local.push(`OFFSET ${joinTokens(clauses.OFFSET)}`)
+
+  return plan.server.length > 0 ? plan : null
+}
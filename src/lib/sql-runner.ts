@@ -0,0 +1,149 @@
+// ---- Worker protocol ----
+
+export type SqlWorkerRequest =
+  | { type: 'register'; alias: string; data: Record<string, unknown>[] }
+  | { type: 'unregister'; alias: string }
+  | { type: 'run'; id: number; sql: string; params?: unknown[] }
+
+export type SqlWorkerResponse =
+  | { type: 'result'; id: number; result: unknown; executionTime: number }
+  | { type: 'error'; id: number; message: string; executionTime: number }
+
+// ---- Timeout setting ----
+
+const QUERY_TIMEOUT_KEY = 'firegrid_query_timeout'
+
+export const QUERY_TIMEOUT_OPTIONS: { value: number; label: string }[] = [
+  { value: 10_000, label: '10s' },
+  { value: 30_000, label: '30s' },
+  { value: 60_000, label: '1m' },
+  { value: 300_000, label: '5m' },
+  { value: 0, label: 'No limit' },
+]
+
+const DEFAULT_QUERY_TIMEOUT = 60_000
+
+/** Query timeout in ms; 0 means no limit */
+export function getQueryTimeout(): number {
+  try {
+    const stored = localStorage.getItem(QUERY_TIMEOUT_KEY)
+    if (stored !== null && !isNaN(Number(stored))) return Number(stored)
+  } catch {
+    // localStorage unavailable
+  }
+  return DEFAULT_QUERY_TIMEOUT
+}
+
+export function setQueryTimeout(ms: number) {
+  try {
+    localStorage.setItem(QUERY_TIMEOUT_KEY, String(ms))
+  } catch {
+    // localStorage unavailable
+  }
+}
+
+// ---- Runner ----
+
+export interface SqlRunResult {
+  result: unknown
+  executionTime: number
+}
+
+/**
+ * Runs alasql in a Web Worker so heavy queries don't freeze the page.
+ *
+ * Tables are registered by alias and kept in sync with the worker; a
+ * registration is only re-sent when its data array changes. Cancelling (or
+ * timing out) terminates the worker — alasql can't be interrupted — and the
+ * next query starts a fresh one with every table re-registered.
+ */
+export function createSqlRunner() {
+  const tables = new Map<string, Record<string, unknown>[]>()
+  let worker: Worker | null = null
+  let nextId = 1
+  let pending: {
+    id: number
+    resolve: (r: SqlRunResult) => void
+    reject: (err: Error) => void
+    timer?: ReturnType<typeof setTimeout>
+  } | null = null
+
+  const post = (msg: SqlWorkerRequest) => worker?.postMessage(msg)
+
+  const getWorker = () => {
+    if (worker) return worker
+    worker = new Worker(new URL('./sql-worker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (e: MessageEvent<SqlWorkerResponse>) => {
+      const msg = e.data
+      if (!pending || pending.id !== msg.id) return
+      const { resolve, reject, timer } = pending
+      pending = null
+      clearTimeout(timer)
+      if (msg.type === 'result') resolve({ result: msg.result, executionTime: msg.executionTime })
+      else reject(new Error(msg.message))
+    }
+    worker.onerror = (e) => {
+      if (!pending) return
+      const { reject, timer } = pending
+      pending = null
+      clearTimeout(timer)
+      reject(new Error(e.message || 'Query worker crashed'))
+    }
+    for (const [alias, data] of tables) post({ type: 'register', alias, data })
+    return worker
+  }
+
+  const terminate = (reason?: Error) => {
+    worker?.terminate()
+    worker = null
+    if (pending) {
+      clearTimeout(pending.timer)
+      pending.reject(reason ?? new Error('Query cancelled'))
+      pending = null
+    }
+  }
+
+  return {
+    /** Registers (or replaces) a table under an alias, like alasql.tables[alias] = { data } */
+    registerTable(alias: string, data: Record<string, unknown>[]) {
+      if (tables.get(alias) === data) return
+      tables.set(alias, data)
+      post({ type: 'register', alias, data })
+    },
+
+    unregisterTable(alias: string) {
+      if (!tables.delete(alias)) return
+      post({ type: 'unregister', alias })
+    },
+
+    /** Runs one query at a time; a new run cancels the previous one. `params` binds `?` placeholders */
+    run(sql: string, options?: { timeoutMs?: number; params?: unknown[] }): Promise<SqlRunResult> {
+      if (pending) terminate()
+      const w = getWorker()
+      const id = nextId++
+      return new Promise<SqlRunResult>((resolve, reject) => {
+        pending = { id, resolve, reject }
+        const timeoutMs = options?.timeoutMs ?? 0
+        if (timeoutMs > 0) {
+          pending.timer = setTimeout(() => {
+            const seconds = Math.round(timeoutMs / 1000)
+            terminate(new Error(`Query timed out after ${seconds}s`))
+          }, timeoutMs)
+        }
+        w.postMessage({ type: 'run', id, sql, params: options?.params } satisfies SqlWorkerRequest)
+      })
+    },
+
+    /** Stops the running query, if any */
+    cancel() {
+      if (pending) terminate()
+    },
+
+    dispose() {
+      terminate()
+      tables.clear()
+    },
+  }
+}
+
+export type SqlRunner = ReturnType<typeof createSqlRunner>
@@ -0,0 +1,36 @@
+import alasql from 'alasql'
+import type { SqlWorkerRequest, SqlWorkerResponse } from './sql-runner'
+
+// Runs alasql off the main thread. Loaded tables are registered the same way
+// the workbench always has — alasql.tables[alias] = { data } — just here.
+
+const ctx = self as unknown as Worker
+
+ctx.onmessage = (e: MessageEvent<SqlWorkerRequest>) => {
+  const msg = e.data
+  switch (msg.type) {
+    case 'register':
+      alasql.tables[msg.alias] = { data: msg.data }
+      break
+    case 'unregister':
+      delete alasql.tables[msg.alias]
+      break
+    case 'run': {
+      const start = performance.now()
+      let response: SqlWorkerResponse
+      try {
+        const result = alasql(msg.sql, msg.params)
+        response = { type: 'result', id: msg.id, result, executionTime: performance.now() - start }
+      } catch (err) {
+        response = {
+          type: 'error',
+          id: msg.id,
+          message: err instanceof Error ? err.message : 'Query failed',
+          executionTime: performance.now() - start,
+        }
+      }
+      ctx.postMessage(response)
+      break
+    }
+  }
+}
@@ -14,6 +14,14 @@ export interface GCPProject {
   projectNumber: string
 }
 
+export interface FirestoreDatabase {
+  /** "(default)" or the named database ID */
+  databaseId: string
+  locationId: string
+  /** FIRESTORE_NATIVE or DATASTORE_MODE */
+  type: string
+}
+
 // ---- Firestore Schema ----
 export interface FieldInfo {
   path: string
@@ -53,12 +61,75 @@ export interface SavedTable {
   projectId: string
   collectionPath: string
   isCollectionGroup?: boolean
+  /** Named Firestore database; undefined means "(default)" */
+  databaseId?: string
   columns: ColumnConfig[]
   createdAt: Date
   updatedAt: Date
   // For query-based tables (projectId === '__query__')
   querySql?: string
   queryData?: Record<string, unknown>[]
+  /** Types and default values for `:name` placeholders in querySql */
+  queryParams?: QueryParameter[]
+  /** Result rows are stored in this many documents under queryChunks/; older tables inline queryData instead */
+  queryChunkCount?: number
+  /** Prefix of the current queryChunks/ documents; unset for tables whose chunks are plain numbers */
+  queryGeneration?: string
+  queryRowCount?: number
+  /** When querySql last ran to produce the stored rows */
+  lastRefreshedAt?: Date
+  /** Re-run querySql against the source tables whenever the table is opened */
+  refreshOnOpen?: boolean
+}
+
+// ---- Query Parameters ----
+export type QueryParameterType = 'text' | 'number' | 'date' | 'select'
+
+/** A `:name` placeholder in workbench SQL */
+export interface QueryParameter {
+  name: string
+  type: QueryParameterType
+  /** Value used when the query is opened; stored as typed */
+  defaultValue: string
+  /** For 'select': the "table.column" whose distinct values are offered */
+  sourceColumn?: string
+}
+
+// ---- Query Filters ----
+/** Binary operators accepted by a structuredQuery fieldFilter */
+export type FieldFilterOp =
+  | 'EQUAL'
+  | 'NOT_EQUAL'
+  | 'LESS_THAN'
+  | 'LESS_THAN_OR_EQUAL'
+  | 'GREATER_THAN'
+  | 'GREATER_THAN_OR_EQUAL'
+  | 'ARRAY_CONTAINS'
+  | 'ARRAY_CONTAINS_ANY'
+  | 'IN'
+  | 'NOT_IN'
+
+/** Operators accepted by a structuredQuery unaryFilter */
+export type UnaryFilterOp = 'IS_NULL' | 'IS_NOT_NULL' | 'IS_NAN' | 'IS_NOT_NAN'
+
+/**
+ * A server-side filter, pushed down to Firestore as a structuredQuery `where`.
+ * `field` is a dot-separated path matching the flattened column keys.
+ */
+export type QueryFilter =
+  | { kind: 'field'; field: string; op: FieldFilterOp; value: unknown }
+  | { kind: 'unary'; field: string; op: UnaryFilterOp }
+  | { kind: 'composite'; op: 'AND' | 'OR'; filters: QueryFilter[] }
+
+// ---- Aggregation Queries ----
+export type AggregationOp = 'COUNT' | 'SUM' | 'AVG'
+
+export interface AggregationSpec {
+  /** Key the result is returned under */
+  alias: string
+  op: AggregationOp
+  /** Dot-separated field to sum / average; ignored for COUNT */
+  field?: string
 }
 
 // ---- Lightspeed POS Integration ----
@@ -172,3 +243,293 @@ export interface FirestoreDocument {
   createTime?: string
   updateTime?: string
 }
+
+// ---- Dashboards ----
+export type WidgetType = 'table' | 'heading' | 'text' | 'divider' | 'metric' | 'chart' | 'pivot'
+
+export type AggregationType = 'none' | 'count' | 'sum' | 'average' | 'min' | 'max' | 'count_distinct'
+
+export type FilterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'is_empty'
+  | 'is_not_empty'
+
+export interface WidgetFilter {
+  id: string
+  column: string
+  operator: FilterOperator
+  value: string
+}
+
+export type AlertOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq'
+
+export type AlertWindow = '1h' | '2h' | '6h' | '24h' | 'today' | '7d' | '30d'
+
+/** A threshold on a metric or chart widget's value, e.g. "refunds today > 500" */
+export interface AlertRule {
+  id: string
+  name: string
+  operator: AlertOperator
+  threshold: number
+  window?: AlertWindow     // only rows dated this recently; default is the widget's own timeframe
+  category?: string        // charts: one category's value instead of the whole chart's
+  scheduled?: boolean      // also checked on a schedule by api/alerts/evaluate
+}
+
+/** A rule starting or stopping to fire, kept as the dashboard's alert history */
+export interface AlertEvent {
+  id: string
+  widgetId: string
+  ruleId: string
+  ruleName: string
+  state: 'triggered' | 'resolved'
+  value: number | null
+  operator: AlertOperator
+  threshold: number
+  source: 'dashboard' | 'schedule'
+  firedAt: Date
+}
+
+export type MetricLayout = 'centered' | 'left' | 'minimal'
+
+export type MetricValueSize = 'sm' | 'md' | 'lg' | 'xl'
+
+export type MetricComparison = 'previous_period' | 'previous_year' | 'custom'
+
+export type MetricTargetDisplay = 'bar' | 'gauge' | 'bullet'
+
+export interface MetricTarget {
+  value?: number           // fixed target
+  tableId?: string         // or the sum of a column in another saved table
+  column?: string
+  dateColumn?: string      // only target rows dated in the metric's period count
+  display?: MetricTargetDisplay  // 'bar' (default), 'gauge', 'bullet'
+}
+
+export interface MetricConfig {
+  tableId: string
+  aggregation: AggregationType
+  column: string           // column sourcePath to aggregate (ignored for 'count')
+  dateColumn?: string      // optional date column for time filtering
+  timeframe?: 'all' | '7d' | '30d' | '90d' | 'this_month' | 'this_year'
+  comparison?: MetricComparison  // period to show the change against (needs dateColumn)
+  compareFrom?: string     // YYYY-MM-DD, custom comparison only
+  compareTo?: string
+  higherIsBetter?: boolean // default true; colours the change and target progress
+  sparkline?: boolean      // trend of the value across the timeframe (needs dateColumn)
+  target?: MetricTarget
+  alerts?: AlertRule[]
+  prefix?: string          // e.g. "$"
+  suffix?: string          // e.g. "%"
+  label: string            // display name
+  // Display options
+  layout?: MetricLayout      // 'centered' (default), 'left', 'minimal'
+  titleSize?: MetricValueSize  // 'sm', 'md' (default), 'lg', 'xl'
+  valueSize?: MetricValueSize // 'sm', 'md' (default), 'lg', 'xl'
+  showLabel?: boolean         // default true
+  colour?: string             // value colour
+}
+
+export type DateTruncation = 'none' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year'
+
+export type ChartType = 'bar' | 'line' | 'area' | 'pie' | 'donut' | 'scatter'
+
+/** An extra value plotted per category alongside the chart's main one */
+export interface ChartValueSeries {
+  id: string
+  valueColumn: string       // ignored for count
+  aggregation: AggregationType
+  label?: string            // legend name, defaults to e.g. "Sum of amount"
+  display?: 'bar' | 'line' | 'area' // defaults to 'line'
+  axis?: 'left' | 'right'   // 'right' plots on a secondary Y axis
+  colour?: string
+}
+
+export interface ChartConfig {
+  chartType?: ChartType     // defaults to 'bar'
+  tableId: string
+  categoryColumn: string    // X-axis — group by this column (scatter: numeric X column)
+  valueColumn: string       // Y-axis — column to aggregate (ignored for count; scatter: numeric Y column)
+  aggregation: AggregationType
+  seriesColumn?: string     // split values into one series per value of this column (not pie/donut)
+  stacked?: boolean         // bar/area with series: stack instead of grouping / overlapping
+  valueSeries?: ChartValueSeries[] // more values per category (not pie/donut; replaces seriesColumn)
+  sizeColumn?: string       // scatter: numeric column sizing each point (bubble chart)
+  colourColumn?: string     // scatter: colour points by this column's values
+  trendline?: boolean       // scatter: draw a least-squares line
+  maxPoints?: number        // scatter: sample down to this many rows, default 1000
+  dateColumn?: string
+  timeframe?: 'all' | '7d' | '30d' | '90d' | 'this_month' | 'this_year'
+  dateTruncate?: DateTruncation  // truncate category dates for grouping
+  label: string
+  maxBars?: number          // limit to top N data points
+  sortBy?: 'value' | 'category' // how to sort data
+  colour?: string           // chart colour hex
+  alerts?: AlertRule[]      // not scatter
+}
+
+export type ElementFontSize = 'xs' | 'sm' | 'base' | 'lg' | 'xl' | '2xl' | '3xl'
+
+export type ElementAlign = 'left' | 'center' | 'right'
+
+export interface ElementConfig {
+  fontSize?: ElementFontSize
+  fontWeight?: 'normal' | 'medium' | 'semibold' | 'bold'
+  align?: ElementAlign
+  colour?: string
+}
+
+export interface PivotValueConfig {
+  id: string
+  column: string
+  aggregation: AggregationType
+  label?: string
+}
+
+export type ValuesPlacement = 'columns' | 'rows'
+
+export interface PivotColumnFilter {
+  excludeNulls?: boolean
+  excludeBlanks?: boolean
+  excludeValues?: string[]   // stringified values to exclude
+}
+
+export interface PivotConfig {
+  tableId: string
+  rowColumns: string[]      // field(s) for row grouping
+  colColumns: string[]      // field(s) for column grouping
+  values: PivotValueConfig[]
+  valuesPlacement?: ValuesPlacement  // where multiple values appear: as columns (default) or rows
+  rowColumnLabels?: Record<string, string>  // display labels for row columns
+  columnTruncations?: Record<string, DateTruncation>  // date truncation per column
+  columnFilters?: Record<string, PivotColumnFilter>   // column-level filters
+}
+
+export type CondFormatOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq' | 'contains' | 'not_contains' | 'is_empty' | 'is_not_empty' | 'between'
+
+export type CondFormatTarget = 'cell' | 'row'
+
+export type CondFormatStyle = 'bg' | 'text' | 'bold' | 'italic'
+
+export interface ConditionalFormatRule {
+  id: string
+  column: string                 // column key / sourcePath to evaluate
+  operator: CondFormatOperator
+  value: string                  // comparison value (empty for is_empty/is_not_empty)
+  value2?: string                // second value for 'between'
+  style: CondFormatStyle         // what to apply
+  colour: string                 // hex colour for bg/text styles
+  target: CondFormatTarget       // apply to cell or whole row
+  enabled: boolean
+}
+
+export type ColFormatType = 'auto' | 'number' | 'currency' | 'percent' | 'date' | 'datetime' | 'text'
+
+export interface ColumnFormat {
+  type: ColFormatType
+  decimals?: number          // decimal places for number/currency/percent (default 2)
+  currency?: string          // currency code e.g. "USD", "AUD", "EUR"
+  dateFormat?: string        // 'short' | 'medium' | 'long' | 'iso'
+  thousandSep?: boolean      // use thousand separators (default true)
+  prefix?: string            // custom prefix e.g. "$"
+  suffix?: string            // custom suffix e.g. "%"
+}
+
+export interface CustomColumn {
+  id: string
+  name: string              // display name
+  formula: string           // expression e.g. "[Revenue] - [Cost]"
+  formatPrefix?: string     // e.g. "$"
+  formatSuffix?: string     // e.g. "%"
+}
+
+export interface DashboardWidget {
+  i: string
+  type: WidgetType
+  // Table-specific
+  tableId: string
+  tableName: string
+  displayName?: string                        // user-set override for widget title
+  columnAliases?: Record<string, string>      // per-widget column header overrides
+  hiddenColumns?: string[]                    // sourcePaths of columns hidden on this widget
+  customColumns?: CustomColumn[]              // calculated formula columns
+  columnOrder?: string[]                      // ordered list of column keys (source + custom)
+  // Element-specific
+  content?: string
+  elementConfig?: ElementConfig
+  // Metric-specific
+  metricConfig?: MetricConfig
+  // Chart-specific
+  chartConfig?: ChartConfig
+  // Pivot-specific
+  pivotConfig?: PivotConfig
+  // Column formatting
+  columnFormats?: Record<string, ColumnFormat>    // column key → display format
+  // Conditional formatting
+  conditionalFormats?: ConditionalFormatRule[]
+  // Filters
+  filters?: WidgetFilter[]
+  // Layout
+  x: number
+  y: number
+  w: number
+  h: number
+  minW?: number
+  minH?: number
+}
+
+export type DashboardFilterType = 'date_range' | 'select' | 'multi_select' | 'text'
+
+export type DashboardDatePreset = 'all' | '7d' | '30d' | '90d' | 'this_month' | 'this_year' | 'custom'
+
+/** A filter bar control that applies to every widget at once */
+export interface DashboardFilter {
+  id: string
+  label: string
+  type: DashboardFilterType
+  columns: Record<string, string>  // table id → column it filters; widgets on other tables ignore it
+  // Current value, saved with the dashboard
+  values?: string[]               // select / multi_select: matching values
+  text?: string                   // text: case-insensitive "contains"
+  datePreset?: DashboardDatePreset // date_range: defaults to 'all'
+  from?: string                   // date_range custom: yyyy-mm-dd, inclusive
+  to?: string
+}
+
+/** A category picked by clicking a chart segment or pivot cell; filters the other widgets until cleared */
+export interface CrossFilter {
+  sourceWidgetId: string
+  tableId: string
+  column: string
+  value: string                  // category key, as the source widget groups rows
+  keyKind: 'chart' | 'pivot'     // which grouping produced the key
+  dateTruncate?: DateTruncation
+  label: string                  // shown on the selection chip
+}
+
+/**
+ * How often an open dashboard re-fetches its data. 'live' (kept for saved
+ * dashboards) polls every 10 seconds the tables that fetch only changed
+ * documents, and the rest every minute
+ */
+export type DashboardRefreshInterval = 'off' | '1m' | '5m' | '15m' | 'live'
+
+export interface SavedDashboard {
+  id: string
+  name: string
+  widgets: Omit<DashboardWidget, 'minW' | 'minH'>[]
+  filters?: DashboardFilter[]
+  refreshInterval?: DashboardRefreshInterval
+  /** Read-only link at /share/{shareId}, set while the dashboard is published */
+  shareId?: string | null
+  createdAt: Date
+  updatedAt: Date
+}
@@ -80,6 +80,24 @@ export function flattenObject(
   return result
 }
 
+/**
+ * Flattens fetched documents into table rows, keeping the document ID and,
+ * for collection groups, the full path and parent document ID.
+ */
+export function flattenDocuments(
+  documents: DocumentData[],
+  isCollectionGroup?: boolean
+): Record<string, unknown>[] {
+  return documents.map((d) => {
+    const { __id, __path, __parentId, ...rest } = d
+    return {
+      __id,
+      ...(isCollectionGroup ? { __path: __path ?? '', __parentId: __parentId ?? '' } : {}),
+      ...flattenObject(rest as Record<string, unknown>),
+    }
+  })
+}
+
 // ---- Schema Discovery ----
 
 export function discoverSchema(documents: DocumentData[]): FieldInfo[] {
@@ -132,6 +150,19 @@ function inferType(value: unknown): string {
   return 'unknown'
 }
 
+// ---- Relative Time ----
+
+/** Short relative time, e.g. "just now", "5m ago", "3h ago", "2d ago" */
+export function formatRelativeTime(date: Date, now = Date.now()): string {
+  const seconds = Math.max(0, Math.round((now - date.getTime()) / 1000))
+  if (seconds < 45) return 'just now'
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes}m ago`
+  const hours = Math.round(minutes / 60)
+  if (hours < 24) return `${hours}h ago`
+  return `${Math.round(hours / 24)}d ago`
+}
+
 // ---- Export Helpers ----
 
 export function exportToCSV(data: Record<string, unknown>[], filename: string) {
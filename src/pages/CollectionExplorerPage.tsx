@@ -5,9 +5,13 @@ import {
   listCollections,
   fetchDocuments,
   fetchCollectionGroup,
+  fetchSingleDocument,
   updateDocument,
   deleteDocument,
   createDocument,
+  queryDocuments,
+  DEFAULT_DATABASE_ID,
+  type FilteredQueryCursor,
 } from '@/lib/firestore-rest'
 import type { CollectionInfo, DocumentData } from '@/lib/types'
 import { cn } from '@/lib/utils'
@@ -44,9 +48,14 @@ import {
   ChevronUp,
   ChevronDown,
   AlertTriangle,
+  Filter,
 } from 'lucide-react'
 import ProjectSwitcher from '@/components/ProjectSwitcher'
 import DarkModeToggle from '@/components/DarkModeToggle'
+import ServerFilterBar from '@/components/ServerFilterBar'
+import { conditionsToQueryFilter, type ServerFilterCondition } from '@/lib/server-filters'
+
+const NO_SERVER_FILTERS: ServerFilterCondition[] = []
 
 // ================================================================
 // Helpers
@@ -302,6 +311,11 @@ export default function CollectionExplorerPage() {
   const collectionPath = rawCollectionPath ? decodeURIComponent(rawCollectionPath) : null
   // Group mode: ?group=1 means we use a collection group query (all subcollections with this name)
   const isGroupMode = searchParams.get('group') === '1'
+  // Named database: ?db=<id>, omitted for (default)
+  const databaseId = searchParams.get('db') || DEFAULT_DATABASE_ID
+  const dbParam = databaseId !== DEFAULT_DATABASE_ID ? `db=${encodeURIComponent(databaseId)}` : ''
+  // Single document: ?doc=<id>, e.g. opened from a dashboard drill-through
+  const focusDocId = isGroupMode ? null : searchParams.get('doc')
   // In group mode, collectionPath is just the subcollection name (e.g. "orders")
   const groupCollectionId = isGroupMode ? collectionPath?.split('/').pop() ?? collectionPath : null
 
@@ -315,8 +329,21 @@ export default function CollectionExplorerPage() {
   const [loadingDocs, setLoadingDocs] = useState(true)
   const [docsError, setDocsError] = useState<string | null>(null)
   const [nextPageToken, setNextPageToken] = useState<string | undefined>()
+  const [filterCursor, setFilterCursor] = useState<FilteredQueryCursor | undefined>()
   const [fetchingMore, setFetchingMore] = useState(false)
 
+  // ---- Server-side filters (pushed down to Firestore) ----
+  // Keyed by collection path so navigating away drops them without an extra reload
+  const [serverFilterState, setServerFilterState] = useState<{
+    path: string | null
+    conditions: ServerFilterCondition[]
+  }>({ path: null, conditions: NO_SERVER_FILTERS })
+  const serverFilters =
+    serverFilterState.path === collectionPath ? serverFilterState.conditions : NO_SERVER_FILTERS
+  const serverFilter = useMemo(() => conditionsToQueryFilter(serverFilters), [serverFilters])
+  const [showServerFilters, setShowServerFilters] = useState(false)
+  const [filterError, setFilterError] = useState<string | null>(null)
+
   // ---- Table columns (auto-discovered) ----
   const [discoveredFields, setDiscoveredFields] = useState<string[]>([])
 
@@ -372,22 +399,24 @@ export default function CollectionExplorerPage() {
     if (collectionPath || !user?.accessToken || !projectId) return
     setLoadingCollections(true)
     setCollectionsError(null)
-    listCollections(user.accessToken, projectId)
+    listCollections(user.accessToken, projectId, undefined, databaseId)
       .then(setCollections)
       .catch((err) => setCollectionsError(err.message))
       .finally(() => setLoadingCollections(false))
-  }, [user?.accessToken, projectId, collectionPath])
+  }, [user?.accessToken, projectId, databaseId, collectionPath])
 
   // ================================================================
   // Fetch documents (table view) — supports both direct path and collection group mode
   // ================================================================
   const loadDocuments = useCallback(
-    async (pageToken?: string) => {
+    async (pageToken?: string, cursor?: FilteredQueryCursor) => {
       if (!user?.accessToken || !projectId || !collectionPath) return
-      if (!pageToken) {
+      const isMore = !!pageToken || !!cursor
+      if (!isMore) {
         setLoadingDocs(true)
         setDocuments([])
         setDocsError(null)
+        setFilterError(null)
       } else {
         setFetchingMore(true)
       }
@@ -395,15 +424,37 @@ export default function CollectionExplorerPage() {
       try {
         let newDocs: DocumentData[] = []
         let newNextToken: string | undefined
-
-        if (isGroupMode && groupCollectionId) {
+        let newCursor: FilteredQueryCursor | undefined
+
+        if (focusDocId && !isMore) {
+          // One document, fetched directly so it shows however far down the collection it is
+          const doc = await fetchSingleDocument(user.accessToken, projectId, `${collectionPath}/${focusDocId}`, databaseId)
+          newDocs = [doc]
+        } else if (serverFilter) {
+          // Filtered query — Firestore only returns matching documents
+          const result = await queryDocuments(
+            user.accessToken,
+            projectId,
+            isGroupMode && groupCollectionId ? groupCollectionId : collectionPath,
+            {
+              filter: serverFilter,
+              isCollectionGroup: isGroupMode,
+              pageSize: 100,
+              cursor,
+              databaseId,
+            }
+          )
+          newDocs = result.documents
+          newCursor = result.nextCursor
+        } else if (isGroupMode && groupCollectionId) {
           // Collection group query — fetch all docs from subcollections with this name
           const result = await fetchCollectionGroup(
             user.accessToken,
             projectId,
             groupCollectionId,
             100,
-            pageToken
+            pageToken,
+            databaseId
           )
           newDocs = result.documents
           newNextToken = result.lastDocumentPath
@@ -414,7 +465,8 @@ export default function CollectionExplorerPage() {
             projectId,
             collectionPath,
             100,
-            pageToken
+            pageToken,
+            databaseId
           )
           newDocs = result.documents
           newNextToken = result.nextPageToken
@@ -430,7 +482,7 @@ export default function CollectionExplorerPage() {
           setDiscoveredFields(Array.from(fieldSet))
         }
 
-        if (pageToken) {
+        if (isMore) {
           setDocuments((prev) => {
             const merged = [...prev, ...newDocs]
             discoverFields(merged)
@@ -441,16 +493,24 @@ export default function CollectionExplorerPage() {
           discoverFields(newDocs)
         }
         setNextPageToken(newNextToken)
+        setFilterCursor(newCursor)
       } catch (err) {
-        setDocsError(err instanceof Error ? err.message : 'Failed to load documents')
+        const message = err instanceof Error ? err.message : 'Failed to load documents'
+        // Filter errors (e.g. missing index) stay inline so the filter can be fixed
+        if (serverFilter) setFilterError(message)
+        else setDocsError(message)
       } finally {
         setLoadingDocs(false)
         setFetchingMore(false)
       }
     },
-    [user?.accessToken, projectId, collectionPath, isGroupMode, groupCollectionId]
+    [user?.accessToken, projectId, databaseId, collectionPath, isGroupMode, groupCollectionId, serverFilter, focusDocId]
   )
 
+  const handleApplyServerFilters = (conditions: ServerFilterCondition[]) => {
+    setServerFilterState({ path: collectionPath, conditions })
+  }
+
   useEffect(() => {
     if (collectionPath) {
       setGlobalFilter('')
@@ -504,7 +564,8 @@ export default function CollectionExplorerPage() {
           const subs = await listCollections(
             user.accessToken!,
             projectId!,
-            docPath
+            docPath,
+            databaseId
           )
           return subs.map((s) => s.id)
         } catch {
@@ -527,7 +588,7 @@ export default function CollectionExplorerPage() {
     return () => {
       cancelled = true
     }
-  }, [user?.accessToken, projectId, collectionPath, documents])
+  }, [user?.accessToken, projectId, databaseId, collectionPath, documents])
 
   // ================================================================
   // Inline cell save
@@ -543,7 +604,7 @@ export default function CollectionExplorerPage() {
       setCellError(null)
 
       try {
-        await updateDocument(user.accessToken, projectId, doc.__path, { [field]: newValue })
+        await updateDocument(user.accessToken, projectId, doc.__path, { [field]: newValue }, databaseId)
 
         // Update local state
         setDocuments((prev) =>
@@ -565,7 +626,7 @@ export default function CollectionExplorerPage() {
         setCellSaving(false)
       }
     },
-    [user?.accessToken, projectId, documents]
+    [user?.accessToken, projectId, databaseId, documents]
   )
 
   // ================================================================
@@ -584,7 +645,7 @@ export default function CollectionExplorerPage() {
     }
 
     try {
-      await deleteDocument(user.accessToken, projectId, doc.__path)
+      await deleteDocument(user.accessToken, projectId, doc.__path, databaseId)
       setDocuments((prev) => prev.filter((d) => d.__id !== docToDelete))
       setDocToDelete(null)
       if (editingCell?.docId === docToDelete) setEditingCell(null)
@@ -628,7 +689,8 @@ export default function CollectionExplorerPage() {
         projectId,
         collectionPath,
         data,
-        newDocId.trim() || undefined
+        newDocId.trim() || undefined,
+        databaseId
       )
 
       setShowAddModal(false)
@@ -661,7 +723,7 @@ export default function CollectionExplorerPage() {
       setSubcollPopover({ docId, loading: true, subcollections: [] })
 
       try {
-        const subs = await listCollections(user.accessToken, projectId, docPath)
+        const subs = await listCollections(user.accessToken, projectId, docPath, databaseId)
         setSubcollPopover({
           docId,
           loading: false,
@@ -671,13 +733,13 @@ export default function CollectionExplorerPage() {
         setSubcollPopover({ docId, loading: false, subcollections: [] })
       }
     },
-    [user?.accessToken, projectId, collectionPath, subcollPopover]
+    [user?.accessToken, projectId, databaseId, collectionPath, subcollPopover]
   )
 
   const navigateToCollection = (path: string) => {
     setEditingCell(null)
     setSubcollPopover(null)
-    navigate(`/project/${projectId}/explore/${encodeURIComponent(path)}`)
+    navigate(`/project/${projectId}/explore/${encodeURIComponent(path)}${dbParam ? `?${dbParam}` : ''}`)
   }
 
   const navigateToSubcollection = (subCollId: string, docId?: string) => {
@@ -687,7 +749,7 @@ export default function CollectionExplorerPage() {
       navigateToCollection(`${collectionPath}/${docId}/${subCollId}`)
     } else {
       // Collection group query — show all docs with this subcollection name
-      navigate(`/project/${projectId}/explore/${encodeURIComponent(subCollId)}?group=1`)
+      navigate(`/project/${projectId}/explore/${encodeURIComponent(subCollId)}?group=1${dbParam ? `&${dbParam}` : ''}`)
     }
   }
 
@@ -771,7 +833,7 @@ export default function CollectionExplorerPage() {
     globalFilterFn: 'includesString',
   })
 
-  const hasMore = !!nextPageToken
+  const hasMore = !!nextPageToken || !!filterCursor
   const breadcrumbs = collectionPath ? parseBreadcrumbs(collectionPath) : []
 
   // ================================================================
@@ -795,7 +857,7 @@ export default function CollectionExplorerPage() {
                 <span className="font-semibold text-sm text-gray-900 dark:text-gray-100">Firegrid</span>
               </button>
               <ChevronRight size={14} className="text-gray-300 dark:text-gray-600 shrink-0" />
-              <ProjectSwitcher currentProjectId={projectId} />
+              <ProjectSwitcher currentProjectId={projectId} currentDatabaseId={databaseId} />
               <ChevronRight size={14} className="text-gray-300 dark:text-gray-600 shrink-0" />
               <span className="text-sm font-medium text-gray-700 dark:text-gray-300">Explorer</span>
             </div>
@@ -863,7 +925,7 @@ export default function CollectionExplorerPage() {
                     {coll.documentCount !== null
                       ? coll.documentCount === 0
                         ? coll.hasSubcollections ? 'Subcollections only' : 'Empty'
-                        : `${coll.documentCount}+ documents`
+                        : `${coll.documentCount.toLocaleString()} ${coll.documentCount === 1 ? 'document' : 'documents'}`
                       : 'Tap to explore'}
                   </p>
                 </button>
@@ -919,7 +981,7 @@ export default function CollectionExplorerPage() {
         <div className="px-4 h-12 flex items-center justify-between">
           <div className="flex items-center gap-2 min-w-0">
             <button
-              onClick={() => navigate(`/project/${projectId}/explore`)}
+              onClick={() => navigate(`/project/${projectId}/explore${dbParam ? `?${dbParam}` : ''}`)}
               className="p-1 -ml-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
             >
               <ChevronLeft size={16} />
@@ -929,7 +991,7 @@ export default function CollectionExplorerPage() {
               <span className="font-semibold text-sm text-gray-900 dark:text-gray-100">Firegrid</span>
             </button>
             <ChevronRight size={14} className="text-gray-300 dark:text-gray-600 shrink-0" />
-            <ProjectSwitcher currentProjectId={projectId} />
+            <ProjectSwitcher currentProjectId={projectId} currentDatabaseId={databaseId} />
             <ChevronRight size={14} className="text-gray-300 dark:text-gray-600 shrink-0" />
             <span className="text-xs font-medium text-gray-500 dark:text-gray-400">Explorer</span>
             <ChevronRight size={14} className="text-gray-300 dark:text-gray-600 shrink-0" />
@@ -998,6 +1060,40 @@ export default function CollectionExplorerPage() {
             />
           </div>
 
+          {/* Single document from ?doc= */}
+          {focusDocId && (
+            <span className="flex items-center gap-1.5 pl-2.5 pr-1 py-1 text-xs text-gray-700 dark:text-gray-200 bg-gray-100 dark:bg-gray-700 border border-gray-300 dark:border-gray-600 rounded-md">
+              <FileText size={12} className="text-gray-400" />
+              <span className="font-mono max-w-[200px] truncate">{focusDocId}</span>
+              <button
+                onClick={() => navigateToCollection(collectionPath)}
+                className="p-0.5 text-gray-400 hover:text-gray-700 dark:hover:text-gray-200 rounded"
+                title="Show the whole collection"
+              >
+                <X size={11} />
+              </button>
+            </span>
+          )}
+
+          {/* Server-side filters toggle */}
+          <button
+            onClick={() => setShowServerFilters((prev) => !prev)}
+            className={cn(
+              'flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium rounded-md transition-colors border',
+              showServerFilters || serverFilters.length > 0
+                ? 'text-gray-800 dark:text-gray-100 bg-gray-100 dark:bg-gray-700 border-gray-300 dark:border-gray-600'
+                : 'text-gray-600 dark:text-gray-300 bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-600 hover:border-gray-300 dark:hover:border-gray-500'
+            )}
+          >
+            <Filter size={13} className="text-gray-400" />
+            Filters
+            {serverFilters.length > 0 && (
+              <span className="text-[10px] bg-gray-200 dark:bg-gray-600 text-gray-500 dark:text-gray-400 px-1.5 py-0.5 rounded-md tabular-nums">
+                {serverFilters.length}
+              </span>
+            )}
+          </button>
+
           {/* Subcollections dropdown */}
           <div className="relative" ref={subcollDropdownRef}>
             <button
@@ -1155,14 +1251,33 @@ export default function CollectionExplorerPage() {
         </div>
       </div>
 
+      {(showServerFilters || serverFilters.length > 0 || filterError) && (
+        <div className="shrink-0">
+          <ServerFilterBar
+            fields={discoveredFields}
+            conditions={serverFilters}
+            onApply={handleApplyServerFilters}
+            loading={loadingDocs}
+            error={filterError}
+          />
+        </div>
+      )}
+
       {/* ===== Table ===== */}
       <div className="flex-1 overflow-auto" ref={subcollRef}>
         {documents.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-full text-gray-400 gap-2">
-            <FileText size={24} className="text-gray-300 dark:text-gray-600" />
-            <p className="text-sm">No documents in this collection</p>
-            <p className="text-xs text-gray-400 dark:text-gray-500">Click "Add Document" to create one.</p>
-          </div>
+          serverFilters.length > 0 ? (
+            <div className="flex flex-col items-center justify-center h-full text-gray-400 gap-2">
+              <Filter size={24} className="text-gray-300 dark:text-gray-600" />
+              <p className="text-sm">No documents match these filters</p>
+            </div>
+          ) : (
+            <div className="flex flex-col items-center justify-center h-full text-gray-400 gap-2">
+              <FileText size={24} className="text-gray-300 dark:text-gray-600" />
+              <p className="text-sm">No documents in this collection</p>
+              <p className="text-xs text-gray-400 dark:text-gray-500">Click "Add Document" to create one.</p>
+            </div>
+          )
         ) : (
           <table className="w-full text-xs border-separate border-spacing-0">
             <thead className="sticky top-0 z-10">
@@ -1386,7 +1501,7 @@ export default function CollectionExplorerPage() {
             </span>
             {hasMore && (
               <button
-                onClick={() => loadDocuments(nextPageToken)}
+                onClick={() => loadDocuments(nextPageToken, filterCursor)}
                 disabled={fetchingMore}
                 className="flex items-center gap-1 text-xs text-gray-600 hover:text-gray-800 dark:text-gray-400 dark:hover:text-gray-200 transition-colors disabled:opacity-50"
               >
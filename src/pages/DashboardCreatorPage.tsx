@@ -2,12 +2,51 @@ import React, { useEffect, useState, useCallback, useRef, useLayoutEffect, useMe
 import { createPortal } from 'react-dom'
 import { useNavigate, useParams } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
-import type { SavedTable, ColumnConfig } from '@/lib/types'
-import { collection, query, getDocs, orderBy, doc, setDoc, getDoc, serverTimestamp } from 'firebase/firestore'
+import type {
+  SavedTable,
+  DashboardRefreshInterval,
+  DashboardWidget,
+  DashboardFilter,
+  CrossFilter,
+  ChartType,
+  AggregationType,
+  MetricConfig,
+  ChartConfig,
+  ElementConfig,
+  PivotConfig,
+  ConditionalFormatRule,
+  ColumnFormat,
+  WidgetFilter,
+  AlertEvent,
+  AlertRule,
+  ColFormatType,
+  PivotValueConfig,
+  ElementFontSize,
+  ElementAlign,
+  CondFormatOperator,
+  CondFormatStyle,
+  CondFormatTarget,
+  ValuesPlacement,
+} from '@/lib/types'
+import { collection, query, getDocs, orderBy, doc, setDoc, getDoc, serverTimestamp, onSnapshot, limit } from 'firebase/firestore'
 import { db } from '@/lib/firebase'
 import { trackDashboardSaved, trackPageView } from '@/lib/metrics'
-import { cn, flattenObject } from '@/lib/utils'
-import { fetchAllDocuments } from '@/lib/firestore-rest'
+import { cn } from '@/lib/utils'
+import { DashboardDataProvider, useDashboardDataProgress } from '@/contexts/DashboardDataContext'
+import CacheStatus from '@/components/CacheStatus'
+import AiProviderForm from '@/components/AiProviderForm'
+import {
+  generateDashboardFromPrompt,
+  type DashboardTableSchema,
+  type GeneratedDashboardWidget,
+} from '@/lib/openai'
+import {
+  getAiProviderSettings,
+  setAiProviderSettings,
+  isAiProviderConfigured,
+  describeAiProvider,
+  type AiProviderSettings,
+} from '@/lib/ai-provider'
 // Custom grid — no third-party grid library
 import { motion, AnimatePresence } from 'framer-motion'
 import {
@@ -19,13 +58,9 @@ import {
   ChevronLeft,
   LayoutDashboard,
   Search,
-  Terminal,
   Eye,
   AlertCircle,
   RefreshCw,
-  Maximize2,
-  Minimize2,
-  ArrowUpDown,
   ArrowUp,
   ArrowDown,
   Check,
@@ -39,7 +74,6 @@ import {
   Settings2,
   BarChart3,
   TrendingUp,
-  Filter,
   Trash2,
   EyeOff,
   Copy,
@@ -55,241 +89,90 @@ import {
   DollarSign,
   Percent,
   Calendar,
-  Clock,
   CaseSensitive,
   MousePointer2,
-  ChevronRight,
   Minus as MinusIcon,
   Undo2,
   Redo2,
+  Sparkles,
+  AreaChart as AreaChartIcon,
+  PieChart as PieChartIcon,
+  ChartScatter as ScatterChartIcon,
+  ExternalLink,
+  Timer,
+  Share2,
 } from 'lucide-react'
-import {
-  BarChart,
-  Bar,
-  LineChart,
-  Line,
-  XAxis,
-  YAxis,
-  CartesianGrid,
-  Tooltip,
-  ResponsiveContainer,
-} from 'recharts'
 import DarkModeToggle from '@/components/DarkModeToggle'
+import { widgetTableId } from '@/lib/dashboard-filters'
+import { DashboardFiltersProvider } from '@/contexts/DashboardFiltersContext'
+import DashboardFilterBar from '@/components/DashboardFilterBar'
+import CrossFilterBar from '@/components/CrossFilterBar'
+import { useAnchoredPosition, useOutsideClose } from '@/lib/popover'
+import { AGGREGATION_LABELS } from '@/lib/dashboard-metrics'
+import ChartCard from '@/components/ChartCard'
+import { CHART_TYPE_OPTIONS, CHART_COLOUR_PRESETS } from '@/lib/dashboard-charts'
+import MetricCard from '@/components/MetricCard'
+import {
+  scheduledAlertRules,
+  saveScheduledAlerts,
+  ALERT_HISTORY_LIMIT,
+  isAlertTriggered,
+  alertRuleName,
+  widgetAlertRules,
+} from '@/lib/dashboard-alerts'
+import {
+  dashboardTableIds,
+  publishShareLink,
+  revokeShareLink,
+  shareUrl,
+  type DashboardShareSettings,
+  type ShareLinkChanges,
+} from '@/lib/share-links'
+import AlertNotificationCentre from '@/components/AlertNotificationCentre'
+import WidgetAlertEvaluator from '@/components/WidgetAlertEvaluator'
+import MetricConfigPanel from '@/components/MetricConfigPanel'
+import ChartConfigPanel from '@/components/ChartConfigPanel'
+import {
+  toLoadedWidget,
+  WIDGET_MIN_W,
+  WIDGET_MIN_H,
+  GRID_MAX_W,
+  gridToPixel,
+  pixelToGrid,
+  GRID_COLS,
+  pixelSizeToGrid,
+  ROW_HEIGHT,
+  MARGIN_Y,
+} from '@/lib/dashboard-grid'
+import {
+  COL_FORMAT_LABELS,
+  CURRENCY_OPTIONS,
+  DATE_FORMAT_OPTIONS,
+  applyColumnFormat,
+  COND_OP_LABELS,
+  COND_STYLE_LABELS,
+  PRESET_COLOURS,
+} from '@/lib/column-format'
+import WidgetCard from '@/components/WidgetCard'
+import PivotErrorBoundary from '@/components/PivotErrorBoundary'
+import PivotCard from '@/components/PivotCard'
+import ElementCard from '@/components/ElementCard'
+import GeneratedDashboardPreview from '@/components/GeneratedDashboardPreview'
 // (no external grid CSS needed)
 
-type WidgetType = 'table' | 'heading' | 'text' | 'divider' | 'metric' | 'chart' | 'pivot'
-
-type AggregationType = 'none' | 'count' | 'sum' | 'average' | 'min' | 'max' | 'count_distinct'
-
-type FilterOperator =
-  | 'equals'
-  | 'not_equals'
-  | 'contains'
-  | 'not_contains'
-  | 'starts_with'
-  | 'gt'
-  | 'gte'
-  | 'lt'
-  | 'lte'
-  | 'is_empty'
-  | 'is_not_empty'
-
-interface WidgetFilter {
-  id: string
-  column: string
-  operator: FilterOperator
-  value: string
-}
-
-type MetricLayout = 'centered' | 'left' | 'minimal'
-type MetricValueSize = 'sm' | 'md' | 'lg' | 'xl'
-
-interface MetricConfig {
-  tableId: string
-  aggregation: AggregationType
-  column: string           // column sourcePath to aggregate (ignored for 'count')
-  dateColumn?: string      // optional date column for time filtering
-  timeframe?: 'all' | '7d' | '30d' | '90d' | 'this_month' | 'this_year'
-  prefix?: string          // e.g. "$"
-  suffix?: string          // e.g. "%"
-  label: string            // display name
-  // Display options
-  layout?: MetricLayout      // 'centered' (default), 'left', 'minimal'
-  titleSize?: MetricValueSize  // 'sm', 'md' (default), 'lg', 'xl'
-  valueSize?: MetricValueSize // 'sm', 'md' (default), 'lg', 'xl'
-  showLabel?: boolean         // default true
-  colour?: string             // value colour
-}
-
-type DateTruncation = 'none' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year'
-
-type ChartType = 'bar' | 'line'
-
-interface ChartConfig {
-  chartType?: ChartType     // defaults to 'bar'
-  tableId: string
-  categoryColumn: string    // X-axis — group by this column
-  valueColumn: string       // Y-axis — column to aggregate (ignored for count)
-  aggregation: AggregationType
-  dateColumn?: string
-  timeframe?: 'all' | '7d' | '30d' | '90d' | 'this_month' | 'this_year'
-  dateTruncate?: DateTruncation  // truncate category dates for grouping
-  label: string
-  maxBars?: number          // limit to top N data points
-  sortBy?: 'value' | 'category' // how to sort data
-  colour?: string           // chart colour hex
-}
-
-type ElementFontSize = 'xs' | 'sm' | 'base' | 'lg' | 'xl' | '2xl' | '3xl'
-type ElementAlign = 'left' | 'center' | 'right'
-
-interface ElementConfig {
-  fontSize?: ElementFontSize
-  fontWeight?: 'normal' | 'medium' | 'semibold' | 'bold'
-  align?: ElementAlign
-  colour?: string
-}
-
-interface PivotValueConfig {
-  id: string
-  column: string
-  aggregation: AggregationType
-  label?: string
-}
-
-type ValuesPlacement = 'columns' | 'rows'
-
-interface PivotColumnFilter {
-  excludeNulls?: boolean
-  excludeBlanks?: boolean
-  excludeValues?: string[]   // stringified values to exclude
-}
-
-interface PivotConfig {
-  tableId: string
-  rowColumns: string[]      // field(s) for row grouping
-  colColumns: string[]      // field(s) for column grouping
-  values: PivotValueConfig[]
-  valuesPlacement?: ValuesPlacement  // where multiple values appear: as columns (default) or rows
-  rowColumnLabels?: Record<string, string>  // display labels for row columns
-  columnTruncations?: Record<string, DateTruncation>  // date truncation per column
-  columnFilters?: Record<string, PivotColumnFilter>   // column-level filters
-}
-
-type CondFormatOperator = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | 'neq' | 'contains' | 'not_contains' | 'is_empty' | 'is_not_empty' | 'between'
-type CondFormatTarget = 'cell' | 'row'
-type CondFormatStyle = 'bg' | 'text' | 'bold' | 'italic'
-
-interface ConditionalFormatRule {
-  id: string
-  column: string                 // column key / sourcePath to evaluate
-  operator: CondFormatOperator
-  value: string                  // comparison value (empty for is_empty/is_not_empty)
-  value2?: string                // second value for 'between'
-  style: CondFormatStyle         // what to apply
-  colour: string                 // hex colour for bg/text styles
-  target: CondFormatTarget       // apply to cell or whole row
-  enabled: boolean
-}
-
-type ColFormatType = 'auto' | 'number' | 'currency' | 'percent' | 'date' | 'datetime' | 'text'
-
-interface ColumnFormat {
-  type: ColFormatType
-  decimals?: number          // decimal places for number/currency/percent (default 2)
-  currency?: string          // currency code e.g. "USD", "AUD", "EUR"
-  dateFormat?: string        // 'short' | 'medium' | 'long' | 'iso'
-  thousandSep?: boolean      // use thousand separators (default true)
-  prefix?: string            // custom prefix e.g. "$"
-  suffix?: string            // custom suffix e.g. "%"
-}
-
-interface CustomColumn {
-  id: string
-  name: string              // display name
-  formula: string           // expression e.g. "[Revenue] - [Cost]"
-  formatPrefix?: string     // e.g. "$"
-  formatSuffix?: string     // e.g. "%"
-}
-
-interface DashboardWidget {
-  i: string
-  type: WidgetType
-  // Table-specific
-  tableId: string
-  tableName: string
-  displayName?: string                        // user-set override for widget title
-  columnAliases?: Record<string, string>      // per-widget column header overrides
-  hiddenColumns?: string[]                    // sourcePaths of columns hidden on this widget
-  customColumns?: CustomColumn[]              // calculated formula columns
-  columnOrder?: string[]                      // ordered list of column keys (source + custom)
-  // Element-specific
-  content?: string
-  elementConfig?: ElementConfig
-  // Metric-specific
-  metricConfig?: MetricConfig
-  // Chart-specific
-  chartConfig?: ChartConfig
-  // Pivot-specific
-  pivotConfig?: PivotConfig
-  // Column formatting
-  columnFormats?: Record<string, ColumnFormat>    // column key → display format
-  // Conditional formatting
-  conditionalFormats?: ConditionalFormatRule[]
-  // Filters
-  filters?: WidgetFilter[]
-  // Layout
-  x: number
-  y: number
-  w: number
-  h: number
-  minW?: number
-  minH?: number
-}
-
-interface SavedDashboard {
-  id: string
-  name: string
-  widgets: Omit<DashboardWidget, 'minW' | 'minH'>[]
-  createdAt: Date
-  updatedAt: Date
-}
-
-const GRID_COLS = 24
-const GRID_MAX_W = 24 // max usable width (matches GRID_COLS; right padding handled via gridWidth measurement)
-const ROW_HEIGHT = 4
-const WIDGET_MIN_W = 4
-const WIDGET_MIN_H = 20
-const MARGIN_X = 8
-const MARGIN_Y = 4
-
-/* ---- Custom grid position helpers ---- */
-function getColWidth(containerWidth: number) {
-  return (containerWidth - MARGIN_X * (GRID_COLS - 1)) / GRID_COLS
-}
-function gridToPixel(gx: number, gy: number, gw: number, gh: number, containerWidth: number) {
-  const cw = getColWidth(containerWidth)
-  return {
-    left: Math.round(gx * (cw + MARGIN_X)),
-    top: Math.round(gy * (ROW_HEIGHT + MARGIN_Y)),
-    width: Math.round(gw * cw + Math.max(0, gw - 1) * MARGIN_X),
-    height: Math.round(gh * ROW_HEIGHT + Math.max(0, gh - 1) * MARGIN_Y),
-  }
-}
-function pixelToGrid(px: number, py: number, containerWidth: number) {
-  const cw = getColWidth(containerWidth)
-  return {
-    x: Math.max(0, Math.round(px / (cw + MARGIN_X))),
-    y: Math.max(0, Math.round(py / (ROW_HEIGHT + MARGIN_Y))),
-  }
-}
-function pixelSizeToGrid(pw: number, ph: number, containerWidth: number) {
-  const cw = getColWidth(containerWidth)
-  return {
-    w: Math.max(1, Math.round((pw + MARGIN_X) / (cw + MARGIN_X))),
-    h: Math.max(1, Math.round((ph + MARGIN_Y) / (ROW_HEIGHT + MARGIN_Y))),
-  }
-}
+// The fastest interval, saved as 'live'. It polls rather than listens: tables
+// in users' own projects are read over the REST API with their Google token,
+// and Firestore listeners need the SDK signed in to that project. Only tables
+// that refresh incrementally poll this often (see DashboardDataProvider)
+const LIVE_REFRESH_MS = 10_000
+
+const DASHBOARD_REFRESH_OPTIONS: { value: DashboardRefreshInterval; label: string; ms: number }[] = [
+  { value: 'off', label: 'Off', ms: 0 },
+  { value: '1m', label: 'Every minute', ms: 60_000 },
+  { value: '5m', label: 'Every 5 minutes', ms: 5 * 60_000 },
+  { value: '15m', label: 'Every 15 minutes', ms: 15 * 60_000 },
+  { value: 'live', label: `Every ${LIVE_REFRESH_MS / 1000} seconds`, ms: LIVE_REFRESH_MS },
+]
 
 export default function DashboardCreatorPage() {
   const { user, signOut } = useAuth()
@@ -300,6 +183,7 @@ export default function DashboardCreatorPage() {
   const [loadingTables, setLoadingTables] = useState(true)
   const [widgets, setWidgets] = useState<DashboardWidget[]>([])
   const [showTablePicker, setShowTablePicker] = useState(false)
+  const [showGenerate, setShowGenerate] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
   const [isDragging, setIsDragging] = useState(false)
   const [editMode, setEditMode] = useState(!dashboardId) // new dashboards start in edit mode
@@ -410,12 +294,23 @@ export default function DashboardCreatorPage() {
     setTimeout(() => setIsRefreshing(false), 1200)
   }, [])
 
+  // Auto-refresh key — incremented on the dashboard's interval to re-fetch in the background
+  const [autoRefreshKey, setAutoRefreshKey] = useState(0)
+
   // Save state
   const [currentDashboardId, setCurrentDashboardId] = useState<string | null>(dashboardId ?? null)
   const [dashboardName, setDashboardName] = useState('Untitled Dashboard')
+  const [dashboardFilters, setDashboardFilters] = useState<DashboardFilter[]>([])
+  const [refreshInterval, setRefreshInterval] = useState<DashboardRefreshInterval>('off')
+  const [shareId, setShareId] = useState<string | null>(null)
+  // Click-to-filter selections; not saved with the dashboard
+  const [crossFilters, setCrossFilters] = useState<CrossFilter[]>([])
   const [isEditingName, setIsEditingName] = useState(false)
   const [saving, setSaving] = useState(false)
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
+  // Errors from registering scheduled alerts and updating the share link after a save
+  const [alertsSyncError, setAlertsSyncError] = useState<string | null>(null)
+  const [shareSyncError, setShareSyncError] = useState<string | null>(null)
   const [loadingDashboard, setLoadingDashboard] = useState(!!dashboardId)
 
   // Measure grid container width reliably with ResizeObserver
@@ -481,6 +376,7 @@ export default function DashboardCreatorPage() {
           ...d.data(),
           createdAt: d.data().createdAt?.toDate?.() ?? new Date(),
           updatedAt: d.data().updatedAt?.toDate?.() ?? new Date(),
+          lastRefreshedAt: d.data().lastRefreshedAt?.toDate?.(),
         })) as SavedTable[]
         setSavedTables(tables)
       })
@@ -502,26 +398,10 @@ export default function DashboardCreatorPage() {
         if (snap.exists()) {
           const data = snap.data()
           setDashboardName(data.name ?? 'Untitled Dashboard')
-          const elementDefaults: Record<string, { minW: number; minH: number }> = {
-            heading: { minW: 4, minH: 6 },
-            text:    { minW: 4, minH: 8 },
-            divider: { minW: 4, minH: 3 },
-            metric:  { minW: 3, minH: 16 },
-            chart:   { minW: 6, minH: 28 },
-            pivot:   { minW: 6, minH: 28 },
-          }
-          const loaded: DashboardWidget[] = (data.widgets ?? []).map((w: DashboardWidget) => {
-            const wType = w.type || 'table'
-            const mins = wType === 'table'
-              ? { minW: WIDGET_MIN_W, minH: WIDGET_MIN_H }
-              : elementDefaults[wType] ?? { minW: 4, minH: 2 }
-            // Migrate from 48-col grid to 24-col: scale x and w by 0.5
-            const needsMigration = w.w > GRID_COLS || w.x >= GRID_COLS
-            const migrated = needsMigration
-              ? { x: Math.round(w.x / 2), w: Math.max(mins.minW, Math.round(w.w / 2)) }
-              : {}
-            return { ...w, type: wType, ...mins, ...migrated }
-          })
+          setDashboardFilters(data.filters ?? [])
+          setRefreshInterval(data.refreshInterval ?? 'off')
+          const loaded: DashboardWidget[] = (data.widgets ?? []).map(toLoadedWidget)
+          setShareId(data.shareId ?? null)
           setWidgets(loaded)
           setCurrentDashboardId(dashboardId)
         }
@@ -551,7 +431,6 @@ export default function DashboardCreatorPage() {
     return () => document.removeEventListener('mousedown', handleClickOutside)
   }, [showTablePicker])
 
-
   // Focus name input when editing
   useEffect(() => {
     if (isEditingName) {
@@ -826,6 +705,20 @@ export default function DashboardCreatorPage() {
     })
   }, [])
 
+  const applyGeneratedDashboard = useCallback(
+    (generated: DashboardWidget[], name: string, mode: 'append' | 'replace') => {
+      setWidgets((prev) => {
+        if (mode === 'replace') return generated
+        const maxY = prev.reduce((max, w) => Math.max(max, w.y + w.h), 0)
+        return [...prev, ...generated.map((w) => ({ ...w, y: w.y + maxY }))]
+      })
+      if (mode === 'replace' || dashboardName === 'Untitled Dashboard') setDashboardName(name)
+      setConfiguringWidgetId(null)
+      setShowGenerate(false)
+    },
+    [dashboardName]
+  )
+
   const toggleFullWidth = useCallback((widgetId: string) => {
     setWidgets((prev) =>
       prev.map((w) => {
@@ -987,10 +880,65 @@ export default function DashboardCreatorPage() {
     currentDashboardIdRef.current = currentDashboardId
   }, [currentDashboardId])
 
+  // Tables and Google token for scheduled alert rules, read at save time without resubscribing autosave
+  const savedTablesRef = useRef(savedTables)
+  const accessTokenRef = useRef(user?.accessToken ?? null)
+  useEffect(() => {
+    savedTablesRef.current = savedTables
+    accessTokenRef.current = user?.accessToken ?? null
+  }, [savedTables, user?.accessToken])
+  // Last scheduled rules registered, as `${dashboardId}:${json}`; null while
+  // nothing is known to be registered, so dashboards without rules never post
+  const scheduledAlertsKeyRef = useRef<string | null>(null)
+
+  // The published link and the tables it was last checked against, as `${shareId}:${ids}`
+  const shareIdRef = useRef(shareId)
+  useEffect(() => {
+    shareIdRef.current = shareId
+  }, [shareId])
+  const sharedTablesKeyRef = useRef<string | null>(null)
+
+  /** Re-publishes the dashboard's link when its tables change, so the snapshot can read the new ones */
+  const syncShareLink = useCallback(async (id: string, widgetsToCheck: DashboardWidget[]) => {
+    const currentShareId = shareIdRef.current
+    if (!currentShareId) return
+    const key = `${currentShareId}:${dashboardTableIds(widgetsToCheck).join(',')}`
+    if (key === sharedTablesKeyRef.current) return
+    try {
+      await publishShareLink(id, {}, accessTokenRef.current)
+      sharedTablesKeyRef.current = key
+      setShareSyncError(null)
+    } catch (err) {
+      // The dashboard itself is saved; the next save tries again
+      console.error('Failed to update the share link:', err)
+      setShareSyncError(err instanceof Error ? err.message : 'Failed to update the link')
+    }
+  }, [])
+
+  /** Registers scheduled alert rules with api/alerts/schedule when they've changed */
+  const syncScheduledAlerts = useCallback(async (id: string, widgetsToCheck: DashboardWidget[]) => {
+    const scheduled = scheduledAlertRules(widgetsToCheck, savedTablesRef.current)
+    const scheduledKey = `${id}:${JSON.stringify(scheduled)}`
+    if (scheduledKey === scheduledAlertsKeyRef.current) return
+    // Nothing to register and nothing registered to remove
+    if (scheduled.length === 0 && !scheduledAlertsKeyRef.current?.startsWith(`${id}:`)) return
+    try {
+      await saveScheduledAlerts(id, scheduled, accessTokenRef.current)
+      scheduledAlertsKeyRef.current = scheduledKey
+      setAlertsSyncError(null)
+    } catch (err) {
+      // The dashboard itself is saved; the next save tries again
+      console.error('Failed to register scheduled alerts:', err)
+      setAlertsSyncError(err instanceof Error ? err.message : 'Failed to register scheduled alerts')
+    }
+  }, [])
+
   // Core save function (used by autosave and manual trigger)
   const performSave = useCallback(async (
     widgetsToSaveRaw: DashboardWidget[],
-    nameToSave: string
+    nameToSave: string,
+    filtersToSave: DashboardFilter[],
+    refreshToSave: DashboardRefreshInterval
   ) => {
     if (!user?.uid || !db || !nameToSave.trim()) return
     setSaving(true)
@@ -1016,6 +964,8 @@ export default function DashboardCreatorPage() {
       const payload: Record<string, unknown> = {
         name: nameToSave.trim(),
         widgets: widgetsToSave,
+        filters: stripUndefined(filtersToSave),
+        refreshInterval: refreshToSave,
         updatedAt: serverTimestamp(),
       }
       if (isNew) {
@@ -1028,9 +978,7 @@ export default function DashboardCreatorPage() {
         { merge: true }
       )
 
-      // Track dashboard save metric
-      trackDashboardSaved(user.uid, id, nameToSave.trim(), widgetsToSave.length, isNew)
-
+      // Set straight away, so the next autosave updates this dashboard rather than creating another
       if (!currentDashboardIdRef.current) {
         setCurrentDashboardId(id)
         currentDashboardIdRef.current = id
@@ -1038,6 +986,15 @@ export default function DashboardCreatorPage() {
         window.history.replaceState(null, '', `/dashboard-builder/${id}`)
       }
 
+      // Track dashboard save metric
+      trackDashboardSaved(user.uid, id, nameToSave.trim(), widgetsToSave.length, isNew)
+
+      // Scheduled rules are registered through the API, which re-checks the
+      // user's access to each table; api/alerts/evaluate lists them from there.
+      // Both report their own errors rather than failing the save.
+      await syncScheduledAlerts(id, widgetsToSaveRaw)
+      await syncShareLink(id, widgetsToSaveRaw)
+
       setSaveStatus('saved')
       setTimeout(() => setSaveStatus((s) => s === 'saved' ? 'idle' : s), 2000)
     } catch (err) {
@@ -1047,22 +1004,35 @@ export default function DashboardCreatorPage() {
     } finally {
       setSaving(false)
     }
-  }, [user?.uid])
+  }, [user?.uid, syncScheduledAlerts, syncShareLink])
 
-  // Autosave: debounced 1.5s after any change to widgets or name
+  // Opening a dashboard re-registers its scheduled rules, which renews the
+  // access check; api/alerts/evaluate drops rules not checked in 30 days
+  const scheduledAlertsOpenedRef = useRef<string | null>(null)
+  useEffect(() => {
+    if (loadingDashboard || loadingTables || !currentDashboardId) return
+    if (scheduledAlertsOpenedRef.current === currentDashboardId) return
+    scheduledAlertsOpenedRef.current = currentDashboardId
+    if (scheduledAlertRules(widgets, savedTables).length === 0) return
+    // Its rules are probably registered already, so removing them all later still posts
+    scheduledAlertsKeyRef.current = `${currentDashboardId}:opened`
+    syncScheduledAlerts(currentDashboardId, widgets)
+  }, [loadingDashboard, loadingTables, currentDashboardId, widgets, savedTables, syncScheduledAlerts])
+
+  // Autosave: debounced 1.5s after any change to widgets, filters, name or refresh interval
   useEffect(() => {
     if (!initialLoadDone.current) return
     if (widgets.length === 0) return // Don't save empty dashboards
 
     if (autosaveTimer.current) clearTimeout(autosaveTimer.current)
     autosaveTimer.current = setTimeout(() => {
-      performSave(widgets, dashboardName)
+      performSave(widgets, dashboardName, dashboardFilters, refreshInterval)
     }, 1500)
 
     return () => {
       if (autosaveTimer.current) clearTimeout(autosaveTimer.current)
     }
-  }, [widgets, dashboardName, performSave])
+  }, [widgets, dashboardName, dashboardFilters, refreshInterval, performSave])
 
   // Keyboard shortcut: Cmd/Ctrl+S to save immediately
   useEffect(() => {
@@ -1071,24 +1041,119 @@ export default function DashboardCreatorPage() {
         e.preventDefault()
         if (widgets.length === 0) return
         if (autosaveTimer.current) clearTimeout(autosaveTimer.current)
-        performSave(widgets, dashboardName)
+        performSave(widgets, dashboardName, dashboardFilters, refreshInterval)
       }
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [widgets, dashboardName, performSave])
+  }, [widgets, dashboardName, dashboardFilters, refreshInterval, performSave])
+
+  // Auto-refresh on the dashboard's interval, while the tab is visible
+  useEffect(() => {
+    const ms = DASHBOARD_REFRESH_OPTIONS.find((o) => o.value === refreshInterval)?.ms
+    if (!ms) return
+    const timer = setInterval(() => {
+      if (!document.hidden) setAutoRefreshKey((k) => k + 1)
+    }, ms)
+    return () => clearInterval(timer)
+  }, [refreshInterval])
 
   const getTableForWidget = useCallback(
     (tableId: string) => savedTables.find((t) => t.id === tableId),
     [savedTables]
   )
 
+  // Alert history for this dashboard, newest first
+  const [alertEvents, setAlertEvents] = useState<AlertEvent[]>([])
+  const [alertHistoryFor, setAlertHistoryFor] = useState<string | null>(null)
+  // Latest state per rule, so a rule records each crossing of its threshold once
+  const alertStatesRef = useRef(new Map<string, AlertEvent['state']>())
+  const alertHistoryLoaded = !!currentDashboardId && alertHistoryFor === currentDashboardId
+
+  useEffect(() => {
+    if (!user?.uid || !db || !currentDashboardId) return
+    const eventsQuery = query(
+      collection(db, 'users', user.uid, 'dashboards', currentDashboardId, 'alertEvents'),
+      orderBy('firedAt', 'desc'),
+      limit(ALERT_HISTORY_LIMIT)
+    )
+    return onSnapshot(eventsQuery, (snapshot) => {
+      const events = snapshot.docs.map((d): AlertEvent => {
+        const data = d.data({ serverTimestamps: 'estimate' })
+        return {
+          id: d.id,
+          widgetId: data.widgetId,
+          ruleId: data.ruleId,
+          ruleName: data.ruleName,
+          state: data.state,
+          value: data.value ?? null,
+          operator: data.operator,
+          threshold: data.threshold,
+          source: data.source ?? 'dashboard',
+          firedAt: data.firedAt?.toDate?.() ?? new Date(),
+        }
+      })
+      const states = new Map<string, AlertEvent['state']>()
+      for (const e of events) if (!states.has(e.ruleId)) states.set(e.ruleId, e.state)
+      alertStatesRef.current = states
+      setAlertEvents(events)
+      setAlertHistoryFor(currentDashboardId)
+    }, (err) => console.error('Failed to load alert history:', err))
+  }, [user?.uid, currentDashboardId])
+
+  const handleAlertEvaluated = useCallback((widget: DashboardWidget, rule: AlertRule, value: number | null) => {
+    const id = currentDashboardIdRef.current
+    if (!user?.uid || !db || !id) return
+    const triggered = isAlertTriggered(value, rule)
+    const previous = alertStatesRef.current.get(rule.id)
+    // Only a change is an event; a rule that has never fired has nothing to resolve
+    if (triggered ? previous === 'triggered' : previous !== 'triggered') return
+    const state: AlertEvent['state'] = triggered ? 'triggered' : 'resolved'
+    alertStatesRef.current.set(rule.id, state)
+    setDoc(doc(collection(db, 'users', user.uid, 'dashboards', id, 'alertEvents')), {
+      widgetId: widget.i,
+      ruleId: rule.id,
+      ruleName: alertRuleName(rule, widget),
+      state,
+      value,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      source: 'dashboard',
+      firedAt: serverTimestamp(),
+    }).catch((err) => console.error('Failed to record alert:', err))
+  }, [user?.uid])
+
   const filteredTables = savedTables.filter((t) =>
     t.tableName.toLowerCase().includes(searchQuery.toLowerCase())
   )
 
   const addedTableIds = new Set(widgets.map((w) => w.tableId))
 
+  // Selections from widgets that have since been removed no longer apply
+  const activeCrossFilters = useMemo(
+    () => crossFilters.filter((sel) => widgets.some((w) => w.i === sel.sourceWidgetId)),
+    [crossFilters, widgets]
+  )
+  const toggleCrossFilter = useCallback((sourceWidgetId: string, next: CrossFilter[]) => {
+    setCrossFilters((prev) => {
+      const current = prev.filter((sel) => sel.sourceWidgetId === sourceWidgetId)
+      const others = prev.filter((sel) => sel.sourceWidgetId !== sourceWidgetId)
+      const same = current.length === next.length &&
+        next.every((n) => current.some((c) => c.column === n.column && c.value === n.value))
+      return same ? others : [...others, ...next]
+    })
+  }, [])
+  const crossFilterState = useMemo(
+    () => ({ selections: activeCrossFilters, toggle: toggleCrossFilter }),
+    [activeCrossFilters, toggleCrossFilter]
+  )
+
+  // Tables the widgets read from, for mapping dashboard filters to columns
+  const widgetTables = useMemo(() => {
+    const ids = new Set(widgets.map(widgetTableId).filter(Boolean))
+    return savedTables.filter((t) => ids.has(t.id))
+  }, [widgets, savedTables])
+
   // Grid canvas minimum height — ensures there's always room to drag below the last widget
   const canvasMinHeight = useMemo(() => {
     if (!editMode) return undefined
@@ -1109,6 +1174,14 @@ export default function DashboardCreatorPage() {
   }
 
   return (
+    <DashboardDataProvider
+      accessToken={user?.accessToken ?? null}
+      userId={user?.uid ?? null}
+      refreshKey={globalFetchKey}
+      autoRefreshKey={autoRefreshKey}
+      live={refreshInterval === 'live'}
+    >
+    <DashboardFiltersProvider filters={dashboardFilters} crossFilter={crossFilterState}>
     <div className="h-screen flex flex-col bg-gray-50 dark:bg-gray-900 overflow-hidden">
       {/* Header */}
       <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 shrink-0 z-50">
@@ -1212,6 +1285,10 @@ export default function DashboardCreatorPage() {
               </button>
             </div>
 
+            <DashboardDataProgressIndicator />
+
+            <AutoRefreshMenu value={refreshInterval} onChange={setRefreshInterval} />
+
             {/* Refresh button — always visible */}
             <button
               onClick={handleGlobalRefresh}
@@ -1259,6 +1336,9 @@ export default function DashboardCreatorPage() {
                             { type: 'metric' as const, icon: Gauge, label: 'Metric', chart: undefined },
                             { type: 'chart' as const, icon: BarChart3, label: 'Bar Chart', chart: 'bar' as ChartType },
                             { type: 'chart' as const, icon: TrendingUp, label: 'Line Chart', chart: 'line' as ChartType },
+                            { type: 'chart' as const, icon: AreaChartIcon, label: 'Area Chart', chart: 'area' as ChartType },
+                            { type: 'chart' as const, icon: PieChartIcon, label: 'Pie Chart', chart: 'pie' as ChartType },
+                            { type: 'chart' as const, icon: ScatterChartIcon, label: 'Scatter Chart', chart: 'scatter' as ChartType },
                             { type: 'pivot' as const, icon: Grid3X3, label: 'Pivot Table', chart: undefined },
                           ]).map(({ type, icon: Icon, label, chart }) => (
                             <button
@@ -1360,6 +1440,15 @@ export default function DashboardCreatorPage() {
                   </AnimatePresence>
                 </div>
 
+                <button
+                  onClick={() => setShowGenerate(true)}
+                  className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors cursor-pointer"
+                  title="Describe a dashboard and let AI build it"
+                >
+                  <Sparkles className="h-3 w-3" />
+                  Generate
+                </button>
+
                 {widgets.length > 0 && (
                   <>
                     <div className="h-5 w-px bg-gray-200 mx-1" />
@@ -1384,6 +1473,24 @@ export default function DashboardCreatorPage() {
           </div>
 
           <div className="flex items-center gap-3">
+            {currentDashboardId && user?.uid && (
+              <ShareMenu
+                dashboardId={currentDashboardId}
+                accessToken={user.accessToken}
+                shareId={shareId}
+                onShareIdChange={setShareId}
+              />
+            )}
+
+            {currentDashboardId && alertHistoryLoaded && (
+              <AlertNotificationCentre
+                key={currentDashboardId}
+                dashboardId={currentDashboardId}
+                events={alertEvents}
+                widgets={widgets}
+              />
+            )}
+
             {/* Autosave status */}
             <div className="flex items-center gap-1.5 text-xs text-gray-400 min-w-[80px] justify-end">
               {saveStatus === 'saving' && (
@@ -1410,6 +1517,12 @@ export default function DashboardCreatorPage() {
                   <span>All changes saved</span>
                 </>
               )}
+              {saveStatus !== 'error' && (alertsSyncError || shareSyncError) && (
+                <span title={[alertsSyncError, shareSyncError].filter(Boolean).join('\n')} className="flex items-center gap-1 text-amber-600">
+                  <AlertCircle size={11} className="text-amber-500" />
+                  {alertsSyncError ? 'Alerts not updated' : 'Link not updated'}
+                </span>
+              )}
             </div>
           </div>
         </div>
@@ -1689,10 +1802,31 @@ export default function DashboardCreatorPage() {
         </div>
       )}
 
+      {/* Alert rules are checked whether or not their widgets are on screen */}
+      {alertHistoryLoaded && widgets.filter((w) => widgetAlertRules(w).length > 0).map((w) => (
+        <WidgetAlertEvaluator
+          key={w.i}
+          widget={w}
+          table={getTableForWidget((w.metricConfig ?? w.chartConfig)?.tableId ?? '')}
+          onEvaluate={handleAlertEvaluated}
+        />
+      ))}
+
       {/* Body: grid + optional side panel */}
       <div className="flex flex-1 min-h-0">
       {/* Grid Canvas — full width, no max constraint */}
       <main className="flex-1 px-6 py-6 overflow-y-auto min-w-0" style={{ overflowX: 'clip' }}>
+        {(dashboardFilters.length > 0 || (editMode && widgets.length > 0)) && (
+          <DashboardFilterBar
+            filters={dashboardFilters}
+            tables={widgetTables}
+            editMode={editMode}
+            onChange={setDashboardFilters}
+          />
+        )}
+        {activeCrossFilters.length > 0 && (
+          <CrossFilterBar selections={activeCrossFilters} tables={widgetTables} onChange={setCrossFilters} />
+        )}
         <div ref={gridContainerRef} className="w-full">
         {widgets.length === 0 ? (
           /* Empty State */
@@ -1709,13 +1843,22 @@ export default function DashboardCreatorPage() {
                 : 'Switch to Edit mode to add content to this dashboard.'}
             </p>
             {editMode && (
-              <button
-                onClick={() => setShowTablePicker(true)}
-                className="flex items-center gap-1.5 bg-gray-900 text-white text-sm font-medium rounded-md px-4 py-2 hover:bg-gray-800 transition-colors"
-              >
-                <Plus size={14} />
-                Add to Dashboard
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setShowTablePicker(true)}
+                  className="flex items-center gap-1.5 bg-gray-900 text-white text-sm font-medium rounded-md px-4 py-2 hover:bg-gray-800 transition-colors"
+                >
+                  <Plus size={14} />
+                  Add to Dashboard
+                </button>
+                <button
+                  onClick={() => setShowGenerate(true)}
+                  className="flex items-center gap-1.5 text-sm font-medium text-gray-700 border border-gray-200 bg-white rounded-md px-4 py-2 hover:bg-gray-50 transition-colors"
+                >
+                  <Sparkles size={14} />
+                  Generate with AI
+                </button>
+              </div>
             )}
           </div>
         ) : gridWidth > 0 ? (
@@ -1762,10 +1905,8 @@ export default function DashboardCreatorPage() {
                       <WidgetCard
                         widget={widget}
                         table={table}
-                        accessToken={user?.accessToken ?? null}
                         isFullWidth={widget.x === 0 && widget.w >= GRID_MAX_W}
                         editMode={editMode}
-                        globalFetchKey={globalFetchKey}
                         onRemove={() => removeWidget(widget.i)}
                         onDuplicate={() => duplicateWidget(widget.i)}
                         onToggleFullWidth={() => toggleFullWidth(widget.i)}
@@ -1781,7 +1922,7 @@ export default function DashboardCreatorPage() {
                             navigate(`/query-table/${table.id}`)
                           } else {
                             navigate(
-                              `/project/${table.projectId}/collection/${encodeURIComponent(table.collectionPath)}?tableId=${table.id}&mode=view${table.isCollectionGroup ? '&group=true' : ''}`
+                              `/project/${table.projectId}/collection/${encodeURIComponent(table.collectionPath)}?tableId=${table.id}&mode=view${table.isCollectionGroup ? '&group=true' : ''}${table.databaseId ? `&db=${encodeURIComponent(table.databaseId)}` : ''}`
                             )
                           }
                         }}
@@ -1798,6 +1939,7 @@ export default function DashboardCreatorPage() {
                         accessToken={user?.accessToken ?? null}
                         editMode={editMode}
                         globalFetchKey={globalFetchKey}
+                        autoRefreshKey={autoRefreshKey}
                         onRemove={() => removeWidget(widget.i)}
                         onDuplicate={() => duplicateWidget(widget.i)}
                         onOpenConfig={() => setConfiguringWidgetId(widget.i)}
@@ -1815,9 +1957,7 @@ export default function DashboardCreatorPage() {
                       <ChartCard
                         widget={widget}
                         savedTables={savedTables}
-                        accessToken={user?.accessToken ?? null}
                         editMode={editMode}
-                        globalFetchKey={globalFetchKey}
                         onRemove={() => removeWidget(widget.i)}
                         onDuplicate={() => duplicateWidget(widget.i)}
                         onOpenConfig={() => setConfiguringWidgetId(widget.i)}
@@ -1836,9 +1976,7 @@ export default function DashboardCreatorPage() {
                       <PivotCard
                         widget={widget}
                         savedTables={savedTables}
-                        accessToken={user?.accessToken ?? null}
                         editMode={editMode}
-                        globalFetchKey={globalFetchKey}
                         onRemove={() => removeWidget(widget.i)}
                         onDuplicate={() => duplicateWidget(widget.i)}
                         onOpenConfig={() => setConfiguringWidgetId(widget.i)}
@@ -2033,5824 +2171,2056 @@ export default function DashboardCreatorPage() {
       </AnimatePresence>
       </div>
 
+      {showGenerate && (
+        <GenerateDashboardModal
+          savedTables={savedTables}
+          hasWidgets={widgets.length > 0}
+          onApply={applyGeneratedDashboard}
+          onClose={() => setShowGenerate(false)}
+        />
+      )}
+
       {/* Custom grid styling */}
       <style>{`
         .widget-drag-handle { cursor: grab; }
         .widget-drag-handle:active { cursor: grabbing; }
       `}</style>
     </div>
+    </DashboardFiltersProvider>
+    </DashboardDataProvider>
   )
 }
 
-/* ---- Sort helpers ---- */
-
-type SortDir = 'asc' | 'desc' | null
-
-function compareCellValues(a: unknown, b: unknown): number {
-  // Nulls/undefined always last
-  if (a == null && b == null) return 0
-  if (a == null) return 1
-  if (b == null) return -1
-
-  // Numbers
-  if (typeof a === 'number' && typeof b === 'number') return a - b
-
-  // Booleans
-  if (typeof a === 'boolean' && typeof b === 'boolean') return a === b ? 0 : a ? -1 : 1
-
-  // Default: string comparison
-  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' })
-}
-
-function sortRows(
-  rows: Record<string, unknown>[],
-  sortCol: string | null,
-  sortDir: SortDir
-): Record<string, unknown>[] {
-  if (!sortCol || !sortDir) return rows
-  const sorted = [...rows].sort((a, b) => {
-    const cmp = compareCellValues(a[sortCol], b[sortCol])
-    return sortDir === 'desc' ? -cmp : cmp
-  })
-  return sorted
-}
-
-/* ---- Filter helpers ---- */
-
-const FILTER_OPERATORS: { value: FilterOperator; label: string }[] = [
-  { value: 'equals', label: 'Equals' },
-  { value: 'not_equals', label: 'Does not equal' },
-  { value: 'contains', label: 'Contains' },
-  { value: 'not_contains', label: 'Does not contain' },
-  { value: 'starts_with', label: 'Starts with' },
-  { value: 'gt', label: 'Greater than' },
-  { value: 'gte', label: 'Greater or equal' },
-  { value: 'lt', label: 'Less than' },
-  { value: 'lte', label: 'Less or equal' },
-  { value: 'is_empty', label: 'Is empty' },
-  { value: 'is_not_empty', label: 'Is not empty' },
-]
+/* ---- Data loading indicator ---- */
 
-function applyWidgetFilters(
-  rows: Record<string, unknown>[],
-  filters: WidgetFilter[] | undefined
-): Record<string, unknown>[] {
-  if (!filters || filters.length === 0) return rows
-
-  return rows.filter((row) =>
-    filters.every((f) => {
-      if (!f.column || !f.operator) return true
-      const raw = row[f.column]
-      const strVal = raw == null ? '' : String(raw).toLowerCase()
-      const filterVal = (f.value ?? '').toLowerCase()
-
-      switch (f.operator) {
-        case 'equals': return strVal === filterVal
-        case 'not_equals': return strVal !== filterVal
-        case 'contains': return strVal.includes(filterVal)
-        case 'not_contains': return !strVal.includes(filterVal)
-        case 'starts_with': return strVal.startsWith(filterVal)
-        case 'gt': {
-          const a = parseFloat(String(raw)); const b = parseFloat(f.value)
-          return !isNaN(a) && !isNaN(b) && a > b
-        }
-        case 'gte': {
-          const a = parseFloat(String(raw)); const b = parseFloat(f.value)
-          return !isNaN(a) && !isNaN(b) && a >= b
-        }
-        case 'lt': {
-          const a = parseFloat(String(raw)); const b = parseFloat(f.value)
-          return !isNaN(a) && !isNaN(b) && a < b
-        }
-        case 'lte': {
-          const a = parseFloat(String(raw)); const b = parseFloat(f.value)
-          return !isNaN(a) && !isNaN(b) && a <= b
-        }
-        case 'is_empty': return raw == null || String(raw).trim() === ''
-        case 'is_not_empty': return raw != null && String(raw).trim() !== ''
-        default: return true
-      }
-    })
+/** One progress readout for every widget fetch on the dashboard, then when the data was last refreshed */
+function DashboardDataProgressIndicator() {
+  const { active, loaded, refreshedAt } = useDashboardDataProgress()
+  if (active === 0) return <CacheStatus refreshedAt={refreshedAt} />
+  return (
+    <span className="flex items-center gap-1.5 px-1.5 text-xs text-gray-400 tabular-nums">
+      <Loader2 className="h-3 w-3 animate-spin" />
+      {loaded > 0
+        ? `${loaded.toLocaleString()} docs`
+        : `Loading ${active} ${active === 1 ? 'table' : 'tables'}…`}
+    </span>
   )
 }
 
-/* ---- Column right-click context menu ---- */
+/** Auto-refresh interval picker next to the Refresh button; saved with the dashboard */
+function AutoRefreshMenu({
+  value,
+  onChange,
+}: {
+  value: DashboardRefreshInterval
+  onChange: (value: DashboardRefreshInterval) => void
+}) {
+  const anchorRef = useRef<HTMLButtonElement>(null)
+  const [open, setOpen] = useState(false)
 
-interface ColumnMenuAction {
-  type: 'sort_asc' | 'sort_desc' | 'clear_sort' | 'filter' | 'rename' | 'hide_column'
+  return (
+    <>
+      <button
+        ref={anchorRef}
+        onClick={() => setOpen((v) => !v)}
+        className={cn(
+          'flex items-center gap-1 px-2 py-1.5 text-xs rounded-md transition-colors',
+          value === 'off' ? 'text-gray-400 hover:text-gray-600 hover:bg-gray-100' : 'text-gray-600 hover:bg-gray-100'
+        )}
+        title="Auto-refresh"
+      >
+        <Timer className="h-3 w-3" />
+        {value === 'off' ? 'Auto' : value === 'live' ? `${LIVE_REFRESH_MS / 1000}s` : value}
+      </button>
+      {open && (
+        <AutoRefreshPanel anchorRef={anchorRef} value={value} onChange={(v) => { onChange(v); setOpen(false) }} onClose={() => setOpen(false)} />
+      )}
+    </>
+  )
 }
 
-function ColumnContextMenu({
-  x,
-  y,
-  colKey,
-  displayName,
-  editMode,
-  sortCol,
-  sortDir,
-  onAction,
+function AutoRefreshPanel({
+  anchorRef,
+  value,
+  onChange,
   onClose,
 }: {
-  x: number
-  y: number
-  colKey: string
-  displayName: string
-  editMode: boolean
-  sortCol: string | null
-  sortDir: SortDir
-  onAction: (action: ColumnMenuAction) => void
+  anchorRef: React.RefObject<HTMLButtonElement | null>
+  value: DashboardRefreshInterval
+  onChange: (value: DashboardRefreshInterval) => void
   onClose: () => void
 }) {
-  const menuRef = useRef<HTMLDivElement>(null)
-
-  // Clamp position to viewport
-  const [pos, setPos] = useState({ top: y, left: x })
-  useLayoutEffect(() => {
-    const menuW = 180
-    const menuH = 200
-    let left = x
-    let top = y
-    if (left + menuW > window.innerWidth - 8) left = window.innerWidth - menuW - 8
-    if (left < 8) left = 8
-    if (top + menuH > window.innerHeight - 8) top = window.innerHeight - menuH - 8
-    if (top < 8) top = 8
-    setPos({ top, left })
-  }, [x, y])
-
-  // Close on outside click
-  useEffect(() => {
-    const handler = (e: MouseEvent) => {
-      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose()
-    }
-    document.addEventListener('mousedown', handler)
-    return () => document.removeEventListener('mousedown', handler)
-  }, [onClose])
+  const panelRef = useRef<HTMLDivElement>(null)
+  const pos = useAnchoredPosition(anchorRef, 240)
+  useOutsideClose(panelRef, anchorRef, onClose)
 
-  // Close on scroll
-  useEffect(() => {
-    const handler = () => onClose()
-    window.addEventListener('scroll', handler, true)
-    return () => window.removeEventListener('scroll', handler, true)
-  }, [onClose])
-
-  const isSortedAsc = sortCol === colKey && sortDir === 'asc'
-  const isSortedDesc = sortCol === colKey && sortDir === 'desc'
-  const isSorted = sortCol === colKey && sortDir !== null
-
-  const items: { label: string; icon: React.ReactNode; action: ColumnMenuAction; active?: boolean; danger?: boolean; show?: boolean; separator?: boolean }[] = [
-    { label: 'Sort ascending', icon: <ArrowUp size={12} />, action: { type: 'sort_asc' }, active: isSortedAsc, show: true },
-    { label: 'Sort descending', icon: <ArrowDown size={12} />, action: { type: 'sort_desc' }, active: isSortedDesc, show: true },
-    { label: 'Clear sort', icon: <X size={12} />, action: { type: 'clear_sort' }, show: isSorted },
-    { label: `Filter by "${displayName}"`, icon: <Filter size={12} />, action: { type: 'filter' }, show: true, separator: true },
-    { label: 'Rename column', icon: <Pencil size={12} />, action: { type: 'rename' }, show: editMode },
-    { label: 'Hide column', icon: <EyeOff size={12} />, action: { type: 'hide_column' }, show: true },
-  ]
+  if (!pos) return null
 
   return createPortal(
     <div
-      ref={menuRef}
+      ref={panelRef}
       style={{ position: 'fixed', top: pos.top, left: pos.left, zIndex: 9999 }}
-      className="bg-white border border-gray-200 rounded-md shadow-lg w-[180px] py-1 animate-in fade-in zoom-in-95 duration-100"
+      className="bg-white border border-gray-200 rounded-md shadow-lg w-[240px] py-1 text-xs"
     >
-      {items.filter((i) => i.show).map((item, idx) => (
-        <div key={idx}>
-          {item.separator && <div className="my-1 border-t border-gray-100" />}
-          <button
-            onClick={() => { onAction(item.action); onClose() }}
-            className={cn(
-              'w-full flex items-center gap-2 px-3 py-1.5 text-[11px] transition-colors cursor-pointer',
-              item.active ? 'text-gray-900 bg-gray-50 font-medium' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
-            )}
-          >
-          <span className="shrink-0 text-gray-400">{item.icon}</span>
-          <span className="truncate">{item.label}</span>
+      <div className="px-3 py-1.5 text-[10px] font-medium text-gray-400 uppercase tracking-wide">
+        Refresh data
+      </div>
+      {DASHBOARD_REFRESH_OPTIONS.map((opt) => (
+        <button
+          key={opt.value}
+          onClick={() => onChange(opt.value)}
+          className="w-full flex items-center justify-between px-3 py-1.5 text-gray-700 hover:bg-gray-50"
+        >
+          {opt.label}
+          {value === opt.value && <Check className="h-3 w-3 text-gray-500" />}
         </button>
-        </div>
       ))}
+      <p className="px-3 pt-1.5 pb-1 mt-1 border-t border-gray-100 text-[10px] text-gray-400 leading-snug">
+        {value === 'live'
+          ? `Polls Firestore tables every ${LIVE_REFRESH_MS / 1000} seconds if they have an updatedAt field, fetching only changed documents. Others are re-read whole, so they refresh every minute.`
+          : 'Refreshes while this tab is open, keeping widgets on screen. Paused in background tabs.'}
+      </p>
     </div>,
     document.body
   )
 }
 
-/* ───────── Pivot Header Context Menu ───────── */
-
-const DATE_TRUNCATION_OPTIONS: { value: DateTruncation; label: string }[] = [
-  { value: 'none', label: 'None (exact)' },
-  { value: 'hour', label: 'Hour' },
-  { value: 'day', label: 'Day' },
-  { value: 'week', label: 'Week' },
-  { value: 'month', label: 'Month' },
-  { value: 'quarter', label: 'Quarter' },
-  { value: 'year', label: 'Year' },
-]
+/* ---- Share links ---- */
 
-function PivotHeaderContextMenu({
-  x,
-  y,
-  columnKey,
-  displayName,
-  currentTruncation,
-  isDateColumn,
-  sortState,
-  onSort,
-  onTruncation,
-  onClose,
+/** Publishes the dashboard as a read-only link; anyone with it sees a snapshot, without GCP access */
+function ShareMenu({
+  dashboardId,
+  accessToken,
+  shareId,
+  onShareIdChange,
 }: {
-  x: number
-  y: number
-  columnKey: string
-  displayName: string
-  currentTruncation: DateTruncation | undefined
-  isDateColumn: boolean
-  sortState: 'asc' | 'desc' | null
-  onSort: (dir: 'asc' | 'desc' | null) => void
-  onTruncation: (col: string, trunc: DateTruncation | undefined) => void
-  onClose: () => void
+  dashboardId: string
+  accessToken: string | null
+  shareId: string | null
+  onShareIdChange: (shareId: string | null) => void
 }) {
-  const menuRef = useRef<HTMLDivElement>(null)
-  const [showDateSub, setShowDateSub] = useState(false)
-
-  // Clamp position
-  const [pos, setPos] = useState({ top: y, left: x })
-  useLayoutEffect(() => {
-    const menuW = 200
-    const menuH = 220
-    let left = x
-    let top = y
-    if (left + menuW > window.innerWidth - 8) left = window.innerWidth - menuW - 8
-    if (left < 8) left = 8
-    if (top + menuH > window.innerHeight - 8) top = window.innerHeight - menuH - 8
-    if (top < 8) top = 8
-    setPos({ top, left })
-  }, [x, y])
-
-  // Close on outside click
-  useEffect(() => {
-    const handler = (e: MouseEvent) => {
-      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose()
-    }
-    document.addEventListener('mousedown', handler)
-    return () => document.removeEventListener('mousedown', handler)
-  }, [onClose])
-
-  // Close on scroll
-  useEffect(() => {
-    const handler = () => onClose()
-    window.addEventListener('scroll', handler, true)
-    return () => window.removeEventListener('scroll', handler, true)
-  }, [onClose])
+  const anchorRef = useRef<HTMLButtonElement>(null)
+  const [open, setOpen] = useState(false)
 
-  return createPortal(
-    <div
-      ref={menuRef}
-      style={{ position: 'fixed', top: pos.top, left: pos.left, zIndex: 9999 }}
-      className="bg-white border border-gray-200 rounded-md shadow-lg w-[200px] py-1 animate-in fade-in zoom-in-95 duration-100"
-    >
-      {/* Sort options */}
-      <button
-        onClick={() => { onSort(sortState === 'asc' ? null : 'asc'); onClose() }}
-        className={cn(
-          'w-full flex items-center gap-2 px-3 py-1.5 text-[11px] transition-colors cursor-pointer',
-          sortState === 'asc' ? 'text-gray-900 bg-gray-50 font-medium' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
-        )}
-      >
-        <ArrowUp size={12} className="shrink-0 text-gray-400" />
-        <span>Sort ascending</span>
-      </button>
+  return (
+    <>
       <button
-        onClick={() => { onSort(sortState === 'desc' ? null : 'desc'); onClose() }}
+        ref={anchorRef}
+        onClick={() => setOpen((v) => !v)}
         className={cn(
-          'w-full flex items-center gap-2 px-3 py-1.5 text-[11px] transition-colors cursor-pointer',
-          sortState === 'desc' ? 'text-gray-900 bg-gray-50 font-medium' : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
+          'flex items-center gap-1 px-2 py-1.5 text-xs rounded-md transition-colors cursor-pointer',
+          shareId ? 'text-gray-700 hover:bg-gray-100' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
         )}
+        title={shareId ? 'Shared as a read-only link' : 'Share a read-only link'}
       >
-        <ArrowDown size={12} className="shrink-0 text-gray-400" />
-        <span>Sort descending</span>
+        <Share2 size={13} />
+        {shareId ? 'Shared' : 'Share'}
       </button>
-
-      {sortState !== null && (
-        <button
-          onClick={() => { onSort(null); onClose() }}
-          className="w-full flex items-center gap-2 px-3 py-1.5 text-[11px] text-gray-600 hover:bg-gray-50 hover:text-gray-900 transition-colors cursor-pointer"
-        >
-          <X size={12} className="shrink-0 text-gray-400" />
-          <span>Clear sort</span>
-        </button>
-      )}
-
-      {/* Date truncation section */}
-      {isDateColumn && (
-        <>
-          <div className="my-1 border-t border-gray-100" />
-          <div className="relative">
-            <button
-              onMouseEnter={() => setShowDateSub(true)}
-              onClick={() => setShowDateSub((v) => !v)}
-              className={cn(
-                'w-full flex items-center gap-2 px-3 py-1.5 text-[11px] transition-colors cursor-pointer',
-                currentTruncation && currentTruncation !== 'none'
-                  ? 'text-gray-900 bg-gray-50 font-medium'
-                  : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
-              )}
-            >
-              <Calendar size={12} className="shrink-0 text-gray-400" />
-              <span className="flex-1 text-left">
-                Date truncation
-                {currentTruncation && currentTruncation !== 'none' && (
-                  <span className="ml-1 text-gray-400 font-normal">({DATE_TRUNCATION_OPTIONS.find((o) => o.value === currentTruncation)?.label})</span>
-                )}
-              </span>
-              <ChevronRight size={10} className="shrink-0 text-gray-400" />
-            </button>
-
-            {/* Submenu */}
-            {showDateSub && (
-              <div
-                className="absolute left-full top-0 ml-1 bg-white border border-gray-200 rounded-md shadow-lg w-[150px] py-1 animate-in fade-in zoom-in-95 duration-100"
-                onMouseLeave={() => setShowDateSub(false)}
-              >
-                {DATE_TRUNCATION_OPTIONS.map((opt) => (
-                  <button
-                    key={opt.value}
-                    onClick={() => {
-                      onTruncation(columnKey, opt.value === 'none' ? undefined : opt.value)
-                      onClose()
-                    }}
-                    className={cn(
-                      'w-full flex items-center gap-2 px-3 py-1.5 text-[11px] transition-colors cursor-pointer',
-                      (currentTruncation || 'none') === opt.value
-                        ? 'text-gray-900 bg-gray-50 font-medium'
-                        : 'text-gray-600 hover:bg-gray-50 hover:text-gray-900'
-                    )}
-                  >
-                    {opt.value === 'hour' && <Clock size={11} className="shrink-0 text-gray-400" />}
-                    {opt.value !== 'hour' && opt.value !== 'none' && <Calendar size={11} className="shrink-0 text-gray-400" />}
-                    {opt.value === 'none' && <X size={11} className="shrink-0 text-gray-400" />}
-                    <span>{opt.label}</span>
-                  </button>
-                ))}
-              </div>
-            )}
-          </div>
-        </>
-      )}
-
-      {/* Remove truncation if currently set */}
-      {currentTruncation && currentTruncation !== 'none' && (
-        <button
-          onClick={() => { onTruncation(columnKey, undefined); onClose() }}
-          className="w-full flex items-center gap-2 px-3 py-1.5 text-[11px] text-gray-600 hover:bg-gray-50 hover:text-gray-900 transition-colors cursor-pointer"
-        >
-          <X size={12} className="shrink-0 text-gray-400" />
-          <span>Remove truncation</span>
-        </button>
+      {open && (
+        <SharePanel
+          anchorRef={anchorRef}
+          dashboardId={dashboardId}
+          accessToken={accessToken}
+          shareId={shareId}
+          onShareIdChange={onShareIdChange}
+          onClose={() => setOpen(false)}
+        />
       )}
-    </div>,
-    document.body
+    </>
   )
 }
 
-function FilterPanel({
-  filters,
-  columns,
-  onChange,
-  onClose,
+function SharePanel({
   anchorRef,
+  dashboardId,
+  accessToken,
+  shareId,
+  onShareIdChange,
+  onClose,
 }: {
-  filters: WidgetFilter[]
-  columns: string[]
-  onChange: (filters: WidgetFilter[]) => void
-  onClose: () => void
   anchorRef: React.RefObject<HTMLButtonElement | null>
+  dashboardId: string
+  accessToken: string | null
+  shareId: string | null
+  onShareIdChange: (shareId: string | null) => void
+  onClose: () => void
 }) {
   const panelRef = useRef<HTMLDivElement>(null)
-  const [pos, setPos] = useState<{ top: number; left: number } | null>(null)
-
-  // Position the panel below the anchor button
-  useLayoutEffect(() => {
-    if (!anchorRef.current) return
-    const rect = anchorRef.current.getBoundingClientRect()
-    let left = rect.left
-    // Clamp so it doesn't overflow the right edge
-    const panelW = 340
-    if (left + panelW > window.innerWidth - 16) {
-      left = window.innerWidth - panelW - 16
-    }
-    if (left < 8) left = 8
-    setPos({ top: rect.bottom + 4, left })
-  }, [anchorRef])
+  const pos = useAnchoredPosition(anchorRef, 320)
+  useOutsideClose(panelRef, anchorRef, onClose)
+
+  // Settings of the link loaded so far, keyed by its id so a new link starts fresh
+  const [loaded, setLoaded] = useState<{ shareId: string; settings: DashboardShareSettings } | null>(null)
+  const settings = shareId && loaded?.shareId === shareId ? loaded.settings : null
+  const [password, setPassword] = useState('')
+  const [domain, setDomain] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
 
-  // Close on outside click
   useEffect(() => {
-    const handler = (e: MouseEvent) => {
-      if (panelRef.current && !panelRef.current.contains(e.target as Node) && anchorRef.current && !anchorRef.current.contains(e.target as Node)) {
-        onClose()
-      }
-    }
-    document.addEventListener('mousedown', handler)
-    return () => document.removeEventListener('mousedown', handler)
-  }, [onClose, anchorRef])
-
-  const addFilter = () => {
-    onChange([...filters, { id: `f-${Date.now()}`, column: columns[0] ?? '', operator: 'contains', value: '' }])
-  }
+    if (!shareId || !db) return
+    let cancelled = false
+    getDoc(doc(db, 'sharedDashboards', shareId))
+      .then((snap) => {
+        if (cancelled) return
+        const data = snap.data()
+        setLoaded({
+          shareId,
+          settings: { hasPassword: !!data?.passwordHash, allowedDomain: data?.allowedDomain ?? '' },
+        })
+      })
+      .catch((err) => {
+        console.error('Failed to load share settings:', err)
+        if (!cancelled) setError('Couldn’t load the link’s settings')
+      })
+    return () => { cancelled = true }
+  }, [shareId])
 
-  const updateFilter = (id: string, patch: Partial<WidgetFilter>) => {
-    onChange(filters.map((f) => f.id === id ? { ...f, ...patch } : f))
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      console.error('Share update failed:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update the link')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  // The server hashes passwords and re-checks access to the dashboard's tables
+  const publish = (changes: ShareLinkChanges = {}) => run(async () => {
+    const link = await publishShareLink(dashboardId, changes, accessToken)
+    setLoaded({ shareId: link.shareId, settings: { hasPassword: link.hasPassword, allowedDomain: link.allowedDomain } })
+    if (link.shareId !== shareId) onShareIdChange(link.shareId)
+  })
+
+  const revoke = () => run(async () => {
+    await revokeShareLink(dashboardId)
+    setLoaded(null)
+    onShareIdChange(null)
+  })
+
+  const savePassword = () => {
+    if (!settings || !password) return
+    publish({ password })
+    setPassword('')
   }
 
-  const removeFilter = (id: string) => {
-    onChange(filters.filter((f) => f.id !== id))
+  const saveDomain = () => {
+    if (!settings || domain === null) return
+    const next = domain.trim().toLowerCase().replace(/^@/, '')
+    setDomain(null)
+    if (next === settings.allowedDomain) return
+    publish({ allowedDomain: next || null })
   }
 
-  const noValueOps: FilterOperator[] = ['is_empty', 'is_not_empty']
+  const copyLink = () => {
+    if (!shareId) return
+    navigator.clipboard.writeText(shareUrl(shareId))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
 
   if (!pos) return null
 
+  const inputCls = 'w-full text-xs border border-gray-200 rounded-md px-2 py-1 focus:outline-none focus:ring-1 focus:ring-gray-300 focus:border-gray-300 bg-white'
+
   return createPortal(
     <div
       ref={panelRef}
       style={{ position: 'fixed', top: pos.top, left: pos.left, zIndex: 9999 }}
-      className="bg-white border border-gray-200 rounded-md shadow-lg w-[340px] max-h-[320px] overflow-auto"
-      onMouseDown={(e) => e.stopPropagation()}
-      onClick={(e) => e.stopPropagation()}
+      className="bg-white border border-gray-200 rounded-md shadow-lg w-[320px] text-xs"
     >
-      <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100">
-        <span className="text-xs font-medium text-gray-700">Filters</span>
-        <button onClick={onClose} className="p-0.5 text-gray-400 hover:text-gray-600 transition-colors cursor-pointer">
-          <X size={12} />
-        </button>
+      <div className="px-3 py-2 border-b border-gray-100">
+        <p className="text-xs font-medium text-gray-900">Share a read-only link</p>
+        <p className="text-[10px] text-gray-400 leading-snug">
+          Viewers see a snapshot of the widgets, refreshed every few minutes. They don&apos;t need access to your Google Cloud projects, and only get the columns your widgets and filters use.
+        </p>
       </div>
 
-      <div className="p-2 space-y-2">
-        {filters.length === 0 && (
-          <p className="text-[10px] text-gray-400 text-center py-2">No filters applied</p>
-        )}
+      {!shareId ? (
+        <div className="p-3">
+          <button
+            onClick={() => publish()}
+            disabled={busy}
+            className="w-full flex items-center justify-center gap-1.5 bg-gray-900 text-white text-xs font-medium rounded-md px-2.5 py-1.5 hover:bg-gray-800 transition-colors disabled:opacity-50 cursor-pointer"
+          >
+            {busy ? <Loader2 className="h-3 w-3 animate-spin" /> : <Share2 className="h-3 w-3" />}
+            Create link
+          </button>
+        </div>
+      ) : (
+        <div className="p-3 space-y-3">
+          <div className="flex items-center gap-1.5">
+            <input readOnly value={shareUrl(shareId)} onFocus={(e) => e.target.select()} className={cn(inputCls, 'text-gray-500')} />
+            <button
+              onClick={copyLink}
+              className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-md transition-colors cursor-pointer shrink-0"
+              title={copied ? 'Copied!' : 'Copy link'}
+            >
+              {copied ? <Check size={12} className="text-green-500" /> : <Copy size={12} />}
+            </button>
+            <a
+              href={shareUrl(shareId)}
+              target="_blank"
+              rel="noreferrer"
+              className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-md transition-colors shrink-0"
+              title="Open link"
+            >
+              <ExternalLink size={12} />
+            </a>
+          </div>
 
-        {filters.map((f) => (
-          <div key={f.id} className="flex items-start gap-1.5">
-            <div className="flex-1 space-y-1">
-              <select
-                value={f.column}
-                onChange={(e) => updateFilter(f.id, { column: e.target.value })}
-                className="w-full text-[10px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400"
-              >
-                {columns.map((col) => (
-                  <option key={col} value={col}>{col}</option>
-                ))}
-              </select>
-              <select
-                value={f.operator}
-                onChange={(e) => updateFilter(f.id, { operator: e.target.value as FilterOperator })}
-                className="w-full text-[10px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400"
-              >
-                {FILTER_OPERATORS.map((op) => (
-                  <option key={op.value} value={op.value}>{op.label}</option>
-                ))}
-              </select>
-              {!noValueOps.includes(f.operator) && (
+          {!settings ? (
+            !error && (
+              <div className="flex items-center gap-1.5 text-[11px] text-gray-400">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Loading settings…
+              </div>
+            )
+          ) : (
+            <>
+              <div className="space-y-1">
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wide">Password</label>
+                {settings.hasPassword ? (
+                  <div className="flex items-center justify-between text-[11px] text-gray-600">
+                    <span className="flex items-center gap-1"><Lock size={11} className="text-gray-400" /> Viewers need a password</span>
+                    <button
+                      onClick={() => publish({ password: null })}
+                      disabled={busy}
+                      className="text-gray-400 hover:text-red-500 transition-colors cursor-pointer disabled:opacity-50"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-1.5">
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      onKeyDown={(e) => { if (e.key === 'Enter') savePassword() }}
+                      placeholder="Optional"
+                      autoComplete="new-password"
+                      className={inputCls}
+                    />
+                    <button
+                      onClick={savePassword}
+                      disabled={busy || !password}
+                      className="px-2 py-1 text-[11px] font-medium text-gray-600 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-40 cursor-pointer shrink-0"
+                    >
+                      Set
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-1">
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wide">Only people at</label>
                 <input
-                  type="text"
-                  value={f.value}
-                  onChange={(e) => updateFilter(f.id, { value: e.target.value })}
-                  placeholder="Value…"
-                  className="w-full text-[10px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400 placeholder:text-gray-300"
+                  value={domain ?? settings.allowedDomain}
+                  onChange={(e) => setDomain(e.target.value)}
+                  onBlur={saveDomain}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur() }}
+                  placeholder="example.com (optional)"
+                  className={inputCls}
                 />
-              )}
-            </div>
+                <p className="text-[10px] text-gray-400 leading-snug">
+                  Viewers sign in with Google and need a verified email at this domain.
+                </p>
+              </div>
+            </>
+          )}
+
+          <div className="pt-2 border-t border-gray-100 flex items-center justify-between">
+            <span className="text-[10px] text-gray-400">Revoking stops the link working for everyone</span>
             <button
-              onClick={() => removeFilter(f.id)}
-              className="mt-0.5 p-1 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-gray-50 cursor-pointer shrink-0"
+              onClick={revoke}
+              disabled={busy}
+              className="px-2 py-1 text-[11px] font-medium text-red-500 hover:bg-red-50 rounded-md transition-colors disabled:opacity-50 cursor-pointer"
             >
-              <Trash2 size={11} />
+              Revoke
             </button>
           </div>
-        ))}
-      </div>
+        </div>
+      )}
 
-      <div className="px-2 pb-2">
-        <button
-          onClick={addFilter}
-          className="w-full flex items-center justify-center gap-1 text-[10px] font-medium text-gray-500 hover:text-gray-700 hover:bg-gray-50 rounded-md py-1.5 transition-colors cursor-pointer"
-        >
-          <Plus size={10} />
-          Add filter
-        </button>
-      </div>
+      {error && <p className="px-3 pb-2 text-[10px] text-red-500">{error}</p>}
     </div>,
     document.body
   )
 }
 
-/* ---- Formula evaluator ---- */
-function evaluateFormula(
-  formula: string,
-  row: Record<string, unknown>,
-  prefix?: string,
-  suffix?: string
-): unknown {
-  try {
-    // Replace [ColumnName] references with actual values
-    let expr = formula
-    const refPattern = /\[([^\]]+)\]/g
-    const refs: { name: string; value: number }[] = []
-    let match: RegExpExecArray | null
-    while ((match = refPattern.exec(formula)) !== null) {
-      const colName = match[1]
-      // Find value by sourcePath, alias, or custom column key
-      let raw: unknown = undefined
-      for (const [key, val] of Object.entries(row)) {
-        if (key === colName || key.endsWith(`.${colName}`)) {
-          raw = val
-          break
-        }
-      }
-      const num = raw != null ? parseFloat(String(raw)) : NaN
-      if (isNaN(num)) return '—'
-      refs.push({ name: colName, value: num })
-      expr = expr.replace(match[0], `__ref${refs.length - 1}__`)
-    }
-
-    // Handle IF(condition, trueVal, falseVal)
-    const ifPattern = /IF\s*\((.+?),(.+?),(.+?)\)/gi
-    expr = expr.replace(ifPattern, (_, cond, trueVal, falseVal) => {
-      // Replace comparison operators
-      let evalCond = cond.trim()
-      // Replace refs in condition
-      for (let i = 0; i < refs.length; i++) {
-        evalCond = evalCond.replace(new RegExp(`__ref${i}__`, 'g'), String(refs[i].value))
-      }
-      // Simple evaluation: support =, !=, >, <, >=, <=
-      const compMatch = evalCond.match(/^(.+?)\s*(>=|<=|!=|=|>|<)\s*(.+)$/)
-      if (compMatch) {
-        const left = parseFloat(compMatch[1])
-        const right = parseFloat(compMatch[3])
-        const op = compMatch[2]
-        let result = false
-        if (op === '=' || op === '==') result = left === right
-        else if (op === '!=') result = left !== right
-        else if (op === '>') result = left > right
-        else if (op === '<') result = left < right
-        else if (op === '>=') result = left >= right
-        else if (op === '<=') result = left <= right
-        return result ? trueVal.trim() : falseVal.trim()
-      }
-      return falseVal.trim()
-    })
-
-    // Replace remaining refs with numeric values
-    for (let i = 0; i < refs.length; i++) {
-      expr = expr.replace(new RegExp(`__ref${i}__`, 'g'), String(refs[i].value))
-    }
-
-    // Handle common functions: ROUND, ABS, CEIL, FLOOR, MIN, MAX
-    expr = expr.replace(/ROUND\s*\((.+?)\)/gi, (_, inner) => {
-      const num = parseFloat(inner)
-      return isNaN(num) ? inner : String(Math.round(num))
-    })
-    expr = expr.replace(/ABS\s*\((.+?)\)/gi, (_, inner) => {
-      const num = parseFloat(inner)
-      return isNaN(num) ? inner : String(Math.abs(num))
-    })
-    expr = expr.replace(/CEIL\s*\((.+?)\)/gi, (_, inner) => {
-      const num = parseFloat(inner)
-      return isNaN(num) ? inner : String(Math.ceil(num))
-    })
-    expr = expr.replace(/FLOOR\s*\((.+?)\)/gi, (_, inner) => {
-      const num = parseFloat(inner)
-      return isNaN(num) ? inner : String(Math.floor(num))
-    })
+/* ---- AI dashboard generation ---- */
 
-    // Safely evaluate arithmetic expression (only numbers and operators)
-    const sanitised = expr.replace(/[^0-9+\-*/().%\s]/g, '')
-    if (!sanitised.trim()) return '—'
-    // eslint-disable-next-line no-eval
-    const result = Function(`"use strict"; return (${sanitised})`)()
-    if (typeof result !== 'number' || isNaN(result)) return '—'
-    const formatted = Number.isInteger(result)
-      ? result.toLocaleString()
-      : result.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 2 })
-    return `${prefix ?? ''}${formatted}${suffix ?? ''}`
-  } catch {
-    return '—'
-  }
+const GENERATED_WIDTHS: Record<NonNullable<GeneratedDashboardWidget['width']>, number> = {
+  full: GRID_MAX_W,
+  half: 12,
+  third: 8,
+  quarter: 6,
 }
 
-/* ---- Widget Card Component ---- */
-
-function WidgetCard({
-  widget,
-  table,
-  accessToken,
-  isFullWidth,
-  editMode,
-  globalFetchKey,
-  onRemove,
-  onDuplicate,
-  onToggleFullWidth,
-  onDisplayNameChange,
-  onColumnAliasChange,
-  onFiltersChange,
-  onHiddenColumnsChange,
-  onColumnOrderChange,
-  onOpenConfig,
-  onOpenTable,
-  onColumnFormatsChange,
-  onColumnSelect,
-}: {
-  widget: DashboardWidget
-  table: SavedTable | undefined
-  accessToken: string | null
-  isFullWidth: boolean
-  editMode: boolean
-  globalFetchKey: number
-  onRemove: () => void
-  onDuplicate: () => void
-  onToggleFullWidth: () => void
-  onDisplayNameChange: (name: string) => void
-  onColumnAliasChange: (sourcePath: string, alias: string) => void
-  onFiltersChange: (filters: WidgetFilter[]) => void
-  onHiddenColumnsChange: (cols: string[]) => void
-  onColumnOrderChange: (order: string[]) => void
-  onOpenConfig: () => void
-  onOpenTable: () => void
-  onColumnFormatsChange: (formats: Record<string, ColumnFormat>) => void
-  onColumnSelect: (colKey: string) => void
-}) {
-  const [rows, setRows] = useState<Record<string, unknown>[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [fetchKey, setFetchKey] = useState(0)
-  const [sortCol, setSortCol] = useState<string | null>(null)
-  const [sortDir, setSortDir] = useState<SortDir>(null)
-
-  // Inline rename state for widget title
-  const [editingTitle, setEditingTitle] = useState(false)
-  const [draftTitle, setDraftTitle] = useState('')
-  const titleInputRef = useRef<HTMLInputElement>(null)
-
-  // Inline rename state for column headers
-  const [editingColKey, setEditingColKey] = useState<string | null>(null)
-  const [draftColName, setDraftColName] = useState('')
-  const colInputRef = useRef<HTMLInputElement>(null)
-
-  // Filter panel state
-  const [showFilters, setShowFilters] = useState(false)
-  const filterBtnRef = useRef<HTMLButtonElement>(null)
-
-  // Column context menu state
-  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; colKey: string; displayName: string } | null>(null)
-
-  // Quick column format toolbar state
-  const [formatToolbarCol, setFormatToolbarCol] = useState<string | null>(null)
-  const [formatToolbarRect, setFormatToolbarRect] = useState<{ top: number; left: number; width: number; bottom: number } | null>(null)
-
-  const openFormatToolbar = useCallback((colKey: string, thElement: HTMLElement) => {
-    const rect = thElement.getBoundingClientRect()
-    setFormatToolbarRect({ top: rect.top, left: rect.left, width: rect.width, bottom: rect.bottom })
-    setFormatToolbarCol(colKey)
-  }, [])
+// Default size per widget type, matching what addElement / addWidget create
+const GENERATED_SIZES: Record<GeneratedDashboardWidget['type'], { w: number; h: number; minW: number; minH: number }> = {
+  heading: { w: GRID_MAX_W, h: 8, minW: 4, minH: 6 },
+  text:    { w: GRID_MAX_W, h: 12, minW: 4, minH: 8 },
+  metric:  { w: 6, h: 20, minW: 3, minH: 16 },
+  chart:   { w: 12, h: 48, minW: 6, minH: 28 },
+  pivot:   { w: GRID_MAX_W, h: 56, minW: 6, minH: 28 },
+  table:   { w: GRID_MAX_W, h: 56, minW: WIDGET_MIN_W, minH: WIDGET_MIN_H },
+}
 
-  const handleFormatApply = useCallback((colKey: string, fmt: ColumnFormat | null) => {
-    const prev = widget.columnFormats || {}
-    if (fmt === null) {
-      const next = { ...prev }
-      delete next[colKey]
-      onColumnFormatsChange(next)
-    } else {
-      onColumnFormatsChange({ ...prev, [colKey]: fmt })
-    }
-  }, [widget.columnFormats, onColumnFormatsChange])
+const GENERATED_AGGREGATIONS: AggregationType[] = ['count', 'sum', 'average', 'min', 'max', 'count_distinct']
 
-  // Fetch live data for this widget
-  useEffect(() => {
-    if (!table) return
+/** Tables and columns the model may use: every saved table's visible columns */
+function toDashboardTableSchemas(savedTables: SavedTable[]): DashboardTableSchema[] {
+  return savedTables.map((t) => ({
+    id: t.id,
+    tableName: t.tableName,
+    columns: t.columns
+      .filter((c) => c.visible)
+      .map((c) => ({ key: c.sourcePath, alias: c.alias || c.sourcePath, dataType: c.dataType })),
+  }))
+}
 
-    // Query tables: use stored queryData
-    if (table.projectId === '__query__') {
-      if (table.queryData && table.queryData.length > 0) {
-        setRows(table.queryData)
-      }
+/**
+ * Turns the model's widgets into dashboard widgets laid out left to right in
+ * the order given. Widgets that reference unknown tables or columns are
+ * dropped and reported in `skipped` rather than added half-configured.
+ */
+function toGeneratedWidgets(
+  generated: GeneratedDashboardWidget[],
+  savedTables: SavedTable[]
+): { widgets: DashboardWidget[]; skipped: string[] } {
+  const widgets: DashboardWidget[] = []
+  const skipped: string[] = []
+  const stamp = Date.now()
+  let x = 0
+  let y = 0
+  let rowHeight = 0
+
+  generated.forEach((g, idx) => {
+    const size = GENERATED_SIZES[g.type]
+    if (!size) {
+      skipped.push(`"${g.title}": unsupported widget type "${g.type}"`)
       return
     }
-
-    // Firestore tables: fetch live data via REST API
-    if (!accessToken) return
-
-    let cancelled = false
-    setLoading(true)
-    setError(null)
-
-    const load = async () => {
-      try {
-        const documents = await fetchAllDocuments(
-          accessToken,
-          table.projectId,
-          table.collectionPath,
-          { isCollectionGroup: table.isCollectionGroup, isCancelled: () => cancelled }
-        )
-
-        if (cancelled) return
-
-        // Flatten just like TableBuilderPage does
-        const flattened = documents.map((d) => {
-          const { __id, __path, __parentId, ...rest } = d
-          return {
-            __id,
-            ...(table.isCollectionGroup
-              ? { __path: __path ?? '', __parentId: __parentId ?? '' }
-              : {}),
-            ...flattenObject(rest as Record<string, unknown>),
-          }
-        })
-        setRows(flattened)
-      } catch (err) {
-        if (cancelled) return
-        console.error(`Failed to fetch data for ${table.tableName}:`, err)
-        setError(err instanceof Error ? err.message : 'Failed to load data')
-      } finally {
-        if (!cancelled) setLoading(false)
+    const title = g.title?.trim() || 'Untitled'
+    const table = g.tableId ? savedTables.find((t) => t.id === g.tableId) : undefined
+    const columnKeys = new Set(table?.columns.filter((c) => c.visible).map((c) => c.sourcePath) ?? [])
+    const hasColumn = (key: string | undefined) => !!key && columnKeys.has(key)
+    const aggregation = (agg: string | undefined): AggregationType | null =>
+      GENERATED_AGGREGATIONS.includes(agg as AggregationType) ? (agg as AggregationType) : null
+
+    let config: Partial<DashboardWidget> = {}
+    if (g.type === 'heading' || g.type === 'text') {
+      config = { content: g.content?.trim() || title }
+    } else if (!table) {
+      skipped.push(`"${title}": unknown table`)
+      return
+    } else if (g.type === 'table') {
+      config = { tableId: table.id, tableName: table.tableName, displayName: title }
+    } else if (g.type === 'metric') {
+      const agg = aggregation(g.metric?.aggregation)
+      if (!g.metric || !agg || (agg !== 'count' && !hasColumn(g.metric.column))) {
+        skipped.push(`"${title}": no valid column to aggregate`)
+        return
+      }
+      const dateColumn = hasColumn(g.metric.dateColumn) ? g.metric.dateColumn : undefined
+      config = {
+        metricConfig: {
+          tableId: table.id,
+          aggregation: agg,
+          column: agg === 'count' ? '' : g.metric.column!,
+          label: title,
+          ...(dateColumn ? { dateColumn } : {}),
+          ...(dateColumn && g.metric.timeframe && g.metric.timeframe !== 'all' ? { timeframe: g.metric.timeframe } : {}),
+          ...(g.metric.prefix ? { prefix: g.metric.prefix } : {}),
+          ...(g.metric.suffix ? { suffix: g.metric.suffix } : {}),
+        },
+      }
+    } else if (g.type === 'chart') {
+      const agg = aggregation(g.chart?.aggregation)
+      if (!g.chart || !agg || !hasColumn(g.chart.categoryColumn) || (agg !== 'count' && !hasColumn(g.chart.valueColumn))) {
+        skipped.push(`"${title}": unknown chart columns`)
+        return
+      }
+      config = {
+        chartConfig: {
+          chartType: CHART_TYPE_OPTIONS.find((o) => o.value === g.chart!.chartType)?.value ?? 'bar',
+          tableId: table.id,
+          categoryColumn: g.chart.categoryColumn,
+          valueColumn: agg === 'count' ? '' : g.chart.valueColumn!,
+          aggregation: agg,
+          label: title,
+          maxBars: g.chart.maxBars && g.chart.maxBars > 0 ? Math.min(100, g.chart.maxBars) : 20,
+          sortBy: g.chart.sortBy === 'category' ? 'category' : 'value',
+          ...(g.chart.dateTruncate ? { dateTruncate: g.chart.dateTruncate } : {}),
+        },
+      }
+    } else {
+      const rowColumns = (g.pivot?.rowColumns ?? []).filter(hasColumn)
+      const colColumns = (g.pivot?.colColumns ?? []).filter(hasColumn)
+      const values: PivotValueConfig[] = (g.pivot?.values ?? [])
+        .filter((v) => aggregation(v.aggregation) && hasColumn(v.column))
+        .map((v, vi) => ({ id: `val-${stamp}-${idx}-${vi}`, column: v.column, aggregation: v.aggregation }))
+      if (rowColumns.length === 0 || values.length === 0) {
+        skipped.push(`"${title}": no valid rows or values`)
+        return
       }
+      config = { displayName: title, pivotConfig: { tableId: table.id, rowColumns, colColumns, values } }
     }
 
-    load()
-    return () => { cancelled = true }
-  }, [table?.id, accessToken, fetchKey, globalFetchKey])
-
-  const handleRetry = useCallback(() => {
-    setFetchKey((k) => k + 1)
-  }, [])
-
-  const handleSort = useCallback((colKey: string) => {
-    setSortCol((prev) => {
-      if (prev !== colKey) {
-        setSortDir('asc')
-        return colKey
-      }
-      // Cycle: asc → desc → none
-      setSortDir((d) => {
-        if (d === 'asc') return 'desc'
-        if (d === 'desc') return null
-        return 'asc'
-      })
-      return colKey
+    const w = Math.max(size.minW, g.width ? GENERATED_WIDTHS[g.width] ?? size.w : size.w)
+    if (x + w > GRID_MAX_W) {
+      x = 0
+      y += rowHeight + 2
+      rowHeight = 0
+    }
+    widgets.push({
+      i: `${g.type}-${stamp}-${idx}`,
+      type: g.type,
+      tableId: '',
+      tableName: '',
+      ...config,
+      x,
+      y,
+      w,
+      h: size.h,
+      minW: size.minW,
+      minH: size.minH,
     })
-  }, [])
+    x += w
+    rowHeight = Math.max(rowHeight, size.h)
+  })
 
-  // Clear sort when switching to a column that ended up null
-  useEffect(() => {
-    if (sortDir === null) setSortCol(null)
-  }, [sortDir])
+  return { widgets, skipped }
+}
 
-  // Auto-focus title input
-  useEffect(() => {
-    if (editingTitle) setTimeout(() => { titleInputRef.current?.focus(); titleInputRef.current?.select() }, 50)
-  }, [editingTitle])
+function GenerateDashboardModal({
+  savedTables,
+  hasWidgets,
+  onApply,
+  onClose,
+}: {
+  savedTables: SavedTable[]
+  /** Whether the canvas already has widgets (offers add vs replace) */
+  hasWidgets: boolean
+  onApply: (widgets: DashboardWidget[], name: string, mode: 'append' | 'replace') => void
+  onClose: () => void
+}) {
+  const { user } = useAuth()
+  const [prompt, setPrompt] = useState('')
+  const [provider, setProvider] = useState<AiProviderSettings>(() => getAiProviderSettings(user?.uid))
+  const [showSettings, setShowSettings] = useState(false)
+  const [generating, setGenerating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<{ name: string; widgets: DashboardWidget[]; skipped: string[] } | null>(null)
 
-  // Auto-focus column input
-  useEffect(() => {
-    if (editingColKey) setTimeout(() => { colInputRef.current?.focus(); colInputRef.current?.select() }, 50)
-  }, [editingColKey])
-
-  const commitTitle = () => {
-    setEditingTitle(false)
-    const trimmed = draftTitle.trim()
-    if (trimmed && trimmed !== (widget.displayName || table?.tableName || '')) {
-      onDisplayNameChange(trimmed)
-    }
-  }
+  const configured = isAiProviderConfigured(provider)
 
-  const commitColRename = () => {
-    if (!editingColKey) return
-    setEditingColKey(null)
-    const trimmed = draftColName.trim()
-    if (trimmed) {
-      onColumnAliasChange(editingColKey, trimmed)
-    }
+  const updateProvider = (settings: AiProviderSettings) => {
+    setProvider(settings)
+    setAiProviderSettings(user?.uid, settings)
   }
 
-  const handleColumnContextAction = useCallback((action: ColumnMenuAction, colKey: string, displayName: string) => {
-    switch (action.type) {
-      case 'sort_asc':
-        setSortCol(colKey)
-        setSortDir('asc')
-        break
-      case 'sort_desc':
-        setSortCol(colKey)
-        setSortDir('desc')
-        break
-      case 'clear_sort':
-        setSortCol(null)
-        setSortDir(null)
-        break
-      case 'filter': {
-        const existing = widget.filters ?? []
-        const newFilter: WidgetFilter = { id: `f-${Date.now()}`, column: colKey, operator: 'contains', value: '' }
-        onFiltersChange([...existing, newFilter])
-        setShowFilters(true)
-        break
-      }
-      case 'rename':
-        if (editMode) {
-          setDraftColName(displayName)
-          setEditingColKey(colKey)
-        }
-        break
-      case 'hide_column': {
-        const current = widget.hiddenColumns ?? []
-        if (!current.includes(colKey)) {
-          onHiddenColumnsChange([...current, colKey])
-        }
-        break
+  const handleGenerate = async () => {
+    if (!prompt.trim() || generating) return
+    setGenerating(true)
+    setError(null)
+    try {
+      const generated = await generateDashboardFromPrompt(provider, prompt.trim(), toDashboardTableSchemas(savedTables))
+      const { widgets, skipped } = toGeneratedWidgets(generated.widgets, savedTables)
+      if (widgets.length === 0) {
+        throw new Error(`None of the suggested widgets match your tables${skipped.length > 0 ? ` (${skipped.join('; ')})` : ''}`)
       }
+      setResult({ name: generated.name, widgets, skipped })
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate dashboard')
+    } finally {
+      setGenerating(false)
     }
-  }, [widget.filters, widget.hiddenColumns, editMode, onFiltersChange, onHiddenColumnsChange])
-
-  if (!table) {
-    return (
-      <div className="h-full bg-white rounded-md border border-gray-200 flex items-center justify-center">
-        <p className="text-xs text-gray-400">Table not found</p>
-      </div>
-    )
   }
 
-  const hiddenSet = new Set(widget.hiddenColumns ?? [])
-  const visibleSourceCols = table.columns.filter((c) => c.visible && !hiddenSet.has(c.sourcePath))
-  // Build a unified column list mixing source + custom columns
-  type UnifiedCol = { key: string; displayName: string; isCustom: boolean; customCol?: CustomColumn; sourceCol?: ColumnConfig }
-  const customCols = widget.customColumns ?? []
-  const allUnifiedCols: UnifiedCol[] = [
-    ...visibleSourceCols.map((c) => ({
-      key: c.sourcePath,
-      displayName: widget.columnAliases?.[c.sourcePath] || c.alias || c.sourcePath,
-      isCustom: false,
-      sourceCol: c,
-    })),
-    ...customCols.filter((cc) => !hiddenSet.has(`custom:${cc.id}`)).map((cc) => ({
-      key: `custom:${cc.id}`,
-      displayName: cc.name,
-      isCustom: true,
-      customCol: cc,
-    })),
-  ]
-
-  // Apply column ordering if set
-  const orderedCols = widget.columnOrder
-    ? widget.columnOrder.map((k) => allUnifiedCols.find((c) => c.key === k)).filter(Boolean) as UnifiedCol[]
-    : allUnifiedCols
-  // Add any cols not in order list (new columns)
-  const orderedSet = new Set(widget.columnOrder ?? [])
-  const unordered = allUnifiedCols.filter((c) => !orderedSet.has(c.key))
-  const visibleCols = [...orderedCols, ...unordered]
-
-  // Compute custom column values
-  const computedRows = rows.map((row) => {
-    const extendedRow = { ...row }
-    for (const cc of customCols) {
-      extendedRow[`custom:${cc.id}`] = evaluateFormula(cc.formula, row, cc.formatPrefix, cc.formatSuffix)
-    }
-    return extendedRow
-  })
-
-  // Show all columns when full width, otherwise cap at 6
-  const previewCols = isFullWidth ? visibleCols : visibleCols.slice(0, 6)
-  const hiddenColCount = isFullWidth ? 0 : Math.max(0, visibleCols.length - 6)
-  const removedColCount = (widget.hiddenColumns ?? []).length
-  const filteredRows = applyWidgetFilters(computedRows, widget.filters)
-  const displayRows = sortRows(filteredRows, sortCol, sortDir)
-  const activeFilterCount = (widget.filters ?? []).filter((f) => f.column && f.operator).length
-
   return (
-    <div className="h-full bg-white rounded-md border border-gray-200 flex flex-col overflow-hidden shadow-sm hover:shadow-md transition-shadow">
-      {/* Widget Header — draggable in edit mode */}
-      <div className={cn(
-        'widget-drag-handle flex items-center justify-between px-3 py-2 shrink-0 select-none',
-        editMode ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'
-      )}>
-        <div className="flex items-center gap-2 min-w-0">
-          {editingTitle && editMode ? (
-            <input
-              ref={titleInputRef}
-              type="text"
-              value={draftTitle}
-              onChange={(e) => setDraftTitle(e.target.value)}
-              onBlur={commitTitle}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') commitTitle()
-                if (e.key === 'Escape') setEditingTitle(false)
-              }}
-              onMouseDown={(e) => e.stopPropagation()}
-              className="w-full text-xs font-medium text-gray-900 bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none py-0"
-            />
-          ) : (
-            <h4
-              className={cn('text-xs font-medium text-gray-900 truncate', editMode && 'cursor-text')}
-              onDoubleClick={() => {
-                if (!editMode) return
-                setDraftTitle(widget.displayName || table.tableName)
-                setEditingTitle(true)
-              }}
+    <div className="fixed inset-0 z-[60] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <div className="relative bg-white dark:bg-gray-800 rounded-lg shadow-xl border border-gray-200 dark:border-gray-700 w-[min(1100px,calc(100vw-48px))] max-h-[calc(100vh-48px)] flex flex-col">
+        <div className="flex items-center justify-between px-5 py-3 border-b border-gray-100 dark:border-gray-700 shrink-0">
+          <div className="flex items-center gap-2">
+            <Sparkles size={14} className="text-gray-400" />
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100">Generate dashboard</h3>
+          </div>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setShowSettings((v) => !v)}
+              className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md"
+              title={`AI provider: ${describeAiProvider(provider)}`}
             >
-              {widget.displayName || table.tableName}
-            </h4>
-          )}
+              <Settings2 size={14} />
+            </button>
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md cursor-pointer">
+              <X size={14} />
+            </button>
+          </div>
         </div>
-        <div className="flex items-center gap-0.5 shrink-0 relative" onMouseDown={(e) => e.stopPropagation()}>
-          <button
-            ref={filterBtnRef}
-            onClick={() => setShowFilters((v) => !v)}
-            className={cn(
-              'p-1 transition-colors rounded-md hover:bg-gray-100 cursor-pointer relative',
-              activeFilterCount > 0 ? 'text-gray-600' : 'text-gray-300 hover:text-gray-600'
-            )}
-            title="Filter"
-          >
-            <Filter size={12} />
-            {activeFilterCount > 0 && (
-              <span className="absolute -top-0.5 -right-0.5 w-3 h-3 bg-gray-700 text-white text-[7px] font-bold rounded-full flex items-center justify-center">
-                {activeFilterCount}
-              </span>
-            )}
-          </button>
-          {showFilters && (
-            <FilterPanel
-              filters={widget.filters ?? []}
-              columns={visibleCols.map((c) => c.key)}
-              onChange={onFiltersChange}
-              onClose={() => setShowFilters(false)}
-              anchorRef={filterBtnRef}
-            />
+
+        <div className="px-5 py-4 space-y-3 border-b border-gray-100 dark:border-gray-700 shrink-0">
+          {(showSettings || !configured) && (
+            <div className="max-w-md">
+              {!configured && (
+                <p className="text-[11px] text-gray-500 flex items-center gap-1 mb-2">
+                  <AlertCircle size={11} />
+                  Set up an AI provider to generate dashboards.
+                </p>
+              )}
+              <AiProviderForm value={provider} onChange={updateProvider} />
+            </div>
           )}
-          {editMode && (
+          <textarea
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleGenerate()
+            }}
+            placeholder='Describe the dashboard, e.g. "weekly revenue by store, top 10 products, refunds KPI"'
+            rows={2}
+            autoFocus
+            className="w-full text-sm text-gray-800 dark:text-gray-200 bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md px-3 py-2 resize-none focus:outline-none focus:ring-1 focus:ring-gray-300"
+          />
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-[11px] text-gray-400">
+              {savedTables.length === 0
+                ? 'Save a table first: dashboards are built from your saved tables.'
+                : `Uses your ${savedTables.length} saved ${savedTables.length === 1 ? 'table' : 'tables'}. Nothing is added until you confirm.`}
+            </p>
             <button
-              onClick={onToggleFullWidth}
-              className={cn(
-                'p-1 transition-colors rounded-md hover:bg-gray-100 cursor-pointer',
-                isFullWidth ? 'text-gray-500' : 'text-gray-300 hover:text-gray-600'
-              )}
-              title={isFullWidth ? 'Restore size' : 'Full width'}
+              onClick={handleGenerate}
+              disabled={!configured || !prompt.trim() || generating || savedTables.length === 0}
+              className="flex items-center gap-1.5 bg-gray-900 text-white text-xs font-medium rounded-md px-3 py-1.5 hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed shrink-0"
             >
-              {isFullWidth ? <Minimize2 size={12} /> : <Maximize2 size={12} />}
+              {generating ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+              {generating ? 'Designing…' : result ? 'Regenerate' : 'Generate'}
             </button>
+          </div>
+          {error && (
+            <p className="text-xs text-red-600 flex items-center gap-1">
+              <AlertCircle size={12} className="shrink-0" />
+              {error}
+            </p>
           )}
-          <button
-            onClick={onOpenTable}
-            className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer"
-            title="Open table"
-          >
-            <Eye size={12} />
-          </button>
-          {editMode && (
-            <>
-              <button
-                onClick={onOpenConfig}
-                className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer"
-                title="Configure table"
-              >
-                <Settings2 size={12} />
-              </button>
+        </div>
+
+        {result && (
+          <>
+            <div className="flex-1 overflow-y-auto bg-gray-50 dark:bg-gray-900 px-5 py-4 min-h-0">
+              <p className="text-xs font-medium text-gray-700 dark:text-gray-300 mb-3">
+                Preview: {result.name}
+                <span className="ml-2 font-normal text-gray-400">
+                  {result.widgets.length} {result.widgets.length === 1 ? 'widget' : 'widgets'}
+                </span>
+              </p>
+              {result.skipped.length > 0 && (
+                <div className="mb-3 text-[11px] text-amber-600 dark:text-amber-400 space-y-0.5">
+                  <p className="flex items-center gap-1">
+                    <AlertCircle size={11} />
+                    Left out {result.skipped.length} suggested {result.skipped.length === 1 ? 'widget' : 'widgets'}:
+                  </p>
+                  {result.skipped.map((s) => <p key={s} className="pl-4">{s}</p>)}
+                </div>
+              )}
+              <GeneratedDashboardPreview widgets={result.widgets} savedTables={savedTables} accessToken={user?.accessToken ?? null} />
+            </div>
+            <div className="flex items-center justify-end gap-2 px-5 py-3 border-t border-gray-100 dark:border-gray-700 shrink-0">
               <button
-                onClick={onDuplicate}
-                className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer"
-                title="Duplicate"
+                onClick={onClose}
+                className="px-3 py-1.5 text-xs font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
               >
-                <Copy size={12} />
+                Discard
               </button>
+              {hasWidgets && (
+                <button
+                  onClick={() => onApply(result.widgets, result.name, 'replace')}
+                  className="px-3 py-1.5 text-xs font-medium text-gray-700 border border-gray-200 hover:bg-gray-50 rounded-md transition-colors"
+                >
+                  Replace canvas
+                </button>
+              )}
               <button
-                onClick={onRemove}
-                className="p-1 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-gray-100 cursor-pointer"
-                title="Remove from dashboard"
+                onClick={() => onApply(result.widgets, result.name, 'append')}
+                className="flex items-center gap-1.5 bg-gray-900 text-white text-xs font-medium rounded-md px-3 py-1.5 hover:bg-gray-800 transition-colors"
               >
-                <X size={12} />
+                <Check size={12} />
+                {hasWidgets ? 'Add below current widgets' : 'Add to dashboard'}
               </button>
-            </>
-          )}
-        </div>
-      </div>
-
-      {/* Widget Body */}
-      <div className="flex-1 overflow-hidden">
-        {loading ? (
-          <div className="h-full flex flex-col items-center justify-center gap-2">
-            <Loader2 size={16} className="animate-spin text-gray-300" />
-            <p className="text-[10px] text-gray-400">Loading data…</p>
-          </div>
-        ) : error ? (
-          <div className="h-full flex flex-col items-center justify-center gap-2 px-4">
-            <AlertCircle size={16} className="text-gray-300" />
-            <p className="text-[10px] text-gray-500 text-center leading-tight">{error}</p>
-            <button
-              onClick={handleRetry}
-              className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-gray-700 transition-colors"
-            >
-              <RefreshCw size={10} />
-              Retry
-            </button>
-          </div>
-        ) : previewCols.length > 0 ? (
-          <div className="overflow-auto h-full px-3 pb-3">
-            <div className="border border-gray-200 rounded-md overflow-hidden [&_tbody_tr:last-child_td]:border-b-0">
-            <table className="w-full text-[11px]">
-              <thead className="sticky top-0 z-10">
-                <tr className="bg-gray-50">
-                  {previewCols.map((col) => {
-                    const colKey = col.key
-                    const isActive = sortCol === colKey
-                    const displayColName = col.displayName
-                    const isEditingCol = editingColKey === colKey && editMode
-                    return (
-                      <th
-                        key={colKey}
-                        onClick={() => { if (!isEditingCol) { handleSort(colKey); if (editMode) onColumnSelect(colKey) } }}
-                        onDoubleClick={(e) => {
-                          if (!editMode) return
-                          e.stopPropagation()
-                          setDraftColName(displayColName)
-                          setEditingColKey(colKey)
-                        }}
-                        onContextMenu={(e) => {
-                          e.preventDefault()
-                          e.stopPropagation()
-                          setContextMenu({ x: e.clientX, y: e.clientY, colKey, displayName: displayColName })
-                        }}
-                        className={cn(
-                          'text-left px-2 py-1.5 text-[10px] font-medium whitespace-nowrap border-b border-gray-100 select-none hover:bg-gray-100 transition-colors group/th',
-                          col.isCustom ? 'text-gray-500 italic' : 'text-gray-500',
-                          isEditingCol ? 'cursor-text' : 'cursor-pointer'
-                        )}
-                      >
-                        {isEditingCol ? (
-                          <input
-                            ref={colInputRef}
-                            type="text"
-                            value={draftColName}
-                            onChange={(e) => setDraftColName(e.target.value)}
-                            onBlur={commitColRename}
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') commitColRename()
-                              if (e.key === 'Escape') setEditingColKey(null)
-                            }}
-                            onClick={(e) => e.stopPropagation()}
-                            onMouseDown={(e) => e.stopPropagation()}
-                            className="w-full text-[10px] font-medium text-gray-700 bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none py-0"
-                          />
-                        ) : (
-                          <span className="inline-flex items-center gap-1">
-                            {col.isCustom && <Calculator size={9} className="text-gray-400" />}
-                            {displayColName}
-                            {isActive && sortDir === 'asc' ? (
-                              <ArrowUp size={10} className="text-gray-700" />
-                            ) : isActive && sortDir === 'desc' ? (
-                              <ArrowDown size={10} className="text-gray-700" />
-                            ) : (
-                              <ArrowUpDown size={10} className="text-gray-300 opacity-0 group-hover/th:opacity-100 transition-opacity" />
-                            )}
-                            {editMode && (
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation()
-                                  const th = (e.currentTarget as HTMLElement).closest('th')
-                                  if (th) openFormatToolbar(colKey, th)
-                                }}
-                                onMouseDown={(e) => e.stopPropagation()}
-                                className={cn(
-                                  'ml-0.5 p-0.5 rounded transition-all cursor-pointer',
-                                  widget.columnFormats?.[colKey]
-                                    ? 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
-                                    : 'text-gray-300 opacity-0 group-hover/th:opacity-100 hover:text-gray-500 hover:bg-gray-200/50'
-                                )}
-                                title="Format column"
-                              >
-                                {(() => {
-                                  const ft = widget.columnFormats?.[colKey]?.type
-                                  if (ft === 'number') return <Hash size={9} />
-                                  if (ft === 'currency') return <DollarSign size={9} />
-                                  if (ft === 'percent') return <Percent size={9} />
-                                  if (ft === 'date' || ft === 'datetime') return <Calendar size={9} />
-                                  if (ft === 'text') return <CaseSensitive size={9} />
-                                  return <Paintbrush size={9} />
-                                })()}
-                              </button>
-                            )}
-                          </span>
-                        )}
-                      </th>
-                    )
-                  })}
-                  {hiddenColCount > 0 && (
-                    <th className="text-left px-2 py-1.5 text-[10px] font-medium text-gray-400 whitespace-nowrap border-b border-gray-100">
-                      +{hiddenColCount} more
-                    </th>
-                  )}
-                </tr>
-              </thead>
-              <tbody>
-                {displayRows.length > 0 ? (
-                  displayRows.slice(0, 100).map((row, idx) => {
-                    // Pre-compute row-level conditional styles once per row
-                    const condRules = widget.conditionalFormats
-                    return (
-                    <tr
-                      key={idx}
-                      className="border-b border-gray-50 last:border-0 hover:bg-gray-50/50 transition-colors"
-                    >
-                      {previewCols.map((col) => {
-                        const colKey = col.isCustom ? col.key : col.sourceCol!.sourcePath
-                        const cellStyle = getCondStyle(condRules, row, colKey, 'cell')
-                        const rawVal = col.isCustom ? row[col.key] : (row[col.sourceCol!.sourcePath] ?? row[col.sourceCol!.alias])
-                        const colFmt = widget.columnFormats?.[colKey]
-                        const displayVal = colFmt ? applyColumnFormat(rawVal, colFmt) : formatCellValue(rawVal)
-                        return (
-                        <td
-                          key={col.key}
-                          className={cn(
-                            'px-2 py-1 text-gray-600 whitespace-nowrap truncate',
-                            isFullWidth ? 'max-w-[200px]' : 'max-w-[120px]'
-                          )}
-                          style={cellStyle}
-                        >
-                          {displayVal}
-                        </td>
-                        )
-                      })}
-                      {hiddenColCount > 0 && (
-                        <td className="px-2 py-1 text-gray-300">…</td>
-                      )}
-                    </tr>
-                    )
-                  })
-                ) : (
-                  <tr>
-                    <td
-                      colSpan={previewCols.length + (hiddenColCount > 0 ? 1 : 0)}
-                      className="px-2 py-4 text-center text-[10px] text-gray-400"
-                    >
-                      No data in this collection
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
             </div>
-          </div>
-        ) : (
-          <div className="h-full flex items-center justify-center">
-            <p className="text-xs text-gray-400">No columns configured</p>
-          </div>
+          </>
         )}
       </div>
+    </div>
+  )
+}
 
-      {/* Column context menu */}
-      {contextMenu && (
-        <ColumnContextMenu
-          x={contextMenu.x}
-          y={contextMenu.y}
-          colKey={contextMenu.colKey}
-          displayName={contextMenu.displayName}
-          editMode={editMode}
-          sortCol={sortCol}
-          sortDir={sortDir}
-          onAction={(action) => handleColumnContextAction(action, contextMenu.colKey, contextMenu.displayName)}
-          onClose={() => setContextMenu(null)}
-        />
-      )}
-
-      {/* Quick Column Format Toolbar */}
-      {editMode && formatToolbarCol && formatToolbarRect && (
-        <ColumnFormatToolbar
-          colKey={formatToolbarCol}
-          currentFormat={widget.columnFormats?.[formatToolbarCol]}
-          anchorRect={formatToolbarRect}
-          onApply={handleFormatApply}
-          onClose={() => { setFormatToolbarCol(null); setFormatToolbarRect(null) }}
-        />
-      )}
-
-      {/* Widget Footer */}
-      <div className="flex items-center justify-between px-3 py-1.5 border-t border-gray-100 bg-gray-50/30 shrink-0">
-        <span className="text-[10px] text-gray-400">
-          {visibleCols.length} columns
-          {rows.length > 0 && ` · ${activeFilterCount > 0 ? `${filteredRows.length} of ${rows.length}` : rows.length} rows`}
-          {activeFilterCount > 0 && ` · ${activeFilterCount} filter${activeFilterCount > 1 ? 's' : ''}`}
-          {sortCol && sortDir && ` · Sorted by ${sortCol} ${sortDir}`}
-          {loading && ' · Loading…'}
-        </span>
-        <div className="flex items-center gap-2">
-          {removedColCount > 0 && (
-            <button
-              onClick={() => onHiddenColumnsChange([])}
-              onMouseDown={(e) => e.stopPropagation()}
-              className="text-[10px] text-gray-400 hover:text-gray-600 transition-colors cursor-pointer flex items-center gap-0.5"
-              title="Show all hidden columns"
-            >
-              <EyeOff size={9} />
-              {removedColCount} hidden
-            </button>
-          )}
-          <span className="text-[10px] text-gray-400">
-            {table.projectId === '__query__' ? 'SQL' : table.collectionPath}
-          </span>
-        </div>
-      </div>
-    </div>
-  )
-}
-
-/* ---- Element Card Component ---- */
-
-function ElementCard({
-  widget,
-  editMode,
-  isSelected,
-  onRemove,
-  onDuplicate,
-  onContentChange,
-  onOpenConfig,
+/** Shared column formatting editor section for config panels. */
+function ColumnFormattingSection({
+  columns,
+  columnFormats,
+  onChange,
 }: {
-  widget: DashboardWidget
-  editMode: boolean
-  isSelected?: boolean
-  onRemove: () => void
-  onDuplicate: () => void
-  onContentChange: (content: string) => void
-  onOpenConfig?: () => void
+  columns: { key: string; label: string }[]
+  columnFormats: Record<string, ColumnFormat>
+  onChange: (formats: Record<string, ColumnFormat>) => void
 }) {
-  const [isEditing, setIsEditing] = useState(false)
-  const [localContent, setLocalContent] = useState(widget.content ?? '')
-  const inputRef = useRef<HTMLInputElement>(null)
-  const textareaRef = useRef<HTMLTextAreaElement>(null)
-
-  const elCfg = widget.elementConfig ?? {}
-
-  // Font size class map
-  const fontSizeMap: Record<ElementFontSize, string> = {
-    xs: 'text-xs',
-    sm: 'text-sm',
-    base: 'text-base',
-    lg: 'text-lg',
-    xl: 'text-xl',
-    '2xl': 'text-2xl',
-    '3xl': 'text-3xl',
-  }
-  const fontWeightMap: Record<string, string> = {
-    normal: 'font-normal',
-    medium: 'font-medium',
-    semibold: 'font-semibold',
-    bold: 'font-bold',
-  }
-  const alignMap: Record<ElementAlign, string> = {
-    left: 'text-left',
-    center: 'text-center',
-    right: 'text-right',
-  }
-
-  useEffect(() => {
-    setLocalContent(widget.content ?? '')
-  }, [widget.content])
+  const [expanded, setExpanded] = useState(Object.keys(columnFormats).length > 0)
+  const [selectedCol, setSelectedCol] = useState<string>(columns[0]?.key ?? '')
 
-  useEffect(() => {
-    if (isEditing) {
-      setTimeout(() => {
-        if (widget.type === 'heading') {
-          inputRef.current?.focus()
-          inputRef.current?.select()
-        } else if (widget.type === 'text') {
-          textareaRef.current?.focus()
-          textareaRef.current?.select()
-        }
-      }, 50)
-    }
-  }, [isEditing, widget.type])
+  const currentFmt = columnFormats[selectedCol] ?? { type: 'auto' as ColFormatType }
 
-  const commitEdit = () => {
-    setIsEditing(false)
-    if (localContent !== widget.content) {
-      onContentChange(localContent)
+  const updateFmt = (patch: Partial<ColumnFormat>) => {
+    const updated = { ...columnFormats, [selectedCol]: { ...currentFmt, ...patch } }
+    // Remove entry if set back to auto with no custom settings
+    if (updated[selectedCol].type === 'auto' && !updated[selectedCol].prefix && !updated[selectedCol].suffix) {
+      delete updated[selectedCol]
     }
+    onChange(updated)
   }
 
-  // Divider element
-  if (widget.type === 'divider') {
-    return (
-      <div className={cn(
-        'h-full flex items-center px-4 relative group/el',
-        editMode && 'widget-drag-handle cursor-grab active:cursor-grabbing'
-      )}>
-        <div className="w-full border-t border-gray-200 dark:border-gray-600" />
-        {editMode && (
-          <div className="absolute top-1 right-1 flex items-center gap-0.5 opacity-0 group-hover/el:opacity-100">
-            <button
-              onClick={(e) => { e.stopPropagation(); onDuplicate() }}
-              onMouseDown={(e) => e.stopPropagation()}
-              className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
-              title="Duplicate"
-            >
-              <Copy size={12} />
-            </button>
-            <button
-              onClick={(e) => { e.stopPropagation(); onRemove() }}
-              onMouseDown={(e) => e.stopPropagation()}
-              className="p-0.5 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-white cursor-pointer"
-              title="Remove divider"
-            >
-              <X size={12} />
-            </button>
-          </div>
-        )}
-      </div>
-    )
-  }
-
-  // Heading element
-  if (widget.type === 'heading') {
-    const headingFontSize = fontSizeMap[elCfg.fontSize ?? 'base']
-    const headingFontWeight = fontWeightMap[elCfg.fontWeight ?? 'semibold']
-    const headingAlign = alignMap[elCfg.align ?? 'left']
+  const formattedCount = Object.keys(columnFormats).length
 
-    return (
-      <div
-        className={cn(
-          'h-full flex flex-col relative group/el rounded-md border-2 transition-colors',
-          isSelected ? 'border-gray-400 dark:border-gray-500' : 'border-transparent',
-          editMode && !isSelected && 'hover:border-gray-200 dark:hover:border-gray-700',
-          editMode && 'widget-drag-handle cursor-grab active:cursor-grabbing'
-        )}
-        onClick={(e) => {
-          if (editMode && !isEditing && onOpenConfig) {
-            e.stopPropagation()
-            onOpenConfig()
-          }
-        }}
+  return (
+    <div className="border-t border-gray-100">
+      <button
+        onClick={() => setExpanded((v) => !v)}
+        className="w-full flex items-center justify-between px-4 py-2.5 text-left hover:bg-gray-50 transition-colors cursor-pointer"
       >
-        <div className={cn('flex-1 flex items-center px-3', headingAlign)}>
-          {isEditing && editMode ? (
-            <input
-              ref={inputRef}
-              type="text"
-              value={localContent}
-              onChange={(e) => setLocalContent(e.target.value)}
-              onBlur={commitEdit}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') commitEdit()
-                if (e.key === 'Escape') { setLocalContent(widget.content ?? ''); setIsEditing(false) }
-              }}
-              onMouseDown={(e) => e.stopPropagation()}
-              onClick={(e) => e.stopPropagation()}
-              className={cn('w-full bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none text-gray-900 dark:text-gray-100', headingFontSize, headingFontWeight)}
-            />
-          ) : (
-            <h3
-              className={cn(
-                'text-gray-900 dark:text-gray-100 truncate w-full',
-                headingFontSize, headingFontWeight,
-                editMode && 'cursor-text'
-              )}
-              style={elCfg.colour ? { color: elCfg.colour } : undefined}
-              onDoubleClick={(e) => { e.stopPropagation(); editMode && setIsEditing(true) }}
-            >
-              {widget.content || 'Untitled Heading'}
-            </h3>
+        <span className="flex items-center gap-1.5 text-[10px] font-medium text-gray-500 uppercase tracking-wider">
+          <Type size={10} />
+          Column Formatting
+          {formattedCount > 0 && (
+            <span className="ml-1 text-[9px] bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded-md">{formattedCount}</span>
           )}
-        </div>
-        {editMode && (
-          <div className="absolute top-1 right-1 flex items-center gap-0.5 opacity-0 group-hover/el:opacity-100 transition-opacity" onMouseDown={(e) => e.stopPropagation()}>
-            <button
-              onClick={(e) => { e.stopPropagation(); setIsEditing(true) }}
-              className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
-              title="Edit heading"
-            >
-              <Pencil size={11} />
-            </button>
-            {onOpenConfig && (
-              <button
-                onClick={(e) => { e.stopPropagation(); onOpenConfig() }}
-                className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
-                title="Configure"
-              >
-                <Settings2 size={11} />
-              </button>
-            )}
-            <button
-              onClick={(e) => { e.stopPropagation(); onDuplicate() }}
-              className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
-              title="Duplicate"
-            >
-              <Copy size={12} />
-            </button>
-            <button
-              onClick={(e) => { e.stopPropagation(); onRemove() }}
-              className="p-0.5 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-white cursor-pointer"
-              title="Remove heading"
-            >
-              <X size={12} />
-            </button>
-          </div>
-        )}
-      </div>
-    )
-  }
-
-  // Text element
-  const textFontSize = fontSizeMap[elCfg.fontSize ?? 'sm']
-  const textFontWeight = fontWeightMap[elCfg.fontWeight ?? 'normal']
-  const textAlign = alignMap[elCfg.align ?? 'left']
+        </span>
+        <ChevronDown className={cn('h-3 w-3 text-gray-400 transition-transform duration-200', expanded && 'rotate-180')} />
+      </button>
 
-  return (
-    <div
-      className={cn(
-        'h-full flex flex-col relative group/el rounded-md border-2 transition-colors',
-        isSelected ? 'border-gray-400 dark:border-gray-500' : 'border-transparent',
-        editMode && !isSelected && 'hover:border-gray-200 dark:hover:border-gray-700',
-        editMode && 'widget-drag-handle cursor-grab active:cursor-grabbing',
-      )}
-      onClick={(e) => {
-        if (editMode && !isEditing && onOpenConfig) {
-          e.stopPropagation()
-          onOpenConfig()
-        }
-      }}
-    >
-      <div className={cn('flex-1 overflow-auto px-3 py-2', textAlign)}>
-        {isEditing && editMode ? (
-          <textarea
-            ref={textareaRef}
-            value={localContent}
-            onChange={(e) => setLocalContent(e.target.value)}
-            onBlur={commitEdit}
-            onKeyDown={(e) => {
-              if (e.key === 'Escape') { setLocalContent(widget.content ?? ''); setIsEditing(false) }
-            }}
-            onMouseDown={(e) => e.stopPropagation()}
-            onClick={(e) => e.stopPropagation()}
-            className="w-full h-full text-sm text-gray-700 dark:text-gray-300 bg-transparent border border-gray-200 rounded-md p-2 focus:border-gray-400 focus:outline-none resize-none"
-          />
-        ) : (
-          <p
-            className={cn(
-              'text-gray-600 dark:text-gray-400 whitespace-pre-wrap',
-              textFontSize, textFontWeight,
-              editMode && 'cursor-text'
-            )}
-            style={elCfg.colour ? { color: elCfg.colour } : undefined}
-            onDoubleClick={(e) => { e.stopPropagation(); editMode && setIsEditing(true) }}
-          >
-            {widget.content || 'Enter your text here...'}
-          </p>
-        )}
-      </div>
-      {editMode && (
-        <div className="absolute top-1 right-1 flex items-center gap-0.5 opacity-0 group-hover/el:opacity-100 transition-opacity" onMouseDown={(e) => e.stopPropagation()}>
-          <button
-            onClick={(e) => { e.stopPropagation(); setIsEditing(true) }}
-            className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
-            title="Edit text"
-          >
-            <Pencil size={11} />
-          </button>
-          {onOpenConfig && (
-            <button
-              onClick={(e) => { e.stopPropagation(); onOpenConfig() }}
-              className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
-              title="Configure"
-            >
-              <Settings2 size={11} />
-            </button>
-          )}
-          <button
-            onClick={(e) => { e.stopPropagation(); onDuplicate() }}
-            className="p-0.5 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-white cursor-pointer"
-            title="Duplicate"
-          >
-            <Copy size={12} />
-          </button>
-          <button
-            onClick={(e) => { e.stopPropagation(); onRemove() }}
-            className="p-0.5 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-white cursor-pointer"
-            title="Remove text block"
+      <AnimatePresence>
+        {expanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.4, ease: [0.04, 0.62, 0.23, 0.98] }}
+            className="overflow-hidden"
           >
-            <X size={12} />
-          </button>
-        </div>
-      )}
-    </div>
-  )
-}
-
-/* ---- Metric helpers ---- */
-
-const AGGREGATION_LABELS: Record<AggregationType, string> = {
-  none: 'None (Raw)',
-  count: 'Count',
-  sum: 'Sum',
-  average: 'Average',
-  min: 'Min',
-  max: 'Max',
-  count_distinct: 'Count Distinct',
-}
-
-const TIMEFRAME_LABELS: Record<string, string> = {
-  all: 'All Time',
-  '7d': 'Last 7 Days',
-  '30d': 'Last 30 Days',
-  '90d': 'Last 90 Days',
-  this_month: 'This Month',
-  this_year: 'This Year',
-}
-
-function getTimeframeStart(tf: string): Date | null {
-  const now = new Date()
-  switch (tf) {
-    case '7d': return new Date(now.getTime() - 7 * 86400000)
-    case '30d': return new Date(now.getTime() - 30 * 86400000)
-    case '90d': return new Date(now.getTime() - 90 * 86400000)
-    case 'this_month': return new Date(now.getFullYear(), now.getMonth(), 1)
-    case 'this_year': return new Date(now.getFullYear(), 0, 1)
-    default: return null
-  }
-}
-
-function parseDate(v: unknown): Date | null {
-  if (v instanceof Date) return v
-  if (typeof v === 'string') {
-    const d = new Date(v)
-    return isNaN(d.getTime()) ? null : d
-  }
-  if (typeof v === 'number') return new Date(v)
-  return null
-}
-
-const MONTH_SHORT = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+            <div className="px-4 pb-3 space-y-2.5">
+              {/* Column selector */}
+              <div>
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Column</label>
+                <select
+                  value={selectedCol}
+                  onChange={(e) => setSelectedCol(e.target.value)}
+                  className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 mt-0.5"
+                >
+                  {columns.map((c) => (
+                    <option key={c.key} value={c.key}>
+                      {c.label}{columnFormats[c.key] ? ` (${COL_FORMAT_LABELS[columnFormats[c.key].type]})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
 
-function ordinal(n: number): string {
-  const s = ['th', 'st', 'nd', 'rd']
-  const v = n % 100
-  return n + (s[(v - 20) % 10] || s[v] || s[0])
-}
+              {/* Format type */}
+              <div>
+                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Format</label>
+                <select
+                  value={currentFmt.type}
+                  onChange={(e) => updateFmt({ type: e.target.value as ColFormatType })}
+                  className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 mt-0.5"
+                >
+                  {Object.entries(COL_FORMAT_LABELS).map(([k, v]) => (
+                    <option key={k} value={k}>{v}</option>
+                  ))}
+                </select>
+              </div>
 
-/** Pretty-format a date: "Jan 5th", "Jan 5th 2024", "Jan 2025", "2025" etc. */
-function formatDatePretty(d: Date, trunc: DateTruncation = 'day'): string {
-  switch (trunc) {
-    case 'year': return String(d.getFullYear())
-    case 'quarter': return `Q${Math.floor(d.getMonth() / 3) + 1} ${d.getFullYear()}`
-    case 'month': return `${MONTH_SHORT[d.getMonth()]} ${d.getFullYear()}`
-    case 'week':
-    case 'day': return `${MONTH_SHORT[d.getMonth()]} ${ordinal(d.getDate())}`
-    case 'hour': return `${MONTH_SHORT[d.getMonth()]} ${ordinal(d.getDate())} ${String(d.getHours()).padStart(2, '0')}:00`
-    default: return `${MONTH_SHORT[d.getMonth()]} ${ordinal(d.getDate())}, ${d.getFullYear()}`
-  }
-}
+              {/* Number / Currency / Percent options */}
+              {(currentFmt.type === 'number' || currentFmt.type === 'currency' || currentFmt.type === 'percent') && (
+                <div className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Decimals</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={currentFmt.decimals ?? 2}
+                      onChange={(e) => updateFmt({ decimals: parseInt(e.target.value) || 0 })}
+                      className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 focus:outline-none focus:border-gray-400 mt-0.5"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">1000 sep</label>
+                    <select
+                      value={currentFmt.thousandSep !== false ? 'yes' : 'no'}
+                      onChange={(e) => updateFmt({ thousandSep: e.target.value === 'yes' })}
+                      className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 mt-0.5"
+                    >
+                      <option value="yes">Yes</option>
+                      <option value="no">No</option>
+                    </select>
+                  </div>
+                </div>
+              )}
 
-/** Truncate a date to a period boundary for grouping */
-function truncateDate(d: Date, trunc: DateTruncation): Date {
-  switch (trunc) {
-    case 'hour': return new Date(d.getFullYear(), d.getMonth(), d.getDate(), d.getHours())
-    case 'day': return new Date(d.getFullYear(), d.getMonth(), d.getDate())
-    case 'week': {
-      const day = d.getDay() // 0=Sun
-      const diff = d.getDate() - day + (day === 0 ? -6 : 1) // Mon start
-      return new Date(d.getFullYear(), d.getMonth(), diff)
-    }
-    case 'month': return new Date(d.getFullYear(), d.getMonth(), 1)
-    case 'quarter': return new Date(d.getFullYear(), Math.floor(d.getMonth() / 3) * 3, 1)
-    case 'year': return new Date(d.getFullYear(), 0, 1)
-    default: return d
-  }
-}
+              {/* Currency selector */}
+              {currentFmt.type === 'currency' && (
+                <div>
+                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Currency</label>
+                  <select
+                    value={currentFmt.currency || 'USD'}
+                    onChange={(e) => updateFmt({ currency: e.target.value })}
+                    className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 mt-0.5"
+                  >
+                    {CURRENCY_OPTIONS.map((c) => (
+                      <option key={c.code} value={c.code}>{c.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
 
-/** Detect if a value looks like a date string */
-function looksLikeDate(v: unknown): boolean {
-  if (typeof v !== 'string') return false
-  // ISO format, Firestore timestamp, or common date patterns
-  return /^\d{4}-\d{2}-\d{2}/.test(v) || /^\d{4}\/\d{2}\/\d{2}/.test(v) || /\d{4}-\d{2}-\d{2}T/.test(v)
-}
+              {/* Date format */}
+              {(currentFmt.type === 'date' || currentFmt.type === 'datetime') && (
+                <div>
+                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Date Style</label>
+                  <select
+                    value={currentFmt.dateFormat || 'medium'}
+                    onChange={(e) => updateFmt({ dateFormat: e.target.value })}
+                    className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 mt-0.5"
+                  >
+                    {DATE_FORMAT_OPTIONS.map((o) => (
+                      <option key={o.value} value={o.value}>{o.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
 
-function computeMetric(
-  rows: Record<string, unknown>[],
-  config: MetricConfig
-): number | null {
-  // Apply date filter
-  let filtered = rows
-  const start = getTimeframeStart(config.timeframe ?? 'all')
-  if (start && config.dateColumn) {
-    filtered = rows.filter((r) => {
-      const d = parseDate(r[config.dateColumn!])
-      return d ? d >= start : false
-    })
-  }
-
-  const { aggregation, column } = config
-
-  if (aggregation === 'count') return filtered.length
-
-  if (!column) return null
-
-  if (aggregation === 'count_distinct') {
-    const unique = new Set(filtered.map((r) => String(r[column] ?? '')))
-    return unique.size
-  }
-
-  // Extract numeric values
-  const nums = filtered
-    .map((r) => {
-      const v = r[column]
-      if (typeof v === 'number') return v
-      if (typeof v === 'string') { const n = parseFloat(v); return isNaN(n) ? null : n }
-      return null
-    })
-    .filter((n): n is number => n !== null)
-
-  if (nums.length === 0) return null
-
-  switch (aggregation) {
-    case 'sum': return nums.reduce((a, b) => a + b, 0)
-    case 'average': return nums.reduce((a, b) => a + b, 0) / nums.length
-    case 'min': return Math.min(...nums)
-    case 'max': return Math.max(...nums)
-    default: return null
-  }
-}
+              {/* Custom prefix/suffix for number */}
+              {currentFmt.type === 'number' && (
+                <div className="flex items-center gap-2">
+                  <div className="flex-1">
+                    <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Prefix</label>
+                    <input
+                      type="text"
+                      value={currentFmt.prefix ?? ''}
+                      onChange={(e) => updateFmt({ prefix: e.target.value })}
+                      placeholder="e.g. $"
+                      className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 focus:outline-none focus:border-gray-400 mt-0.5"
+                    />
+                  </div>
+                  <div className="flex-1">
+                    <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Suffix</label>
+                    <input
+                      type="text"
+                      value={currentFmt.suffix ?? ''}
+                      onChange={(e) => updateFmt({ suffix: e.target.value })}
+                      placeholder="e.g. kg"
+                      className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 focus:outline-none focus:border-gray-400 mt-0.5"
+                    />
+                  </div>
+                </div>
+              )}
 
-function formatMetricValue(value: number | null, prefix?: string, suffix?: string): string {
-  if (value === null) return '—'
-  // Format with commas, max 2 decimal places
-  const formatted = Number.isInteger(value)
-    ? value.toLocaleString()
-    : value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 2 })
-  return `${prefix ?? ''}${formatted}${suffix ?? ''}`
+              {/* Preview */}
+              {currentFmt.type !== 'auto' && (
+                <div className="bg-gray-50 rounded-md px-2.5 py-1.5">
+                  <p className="text-[9px] text-gray-400 uppercase tracking-wider mb-0.5">Preview</p>
+                  <p className="text-[11px] text-gray-700 font-medium tabular-nums">
+                    {currentFmt.type === 'number' ? applyColumnFormat(1234567.89, currentFmt) :
+                     currentFmt.type === 'currency' ? applyColumnFormat(1234567.89, currentFmt) :
+                     currentFmt.type === 'percent' ? applyColumnFormat(0.4567, currentFmt) :
+                     currentFmt.type === 'date' ? applyColumnFormat('2026-02-11T10:30:00Z', currentFmt) :
+                     currentFmt.type === 'datetime' ? applyColumnFormat('2026-02-11T10:30:00Z', currentFmt) :
+                     applyColumnFormat('Sample text', currentFmt)}
+                  </p>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
 }
 
-/* ---- Metric Card Component ---- */
-
-function MetricCard({
-  widget,
-  savedTables,
-  accessToken,
-  editMode,
-  globalFetchKey,
-  onRemove,
-  onDuplicate,
-  onOpenConfig,
-  onLabelChange,
-  onFiltersChange,
+/** Shared conditional formatting editor used by Table and Pivot config panels. */
+function ConditionalFormattingSection({
+  rules,
+  columns,
+  onChange,
 }: {
-  widget: DashboardWidget
-  savedTables: SavedTable[]
-  accessToken: string | null
-  editMode: boolean
-  globalFetchKey: number
-  onRemove: () => void
-  onDuplicate: () => void
-  onOpenConfig: () => void
-  onLabelChange: (label: string) => void
-  onFiltersChange: (filters: WidgetFilter[]) => void
+  rules: ConditionalFormatRule[]
+  columns: { key: string; label: string }[]
+  onChange: (rules: ConditionalFormatRule[]) => void
 }) {
-  const config = widget.metricConfig
-  const isConfigured = !!config?.tableId && !!config?.aggregation
-
-  const [rows, setRows] = useState<Record<string, unknown>[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-
-  // Filter panel
-  const [showFilters, setShowFilters] = useState(false)
-  const filterBtnRef = useRef<HTMLButtonElement>(null)
-
-  // Inline label editing
-  const [editingLabel, setEditingLabel] = useState(false)
-  const [draftLabel, setDraftLabel] = useState('')
-  const labelInputRef = useRef<HTMLInputElement>(null)
+  const [expanded, setExpanded] = useState(rules.length > 0)
 
-  useEffect(() => {
-    if (editingLabel) setTimeout(() => { labelInputRef.current?.focus(); labelInputRef.current?.select() }, 50)
-  }, [editingLabel])
-
-  const commitLabel = () => {
-    setEditingLabel(false)
-    const trimmed = draftLabel.trim()
-    if (trimmed && trimmed !== config?.label) {
-      onLabelChange(trimmed)
+  const addRule = () => {
+    const newRule: ConditionalFormatRule = {
+      id: `cf-${Date.now()}`,
+      column: columns[0]?.key ?? '',
+      operator: 'gt',
+      value: '',
+      style: 'bg',
+      colour: '#dcfce7',
+      target: 'cell',
+      enabled: true,
     }
+    onChange([...rules, newRule])
+    setExpanded(true)
   }
 
-  useEffect(() => {
-    if (!isConfigured) return
-    const table = savedTables.find((t) => t.id === config!.tableId)
-    if (!table) return
-
-    if (table.projectId === '__query__') {
-      if (table.queryData && table.queryData.length > 0) setRows(table.queryData)
-      return
-    }
-    if (!accessToken) return
-
-    let cancelled = false
-    setLoading(true)
-    setError(null)
-
-    const load = async () => {
-      try {
-        const documents = await fetchAllDocuments(accessToken, table.projectId, table.collectionPath, {
-          isCollectionGroup: table.isCollectionGroup,
-          isCancelled: () => cancelled,
-        })
-        if (cancelled) return
-        const flattened = documents.map((d) => {
-          const { __id, __path, __parentId, ...rest } = d
-          return { __id, ...(table.isCollectionGroup ? { __path: __path ?? '', __parentId: __parentId ?? '' } : {}), ...flattenObject(rest as Record<string, unknown>) }
-        })
-        setRows(flattened)
-      } catch (err) {
-        if (cancelled) return
-        setError(err instanceof Error ? err.message : 'Failed to load data')
-      } finally { if (!cancelled) setLoading(false) }
-    }
-    load()
-    return () => { cancelled = true }
-  }, [isConfigured ? config?.tableId : null, accessToken, savedTables, globalFetchKey])
-
-  const filteredRows = applyWidgetFilters(rows, widget.filters)
-  const computedValue = isConfigured && filteredRows.length > 0 ? computeMetric(filteredRows, config!) : null
-  const activeFilterCount = (widget.filters ?? []).filter((f) => f.column && f.operator).length
-  const metricTable = isConfigured ? savedTables.find((t) => t.id === config!.tableId) : undefined
-  const filterColumns = metricTable ? metricTable.columns.filter((c) => c.visible).map((c) => c.sourcePath) : (rows.length > 0 ? Object.keys(rows[0]).filter((k) => !k.startsWith('__')) : [])
-
-  const layout = config?.layout ?? 'centered'
-  const titleSize = config?.titleSize ?? 'sm'
-  const valueSize = config?.valueSize ?? 'md'
-  const showLabel = config?.showLabel !== false
-  const metricColour = config?.colour
-
-  const titleSizeCls: Record<MetricValueSize, string> = {
-    sm: 'text-xs',
-    md: 'text-sm',
-    lg: 'text-base',
-    xl: 'text-lg',
+  const updateRule = (id: string, patch: Partial<ConditionalFormatRule>) => {
+    onChange(rules.map((r) => r.id === id ? { ...r, ...patch } : r))
   }
 
-  const valueSizeCls: Record<MetricValueSize, string> = {
-    sm: 'text-lg',
-    md: 'text-2xl',
-    lg: 'text-4xl',
-    xl: 'text-5xl',
+  const removeRule = (id: string) => {
+    onChange(rules.filter((r) => r.id !== id))
   }
 
-  const labelBlock = showLabel && isConfigured && !loading && !error && (
-    editingLabel && editMode ? (
-      <input
-        ref={labelInputRef}
-        type="text"
-        value={draftLabel}
-        onChange={(e) => setDraftLabel(e.target.value)}
-        onBlur={commitLabel}
-        onKeyDown={(e) => {
-          if (e.key === 'Enter') commitLabel()
-          if (e.key === 'Escape') setEditingLabel(false)
-        }}
-        onMouseDown={(e) => e.stopPropagation()}
-        className={cn(
-          'font-semibold text-gray-900 bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none',
-          titleSizeCls[titleSize],
-          layout === 'centered' ? 'text-center w-full mb-1' : 'w-full mb-0.5'
-        )}
-      />
-    ) : (
-      <p
-        className={cn(
-          'font-semibold text-gray-900 truncate max-w-full',
-          titleSizeCls[titleSize],
-          layout === 'centered' ? 'mb-1' : 'mb-0.5',
-          editMode && 'cursor-text'
-        )}
-        onDoubleClick={() => {
-          if (!editMode) return
-          setDraftLabel(config!.label)
-          setEditingLabel(true)
-        }}
-      >
-        {config!.label}
-      </p>
-    )
-  )
+  const moveRule = (id: string, direction: 'up' | 'down') => {
+    const idx = rules.findIndex((r) => r.id === id)
+    if (idx < 0) return
+    const swapIdx = direction === 'up' ? idx - 1 : idx + 1
+    if (swapIdx < 0 || swapIdx >= rules.length) return
+    const next = [...rules]
+    ;[next[idx], next[swapIdx]] = [next[swapIdx], next[idx]]
+    onChange(next)
+  }
 
-  const valueBlock = isConfigured && !loading && !error && (
-    <p
-      className={cn('font-bold tabular-nums tracking-tight truncate max-w-full', valueSizeCls[valueSize])}
-      style={metricColour ? { color: metricColour } : undefined}
-    >
-      {formatMetricValue(computedValue, config!.prefix, config!.suffix)}
-    </p>
-  )
+  const needsValue = (op: CondFormatOperator) => !['is_empty', 'is_not_empty'].includes(op)
+  const needsColour = (style: CondFormatStyle) => ['bg', 'text'].includes(style)
 
   return (
-    <div className={cn(
-      'h-full bg-white rounded-md border border-gray-200 flex flex-col overflow-hidden shadow-sm hover:shadow-md transition-shadow group/metric relative',
-      layout === 'centered' && 'items-center justify-center',
-      layout === 'left' && 'justify-center',
-      layout === 'minimal' && 'justify-end',
-      editMode && 'widget-drag-handle cursor-grab active:cursor-grabbing'
-    )}>
-      {/* Top-right controls */}
-      <div className="absolute top-1.5 right-1.5 flex items-center gap-0.5 z-10" onMouseDown={(e) => e.stopPropagation()}>
-        {isConfigured && (
-          <div className="relative">
-            <button
-              ref={filterBtnRef}
-              onClick={() => setShowFilters((v) => !v)}
-              className={cn(
-                'p-1 transition-colors rounded-md hover:bg-gray-100 cursor-pointer relative',
-                activeFilterCount > 0 ? 'text-gray-600' : 'text-gray-300 hover:text-gray-600',
-                activeFilterCount === 0 && !showFilters && 'opacity-0 group-hover/metric:opacity-100'
-              )}
-              title="Filter data"
-            >
-              <Filter size={11} />
-              {activeFilterCount > 0 && (
-                <span className="absolute -top-0.5 -right-0.5 w-3 h-3 bg-gray-700 text-white text-[7px] font-bold rounded-full flex items-center justify-center">
-                  {activeFilterCount}
-                </span>
-              )}
-            </button>
-            {showFilters && (
-              <FilterPanel
-                filters={widget.filters ?? []}
-                columns={filterColumns}
-                onChange={onFiltersChange}
-                onClose={() => setShowFilters(false)}
-                anchorRef={filterBtnRef}
-              />
-            )}
-          </div>
-        )}
-        {editMode && (
-          <>
-            <button onClick={onOpenConfig} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer opacity-0 group-hover/metric:opacity-100" title="Configure metric">
-              <Settings2 size={11} />
-            </button>
-            <button onClick={onDuplicate} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer opacity-0 group-hover/metric:opacity-100" title="Duplicate">
-              <Copy size={12} />
-            </button>
-            <button onClick={onRemove} className="p-1 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-gray-100 cursor-pointer opacity-0 group-hover/metric:opacity-100" title="Remove metric">
-              <X size={12} />
-            </button>
-          </>
-        )}
-      </div>
-
-      {!isConfigured ? (
-        <div className="text-center flex-1 flex flex-col items-center justify-center">
-          <Gauge size={20} className="text-gray-200 mx-auto mb-2" />
-          <p className="text-xs text-gray-400">Not configured</p>
-          {editMode && (
-            <button onClick={onOpenConfig} onMouseDown={(e) => e.stopPropagation()} className="mt-1.5 text-[10px] text-gray-500 hover:text-gray-700 underline cursor-pointer">Configure</button>
+    <div className="border-t border-gray-100">
+      <button
+        onClick={() => setExpanded((v) => !v)}
+        className="w-full flex items-center justify-between px-4 py-2.5 text-left hover:bg-gray-50 transition-colors cursor-pointer"
+      >
+        <span className="flex items-center gap-1.5 text-[10px] font-medium text-gray-500 uppercase tracking-wider">
+          <Paintbrush size={10} />
+          Conditional Formatting
+          {rules.length > 0 && (
+            <span className="ml-1 text-[9px] bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded-md">{rules.length}</span>
           )}
-        </div>
-      ) : loading ? (
-        <div className="flex-1 flex items-center justify-center">
-          <Loader2 size={18} className="animate-spin text-gray-300" />
-        </div>
-      ) : error ? (
-        <div className="text-center px-4 flex-1 flex flex-col items-center justify-center">
-          <AlertCircle size={16} className="text-gray-300 mx-auto mb-1" />
-          <p className="text-[10px] text-gray-500">{error}</p>
-        </div>
-      ) : layout === 'centered' ? (
-        <div className="text-center px-4">
-          {labelBlock}
-          {valueBlock}
-        </div>
-      ) : layout === 'left' ? (
-        <div className="px-4">
-          {labelBlock}
-          {valueBlock}
-        </div>
-      ) : /* minimal */ (
-        <div className="px-3 pb-3">
-          {valueBlock}
-          {labelBlock}
-        </div>
-      )}
-    </div>
-  )
-}
-
-/* ---- Chart helpers ---- */
-
-const CHART_COLOUR_DEFAULT = '#6366F1'
-const CHART_COLOUR_PRESETS = [
-  '#6366F1', // indigo
-  '#3B82F6', // blue
-  '#06B6D4', // cyan
-  '#10B981', // emerald
-  '#F59E0B', // amber
-  '#EF4444', // red
-  '#EC4899', // pink
-  '#8B5CF6', // violet
-  '#F97316', // orange
-  '#14B8A6', // teal
-  '#64748B', // slate
-  '#1F2937', // charcoal
-]
+        </span>
+        <ChevronDown className={cn('h-3 w-3 text-gray-400 transition-transform duration-200', expanded && 'rotate-180')} />
+      </button>
 
-function buildChartData(
-  rows: Record<string, unknown>[],
-  config: ChartConfig
-): { name: string; value: number }[] {
-  // Apply date filter
-  let filtered = rows
-  const start = getTimeframeStart(config.timeframe ?? 'all')
-  if (start && config.dateColumn) {
-    filtered = rows.filter((r) => {
-      const d = parseDate(r[config.dateColumn!])
-      return d ? d >= start : false
-    })
-  }
+      <AnimatePresence>
+        {expanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.4, ease: [0.04, 0.62, 0.23, 0.98] }}
+            className="overflow-hidden"
+          >
+            <div className="px-4 pb-3 space-y-2">
+              {rules.length === 0 && (
+                <p className="text-[10px] text-gray-400 py-1">No rules yet. Add one to highlight cells based on their values.</p>
+              )}
 
-  // Group by category column (with optional date truncation)
-  const trunc = config.dateTruncate ?? 'none'
-  const groups = new Map<string, unknown[]>()
-  const groupSortKeys = new Map<string, number>() // for chronological sorting of dates
-
-  for (const row of filtered) {
-    const raw = row[config.categoryColumn]
-    let cat: string
-
-    if (trunc !== 'none') {
-      const d = parseDate(raw)
-      if (d) {
-        const truncated = truncateDate(d, trunc)
-        cat = formatDatePretty(truncated, trunc)
-        // Store timestamp for chronological sort
-        if (!groupSortKeys.has(cat)) groupSortKeys.set(cat, truncated.getTime())
-      } else {
-        cat = String(raw ?? '(empty)')
-      }
-    } else {
-      // Auto-detect dates and format nicely even without truncation
-      const d = parseDate(raw)
-      if (d && looksLikeDate(raw)) {
-        cat = formatDatePretty(d, 'none')
-        if (!groupSortKeys.has(cat)) groupSortKeys.set(cat, d.getTime())
-      } else {
-        cat = String(raw ?? '(empty)')
-      }
-    }
+              {rules.map((rule, ruleIdx) => (
+                <div key={rule.id} className="bg-white border border-gray-200 rounded-md p-2.5 space-y-2">
+                  {/* Header: priority arrows, enable/delete */}
+                  <div className="flex items-center gap-1">
+                    {/* Priority reorder */}
+                    <div className="flex flex-col gap-0 shrink-0">
+                      <button
+                        onClick={() => moveRule(rule.id, 'up')}
+                        disabled={ruleIdx === 0}
+                        className="p-0 text-gray-300 hover:text-gray-500 disabled:opacity-20 cursor-pointer disabled:cursor-default"
+                        title="Move up (higher priority)"
+                      >
+                        <ArrowUp size={9} />
+                      </button>
+                      <button
+                        onClick={() => moveRule(rule.id, 'down')}
+                        disabled={ruleIdx === rules.length - 1}
+                        className="p-0 text-gray-300 hover:text-gray-500 disabled:opacity-20 cursor-pointer disabled:cursor-default"
+                        title="Move down (lower priority)"
+                      >
+                        <ArrowDown size={9} />
+                      </button>
+                    </div>
+                    <span className="text-[9px] text-gray-300 w-3 text-center shrink-0">{ruleIdx + 1}</span>
 
-    if (!groups.has(cat)) groups.set(cat, [])
-    groups.get(cat)!.push(row)
-  }
+                    <div className="flex-1" />
 
-  // Aggregate per group
-  const data: { name: string; value: number }[] = []
+                    <button
+                      onClick={() => updateRule(rule.id, { enabled: !rule.enabled })}
+                      className={cn('p-0.5 transition-colors rounded cursor-pointer', rule.enabled ? 'text-gray-500' : 'text-gray-300')}
+                      title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                    >
+                      {rule.enabled ? <ToggleRight size={14} /> : <ToggleLeft size={14} />}
+                    </button>
+                    <button
+                      onClick={() => removeRule(rule.id)}
+                      className="p-0.5 text-gray-300 hover:text-red-500 transition-colors rounded cursor-pointer"
+                      title="Delete rule"
+                    >
+                      <Trash2 size={10} />
+                    </button>
+                  </div>
 
-  for (const [cat, groupRows] of groups.entries()) {
-    let val: number
+                  {/* Row 1: column + operator */}
+                  <div className="flex items-center gap-1.5">
+                    <select
+                      value={rule.column}
+                      onChange={(e) => updateRule(rule.id, { column: e.target.value })}
+                      className="flex-1 text-[10px] border border-gray-200 rounded-md px-1.5 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400 min-w-0 truncate"
+                    >
+                      {columns.map((c) => (
+                        <option key={c.key} value={c.key}>{c.label}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={rule.operator}
+                      onChange={(e) => updateRule(rule.id, { operator: e.target.value as CondFormatOperator })}
+                      className="text-[10px] border border-gray-200 rounded-md px-1.5 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400"
+                    >
+                      {Object.entries(COND_OP_LABELS).map(([k, v]) => (
+                        <option key={k} value={k}>{v}</option>
+                      ))}
+                    </select>
+                  </div>
 
-    if (config.aggregation === 'count') {
-      val = groupRows.length
-    } else if (config.aggregation === 'count_distinct') {
-      const unique = new Set(groupRows.map((r) => String((r as Record<string, unknown>)[config.valueColumn] ?? '')))
-      val = unique.size
-    } else {
-      const nums = groupRows
-        .map((r) => {
-          const v = (r as Record<string, unknown>)[config.valueColumn]
-          if (typeof v === 'number') return v
-          if (typeof v === 'string') { const n = parseFloat(v); return isNaN(n) ? null : n }
-          return null
-        })
-        .filter((n): n is number => n !== null)
-
-      if (nums.length === 0) { val = 0 }
-      else if (config.aggregation === 'sum') val = nums.reduce((a, b) => a + b, 0)
-      else if (config.aggregation === 'average') val = nums.reduce((a, b) => a + b, 0) / nums.length
-      else if (config.aggregation === 'min') val = Math.min(...nums)
-      else if (config.aggregation === 'max') val = Math.max(...nums)
-      else val = 0
-    }
+                  {/* Row 2: value(s) */}
+                  {needsValue(rule.operator) && (
+                    <div className="flex items-center gap-1.5">
+                      <input
+                        type="text"
+                        value={rule.value}
+                        onChange={(e) => updateRule(rule.id, { value: e.target.value })}
+                        placeholder="Value"
+                        className="flex-1 text-[10px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 focus:outline-none focus:border-gray-400"
+                      />
+                      {rule.operator === 'between' && (
+                        <>
+                          <span className="text-[9px] text-gray-400">and</span>
+                          <input
+                            type="text"
+                            value={rule.value2 ?? ''}
+                            onChange={(e) => updateRule(rule.id, { value2: e.target.value })}
+                            placeholder="Value 2"
+                            className="flex-1 text-[10px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 focus:outline-none focus:border-gray-400"
+                          />
+                        </>
+                      )}
+                    </div>
+                  )}
 
-    data.push({ name: cat, value: Math.round(val * 100) / 100 })
-  }
+                  {/* Row 3: style + target */}
+                  <div className="flex items-center gap-1.5">
+                    <select
+                      value={rule.style}
+                      onChange={(e) => updateRule(rule.id, { style: e.target.value as CondFormatStyle })}
+                      className="text-[10px] border border-gray-200 rounded-md px-1.5 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400"
+                    >
+                      {Object.entries(COND_STYLE_LABELS).map(([k, v]) => (
+                        <option key={k} value={k}>{v}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={rule.target}
+                      onChange={(e) => updateRule(rule.id, { target: e.target.value as CondFormatTarget })}
+                      className="text-[10px] border border-gray-200 rounded-md px-1.5 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400"
+                    >
+                      <option value="cell">Cell only</option>
+                      <option value="row">Entire row</option>
+                    </select>
+                  </div>
 
-  // Sort
-  if (config.sortBy === 'value') {
-    data.sort((a, b) => b.value - a.value)
-  } else {
-    // Chronological sort if we have date keys, otherwise alphabetical
-    const hasDateKeys = groupSortKeys.size > 0
-    if (hasDateKeys) {
-      data.sort((a, b) => (groupSortKeys.get(a.name) ?? 0) - (groupSortKeys.get(b.name) ?? 0))
-    } else {
-      data.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
-    }
-  }
+                  {/* Row 4: colour (when applicable) */}
+                  {needsColour(rule.style) && (
+                    <div className="flex items-center gap-1.5">
+                      <input
+                        type="color"
+                        value={rule.colour}
+                        onChange={(e) => updateRule(rule.id, { colour: e.target.value })}
+                        className="w-5 h-5 rounded border border-gray-200 cursor-pointer p-0 shrink-0"
+                      />
+                      <div className="flex gap-0.5 flex-wrap">
+                        {PRESET_COLOURS.map((c) => (
+                          <button
+                            key={c}
+                            onClick={() => updateRule(rule.id, { colour: c })}
+                            className={cn('w-3.5 h-3.5 rounded-sm border cursor-pointer transition-transform hover:scale-125', rule.colour === c ? 'border-gray-500 scale-110' : 'border-gray-200')}
+                            style={{ backgroundColor: c }}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  )}
 
-  // Limit bars
-  const max = config.maxBars ?? 20
-  return data.slice(0, max)
-}
+                  {/* Preview swatch */}
+                  <div
+                    className="text-[9px] px-2 py-1 rounded-md border border-gray-100 inline-block"
+                    style={
+                      rule.style === 'bg' ? { backgroundColor: rule.colour } :
+                      rule.style === 'text' ? { color: rule.colour } :
+                      rule.style === 'bold' ? { fontWeight: 600 } :
+                      rule.style === 'italic' ? { fontStyle: 'italic' } : {}
+                    }
+                  >
+                    Sample text
+                  </div>
+                </div>
+              ))}
 
-/* ---- Chart Card Component ---- */
+              <button
+                onClick={addRule}
+                className="flex items-center gap-1 text-[10px] font-medium text-gray-500 hover:text-gray-700 transition-colors cursor-pointer px-1 py-1"
+              >
+                <Plus size={10} />
+                Add rule
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  )
+}
 
-function ChartCard({
+/* ───────── Config Panel: Table ───────── */
+function TableConfigPanel({
   widget,
-  savedTables,
-  accessToken,
-  editMode,
-  globalFetchKey,
-  onRemove,
-  onDuplicate,
-  onOpenConfig,
-  onLabelChange,
-  onFiltersChange,
+  table,
+  onHiddenColumnsChange,
+  onColumnAliasChange,
+  onColumnOrderChange,
+  onConditionalFormatsChange,
+  onColumnFormatsChange,
+  onClose,
 }: {
   widget: DashboardWidget
-  savedTables: SavedTable[]
-  accessToken: string | null
-  editMode: boolean
-  globalFetchKey: number
-  onRemove: () => void
-  onDuplicate: () => void
-  onOpenConfig: () => void
-  onLabelChange: (label: string) => void
-  onFiltersChange: (filters: WidgetFilter[]) => void
+  table: SavedTable | undefined
+  onHiddenColumnsChange: (cols: string[]) => void
+  onColumnAliasChange: (sourcePath: string, alias: string) => void
+  onColumnOrderChange: (order: string[]) => void
+  onConditionalFormatsChange: (rules: ConditionalFormatRule[]) => void
+  onColumnFormatsChange: (formats: Record<string, ColumnFormat>) => void
+  onClose: () => void
 }) {
-  const config = widget.chartConfig
-  const isConfigured = !!config?.tableId && !!config?.categoryColumn
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set())
+  const [editingKey, setEditingKey] = useState<string | null>(null)
+  const [draftName, setDraftName] = useState('')
+  const renameInputRef = useRef<HTMLInputElement>(null)
 
-  // Data
-  const [rows, setRows] = useState<Record<string, unknown>[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
+  useEffect(() => {
+    if (editingKey && renameInputRef.current) {
+      renameInputRef.current.focus()
+      renameInputRef.current.select()
+    }
+  }, [editingKey])
 
-  // Filter panel
-  const [showFilters, setShowFilters] = useState(false)
-  const filterBtnRef = useRef<HTMLButtonElement>(null)
+  const hiddenSet = new Set(widget.hiddenColumns ?? [])
+  const sourceCols = table?.columns.filter((c) => c.visible) ?? []
 
-  // Inline title editing
-  const [editingTitle, setEditingTitle] = useState(false)
-  const [draftTitle, setDraftTitle] = useState('')
-  const titleInputRef = useRef<HTMLInputElement>(null)
+  type ColItem = { key: string; name: string }
+  const allCols: ColItem[] = sourceCols.map((c) => ({
+    key: c.sourcePath,
+    name: widget.columnAliases?.[c.sourcePath] || c.alias || c.sourcePath,
+  }))
 
-  useEffect(() => {
-    if (editingTitle) setTimeout(() => { titleInputRef.current?.focus(); titleInputRef.current?.select() }, 50)
-  }, [editingTitle])
-
-  const commitTitle = () => {
-    setEditingTitle(false)
-    const trimmed = draftTitle.trim()
-    if (trimmed && trimmed !== config?.label) {
-      onLabelChange(trimmed)
-    }
+  // Apply ordering
+  const orderedCols = widget.columnOrder
+    ? widget.columnOrder.map((k) => allCols.find((c) => c.key === k)).filter(Boolean) as ColItem[]
+    : allCols
+  const orderedSet = new Set(widget.columnOrder ?? [])
+  const unorderedCols = allCols.filter((c) => !orderedSet.has(c.key))
+  const displayList = [...orderedCols, ...unorderedCols]
+
+  const toggleSelection = (key: string) => {
+    setSelectedKeys((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
   }
 
-  // Fetch data
-  useEffect(() => {
-    const tableId = isConfigured ? config!.tableId : null
-    if (!tableId) return
+  const selectAll = () => {
+    if (selectedKeys.size === displayList.length) {
+      setSelectedKeys(new Set())
+    } else {
+      setSelectedKeys(new Set(displayList.map((c) => c.key)))
+    }
+  }
 
-    const table = savedTables.find((t) => t.id === tableId)
-    if (!table) return
+  const toggleVisibility = (key: string) => {
+    const hidden = widget.hiddenColumns ?? []
+    if (hiddenSet.has(key)) {
+      onHiddenColumnsChange(hidden.filter((k) => k !== key))
+    } else {
+      onHiddenColumnsChange([...hidden, key])
+    }
+  }
 
-    if (table.projectId === '__query__') {
-      if (table.queryData && table.queryData.length > 0) setRows(table.queryData)
-      return
+  const hideSelected = () => {
+    const hidden = widget.hiddenColumns ?? []
+    const toHide = [...selectedKeys].filter((k) => !hiddenSet.has(k))
+    if (toHide.length > 0) {
+      onHiddenColumnsChange([...hidden, ...toHide])
     }
+    setSelectedKeys(new Set())
+  }
 
-    if (!accessToken) return
+  const showSelected = () => {
+    const hidden = widget.hiddenColumns ?? []
+    onHiddenColumnsChange(hidden.filter((k) => !selectedKeys.has(k)))
+    setSelectedKeys(new Set())
+  }
 
-    let cancelled = false
-    setLoading(true)
-    setError(null)
+  const moveColumn = (key: string, direction: 'up' | 'down') => {
+    const currentOrder = displayList.map((c) => c.key)
+    const idx = currentOrder.indexOf(key)
+    if (idx < 0) return
+    const swapIdx = direction === 'up' ? idx - 1 : idx + 1
+    if (swapIdx < 0 || swapIdx >= currentOrder.length) return
+    const newOrder = [...currentOrder]
+    ;[newOrder[idx], newOrder[swapIdx]] = [newOrder[swapIdx], newOrder[idx]]
+    onColumnOrderChange(newOrder)
+  }
 
-    const load = async () => {
-      try {
-        const documents = await fetchAllDocuments(accessToken, table.projectId, table.collectionPath, {
-          isCollectionGroup: table.isCollectionGroup,
-          isCancelled: () => cancelled,
-        })
-        if (cancelled) return
-        const flattened = documents.map((d) => {
-          const { __id, __path, __parentId, ...rest } = d
-          return {
-            __id,
-            ...(table.isCollectionGroup ? { __path: __path ?? '', __parentId: __parentId ?? '' } : {}),
-            ...flattenObject(rest as Record<string, unknown>),
-          }
-        })
-        setRows(flattened)
-      } catch (err) {
-        if (cancelled) return
-        setError(err instanceof Error ? err.message : 'Failed to load data')
-      } finally {
-        if (!cancelled) setLoading(false)
-      }
+  const commitRename = () => {
+    if (!editingKey) return
+    const trimmed = draftName.trim()
+    if (trimmed) {
+      onColumnAliasChange(editingKey, trimmed)
     }
+    setEditingKey(null)
+  }
 
-    load()
-    return () => { cancelled = true }
-  }, [isConfigured ? config?.tableId : null, accessToken, savedTables, globalFetchKey])
-
-  const filteredRows = applyWidgetFilters(rows, widget.filters)
-  const chartData = isConfigured && filteredRows.length > 0 ? buildChartData(filteredRows, config!) : []
-  const activeFilterCount = (widget.filters ?? []).filter((f) => f.column && f.operator).length
-
-  // ----- Display card -----
-  const table = isConfigured ? savedTables.find((t) => t.id === config!.tableId) : undefined
-  const filterColumns = table ? table.columns.filter((c) => c.visible).map((c) => c.sourcePath) : (rows.length > 0 ? Object.keys(rows[0]).filter((k) => !k.startsWith('__')) : [])
+  const visibleCount = displayList.filter((c) => !hiddenSet.has(c.key)).length
+  const hiddenCount = displayList.length - visibleCount
+  const selectedHiddenCount = [...selectedKeys].filter((k) => hiddenSet.has(k)).length
+  const selectedVisibleCount = selectedKeys.size - selectedHiddenCount
 
   return (
-    <div className="h-full bg-white rounded-md border border-gray-200 flex flex-col overflow-hidden shadow-sm hover:shadow-md transition-shadow group/chart">
-      {/* Header */}
-      <div className={cn(
-        'widget-drag-handle flex items-center justify-between px-3 py-2 shrink-0 select-none',
-        editMode ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'
-      )}>
-        <div className="flex items-center gap-2 min-w-0">
-          {editingTitle && editMode ? (
-            <input
-              ref={titleInputRef}
-              type="text"
-              value={draftTitle}
-              onChange={(e) => setDraftTitle(e.target.value)}
-              onBlur={commitTitle}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') commitTitle()
-                if (e.key === 'Escape') setEditingTitle(false)
-              }}
-              onMouseDown={(e) => e.stopPropagation()}
-              className="w-full text-xs font-medium text-gray-900 bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none py-0"
-            />
-          ) : (
-            <h4
-              className={cn('text-xs font-medium text-gray-900 truncate', editMode && 'cursor-text')}
-              onDoubleClick={() => {
-                if (!editMode) return
-                setDraftTitle(config?.label || 'Bar Chart')
-                setEditingTitle(true)
-              }}
-            >
-              {config?.label || 'Bar Chart'}
-            </h4>
-          )}
-        </div>
-        <div className="flex items-center gap-0.5 shrink-0 relative" onMouseDown={(e) => e.stopPropagation()}>
-          <button
-            ref={filterBtnRef}
-            onClick={() => setShowFilters((v) => !v)}
-            className={cn(
-              'p-1 transition-colors rounded-md hover:bg-gray-100 cursor-pointer relative',
-              activeFilterCount > 0 ? 'text-gray-600' : 'text-gray-300 hover:text-gray-600'
-            )}
-            title="Filter data"
-          >
-            <Filter size={12} />
-            {activeFilterCount > 0 && (
-              <span className="absolute -top-0.5 -right-0.5 w-3 h-3 bg-gray-700 text-white text-[7px] font-bold rounded-full flex items-center justify-center">
-                {activeFilterCount}
-              </span>
-            )}
-          </button>
-          {showFilters && (
-            <FilterPanel
-              filters={widget.filters ?? []}
-              columns={filterColumns}
-              onChange={onFiltersChange}
-              onClose={() => setShowFilters(false)}
-              anchorRef={filterBtnRef}
-            />
-          )}
-          {editMode && (
-            <>
-              <button onClick={onOpenConfig} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Configure chart">
-                <Settings2 size={12} />
-              </button>
-              <button onClick={onDuplicate} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Duplicate">
-                <Copy size={12} />
-              </button>
-              <button onClick={onRemove} className="p-1 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Remove chart">
-                <X size={12} />
-              </button>
-            </>
-          )}
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 shrink-0">
+        <div className="flex items-center gap-2">
+          <Table size={14} className="text-gray-400" />
+          <h3 className="text-sm font-semibold text-gray-900">Configure Table</h3>
         </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer">
+          <X size={14} />
+        </button>
       </div>
 
-      {/* Chart body */}
-      <div className="flex-1 overflow-hidden px-4 pt-2 pb-3">
-        {!isConfigured ? (
-          <div className="h-full flex flex-col items-center justify-center">
-            {(config?.chartType ?? 'bar') === 'line' ? <TrendingUp size={24} className="text-gray-200 mb-2" /> : <BarChart3 size={24} className="text-gray-200 mb-2" />}
-            <p className="text-xs text-gray-400">Not configured</p>
-            {editMode && (
-              <button onClick={onOpenConfig} className="mt-1.5 text-[10px] text-gray-500 hover:text-gray-700 underline cursor-pointer">Configure</button>
-            )}
-          </div>
-        ) : loading ? (
-          <div className="h-full flex flex-col items-center justify-center">
-            <Loader2 size={18} className="animate-spin text-gray-300 mb-1" />
-            <p className="text-[10px] text-gray-400">Loading…</p>
-          </div>
-        ) : error ? (
-          <div className="h-full flex flex-col items-center justify-center">
-            <AlertCircle size={16} className="text-gray-300 mb-1" />
-            <p className="text-[10px] text-gray-500">{error}</p>
-          </div>
-        ) : chartData.length === 0 ? (
-          <div className="h-full flex flex-col items-center justify-center">
-            <BarChart3 size={20} className="text-gray-200 mb-1" />
-            <p className="text-[10px] text-gray-400">No data to display</p>
-          </div>
-        ) : (
-          <ResponsiveContainer width="100%" height="100%">
-            {(() => {
-              const maxLabelLen = Math.max(...chartData.map((d) => String(d.name).length))
-              const shouldAngle = chartData.length > 6 || maxLabelLen > 8
-              const xTickHeight = shouldAngle ? Math.min(90, Math.max(40, maxLabelLen * 3.2 + 16)) : 24
-              const chartColour = config?.colour ?? CHART_COLOUR_DEFAULT
-              const interval = chartData.length > 40 ? Math.floor(chartData.length / 20) : chartData.length > 20 ? Math.floor(chartData.length / 12) : 0
-              const isLine = (config?.chartType ?? 'bar') === 'line'
-
-              const CustomXTick = ({ x, y, payload }: { x: number; y: number; payload: { value: string } }) => {
-                const label = String(payload.value)
-                const display = label.length > 14 ? label.slice(0, 12) + '…' : label
-                return (
-                  <g transform={`translate(${x},${y + 8})`}>
-                    <text
-                      x={0} y={0}
-                      textAnchor={shouldAngle ? 'end' : 'middle'}
-                      transform={shouldAngle ? 'rotate(-40)' : undefined}
-                      fontSize={10}
-                      fill="#9CA3AF"
-                    >
-                      {display}
-                    </text>
-                  </g>
-                )
-              }
-
-              const sharedChildren = (
-                <>
-                  <defs>
-                    <linearGradient id={`chartGrad-${widget.i}`} x1="0" y1="0" x2="0" y2="1">
-                      <stop offset="0%" stopColor={chartColour} stopOpacity={isLine ? 0.15 : 0.85} />
-                      <stop offset="100%" stopColor={chartColour} stopOpacity={isLine ? 0.01 : 0.5} />
-                    </linearGradient>
-                  </defs>
-                  <CartesianGrid stroke="#F3F4F6" vertical={false} />
-                  <XAxis
-                    dataKey="name"
-                    tick={CustomXTick as never}
-                    tickLine={false}
-                    axisLine={false}
-                    interval={interval}
-                    height={xTickHeight}
-                  />
-                  <YAxis
-                    tick={{ fontSize: 10, fill: '#B0B5BD' }}
-                    tickLine={false}
-                    axisLine={false}
-                    width={40}
-                    tickFormatter={(v) => {
-                      if (typeof v !== 'number') return String(v)
-                      if (v >= 1_000_000) return `${(v / 1_000_000).toFixed(v >= 10_000_000 ? 0 : 1)}M`
-                      if (v >= 1_000) return `${(v / 1_000).toFixed(v >= 10_000 ? 0 : 1)}k`
-                      return String(v)
-                    }}
-                  />
-                  <Tooltip
-                    content={({ active, payload, label }) => {
-                      if (!active || !payload?.[0]) return null
-                      const val = payload[0].value as number
-                      return (
-                        <div className="bg-gray-900 text-white px-3 py-1.5 rounded-md shadow-lg text-xs">
-                          <p className="font-medium">{label}</p>
-                          <p className="text-gray-300 tabular-nums">{val.toLocaleString()}</p>
-                        </div>
-                      )
-                    }}
-                    cursor={isLine ? { stroke: chartColour, strokeWidth: 1, strokeDasharray: '4 4' } : { fill: `${chartColour}10`, radius: 4 }}
-                  />
-                </>
-              )
-
-              if (isLine) {
-                return (
-                  <LineChart data={chartData} margin={{ top: 4, right: 8, left: -8, bottom: shouldAngle ? 4 : 0 }}>
-                    {sharedChildren}
-                    <Line
-                      type="monotone"
-                      dataKey="value"
-                      stroke={chartColour}
-                      strokeWidth={2}
-                      dot={{ r: 3, fill: '#fff', stroke: chartColour, strokeWidth: 2 }}
-                      activeDot={{ r: 5, fill: chartColour, stroke: '#fff', strokeWidth: 2 }}
-                      fill={`url(#chartGrad-${widget.i})`}
-                      animationDuration={600}
-                      animationEasing="ease-out"
-                    />
-                  </LineChart>
-                )
-              }
-
-              return (
-                <BarChart data={chartData} margin={{ top: 4, right: 8, left: -8, bottom: shouldAngle ? 4 : 0 }} barCategoryGap="20%">
-                  {sharedChildren}
-                  <Bar
-                    dataKey="value"
-                    fill={`url(#chartGrad-${widget.i})`}
-                    radius={[4, 4, 0, 0]}
-                    maxBarSize={56}
-                    animationDuration={600}
-                    animationEasing="ease-out"
-                  />
-                </BarChart>
-              )
-            })()}
-          </ResponsiveContainer>
-        )}
-      </div>
-    </div>
-  )
-}
-
-/* ───────── Column Format Helpers ───────── */
-
-const COL_FORMAT_LABELS: Record<ColFormatType, string> = {
-  auto: 'Auto',
-  number: 'Number',
-  currency: 'Currency',
-  percent: 'Percentage',
-  date: 'Date',
-  datetime: 'Date & Time',
-  text: 'Plain Text',
-}
-
-const CURRENCY_OPTIONS = [
-  { code: 'USD', symbol: '$', label: 'USD ($)' },
-  { code: 'EUR', symbol: '€', label: 'EUR (€)' },
-  { code: 'GBP', symbol: '£', label: 'GBP (£)' },
-  { code: 'AUD', symbol: 'A$', label: 'AUD (A$)' },
-  { code: 'CAD', symbol: 'C$', label: 'CAD (C$)' },
-  { code: 'JPY', symbol: '¥', label: 'JPY (¥)' },
-  { code: 'CNY', symbol: '¥', label: 'CNY (¥)' },
-  { code: 'INR', symbol: '₹', label: 'INR (₹)' },
-  { code: 'NZD', symbol: 'NZ$', label: 'NZD (NZ$)' },
-  { code: 'CHF', symbol: 'CHF', label: 'CHF' },
-]
-
-const DATE_FORMAT_OPTIONS = [
-  { value: 'short', label: 'Short (1/2/26)' },
-  { value: 'medium', label: 'Medium (1 Feb 2026)' },
-  { value: 'long', label: 'Long (1 February 2026)' },
-  { value: 'iso', label: 'ISO (2026-02-01)' },
-]
-
-/** Format a raw cell value using a ColumnFormat config. */
-function applyColumnFormat(value: unknown, fmt: ColumnFormat | undefined): string {
-  if (value === null || value === undefined) return '—'
-
-  // Plain text — just stringify
-  if (!fmt || fmt.type === 'text') {
-    if (typeof value === 'object') return JSON.stringify(value)
-    return String(value)
-  }
-
-  // Auto — use the existing heuristic
-  if (fmt.type === 'auto') {
-    return formatCellValue(value)
-  }
-
-  const decimals = fmt.decimals ?? 2
-  const useSep = fmt.thousandSep !== false
-
-  // Number
-  if (fmt.type === 'number') {
-    const num = typeof value === 'number' ? value : parseFloat(String(value))
-    if (isNaN(num)) return String(value)
-    const formatted = useSep
-      ? num.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
-      : num.toFixed(decimals)
-    return (fmt.prefix ?? '') + formatted + (fmt.suffix ?? '')
-  }
-
-  // Currency
-  if (fmt.type === 'currency') {
-    const num = typeof value === 'number' ? value : parseFloat(String(value))
-    if (isNaN(num)) return String(value)
-    try {
-      return num.toLocaleString(undefined, {
-        style: 'currency',
-        currency: fmt.currency || 'USD',
-        minimumFractionDigits: decimals,
-        maximumFractionDigits: decimals,
-      })
-    } catch {
-      return (fmt.prefix ?? '$') + num.toFixed(decimals)
-    }
-  }
-
-  // Percentage
-  if (fmt.type === 'percent') {
-    const num = typeof value === 'number' ? value : parseFloat(String(value))
-    if (isNaN(num)) return String(value)
-    // If the value is already 0-100 range, display as-is with %
-    // If < 1, treat as a ratio and multiply by 100
-    const pct = Math.abs(num) <= 1 && Math.abs(num) > 0 ? num * 100 : num
-    const formatted = useSep
-      ? pct.toLocaleString(undefined, { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
-      : pct.toFixed(decimals)
-    return formatted + '%'
-  }
-
-  // Date
-  if (fmt.type === 'date' || fmt.type === 'datetime') {
-    const d = parseDate(value)
-    if (!d) return String(value)
-    const df = fmt.dateFormat || 'medium'
-    if (df === 'iso') {
-      return fmt.type === 'datetime'
-        ? d.toISOString().replace('T', ' ').slice(0, 19)
-        : d.toISOString().slice(0, 10)
-    }
-    const opts: Intl.DateTimeFormatOptions = df === 'short'
-      ? { day: 'numeric', month: 'numeric', year: '2-digit' }
-      : df === 'long'
-        ? { day: 'numeric', month: 'long', year: 'numeric' }
-        : { day: 'numeric', month: 'short', year: 'numeric' }
-    if (fmt.type === 'datetime') {
-      opts.hour = '2-digit'
-      opts.minute = '2-digit'
-    }
-    return d.toLocaleDateString(undefined, opts)
-  }
-
-  return String(value)
-}
-
-/** Shared column formatting editor section for config panels. */
-function ColumnFormattingSection({
-  columns,
-  columnFormats,
-  onChange,
-}: {
-  columns: { key: string; label: string }[]
-  columnFormats: Record<string, ColumnFormat>
-  onChange: (formats: Record<string, ColumnFormat>) => void
-}) {
-  const [expanded, setExpanded] = useState(Object.keys(columnFormats).length > 0)
-  const [selectedCol, setSelectedCol] = useState<string>(columns[0]?.key ?? '')
-
-  const currentFmt = columnFormats[selectedCol] ?? { type: 'auto' as ColFormatType }
-
-  const updateFmt = (patch: Partial<ColumnFormat>) => {
-    const updated = { ...columnFormats, [selectedCol]: { ...currentFmt, ...patch } }
-    // Remove entry if set back to auto with no custom settings
-    if (updated[selectedCol].type === 'auto' && !updated[selectedCol].prefix && !updated[selectedCol].suffix) {
-      delete updated[selectedCol]
-    }
-    onChange(updated)
-  }
-
-  const formattedCount = Object.keys(columnFormats).length
-
-  return (
-    <div className="border-t border-gray-100">
-      <button
-        onClick={() => setExpanded((v) => !v)}
-        className="w-full flex items-center justify-between px-4 py-2.5 text-left hover:bg-gray-50 transition-colors cursor-pointer"
-      >
-        <span className="flex items-center gap-1.5 text-[10px] font-medium text-gray-500 uppercase tracking-wider">
-          <Type size={10} />
-          Column Formatting
-          {formattedCount > 0 && (
-            <span className="ml-1 text-[9px] bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded-md">{formattedCount}</span>
-          )}
-        </span>
-        <ChevronDown className={cn('h-3 w-3 text-gray-400 transition-transform duration-200', expanded && 'rotate-180')} />
-      </button>
-
+      {/* Bulk actions bar */}
       <AnimatePresence>
-        {expanded && (
+        {selectedKeys.size > 0 && (
           <motion.div
             initial={{ height: 0, opacity: 0 }}
             animate={{ height: 'auto', opacity: 1 }}
             exit={{ height: 0, opacity: 0 }}
             transition={{ duration: 0.4, ease: [0.04, 0.62, 0.23, 0.98] }}
-            className="overflow-hidden"
+            className="overflow-hidden border-b border-gray-100"
           >
-            <div className="px-4 pb-3 space-y-2.5">
-              {/* Column selector */}
-              <div>
-                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Column</label>
-                <select
-                  value={selectedCol}
-                  onChange={(e) => setSelectedCol(e.target.value)}
-                  className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 mt-0.5"
-                >
-                  {columns.map((c) => (
-                    <option key={c.key} value={c.key}>
-                      {c.label}{columnFormats[c.key] ? ` (${COL_FORMAT_LABELS[columnFormats[c.key].type]})` : ''}
-                    </option>
-                  ))}
-                </select>
-              </div>
-
-              {/* Format type */}
-              <div>
-                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Format</label>
-                <select
-                  value={currentFmt.type}
-                  onChange={(e) => updateFmt({ type: e.target.value as ColFormatType })}
-                  className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 mt-0.5"
+            <div className="px-4 py-2 flex items-center gap-2 bg-gray-50">
+              <span className="text-[10px] font-medium text-gray-600">{selectedKeys.size} selected</span>
+              <div className="flex-1" />
+              {selectedVisibleCount > 0 && (
+                <button
+                  onClick={hideSelected}
+                  className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors cursor-pointer"
                 >
-                  {Object.entries(COL_FORMAT_LABELS).map(([k, v]) => (
-                    <option key={k} value={k}>{v}</option>
-                  ))}
-                </select>
-              </div>
-
-              {/* Number / Currency / Percent options */}
-              {(currentFmt.type === 'number' || currentFmt.type === 'currency' || currentFmt.type === 'percent') && (
-                <div className="flex items-center gap-2">
-                  <div className="flex-1">
-                    <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Decimals</label>
-                    <input
-                      type="number"
-                      min={0}
-                      max={10}
-                      value={currentFmt.decimals ?? 2}
-                      onChange={(e) => updateFmt({ decimals: parseInt(e.target.value) || 0 })}
-                      className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 focus:outline-none focus:border-gray-400 mt-0.5"
-                    />
-                  </div>
-                  <div className="flex-1">
-                    <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">1000 sep</label>
-                    <select
-                      value={currentFmt.thousandSep !== false ? 'yes' : 'no'}
-                      onChange={(e) => updateFmt({ thousandSep: e.target.value === 'yes' })}
-                      className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 mt-0.5"
-                    >
-                      <option value="yes">Yes</option>
-                      <option value="no">No</option>
-                    </select>
-                  </div>
-                </div>
-              )}
-
-              {/* Currency selector */}
-              {currentFmt.type === 'currency' && (
-                <div>
-                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Currency</label>
-                  <select
-                    value={currentFmt.currency || 'USD'}
-                    onChange={(e) => updateFmt({ currency: e.target.value })}
-                    className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 mt-0.5"
-                  >
-                    {CURRENCY_OPTIONS.map((c) => (
-                      <option key={c.code} value={c.code}>{c.label}</option>
-                    ))}
-                  </select>
-                </div>
-              )}
-
-              {/* Date format */}
-              {(currentFmt.type === 'date' || currentFmt.type === 'datetime') && (
-                <div>
-                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Date Style</label>
-                  <select
-                    value={currentFmt.dateFormat || 'medium'}
-                    onChange={(e) => updateFmt({ dateFormat: e.target.value })}
-                    className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 mt-0.5"
-                  >
-                    {DATE_FORMAT_OPTIONS.map((o) => (
-                      <option key={o.value} value={o.value}>{o.label}</option>
-                    ))}
-                  </select>
-                </div>
-              )}
-
-              {/* Custom prefix/suffix for number */}
-              {currentFmt.type === 'number' && (
-                <div className="flex items-center gap-2">
-                  <div className="flex-1">
-                    <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Prefix</label>
-                    <input
-                      type="text"
-                      value={currentFmt.prefix ?? ''}
-                      onChange={(e) => updateFmt({ prefix: e.target.value })}
-                      placeholder="e.g. $"
-                      className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 focus:outline-none focus:border-gray-400 mt-0.5"
-                    />
-                  </div>
-                  <div className="flex-1">
-                    <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Suffix</label>
-                    <input
-                      type="text"
-                      value={currentFmt.suffix ?? ''}
-                      onChange={(e) => updateFmt({ suffix: e.target.value })}
-                      placeholder="e.g. kg"
-                      className="w-full text-[11px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-700 focus:outline-none focus:border-gray-400 mt-0.5"
-                    />
-                  </div>
-                </div>
-              )}
-
-              {/* Preview */}
-              {currentFmt.type !== 'auto' && (
-                <div className="bg-gray-50 rounded-md px-2.5 py-1.5">
-                  <p className="text-[9px] text-gray-400 uppercase tracking-wider mb-0.5">Preview</p>
-                  <p className="text-[11px] text-gray-700 font-medium tabular-nums">
-                    {currentFmt.type === 'number' ? applyColumnFormat(1234567.89, currentFmt) :
-                     currentFmt.type === 'currency' ? applyColumnFormat(1234567.89, currentFmt) :
-                     currentFmt.type === 'percent' ? applyColumnFormat(0.4567, currentFmt) :
-                     currentFmt.type === 'date' ? applyColumnFormat('2026-02-11T10:30:00Z', currentFmt) :
-                     currentFmt.type === 'datetime' ? applyColumnFormat('2026-02-11T10:30:00Z', currentFmt) :
-                     applyColumnFormat('Sample text', currentFmt)}
-                  </p>
-                </div>
+                  <EyeOff size={10} />
+                  Hide
+                </button>
               )}
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-    </div>
-  )
-}
-
-/* ───────── Quick Column Format Toolbar (floating popover) ───────── */
-
-const QUICK_FORMATS: { type: ColFormatType; icon: React.ReactNode; label: string; defaults?: Partial<ColumnFormat> }[] = [
-  { type: 'auto', icon: <Wand2 size={12} />, label: 'Auto' },
-  { type: 'number', icon: <Hash size={12} />, label: 'Number', defaults: { decimals: 2, thousandSep: true } },
-  { type: 'currency', icon: <DollarSign size={12} />, label: 'Currency', defaults: { decimals: 2, currency: 'USD' } },
-  { type: 'percent', icon: <Percent size={12} />, label: 'Percent', defaults: { decimals: 1 } },
-  { type: 'date', icon: <Calendar size={12} />, label: 'Date', defaults: { dateFormat: 'medium' } },
-  { type: 'text', icon: <CaseSensitive size={12} />, label: 'Text' },
-]
-
-function ColumnFormatToolbar({
-  colKey,
-  currentFormat,
-  anchorRect,
-  onApply,
-  onClose,
-}: {
-  colKey: string
-  currentFormat: ColumnFormat | undefined
-  anchorRect: { top: number; left: number; width: number; bottom: number }
-  onApply: (colKey: string, format: ColumnFormat | null) => void
-  onClose: () => void
-}) {
-  const toolbarRef = useRef<HTMLDivElement>(null)
-  const currentType = currentFormat?.type ?? 'auto'
-
-  // Close on outside click
-  useEffect(() => {
-    const handler = (e: MouseEvent) => {
-      if (toolbarRef.current && !toolbarRef.current.contains(e.target as Node)) {
-        onClose()
-      }
-    }
-    document.addEventListener('mousedown', handler)
-    return () => document.removeEventListener('mousedown', handler)
-  }, [onClose])
-
-  // Close on Escape
-  useEffect(() => {
-    const handler = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose() }
-    document.addEventListener('keydown', handler)
-    return () => document.removeEventListener('keydown', handler)
-  }, [onClose])
-
-  const handleSelect = (qf: typeof QUICK_FORMATS[number]) => {
-    if (qf.type === 'auto') {
-      onApply(colKey, null) // remove format
-    } else {
-      onApply(colKey, { type: qf.type, ...qf.defaults } as ColumnFormat)
-    }
-    onClose()
-  }
-
-  // Decimals quick adjust for current format
-  const showDecimals = currentFormat && ['number', 'currency', 'percent'].includes(currentFormat.type)
-  const currentDecimals = currentFormat?.decimals ?? 2
-
-  const adjustDecimals = (delta: number) => {
-    const newDec = Math.max(0, Math.min(10, currentDecimals + delta))
-    onApply(colKey, { ...currentFormat!, decimals: newDec })
-  }
-
-  // Currency quick switch
-  const showCurrency = currentFormat?.type === 'currency'
-
-  return createPortal(
-    <div
-      ref={toolbarRef}
-      className="fixed z-[9999] animate-in slide-in-from-top-1 fade-in duration-150"
-      style={{
-        top: anchorRect.bottom + 4,
-        left: anchorRect.left,
-      }}
-      onMouseDown={(e) => e.stopPropagation()}
-    >
-      <div className="bg-white border border-gray-200 rounded-md shadow-lg p-1 flex flex-col gap-1" style={{ minWidth: 200 }}>
-        {/* Quick format buttons */}
-        <div className="flex items-center gap-0.5">
-          {QUICK_FORMATS.map((qf) => (
-            <button
-              key={qf.type}
-              onClick={() => handleSelect(qf)}
-              className={cn(
-                'flex items-center gap-1 px-2 py-1.5 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
-                currentType === qf.type
-                  ? 'text-gray-800 bg-gray-100'
-                  : 'text-gray-500 hover:text-gray-700 hover:bg-gray-50'
-              )}
-              title={qf.label}
-            >
-              {qf.icon}
-            </button>
-          ))}
-        </div>
-
-        {/* Decimals adjuster */}
-        {showDecimals && (
-          <div className="flex items-center justify-between px-1 py-0.5 border-t border-gray-100">
-            <span className="text-[9px] text-gray-400 uppercase tracking-wider">Decimals</span>
-            <div className="flex items-center gap-1">
-              <button
-                onClick={() => adjustDecimals(-1)}
-                disabled={currentDecimals <= 0}
-                className="w-5 h-5 flex items-center justify-center text-[10px] font-medium text-gray-500 hover:bg-gray-100 rounded cursor-pointer disabled:opacity-30 disabled:cursor-default"
-              >
-                −
-              </button>
-              <span className="text-[10px] font-medium text-gray-700 w-4 text-center tabular-nums">{currentDecimals}</span>
-              <button
-                onClick={() => adjustDecimals(1)}
-                disabled={currentDecimals >= 10}
-                className="w-5 h-5 flex items-center justify-center text-[10px] font-medium text-gray-500 hover:bg-gray-100 rounded cursor-pointer disabled:opacity-30 disabled:cursor-default"
-              >
-                +
-              </button>
-            </div>
-          </div>
-        )}
-
-        {/* Currency quick switch */}
-        {showCurrency && (
-          <div className="flex items-center justify-between px-1 py-0.5 border-t border-gray-100">
-            <span className="text-[9px] text-gray-400 uppercase tracking-wider">Currency</span>
-            <select
-              value={currentFormat?.currency || 'USD'}
-              onChange={(e) => onApply(colKey, { ...currentFormat!, currency: e.target.value })}
-              className="text-[10px] border border-gray-200 rounded px-1 py-0.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 cursor-pointer"
-            >
-              {CURRENCY_OPTIONS.map((c) => (
-                <option key={c.code} value={c.code}>{c.label}</option>
-              ))}
-            </select>
-          </div>
-        )}
-
-        {/* Date style quick switch */}
-        {currentFormat && (currentFormat.type === 'date' || currentFormat.type === 'datetime') && (
-          <div className="flex items-center justify-between px-1 py-0.5 border-t border-gray-100">
-            <span className="text-[9px] text-gray-400 uppercase tracking-wider">Style</span>
-            <select
-              value={currentFormat.dateFormat || 'medium'}
-              onChange={(e) => onApply(colKey, { ...currentFormat, dateFormat: e.target.value })}
-              className="text-[10px] border border-gray-200 rounded px-1 py-0.5 text-gray-700 bg-white focus:outline-none focus:border-gray-400 cursor-pointer"
-            >
-              {DATE_FORMAT_OPTIONS.map((o) => (
-                <option key={o.value} value={o.value}>{o.label}</option>
-              ))}
-            </select>
-          </div>
-        )}
-      </div>
-    </div>,
-    document.body
-  )
-}
-
-/* ───────── Conditional Format Helpers ───────── */
-
-const COND_OP_LABELS: Record<CondFormatOperator, string> = {
-  gt: '>', gte: '≥', lt: '<', lte: '≤', eq: '=', neq: '≠',
-  contains: 'contains', not_contains: 'doesn\'t contain',
-  is_empty: 'is empty', is_not_empty: 'is not empty', between: 'between',
-}
-
-const COND_STYLE_LABELS: Record<CondFormatStyle, string> = {
-  bg: 'Background', text: 'Text colour', bold: 'Bold', italic: 'Italic',
-}
-
-const PRESET_COLOURS = [
-  '#dcfce7', '#fef9c3', '#fee2e2', '#dbeafe', '#f3e8ff', '#fce7f3', '#e0f2fe', '#ffedd5',
-  '#16a34a', '#ca8a04', '#dc2626', '#2563eb', '#9333ea', '#db2777', '#0891b2', '#ea580c',
-]
-
-/** Evaluate a single conditional format rule against a row. */
-function evalCondRule(rule: ConditionalFormatRule, row: Record<string, unknown>): boolean {
-  if (!rule.enabled) return false
-  const raw = row[rule.column]
-  const str = raw != null ? String(raw) : ''
-  const num = raw != null ? parseFloat(String(raw)) : NaN
-  const cmpNum = parseFloat(rule.value)
-
-  switch (rule.operator) {
-    case 'gt': return !isNaN(num) && !isNaN(cmpNum) && num > cmpNum
-    case 'gte': return !isNaN(num) && !isNaN(cmpNum) && num >= cmpNum
-    case 'lt': return !isNaN(num) && !isNaN(cmpNum) && num < cmpNum
-    case 'lte': return !isNaN(num) && !isNaN(cmpNum) && num <= cmpNum
-    case 'eq': return str === rule.value || (!isNaN(num) && !isNaN(cmpNum) && num === cmpNum)
-    case 'neq': return str !== rule.value
-    case 'contains': return str.toLowerCase().includes(rule.value.toLowerCase())
-    case 'not_contains': return !str.toLowerCase().includes(rule.value.toLowerCase())
-    case 'is_empty': return raw == null || str === ''
-    case 'is_not_empty': return raw != null && str !== ''
-    case 'between': {
-      const lo = parseFloat(rule.value)
-      const hi = parseFloat(rule.value2 ?? '')
-      return !isNaN(num) && !isNaN(lo) && !isNaN(hi) && num >= lo && num <= hi
-    }
-    default: return false
-  }
-}
-
-/** Compute inline style object for a cell given all conditional format rules. */
-function getCondStyle(
-  rules: ConditionalFormatRule[] | undefined,
-  row: Record<string, unknown>,
-  columnKey: string,
-  target: 'cell'
-): React.CSSProperties {
-  if (!rules || rules.length === 0) return {}
-  const style: React.CSSProperties = {}
-  for (const rule of rules) {
-    if (!rule.enabled) continue
-    // For cell-targeted rules, only match the specific column
-    // For row-targeted rules, apply to every column
-    if (rule.target === 'cell' && rule.column !== columnKey) continue
-    if (!evalCondRule(rule, row)) continue
-    switch (rule.style) {
-      case 'bg': style.backgroundColor = rule.colour; break
-      case 'text': style.color = rule.colour; break
-      case 'bold': style.fontWeight = 600; break
-      case 'italic': style.fontStyle = 'italic'; break
-    }
-  }
-  return style
-}
-
-/** Shared conditional formatting editor used by Table and Pivot config panels. */
-function ConditionalFormattingSection({
-  rules,
-  columns,
-  onChange,
-}: {
-  rules: ConditionalFormatRule[]
-  columns: { key: string; label: string }[]
-  onChange: (rules: ConditionalFormatRule[]) => void
-}) {
-  const [expanded, setExpanded] = useState(rules.length > 0)
-
-  const addRule = () => {
-    const newRule: ConditionalFormatRule = {
-      id: `cf-${Date.now()}`,
-      column: columns[0]?.key ?? '',
-      operator: 'gt',
-      value: '',
-      style: 'bg',
-      colour: '#dcfce7',
-      target: 'cell',
-      enabled: true,
-    }
-    onChange([...rules, newRule])
-    setExpanded(true)
-  }
-
-  const updateRule = (id: string, patch: Partial<ConditionalFormatRule>) => {
-    onChange(rules.map((r) => r.id === id ? { ...r, ...patch } : r))
-  }
-
-  const removeRule = (id: string) => {
-    onChange(rules.filter((r) => r.id !== id))
-  }
-
-  const moveRule = (id: string, direction: 'up' | 'down') => {
-    const idx = rules.findIndex((r) => r.id === id)
-    if (idx < 0) return
-    const swapIdx = direction === 'up' ? idx - 1 : idx + 1
-    if (swapIdx < 0 || swapIdx >= rules.length) return
-    const next = [...rules]
-    ;[next[idx], next[swapIdx]] = [next[swapIdx], next[idx]]
-    onChange(next)
-  }
-
-  const needsValue = (op: CondFormatOperator) => !['is_empty', 'is_not_empty'].includes(op)
-  const needsColour = (style: CondFormatStyle) => ['bg', 'text'].includes(style)
-
-  return (
-    <div className="border-t border-gray-100">
-      <button
-        onClick={() => setExpanded((v) => !v)}
-        className="w-full flex items-center justify-between px-4 py-2.5 text-left hover:bg-gray-50 transition-colors cursor-pointer"
-      >
-        <span className="flex items-center gap-1.5 text-[10px] font-medium text-gray-500 uppercase tracking-wider">
-          <Paintbrush size={10} />
-          Conditional Formatting
-          {rules.length > 0 && (
-            <span className="ml-1 text-[9px] bg-gray-200 text-gray-600 px-1.5 py-0.5 rounded-md">{rules.length}</span>
-          )}
-        </span>
-        <ChevronDown className={cn('h-3 w-3 text-gray-400 transition-transform duration-200', expanded && 'rotate-180')} />
-      </button>
-
-      <AnimatePresence>
-        {expanded && (
-          <motion.div
-            initial={{ height: 0, opacity: 0 }}
-            animate={{ height: 'auto', opacity: 1 }}
-            exit={{ height: 0, opacity: 0 }}
-            transition={{ duration: 0.4, ease: [0.04, 0.62, 0.23, 0.98] }}
-            className="overflow-hidden"
-          >
-            <div className="px-4 pb-3 space-y-2">
-              {rules.length === 0 && (
-                <p className="text-[10px] text-gray-400 py-1">No rules yet. Add one to highlight cells based on their values.</p>
-              )}
-
-              {rules.map((rule, ruleIdx) => (
-                <div key={rule.id} className="bg-white border border-gray-200 rounded-md p-2.5 space-y-2">
-                  {/* Header: priority arrows, enable/delete */}
-                  <div className="flex items-center gap-1">
-                    {/* Priority reorder */}
-                    <div className="flex flex-col gap-0 shrink-0">
-                      <button
-                        onClick={() => moveRule(rule.id, 'up')}
-                        disabled={ruleIdx === 0}
-                        className="p-0 text-gray-300 hover:text-gray-500 disabled:opacity-20 cursor-pointer disabled:cursor-default"
-                        title="Move up (higher priority)"
-                      >
-                        <ArrowUp size={9} />
-                      </button>
-                      <button
-                        onClick={() => moveRule(rule.id, 'down')}
-                        disabled={ruleIdx === rules.length - 1}
-                        className="p-0 text-gray-300 hover:text-gray-500 disabled:opacity-20 cursor-pointer disabled:cursor-default"
-                        title="Move down (lower priority)"
-                      >
-                        <ArrowDown size={9} />
-                      </button>
-                    </div>
-                    <span className="text-[9px] text-gray-300 w-3 text-center shrink-0">{ruleIdx + 1}</span>
-
-                    <div className="flex-1" />
-
-                    <button
-                      onClick={() => updateRule(rule.id, { enabled: !rule.enabled })}
-                      className={cn('p-0.5 transition-colors rounded cursor-pointer', rule.enabled ? 'text-gray-500' : 'text-gray-300')}
-                      title={rule.enabled ? 'Disable rule' : 'Enable rule'}
-                    >
-                      {rule.enabled ? <ToggleRight size={14} /> : <ToggleLeft size={14} />}
-                    </button>
-                    <button
-                      onClick={() => removeRule(rule.id)}
-                      className="p-0.5 text-gray-300 hover:text-red-500 transition-colors rounded cursor-pointer"
-                      title="Delete rule"
-                    >
-                      <Trash2 size={10} />
-                    </button>
-                  </div>
-
-                  {/* Row 1: column + operator */}
-                  <div className="flex items-center gap-1.5">
-                    <select
-                      value={rule.column}
-                      onChange={(e) => updateRule(rule.id, { column: e.target.value })}
-                      className="flex-1 text-[10px] border border-gray-200 rounded-md px-1.5 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400 min-w-0 truncate"
-                    >
-                      {columns.map((c) => (
-                        <option key={c.key} value={c.key}>{c.label}</option>
-                      ))}
-                    </select>
-                    <select
-                      value={rule.operator}
-                      onChange={(e) => updateRule(rule.id, { operator: e.target.value as CondFormatOperator })}
-                      className="text-[10px] border border-gray-200 rounded-md px-1.5 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400"
-                    >
-                      {Object.entries(COND_OP_LABELS).map(([k, v]) => (
-                        <option key={k} value={k}>{v}</option>
-                      ))}
-                    </select>
-                  </div>
-
-                  {/* Row 2: value(s) */}
-                  {needsValue(rule.operator) && (
-                    <div className="flex items-center gap-1.5">
-                      <input
-                        type="text"
-                        value={rule.value}
-                        onChange={(e) => updateRule(rule.id, { value: e.target.value })}
-                        placeholder="Value"
-                        className="flex-1 text-[10px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 focus:outline-none focus:border-gray-400"
-                      />
-                      {rule.operator === 'between' && (
-                        <>
-                          <span className="text-[9px] text-gray-400">and</span>
-                          <input
-                            type="text"
-                            value={rule.value2 ?? ''}
-                            onChange={(e) => updateRule(rule.id, { value2: e.target.value })}
-                            placeholder="Value 2"
-                            className="flex-1 text-[10px] border border-gray-200 rounded-md px-2 py-1 text-gray-700 focus:outline-none focus:border-gray-400"
-                          />
-                        </>
-                      )}
-                    </div>
-                  )}
-
-                  {/* Row 3: style + target */}
-                  <div className="flex items-center gap-1.5">
-                    <select
-                      value={rule.style}
-                      onChange={(e) => updateRule(rule.id, { style: e.target.value as CondFormatStyle })}
-                      className="text-[10px] border border-gray-200 rounded-md px-1.5 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400"
-                    >
-                      {Object.entries(COND_STYLE_LABELS).map(([k, v]) => (
-                        <option key={k} value={k}>{v}</option>
-                      ))}
-                    </select>
-                    <select
-                      value={rule.target}
-                      onChange={(e) => updateRule(rule.id, { target: e.target.value as CondFormatTarget })}
-                      className="text-[10px] border border-gray-200 rounded-md px-1.5 py-1 text-gray-700 bg-white focus:outline-none focus:border-gray-400"
-                    >
-                      <option value="cell">Cell only</option>
-                      <option value="row">Entire row</option>
-                    </select>
-                  </div>
-
-                  {/* Row 4: colour (when applicable) */}
-                  {needsColour(rule.style) && (
-                    <div className="flex items-center gap-1.5">
-                      <input
-                        type="color"
-                        value={rule.colour}
-                        onChange={(e) => updateRule(rule.id, { colour: e.target.value })}
-                        className="w-5 h-5 rounded border border-gray-200 cursor-pointer p-0 shrink-0"
-                      />
-                      <div className="flex gap-0.5 flex-wrap">
-                        {PRESET_COLOURS.map((c) => (
-                          <button
-                            key={c}
-                            onClick={() => updateRule(rule.id, { colour: c })}
-                            className={cn('w-3.5 h-3.5 rounded-sm border cursor-pointer transition-transform hover:scale-125', rule.colour === c ? 'border-gray-500 scale-110' : 'border-gray-200')}
-                            style={{ backgroundColor: c }}
-                          />
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Preview swatch */}
-                  <div
-                    className="text-[9px] px-2 py-1 rounded-md border border-gray-100 inline-block"
-                    style={
-                      rule.style === 'bg' ? { backgroundColor: rule.colour } :
-                      rule.style === 'text' ? { color: rule.colour } :
-                      rule.style === 'bold' ? { fontWeight: 600 } :
-                      rule.style === 'italic' ? { fontStyle: 'italic' } : {}
-                    }
-                  >
-                    Sample text
-                  </div>
-                </div>
-              ))}
-
-              <button
-                onClick={addRule}
-                className="flex items-center gap-1 text-[10px] font-medium text-gray-500 hover:text-gray-700 transition-colors cursor-pointer px-1 py-1"
-              >
-                <Plus size={10} />
-                Add rule
-              </button>
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-    </div>
-  )
-}
-
-/* ───────── Config Panel: Table ───────── */
-function TableConfigPanel({
-  widget,
-  table,
-  onHiddenColumnsChange,
-  onColumnAliasChange,
-  onColumnOrderChange,
-  onConditionalFormatsChange,
-  onColumnFormatsChange,
-  onClose,
-}: {
-  widget: DashboardWidget
-  table: SavedTable | undefined
-  onHiddenColumnsChange: (cols: string[]) => void
-  onColumnAliasChange: (sourcePath: string, alias: string) => void
-  onColumnOrderChange: (order: string[]) => void
-  onConditionalFormatsChange: (rules: ConditionalFormatRule[]) => void
-  onColumnFormatsChange: (formats: Record<string, ColumnFormat>) => void
-  onClose: () => void
-}) {
-  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set())
-  const [editingKey, setEditingKey] = useState<string | null>(null)
-  const [draftName, setDraftName] = useState('')
-  const renameInputRef = useRef<HTMLInputElement>(null)
-
-  useEffect(() => {
-    if (editingKey && renameInputRef.current) {
-      renameInputRef.current.focus()
-      renameInputRef.current.select()
-    }
-  }, [editingKey])
-
-  const hiddenSet = new Set(widget.hiddenColumns ?? [])
-  const sourceCols = table?.columns.filter((c) => c.visible) ?? []
-
-  type ColItem = { key: string; name: string }
-  const allCols: ColItem[] = sourceCols.map((c) => ({
-    key: c.sourcePath,
-    name: widget.columnAliases?.[c.sourcePath] || c.alias || c.sourcePath,
-  }))
-
-  // Apply ordering
-  const orderedCols = widget.columnOrder
-    ? widget.columnOrder.map((k) => allCols.find((c) => c.key === k)).filter(Boolean) as ColItem[]
-    : allCols
-  const orderedSet = new Set(widget.columnOrder ?? [])
-  const unorderedCols = allCols.filter((c) => !orderedSet.has(c.key))
-  const displayList = [...orderedCols, ...unorderedCols]
-
-  const toggleSelection = (key: string) => {
-    setSelectedKeys((prev) => {
-      const next = new Set(prev)
-      if (next.has(key)) next.delete(key)
-      else next.add(key)
-      return next
-    })
-  }
-
-  const selectAll = () => {
-    if (selectedKeys.size === displayList.length) {
-      setSelectedKeys(new Set())
-    } else {
-      setSelectedKeys(new Set(displayList.map((c) => c.key)))
-    }
-  }
-
-  const toggleVisibility = (key: string) => {
-    const hidden = widget.hiddenColumns ?? []
-    if (hiddenSet.has(key)) {
-      onHiddenColumnsChange(hidden.filter((k) => k !== key))
-    } else {
-      onHiddenColumnsChange([...hidden, key])
-    }
-  }
-
-  const hideSelected = () => {
-    const hidden = widget.hiddenColumns ?? []
-    const toHide = [...selectedKeys].filter((k) => !hiddenSet.has(k))
-    if (toHide.length > 0) {
-      onHiddenColumnsChange([...hidden, ...toHide])
-    }
-    setSelectedKeys(new Set())
-  }
-
-  const showSelected = () => {
-    const hidden = widget.hiddenColumns ?? []
-    onHiddenColumnsChange(hidden.filter((k) => !selectedKeys.has(k)))
-    setSelectedKeys(new Set())
-  }
-
-  const moveColumn = (key: string, direction: 'up' | 'down') => {
-    const currentOrder = displayList.map((c) => c.key)
-    const idx = currentOrder.indexOf(key)
-    if (idx < 0) return
-    const swapIdx = direction === 'up' ? idx - 1 : idx + 1
-    if (swapIdx < 0 || swapIdx >= currentOrder.length) return
-    const newOrder = [...currentOrder]
-    ;[newOrder[idx], newOrder[swapIdx]] = [newOrder[swapIdx], newOrder[idx]]
-    onColumnOrderChange(newOrder)
-  }
-
-  const commitRename = () => {
-    if (!editingKey) return
-    const trimmed = draftName.trim()
-    if (trimmed) {
-      onColumnAliasChange(editingKey, trimmed)
-    }
-    setEditingKey(null)
-  }
-
-  const visibleCount = displayList.filter((c) => !hiddenSet.has(c.key)).length
-  const hiddenCount = displayList.length - visibleCount
-  const selectedHiddenCount = [...selectedKeys].filter((k) => hiddenSet.has(k)).length
-  const selectedVisibleCount = selectedKeys.size - selectedHiddenCount
-
-  return (
-    <div className="h-full flex flex-col">
-      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 shrink-0">
-        <div className="flex items-center gap-2">
-          <Table size={14} className="text-gray-400" />
-          <h3 className="text-sm font-semibold text-gray-900">Configure Table</h3>
-        </div>
-        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer">
-          <X size={14} />
-        </button>
-      </div>
-
-      {/* Bulk actions bar */}
-      <AnimatePresence>
-        {selectedKeys.size > 0 && (
-          <motion.div
-            initial={{ height: 0, opacity: 0 }}
-            animate={{ height: 'auto', opacity: 1 }}
-            exit={{ height: 0, opacity: 0 }}
-            transition={{ duration: 0.4, ease: [0.04, 0.62, 0.23, 0.98] }}
-            className="overflow-hidden border-b border-gray-100"
-          >
-            <div className="px-4 py-2 flex items-center gap-2 bg-gray-50">
-              <span className="text-[10px] font-medium text-gray-600">{selectedKeys.size} selected</span>
-              <div className="flex-1" />
-              {selectedVisibleCount > 0 && (
-                <button
-                  onClick={hideSelected}
-                  className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors cursor-pointer"
-                >
-                  <EyeOff size={10} />
-                  Hide
-                </button>
-              )}
-              {selectedHiddenCount > 0 && (
-                <button
-                  onClick={showSelected}
-                  className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors cursor-pointer"
-                >
-                  <Eye size={10} />
-                  Show
-                </button>
-              )}
-              <button
-                onClick={() => setSelectedKeys(new Set())}
-                className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded cursor-pointer"
-              >
-                <X size={10} />
-              </button>
-            </div>
-          </motion.div>
-        )}
-      </AnimatePresence>
-
-      <div className="flex-1 overflow-auto">
-        {/* Column header */}
-        <div className="px-4 pt-3 pb-1.5 flex items-center justify-between">
-          <p className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">
-            Columns ({visibleCount}{hiddenCount > 0 ? ` / ${displayList.length}` : ''})
-          </p>
-          <button
-            onClick={selectAll}
-            className="text-[10px] text-gray-400 hover:text-gray-600 transition-colors cursor-pointer"
-          >
-            {selectedKeys.size === displayList.length ? 'Deselect all' : 'Select all'}
-          </button>
-        </div>
-
-        <div className="px-2 pb-2">
-          {displayList.map((col, idx) => {
-            const isHidden = hiddenSet.has(col.key)
-            const isSelected = selectedKeys.has(col.key)
-            const isEditing = editingKey === col.key
-
-            return (
-              <div
-                key={col.key}
-                className={cn(
-                  'group/col flex items-center gap-1.5 px-2 py-1.5 rounded-md text-xs transition-colors',
-                  isSelected && !isHidden && 'bg-gray-100',
-                  isSelected && isHidden && 'bg-gray-100 opacity-50',
-                  !isSelected && isHidden && 'opacity-40',
-                  !isSelected && !isHidden && 'hover:bg-gray-50'
-                )}
-              >
-                {/* Checkbox */}
-                <button
-                  onClick={() => toggleSelection(col.key)}
-                  className={cn(
-                    'w-3.5 h-3.5 rounded border flex items-center justify-center shrink-0 transition-colors cursor-pointer',
-                    isSelected
-                      ? 'bg-gray-700 border-gray-700'
-                      : 'border-gray-300 hover:border-gray-400'
-                  )}
-                >
-                  {isSelected && <Check size={8} className="text-white" />}
-                </button>
-
-                {/* Reorder arrows */}
-                <div className="flex flex-col gap-0.5 opacity-0 group-hover/col:opacity-100 transition-opacity shrink-0">
-                  <button
-                    onClick={() => moveColumn(col.key, 'up')}
-                    disabled={idx === 0}
-                    className="p-0 text-gray-300 hover:text-gray-500 disabled:opacity-20 cursor-pointer disabled:cursor-default"
-                  >
-                    <ArrowUp size={8} />
-                  </button>
-                  <button
-                    onClick={() => moveColumn(col.key, 'down')}
-                    disabled={idx === displayList.length - 1}
-                    className="p-0 text-gray-300 hover:text-gray-500 disabled:opacity-20 cursor-pointer disabled:cursor-default"
-                  >
-                    <ArrowDown size={8} />
-                  </button>
-                </div>
-
-                {/* Column name — double-click to rename */}
-                {isEditing ? (
-                  <input
-                    ref={renameInputRef}
-                    type="text"
-                    value={draftName}
-                    onChange={(e) => setDraftName(e.target.value)}
-                    onBlur={commitRename}
-                    onKeyDown={(e) => {
-                      if (e.key === 'Enter') commitRename()
-                      if (e.key === 'Escape') setEditingKey(null)
-                    }}
-                    className="flex-1 min-w-0 text-xs text-gray-700 bg-transparent border-b border-gray-400 focus:border-gray-600 focus:outline-none py-0"
-                  />
-                ) : (
-                  <span
-                    onDoubleClick={() => {
-                      setDraftName(col.name)
-                      setEditingKey(col.key)
-                    }}
-                    className={cn(
-                      'flex-1 truncate select-none cursor-default',
-                      isHidden ? 'line-through text-gray-400' : 'text-gray-700'
-                    )}
-                    title="Double-click to rename"
-                  >
-                    {col.name}
-                  </span>
-                )}
-
-                {/* Visibility toggle */}
-                <button
-                  onClick={() => toggleVisibility(col.key)}
-                  className={cn(
-                    'p-0.5 transition-colors rounded cursor-pointer shrink-0',
-                    isHidden
-                      ? 'text-gray-300 hover:text-gray-600'
-                      : 'text-gray-300 hover:text-gray-600 opacity-0 group-hover/col:opacity-100'
-                  )}
-                  title={isHidden ? 'Show column' : 'Hide column'}
-                >
-                  {isHidden ? <EyeOff size={10} /> : <Eye size={10} />}
-                </button>
-              </div>
-            )
-          })}
-        </div>
-
-        {/* Show all hidden */}
-        {hiddenCount > 0 && (
-          <div className="px-4 py-2 border-t border-gray-100">
-            <button
-              onClick={() => onHiddenColumnsChange([])}
-              className="text-[10px] text-gray-500 hover:text-gray-700 transition-colors cursor-pointer flex items-center gap-1"
-            >
-              <Eye size={10} />
-              Show all {hiddenCount} hidden column{hiddenCount > 1 ? 's' : ''}
-            </button>
-          </div>
-        )}
-
-        {/* Column Formatting */}
-        <ColumnFormattingSection
-          columns={allCols.map((c) => ({ key: c.key, label: c.name }))}
-          columnFormats={widget.columnFormats ?? {}}
-          onChange={onColumnFormatsChange}
-        />
-
-        {/* Conditional Formatting */}
-        <ConditionalFormattingSection
-          rules={widget.conditionalFormats ?? []}
-          columns={allCols.map((c) => ({ key: c.key, label: c.name }))}
-          onChange={onConditionalFormatsChange}
-        />
-      </div>
-    </div>
-  )
-}
-
-/* ───────── Config Panel: Metric ───────── */
-function MetricConfigPanel({
-  widget,
-  savedTables,
-  onApply,
-  onClose,
-}: {
-  widget: DashboardWidget
-  savedTables: SavedTable[]
-  onApply: (config: MetricConfig) => void
-  onClose: () => void
-}) {
-  const config = widget.metricConfig
-  const [draftTableId, setDraftTableId] = useState(config?.tableId ?? '')
-  const [draftAgg, setDraftAgg] = useState<AggregationType>(config?.aggregation ?? 'count')
-  const [draftColumn, setDraftColumn] = useState(config?.column ?? '')
-  const [draftDateColumn, setDraftDateColumn] = useState(config?.dateColumn ?? '')
-  const [draftTimeframe, setDraftTimeframe] = useState(config?.timeframe ?? 'all')
-  const [draftPrefix, setDraftPrefix] = useState(config?.prefix ?? '')
-  const [draftSuffix, setDraftSuffix] = useState(config?.suffix ?? '')
-  const [draftLabel, setDraftLabel] = useState(config?.label ?? '')
-  const [draftLayout, setDraftLayout] = useState<MetricLayout>(config?.layout ?? 'centered')
-  const [draftTitleSize, setDraftTitleSize] = useState<MetricValueSize>(config?.titleSize ?? 'sm')
-  const [draftValueSize, setDraftValueSize] = useState<MetricValueSize>(config?.valueSize ?? 'md')
-  const [draftShowLabel, setDraftShowLabel] = useState(config?.showLabel !== false)
-  const [draftColour, setDraftColour] = useState(config?.colour ?? '')
-
-  const draftTable = savedTables.find((t) => t.id === draftTableId)
-  const draftColumns = draftTable?.columns.filter((c) => c.visible) ?? []
-  const dateColumns = draftColumns.filter((c) =>
-    ['timestamp', 'date', 'time', 'datetime'].some((t) => c.dataType.toLowerCase().includes(t)) ||
-    ['createdAt', 'updatedAt', 'created_at', 'updated_at', 'date', 'timestamp'].includes(c.sourcePath)
-  )
-  const needsColumn = draftAgg !== 'count'
-
-  // Auto-apply on every change
-  useEffect(() => {
-    if (!draftTableId) return
-    if (needsColumn && !draftColumn) return
-    const newConfig: MetricConfig = {
-      tableId: draftTableId,
-      aggregation: draftAgg,
-      column: draftColumn,
-      label: draftLabel || `${AGGREGATION_LABELS[draftAgg]}${draftColumn ? ` of ${draftColumn}` : ''}`,
-      ...(draftDateColumn ? { dateColumn: draftDateColumn } : {}),
-      ...(draftTimeframe !== 'all' ? { timeframe: draftTimeframe } : {}),
-      ...(draftPrefix ? { prefix: draftPrefix } : {}),
-      ...(draftSuffix ? { suffix: draftSuffix } : {}),
-      layout: draftLayout,
-      titleSize: draftTitleSize,
-      valueSize: draftValueSize,
-      showLabel: draftShowLabel,
-      ...(draftColour ? { colour: draftColour } : {}),
-    }
-    onApply(newConfig)
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [draftTableId, draftAgg, draftColumn, draftDateColumn, draftTimeframe, draftPrefix, draftSuffix, draftLabel, draftLayout, draftTitleSize, draftValueSize, draftShowLabel, draftColour])
-
-  const inputCls = 'w-full mt-0.5 text-xs border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-300 focus:border-gray-300 bg-white'
-
-  return (
-    <div className="h-full flex flex-col">
-      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 shrink-0">
-        <div className="flex items-center gap-2">
-          <Gauge size={14} className="text-gray-400" />
-          <h3 className="text-sm font-semibold text-gray-900">Configure Metric</h3>
-        </div>
-        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer">
-          <X size={14} />
-        </button>
-      </div>
-
-      <div className="flex-1 overflow-auto p-4 space-y-3">
-        <div>
-          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Label</label>
-          <input type="text" value={draftLabel} onChange={(e) => setDraftLabel(e.target.value)} placeholder="e.g. Total Revenue" className={inputCls} />
-        </div>
-
-        <div>
-          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Data Source</label>
-          <select value={draftTableId} onChange={(e) => { setDraftTableId(e.target.value); setDraftColumn(''); setDraftDateColumn('') }} className={inputCls}>
-            <option value="">Select a table…</option>
-            {savedTables.map((t) => (<option key={t.id} value={t.id}>{t.tableName}</option>))}
-          </select>
-        </div>
-
-        <div>
-          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Aggregation</label>
-          <select value={draftAgg} onChange={(e) => { setDraftAgg(e.target.value as AggregationType); if (e.target.value === 'count') setDraftColumn('') }} className={inputCls}>
-            {Object.entries(AGGREGATION_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
-          </select>
-        </div>
-
-        {needsColumn && draftTableId && (
-          <div>
-            <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Column</label>
-            <select value={draftColumn} onChange={(e) => setDraftColumn(e.target.value)} className={inputCls}>
-              <option value="">Select column…</option>
-              {draftColumns.map((c) => (
-                <option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>
-              ))}
-            </select>
-            <p className="text-[9px] text-gray-400 mt-0.5">Numeric values stored as text will be parsed automatically</p>
-          </div>
-        )}
-
-        {draftTableId && dateColumns.length > 0 && (
-          <div className="flex gap-2">
-            <div className="flex-1">
-              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Date Column</label>
-              <select value={draftDateColumn} onChange={(e) => setDraftDateColumn(e.target.value)} className={inputCls}>
-                <option value="">None</option>
-                {dateColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
-              </select>
-            </div>
-            {draftDateColumn && (
-              <div className="flex-1">
-                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Timeframe</label>
-                <select value={draftTimeframe} onChange={(e) => setDraftTimeframe(e.target.value as MetricConfig['timeframe'])} className={inputCls}>
-                  {Object.entries(TIMEFRAME_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
-                </select>
-              </div>
-            )}
-          </div>
-        )}
-
-        <div className="flex gap-2">
-          <div className="flex-1">
-            <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Prefix</label>
-            <input type="text" value={draftPrefix} onChange={(e) => setDraftPrefix(e.target.value)} placeholder="$ £ €" className={inputCls} />
-          </div>
-          <div className="flex-1">
-            <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Suffix</label>
-            <input type="text" value={draftSuffix} onChange={(e) => setDraftSuffix(e.target.value)} placeholder="% users" className={inputCls} />
-          </div>
-        </div>
-
-        {/* ── Display section ── */}
-        <div className="pt-2 border-t border-gray-100">
-          <p className="text-[10px] font-medium text-gray-500 uppercase tracking-wider mb-2">Display</p>
-
-          <div className="space-y-3">
-            {/* Layout */}
-            <div>
-              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Layout</label>
-              <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
-                {([['centered', 'Centre'], ['left', 'Left'], ['minimal', 'Minimal']] as [MetricLayout, string][]).map(([val, lbl]) => (
-                  <button
-                    key={val}
-                    onClick={() => setDraftLayout(val)}
-                    className={cn(
-                      'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
-                      draftLayout === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
-                    )}
-                  >
-                    {lbl}
-                  </button>
-                ))}
-              </div>
-            </div>
-
-            {/* Title size */}
-            <div>
-              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Title Size</label>
-              <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
-                {([['sm', 'S'], ['md', 'M'], ['lg', 'L'], ['xl', 'XL']] as [MetricValueSize, string][]).map(([val, lbl]) => (
-                  <button
-                    key={val}
-                    onClick={() => setDraftTitleSize(val)}
-                    className={cn(
-                      'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer min-w-[28px] text-center',
-                      draftTitleSize === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
-                    )}
-                  >
-                    {lbl}
-                  </button>
-                ))}
-              </div>
-            </div>
-
-            {/* Value size */}
-            <div>
-              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Value Size</label>
-              <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
-                {([['sm', 'S'], ['md', 'M'], ['lg', 'L'], ['xl', 'XL']] as [MetricValueSize, string][]).map(([val, lbl]) => (
-                  <button
-                    key={val}
-                    onClick={() => setDraftValueSize(val)}
-                    className={cn(
-                      'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer min-w-[28px] text-center',
-                      draftValueSize === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
-                    )}
-                  >
-                    {lbl}
-                  </button>
-                ))}
-              </div>
-            </div>
-
-            {/* Show label toggle */}
-            <div className="flex items-center justify-between">
-              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Show Label</label>
-              <button
-                onClick={() => setDraftShowLabel((v) => !v)}
-                className={cn(
-                  'w-8 h-[18px] rounded-full transition-colors relative cursor-pointer',
-                  draftShowLabel ? 'bg-gray-700' : 'bg-gray-300'
-                )}
-              >
-                <span className={cn(
-                  'absolute top-[2px] w-[14px] h-[14px] rounded-full bg-white transition-transform shadow-sm',
-                  draftShowLabel ? 'left-[16px]' : 'left-[2px]'
-                )} />
-              </button>
-            </div>
-
-            {/* Value colour */}
-            <div>
-              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Value Colour</label>
-              <div className="flex items-center gap-1.5 mt-1 flex-wrap">
-                <button
-                  onClick={() => setDraftColour('')}
-                  className={cn(
-                    'w-5 h-5 rounded-full border-2 transition-colors cursor-pointer bg-gray-900',
-                    !draftColour ? 'border-gray-400 ring-1 ring-gray-300' : 'border-transparent'
-                  )}
-                  title="Default"
-                />
-                {CHART_COLOUR_PRESETS.map((c) => (
-                  <button
-                    key={c}
-                    onClick={() => setDraftColour(c)}
-                    className={cn(
-                      'w-5 h-5 rounded-full border-2 transition-colors cursor-pointer',
-                      draftColour === c ? 'border-gray-400 ring-1 ring-gray-300' : 'border-transparent'
-                    )}
-                    style={{ backgroundColor: c }}
-                  />
-                ))}
-              </div>
-            </div>
-          </div>
-        </div>
-      </div>
-
-    </div>
-  )
-}
-
-/* ───────── Config Panel: Chart ───────── */
-function ChartConfigPanel({
-  widget,
-  savedTables,
-  onApply,
-  onClose,
-}: {
-  widget: DashboardWidget
-  savedTables: SavedTable[]
-  onApply: (config: ChartConfig) => void
-  onClose: () => void
-}) {
-  const config = widget.chartConfig
-  const [draftTableId, setDraftTableId] = useState(config?.tableId ?? '')
-  const [draftCategoryCol, setDraftCategoryCol] = useState(config?.categoryColumn ?? '')
-  const [draftValueCol, setDraftValueCol] = useState(config?.valueColumn ?? '')
-  const [draftAgg, setDraftAgg] = useState<AggregationType>(config?.aggregation ?? 'count')
-  const [draftDateColumn, setDraftDateColumn] = useState(config?.dateColumn ?? '')
-  const [draftTimeframe, setDraftTimeframe] = useState(config?.timeframe ?? 'all')
-  const [draftLabel, setDraftLabel] = useState(config?.label ?? '')
-  const [draftMaxBars, setDraftMaxBars] = useState(config?.maxBars ?? 20)
-  const [draftSortBy, setDraftSortBy] = useState<'value' | 'category'>(config?.sortBy ?? 'value')
-  const [draftDateTruncate, setDraftDateTruncate] = useState<DateTruncation>(config?.dateTruncate ?? 'none')
-  const [draftColour, setDraftColour] = useState(config?.colour ?? CHART_COLOUR_DEFAULT)
-  const [draftChartType, setDraftChartType] = useState<ChartType>(config?.chartType ?? 'bar')
-
-  const draftTable = savedTables.find((t) => t.id === draftTableId)
-  const draftColumns = draftTable?.columns.filter((c) => c.visible) ?? []
-  const dateColumns = draftColumns.filter((c) =>
-    ['timestamp', 'date', 'time', 'datetime'].some((t) => c.dataType.toLowerCase().includes(t)) ||
-    ['createdAt', 'updatedAt', 'created_at', 'updated_at', 'date', 'timestamp'].includes(c.sourcePath)
-  )
-
-  const selectedCatCol = draftColumns.find((c) => c.sourcePath === draftCategoryCol)
-  const isCategoryDate = selectedCatCol && (
-    ['timestamp', 'date', 'time', 'datetime'].some((t) => selectedCatCol.dataType.toLowerCase().includes(t)) ||
-    ['createdAt', 'updatedAt', 'created_at', 'updated_at', 'date', 'timestamp'].includes(selectedCatCol.sourcePath)
-  )
-
-  const canApply = draftTableId && draftCategoryCol && (draftAgg === 'count' || draftValueCol)
-
-  // Auto-apply on every change
-  useEffect(() => {
-    if (!canApply) return
-    const newConfig: ChartConfig = {
-      chartType: draftChartType,
-      tableId: draftTableId,
-      categoryColumn: draftCategoryCol,
-      valueColumn: draftValueCol,
-      aggregation: draftAgg,
-      label: draftLabel || `${AGGREGATION_LABELS[draftAgg]} by ${draftCategoryCol}`,
-      maxBars: draftMaxBars,
-      sortBy: draftSortBy,
-      ...(draftDateTruncate !== 'none' ? { dateTruncate: draftDateTruncate } : {}),
-      ...(draftDateColumn ? { dateColumn: draftDateColumn } : {}),
-      ...(draftTimeframe !== 'all' ? { timeframe: draftTimeframe } : {}),
-      ...(draftColour !== CHART_COLOUR_DEFAULT ? { colour: draftColour } : {}),
-    }
-    onApply(newConfig)
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [draftChartType, draftTableId, draftCategoryCol, draftValueCol, draftAgg, draftLabel, draftMaxBars, draftSortBy, draftDateTruncate, draftDateColumn, draftTimeframe, draftColour])
-
-  const inputCls = 'w-full mt-0.5 text-xs border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-300 focus:border-gray-300 bg-white'
-  const sectionLabel = 'text-[9px] font-semibold text-gray-400 uppercase tracking-widest mt-1 mb-1'
-
-  return (
-    <div className="h-full flex flex-col">
-      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 shrink-0">
-        <div className="flex items-center gap-2">
-          {(config?.chartType ?? 'bar') === 'line' ? <TrendingUp size={14} className="text-gray-400" /> : <BarChart3 size={14} className="text-gray-400" />}
-          <h3 className="text-sm font-semibold text-gray-900">Configure Chart</h3>
-        </div>
-        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer">
-          <X size={14} />
-        </button>
-      </div>
-
-      <div className="flex-1 overflow-auto p-4 space-y-3">
-        {/* ── Chart Type ── */}
-        <div>
-          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Chart Type</label>
-          <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
-            <button
-              onClick={() => setDraftChartType('bar')}
-              className={cn(
-                'flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium rounded-md transition-colors',
-                draftChartType === 'bar' ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-600 hover:bg-gray-200/70'
-              )}
-            >
-              <BarChart3 className="h-3 w-3" />
-              Bar
-            </button>
-            <button
-              onClick={() => setDraftChartType('line')}
-              className={cn(
-                'flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium rounded-md transition-colors',
-                draftChartType === 'line' ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-600 hover:bg-gray-200/70'
-              )}
-            >
-              <TrendingUp className="h-3 w-3" />
-              Line
-            </button>
-          </div>
-        </div>
-
-        {/* ── Title ── */}
-        <div>
-          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Chart Title</label>
-          <input type="text" value={draftLabel} onChange={(e) => setDraftLabel(e.target.value)} placeholder="e.g. Revenue by Region" className={inputCls} />
-        </div>
-
-        {/* ── Data Source ── */}
-        <p className={sectionLabel}>Data</p>
-        <div>
-          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Table</label>
-          <select value={draftTableId} onChange={(e) => { setDraftTableId(e.target.value); setDraftCategoryCol(''); setDraftValueCol(''); setDraftDateColumn('') }} className={inputCls}>
-            <option value="">Select a table…</option>
-            {savedTables.map((t) => (<option key={t.id} value={t.id}>{t.tableName}</option>))}
-          </select>
-        </div>
-
-        {/* ── X-Axis ── */}
-        {draftTableId && (
-          <>
-            <p className={sectionLabel}>X-Axis (Categories)</p>
-            <div>
-              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Column</label>
-              <select value={draftCategoryCol} onChange={(e) => { setDraftCategoryCol(e.target.value); setDraftDateTruncate('none') }} className={inputCls}>
-                <option value="">Select column…</option>
-                {draftColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
-              </select>
-            </div>
-
-            {draftCategoryCol && isCategoryDate && (
-              <div>
-                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Group Dates By</label>
-                <select value={draftDateTruncate} onChange={(e) => setDraftDateTruncate(e.target.value as DateTruncation)} className={inputCls}>
-                  <option value="none">Exact value</option>
-                  <option value="day">Day</option>
-                  <option value="week">Week</option>
-                  <option value="month">Month</option>
-                  <option value="year">Year</option>
-                </select>
-              </div>
-            )}
-          </>
-        )}
-
-        {/* ── Y-Axis ── */}
-        {draftTableId && (
-          <>
-            <p className={sectionLabel}>Y-Axis (Values)</p>
-            <div>
-              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Aggregation</label>
-              <select value={draftAgg} onChange={(e) => { setDraftAgg(e.target.value as AggregationType); if (e.target.value === 'count') setDraftValueCol('') }} className={inputCls}>
-                {Object.entries(AGGREGATION_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
-              </select>
-            </div>
-
-            {draftAgg !== 'count' && (
-              <div>
-                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Value Column</label>
-                <select value={draftValueCol} onChange={(e) => setDraftValueCol(e.target.value)} className={inputCls}>
-                  <option value="">Select column…</option>
-                  {draftColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
-                </select>
-                <p className="text-[9px] text-gray-400 mt-0.5">Numeric values stored as text will be parsed automatically</p>
-              </div>
-            )}
-          </>
-        )}
-
-        {/* ── Date Filter (optional) ── */}
-        {draftTableId && dateColumns.length > 0 && (
-          <>
-            <p className={sectionLabel}>Date Filter (optional)</p>
-            <div className="flex gap-2">
-              <div className="flex-1">
-                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Date Column</label>
-                <select value={draftDateColumn} onChange={(e) => setDraftDateColumn(e.target.value)} className={inputCls}>
-                  <option value="">None</option>
-                  {dateColumns.map((c) => (<option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>))}
-                </select>
-              </div>
-              {draftDateColumn && (
-                <div className="flex-1">
-                  <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Timeframe</label>
-                  <select value={draftTimeframe} onChange={(e) => setDraftTimeframe(e.target.value as ChartConfig['timeframe'])} className={inputCls}>
-                    {Object.entries(TIMEFRAME_LABELS).map(([k, v]) => (<option key={k} value={k}>{v}</option>))}
-                  </select>
-                </div>
-              )}
-            </div>
-          </>
-        )}
-
-        {/* ── Display ── */}
-        {draftTableId && (
-          <>
-            <p className={sectionLabel}>Display</p>
-            <div>
-              <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Colour</label>
-              <div className="flex items-center gap-1.5 mt-1 flex-wrap">
-                {CHART_COLOUR_PRESETS.map((c) => (
-                  <button
-                    key={c}
-                    onClick={() => setDraftColour(c)}
-                    className={cn(
-                      'w-6 h-6 rounded-full transition-all cursor-pointer border-2',
-                      draftColour === c ? 'border-gray-900 scale-110' : 'border-transparent hover:scale-110'
-                    )}
-                    style={{ backgroundColor: c }}
-                    title={c}
-                  />
-                ))}
-              </div>
-            </div>
-            <div className="flex gap-2">
-              <div className="flex-1">
-                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Sort By</label>
-                <select value={draftSortBy} onChange={(e) => setDraftSortBy(e.target.value as 'value' | 'category')} className={inputCls}>
-                  <option value="value">Value (desc)</option>
-                  <option value="category">Category (A-Z)</option>
-                </select>
-              </div>
-              <div className="flex-1">
-                <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Max Bars</label>
-                <input type="number" min={1} max={100} value={draftMaxBars} onChange={(e) => setDraftMaxBars(Math.max(1, parseInt(e.target.value) || 20))} className={inputCls} />
-              </div>
-            </div>
-          </>
-        )}
-      </div>
-
-    </div>
-  )
-}
-
-/* ───────── Config Panel: Element (Heading / Text) ───────── */
-
-function ElementConfigPanel({
-  widget,
-  onApply,
-  onClose,
-}: {
-  widget: DashboardWidget
-  onApply: (config: ElementConfig) => void
-  onClose: () => void
-}) {
-  const config = widget.elementConfig ?? {}
-  const [draftFontSize, setDraftFontSize] = useState<ElementFontSize>(config.fontSize ?? (widget.type === 'heading' ? 'base' : 'sm'))
-  const [draftFontWeight, setDraftFontWeight] = useState<string>(config.fontWeight ?? (widget.type === 'heading' ? 'semibold' : 'normal'))
-  const [draftAlign, setDraftAlign] = useState<ElementAlign>(config.align ?? 'left')
-  const [draftColour, setDraftColour] = useState(config.colour ?? '')
-
-  const isHeading = widget.type === 'heading'
-
-  // Auto-apply
-  useEffect(() => {
-    const newConfig: ElementConfig = {
-      fontSize: draftFontSize,
-      fontWeight: draftFontWeight as ElementConfig['fontWeight'],
-      align: draftAlign,
-      ...(draftColour ? { colour: draftColour } : {}),
-    }
-    onApply(newConfig)
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [draftFontSize, draftFontWeight, draftAlign, draftColour])
-
-  const inputCls = 'w-full mt-0.5 text-xs border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-300 focus:border-gray-300 bg-white'
-
-  const fontSizeOptions: { value: ElementFontSize; label: string }[] = [
-    { value: 'xs', label: 'XS' },
-    { value: 'sm', label: 'S' },
-    { value: 'base', label: 'M' },
-    { value: 'lg', label: 'L' },
-    { value: 'xl', label: 'XL' },
-    { value: '2xl', label: '2XL' },
-    { value: '3xl', label: '3XL' },
-  ]
-
-  return (
-    <div className="h-full flex flex-col">
-      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 shrink-0">
-        <div className="flex items-center gap-2">
-          {isHeading ? <Type size={14} className="text-gray-400" /> : <AlignLeft size={14} className="text-gray-400" />}
-          <h3 className="text-sm font-semibold text-gray-900">Configure {isHeading ? 'Heading' : 'Text'}</h3>
-        </div>
-        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer">
-          <X size={14} />
-        </button>
-      </div>
-
-      <div className="flex-1 overflow-auto p-4 space-y-4">
-        {/* Font Size */}
-        <div>
-          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Font Size</label>
-          <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
-            {fontSizeOptions.map(({ value, label }) => (
-              <button
-                key={value}
-                onClick={() => setDraftFontSize(value)}
-                className={cn(
-                  'px-2 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer min-w-[28px] text-center',
-                  draftFontSize === value ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
-                )}
-              >
-                {label}
-              </button>
-            ))}
-          </div>
-        </div>
-
-        {/* Font Weight */}
-        <div>
-          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Font Weight</label>
-          <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
-            {([['normal', 'Normal'], ['medium', 'Medium'], ['semibold', 'Semi'], ['bold', 'Bold']] as [string, string][]).map(([val, lbl]) => (
-              <button
-                key={val}
-                onClick={() => setDraftFontWeight(val)}
-                className={cn(
-                  'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
-                  draftFontWeight === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
-                )}
-              >
-                {lbl}
-              </button>
-            ))}
-          </div>
-        </div>
-
-        {/* Alignment */}
-        <div>
-          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Alignment</label>
-          <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
-            {([['left', 'Left'], ['center', 'Centre'], ['right', 'Right']] as [ElementAlign, string][]).map(([val, lbl]) => (
-              <button
-                key={val}
-                onClick={() => setDraftAlign(val)}
-                className={cn(
-                  'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
-                  draftAlign === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
-                )}
-              >
-                {lbl}
-              </button>
-            ))}
-          </div>
-        </div>
-
-        {/* Colour */}
-        <div>
-          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Text Colour</label>
-          <div className="flex items-center gap-1.5 mt-1.5 flex-wrap">
-            <button
-              onClick={() => setDraftColour('')}
-              className={cn(
-                'w-5 h-5 rounded-full border-2 transition-colors cursor-pointer bg-gray-900',
-                !draftColour ? 'border-gray-400 ring-1 ring-gray-300' : 'border-transparent'
-              )}
-              title="Default"
-            />
-            {CHART_COLOUR_PRESETS.map((c) => (
-              <button
-                key={c}
-                onClick={() => setDraftColour(c)}
-                className={cn(
-                  'w-5 h-5 rounded-full border-2 transition-colors cursor-pointer',
-                  draftColour === c ? 'border-gray-400 ring-1 ring-gray-300' : 'border-transparent'
-                )}
-                style={{ backgroundColor: c }}
-              />
-            ))}
-          </div>
-          <div className="mt-2">
-            <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Custom Hex</label>
-            <input
-              type="text"
-              value={draftColour}
-              onChange={(e) => setDraftColour(e.target.value)}
-              placeholder="#000000"
-              className={inputCls}
-            />
-          </div>
-        </div>
-      </div>
-    </div>
-  )
-}
-
-/* ───────── Config Panel: Pivot Table ───────── */
-
-/** Guess the column data type from the source path name. */
-function guessColType(name: string): 'number' | 'date' | 'text' {
-  const lower = name.toLowerCase()
-  if (/\b(date|time|created|updated|timestamp)\b/.test(lower)) return 'date'
-  if (/\b(count|amount|price|qty|total|sum|revenue|cost|distance|number|nr|num|id|min|max)\b/.test(lower)) return 'number'
-  return 'text'
-}
-
-function ColTypeIcon({ name, className }: { name: string; className?: string }) {
-  const t = guessColType(name)
-  if (t === 'number') return <span className={cn('text-[9px] font-bold text-gray-400 tabular-nums', className)}>123</span>
-  if (t === 'date') return <Calendar size={11} className={cn('text-gray-400', className)} />
-  return <span className={cn('text-[9px] font-semibold text-gray-400', className)}>ABC</span>
-}
-
-type PivotPanelTab = 'properties' | 'format'
-
-function PivotConfigPanel({
-  widget,
-  savedTables,
-  onApply,
-  onConditionalFormatsChange,
-  onColumnFormatsChange,
-  onClose,
-}: {
-  widget: DashboardWidget
-  savedTables: SavedTable[]
-  onApply: (config: PivotConfig) => void
-  onConditionalFormatsChange: (rules: ConditionalFormatRule[]) => void
-  onColumnFormatsChange: (formats: Record<string, ColumnFormat>) => void
-  onClose: () => void
-}) {
-  const config = widget.pivotConfig
-  const [draftTableId, setDraftTableId] = useState(config?.tableId ?? '')
-  const [draftRowCols, setDraftRowCols] = useState<string[]>(config?.rowColumns ?? [])
-  const [draftColCols, setDraftColCols] = useState<string[]>(config?.colColumns ?? [])
-  const [draftValues, setDraftValues] = useState<PivotValueConfig[]>(config?.values ?? [])
-  const [draftValuesPlacement, setDraftValuesPlacement] = useState<ValuesPlacement>(config?.valuesPlacement ?? 'columns')
-  const [activeTab, setActiveTab] = useState<PivotPanelTab>('properties')
-  const [colSearch, setColSearch] = useState('')
-  const [showColPicker, setShowColPicker] = useState<'row' | 'col' | null>(null)
-  const [showValuePicker, setShowValuePicker] = useState(false)
-
-  // Preserve fields managed outside the config panel (labels, truncations, filters)
-  const preservedFieldsRef = useRef<Pick<PivotConfig, 'rowColumnLabels' | 'columnTruncations' | 'columnFilters'>>({
-    rowColumnLabels: config?.rowColumnLabels,
-    columnTruncations: config?.columnTruncations,
-    columnFilters: config?.columnFilters,
-  })
-  // Keep ref in sync with latest widget prop
-  useEffect(() => {
-    preservedFieldsRef.current = {
-      rowColumnLabels: widget.pivotConfig?.rowColumnLabels,
-      columnTruncations: widget.pivotConfig?.columnTruncations,
-      columnFilters: widget.pivotConfig?.columnFilters,
-    }
-  }, [widget.pivotConfig?.rowColumnLabels, widget.pivotConfig?.columnTruncations, widget.pivotConfig?.columnFilters])
-
-  const draftTable = savedTables.find((t) => t.id === draftTableId)
-  const draftColumns = draftTable?.columns.filter((c) => c.visible) ?? []
-
-  // Filter columns by search
-  const filteredColumns = draftColumns.filter((c) => {
-    const label = c.alias || c.sourcePath
-    return label.toLowerCase().includes(colSearch.toLowerCase())
-  })
-
-  // Auto-apply on every change
-  useEffect(() => {
-    if (!draftTableId) return
-    const newConfig: PivotConfig = {
-      tableId: draftTableId,
-      rowColumns: draftRowCols,
-      colColumns: draftColCols,
-      values: draftValues,
-      valuesPlacement: draftValuesPlacement,
-      // Preserve fields managed outside the config panel
-      ...preservedFieldsRef.current,
-    }
-    onApply(newConfig)
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [draftTableId, draftRowCols, draftColCols, draftValues, draftValuesPlacement])
-
-  const addValue = (column: string) => {
-    setDraftValues((prev) => [...prev, { id: `pv-${Date.now()}`, column, aggregation: 'count' }])
-    setShowValuePicker(false)
-  }
-
-  const updateValue = (id: string, patch: Partial<PivotValueConfig>) => {
-    setDraftValues((prev) => prev.map((v) => v.id === id ? { ...v, ...patch } : v))
-  }
-
-  const removeValue = (id: string) => {
-    setDraftValues((prev) => prev.filter((v) => v.id !== id))
-  }
-
-  const addToList = (list: string[], setList: (v: string[]) => void, col: string) => {
-    if (!list.includes(col)) setList([...list, col])
-    setShowColPicker(null)
-  }
-
-  const removeFromList = (list: string[], setList: (v: string[]) => void, col: string) => {
-    setList(list.filter((c) => c !== col))
-  }
-
-  // Column picker dropdown
-  const renderColPicker = (target: 'row' | 'col') => {
-    const currentList = target === 'row' ? draftRowCols : draftColCols
-    const setList = target === 'row' ? setDraftRowCols : setDraftColCols
-    const available = draftColumns.filter((c) => !currentList.includes(c.sourcePath))
-    if (available.length === 0) return null
-    return (
-      <div className="border border-gray-200 rounded-md bg-white shadow-sm mt-1 max-h-40 overflow-auto">
-        {available.map((c) => {
-          const label = c.alias || c.sourcePath
-          return (
-            <button
-              key={c.id}
-              onClick={() => addToList(currentList, setList, c.sourcePath)}
-              className="w-full flex items-center gap-2 px-2.5 py-1.5 text-xs text-gray-600 hover:bg-gray-50 transition-colors cursor-pointer"
-            >
-              <ColTypeIcon name={c.sourcePath} />
-              <span className="truncate">{label}</span>
-            </button>
-          )
-        })}
-      </div>
-    )
-  }
-
-  // Value picker dropdown
-  const renderValuePicker = () => {
-    return (
-      <div className="border border-gray-200 rounded-md bg-white shadow-sm mt-1 max-h-40 overflow-auto">
-        {draftColumns.map((c) => {
-          const label = c.alias || c.sourcePath
-          return (
-            <button
-              key={c.id}
-              onClick={() => addValue(c.sourcePath)}
-              className="w-full flex items-center gap-2 px-2.5 py-1.5 text-xs text-gray-600 hover:bg-gray-50 transition-colors cursor-pointer"
-            >
-              <ColTypeIcon name={c.sourcePath} />
-              <span className="truncate">{label}</span>
-            </button>
-          )
-        })}
-      </div>
-    )
-  }
-
-  return (
-    <div className="h-full flex flex-col">
-      {/* Header */}
-      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 shrink-0">
-        <div className="flex items-center gap-2">
-          <Grid3X3 size={14} className="text-gray-400" />
-          <h3 className="text-sm font-semibold text-gray-900">Pivot Table</h3>
-        </div>
-        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer">
-          <X size={14} />
-        </button>
-      </div>
-
-      {/* Tabs: Properties | Format */}
-      <div className="px-4 pt-2 pb-0 border-b border-gray-200 shrink-0">
-        <div className="flex items-center gap-0">
-          {(['properties', 'format'] as PivotPanelTab[]).map((tab) => (
-            <button
-              key={tab}
-              onClick={() => setActiveTab(tab)}
-              className={cn(
-                'px-3 py-2 text-xs font-medium border-b-2 transition-colors cursor-pointer capitalize',
-                activeTab === tab
-                  ? 'text-gray-900 border-gray-900'
-                  : 'text-gray-400 border-transparent hover:text-gray-600'
-              )}
-            >
-              {tab}
-            </button>
-          ))}
-        </div>
-      </div>
-
-      {/* Tab content */}
-      {activeTab === 'properties' ? (
-        <div className="flex-1 flex flex-col min-h-0">
-          {/* Top: config sections */}
-          <div className="flex-1 overflow-auto">
-            <div className="p-4 space-y-4">
-              {/* Data Source */}
-              <div>
-                <label className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider">Data Source</label>
-                <select
-                  value={draftTableId}
-                  onChange={(e) => { setDraftTableId(e.target.value); setDraftRowCols([]); setDraftColCols([]); setDraftValues([]) }}
-                  className="w-full mt-1 text-xs border border-gray-200 rounded-md px-2.5 py-2 focus:outline-none focus:border-gray-400 bg-white text-gray-700"
-                >
-                  <option value="">Select a table…</option>
-                  {savedTables.map((t) => (<option key={t.id} value={t.id}>{t.tableName}</option>))}
-                </select>
-              </div>
-
-              {draftTableId && (
-                <>
-                  {/* Pivot Rows */}
-                  <div>
-                    <div className="flex items-center justify-between mb-1.5">
-                      <label className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
-                        <Rows3 size={11} className="text-gray-400" />
-                        Pivot Rows
-                      </label>
-                      <button
-                        onClick={() => setShowColPicker(showColPicker === 'row' ? null : 'row')}
-                        className="p-0.5 text-gray-400 hover:text-gray-600 transition-colors rounded cursor-pointer"
-                        title="Add row field"
-                      >
-                        <Plus size={12} />
-                      </button>
-                    </div>
-                    {draftRowCols.length > 0 ? (
-                      <div className="space-y-0.5">
-                        {draftRowCols.map((col) => (
-                          <div key={col} className="flex items-center gap-2 px-2.5 py-1.5 rounded-md hover:bg-gray-50 group/item transition-colors">
-                            <ColTypeIcon name={col} />
-                            <span className="text-xs text-gray-700 flex-1 truncate">{col}</span>
-                            <button
-                              onClick={() => removeFromList(draftRowCols, setDraftRowCols, col)}
-                              className="p-0.5 text-gray-300 hover:text-red-500 transition-colors opacity-0 group-hover/item:opacity-100 cursor-pointer"
-                            >
-                              <X size={10} />
-                            </button>
-                          </div>
-                        ))}
-                      </div>
-                    ) : (
-                      <p className="text-[10px] text-gray-400 italic px-1">No row fields added</p>
-                    )}
-                    {showColPicker === 'row' && renderColPicker('row')}
-                  </div>
-
-                  {/* Pivot Columns */}
-                  <div>
-                    <div className="flex items-center justify-between mb-1.5">
-                      <label className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
-                        <Columns3 size={11} className="text-gray-400" />
-                        Pivot Columns
-                      </label>
-                      <button
-                        onClick={() => setShowColPicker(showColPicker === 'col' ? null : 'col')}
-                        className="p-0.5 text-gray-400 hover:text-gray-600 transition-colors rounded cursor-pointer"
-                        title="Add column field"
-                      >
-                        <Plus size={12} />
-                      </button>
-                    </div>
-                    {draftColCols.length > 0 ? (
-                      <div className="space-y-0.5">
-                        {draftColCols.map((col) => (
-                          <div key={col} className="flex items-center gap-2 px-2.5 py-1.5 rounded-md hover:bg-gray-50 group/item transition-colors">
-                            <ColTypeIcon name={col} />
-                            <span className="text-xs text-gray-700 flex-1 truncate">{col}</span>
-                            <button
-                              onClick={() => removeFromList(draftColCols, setDraftColCols, col)}
-                              className="p-0.5 text-gray-300 hover:text-red-500 transition-colors opacity-0 group-hover/item:opacity-100 cursor-pointer"
-                            >
-                              <X size={10} />
-                            </button>
-                          </div>
-                        ))}
-                      </div>
-                    ) : (
-                      <p className="text-[10px] text-gray-400 italic px-1">No column fields added</p>
-                    )}
-                    {showColPicker === 'col' && renderColPicker('col')}
-                  </div>
-
-                  {/* Divider */}
-                  <div className="border-t border-gray-100" />
-
-                  {/* Values */}
-                  <div>
-                    <div className="flex items-center justify-between mb-1.5">
-                      <label className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
-                        <Calculator size={11} className="text-gray-400" />
-                        Values
-                      </label>
-                      <button
-                        onClick={() => setShowValuePicker(!showValuePicker)}
-                        className="p-0.5 text-gray-400 hover:text-gray-600 transition-colors rounded cursor-pointer"
-                        title="Add value"
-                      >
-                        <Plus size={12} />
-                      </button>
-                    </div>
-                    {draftValues.length > 0 ? (
-                      <div className="space-y-1.5">
-                        {draftValues.map((v) => {
-                          const label = v.label || (v.aggregation === 'none' ? (v.column || '…') : `${AGGREGATION_LABELS[v.aggregation]} of ${v.column || '…'}`)
-                          return (
-                            <div key={v.id} className="bg-gray-50 rounded-md p-2 group/val">
-                              <div className="flex items-center gap-2 mb-1.5">
-                                <ColTypeIcon name={v.column || 'count'} />
-                                <span className="text-xs text-gray-700 font-medium flex-1 truncate">{label}</span>
-                                <button
-                                  onClick={() => removeValue(v.id)}
-                                  className="p-0.5 text-gray-300 hover:text-red-500 transition-colors opacity-0 group-hover/val:opacity-100 cursor-pointer shrink-0"
-                                >
-                                  <X size={10} />
-                                </button>
-                              </div>
-                              <div className="flex gap-1.5">
-                                <select
-                                  value={v.column}
-                                  onChange={(e) => updateValue(v.id, { column: e.target.value })}
-                                  className="flex-1 text-[10px] border border-gray-200 rounded px-1.5 py-1 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
-                                >
-                                  <option value="">Column…</option>
-                                  {draftColumns.map((c) => (
-                                    <option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>
-                                  ))}
-                                </select>
-                                <select
-                                  value={v.aggregation}
-                                  onChange={(e) => updateValue(v.id, { aggregation: e.target.value as AggregationType })}
-                                  className="flex-1 text-[10px] border border-gray-200 rounded px-1.5 py-1 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
-                                >
-                                  {Object.entries(AGGREGATION_LABELS).map(([k, lab]) => (
-                                    <option key={k} value={k}>{lab}</option>
-                                  ))}
-                                </select>
-                              </div>
-                            </div>
-                          )
-                        })}
-                      </div>
-                    ) : (
-                      <p className="text-[10px] text-gray-400 italic px-1">Drag from Columns below</p>
-                    )}
-                    {showValuePicker && renderValuePicker()}
-                  </div>
-
-                  {/* Values Placement toggle — only relevant when multiple values + col groups */}
-                  {draftValues.length > 0 && (
-                    <div className="mt-3">
-                      <label className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider mb-1.5 block">Show Values In</label>
-                      <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit">
-                        <button
-                          onClick={() => setDraftValuesPlacement('columns')}
-                          className={cn(
-                            'flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium rounded-md transition-colors',
-                            draftValuesPlacement === 'columns'
-                              ? 'text-gray-800 bg-white shadow-sm'
-                              : 'text-gray-600 hover:bg-gray-200/70'
-                          )}
-                        >
-                          Columns
-                        </button>
-                        <button
-                          onClick={() => setDraftValuesPlacement('rows')}
-                          className={cn(
-                            'flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium rounded-md transition-colors',
-                            draftValuesPlacement === 'rows'
-                              ? 'text-gray-800 bg-white shadow-sm'
-                              : 'text-gray-600 hover:bg-gray-200/70'
-                          )}
-                        >
-                          Rows
-                        </button>
-                      </div>
-                    </div>
-                  )}
-                </>
+              {selectedHiddenCount > 0 && (
+                <button
+                  onClick={showSelected}
+                  className="flex items-center gap-1 px-2 py-1 text-[10px] font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors cursor-pointer"
+                >
+                  <Eye size={10} />
+                  Show
+                </button>
               )}
+              <button
+                onClick={() => setSelectedKeys(new Set())}
+                className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded cursor-pointer"
+              >
+                <X size={10} />
+              </button>
             </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
 
-            {/* Available Columns */}
-            {draftTableId && (
-              <div className="border-t border-gray-200">
-                <div className="px-4 pt-3 pb-2">
-                  <div className="flex items-center justify-between mb-2">
-                    <span className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider">Columns</span>
-                    <div className="flex items-center gap-1">
-                      <Search size={11} className="text-gray-400" />
-                    </div>
-                  </div>
+      <div className="flex-1 overflow-auto">
+        {/* Column header */}
+        <div className="px-4 pt-3 pb-1.5 flex items-center justify-between">
+          <p className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">
+            Columns ({visibleCount}{hiddenCount > 0 ? ` / ${displayList.length}` : ''})
+          </p>
+          <button
+            onClick={selectAll}
+            className="text-[10px] text-gray-400 hover:text-gray-600 transition-colors cursor-pointer"
+          >
+            {selectedKeys.size === displayList.length ? 'Deselect all' : 'Select all'}
+          </button>
+        </div>
+
+        <div className="px-2 pb-2">
+          {displayList.map((col, idx) => {
+            const isHidden = hiddenSet.has(col.key)
+            const isSelected = selectedKeys.has(col.key)
+            const isEditing = editingKey === col.key
+
+            return (
+              <div
+                key={col.key}
+                className={cn(
+                  'group/col flex items-center gap-1.5 px-2 py-1.5 rounded-md text-xs transition-colors',
+                  isSelected && !isHidden && 'bg-gray-100',
+                  isSelected && isHidden && 'bg-gray-100 opacity-50',
+                  !isSelected && isHidden && 'opacity-40',
+                  !isSelected && !isHidden && 'hover:bg-gray-50'
+                )}
+              >
+                {/* Checkbox */}
+                <button
+                  onClick={() => toggleSelection(col.key)}
+                  className={cn(
+                    'w-3.5 h-3.5 rounded border flex items-center justify-center shrink-0 transition-colors cursor-pointer',
+                    isSelected
+                      ? 'bg-gray-700 border-gray-700'
+                      : 'border-gray-300 hover:border-gray-400'
+                  )}
+                >
+                  {isSelected && <Check size={8} className="text-white" />}
+                </button>
+
+                {/* Reorder arrows */}
+                <div className="flex flex-col gap-0.5 opacity-0 group-hover/col:opacity-100 transition-opacity shrink-0">
+                  <button
+                    onClick={() => moveColumn(col.key, 'up')}
+                    disabled={idx === 0}
+                    className="p-0 text-gray-300 hover:text-gray-500 disabled:opacity-20 cursor-pointer disabled:cursor-default"
+                  >
+                    <ArrowUp size={8} />
+                  </button>
+                  <button
+                    onClick={() => moveColumn(col.key, 'down')}
+                    disabled={idx === displayList.length - 1}
+                    className="p-0 text-gray-300 hover:text-gray-500 disabled:opacity-20 cursor-pointer disabled:cursor-default"
+                  >
+                    <ArrowDown size={8} />
+                  </button>
+                </div>
+
+                {/* Column name — double-click to rename */}
+                {isEditing ? (
                   <input
+                    ref={renameInputRef}
                     type="text"
-                    value={colSearch}
-                    onChange={(e) => setColSearch(e.target.value)}
-                    placeholder="Search columns…"
-                    className="w-full text-[10px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-600 bg-white focus:outline-none focus:border-gray-400 placeholder:text-gray-300 mb-2"
+                    value={draftName}
+                    onChange={(e) => setDraftName(e.target.value)}
+                    onBlur={commitRename}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename()
+                      if (e.key === 'Escape') setEditingKey(null)
+                    }}
+                    className="flex-1 min-w-0 text-xs text-gray-700 bg-transparent border-b border-gray-400 focus:border-gray-600 focus:outline-none py-0"
                   />
-                </div>
-                <div className="px-2 pb-3 max-h-[240px] overflow-auto">
-                  {filteredColumns.map((c) => {
-                    const label = c.alias || c.sourcePath
-                    const isInRow = draftRowCols.includes(c.sourcePath)
-                    const isInCol = draftColCols.includes(c.sourcePath)
-                    const isInVal = draftValues.some((v) => v.column === c.sourcePath)
-                    const isUsed = isInRow || isInCol || isInVal
-                    return (
-                      <div
-                        key={c.id}
-                        className={cn(
-                          'flex items-center gap-2 px-2.5 py-1.5 rounded-md transition-colors',
-                          isUsed ? 'opacity-50' : 'hover:bg-gray-50 cursor-pointer'
-                        )}
-                        onClick={() => {
-                          if (isUsed) return
-                          // Default: add as a value (count)
-                          addValue(c.sourcePath)
-                        }}
-                      >
-                        <ColTypeIcon name={c.sourcePath} />
-                        <span className="text-xs text-gray-700 flex-1 truncate">{label}</span>
-                        {isInRow && <span className="text-[8px] text-gray-400 uppercase">Row</span>}
-                        {isInCol && <span className="text-[8px] text-gray-400 uppercase">Col</span>}
-                        {isInVal && <span className="text-[8px] text-gray-400 uppercase">Val</span>}
-                      </div>
-                    )
-                  })}
-                </div>
+                ) : (
+                  <span
+                    onDoubleClick={() => {
+                      setDraftName(col.name)
+                      setEditingKey(col.key)
+                    }}
+                    className={cn(
+                      'flex-1 truncate select-none cursor-default',
+                      isHidden ? 'line-through text-gray-400' : 'text-gray-700'
+                    )}
+                    title="Double-click to rename"
+                  >
+                    {col.name}
+                  </span>
+                )}
+
+                {/* Visibility toggle */}
+                <button
+                  onClick={() => toggleVisibility(col.key)}
+                  className={cn(
+                    'p-0.5 transition-colors rounded cursor-pointer shrink-0',
+                    isHidden
+                      ? 'text-gray-300 hover:text-gray-600'
+                      : 'text-gray-300 hover:text-gray-600 opacity-0 group-hover/col:opacity-100'
+                  )}
+                  title={isHidden ? 'Show column' : 'Hide column'}
+                >
+                  {isHidden ? <EyeOff size={10} /> : <Eye size={10} />}
+                </button>
               </div>
-            )}
-          </div>
+            )
+          })}
         </div>
-      ) : (
-        /* Format tab */
-        <div className="flex-1 overflow-auto p-4 space-y-4">
-          {/* Column Formatting */}
-          {draftTableId && (
-            <ColumnFormattingSection
-              columns={[
-                ...draftRowCols.map((c) => ({ key: c, label: c })),
-                ...draftValues.map((v) => ({ key: v.column || v.id, label: v.label || `${AGGREGATION_LABELS[v.aggregation]}${v.column ? ` of ${v.column}` : ''}` })),
-              ]}
-              columnFormats={widget.columnFormats ?? {}}
-              onChange={onColumnFormatsChange}
-            />
-          )}
 
-          {/* Conditional Formatting */}
-          {draftTableId && (
-            <ConditionalFormattingSection
-              rules={widget.conditionalFormats ?? []}
-              columns={[
-                ...draftRowCols.map((c) => ({ key: c, label: c })),
-                ...draftValues.map((v) => ({ key: v.column || v.id, label: v.label || `${AGGREGATION_LABELS[v.aggregation]}${v.column ? ` of ${v.column}` : ''}` })),
-              ]}
-              onChange={onConditionalFormatsChange}
-            />
-          )}
+        {/* Show all hidden */}
+        {hiddenCount > 0 && (
+          <div className="px-4 py-2 border-t border-gray-100">
+            <button
+              onClick={() => onHiddenColumnsChange([])}
+              className="text-[10px] text-gray-500 hover:text-gray-700 transition-colors cursor-pointer flex items-center gap-1"
+            >
+              <Eye size={10} />
+              Show all {hiddenCount} hidden column{hiddenCount > 1 ? 's' : ''}
+            </button>
+          </div>
+        )}
 
-          {!draftTableId && (
-            <div className="flex flex-col items-center justify-center py-12 text-center">
-              <p className="text-xs text-gray-400">Select a data source first</p>
-            </div>
-          )}
-        </div>
-      )}
+        {/* Column Formatting */}
+        <ColumnFormattingSection
+          columns={allCols.map((c) => ({ key: c.key, label: c.name }))}
+          columnFormats={widget.columnFormats ?? {}}
+          onChange={onColumnFormatsChange}
+        />
+
+        {/* Conditional Formatting */}
+        <ConditionalFormattingSection
+          rules={widget.conditionalFormats ?? []}
+          columns={allCols.map((c) => ({ key: c.key, label: c.name }))}
+          onChange={onConditionalFormatsChange}
+        />
+      </div>
     </div>
   )
 }
 
-/* ───────── Column Filter Popover ───────── */
+/* ───────── Config Panel: Element (Heading / Text) ───────── */
 
-function ColumnFilterPopover({
-  anchorRect,
-  columnKey,
-  displayName,
-  allRows,
-  currentFilter,
+function ElementConfigPanel({
+  widget,
   onApply,
   onClose,
 }: {
-  anchorRect: DOMRect
-  columnKey: string
-  displayName: string
-  allRows: Record<string, unknown>[]
-  currentFilter: PivotColumnFilter | undefined
-  onApply: (columnKey: string, filter: PivotColumnFilter | undefined) => void
+  widget: DashboardWidget
+  onApply: (config: ElementConfig) => void
   onClose: () => void
 }) {
-  const menuRef = useRef<HTMLDivElement>(null)
-  const [search, setSearch] = useState('')
-  const [excludeNulls, setExcludeNulls] = useState(currentFilter?.excludeNulls ?? false)
-  const [excludeBlanks, setExcludeBlanks] = useState(currentFilter?.excludeBlanks ?? false)
-  const [excludeValues, setExcludeValues] = useState<Set<string>>(new Set(currentFilter?.excludeValues ?? []))
-
-  // Compute unique values for this column
-  const uniqueValues = useMemo(() => {
-    const valMap = new Map<string, { raw: unknown; count: number }>()
-    let nullCount = 0
-    let blankCount = 0
-    for (const row of allRows) {
-      const raw = row[columnKey]
-      if (raw == null) { nullCount++; continue }
-      const str = String(raw)
-      if (str.trim() === '') { blankCount++; continue }
-      if (valMap.has(str)) valMap.get(str)!.count++
-      else valMap.set(str, { raw, count: 1 })
-    }
-    const sorted = [...valMap.entries()].sort((a, b) => a[0].localeCompare(b[0]))
-    return { values: sorted, nullCount, blankCount }
-  }, [allRows, columnKey])
+  const config = widget.elementConfig ?? {}
+  const [draftFontSize, setDraftFontSize] = useState<ElementFontSize>(config.fontSize ?? (widget.type === 'heading' ? 'base' : 'sm'))
+  const [draftFontWeight, setDraftFontWeight] = useState<string>(config.fontWeight ?? (widget.type === 'heading' ? 'semibold' : 'normal'))
+  const [draftAlign, setDraftAlign] = useState<ElementAlign>(config.align ?? 'left')
+  const [draftColour, setDraftColour] = useState(config.colour ?? '')
 
-  const filteredValues = useMemo(() => {
-    if (!search) return uniqueValues.values
-    const lower = search.toLowerCase()
-    return uniqueValues.values.filter(([str]) => str.toLowerCase().includes(lower))
-  }, [uniqueValues.values, search])
+  const isHeading = widget.type === 'heading'
 
-  // Close on outside click
+  // Auto-apply
   useEffect(() => {
-    const handler = (e: MouseEvent) => {
-      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose()
-    }
-    document.addEventListener('mousedown', handler)
-    return () => document.removeEventListener('mousedown', handler)
-  }, [onClose])
-
-  const toggleValue = (str: string) => {
-    setExcludeValues((prev) => {
-      const next = new Set(prev)
-      if (next.has(str)) next.delete(str)
-      else next.add(str)
-      return next
-    })
-  }
-
-  const selectAll = () => {
-    setExcludeValues(new Set())
-    setExcludeNulls(false)
-    setExcludeBlanks(false)
-  }
-
-  const selectNone = () => {
-    setExcludeValues(new Set(uniqueValues.values.map(([str]) => str)))
-    setExcludeNulls(true)
-    setExcludeBlanks(true)
-  }
-
-  const handleApply = () => {
-    const hasExcludes = excludeNulls || excludeBlanks || excludeValues.size > 0
-    if (!hasExcludes) {
-      onApply(columnKey, undefined)  // clear filter
-    } else {
-      onApply(columnKey, {
-        excludeNulls: excludeNulls || undefined,
-        excludeBlanks: excludeBlanks || undefined,
-        excludeValues: excludeValues.size > 0 ? [...excludeValues] : undefined,
-      })
+    const newConfig: ElementConfig = {
+      fontSize: draftFontSize,
+      fontWeight: draftFontWeight as ElementConfig['fontWeight'],
+      align: draftAlign,
+      ...(draftColour ? { colour: draftColour } : {}),
     }
-    onClose()
-  }
+    onApply(newConfig)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftFontSize, draftFontWeight, draftAlign, draftColour])
 
-  // Position below the anchor
-  const top = Math.min(anchorRect.bottom + 4, window.innerHeight - 380)
-  const left = Math.min(anchorRect.left, window.innerWidth - 260)
+  const inputCls = 'w-full mt-0.5 text-xs border border-gray-200 rounded-md px-2 py-1.5 focus:outline-none focus:ring-1 focus:ring-gray-300 focus:border-gray-300 bg-white'
 
-  const isFiltered = excludeNulls || excludeBlanks || excludeValues.size > 0
+  const fontSizeOptions: { value: ElementFontSize; label: string }[] = [
+    { value: 'xs', label: 'XS' },
+    { value: 'sm', label: 'S' },
+    { value: 'base', label: 'M' },
+    { value: 'lg', label: 'L' },
+    { value: 'xl', label: 'XL' },
+    { value: '2xl', label: '2XL' },
+    { value: '3xl', label: '3XL' },
+  ]
 
-  return createPortal(
-    <div
-      ref={menuRef}
-      style={{ position: 'fixed', top, left, zIndex: 9999 }}
-      className="bg-white border border-gray-200 rounded-md shadow-lg w-[250px] animate-in fade-in zoom-in-95 duration-100 flex flex-col"
-    >
-      {/* Header */}
-      <div className="px-3 py-2 border-b border-gray-100 flex items-center justify-between">
-        <span className="text-xs font-semibold text-gray-700 truncate">{displayName}</span>
-        <button onClick={onClose} className="p-0.5 rounded hover:bg-gray-100 text-gray-400 hover:text-gray-600 cursor-pointer">
-          <X size={12} />
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 shrink-0">
+        <div className="flex items-center gap-2">
+          {isHeading ? <Type size={14} className="text-gray-400" /> : <AlignLeft size={14} className="text-gray-400" />}
+          <h3 className="text-sm font-semibold text-gray-900">Configure {isHeading ? 'Heading' : 'Text'}</h3>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer">
+          <X size={14} />
         </button>
       </div>
 
-      {/* Search */}
-      <div className="px-3 py-2 border-b border-gray-100">
-        <div className="flex items-center gap-1.5 bg-gray-50 border border-gray-200 rounded-md px-2 py-1.5">
-          <Search size={11} className="text-gray-400 shrink-0" />
-          <input
-            type="text"
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            placeholder="Search values..."
-            className="text-xs bg-transparent outline-none flex-1 text-gray-700 placeholder-gray-400"
-          />
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        {/* Font Size */}
+        <div>
+          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Font Size</label>
+          <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
+            {fontSizeOptions.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => setDraftFontSize(value)}
+                className={cn(
+                  'px-2 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer min-w-[28px] text-center',
+                  draftFontSize === value ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
         </div>
-      </div>
-
-      {/* Select All / None */}
-      <div className="px-3 py-1.5 flex items-center gap-2 border-b border-gray-100">
-        <button onClick={selectAll} className="text-[10px] text-blue-600 hover:text-blue-700 font-medium cursor-pointer">Select All</button>
-        <span className="text-gray-300">|</span>
-        <button onClick={selectNone} className="text-[10px] text-blue-600 hover:text-blue-700 font-medium cursor-pointer">Select None</button>
-        {isFiltered && (
-          <>
-            <span className="text-gray-300">|</span>
-            <button onClick={selectAll} className="text-[10px] text-red-500 hover:text-red-600 font-medium cursor-pointer">Clear Filter</button>
-          </>
-        )}
-      </div>
 
-      {/* Values list */}
-      <div className="max-h-[200px] overflow-y-auto py-1">
-        {/* Null option */}
-        {uniqueValues.nullCount > 0 && (
-          <label className="flex items-center gap-2 px-3 py-1 hover:bg-gray-50 cursor-pointer">
-            <input type="checkbox" checked={!excludeNulls} onChange={() => setExcludeNulls(!excludeNulls)} className="rounded border-gray-300 text-blue-600 h-3 w-3" />
-            <span className="text-xs text-gray-500 italic flex-1">(null)</span>
-            <span className="text-[10px] text-gray-400">{uniqueValues.nullCount}</span>
-          </label>
-        )}
-
-        {/* Blank option */}
-        {uniqueValues.blankCount > 0 && (
-          <label className="flex items-center gap-2 px-3 py-1 hover:bg-gray-50 cursor-pointer">
-            <input type="checkbox" checked={!excludeBlanks} onChange={() => setExcludeBlanks(!excludeBlanks)} className="rounded border-gray-300 text-blue-600 h-3 w-3" />
-            <span className="text-xs text-gray-500 italic flex-1">(blank)</span>
-            <span className="text-[10px] text-gray-400">{uniqueValues.blankCount}</span>
-          </label>
-        )}
+        {/* Font Weight */}
+        <div>
+          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Font Weight</label>
+          <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
+            {([['normal', 'Normal'], ['medium', 'Medium'], ['semibold', 'Semi'], ['bold', 'Bold']] as [string, string][]).map(([val, lbl]) => (
+              <button
+                key={val}
+                onClick={() => setDraftFontWeight(val)}
+                className={cn(
+                  'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
+                  draftFontWeight === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
+                )}
+              >
+                {lbl}
+              </button>
+            ))}
+          </div>
+        </div>
 
-        {/* Actual values */}
-        {filteredValues.map(([str, { count }]) => (
-          <label key={str} className="flex items-center gap-2 px-3 py-1 hover:bg-gray-50 cursor-pointer">
-            <input type="checkbox" checked={!excludeValues.has(str)} onChange={() => toggleValue(str)} className="rounded border-gray-300 text-blue-600 h-3 w-3" />
-            <span className="text-xs text-gray-700 truncate flex-1">{str}</span>
-            <span className="text-[10px] text-gray-400">{count}</span>
-          </label>
-        ))}
-
-        {filteredValues.length === 0 && uniqueValues.nullCount === 0 && uniqueValues.blankCount === 0 && (
-          <p className="text-xs text-gray-400 italic px-3 py-2">No values</p>
-        )}
-      </div>
+        {/* Alignment */}
+        <div>
+          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Alignment</label>
+          <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit mt-1">
+            {([['left', 'Left'], ['center', 'Centre'], ['right', 'Right']] as [ElementAlign, string][]).map(([val, lbl]) => (
+              <button
+                key={val}
+                onClick={() => setDraftAlign(val)}
+                className={cn(
+                  'px-2.5 py-1 text-[10px] font-medium rounded-md transition-colors cursor-pointer',
+                  draftAlign === val ? 'text-gray-800 bg-white shadow-sm' : 'text-gray-500 hover:bg-gray-200/70'
+                )}
+              >
+                {lbl}
+              </button>
+            ))}
+          </div>
+        </div>
 
-      {/* Apply button */}
-      <div className="px-3 py-2 border-t border-gray-100">
-        <button
-          onClick={handleApply}
-          className="w-full bg-gray-900 text-white text-xs font-medium py-1.5 rounded-md hover:bg-gray-800 transition-colors cursor-pointer"
-        >
-          Apply Filter
-        </button>
+        {/* Colour */}
+        <div>
+          <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Text Colour</label>
+          <div className="flex items-center gap-1.5 mt-1.5 flex-wrap">
+            <button
+              onClick={() => setDraftColour('')}
+              className={cn(
+                'w-5 h-5 rounded-full border-2 transition-colors cursor-pointer bg-gray-900',
+                !draftColour ? 'border-gray-400 ring-1 ring-gray-300' : 'border-transparent'
+              )}
+              title="Default"
+            />
+            {CHART_COLOUR_PRESETS.map((c) => (
+              <button
+                key={c}
+                onClick={() => setDraftColour(c)}
+                className={cn(
+                  'w-5 h-5 rounded-full border-2 transition-colors cursor-pointer',
+                  draftColour === c ? 'border-gray-400 ring-1 ring-gray-300' : 'border-transparent'
+                )}
+                style={{ backgroundColor: c }}
+              />
+            ))}
+          </div>
+          <div className="mt-2">
+            <label className="text-[10px] font-medium text-gray-500 uppercase tracking-wider">Custom Hex</label>
+            <input
+              type="text"
+              value={draftColour}
+              onChange={(e) => setDraftColour(e.target.value)}
+              placeholder="#000000"
+              className={inputCls}
+            />
+          </div>
+        </div>
       </div>
-    </div>,
-    document.body
+    </div>
   )
 }
 
-/* ───────── Error Boundary for Pivot Tables ───────── */
-class PivotErrorBoundary extends React.Component<{ children: React.ReactNode }, { error: Error | null }> {
-  state = { error: null as Error | null }
-  static getDerivedStateFromError(error: Error) { return { error } }
-  componentDidCatch(error: Error, info: React.ErrorInfo) { console.error('[PivotCard crash]', error, info) }
-  render() {
-    if (this.state.error) {
-      return (
-        <div className="p-4 text-xs text-red-600 bg-white rounded-md border border-red-200">
-          <p className="font-semibold mb-1">Pivot table error</p>
-          <p className="text-red-500">{this.state.error.message}</p>
-          <button onClick={() => this.setState({ error: null })} className="mt-2 text-blue-600 hover:underline text-[10px] cursor-pointer">Try again</button>
-        </div>
-      )
-    }
-    return this.props.children
-  }
+/* ───────── Config Panel: Pivot Table ───────── */
+
+/** Guess the column data type from the source path name. */
+function guessColType(name: string): 'number' | 'date' | 'text' {
+  const lower = name.toLowerCase()
+  if (/\b(date|time|created|updated|timestamp)\b/.test(lower)) return 'date'
+  if (/\b(count|amount|price|qty|total|sum|revenue|cost|distance|number|nr|num|id|min|max)\b/.test(lower)) return 'number'
+  return 'text'
+}
+
+function ColTypeIcon({ name, className }: { name: string; className?: string }) {
+  const t = guessColType(name)
+  if (t === 'number') return <span className={cn('text-[9px] font-bold text-gray-400 tabular-nums', className)}>123</span>
+  if (t === 'date') return <Calendar size={11} className={cn('text-gray-400', className)} />
+  return <span className={cn('text-[9px] font-semibold text-gray-400', className)}>ABC</span>
 }
 
-/* ───────── Pivot Table Card ───────── */
+type PivotPanelTab = 'properties' | 'format'
 
-function PivotCard({
+function PivotConfigPanel({
   widget,
   savedTables,
-  accessToken,
-  editMode,
-  globalFetchKey,
-  onRemove,
-  onDuplicate,
-  onOpenConfig,
-  onDisplayNameChange,
-  onPivotConfigChange,
+  onApply,
+  onConditionalFormatsChange,
   onColumnFormatsChange,
-  onColumnSelect,
+  onClose,
 }: {
   widget: DashboardWidget
   savedTables: SavedTable[]
-  accessToken: string | null
-  editMode: boolean
-  globalFetchKey: number
-  onRemove: () => void
-  onDuplicate: () => void
-  onOpenConfig: () => void
-  onDisplayNameChange: (name: string) => void
-  onPivotConfigChange: (config: PivotConfig) => void
+  onApply: (config: PivotConfig) => void
+  onConditionalFormatsChange: (rules: ConditionalFormatRule[]) => void
   onColumnFormatsChange: (formats: Record<string, ColumnFormat>) => void
-  onColumnSelect: (colKey: string) => void
+  onClose: () => void
 }) {
   const config = widget.pivotConfig
-  const [rows, setRows] = useState<Record<string, unknown>[]>([])
-  const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-
-  // Inline rename state — title
-  const [editingTitle, setEditingTitle] = useState(false)
-  const [draftTitle, setDraftTitle] = useState('')
-  const titleInputRef = useRef<HTMLInputElement>(null)
-
-  // Inline rename state — column headers
-  const [editingColIdx, setEditingColIdx] = useState<number | null>(null)
-  const [draftColLabel, setDraftColLabel] = useState('')
-  const colInputRef = useRef<HTMLInputElement>(null)
-
-  // Column resize state
-  const [colWidths, setColWidths] = useState<Record<number, number>>({})
-  const resizingCol = useRef<{ idx: number; startX: number; startW: number } | null>(null)
-  const thRefs = useRef<Map<number, HTMLTableCellElement>>(new Map())
-
-  // Quick column format toolbar state
-  const [pivotFmtCol, setPivotFmtCol] = useState<string | null>(null)
-  const [pivotFmtRect, setPivotFmtRect] = useState<{ top: number; left: number; width: number; bottom: number } | null>(null)
-
-  // Right-click context menu state
-  const [pivotCtxMenu, setPivotCtxMenu] = useState<{
-    x: number; y: number; columnKey: string; displayName: string; colIdx: number
-  } | null>(null)
-
-  // Column filter popover state
-  const [filterPopover, setFilterPopover] = useState<{
-    columnKey: string; displayName: string; anchorRect: DOMRect
-  } | null>(null)
-
-  const handleFilterApply = useCallback((col: string, filter: PivotColumnFilter | undefined) => {
-    if (!config) return
-    const prev = config.columnFilters || {}
-    if (!filter) {
-      const next = { ...prev }
-      delete next[col]
-      onPivotConfigChange({ ...config, columnFilters: Object.keys(next).length > 0 ? next : undefined })
-    } else {
-      onPivotConfigChange({ ...config, columnFilters: { ...prev, [col]: filter } })
-    }
-  }, [config, onPivotConfigChange])
-
-  // Detect if a column contains date values
-  const dateColumnCache = useMemo(() => {
-    const cache: Record<string, boolean> = {}
-    if (!rows.length) return cache
-    const sampleSize = Math.min(rows.length, 20)
-    const allCols = [...(config?.rowColumns || []), ...(config?.colColumns || [])]
-    for (const col of allCols) {
-      let dateCount = 0
-      for (let i = 0; i < sampleSize; i++) {
-        if (looksLikeDate(rows[i]?.[col])) dateCount++
-      }
-      cache[col] = dateCount > sampleSize * 0.3
-    }
-    return cache
-  }, [rows, config?.rowColumns, config?.colColumns])
-
-  const handleTruncationChange = useCallback((col: string, trunc: DateTruncation | undefined) => {
-    if (!config) return
-    const prev = config.columnTruncations || {}
-    if (trunc === undefined) {
-      const next = { ...prev }
-      delete next[col]
-      onPivotConfigChange({ ...config, columnTruncations: next })
-    } else {
-      onPivotConfigChange({ ...config, columnTruncations: { ...prev, [col]: trunc } })
-    }
-  }, [config, onPivotConfigChange])
-
-  const openPivotFmtToolbar = useCallback((colKey: string, thElement: HTMLElement) => {
-    const rect = thElement.getBoundingClientRect()
-    setPivotFmtRect({ top: rect.top, left: rect.left, width: rect.width, bottom: rect.bottom })
-    setPivotFmtCol(colKey)
-  }, [])
-
-  const handlePivotFmtApply = useCallback((colKey: string, fmt: ColumnFormat | null) => {
-    const prev = widget.columnFormats || {}
-    if (fmt === null) {
-      const next = { ...prev }
-      delete next[colKey]
-      onColumnFormatsChange(next)
-    } else {
-      onColumnFormatsChange({ ...prev, [colKey]: fmt })
-    }
-  }, [widget.columnFormats, onColumnFormatsChange])
-
-  const startColResize = useCallback((colIdx: number, e: React.MouseEvent) => {
-    e.preventDefault()
-    e.stopPropagation()
-    const th = thRefs.current.get(colIdx)
-    const startW = th ? th.getBoundingClientRect().width : 100
-    const startX = e.clientX
-    resizingCol.current = { idx: colIdx, startX, startW }
-
-    // Prevent text selection while dragging
-    document.body.style.cursor = 'col-resize'
-    document.body.style.userSelect = 'none'
+  const [draftTableId, setDraftTableId] = useState(config?.tableId ?? '')
+  const [draftRowCols, setDraftRowCols] = useState<string[]>(config?.rowColumns ?? [])
+  const [draftColCols, setDraftColCols] = useState<string[]>(config?.colColumns ?? [])
+  const [draftValues, setDraftValues] = useState<PivotValueConfig[]>(config?.values ?? [])
+  const [draftValuesPlacement, setDraftValuesPlacement] = useState<ValuesPlacement>(config?.valuesPlacement ?? 'columns')
+  const [activeTab, setActiveTab] = useState<PivotPanelTab>('properties')
+  const [colSearch, setColSearch] = useState('')
+  const [showColPicker, setShowColPicker] = useState<'row' | 'col' | null>(null)
+  const [showValuePicker, setShowValuePicker] = useState(false)
 
-    const onMove = (me: MouseEvent) => {
-      if (!resizingCol.current) return
-      const delta = me.clientX - resizingCol.current.startX
-      const newW = Math.max(40, resizingCol.current.startW + delta)
-      setColWidths((prev) => ({ ...prev, [resizingCol.current!.idx]: newW }))
-    }
-    const onUp = () => {
-      resizingCol.current = null
-      document.body.style.cursor = ''
-      document.body.style.userSelect = ''
-      window.removeEventListener('mousemove', onMove)
-      window.removeEventListener('mouseup', onUp)
+  // Preserve fields managed outside the config panel (labels, truncations, filters)
+  const preservedFieldsRef = useRef<Pick<PivotConfig, 'rowColumnLabels' | 'columnTruncations' | 'columnFilters'>>({
+    rowColumnLabels: config?.rowColumnLabels,
+    columnTruncations: config?.columnTruncations,
+    columnFilters: config?.columnFilters,
+  })
+  // Keep ref in sync with latest widget prop
+  useEffect(() => {
+    preservedFieldsRef.current = {
+      rowColumnLabels: widget.pivotConfig?.rowColumnLabels,
+      columnTruncations: widget.pivotConfig?.columnTruncations,
+      columnFilters: widget.pivotConfig?.columnFilters,
     }
-    window.addEventListener('mousemove', onMove)
-    window.addEventListener('mouseup', onUp)
-  }, [])
-
-  const table = savedTables.find((t) => t.id === config?.tableId)
+  }, [widget.pivotConfig?.rowColumnLabels, widget.pivotConfig?.columnTruncations, widget.pivotConfig?.columnFilters])
 
-  // Auto-focus title input
-  useEffect(() => {
-    if (editingTitle) setTimeout(() => { titleInputRef.current?.focus(); titleInputRef.current?.select() }, 50)
-  }, [editingTitle])
+  const draftTable = savedTables.find((t) => t.id === draftTableId)
+  const draftColumns = draftTable?.columns.filter((c) => c.visible) ?? []
 
-  // Auto-focus column rename input
-  useEffect(() => {
-    if (editingColIdx !== null) setTimeout(() => { colInputRef.current?.focus(); colInputRef.current?.select() }, 50)
-  }, [editingColIdx])
+  // Filter columns by search
+  const filteredColumns = draftColumns.filter((c) => {
+    const label = c.alias || c.sourcePath
+    return label.toLowerCase().includes(colSearch.toLowerCase())
+  })
 
-  // Fetch data
+  // Auto-apply on every change
   useEffect(() => {
-    if (!config?.tableId || !table) return
-    if (table.projectId === '__query__') {
-      if ((table as unknown as { queryData?: Record<string, unknown>[] }).queryData) {
-        setRows((table as unknown as { queryData: Record<string, unknown>[] }).queryData)
-      }
-      return
-    }
-    if (!accessToken) return
-
-    let cancelled = false
-    setLoading(true)
-    setError(null)
-
-    const load = async () => {
-      try {
-        const documents = await fetchAllDocuments(accessToken, table.projectId, table.collectionPath, {
-          isCollectionGroup: table.isCollectionGroup,
-          isCancelled: () => cancelled,
-        })
-        if (cancelled) return
-        const flattened = documents.map((d: Record<string, unknown>) => {
-          const { __id: _id, __path: _p, __parentId: _pid, ...rest } = d
-          return flattenObject(rest as Record<string, unknown>)
-        })
-        setRows(flattened)
-      } catch (err) {
-        if (cancelled) return
-        setError(err instanceof Error ? err.message : 'Failed to fetch data')
-      } finally { if (!cancelled) setLoading(false) }
+    if (!draftTableId) return
+    const newConfig: PivotConfig = {
+      tableId: draftTableId,
+      rowColumns: draftRowCols,
+      colColumns: draftColCols,
+      values: draftValues,
+      valuesPlacement: draftValuesPlacement,
+      // Preserve fields managed outside the config panel
+      ...preservedFieldsRef.current,
     }
-    load()
-    return () => { cancelled = true }
-  }, [config?.tableId, table, accessToken, globalFetchKey])
-
-  // Compute pivot data
-  const pivotData = usePivotData(rows, config)
-
-  // Sort state
-  const [pivotSortCol, setPivotSortCol] = useState<number | null>(null) // index into combined [rowHeaders..., valueHeaders...]
-  const [pivotSortDir, setPivotSortDir] = useState<'asc' | 'desc' | null>(null)
+    onApply(newConfig)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [draftTableId, draftRowCols, draftColCols, draftValues, draftValuesPlacement])
 
-  const togglePivotSort = useCallback((colIdx: number) => {
-    if (pivotSortCol === colIdx) {
-      if (pivotSortDir === 'asc') setPivotSortDir('desc')
-      else if (pivotSortDir === 'desc') { setPivotSortDir(null); setPivotSortCol(null) }
-      else { setPivotSortDir('asc') }
-    } else {
-      setPivotSortCol(colIdx)
-      setPivotSortDir('asc')
-    }
-  }, [pivotSortCol, pivotSortDir])
-
-  const sortedPivotRows = useMemo(() => {
-    if (pivotSortCol === null || pivotSortDir === null) return pivotData.rows
-    const rowHeaderCount = pivotData.rowHeaders.length
-    const isRowCol = pivotSortCol < rowHeaderCount
-    return [...pivotData.rows].sort((a, b) => {
-      const aVal = isRowCol ? a.keys[pivotSortCol] : a.values[pivotSortCol - rowHeaderCount]
-      const bVal = isRowCol ? b.keys[pivotSortCol] : b.values[pivotSortCol - rowHeaderCount]
-      if (aVal == null && bVal == null) return 0
-      if (aVal == null) return 1
-      if (bVal == null) return -1
-      if (typeof aVal === 'number' && typeof bVal === 'number') {
-        return pivotSortDir === 'asc' ? aVal - bVal : bVal - aVal
-      }
-      // Try date comparison for date-like strings
-      const aDate = parseDate(aVal)
-      const bDate = parseDate(bVal)
-      if (aDate && bDate) {
-        const diff = aDate.getTime() - bDate.getTime()
-        return pivotSortDir === 'asc' ? diff : -diff
-      }
-      const cmp = String(aVal).localeCompare(String(bVal))
-      return pivotSortDir === 'asc' ? cmp : -cmp
-    })
-  }, [pivotData.rows, pivotData.rowHeaders.length, pivotSortCol, pivotSortDir])
+  const addValue = (column: string) => {
+    setDraftValues((prev) => [...prev, { id: `pv-${Date.now()}`, column, aggregation: 'count' }])
+    setShowValuePicker(false)
+  }
 
-  // Inline rename state — row column headers
-  const [editingRowColIdx, setEditingRowColIdx] = useState<number | null>(null)
-  const [draftRowColLabel, setDraftRowColLabel] = useState('')
-  const rowColInputRef = useRef<HTMLInputElement>(null)
+  const updateValue = (id: string, patch: Partial<PivotValueConfig>) => {
+    setDraftValues((prev) => prev.map((v) => v.id === id ? { ...v, ...patch } : v))
+  }
 
-  useEffect(() => {
-    if (editingRowColIdx !== null) setTimeout(() => { rowColInputRef.current?.focus(); rowColInputRef.current?.select() }, 50)
-  }, [editingRowColIdx])
-
-  const commitRowColLabel = () => {
-    if (editingRowColIdx === null || !config) { setEditingRowColIdx(null); return }
-    setEditingRowColIdx(null)
-    const trimmed = draftRowColLabel.trim()
-    if (!trimmed) return
-    const updatedRowColumns = [...config.rowColumns]
-    // Store the display label as a columnLabel map on the config
-    const labels = { ...(config.rowColumnLabels || {}) }
-    labels[config.rowColumns[editingRowColIdx]] = trimmed
-    onPivotConfigChange({ ...config, rowColumnLabels: labels })
+  const removeValue = (id: string) => {
+    setDraftValues((prev) => prev.filter((v) => v.id !== id))
   }
 
-  const commitTitle = () => {
-    setEditingTitle(false)
-    const trimmed = draftTitle.trim()
-    if (trimmed && trimmed !== (widget.displayName || 'Pivot Table')) {
-      onDisplayNameChange(trimmed)
-    }
+  const addToList = (list: string[], setList: (v: string[]) => void, col: string) => {
+    if (!list.includes(col)) setList([...list, col])
+    setShowColPicker(null)
   }
 
-  // Commit a column header rename — maps the visible header index back
-  // to the value's label in the PivotConfig.
-  const commitColLabel = () => {
-    if (editingColIdx === null || !config) { setEditingColIdx(null); return }
-    setEditingColIdx(null)
-    const trimmed = draftColLabel.trim()
-    if (!trimmed) return
-
-    // Determine which value this header index maps to.
-    // Headers are generated as: for each colKey × each value → one header.
-    const valIdx = editingColIdx % config.values.length
-    const updatedValues = config.values.map((v, i) =>
-      i === valIdx ? { ...v, label: trimmed } : v
-    )
-    onPivotConfigChange({ ...config, values: updatedValues })
+  const removeFromList = (list: string[], setList: (v: string[]) => void, col: string) => {
+    setList(list.filter((c) => c !== col))
   }
 
-  const displayTitle = widget.displayName || 'Pivot Table'
+  // Column picker dropdown
+  const renderColPicker = (target: 'row' | 'col') => {
+    const currentList = target === 'row' ? draftRowCols : draftColCols
+    const setList = target === 'row' ? setDraftRowCols : setDraftColCols
+    const available = draftColumns.filter((c) => !currentList.includes(c.sourcePath))
+    if (available.length === 0) return null
+    return (
+      <div className="border border-gray-200 rounded-md bg-white shadow-sm mt-1 max-h-40 overflow-auto">
+        {available.map((c) => {
+          const label = c.alias || c.sourcePath
+          return (
+            <button
+              key={c.id}
+              onClick={() => addToList(currentList, setList, c.sourcePath)}
+              className="w-full flex items-center gap-2 px-2.5 py-1.5 text-xs text-gray-600 hover:bg-gray-50 transition-colors cursor-pointer"
+            >
+              <ColTypeIcon name={c.sourcePath} />
+              <span className="truncate">{label}</span>
+            </button>
+          )
+        })}
+      </div>
+    )
+  }
 
-  if (!config?.tableId) {
+  // Value picker dropdown
+  const renderValuePicker = () => {
     return (
-      <div className="h-full flex flex-col bg-white rounded-md border border-gray-200 overflow-hidden relative group/el">
-        {/* Header — drag handle */}
-        <div className={cn(
-          'widget-drag-handle flex items-center justify-between px-3 py-2 shrink-0 select-none',
-          editMode ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'
-        )}>
-          <div className="flex items-center gap-2 min-w-0">
-            <Grid3X3 size={13} className="text-gray-400 shrink-0" />
-            <span className="text-xs font-medium text-gray-700 truncate">{displayTitle}</span>
-          </div>
-          <div className="flex items-center gap-1 shrink-0" onMouseDown={(e) => e.stopPropagation()}>
-            <button onClick={onOpenConfig} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Configure"><Settings2 size={12} /></button>
-            {editMode && (
-              <>
-                <button onClick={onDuplicate} className="p-1 text-gray-300 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Duplicate"><Copy size={12} /></button>
-                <button onClick={onRemove} className="p-1 text-gray-300 hover:text-red-500 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Remove"><Trash2 size={12} /></button>
-              </>
-            )}
-          </div>
-        </div>
-        <div className="flex-1 flex flex-col items-center justify-center">
-          <Grid3X3 size={24} className="text-gray-300 mb-2" />
-          <p className="text-sm text-gray-400">Configure pivot table</p>
-          <button
-            onClick={onOpenConfig}
-            className="mt-2 text-xs font-medium text-gray-600 hover:text-gray-800 bg-gray-100 hover:bg-gray-200 rounded-md px-3 py-1.5 transition-colors cursor-pointer"
-          >
-            <Settings2 size={12} className="inline mr-1" />
-            Configure
-          </button>
-        </div>
+      <div className="border border-gray-200 rounded-md bg-white shadow-sm mt-1 max-h-40 overflow-auto">
+        {draftColumns.map((c) => {
+          const label = c.alias || c.sourcePath
+          return (
+            <button
+              key={c.id}
+              onClick={() => addValue(c.sourcePath)}
+              className="w-full flex items-center gap-2 px-2.5 py-1.5 text-xs text-gray-600 hover:bg-gray-50 transition-colors cursor-pointer"
+            >
+              <ColTypeIcon name={c.sourcePath} />
+              <span className="truncate">{label}</span>
+            </button>
+          )
+        })}
       </div>
     )
   }
 
   return (
-    <div className="h-full flex flex-col bg-white rounded-md border border-gray-200 overflow-hidden relative group/el">
-      {/* Header — drag handle */}
-      <div className={cn(
-        'widget-drag-handle flex items-center justify-between px-4 py-2.5 shrink-0 select-none',
-        editMode ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'
-      )}>
-        <div className="flex items-center gap-2 min-w-0">
-          {editingTitle && editMode ? (
-            <input
-              ref={titleInputRef}
-              type="text"
-              value={draftTitle}
-              onChange={(e) => setDraftTitle(e.target.value)}
-              onBlur={commitTitle}
-              onKeyDown={(e) => {
-                if (e.key === 'Enter') commitTitle()
-                if (e.key === 'Escape') setEditingTitle(false)
-              }}
-              onMouseDown={(e) => e.stopPropagation()}
-              className="w-full text-sm font-semibold text-gray-900 bg-transparent border-b border-gray-300 focus:border-gray-500 focus:outline-none py-0"
-            />
-          ) : (
-            <h4
-              className={cn('text-sm font-semibold text-gray-900 truncate', editMode && 'cursor-text')}
-              onDoubleClick={() => {
-                if (!editMode) return
-                setDraftTitle(displayTitle)
-                setEditingTitle(true)
-              }}
-            >
-              {displayTitle}
-            </h4>
-          )}
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 shrink-0">
+        <div className="flex items-center gap-2">
+          <Grid3X3 size={14} className="text-gray-400" />
+          <h3 className="text-sm font-semibold text-gray-900">Pivot Table</h3>
         </div>
-        <div className="flex items-center gap-1 shrink-0 opacity-0 group-hover/el:opacity-100 transition-opacity" onMouseDown={(e) => e.stopPropagation()}>
-          <button onClick={onOpenConfig} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Configure"><Settings2 size={13} /></button>
-          {editMode && (
-            <>
-              <button onClick={onDuplicate} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Duplicate"><Copy size={13} /></button>
-              <button onClick={onRemove} className="p-1 text-gray-400 hover:text-red-500 transition-colors rounded-md hover:bg-gray-100 cursor-pointer" title="Remove"><Trash2 size={13} /></button>
-            </>
-          )}
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors rounded-md hover:bg-gray-100 cursor-pointer">
+          <X size={14} />
+        </button>
+      </div>
+
+      {/* Tabs: Properties | Format */}
+      <div className="px-4 pt-2 pb-0 border-b border-gray-200 shrink-0">
+        <div className="flex items-center gap-0">
+          {(['properties', 'format'] as PivotPanelTab[]).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={cn(
+                'px-3 py-2 text-xs font-medium border-b-2 transition-colors cursor-pointer capitalize',
+                activeTab === tab
+                  ? 'text-gray-900 border-gray-900'
+                  : 'text-gray-400 border-transparent hover:text-gray-600'
+              )}
+            >
+              {tab}
+            </button>
+          ))}
         </div>
       </div>
 
-      {/* Content */}
-      <div className="flex-1 overflow-hidden px-3 pb-3 flex flex-col min-h-0">
-        {loading ? (
-          <div className="flex items-center justify-center h-full gap-2 text-xs text-gray-400">
-            <Loader2 size={14} className="animate-spin" />Loading…
-          </div>
-        ) : error ? (
-          <div className="flex items-center justify-center h-full gap-2 text-xs text-red-400">
-            <AlertCircle size={14} />{error}
-          </div>
-        ) : pivotData.headers.length === 0 ? (
-          <div className="flex items-center justify-center h-full text-xs text-gray-400">
-            Add values to build the pivot table
-          </div>
-        ) : (
-          <div className="flex-1 min-h-0 border border-gray-200 rounded-md overflow-auto [&_th:last-child]:border-r-0 [&_td:last-child]:border-r-0 [&_tbody_tr:last-child_td]:border-b-0">
-          <table className="text-xs border-collapse" style={{ tableLayout: 'fixed', minWidth: '100%' }}>
-            <colgroup>
-              {pivotData.rowHeaders.map((_, ri) => (
-                <col key={`r${ri}`} style={{ width: colWidths[ri] ? `${colWidths[ri]}px` : undefined, minWidth: 40 }} />
-              ))}
-              {pivotData.headers.map((_, hi) => {
-                const ci = pivotData.rowHeaders.length + hi
-                return <col key={`v${hi}`} style={{ width: colWidths[ci] ? `${colWidths[ci]}px` : undefined, minWidth: 40 }} />
-              })}
-            </colgroup>
-            <thead>
-              {/* ── Row 1: Row headers + Column group spans (or flat headers if no col groups) ── */}
-              <tr className="bg-gray-50/80">
-                {pivotData.rowHeaders.map((rh, ri) => {
-                  const displayLabel = config?.rowColumnLabels?.[rh] || rh
-                  const isSorted = pivotSortCol === ri
-                  const hasTrunc = config?.columnTruncations?.[rh]
-                  return (
-                  <th
-                    key={rh}
-                    ref={(el) => { if (el) thRefs.current.set(ri, el); else thRefs.current.delete(ri) }}
-                    rowSpan={pivotData.hasColGroups ? 2 : 1}
-                    className="text-left px-3 py-2.5 text-xs font-medium text-gray-600 border-b border-r border-gray-200 sticky top-0 left-0 z-20 bg-gray-200 relative select-none overflow-hidden text-ellipsis whitespace-nowrap group/th cursor-pointer"
-                    onContextMenu={(e) => {
-                      e.preventDefault()
-                      setPivotCtxMenu({ x: e.clientX, y: e.clientY, columnKey: rh, displayName: displayLabel, colIdx: ri })
-                    }}
-                    onClick={() => {
-                      if (editingRowColIdx === ri) return
-                      togglePivotSort(ri)
-                    }}
-                  >
-                    {editingRowColIdx === ri && editMode ? (
-                      <input
-                        ref={rowColInputRef}
-                        type="text"
-                        value={draftRowColLabel}
-                        onChange={(e) => setDraftRowColLabel(e.target.value)}
-                        onBlur={commitRowColLabel}
-                        onKeyDown={(e) => {
-                          if (e.key === 'Enter') commitRowColLabel()
-                          if (e.key === 'Escape') setEditingRowColIdx(null)
-                        }}
-                        onClick={(e) => e.stopPropagation()}
-                        onMouseDown={(e) => e.stopPropagation()}
-                        className="w-full text-[10px] font-semibold text-gray-900 bg-transparent border-b border-gray-400 focus:border-gray-600 focus:outline-none py-0"
-                      />
+      {/* Tab content */}
+      {activeTab === 'properties' ? (
+        <div className="flex-1 flex flex-col min-h-0">
+          {/* Top: config sections */}
+          <div className="flex-1 overflow-auto">
+            <div className="p-4 space-y-4">
+              {/* Data Source */}
+              <div>
+                <label className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider">Data Source</label>
+                <select
+                  value={draftTableId}
+                  onChange={(e) => { setDraftTableId(e.target.value); setDraftRowCols([]); setDraftColCols([]); setDraftValues([]) }}
+                  className="w-full mt-1 text-xs border border-gray-200 rounded-md px-2.5 py-2 focus:outline-none focus:border-gray-400 bg-white text-gray-700"
+                >
+                  <option value="">Select a table…</option>
+                  {savedTables.map((t) => (<option key={t.id} value={t.id}>{t.tableName}</option>))}
+                </select>
+              </div>
+
+              {draftTableId && (
+                <>
+                  {/* Pivot Rows */}
+                  <div>
+                    <div className="flex items-center justify-between mb-1.5">
+                      <label className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
+                        <Rows3 size={11} className="text-gray-400" />
+                        Pivot Rows
+                      </label>
+                      <button
+                        onClick={() => setShowColPicker(showColPicker === 'row' ? null : 'row')}
+                        className="p-0.5 text-gray-400 hover:text-gray-600 transition-colors rounded cursor-pointer"
+                        title="Add row field"
+                      >
+                        <Plus size={12} />
+                      </button>
+                    </div>
+                    {draftRowCols.length > 0 ? (
+                      <div className="space-y-0.5">
+                        {draftRowCols.map((col) => (
+                          <div key={col} className="flex items-center gap-2 px-2.5 py-1.5 rounded-md hover:bg-gray-50 group/item transition-colors">
+                            <ColTypeIcon name={col} />
+                            <span className="text-xs text-gray-700 flex-1 truncate">{col}</span>
+                            <button
+                              onClick={() => removeFromList(draftRowCols, setDraftRowCols, col)}
+                              className="p-0.5 text-gray-300 hover:text-red-500 transition-colors opacity-0 group-hover/item:opacity-100 cursor-pointer"
+                            >
+                              <X size={10} />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-[10px] text-gray-400 italic px-1">No row fields added</p>
+                    )}
+                    {showColPicker === 'row' && renderColPicker('row')}
+                  </div>
+
+                  {/* Pivot Columns */}
+                  <div>
+                    <div className="flex items-center justify-between mb-1.5">
+                      <label className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
+                        <Columns3 size={11} className="text-gray-400" />
+                        Pivot Columns
+                      </label>
+                      <button
+                        onClick={() => setShowColPicker(showColPicker === 'col' ? null : 'col')}
+                        className="p-0.5 text-gray-400 hover:text-gray-600 transition-colors rounded cursor-pointer"
+                        title="Add column field"
+                      >
+                        <Plus size={12} />
+                      </button>
+                    </div>
+                    {draftColCols.length > 0 ? (
+                      <div className="space-y-0.5">
+                        {draftColCols.map((col) => (
+                          <div key={col} className="flex items-center gap-2 px-2.5 py-1.5 rounded-md hover:bg-gray-50 group/item transition-colors">
+                            <ColTypeIcon name={col} />
+                            <span className="text-xs text-gray-700 flex-1 truncate">{col}</span>
+                            <button
+                              onClick={() => removeFromList(draftColCols, setDraftColCols, col)}
+                              className="p-0.5 text-gray-300 hover:text-red-500 transition-colors opacity-0 group-hover/item:opacity-100 cursor-pointer"
+                            >
+                              <X size={10} />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-[10px] text-gray-400 italic px-1">No column fields added</p>
+                    )}
+                    {showColPicker === 'col' && renderColPicker('col')}
+                  </div>
+
+                  {/* Divider */}
+                  <div className="border-t border-gray-100" />
+
+                  {/* Values */}
+                  <div>
+                    <div className="flex items-center justify-between mb-1.5">
+                      <label className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider flex items-center gap-1.5">
+                        <Calculator size={11} className="text-gray-400" />
+                        Values
+                      </label>
+                      <button
+                        onClick={() => setShowValuePicker(!showValuePicker)}
+                        className="p-0.5 text-gray-400 hover:text-gray-600 transition-colors rounded cursor-pointer"
+                        title="Add value"
+                      >
+                        <Plus size={12} />
+                      </button>
+                    </div>
+                    {draftValues.length > 0 ? (
+                      <div className="space-y-1.5">
+                        {draftValues.map((v) => {
+                          const label = v.label || (v.aggregation === 'none' ? (v.column || '…') : `${AGGREGATION_LABELS[v.aggregation]} of ${v.column || '…'}`)
+                          return (
+                            <div key={v.id} className="bg-gray-50 rounded-md p-2 group/val">
+                              <div className="flex items-center gap-2 mb-1.5">
+                                <ColTypeIcon name={v.column || 'count'} />
+                                <span className="text-xs text-gray-700 font-medium flex-1 truncate">{label}</span>
+                                <button
+                                  onClick={() => removeValue(v.id)}
+                                  className="p-0.5 text-gray-300 hover:text-red-500 transition-colors opacity-0 group-hover/val:opacity-100 cursor-pointer shrink-0"
+                                >
+                                  <X size={10} />
+                                </button>
+                              </div>
+                              <div className="flex gap-1.5">
+                                <select
+                                  value={v.column}
+                                  onChange={(e) => updateValue(v.id, { column: e.target.value })}
+                                  className="flex-1 text-[10px] border border-gray-200 rounded px-1.5 py-1 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
+                                >
+                                  <option value="">Column…</option>
+                                  {draftColumns.map((c) => (
+                                    <option key={c.id} value={c.sourcePath}>{c.alias || c.sourcePath}</option>
+                                  ))}
+                                </select>
+                                <select
+                                  value={v.aggregation}
+                                  onChange={(e) => updateValue(v.id, { aggregation: e.target.value as AggregationType })}
+                                  className="flex-1 text-[10px] border border-gray-200 rounded px-1.5 py-1 text-gray-600 bg-white focus:outline-none focus:border-gray-400"
+                                >
+                                  {Object.entries(AGGREGATION_LABELS).map(([k, lab]) => (
+                                    <option key={k} value={k}>{lab}</option>
+                                  ))}
+                                </select>
+                              </div>
+                            </div>
+                          )
+                        })}
+                      </div>
                     ) : (
-                    <span
-                      className={cn('inline-flex items-center gap-1', editMode && 'cursor-text hover:text-gray-700')}
-                      onDoubleClick={(e) => {
-                        if (!editMode) return
-                        e.stopPropagation()
-                        setDraftRowColLabel(displayLabel)
-                        setEditingRowColIdx(ri)
-                      }}
-                    >
-                      {displayLabel}
-                      {hasTrunc && hasTrunc !== 'none' && (
-                        <span className="text-[9px] text-gray-400 font-normal">({hasTrunc})</span>
-                      )}
-                      {isSorted && pivotSortDir === 'asc' ? (
-                        <ArrowUp size={10} className="text-gray-700" />
-                      ) : isSorted && pivotSortDir === 'desc' ? (
-                        <ArrowDown size={10} className="text-gray-700" />
-                      ) : (
-                        <ArrowUpDown size={10} className="text-gray-300 opacity-0 group-hover/th:opacity-100 transition-opacity" />
-                      )}
-                      {editMode && (
+                      <p className="text-[10px] text-gray-400 italic px-1">Drag from Columns below</p>
+                    )}
+                    {showValuePicker && renderValuePicker()}
+                  </div>
+
+                  {/* Values Placement toggle — only relevant when multiple values + col groups */}
+                  {draftValues.length > 0 && (
+                    <div className="mt-3">
+                      <label className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider mb-1.5 block">Show Values In</label>
+                      <div className="flex items-center bg-gray-100 p-0.5 rounded-md w-fit">
                         <button
-                          onClick={(e) => {
-                            e.stopPropagation()
-                            const th = (e.currentTarget as HTMLElement).closest('th')
-                            if (th) openPivotFmtToolbar(rh, th)
-                          }}
-                          onMouseDown={(e) => e.stopPropagation()}
+                          onClick={() => setDraftValuesPlacement('columns')}
                           className={cn(
-                            'p-0.5 rounded transition-all cursor-pointer',
-                            widget.columnFormats?.[rh]
-                              ? 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
-                              : 'text-gray-300 opacity-0 group-hover/th:opacity-100 hover:text-gray-500 hover:bg-gray-200/50'
+                            'flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium rounded-md transition-colors',
+                            draftValuesPlacement === 'columns'
+                              ? 'text-gray-800 bg-white shadow-sm'
+                              : 'text-gray-600 hover:bg-gray-200/70'
                           )}
-                          title="Format column"
                         >
-                          {(() => {
-                            const ft = widget.columnFormats?.[rh]?.type
-                            if (ft === 'number') return <Hash size={9} />
-                            if (ft === 'currency') return <DollarSign size={9} />
-                            if (ft === 'percent') return <Percent size={9} />
-                            if (ft === 'date' || ft === 'datetime') return <Calendar size={9} />
-                            if (ft === 'text') return <CaseSensitive size={9} />
-                            return <Paintbrush size={9} />
-                          })()}
+                          Columns
                         </button>
-                      )}
-                      {/* Filter icon */}
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation()
-                          const th = (e.currentTarget as HTMLElement).closest('th')
-                          if (th) setFilterPopover({ columnKey: rh, displayName: displayLabel, anchorRect: th.getBoundingClientRect() })
-                        }}
-                        onMouseDown={(e) => e.stopPropagation()}
-                        className={cn(
-                          'p-0.5 rounded transition-all cursor-pointer',
-                          config?.columnFilters?.[rh]
-                            ? 'text-blue-600 hover:text-blue-700 hover:bg-blue-50'
-                            : 'text-gray-300 opacity-0 group-hover/th:opacity-100 hover:text-gray-500 hover:bg-gray-200/50'
-                        )}
-                        title="Filter column"
-                      >
-                        <Filter size={9} />
-                      </button>
-                    </span>
-                    )}
-                    {/* Column resize handle */}
-                    <div
-                      className="absolute right-[-4px] top-0 bottom-0 w-[9px] cursor-col-resize z-20 group/resize"
-                      onMouseDown={(e) => startColResize(ri, e)}
-                      onDoubleClick={(e) => { e.stopPropagation(); setColWidths((prev) => { const next = { ...prev }; delete next[ri]; return next }) }}
-                    >
-                      <div className="absolute left-1/2 -translate-x-1/2 top-1 bottom-1 w-[2px] rounded-full bg-gray-300 opacity-0 group-hover/resize:opacity-100 transition-opacity" />
+                        <button
+                          onClick={() => setDraftValuesPlacement('rows')}
+                          className={cn(
+                            'flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium rounded-md transition-colors',
+                            draftValuesPlacement === 'rows'
+                              ? 'text-gray-800 bg-white shadow-sm'
+                              : 'text-gray-600 hover:bg-gray-200/70'
+                          )}
+                        >
+                          Rows
+                        </button>
+                      </div>
                     </div>
-                  </th>
-                  )
-                })}
-
-                {pivotData.hasColGroups ? (
-                  /* Column group header cells — span across their value columns */
-                  pivotData.colGroups.map((group, gi) => (
-                    <th
-                      key={`cg-${gi}`}
-                      colSpan={group.span}
-                      className="text-center px-3 py-2 text-xs font-semibold text-gray-700 border-b border-r border-gray-200 sticky top-0 z-10 bg-gray-50 whitespace-nowrap"
-                    >
-                      {group.label}
-                    </th>
-                  ))
-                ) : (
-                  /* No column groups — flat value headers */
-                  pivotData.headers.map((h, i) => {
-                    const ci = pivotData.rowHeaders.length + i
-                    const isSorted = pivotSortCol === ci
+                  )}
+                </>
+              )}
+            </div>
+
+            {/* Available Columns */}
+            {draftTableId && (
+              <div className="border-t border-gray-200">
+                <div className="px-4 pt-3 pb-2">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-[10px] font-semibold text-gray-500 uppercase tracking-wider">Columns</span>
+                    <div className="flex items-center gap-1">
+                      <Search size={11} className="text-gray-400" />
+                    </div>
+                  </div>
+                  <input
+                    type="text"
+                    value={colSearch}
+                    onChange={(e) => setColSearch(e.target.value)}
+                    placeholder="Search columns…"
+                    className="w-full text-[10px] border border-gray-200 rounded-md px-2 py-1.5 text-gray-600 bg-white focus:outline-none focus:border-gray-400 placeholder:text-gray-300 mb-2"
+                  />
+                </div>
+                <div className="px-2 pb-3 max-h-[240px] overflow-auto">
+                  {filteredColumns.map((c) => {
+                    const label = c.alias || c.sourcePath
+                    const isInRow = draftRowCols.includes(c.sourcePath)
+                    const isInCol = draftColCols.includes(c.sourcePath)
+                    const isInVal = draftValues.some((v) => v.column === c.sourcePath)
+                    const isUsed = isInRow || isInCol || isInVal
                     return (
-                      <th
-                        key={i}
-                        ref={(el) => { if (el) thRefs.current.set(ci, el); else thRefs.current.delete(ci) }}
-                        className="text-right px-3 py-2.5 text-xs font-medium text-gray-600 border-b border-r border-gray-200 sticky top-0 z-10 bg-gray-50 whitespace-nowrap relative select-none overflow-hidden text-ellipsis group/th cursor-pointer"
-                        onContextMenu={(e) => {
-                          e.preventDefault()
-                          const vc = config?.values[i % (config?.values.length || 1)]
-                          const colKey = vc?.column || String(i)
-                          setPivotCtxMenu({ x: e.clientX, y: e.clientY, columnKey: colKey, displayName: h, colIdx: ci })
-                        }}
-                        onClick={() => {
-                          if (editingColIdx === i) return
-                          togglePivotSort(ci)
-                        }}
-                      >
-                        {editingColIdx === i && editMode ? (
-                          <input
-                            ref={colInputRef}
-                            type="text"
-                            value={draftColLabel}
-                            onChange={(e) => setDraftColLabel(e.target.value)}
-                            onBlur={commitColLabel}
-                            onKeyDown={(e) => {
-                              if (e.key === 'Enter') commitColLabel()
-                              if (e.key === 'Escape') setEditingColIdx(null)
-                            }}
-                            onClick={(e) => e.stopPropagation()}
-                            onMouseDown={(e) => e.stopPropagation()}
-                            className="w-full text-right text-[10px] font-semibold text-gray-900 bg-transparent border-b border-gray-400 focus:border-gray-600 focus:outline-none py-0"
-                          />
-                        ) : (
-                          <span
-                            className={cn('inline-flex items-center gap-1 justify-end', editMode && 'cursor-text hover:text-gray-700')}
-                            onDoubleClick={(e) => {
-                              if (!editMode) return
-                              e.stopPropagation()
-                              setDraftColLabel(h)
-                              setEditingColIdx(i)
-                            }}
-                          >
-                            {isSorted && pivotSortDir === 'asc' ? (
-                              <ArrowUp size={10} className="text-gray-700" />
-                            ) : isSorted && pivotSortDir === 'desc' ? (
-                              <ArrowDown size={10} className="text-gray-700" />
-                            ) : (
-                              <ArrowUpDown size={10} className="text-gray-300 opacity-0 group-hover/th:opacity-100 transition-opacity" />
-                            )}
-                            {h}
-                            {editMode && (() => {
-                              const vc = config?.values[i % (config?.values.length || 1)]
-                              const fmtKey = vc ? (vc.column || vc.id) : String(i)
-                              return (
-                                <>
-                                <button
-                                  onClick={(e) => {
-                                    e.stopPropagation()
-                                    const th = (e.currentTarget as HTMLElement).closest('th')
-                                    if (th) openPivotFmtToolbar(fmtKey, th)
-                                  }}
-                                  onMouseDown={(e) => e.stopPropagation()}
-                                  className={cn(
-                                    'p-0.5 rounded transition-all cursor-pointer',
-                                    widget.columnFormats?.[fmtKey]
-                                      ? 'text-gray-500 hover:text-gray-700 hover:bg-gray-200/50'
-                                      : 'text-gray-300 opacity-0 group-hover/th:opacity-100 hover:text-gray-500 hover:bg-gray-200/50'
-                                  )}
-                                  title="Format column"
-                                >
-                                  {(() => {
-                                    const ft = widget.columnFormats?.[fmtKey]?.type
-                                    if (ft === 'number') return <Hash size={9} />
-                                    if (ft === 'currency') return <DollarSign size={9} />
-                                    if (ft === 'percent') return <Percent size={9} />
-                                    if (ft === 'date' || ft === 'datetime') return <Calendar size={9} />
-                                    if (ft === 'text') return <CaseSensitive size={9} />
-                                    return <Paintbrush size={9} />
-                                  })()}
-                                </button>
-                                <button
-                                  onClick={(e) => {
-                                    e.stopPropagation()
-                                    const th = (e.currentTarget as HTMLElement).closest('th')
-                                    if (th) setFilterPopover({ columnKey: fmtKey, displayName: h, anchorRect: th.getBoundingClientRect() })
-                                  }}
-                                  onMouseDown={(e) => e.stopPropagation()}
-                                  className={cn(
-                                    'p-0.5 rounded transition-all cursor-pointer',
-                                    config?.columnFilters?.[fmtKey]
-                                      ? 'text-blue-600 hover:text-blue-700 hover:bg-blue-50'
-                                      : 'text-gray-300 opacity-0 group-hover/th:opacity-100 hover:text-gray-500 hover:bg-gray-200/50'
-                                  )}
-                                  title="Filter column"
-                                >
-                                  <Filter size={9} />
-                                </button>
-                                </>
-                              )
-                            })()}
-                          </span>
+                      <div
+                        key={c.id}
+                        className={cn(
+                          'flex items-center gap-2 px-2.5 py-1.5 rounded-md transition-colors',
+                          isUsed ? 'opacity-50' : 'hover:bg-gray-50 cursor-pointer'
                         )}
-                        {/* Column resize handle */}
-                        <div
-                          className="absolute right-[-4px] top-0 bottom-0 w-[9px] cursor-col-resize z-20 group/resize"
-                          onMouseDown={(e) => startColResize(ci, e)}
-                          onDoubleClick={(e) => { e.stopPropagation(); setColWidths((prev) => { const next = { ...prev }; delete next[ci]; return next }) }}
-                        >
-                          <div className="absolute left-1/2 -translate-x-1/2 top-1 bottom-1 w-[2px] rounded-full bg-gray-300 opacity-0 group-hover/resize:opacity-100 transition-opacity" />
-                        </div>
-                      </th>
-                    )
-                  })
-                )}
-              </tr>
-
-              {/* ── Row 2: Value labels under each column group (only when col groups exist) ── */}
-              {pivotData.hasColGroups && (
-                <tr className="bg-gray-50/60">
-                  {pivotData.headers.map((h, i) => {
-                    const ci = pivotData.rowHeaders.length + i
-                    const isSorted = pivotSortCol === ci
-                    const vlIdx = i % pivotData.valueLabels.length
-                    const valueLabel = pivotData.valueLabels[vlIdx]
-                    return (
-                      <th
-                        key={i}
-                        ref={(el) => { if (el) thRefs.current.set(ci, el); else thRefs.current.delete(ci) }}
-                        className="text-right px-3 py-2 text-[10px] font-medium text-gray-500 border-b border-r border-gray-200 sticky top-[29px] z-10 bg-gray-50 whitespace-nowrap relative select-none overflow-hidden text-ellipsis group/th cursor-pointer"
-                        onContextMenu={(e) => {
-                          e.preventDefault()
-                          const vc = config?.values[vlIdx]
-                          const colKey = vc?.column || String(i)
-                          setPivotCtxMenu({ x: e.clientX, y: e.clientY, columnKey: colKey, displayName: h, colIdx: ci })
-                        }}
                         onClick={() => {
-                          if (editingColIdx === i) return
-                          togglePivotSort(ci)
+                          if (isUsed) return
+                          // Default: add as a value (count)
+                          addValue(c.sourcePath)
                         }}
                       >
-                        <span className="inline-flex items-center gap-1 justify-end">
-                          {isSorted && pivotSortDir === 'asc' ? (
-                            <ArrowUp size={9} className="text-gray-600" />
-                          ) : isSorted && pivotSortDir === 'desc' ? (
-                            <ArrowDown size={9} className="text-gray-600" />
-                          ) : (
-                            <ArrowUpDown size={9} className="text-gray-300 opacity-0 group-hover/th:opacity-100 transition-opacity" />
-                          )}
-                          {valueLabel}
-                        </span>
-                        {/* Column resize handle */}
-                        <div
-                          className="absolute right-[-4px] top-0 bottom-0 w-[9px] cursor-col-resize z-20 group/resize"
-                          onMouseDown={(e) => startColResize(ci, e)}
-                          onDoubleClick={(e) => { e.stopPropagation(); setColWidths((prev) => { const next = { ...prev }; delete next[ci]; return next }) }}
-                        >
-                          <div className="absolute left-1/2 -translate-x-1/2 top-1 bottom-1 w-[2px] rounded-full bg-gray-300 opacity-0 group-hover/resize:opacity-100 transition-opacity" />
-                        </div>
-                      </th>
-                    )
-                  })}
-                </tr>
-              )}
-            </thead>
-            <tbody>
-              {sortedPivotRows.map((row, ri) => {
-                // Build a synthetic row object for conditional formatting evaluation
-                const syntheticRow: Record<string, unknown> = {}
-                pivotData.rowHeaders.forEach((rh, i) => { syntheticRow[rh] = row.keys[i] })
-                // Map value columns by the value config id/column
-                if (config) {
-                  const valCfgs = config.values
-                  row.values.forEach((v, vi) => {
-                    const vcIdx = row.valueIdx != null ? row.valueIdx : vi % valCfgs.length
-                    const vc = valCfgs[vcIdx]
-                    if (vc) {
-                      syntheticRow[vc.column || vc.id] = v
-                      if (vc.label) syntheticRow[vc.label] = v
-                    }
-                  })
-                }
-                const condRules = widget.conditionalFormats
-                return (
-                <tr key={ri} className="hover:bg-gray-50 transition-colors">
-                  {row.keys.map((k, ki) => {
-                    const rh = pivotData.rowHeaders[ki]
-                    const cellStyle = getCondStyle(condRules, syntheticRow, rh, 'cell')
-                    const colFmt = widget.columnFormats?.[rh]
-                    const trunc = config?.columnTruncations?.[rh]
-                    let displayVal: string
-                    if (colFmt) {
-                      displayVal = applyColumnFormat(k, colFmt)
-                    } else if (trunc && trunc !== 'none') {
-                      // Keys are ISO strings when truncated — format them prettily
-                      const d = parseDate(k)
-                      displayVal = d ? formatDatePretty(d, trunc) : String(k ?? '—')
-                    } else {
-                      displayVal = String(k ?? '—')
-                    }
-                    return (
-                    <td key={ki} className={cn("px-3 py-2 text-xs text-gray-800 border-b border-r border-gray-200 font-medium whitespace-nowrap overflow-hidden text-ellipsis bg-gray-100", ki === 0 && "sticky left-0 z-10")} style={cellStyle}>{displayVal}</td>
-                    )
-                  })}
-                  {row.values.map((v, vi) => {
-                    // When values are placed in rows, all values in a row are for the same metric
-                    const vcIdx = row.valueIdx != null ? row.valueIdx : (config ? vi % config.values.length : 0)
-                    const vc = config?.values[vcIdx]
-                    const colKey = vc ? (vc.column || vc.id) : String(vi)
-                    const cellStyle = getCondStyle(condRules, syntheticRow, colKey, 'cell')
-                    const colFmt = widget.columnFormats?.[colKey]
-                    const displayVal = colFmt ? applyColumnFormat(v, colFmt) : (v != null ? (typeof v === 'number' ? v.toLocaleString(undefined, { maximumFractionDigits: 2 }) : String(v)) : '—')
-                    return (
-                    <td key={vi} className="px-3 py-2 text-right text-xs text-gray-600 border-b border-r border-gray-200 tabular-nums whitespace-nowrap overflow-hidden text-ellipsis" style={cellStyle}>
-                      {displayVal}
-                    </td>
+                        <ColTypeIcon name={c.sourcePath} />
+                        <span className="text-xs text-gray-700 flex-1 truncate">{label}</span>
+                        {isInRow && <span className="text-[8px] text-gray-400 uppercase">Row</span>}
+                        {isInCol && <span className="text-[8px] text-gray-400 uppercase">Col</span>}
+                        {isInVal && <span className="text-[8px] text-gray-400 uppercase">Val</span>}
+                      </div>
                     )
                   })}
-                </tr>
-                )
-              })}
-            </tbody>
-          </table>
+                </div>
+              </div>
+            )}
           </div>
-        )}
-      </div>
-
-      {/* Quick Column Format Toolbar */}
-      {editMode && pivotFmtCol && pivotFmtRect && (
-        <ColumnFormatToolbar
-          colKey={pivotFmtCol}
-          currentFormat={widget.columnFormats?.[pivotFmtCol]}
-          anchorRect={pivotFmtRect}
-          onApply={handlePivotFmtApply}
-          onClose={() => { setPivotFmtCol(null); setPivotFmtRect(null) }}
-        />
-      )}
+        </div>
+      ) : (
+        /* Format tab */
+        <div className="flex-1 overflow-auto p-4 space-y-4">
+          {/* Column Formatting */}
+          {draftTableId && (
+            <ColumnFormattingSection
+              columns={[
+                ...draftRowCols.map((c) => ({ key: c, label: c })),
+                ...draftValues.map((v) => ({ key: v.column || v.id, label: v.label || `${AGGREGATION_LABELS[v.aggregation]}${v.column ? ` of ${v.column}` : ''}` })),
+              ]}
+              columnFormats={widget.columnFormats ?? {}}
+              onChange={onColumnFormatsChange}
+            />
+          )}
 
-      {/* Pivot Header Context Menu */}
-      {pivotCtxMenu && (
-        <PivotHeaderContextMenu
-          x={pivotCtxMenu.x}
-          y={pivotCtxMenu.y}
-          columnKey={pivotCtxMenu.columnKey}
-          displayName={pivotCtxMenu.displayName}
-          currentTruncation={config?.columnTruncations?.[pivotCtxMenu.columnKey]}
-          isDateColumn={!!dateColumnCache[pivotCtxMenu.columnKey]}
-          sortState={pivotSortCol === pivotCtxMenu.colIdx ? pivotSortDir : null}
-          onSort={(dir) => {
-            if (dir === null) {
-              setPivotSortCol(null)
-              setPivotSortDir(null)
-            } else {
-              setPivotSortCol(pivotCtxMenu.colIdx)
-              setPivotSortDir(dir)
-            }
-          }}
-          onTruncation={handleTruncationChange}
-          onClose={() => setPivotCtxMenu(null)}
-        />
-      )}
+          {/* Conditional Formatting */}
+          {draftTableId && (
+            <ConditionalFormattingSection
+              rules={widget.conditionalFormats ?? []}
+              columns={[
+                ...draftRowCols.map((c) => ({ key: c, label: c })),
+                ...draftValues.map((v) => ({ key: v.column || v.id, label: v.label || `${AGGREGATION_LABELS[v.aggregation]}${v.column ? ` of ${v.column}` : ''}` })),
+              ]}
+              onChange={onConditionalFormatsChange}
+            />
+          )}
 
-      {/* Column Filter Popover */}
-      {filterPopover && (
-        <ColumnFilterPopover
-          anchorRect={filterPopover.anchorRect}
-          columnKey={filterPopover.columnKey}
-          displayName={filterPopover.displayName}
-          allRows={rows}
-          currentFilter={config?.columnFilters?.[filterPopover.columnKey]}
-          onApply={handleFilterApply}
-          onClose={() => setFilterPopover(null)}
-        />
+          {!draftTableId && (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <p className="text-xs text-gray-400">Select a data source first</p>
+            </div>
+          )}
+        </div>
       )}
     </div>
   )
 }
-
-/* ───────── Pivot computation hook ───────── */
-
-function usePivotData(
-  rows: Record<string, unknown>[],
-  config: PivotConfig | undefined
-): {
-  rowHeaders: string[]
-  headers: string[]
-  colGroups: { label: string; span: number }[]  // column group spans for two-row header
-  valueLabels: string[]                          // per-value labels (repeated per group)
-  hasColGroups: boolean                          // true when colColumns are configured
-  rows: { keys: unknown[]; values: (number | null)[] }[]
-} {
-  return useMemo(() => {
-    if (!config || !config.values || config.values.length === 0) {
-      return { rowHeaders: [], headers: [], colGroups: [], valueLabels: [], hasColGroups: false, rows: [] }
-    }
-
-    const { rowColumns = [], colColumns = [], values, columnTruncations } = config
-    const noRowCols = rowColumns.length === 0
-
-    // Helper: apply date truncation to a field value
-    // Returns ISO-sortable string so grouping keys sort chronologically
-    const applyTrunc = (fieldName: string, raw: unknown): string => {
-      const trunc = columnTruncations?.[fieldName]
-      if (!trunc || trunc === 'none') return String(raw ?? '')
-      const d = parseDate(raw)
-      if (!d) return String(raw ?? '')
-      const td = truncateDate(d, trunc)
-      return td.toISOString()
-    }
-
-    // Helper: aggregate a value from a bucket
-    const aggregateValue = (bucket: { sums: number[]; counts: number[]; vals: number[][]; raws: unknown[][] }, vi: number, vc: PivotValueConfig): unknown => {
-      if (bucket.counts[vi] === 0) return null
-      switch (vc.aggregation) {
-        case 'none': return bucket.raws[vi][0] ?? null
-        case 'count': return bucket.counts[vi]
-        case 'sum': return bucket.sums[vi]
-        case 'average': return bucket.sums[vi] / bucket.counts[vi]
-        case 'min': return Math.min(...bucket.vals[vi])
-        case 'max': return Math.max(...bucket.vals[vi])
-        case 'count_distinct': return new Set(bucket.vals[vi].map(String)).size
-        default: return null
-      }
-    }
-
-    // Apply column filters — exclude rows that don't pass
-    const columnFilters = config.columnFilters
-    const filteredRows = columnFilters && Object.keys(columnFilters).length > 0
-      ? rows.filter((row) => {
-          for (const [col, filter] of Object.entries(columnFilters)) {
-            if (!filter) continue
-            const raw = row[col]
-            if (filter.excludeNulls && raw == null) return false
-            if (filter.excludeBlanks && raw != null && String(raw).trim() === '') return false
-            if (filter.excludeValues && filter.excludeValues.length > 0) {
-              if (raw != null && String(raw).trim() !== '' && filter.excludeValues.includes(String(raw))) return false
-            }
-          }
-          return true
-        })
-      : rows
-
-    // Build a map: rowKey -> colKey -> valueIndex -> accumulated values
-    const dataMap = new Map<string, Map<string, { sums: number[]; counts: number[]; vals: number[][]; raws: unknown[][] }>>()
-    const colKeySet = new Set<string>()
-
-    for (const row of filteredRows) {
-      const rowKey = noRowCols ? '__total__' : rowColumns.map((rc) => applyTrunc(rc, row[rc])).join('|||')
-      const colKey = colColumns.length > 0 ? colColumns.map((cc) => applyTrunc(cc, row[cc])).join(' / ') : '__all__'
-      colKeySet.add(colKey)
-
-      if (!dataMap.has(rowKey)) dataMap.set(rowKey, new Map())
-      const colMap = dataMap.get(rowKey)!
-      if (!colMap.has(colKey)) {
-        colMap.set(colKey, {
-          sums: new Array(values.length).fill(0),
-          counts: new Array(values.length).fill(0),
-          vals: values.map(() => []),
-          raws: values.map(() => []),
-        })
-      }
-      const bucket = colMap.get(colKey)!
-
-      values.forEach((vc, vi) => {
-        const raw = row[vc.column]
-        if (vc.aggregation === 'none') {
-          bucket.raws[vi].push(raw)
-          bucket.counts[vi]++
-        } else if (vc.aggregation === 'count') {
-          bucket.counts[vi]++
-        } else if (vc.aggregation === 'count_distinct') {
-          bucket.vals[vi].push(raw as number) // we'll unique later
-          bucket.counts[vi]++
-        } else {
-          const num = raw != null ? parseFloat(String(raw)) : NaN
-          if (!isNaN(num)) {
-            bucket.sums[vi] += num
-            bucket.counts[vi]++
-            bucket.vals[vi].push(num)
-          }
-        }
-      })
-    }
-
-    const colKeys = colColumns.length > 0 ? [...colKeySet].sort() : ['__all__']
-
-    // Helper: format a col key for display (pretty-print truncated dates)
-    const formatColKey = (ck: string): string => {
-      if (ck === '__all__') return ck
-      // Check if any colColumn has truncation — if so, the key may be ISO
-      for (const cc of colColumns) {
-        const trunc = columnTruncations?.[cc]
-        if (trunc && trunc !== 'none') {
-          const d = parseDate(ck)
-          if (d) return formatDatePretty(d, trunc)
-        }
-      }
-      return ck
-    }
-
-    // Build value labels
-    const valueLabels: string[] = values.map((vc) =>
-      vc.label || (vc.aggregation === 'none' ? (vc.column || '—') : `${AGGREGATION_LABELS[vc.aggregation]}${vc.column ? ` of ${vc.column}` : ''}`)
-    )
-
-    // ─── No row columns ───
-    if (noRowCols) {
-      const placement = config.valuesPlacement ?? 'columns'
-      const hasMultipleCols = colColumns.length > 0 && colKeys.length > 1
-      const colMap = dataMap.get('__total__')
-
-      if (placement === 'rows') {
-        // ── Values as ROWS: metric names in the first column, dates as flat headers ──
-        const rowHeaders = ['']
-        const headers: string[] = []
-        if (hasMultipleCols) {
-          for (const ck of colKeys) headers.push(formatColKey(ck))
-        } else {
-          headers.push('Value')
-        }
-
-        const resultRows: { keys: unknown[]; values: unknown[]; valueIdx?: number }[] = []
-        for (let vi = 0; vi < values.length; vi++) {
-          const rowValues: unknown[] = []
-          for (const ck of colKeys) {
-            const bucket = colMap?.get(ck)
-            rowValues.push(bucket ? aggregateValue(bucket, vi, values[vi]) : null)
-          }
-          resultRows.push({ keys: [valueLabels[vi]], values: rowValues, valueIdx: vi })
-        }
-
-        return { rowHeaders, headers, colGroups: [], valueLabels, hasColGroups: false, rows: resultRows }
-      }
-
-      // ── Values as COLUMNS (default): metric names as sub-headers under dates ──
-      const rowHeaders: string[] = []
-      const headers: string[] = []
-      const colGroups: { label: string; span: number }[] = []
-      const hasColGroups = hasMultipleCols && values.length > 1
-
-      if (hasMultipleCols) {
-        for (const ck of colKeys) {
-          const prettyKey = formatColKey(ck)
-          if (hasColGroups) colGroups.push({ label: prettyKey, span: values.length })
-          for (const vc of values) {
-            const label = vc.label || (vc.aggregation === 'none' ? (vc.column || '—') : `${AGGREGATION_LABELS[vc.aggregation]}${vc.column ? ` of ${vc.column}` : ''}`)
-            headers.push(hasColGroups ? `${prettyKey} — ${label}` : prettyKey)
-          }
-        }
-      } else {
-        for (const vc of values) {
-          headers.push(vc.label || (vc.aggregation === 'none' ? (vc.column || '—') : `${AGGREGATION_LABELS[vc.aggregation]}${vc.column ? ` of ${vc.column}` : ''}`))
-        }
-      }
-
-      // Single row with all values
-      const resultRows: { keys: unknown[]; values: unknown[]; valueIdx?: number }[] = []
-      const rowValues: unknown[] = []
-      for (const ck of colKeys) {
-        const bucket = colMap?.get(ck)
-        for (let vi = 0; vi < values.length; vi++) {
-          rowValues.push(bucket ? aggregateValue(bucket, vi, values[vi]) : null)
-        }
-      }
-      resultRows.push({ keys: [], values: rowValues })
-
-      return { rowHeaders, headers, colGroups, valueLabels, hasColGroups, rows: resultRows }
-    }
-
-    const placement = config.valuesPlacement ?? 'columns'
-
-    // ─── Values in ROWS: each value metric becomes a separate row ───
-    if (placement === 'rows') {
-      // Row headers = original row columns + a "Metric" column at the end
-      const rowHeaders = [...rowColumns, '']
-      // No two-row header for rows mode — column headers are just the group names
-      const hasColGroups = false
-      const colGroups: { label: string; span: number }[] = []
-
-      // One column header per colKey (no value multiplication)
-      const headers: string[] = []
-      for (const ck of colKeys) {
-        const prettyKey = formatColKey(ck)
-        headers.push(ck === '__all__' ? 'Value' : prettyKey)
-      }
-
-      // Build rows: for each original row key × each value → one result row
-      const resultRows: { keys: unknown[]; values: unknown[]; valueIdx?: number }[] = []
-      const sortedRowKeys = [...dataMap.keys()].sort()
-
-      for (const rowKey of sortedRowKeys) {
-        const baseKeys = rowKey.split('|||')
-        const colMap = dataMap.get(rowKey)!
-
-        for (let vi = 0; vi < values.length; vi++) {
-          const rowValues: unknown[] = []
-          for (const ck of colKeys) {
-            const bucket = colMap.get(ck)
-            rowValues.push(bucket ? aggregateValue(bucket, vi, values[vi]) : null)
-          }
-          // Append the metric label as the last key; track value index
-          resultRows.push({ keys: [...baseKeys, valueLabels[vi]], values: rowValues, valueIdx: vi })
-        }
-      }
-
-      return { rowHeaders, headers, colGroups, valueLabels, hasColGroups, rows: resultRows }
-    }
-
-    // ─── Values in COLUMNS (default): each value gets its own column ───
-    const rowHeaders = rowColumns.map((rc) => rc)
-    const headers: string[] = []
-    // Only show two-row header (col group + value sub-labels) when >1 value
-    const hasColGroups = colColumns.length > 0 && colKeys.length > 1 && values.length > 1
-    const colGroups: { label: string; span: number }[] = []
-    for (const ck of colKeys) {
-      const prettyKey = formatColKey(ck)
-      if (hasColGroups) {
-        colGroups.push({ label: prettyKey, span: values.length })
-      }
-      for (const vc of values) {
-        const label = vc.label || (vc.aggregation === 'none' ? (vc.column || '—') : `${AGGREGATION_LABELS[vc.aggregation]}${vc.column ? ` of ${vc.column}` : ''}`)
-        headers.push(hasColGroups ? `${prettyKey} — ${label}` : label)
-      }
-    }
-
-    // Build rows
-    const resultRows: { keys: unknown[]; values: unknown[]; valueIdx?: number }[] = []
-    const sortedRowKeys = [...dataMap.keys()].sort()
-
-    for (const rowKey of sortedRowKeys) {
-      const keys = rowKey.split('|||')
-      const colMap = dataMap.get(rowKey)!
-      const rowValues: unknown[] = []
-
-      for (const ck of colKeys) {
-        const bucket = colMap.get(ck)
-        for (let vi = 0; vi < values.length; vi++) {
-          rowValues.push(bucket ? aggregateValue(bucket, vi, values[vi]) : null)
-        }
-      }
-
-      resultRows.push({ keys, values: rowValues })
-    }
-
-    return { rowHeaders, headers, colGroups, valueLabels, hasColGroups, rows: resultRows }
-  }, [rows, config])
-}
-
-function formatCellValue(value: unknown): string {
-  if (value === null || value === undefined) return '—'
-  if (typeof value === 'object') return JSON.stringify(value)
-  // Pretty-format date strings
-  if (typeof value === 'string' && looksLikeDate(value)) {
-    const d = parseDate(value)
-    if (d) return formatDatePretty(d, 'none')
-  }
-  return String(value)
-}
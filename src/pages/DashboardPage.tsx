@@ -31,6 +31,7 @@ import {
   ShoppingCart,
 } from 'lucide-react'
 import { cn } from '@/lib/utils'
+import { buildQueryUrl } from '@/lib/sql-params'
 import { trackProjectConnected, trackFeedbackSent, trackPageView } from '@/lib/metrics'
 import ProjectSwitcher from '@/components/ProjectSwitcher'
 import DarkModeToggle from '@/components/DarkModeToggle'
@@ -839,7 +840,7 @@ export default function DashboardPage() {
                         : table.projectId === '__query__'
                           ? navigate(`/query-table/${table.id}`)
                           : navigate(
-                              `/project/${table.projectId}/collection/${encodeURIComponent(table.collectionPath)}?tableId=${table.id}&mode=view${table.isCollectionGroup ? '&group=true' : ''}`
+                              `/project/${table.projectId}/collection/${encodeURIComponent(table.collectionPath)}?tableId=${table.id}&mode=view${table.isCollectionGroup ? '&group=true' : ''}${table.databaseId ? `&db=${encodeURIComponent(table.databaseId)}` : ''}`
                             )
                     }
                     className="bg-white dark:bg-gray-800 rounded-md border border-gray-200 dark:border-gray-700 p-4 hover:border-gray-300 dark:hover:border-gray-600 transition-colors group cursor-pointer"
@@ -915,7 +916,7 @@ export default function DashboardPage() {
                         <button
                           onClick={(e) => {
                             e.stopPropagation()
-                            navigate(`/query?sql=${encodeURIComponent(table.querySql ?? table.collectionPath)}&autorun=true`)
+                            navigate(buildQueryUrl(table.querySql ?? table.collectionPath, { autorun: true, params: table.queryParams }))
                           }}
                           className="text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 flex items-center gap-1 transition-colors"
                         >
@@ -961,7 +962,7 @@ export default function DashboardPage() {
                             : table.projectId === '__query__'
                               ? navigate(`/query-table/${table.id}`)
                               : navigate(
-                                  `/project/${table.projectId}/collection/${encodeURIComponent(table.collectionPath)}?tableId=${table.id}&mode=view${table.isCollectionGroup ? '&group=true' : ''}`
+                                  `/project/${table.projectId}/collection/${encodeURIComponent(table.collectionPath)}?tableId=${table.id}&mode=view${table.isCollectionGroup ? '&group=true' : ''}${table.databaseId ? `&db=${encodeURIComponent(table.databaseId)}` : ''}`
                                 )
                         }
                       >
@@ -1025,7 +1026,7 @@ export default function DashboardPage() {
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation()
-                                  navigate(`/query?sql=${encodeURIComponent(table.querySql ?? table.collectionPath)}&autorun=true`)
+                                  navigate(buildQueryUrl(table.querySql ?? table.collectionPath, { autorun: true, params: table.queryParams }))
                                 }}
                                 className="text-gray-400 hover:text-gray-600 transition-colors opacity-0 group-hover:opacity-100"
                                 title="Open in SQL Editor"
@@ -1,14 +1,16 @@
 import { useEffect, useState, useCallback } from 'react'
-import { useParams, useNavigate } from 'react-router-dom'
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
 import {
   listCollections,
   sampleDocuments,
   discoverSubCollections,
   discoverSubCollectionsFromGroup,
+  listDatabases,
+  DEFAULT_DATABASE_ID,
 } from '@/lib/firestore-rest'
 import { discoverSchema } from '@/lib/utils'
-import type { CollectionInfo, FieldInfo, DocumentData, ColumnConfig } from '@/lib/types'
+import type { CollectionInfo, FieldInfo, DocumentData, ColumnConfig, FirestoreDatabase } from '@/lib/types'
 import { cn } from '@/lib/utils'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
@@ -41,6 +43,7 @@ interface SubCollNodeProps {
   depth: number
   accessToken: string
   projectId: string
+  databaseId: string
   onBuildTable: (collectionId: string) => void
 }
 
@@ -50,6 +53,7 @@ function SubCollNode({
   depth,
   accessToken,
   projectId,
+  databaseId,
   onBuildTable,
 }: SubCollNodeProps) {
   const [expanded, setExpanded] = useState(false)
@@ -63,7 +67,7 @@ function SubCollNode({
 
   useEffect(() => {
     let cancelled = false
-    discoverSubCollectionsFromGroup(accessToken, projectId, collectionId)
+    discoverSubCollectionsFromGroup(accessToken, projectId, collectionId, databaseId)
       .then((subs) => {
         if (cancelled) return
         setHasChildren(subs.length > 0)
@@ -80,7 +84,7 @@ function SubCollNode({
         if (!cancelled) setProbing(false)
       })
     return () => { cancelled = true }
-  }, [accessToken, projectId, collectionId])
+  }, [accessToken, projectId, databaseId, collectionId])
 
   const explore = useCallback(async () => {
     if (explored) {
@@ -90,7 +94,7 @@ function SubCollNode({
     setExpanded(true)
     setLoading(true)
     try {
-      const subs = await discoverSubCollectionsFromGroup(accessToken, projectId, collectionId)
+      const subs = await discoverSubCollectionsFromGroup(accessToken, projectId, collectionId, databaseId)
       setChildren(subs)
       setHasChildren(subs.length > 0)
       setExplored(true)
@@ -99,7 +103,7 @@ function SubCollNode({
     } finally {
       setLoading(false)
     }
-  }, [explored, expanded, accessToken, projectId, collectionId])
+  }, [explored, expanded, accessToken, projectId, databaseId, collectionId])
 
   const pathLabel = `${parentLabel}/{'*'}/${collectionId}`
 
@@ -198,6 +202,7 @@ function SubCollNode({
                   depth={depth + 1}
                   accessToken={accessToken}
                   projectId={projectId}
+                  databaseId={databaseId}
                   onBuildTable={onBuildTable}
                 />
               ))}
@@ -220,9 +225,12 @@ interface ExpandedState {
 
 export default function ProjectPage() {
   const { projectId } = useParams<{ projectId: string }>()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const databaseId = searchParams.get('db') || DEFAULT_DATABASE_ID
   const { user, signOut } = useAuth()
   const navigate = useNavigate()
 
+  const [databases, setDatabases] = useState<FirestoreDatabase[]>([])
   const [collections, setCollections] = useState<CollectionInfo[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
@@ -237,15 +245,28 @@ export default function ProjectPage() {
     loading: false,
   })
 
+  useEffect(() => {
+    if (!user?.accessToken || !projectId) return
+    // Not fatal: the picker just stays hidden if the caller can't list databases
+    listDatabases(user.accessToken, projectId)
+      .then(setDatabases)
+      .catch(() => setDatabases([]))
+  }, [user?.accessToken, projectId])
+
   useEffect(() => {
     if (!user?.accessToken || !projectId) return
     setLoading(true)
     setError(null)
-    listCollections(user.accessToken, projectId)
+    setExpandedCollection(null)
+    listCollections(user.accessToken, projectId, undefined, databaseId)
       .then(setCollections)
       .catch((err) => setError(err.message))
       .finally(() => setLoading(false))
-  }, [user?.accessToken, projectId])
+  }, [user?.accessToken, projectId, databaseId])
+
+  const handleDatabaseChange = (nextDatabaseId: string) => {
+    setSearchParams(nextDatabaseId === DEFAULT_DATABASE_ID ? {} : { db: nextDatabaseId })
+  }
 
   const handleExpandCollection = async (collPath: string) => {
     if (expandedCollection === collPath) {
@@ -257,10 +278,10 @@ export default function ProjectPage() {
     setExpandedState({ schema: [], sampleDocs: [], subCollections: [], loading: true })
 
     try {
-      const docs = await sampleDocuments(user!.accessToken!, projectId!, collPath, 50)
+      const docs = await sampleDocuments(user!.accessToken!, projectId!, collPath, 50, databaseId)
       const discovered = discoverSchema(docs)
 
-      const subColls = await discoverSubCollections(user!.accessToken!, projectId!, collPath)
+      const subColls = await discoverSubCollections(user!.accessToken!, projectId!, collPath, databaseId)
 
       setExpandedState({
         schema: discovered,
@@ -276,7 +297,11 @@ export default function ProjectPage() {
 
   const navigateToTable = (collPath: string, isGroup = false) => {
     const encoded = encodeURIComponent(collPath)
-    const url = `/project/${projectId}/collection/${encoded}${isGroup ? '?group=true' : ''}`
+    const params = new URLSearchParams()
+    if (isGroup) params.set('group', 'true')
+    if (databaseId !== DEFAULT_DATABASE_ID) params.set('db', databaseId)
+    const query = params.toString()
+    const url = `/project/${projectId}/collection/${encoded}${query ? `?${query}` : ''}`
     navigate(url)
   }
 
@@ -349,7 +374,12 @@ export default function ProjectPage() {
               <span className="font-semibold text-gray-900 dark:text-gray-100">Firegrid</span>
             </button>
             <span className="text-gray-300 dark:text-gray-600">/</span>
-            <ProjectSwitcher currentProjectId={projectId} />
+            <ProjectSwitcher
+              currentProjectId={projectId}
+              databases={databases}
+              currentDatabaseId={databaseId}
+              onDatabaseChange={handleDatabaseChange}
+            />
           </div>
           <div className="flex items-center gap-3">
             <span className="text-sm text-gray-500 dark:text-gray-400">{user?.email}</span>
@@ -440,7 +470,7 @@ export default function ProjectPage() {
                             ? coll.hasSubcollections
                               ? 'Subcollections only'
                               : 'Empty'
-                            : `${coll.documentCount}+ docs`}
+                            : `${coll.documentCount.toLocaleString()} ${coll.documentCount === 1 ? 'doc' : 'docs'}`}
                         </span>
                       )}
                       {coll.documentCount === null && coll.hasSubcollections && (
@@ -571,6 +601,7 @@ export default function ProjectPage() {
                                         depth={0}
                                         accessToken={user!.accessToken!}
                                         projectId={projectId!}
+                                        databaseId={databaseId}
                                         onBuildTable={handleBuildGroupTable}
                                       />
                                     ))}
@@ -598,12 +629,13 @@ export default function ProjectPage() {
       {projectId && (
         <AutoTableBuilder
           projectId={projectId}
+          databaseId={databaseId}
           open={showAutoBuilder}
           onClose={() => setShowAutoBuilder(false)}
           onComplete={() => {
             // Reload collections to refresh any state
             if (user?.accessToken && projectId) {
-              listCollections(user.accessToken, projectId)
+              listCollections(user.accessToken, projectId, undefined, databaseId)
                 .then(setCollections)
                 .catch(() => {})
             }
@@ -1,12 +1,10 @@
 import { useEffect, useState, useMemo, useCallback, useRef } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
-import {
-  fetchDocuments,
-  fetchCollectionGroup,
-} from '@/lib/firestore-rest'
-import { flattenObject, cn } from '@/lib/utils'
-import type { SavedTable, DocumentData } from '@/lib/types'
+import { fetchAllDocuments, countDocuments, sampleDocuments, sampleCollectionGroup } from '@/lib/firestore-rest'
+import { fetchCollectionRows } from '@/lib/document-cache'
+import { flattenDocuments, cn } from '@/lib/utils'
+import type { SavedTable, QueryParameter } from '@/lib/types'
 import { db } from '@/lib/firebase'
 import { trackQueryRun, trackQueryTableSaved, trackPageView } from '@/lib/metrics'
 import { collection, query, getDocs, orderBy, doc, setDoc, serverTimestamp } from 'firebase/firestore'
@@ -48,9 +46,27 @@ import {
   List,
   Braces,
   HelpCircle,
+  Square,
+  AlertTriangle,
+  Sparkles,
 } from 'lucide-react'
-import alasql from 'alasql'
+import { createSqlRunner, getQueryTimeout, setQueryTimeout, QUERY_TIMEOUT_OPTIONS, type SqlRunner } from '@/lib/sql-runner'
+import { planSqlPushdown, type SqlPushdownColumn, type SqlPushdownPlan } from '@/lib/sql-pushdown'
+import { findSqlParams, findParamColumn, paramTypeForColumn, bindSqlParams, readUrlParamValues, type BoundSql } from '@/lib/sql-params'
 import DarkModeToggle from '@/components/DarkModeToggle'
+import {
+  assignTableAliases,
+  toSqlColumn,
+  toQueryRows,
+  findReferencedAliases,
+  inferColumnType,
+  toResultColumns,
+  saveQueryTableRows,
+} from '@/lib/query-tables'
+import FirestoreErrorMessage from '@/components/FirestoreErrorMessage'
+import QueryParamsPanel from '@/components/QueryParamsPanel'
+import AskSqlBar from '@/components/AskSqlBar'
+import type { SqlTableSchema } from '@/lib/openai'
 
 // ---------- Types ----------
 
@@ -59,8 +75,14 @@ interface LoadedTable {
   alias: string
   data: Record<string, unknown>[]
   rowCount: number
+  /** True once data has been fetched; tables load lazily when the SQL references them */
+  loaded: boolean
   loading: boolean
   error: string | null
+  /** Row limit the data was loaded with; null loads every document */
+  rowLimit: number | null
+  /** Total documents in the collection when only part of it was loaded */
+  totalCount: number | null
 }
 
 interface QueryResult {
@@ -68,42 +90,76 @@ interface QueryResult {
   rows: Record<string, unknown>[]
   executionTime: number
   error: string | null
+  /** Aliases of referenced tables that were only partially loaded */
+  partialTables: string[]
+  /** Set when part of the query was run by Firestore */
+  pushdown: PushdownInfo | null
+}
+
+interface PushdownInfo {
+  plan: SqlPushdownPlan
+  /** Documents returned by the pushed-down query */
+  rowsFetched: number
+  /** Why the pushed-down query failed and the whole table was queried locally instead */
+  fallbackError: string | null
 }
 
 // ---------- Helpers ----------
 
-/** Turn a table name like "User Profiles" into a safe SQL identifier like "user_profiles" */
-function toSqlAlias(name: string): string {
-  return name
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '_')
-    .replace(/^_|_$/g, '')
-    .replace(/^(\d)/, '_$1') || 'table'
+/** SQL column names a table exposes, in display order */
+function getSqlColumns(t: LoadedTable): string[] {
+  return t.savedTable.columns
+    .filter((c) => c.visible)
+    .sort((a, b) => a.order - b.order)
+    .map((c) => toSqlColumn(c.alias))
 }
 
-/** Make aliases unique */
-function uniqueAlias(base: string, existing: string[]): string {
-  if (!existing.includes(base)) return base
-  let i = 2
-  while (existing.includes(`${base}${i}`)) i++
-  return `${base}${i}`
+/** Columns that can be filtered server-side, mapped to their Firestore fields */
+function getPushdownColumns(t: LoadedTable): SqlPushdownColumn[] {
+  return t.savedTable.columns
+    .filter((c) => c.visible && !c.sourcePath.startsWith('__'))
+    .map((c) => ({ name: toSqlColumn(c.alias), field: c.sourcePath, dataType: c.dataType }))
 }
 
-/** Coerce string values that look numeric into actual numbers so SQL aggregates work */
-function coerceValue(val: unknown): unknown {
-  if (val === null || val === undefined) return null
-  if (typeof val === 'number') return val
-  if (typeof val === 'boolean') return val
-  if (typeof val === 'string') {
-    const trimmed = val.trim()
-    if (trimmed === '') return val
-    // Check for numeric strings (integers, decimals, negative numbers)
-    if (/^-?\d+(\.\d+)?$/.test(trimmed)) {
-      const num = Number(trimmed)
-      if (!isNaN(num) && isFinite(num)) return num
-    }
+/** Whether a table holds only part of its collection */
+function isPartial(t: LoadedTable): boolean {
+  return t.totalCount !== null && t.totalCount > t.rowCount
+}
+
+// Per-table row limits chosen in the workbench, keyed by SavedTable.id
+const ROW_LIMITS_KEY = 'firegrid_query_row_limits'
+
+const ROW_LIMIT_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'All rows' },
+  { value: 1000, label: '1,000 rows' },
+  { value: 10000, label: '10,000 rows' },
+  { value: 50000, label: '50,000 rows' },
+]
+
+function loadRowLimits(): Record<string, number> {
+  try {
+    return JSON.parse(localStorage.getItem(ROW_LIMITS_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function saveRowLimit(tableId: string, limit: number | null) {
+  try {
+    const limits = loadRowLimits()
+    if (limit === null) delete limits[tableId]
+    else limits[tableId] = limit
+    localStorage.setItem(ROW_LIMITS_KEY, JSON.stringify(limits))
+  } catch {
+    // localStorage unavailable
   }
-  return val
+}
+
+/** Query durations: "<1ms", "840ms", "3.2s" */
+function formatDuration(ms: number): string {
+  if (ms < 1) return '<1ms'
+  if (ms < 1000) return `${Math.round(ms)}ms`
+  return `${(ms / 1000).toFixed(1)}s`
 }
 
 interface Suggestion {
@@ -141,11 +197,12 @@ function highlightSql(code: string): string {
   // Tokenise and highlight
   return escaped.replace(
     // Match comments, strings, numbers, and words
-    /(--[^\n]*)|('(?:[^'\\]|\\.)*')|(\b\d+(?:\.\d+)?\b)|(\b[a-zA-Z_]\w*\b)|([<>=!]+)|(\*)/g,
-    (match, comment, str, num, word, operator, star) => {
+    /(--[^\n]*)|('(?:[^'\\]|\\.)*')|(\b\d+(?:\.\d+)?\b)|((?<![:\w]):[a-zA-Z_]\w*)|(\b[a-zA-Z_]\w*\b)|([<>=!]+)|(\*)/g,
+    (match, comment, str, num, param, word, operator, star) => {
       if (comment) return `<span class="sql-comment">${comment}</span>`
       if (str) return `<span class="sql-string">${str}</span>`
       if (num) return `<span class="sql-number">${num}</span>`
+      if (param) return `<span class="sql-param">${param}</span>`
       if (word) {
         const upper = word.toUpperCase()
         if (SQL_KEYWORDS.has(upper)) return `<span class="sql-keyword">${word}</span>`
@@ -179,10 +236,27 @@ export default function QueryPage() {
   const [sql, setSql] = useState(initialSql)
   const [executing, setExecuting] = useState(false)
   const [queryResult, setQueryResult] = useState<QueryResult | null>(null)
+  const [showPushdown, setShowPushdown] = useState(false)
   const [queryHistory, setQueryHistory] = useState<{ sql: string; time: Date; rowCount: number }[]>([])
   const editorRef = useRef<HTMLTextAreaElement>(null)
   const highlightRef = useRef<HTMLPreElement>(null)
 
+  // :name parameters — settings chosen here override those saved with the query table
+  const [paramSettings, setParamSettings] = useState<Record<string, QueryParameter>>({})
+  const [paramValues, setParamValues] = useState<Record<string, string>>(() => readUrlParamValues(searchParams))
+  const [loadingSources, setLoadingSources] = useState<string[]>([])
+
+  // "Ask in English" — sample rows per alias for dry-running generated SQL
+  const [showAsk, setShowAsk] = useState(false)
+  const sampleRowsRef = useRef(new Map<string, Record<string, unknown>[]>())
+
+  // Query execution runs in a Web Worker so it can be cancelled
+  const runnerRef = useRef<SqlRunner | null>(null)
+  const runIdRef = useRef(0)
+  const [queryTimeout, setQueryTimeoutState] = useState(getQueryTimeout)
+  const [executionStart, setExecutionStart] = useState<number | null>(null)
+  const [elapsed, setElapsed] = useState(0)
+
   // Autocomplete state
   const [acVisible, setAcVisible] = useState(false)
   const [acSuggestions, setAcSuggestions] = useState<Suggestion[]>([])
@@ -233,156 +307,389 @@ export default function QueryPage() {
       .finally(() => setLoadingTables(false))
   }, [user?.uid])
 
-  // ---------- Auto-load all tables when savedTables are fetched ----------
+  // ---------- Register tables when savedTables are fetched ----------
 
-  const loadedRef = useRef(false)
+  // Data is only fetched when a query references a table (or it's opened in the sidebar)
+  const registeredRef = useRef(false)
 
   useEffect(() => {
-    if (loadedRef.current || !user?.accessToken || savedTables.length === 0) return
-    loadedRef.current = true
+    if (registeredRef.current || savedTables.length === 0) return
+    registeredRef.current = true
 
-    // Filter out query-based tables — they don't have real Firestore collections
-    const realTables = savedTables.filter((t) => t.projectId !== '__query__')
+    // Query-based tables are skipped — they don't have real Firestore collections
+    const realTables = assignTableAliases(savedTables)
     if (realTables.length === 0) return
 
-    // Build aliases upfront so they're unique
-    const aliases: string[] = []
-    const entries: LoadedTable[] = realTables.map((table) => {
-      const alias = uniqueAlias(toSqlAlias(table.tableName), aliases)
-      aliases.push(alias)
+    const rowLimits = loadRowLimits()
+    const entries: LoadedTable[] = realTables.map(({ table, alias }) => {
       return {
         savedTable: table,
         alias,
         data: [],
         rowCount: 0,
-        loading: true,
+        loaded: false,
+        loading: false,
         error: null,
+        rowLimit: rowLimits[table.id] ?? null,
+        totalCount: null,
       }
     })
 
     setLoadedTables(entries)
+  }, [savedTables])
 
-    // Fetch data for each table in parallel
-    entries.forEach(async (entry) => {
-      try {
-        let allDocs: DocumentData[] = []
-        const maxPages = 10
-
-        if (entry.savedTable.isCollectionGroup) {
-          let lastDocPath: string | undefined
-          for (let page = 0; page < maxPages; page++) {
-            const result = await fetchCollectionGroup(
-              user.accessToken!,
-              entry.savedTable.projectId,
-              entry.savedTable.collectionPath,
-              100,
-              lastDocPath
-            )
-            allDocs = [...allDocs, ...result.documents]
-            lastDocPath = result.lastDocumentPath
-            if (!lastDocPath) break
-          }
-        } else {
-          let nextPageToken: string | undefined
-          for (let page = 0; page < maxPages; page++) {
-            const result = await fetchDocuments(
-              user.accessToken!,
-              entry.savedTable.projectId,
-              entry.savedTable.collectionPath,
-              100,
-              nextPageToken
-            )
-            allDocs = [...allDocs, ...result.documents]
-            nextPageToken = result.nextPageToken
-            if (!nextPageToken) break
-          }
-        }
+  // In-flight loads, so a table referenced twice is only fetched once
+  const tableLoadsRef = useRef(new Map<string, Promise<LoadedTable>>())
 
-        const visibleCols = entry.savedTable.columns
-          .filter((c) => c.visible)
-          .sort((a, b) => a.order - b.order)
+  /** Fetches a table's rows (all of them, or up to its row limit) */
+  const loadTable = useCallback((entry: LoadedTable, force = false): Promise<LoadedTable> => {
+    const inFlight = tableLoadsRef.current.get(entry.alias)
+    if (inFlight) return inFlight
+    if (entry.loaded && !force) return Promise.resolve(entry)
 
-        const flatData = allDocs.map((d) => {
-          const { __id, __path, __parentId, ...rest } = d
-          const flat: Record<string, unknown> = {
-            __id,
-            ...(entry.savedTable.isCollectionGroup
-              ? { __path: __path ?? '', __parentId: __parentId ?? '' }
-              : {}),
-            ...flattenObject(rest as Record<string, unknown>),
-          }
-
-          const row: Record<string, unknown> = {}
-          for (const col of visibleCols) {
-            const key = col.alias.replace(/[^a-zA-Z0-9_]/g, '_')
-            row[key] = coerceValue(flat[col.sourcePath])
-          }
-          return row
+    const update = (patch: Partial<LoadedTable>) => {
+      setLoadedTables((prev) => prev.map((t) => (t.alias === entry.alias ? { ...t, ...patch } : t)))
+    }
+    update({ loading: true, error: null })
+
+    const { savedTable, rowLimit } = entry
+    const load = async (): Promise<LoadedTable> => {
+      if (!user?.accessToken) throw new Error('Not signed in')
+      const fetchOptions = { isCollectionGroup: savedTable.isCollectionGroup, databaseId: savedTable.databaseId }
+
+      let flatRows: Record<string, unknown>[]
+      let totalCount: number | null = null
+      if (rowLimit === null) {
+        // Full load, served from the IndexedDB cache when fresh
+        flatRows = (await fetchCollectionRows(user.accessToken, savedTable.projectId, savedTable.collectionPath, { ...fetchOptions, userId: user.uid })).rows
+      } else {
+        const documents = await fetchAllDocuments(user.accessToken, savedTable.projectId, savedTable.collectionPath, {
+          ...fetchOptions,
+          limit: rowLimit,
         })
+        flatRows = flattenDocuments(documents, savedTable.isCollectionGroup)
+        if (flatRows.length >= rowLimit) {
+          totalCount = await countDocuments(user.accessToken, savedTable.projectId, savedTable.collectionPath, fetchOptions)
+        }
+      }
 
-        setLoadedTables((prev) =>
-          prev.map((t) =>
-            t.alias === entry.alias
-              ? { ...t, data: flatData, rowCount: flatData.length, loading: false }
-              : t
-          )
-        )
-      } catch (err) {
+      const data = toQueryRows(savedTable, flatRows)
+      const patch = { data, rowCount: data.length, totalCount, loaded: true, loading: false, error: null }
+      update(patch)
+      return { ...entry, ...patch }
+    }
+
+    const promise = load()
+      .catch((err) => {
         const msg = err instanceof Error ? err.message : 'Failed to load data'
-        setLoadedTables((prev) =>
-          prev.map((t) =>
-            t.alias === entry.alias ? { ...t, loading: false, error: msg } : t
-          )
-        )
-      }
+        update({ loading: false, error: msg })
+        return { ...entry, loading: false, error: msg }
+      })
+      .finally(() => tableLoadsRef.current.delete(entry.alias))
+    tableLoadsRef.current.set(entry.alias, promise)
+    return promise
+  }, [user?.accessToken])
+
+  const handleRowLimitChange = (entry: LoadedTable, rowLimit: number | null) => {
+    saveRowLimit(entry.savedTable.id, rowLimit)
+    setLoadedTables((prev) => prev.map((t) => (t.alias === entry.alias ? { ...t, rowLimit } : t)))
+    if (entry.loaded) loadTable({ ...entry, rowLimit }, true)
+  }
+
+  // ---------- Parameters ----------
+
+  // Query table the workbench was opened from, whose parameter settings apply
+  const openedQueryTable = useMemo(
+    () => (initialSql ? savedTables.find((t) => t.querySql === initialSql.trim()) : undefined),
+    [savedTables, initialSql]
+  )
+
+  const paramNames = useMemo(() => findSqlParams(sql), [sql])
+
+  const queryParams = useMemo<QueryParameter[]>(() => {
+    const columns = loadedTables.flatMap((t) => t.savedTable.columns)
+    return paramNames.map((name) => {
+      const settings = paramSettings[name] ?? openedQueryTable?.queryParams?.find((p) => p.name === name)
+      if (settings) return settings
+      // Guess the input type from the column the parameter is compared with
+      const column = findParamColumn(sql, name)
+      const dataType = column ? columns.find((c) => toSqlColumn(c.alias) === column)?.dataType : undefined
+      return { name, type: paramTypeForColumn(dataType), defaultValue: '' }
     })
-  }, [savedTables, user?.accessToken])
+  }, [paramNames, paramSettings, openedQueryTable, sql, loadedTables])
 
-  // ---------- Auto-run query if opened from a saved query table ----------
+  const effectiveParamValues = useMemo(
+    () => Object.fromEntries(queryParams.map((p) => [p.name, paramValues[p.name] ?? p.defaultValue])),
+    [queryParams, paramValues]
+  )
 
-  const autoRunRef = useRef(false)
+  const paramSourceColumns = useMemo(
+    () => loadedTables.flatMap((t) => getSqlColumns(t).map((col) => `${t.alias}.${col}`)),
+    [loadedTables]
+  )
 
-  useEffect(() => {
-    if (autoRunRef.current || !shouldAutoRun || !initialSql) return
-    // Wait until at least some tables have finished loading
-    const ready = loadedTables.length > 0 && loadedTables.some((t) => !t.loading && !t.error)
-    const allDone = loadedTables.length > 0 && loadedTables.every((t) => !t.loading)
-    if (!ready && !allDone) return
-    // Also run if there are no real tables to load (query might be self-contained)
-    if (loadedTables.length === 0 && loadingTables) return
+  // Distinct values of each select parameter's column, once its table is loaded
+  const paramSourceValues = useMemo(() => {
+    const values: Record<string, string[] | undefined> = {}
+    for (const p of queryParams) {
+      if (p.type !== 'select' || !p.sourceColumn) continue
+      const [alias, col] = p.sourceColumn.split('.')
+      const table = loadedTables.find((t) => t.alias === alias)
+      if (!table?.loaded) continue
+      const distinct = new Set<string>()
+      for (const row of table.data) {
+        const val = row[col]
+        if (val !== null && val !== undefined && typeof val !== 'object') distinct.add(String(val))
+      }
+      values[p.sourceColumn] = [...distinct]
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+        .slice(0, 500)
+    }
+    return values
+  }, [queryParams, loadedTables])
 
-    autoRunRef.current = true
+  const handleParamChange = (name: string, patch: Partial<QueryParameter>) => {
+    const current = queryParams.find((p) => p.name === name)
+    if (!current) return
+    setParamSettings((prev) => ({ ...prev, [name]: { ...current, ...patch } }))
+  }
+
+  const handleParamValueChange = (name: string, value: string) => {
+    setParamValues((prev) => ({ ...prev, [name]: value }))
+  }
+
+  const handleLoadParamSource = (sourceColumn: string) => {
+    const alias = sourceColumn.split('.')[0]
+    const entry = loadedTables.find((t) => t.alias === alias)
+    if (!entry || entry.loaded) return
+    setLoadingSources((prev) => [...prev, sourceColumn])
+    loadTable(entry).finally(() => setLoadingSources((prev) => prev.filter((c) => c !== sourceColumn)))
+  }
+
+  // ---------- Ask in English ----------
+
+  // Schemas sent to the model; loaded tables get inferred types and sample values
+  const askSchemas = useMemo<SqlTableSchema[]>(() =>
+    loadedTables
+      .filter((t) => !t.error)
+      .map((t) => ({
+        alias: t.alias,
+        tableName: t.savedTable.tableName,
+        columns: t.savedTable.columns
+          .filter((c) => c.visible)
+          .sort((a, b) => a.order - b.order)
+          .map((c) => {
+            const name = toSqlColumn(c.alias)
+            const hasData = t.loaded && t.data.length > 0
+            const sampleValues = hasData
+              ? [...new Set(t.data.slice(0, 50).map((row) => row[name]).filter((v) => v !== null && v !== undefined))].slice(0, 3)
+              : []
+            return { name, dataType: hasData ? inferColumnType(t.data, name) : c.dataType, sampleValues }
+          }),
+      })),
+    [loadedTables]
+  )
 
-    // Small delay to ensure alasql tables are registered
-    setTimeout(() => {
-      // Register loaded tables in alasql
-      for (const t of loadedTables) {
-        if (t.loading || t.error) continue
-        alasql.tables[t.alias] = { data: t.data }
+  /** A few hundred rows of a table: its loaded data, or a small fetched sample */
+  const getSampleRows = useCallback(async (entry: LoadedTable): Promise<Record<string, unknown>[]> => {
+    if (entry.loaded) return entry.data.slice(0, 200)
+    const cached = sampleRowsRef.current.get(entry.alias)
+    if (cached) return cached
+    if (!user?.accessToken) return []
+    const { savedTable } = entry
+    const documents = savedTable.isCollectionGroup
+      ? await sampleCollectionGroup(user.accessToken, savedTable.projectId, savedTable.collectionPath, 200, savedTable.databaseId)
+      : await sampleDocuments(user.accessToken, savedTable.projectId, savedTable.collectionPath, 200, savedTable.databaseId)
+    const rows = toQueryRows(savedTable, flattenDocuments(documents, savedTable.isCollectionGroup))
+    sampleRowsRef.current.set(entry.alias, rows)
+    return rows
+  }, [user?.accessToken])
+
+  /** Dry-runs SQL on sample rows in a separate worker; returns the error message, or null if it runs */
+  const validateSql = useCallback(async (text: string): Promise<string | null> => {
+    const runner = createSqlRunner()
+    try {
+      const referenced = findReferencedAliases(text, loadedTables.map((t) => t.alias))
+      for (const t of loadedTables.filter((t) => referenced.includes(t.alias))) {
+        // A table that can't be sampled is checked empty — enough to catch parse errors
+        const rows = await getSampleRows(t).catch(() => [])
+        runner.registerTable(t.alias, rows)
       }
+      await runner.run(text, { timeoutMs: 10_000 })
+      return null
+    } catch (err) {
+      return err instanceof Error ? err.message : 'Query failed'
+    } finally {
+      runner.dispose()
+    }
+  }, [loadedTables, getSampleRows])
+
+  // ---------- Query runner ----------
+
+  useEffect(() => {
+    const runner = createSqlRunner()
+    runnerRef.current = runner
+    return () => {
+      runner.dispose()
+      runnerRef.current = null
+    }
+  }, [])
+
+  // Tick the elapsed-time display while a query runs
+  useEffect(() => {
+    if (executionStart === null) return
+    const interval = setInterval(() => setElapsed(performance.now() - executionStart), 100)
+    return () => clearInterval(interval)
+  }, [executionStart])
+
+  /** Runs SQL against the loaded tables; only manual runs are added to history */
+  const runSql = useCallback(async (text: string, recordHistory: boolean) => {
+    const runner = runnerRef.current
+    if (!runner) return
+
+    const runId = ++runIdRef.current
+    setExecuting(true)
+    setQueryResult(null)
+    setElapsed(0)
+    setExecutionStart(null)
+
+    // Bind :name parameters
+    let bound: BoundSql
+    try {
+      bound = bindSqlParams(text, queryParams, effectiveParamValues)
+    } catch (err) {
+      runner.cancel()
+      setQueryResult({ columns: [], rows: [], executionTime: 0, error: err instanceof Error ? err.message : 'Invalid parameter', partialTables: [], pushdown: null })
+      setExecuting(false)
+      return
+    }
 
-      const start = performance.now()
+    const referenced = findReferencedAliases(bound.sql, loadedTables.map((t) => t.alias))
+    const referencedTables = loadedTables.filter((t) => referenced.includes(t.alias))
+
+    // A simple query on one table that isn't fully loaded yet can have its
+    // WHERE / ORDER BY / LIMIT run by Firestore, so only matching documents
+    // are downloaded. alasql still runs the whole query on what comes back.
+    const single = referencedTables.length === 1 ? referencedTables[0] : null
+    const plan = single && (!single.loaded || isPartial(single))
+      ? planSqlPushdown(bound.sql, [{ alias: single.alias, columns: getPushdownColumns(single) }], bound.values)
+      : null
+    let pushdown: PushdownInfo | null = null
+    let pushedRows: Record<string, unknown>[] | null = null
+    let pushedPartial = false
+    if (single && plan && user?.accessToken) {
+      const { savedTable, rowLimit } = single
+      const limit = plan.limit ?? rowLimit ?? undefined
       try {
-        const result = alasql(initialSql.trim())
-        const elapsed = performance.now() - start
-
-        if (Array.isArray(result) && result.length > 0) {
-          setQueryResult({ columns: Object.keys(result[0]), rows: result, executionTime: elapsed, error: null })
-        } else if (Array.isArray(result)) {
-          setQueryResult({ columns: [], rows: [], executionTime: elapsed, error: null })
-        } else {
-          setQueryResult({ columns: ['result'], rows: [{ result }], executionTime: elapsed, error: null })
-        }
+        const documents = await fetchAllDocuments(user.accessToken, savedTable.projectId, savedTable.collectionPath, {
+          isCollectionGroup: savedTable.isCollectionGroup,
+          databaseId: savedTable.databaseId,
+          filter: plan.filter,
+          orderBy: plan.orderBy,
+          limit,
+        })
+        pushedRows = toQueryRows(savedTable, flattenDocuments(documents, savedTable.isCollectionGroup))
+        pushedPartial = plan.limit === undefined && rowLimit !== null && pushedRows.length >= rowLimit
+        pushdown = { plan, rowsFetched: pushedRows.length, fallbackError: null }
       } catch (err) {
+        // e.g. a missing composite index — query the table locally instead
+        pushdown = { plan, rowsFetched: 0, fallbackError: err instanceof Error ? err.message : 'Query failed' }
+      }
+      if (runId !== runIdRef.current) return
+    }
+
+    // Otherwise fetch only the tables this query mentions
+    const tables = pushedRows ? [] : await Promise.all(referencedTables.map((t) => loadTable(t)))
+    if (runId !== runIdRef.current) return
+
+    const failed = tables.find((t) => t.error)
+    if (failed) {
+      setQueryResult({ columns: [], rows: [], executionTime: 0, error: `Failed to load ${failed.alias}: ${failed.error}`, partialTables: [], pushdown })
+      setExecuting(false)
+      return
+    }
+
+    // Register each loaded table with alasql (in the worker)
+    for (const t of tables) runner.registerTable(t.alias, t.data)
+    if (single && pushedRows) runner.registerTable(single.alias, pushedRows)
+    const partialTables = tables.filter(isPartial).map((t) => t.alias)
+    if (single && pushedPartial) partialTables.push(single.alias)
+
+    const start = performance.now()
+    setExecutionStart(start)
+
+    try {
+      const { result, executionTime } = await runner.run(bound.sql, { timeoutMs: queryTimeout, params: bound.values })
+      if (runId !== runIdRef.current) return
+
+      if (Array.isArray(result)) {
         setQueryResult({
-          columns: [],
-          rows: [],
-          executionTime: performance.now() - start,
-          error: err instanceof Error ? err.message : 'Query failed',
+          columns: result.length > 0 ? Object.keys(result[0]) : [],
+          rows: result,
+          executionTime,
+          error: null,
+          partialTables,
+          pushdown,
         })
+        if (recordHistory) {
+          setQueryHistory((prev) => [
+            { sql: text, time: new Date(), rowCount: result.length },
+            ...prev.slice(0, 19),
+          ])
+        }
+      } else {
+        // For non-SELECT queries (e.g. count returned as number)
+        setQueryResult({ columns: ['result'], rows: [{ result }], executionTime, error: null, partialTables, pushdown })
+      }
+      // Track query run
+      if (recordHistory && user?.uid) trackQueryRun(user.uid, text)
+    } catch (err) {
+      if (runId !== runIdRef.current) return
+      setQueryResult({
+        columns: [],
+        rows: [],
+        executionTime: performance.now() - start,
+        error: err instanceof Error ? err.message : 'Query failed',
+        partialTables,
+        pushdown,
+      })
+    } finally {
+      if (runId === runIdRef.current) {
+        setExecuting(false)
+        setExecutionStart(null)
       }
-    }, 100)
-  }, [shouldAutoRun, initialSql, loadedTables, loadingTables])
+    }
+  }, [loadedTables, loadTable, queryTimeout, queryParams, effectiveParamValues, user?.uid, user?.accessToken])
+
+  const cancelQuery = useCallback(() => {
+    if (executionStart === null) {
+      // Still fetching tables — abandon the run; the data stays loaded for next time
+      runIdRef.current++
+      setExecuting(false)
+      return
+    }
+    runnerRef.current?.cancel()
+  }, [executionStart])
+
+  const handleTimeoutChange = (ms: number) => {
+    setQueryTimeoutState(ms)
+    setQueryTimeout(ms)
+  }
+
+  // ---------- Auto-run query if opened from a saved query table ----------
+
+  const autoRunRef = useRef(false)
+
+  useEffect(() => {
+    if (autoRunRef.current || !shouldAutoRun || !initialSql) return
+    // Wait for the saved tables to be registered; runSql fetches the ones the query uses
+    if (loadingTables) return
+    const hasRealTables = savedTables.some((t) => t.projectId !== '__query__')
+    if (hasRealTables && loadedTables.length === 0) return
+
+    autoRunRef.current = true
+    runSql(initialSql.trim(), false)
+  }, [shouldAutoRun, initialSql, savedTables, loadedTables, loadingTables, runSql])
 
   // ---------- Autocomplete ----------
 
@@ -392,17 +699,14 @@ export default function QueryPage() {
 
     // Table names + column names
     for (const t of loadedTables) {
-      if (t.loading || t.error) continue
+      if (t.error) continue
       suggestions.push({ text: t.alias, type: 'table', detail: t.savedTable.tableName })
 
-      // Columns from the first row
-      if (t.data.length > 0) {
-        const cols = Object.keys(t.data[0])
-        for (const col of cols) {
-          suggestions.push({ text: col, type: 'column', detail: t.alias })
-          // Also add table.column format
-          suggestions.push({ text: `${t.alias}.${col}`, type: 'column', detail: t.alias })
-        }
+      // Columns from the saved table config, so tables needn't be loaded yet
+      for (const col of getSqlColumns(t)) {
+        suggestions.push({ text: col, type: 'column', detail: t.alias })
+        // Also add table.column format
+        suggestions.push({ text: `${t.alias}.${col}`, type: 'column', detail: t.alias })
       }
     }
 
@@ -561,75 +865,9 @@ export default function QueryPage() {
   // ---------- Execute SQL ----------
 
   const executeQuery = useCallback(() => {
-    if (!sql.trim()) return
-    setExecuting(true)
-    setQueryResult(null)
-
-    // Use setTimeout to let UI update before running (alasql is synchronous)
-    setTimeout(() => {
-      const start = performance.now()
-
-      try {
-        // Register each loaded table as a temporary table in alasql
-        for (const t of loadedTables) {
-          if (t.loading || t.error) continue
-          // Create table reference that alasql can use
-          alasql.tables[t.alias] = { data: t.data }
-        }
-
-        const result = alasql(sql.trim())
-        const elapsed = performance.now() - start
-
-        if (Array.isArray(result) && result.length > 0) {
-          const columns = Object.keys(result[0])
-          setQueryResult({
-            columns,
-            rows: result,
-            executionTime: elapsed,
-            error: null,
-          })
-          setQueryHistory((prev) => [
-            { sql: sql.trim(), time: new Date(), rowCount: result.length },
-            ...prev.slice(0, 19),
-          ])
-          // Track query run
-          if (user?.uid) trackQueryRun(user.uid, sql.trim())
-        } else if (Array.isArray(result) && result.length === 0) {
-          setQueryResult({
-            columns: [],
-            rows: [],
-            executionTime: elapsed,
-            error: null,
-          })
-          setQueryHistory((prev) => [
-            { sql: sql.trim(), time: new Date(), rowCount: 0 },
-            ...prev.slice(0, 19),
-          ])
-          // Track query run
-          if (user?.uid) trackQueryRun(user.uid, sql.trim())
-        } else {
-          // For non-SELECT queries (e.g. count returned as number)
-          setQueryResult({
-            columns: ['result'],
-            rows: [{ result }],
-            executionTime: elapsed,
-            error: null,
-          })
-          if (user?.uid) trackQueryRun(user.uid, sql.trim())
-        }
-      } catch (err) {
-        const elapsed = performance.now() - start
-        setQueryResult({
-          columns: [],
-          rows: [],
-          executionTime: elapsed,
-          error: err instanceof Error ? err.message : 'Query failed',
-        })
-      } finally {
-        setExecuting(false)
-      }
-    }, 10)
-  }, [sql, loadedTables])
+    if (!sql.trim() || executing) return
+    runSql(sql.trim(), true)
+  }, [sql, executing, runSql])
 
   // Keyboard handler for editor (autocomplete + run)
   const handleKeyDown = (e: React.KeyboardEvent) => {
@@ -680,17 +918,10 @@ export default function QueryPage() {
     setSaving(true)
     try {
       const id = crypto.randomUUID()
-      const columns = queryResult.columns.map((col, idx) => ({
-        id: col,
-        sourcePath: col,
-        alias: col,
-        dataType: inferColumnType(queryResult.rows, col),
-        visible: true,
-        order: idx,
-      }))
-
-      // Save query table with the actual result data (capped at 2000 rows)
-      const dataToSave = queryResult.rows.slice(0, 2000)
+      const columns = toResultColumns(queryResult.rows)
+
+      // Rows go in chunk documents, like CSV tables; the table can be re-run later
+      const pointer = await saveQueryTableRows(user.uid, id, queryResult.rows)
 
       await setDoc(doc(db, 'users', user.uid, 'tables', id), {
         tableName: saveTableName.trim(),
@@ -699,7 +930,15 @@ export default function QueryPage() {
         isCollectionGroup: false,
         columns,
         querySql: sql.trim(),
-        queryData: dataToSave,
+        ...pointer,
+        queryRowCount: queryResult.rows.length,
+        lastRefreshedAt: serverTimestamp(),
+        // Current values become the defaults (Firestore rejects undefined fields)
+        queryParams: queryParams.map(({ sourceColumn, ...p }) => ({
+          ...p,
+          ...(sourceColumn ? { sourceColumn } : {}),
+          defaultValue: effectiveParamValues[p.name] ?? '',
+        })),
         createdAt: serverTimestamp(),
         updatedAt: serverTimestamp(),
       })
@@ -799,14 +1038,14 @@ export default function QueryPage() {
                 Tables
               </h3>
               <p className="text-[11px] text-gray-400 mt-0.5">
-                {loadedTables.every((t) => !t.loading)
-                  ? `${loadedTables.filter((t) => !t.error).length} table${loadedTables.filter((t) => !t.error).length !== 1 ? 's' : ''} ready`
-                  : 'Loading table data…'}
+                {loadedTables.some((t) => t.loading)
+                  ? 'Loading table data…'
+                  : `${loadedTables.length} table${loadedTables.length !== 1 ? 's' : ''} · ${loadedTables.filter((t) => t.loaded).length} loaded`}
               </p>
             </div>
             <button
               onClick={() => {
-                const firstTable = loadedTables.find((t) => !t.loading && !t.error)
+                const firstTable = loadedTables.find((t) => !t.error)
                 if (firstTable) {
                   navigate(`/project/${firstTable.savedTable.projectId}`)
                 } else {
@@ -838,33 +1077,46 @@ export default function QueryPage() {
                     <button
                       key={loaded.alias}
                       onClick={() => {
-                        if (!loaded.loading && !loaded.error) {
-                          setSelectedTableAlias(isSelected ? null : loaded.alias)
-                        }
+                        if (loaded.loading) return
+                        // Opening a table loads it (or retries a failed load)
+                        if (!loaded.loaded || loaded.error) loadTable(loaded, true)
+                        setSelectedTableAlias(isSelected ? null : loaded.alias)
                       }}
+                      title={loaded.error ?? (isPartial(loaded)
+                        ? `Partial data: ${loaded.rowCount.toLocaleString()} of ${loaded.totalCount!.toLocaleString()} rows loaded`
+                        : loaded.loaded ? undefined : 'Loads when a query uses it')}
                       className={cn(
                         'w-full text-left px-4 py-2 flex items-center gap-2.5 transition-colors',
                         isSelected
                           ? 'bg-gray-100 dark:bg-gray-700'
                           : 'hover:bg-gray-50 dark:hover:bg-gray-700/40',
-                        (loaded.loading || loaded.error) && 'opacity-50 cursor-default'
+                        loaded.loading && 'opacity-50 cursor-default'
                       )}
                     >
                       {loaded.loading ? (
                         <Loader2 size={13} className="animate-spin text-gray-400 shrink-0" />
                       ) : loaded.error ? (
                         <AlertCircle size={13} className="text-red-400 shrink-0" />
+                      ) : isPartial(loaded) ? (
+                        <AlertTriangle size={13} className="text-amber-500 shrink-0" />
                       ) : (
-                        <Table size={13} className="text-gray-400 shrink-0" />
+                        <Table size={13} className={cn('shrink-0', loaded.loaded ? 'text-gray-400' : 'text-gray-300 dark:text-gray-600')} />
                       )}
                       <div className="min-w-0 flex-1">
-                        <p className="text-xs font-medium text-gray-800 dark:text-gray-200 truncate">
+                        <p className={cn(
+                          'text-xs font-medium truncate',
+                          loaded.loaded ? 'text-gray-800 dark:text-gray-200' : 'text-gray-500 dark:text-gray-400'
+                        )}>
                           {loaded.savedTable.tableName}
                         </p>
                       </div>
-                      {!loaded.loading && !loaded.error && (
-                        <span className="text-[10px] text-gray-400 tabular-nums shrink-0">
-                          {loaded.rowCount}
+                      {loaded.loaded && !loaded.loading && !loaded.error && (
+                        <span className={cn(
+                          'text-[10px] tabular-nums shrink-0',
+                          isPartial(loaded) ? 'text-amber-600 dark:text-amber-400' : 'text-gray-400'
+                        )}>
+                          {loaded.rowCount.toLocaleString()}
+                          {isPartial(loaded) && ` / ${loaded.totalCount!.toLocaleString()}`}
                         </span>
                       )}
                     </button>
@@ -875,17 +1127,21 @@ export default function QueryPage() {
           </div>
 
           {/* ======== Schema Panel ======== */}
-          {selectedTableAlias && selectedTableSchema && (() => {
+          {selectedTableAlias && (() => {
             const selectedTable = loadedTables.find((t) => t.alias === selectedTableAlias)
+            if (!selectedTable) return null
             return (
             <div className="border-t border-gray-200 dark:border-gray-700 shrink-0 flex flex-col max-h-[45%]">
               <div className="px-4 py-2.5 flex items-center justify-between">
                 <div className="min-w-0">
                   <h4 className="text-xs font-semibold text-gray-800 dark:text-gray-200 truncate">
-                    {selectedTable?.savedTable.tableName ?? selectedTableAlias}
+                    {selectedTable.savedTable.tableName}
                   </h4>
                   <p className="text-[10px] text-gray-400 mt-0.5">
-                    <span className="font-mono">{selectedTableAlias}</span> · {selectedTableSchema.length} column{selectedTableSchema.length !== 1 ? 's' : ''}
+                    <span className="font-mono">{selectedTableAlias}</span> ·{' '}
+                    {selectedTableSchema
+                      ? `${selectedTableSchema.length} column${selectedTableSchema.length !== 1 ? 's' : ''}`
+                      : selectedTable.loading ? 'Loading…' : 'No rows loaded'}
                   </p>
                 </div>
                 <button
@@ -895,6 +1151,28 @@ export default function QueryPage() {
                   <ChevronDown size={14} />
                 </button>
               </div>
+              <div className="px-4 pb-2 space-y-1.5">
+                <label className="flex items-center gap-1.5 text-[10px] text-gray-400">
+                  Load
+                  <select
+                    value={selectedTable.rowLimit ?? ''}
+                    onChange={(e) => handleRowLimitChange(selectedTable, e.target.value ? Number(e.target.value) : null)}
+                    disabled={selectedTable.loading}
+                    className="text-[10px] border border-gray-200 dark:border-gray-600 dark:bg-gray-700 dark:text-gray-300 rounded px-1 py-0.5 focus:outline-none disabled:opacity-50"
+                  >
+                    {ROW_LIMIT_OPTIONS.map((opt) => (
+                      <option key={opt.label} value={opt.value ?? ''}>{opt.label}</option>
+                    ))}
+                  </select>
+                </label>
+                {isPartial(selectedTable) && (
+                  <p className="flex items-start gap-1 text-[10px] text-amber-600 dark:text-amber-400">
+                    <AlertTriangle size={10} className="mt-px shrink-0" />
+                    Partial data — {selectedTable.rowCount.toLocaleString()} of {selectedTable.totalCount!.toLocaleString()} rows loaded. Query results may be incomplete.
+                  </p>
+                )}
+              </div>
+              {selectedTableSchema && (
               <div className="flex-1 overflow-y-auto">
                 <table className="w-full">
                   <thead>
@@ -945,6 +1223,7 @@ export default function QueryPage() {
                   </tbody>
                 </table>
               </div>
+              )}
             </div>
             )
           })()}
@@ -958,26 +1237,68 @@ export default function QueryPage() {
               <div className="flex items-center gap-2">
                 <Terminal size={13} className="text-gray-400" />
                 <span className="text-xs font-medium text-gray-700 dark:text-gray-300">SQL Editor</span>
+                <button
+                  onClick={() => setShowAsk((v) => !v)}
+                  className={cn(
+                    'flex items-center gap-1 text-[10px] font-medium px-1.5 py-0.5 rounded-md transition-colors',
+                    showAsk
+                      ? 'text-gray-700 bg-gray-100 dark:text-gray-200 dark:bg-gray-700'
+                      : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-200'
+                  )}
+                  title="Describe what you want and get SQL for it"
+                >
+                  <Sparkles size={10} />
+                  Ask in English
+                </button>
               </div>
               <div className="flex items-center gap-2">
                 <span className="text-[10px] text-gray-400">
                   {navigator.platform?.includes('Mac') ? '⌘' : 'Ctrl'}+Enter to run
                 </span>
-                <button
-                  onClick={executeQuery}
-                  disabled={executing || !sql.trim() || loadedTables.every((t) => t.loading)}
-                  className="flex items-center gap-1.5 bg-gray-900 text-white text-xs font-medium rounded-md px-3 py-1.5 hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-                >
-                  {executing ? (
-                    <Loader2 size={12} className="animate-spin" />
-                  ) : (
+                <label className="flex items-center gap-1 text-[10px] text-gray-400" title="Stop queries that run longer than this">
+                  <Clock size={10} />
+                  <select
+                    value={queryTimeout}
+                    onChange={(e) => handleTimeoutChange(Number(e.target.value))}
+                    className="text-[10px] text-gray-500 dark:text-gray-400 bg-transparent focus:outline-none cursor-pointer"
+                  >
+                    {QUERY_TIMEOUT_OPTIONS.map((opt) => (
+                      <option key={opt.value} value={opt.value}>{opt.label}</option>
+                    ))}
+                  </select>
+                </label>
+                {executing ? (
+                  <button
+                    onClick={cancelQuery}
+                    className="flex items-center gap-1.5 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-200 border border-gray-200 dark:border-gray-600 text-xs font-medium rounded-md px-3 py-1.5 hover:bg-gray-50 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    <Square size={10} className="fill-current" />
+                    Cancel
+                    <span className="text-gray-400 tabular-nums">{formatDuration(elapsed)}</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={executeQuery}
+                    disabled={!sql.trim() || loadingTables}
+                    className="flex items-center gap-1.5 bg-gray-900 text-white text-xs font-medium rounded-md px-3 py-1.5 hover:bg-gray-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
                     <Play size={12} />
-                  )}
-                  Run Query
-                </button>
+                    Run Query
+                  </button>
+                )}
               </div>
             </div>
 
+            {showAsk && (
+              <AskSqlBar
+                tables={askSchemas}
+                validate={validateSql}
+                currentSql={sql}
+                onSqlChange={setSql}
+                onClose={() => setShowAsk(false)}
+              />
+            )}
+
             <div className="relative bg-gray-50/50 dark:bg-gray-800/50">
               {/* Textarea (bottom layer — handles input) */}
               <textarea
@@ -993,7 +1314,7 @@ export default function QueryPage() {
                 placeholder={
                   loadedTables.length === 0
                     ? '-- Load tables from the sidebar first, then write SQL here\n-- Example: SELECT * FROM users WHERE age > 25'
-                    : `-- Tables available: ${loadedTables.filter((t) => !t.loading && !t.error).map((t) => t.alias).join(', ')}\n-- Example: SELECT * FROM ${loadedTables[0]?.alias || 'table_name'} LIMIT 10`
+                    : `-- Tables available: ${loadedTables.filter((t) => !t.error).map((t) => t.alias).join(', ')}\n-- Example: SELECT * FROM ${loadedTables[0]?.alias || 'table_name'} LIMIT 10`
                 }
                 className="relative z-[1] w-full h-36 px-4 py-3 font-mono text-sm text-transparent caret-gray-800 dark:caret-gray-200 bg-transparent resize-none focus:outline-none placeholder:text-gray-400 selection:bg-blue-200/50 dark:selection:bg-blue-500/30"
                 spellCheck={false}
@@ -1044,6 +1365,18 @@ export default function QueryPage() {
                 </div>
               )}
             </div>
+
+            {/* Parameter inputs */}
+            <QueryParamsPanel
+              params={queryParams}
+              values={effectiveParamValues}
+              onParamChange={handleParamChange}
+              onValueChange={handleParamValueChange}
+              sourceColumns={paramSourceColumns}
+              sourceValues={paramSourceValues}
+              loadingSources={loadingSources}
+              onLoadSource={handleLoadParamSource}
+            />
           </div>
 
           {/* Results Area */}
@@ -1066,12 +1399,35 @@ export default function QueryPage() {
                     </div>
                     <span className="text-[10px] text-gray-400 flex items-center gap-1">
                       <Zap size={10} />
-                      {queryResult.executionTime < 1
-                        ? '<1ms'
-                        : `${Math.round(queryResult.executionTime)}ms`}
+                      {formatDuration(queryResult.executionTime)}
                     </span>
+                    {queryResult.partialTables.length > 0 && (
+                      <span
+                        className="text-[10px] text-amber-600 dark:text-amber-400 flex items-center gap-1"
+                        title="Raise the row limit on these tables to query all of their rows"
+                      >
+                        <AlertTriangle size={10} />
+                        Partial data: {queryResult.partialTables.join(', ')}
+                      </span>
+                    )}
                   </>
                 )}
+                {queryResult.pushdown && (
+                  <button
+                    onClick={() => setShowPushdown((v) => !v)}
+                    className={cn(
+                      'text-[10px] flex items-center gap-1 hover:underline',
+                      queryResult.pushdown.fallbackError ? 'text-amber-600 dark:text-amber-400' : 'text-gray-400 hover:text-gray-600'
+                    )}
+                    title="Show which parts of the query ran in Firestore"
+                  >
+                    <Database size={10} />
+                    {queryResult.pushdown.fallbackError
+                      ? 'Firestore filter failed, ran locally'
+                      : `Filtered in Firestore · ${queryResult.pushdown.rowsFetched.toLocaleString()} docs fetched`}
+                    {showPushdown ? <ChevronUp size={10} /> : <ChevronDown size={10} />}
+                  </button>
+                )}
 
                 <div className="ml-auto flex items-center gap-2">
                   {queryResult.rows.length > 0 && (
@@ -1090,6 +1446,41 @@ export default function QueryPage() {
               </div>
             )}
 
+            {/* Pushdown details */}
+            {queryResult?.pushdown && showPushdown && (
+              <div className="px-4 py-2 bg-gray-50 dark:bg-gray-900 border-b border-gray-200 dark:border-gray-700 text-[11px] space-y-1.5 shrink-0">
+                {queryResult.pushdown.fallbackError && (
+                  <div className="flex items-start gap-1.5 text-amber-700 dark:text-amber-400">
+                    <AlertTriangle size={11} className="mt-0.5 shrink-0" />
+                    <FirestoreErrorMessage message={queryResult.pushdown.fallbackError} />
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <span className="w-16 shrink-0 font-medium text-gray-500">Firestore</span>
+                  <div className="flex flex-wrap gap-1">
+                    {queryResult.pushdown.plan.server.map((clause) => (
+                      <code key={clause} className="px-1.5 py-0.5 rounded bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                        {clause}
+                      </code>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <span className="w-16 shrink-0 font-medium text-gray-500">Local</span>
+                  <div className="flex flex-wrap gap-1 items-center">
+                    {queryResult.pushdown.plan.local.map((clause) => (
+                      <code key={clause} className="px-1.5 py-0.5 rounded bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                        {clause}
+                      </code>
+                    ))}
+                    <span className="text-gray-400">
+                      (the full query re-runs on the fetched rows)
+                    </span>
+                  </div>
+                </div>
+              </div>
+            )}
+
             {/* Results content */}
             <div className="flex-1 overflow-auto">
               {!queryResult && !executing && (
@@ -1110,7 +1501,7 @@ export default function QueryPage() {
                         Quick examples
                       </p>
                       <div className="space-y-1.5">
-                        {loadedTables.filter((t) => !t.loading && !t.error).slice(0, 2).map((t) => (
+                        {loadedTables.filter((t) => !t.error).slice(0, 2).map((t) => (
                           <button
                             key={t.alias}
                             onClick={() => setSql(`SELECT * FROM ${t.alias} LIMIT 25`)}
@@ -1119,12 +1510,12 @@ export default function QueryPage() {
                             SELECT * FROM {t.alias} LIMIT 25
                           </button>
                         ))}
-                        {loadedTables.filter((t) => !t.loading && !t.error).length >= 2 && (
+                        {loadedTables.filter((t) => !t.error).length >= 2 && (
                           <button
                             onClick={() => {
-                              const [a, b] = loadedTables.filter((t) => !t.loading && !t.error)
-                              const aCol = a.data[0] ? Object.keys(a.data[0])[0] : '__id'
-                              const bCol = b.data[0] ? Object.keys(b.data[0])[0] : '__id'
+                              const [a, b] = loadedTables.filter((t) => !t.error)
+                              const aCol = getSqlColumns(a)[0] ?? '__id'
+                              const bCol = getSqlColumns(b)[0] ?? '__id'
                               setSql(`SELECT a.*, b.*\nFROM ${a.alias} a\nJOIN ${b.alias} b ON a.${aCol} = b.${bCol}\nLIMIT 25`)
                             }}
                             className="w-full text-left text-[11px] font-mono text-gray-600 dark:text-gray-400 bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 dark:hover:bg-gray-600 rounded px-2.5 py-1.5 transition-colors"
@@ -1140,9 +1531,20 @@ export default function QueryPage() {
 
               {executing && (
                 <div className="flex items-center justify-center h-full">
-                  <div className="flex items-center gap-2 text-sm text-gray-500">
-                    <Loader2 size={16} className="animate-spin" />
-                    Executing query…
+                  <div className="flex flex-col items-center gap-2">
+                    <div className="flex items-center gap-2 text-sm text-gray-500">
+                      <Loader2 size={16} className="animate-spin" />
+                      {executionStart === null ? 'Loading tables…' : 'Executing query…'}
+                      {executionStart !== null && (
+                        <span className="tabular-nums text-gray-400">{formatDuration(elapsed)}</span>
+                      )}
+                    </div>
+                    <button
+                      onClick={cancelQuery}
+                      className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors"
+                    >
+                      Cancel
+                    </button>
                   </div>
                 </div>
               )}
@@ -1350,21 +1752,3 @@ export default function QueryPage() {
     </div>
   )
 }
-
-// ---------- Utilities ----------
-
-function inferColumnType(rows: Record<string, unknown>[], col: string): string {
-  for (const row of rows.slice(0, 10)) {
-    const val = row[col]
-    if (val === null || val === undefined) continue
-    if (typeof val === 'number') return Number.isInteger(val) ? 'integer' : 'double'
-    if (typeof val === 'boolean') return 'boolean'
-    if (typeof val === 'string') {
-      if (/^\d{4}-\d{2}-\d{2}T/.test(val)) return 'timestamp'
-      return 'string'
-    }
-    if (Array.isArray(val)) return 'array'
-    if (typeof val === 'object') return 'map'
-  }
-  return 'unknown'
-}
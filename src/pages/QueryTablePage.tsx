@@ -1,10 +1,12 @@
-import { useEffect, useState, useMemo, useCallback } from 'react'
+import { useEffect, useState, useMemo, useCallback, useRef } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
-import { exportToCSV, exportToJSON, copyToClipboard } from '@/lib/utils'
-import type { ColumnConfig, SavedTable } from '@/lib/types'
+import { exportToCSV, exportToJSON, copyToClipboard, formatRelativeTime, cn } from '@/lib/utils'
+import { buildQueryUrl } from '@/lib/sql-params'
+import { loadQueryTableRows, loadTableChunks, refreshQueryTable } from '@/lib/query-tables'
+import type { ColumnConfig, SavedTable, QueryParameter } from '@/lib/types'
 import { db } from '@/lib/firebase'
-import { doc, getDoc, collection, getDocs, query, orderBy } from 'firebase/firestore'
+import { doc, getDoc, updateDoc } from 'firebase/firestore'
 import {
   useReactTable,
   getCoreRowModel,
@@ -33,6 +35,8 @@ import {
   Terminal,
   Columns3,
   FileSpreadsheet,
+  RefreshCw,
+  Clock,
 } from 'lucide-react'
 import DarkModeToggle from '@/components/DarkModeToggle'
 
@@ -45,11 +49,17 @@ export default function QueryTablePage() {
   const [tableName, setTableName] = useState('')
   const [columns, setColumns] = useState<ColumnConfig[]>([])
   const [querySql, setQuerySql] = useState('')
+  const [queryParams, setQueryParams] = useState<QueryParameter[]>([])
   const [sourceType, setSourceType] = useState<'query' | 'csv'>('query')
   const [flatDocs, setFlatDocs] = useState<Record<string, unknown>[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
 
+  // Query tables are re-runnable: the saved definition, and when its rows were produced
+  const [savedTable, setSavedTable] = useState<SavedTable | null>(null)
+  const [refreshing, setRefreshing] = useState(false)
+  const [refreshError, setRefreshError] = useState<string | null>(null)
+
   // Table state
   const [sorting, setSorting] = useState<SortingState>([])
   const [globalFilter, setGlobalFilter] = useState('')
@@ -73,28 +83,26 @@ export default function QueryTablePage() {
         setTableName(data.tableName)
         setColumns(data.columns ?? [])
         setQuerySql(data.querySql ?? data.collectionPath ?? '')
+        setQueryParams(data.queryParams ?? [])
         const isCsv = data.projectId === '__csv__'
         setSourceType(isCsv ? 'csv' : 'query')
 
         if (isCsv && data.csvChunkCount && data.csvChunkCount > 0) {
           // Load CSV row data from Firestore subcollection chunks
-          const chunksRef = collection(db!, 'users', user.uid, 'tables', tableId, 'csvChunks')
-          const chunksSnap = await getDocs(query(chunksRef, orderBy('__name__')))
-          const allRows: Record<string, unknown>[] = []
-          // Sort by document ID (numeric string) to preserve order
-          const sortedDocs = chunksSnap.docs.sort(
-            (a, b) => Number(a.id) - Number(b.id)
-          )
-          for (const chunkDoc of sortedDocs) {
-            const chunkData = chunkDoc.data()
-            if (Array.isArray(chunkData.rows)) {
-              allRows.push(...chunkData.rows)
-            }
-          }
-          setFlatDocs(allRows)
-        } else {
-          // Fallback: inline queryData (for query tables or legacy small CSV tables)
+          setFlatDocs(await loadTableChunks(user.uid, tableId, 'csvChunks'))
+        } else if (isCsv) {
+          // Fallback: inline queryData (for legacy small CSV tables)
           setFlatDocs(data.queryData ?? [])
+        } else {
+          const table: SavedTable = {
+            ...data,
+            id: tableId,
+            createdAt: snap.data().createdAt?.toDate?.() ?? new Date(),
+            updatedAt: snap.data().updatedAt?.toDate?.() ?? new Date(),
+            lastRefreshedAt: snap.data().lastRefreshedAt?.toDate?.(),
+          }
+          setFlatDocs(await loadQueryTableRows(user.uid, table))
+          setSavedTable(table)
         }
       } catch (err) {
         console.error('Failed to load query table:', err)
@@ -107,6 +115,56 @@ export default function QueryTablePage() {
     loadTable()
   }, [tableId, user?.uid])
 
+  // ---- Re-run ----
+
+  /** Re-executes the query against its source tables and stores the new rows */
+  const handleRefresh = useCallback(async (table: SavedTable) => {
+    if (!user?.uid || !user.accessToken) return
+    setRefreshing(true)
+    setRefreshError(null)
+    try {
+      const result = await refreshQueryTable(user.accessToken, user.uid, table)
+      setFlatDocs(result.rows)
+      setColumns(result.columns)
+      setSavedTable({
+        ...table,
+        columns: result.columns,
+        queryChunkCount: result.queryChunkCount,
+        queryGeneration: result.queryGeneration,
+        queryRowCount: result.rows.length,
+        lastRefreshedAt: result.refreshedAt,
+      })
+    } catch (err) {
+      console.error('Failed to refresh query table:', err)
+      setRefreshError(err instanceof Error ? err.message : 'Failed to re-run query')
+    } finally {
+      setRefreshing(false)
+    }
+  }, [user?.uid, user?.accessToken])
+
+  // Re-run once on open when the table asks for it
+  const openRefreshRef = useRef<string | null>(null)
+
+  useEffect(() => {
+    if (!savedTable?.refreshOnOpen || openRefreshRef.current === savedTable.id) return
+    if (!user?.accessToken) return
+    openRefreshRef.current = savedTable.id
+    handleRefresh(savedTable)
+  }, [savedTable, user?.accessToken, handleRefresh])
+
+  const handleRefreshOnOpenChange = async (refreshOnOpen: boolean) => {
+    if (!savedTable || !user?.uid || !db) return
+    setSavedTable({ ...savedTable, refreshOnOpen })
+    // Opting in shouldn't immediately trigger the on-open run
+    openRefreshRef.current = savedTable.id
+    try {
+      await updateDoc(doc(db, 'users', user.uid, 'tables', savedTable.id), { refreshOnOpen })
+    } catch (err) {
+      console.error('Failed to save refresh setting:', err)
+      setSavedTable((prev) => (prev ? { ...prev, refreshOnOpen: !refreshOnOpen } : prev))
+    }
+  }
+
   // Column defs
   const visibleColumns = useMemo(
     () => columns.filter((c) => c.visible).sort((a, b) => a.order - b.order),
@@ -228,10 +286,23 @@ export default function QueryTablePage() {
 
           {/* Right: Actions */}
           <div className="flex items-center gap-2">
+            {/* Re-run the query — only for query tables */}
+            {savedTable && (
+              <button
+                onClick={() => handleRefresh(savedTable)}
+                disabled={refreshing}
+                className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:bg-gray-700 px-2.5 py-1.5 rounded-md transition-colors disabled:opacity-50"
+                title="Re-run the query against the current data"
+              >
+                <RefreshCw size={13} className={cn(refreshing && 'animate-spin')} />
+                {refreshing ? 'Refreshing…' : 'Refresh'}
+              </button>
+            )}
+
             {/* Open in SQL Editor — only for query tables */}
             {sourceType === 'query' && (
               <button
-                onClick={() => navigate(`/query?sql=${encodeURIComponent(querySql)}&autorun=true`)}
+                onClick={() => navigate(buildQueryUrl(querySql, { autorun: true, params: queryParams }))}
                 className="flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-gray-700 hover:bg-gray-100 dark:text-gray-400 dark:hover:text-gray-200 dark:hover:bg-gray-700 px-2.5 py-1.5 rounded-md transition-colors"
               >
                 <Terminal size={13} />
@@ -302,6 +373,40 @@ export default function QueryTablePage() {
             <p className="text-[11px] text-gray-400 font-mono truncate" title={querySql}>
               <span className="text-gray-500 font-medium">SQL:</span> {querySql}
             </p>
+            {queryParams.length > 0 && (
+              <p className="text-[11px] text-gray-400 font-mono truncate">
+                <span className="text-gray-500 font-medium">Defaults:</span>{' '}
+                {queryParams.map((p) => `:${p.name} = ${p.defaultValue || '—'}`).join(', ')}
+              </p>
+            )}
+            {savedTable && (
+              <div className="flex items-center gap-3 mt-0.5 text-[11px] text-gray-400">
+                <span
+                  className="flex items-center gap-1"
+                  title={savedTable.lastRefreshedAt ? savedTable.lastRefreshedAt.toLocaleString() : undefined}
+                >
+                  <Clock size={10} />
+                  {savedTable.lastRefreshedAt
+                    ? `Last refreshed ${formatRelativeTime(savedTable.lastRefreshedAt)}`
+                    : 'Never refreshed — showing the rows saved from the workbench'}
+                </span>
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={savedTable.refreshOnOpen ?? false}
+                    onChange={(e) => handleRefreshOnOpenChange(e.target.checked)}
+                    className="h-3 w-3 rounded border-gray-300"
+                  />
+                  Re-run when opened
+                </label>
+                {refreshError && (
+                  <span className="flex items-center gap-1 text-red-500">
+                    <AlertCircle size={10} />
+                    {refreshError}
+                  </span>
+                )}
+              </div>
+            )}
           </div>
         )}
 
@@ -354,12 +459,13 @@ export default function QueryTablePage() {
           {flatDocs.length === 0 && visibleColumns.length > 0 && (
             <div className="flex flex-col items-center justify-center h-48 text-sm text-gray-400 gap-2">
               <p>{sourceType === 'csv' ? 'No data in this CSV table.' : 'No data stored for this query.'}</p>
-              {sourceType === 'query' && (
+              {savedTable && (
                 <button
-                  onClick={() => navigate(`/query?sql=${encodeURIComponent(querySql)}&autorun=true`)}
-                  className="text-xs font-medium text-gray-600 hover:text-gray-900 bg-gray-100 hover:bg-gray-200 dark:text-gray-400 dark:bg-gray-700 dark:hover:bg-gray-600 px-3 py-1.5 rounded-md transition-colors"
+                  onClick={() => handleRefresh(savedTable)}
+                  disabled={refreshing}
+                  className="text-xs font-medium text-gray-600 hover:text-gray-900 bg-gray-100 hover:bg-gray-200 dark:text-gray-400 dark:bg-gray-700 dark:hover:bg-gray-600 px-3 py-1.5 rounded-md transition-colors disabled:opacity-50"
                 >
-                  Open in SQL Editor to re-run
+                  {refreshing ? 'Re-running…' : 'Re-run query'}
                 </button>
               )}
             </div>
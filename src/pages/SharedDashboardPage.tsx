@@ -0,0 +1,269 @@
+import { useState, useEffect } from 'react'
+import { useParams } from 'react-router-dom'
+import { signInWithPopup, GoogleAuthProvider } from 'firebase/auth'
+import { Loader2, AlertCircle, Lock, LayoutDashboard, Eye, RefreshCw } from 'lucide-react'
+import type { DashboardWidget, DashboardFilter, SavedTable } from '@/lib/types'
+import type { DatasetSnapshot } from '@/lib/dataset-store'
+import { auth } from '@/lib/firebase'
+import { toLoadedWidget } from '@/lib/dashboard-grid'
+import { useAuth } from '@/contexts/AuthContext'
+import { cn, formatRelativeTime } from '@/lib/utils'
+import { DashboardDataProvider } from '@/contexts/DashboardDataContext'
+import { DashboardFiltersProvider } from '@/contexts/DashboardFiltersContext'
+import DarkModeToggle from '@/components/DarkModeToggle'
+import DashboardFilterBar from '@/components/DashboardFilterBar'
+import GeneratedDashboardPreview from '@/components/GeneratedDashboardPreview'
+
+/** GET /api/share/snapshot: a shared dashboard with the rows its widgets read */
+interface SharedDashboardResponse {
+  name: string
+  widgets: DashboardWidget[]
+  filters: DashboardFilter[]
+  tables: (Omit<SavedTable, 'createdAt' | 'updatedAt' | 'lastRefreshedAt'> & { lastRefreshedAt?: string })[]
+  rows: Record<string, Record<string, unknown>[]>
+  /** Names of tables cut short to fit the response */
+  truncated: string[]
+  /** Names of tables added since the link was last published, sent without rows */
+  unverified?: string[]
+  takenAt: string
+}
+
+interface SharedDashboard {
+  name: string
+  widgets: DashboardWidget[]
+  filters: DashboardFilter[]
+  tables: SavedTable[]
+  truncated: string[]
+  unverified: string[]
+  dataset: DatasetSnapshot
+}
+
+type SharedDashboardResult =
+  | { status: 'ready'; dashboard: SharedDashboard }
+  | { status: 'locked'; requires: 'password' | 'signin'; message: string }
+  | { status: 'error'; message: string }
+
+async function fetchSharedDashboard(shareId: string, password: string): Promise<SharedDashboardResult> {
+  const headers: Record<string, string> = {}
+  if (password) headers['X-Share-Password'] = password
+  const idToken = await auth?.currentUser?.getIdToken()
+  if (idToken) headers.Authorization = `Bearer ${idToken}`
+
+  const res = await fetch(`/api/share/snapshot?id=${encodeURIComponent(shareId)}`, { headers })
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    const message = data.error || `Failed to load the dashboard: ${res.status}`
+    return data.requires ? { status: 'locked', requires: data.requires, message } : { status: 'error', message }
+  }
+
+  const snapshot = data as SharedDashboardResponse
+  const takenAt = new Date(snapshot.takenAt)
+  return {
+    status: 'ready',
+    dashboard: {
+      name: snapshot.name,
+      widgets: snapshot.widgets.map(toLoadedWidget),
+      filters: snapshot.filters,
+      tables: snapshot.tables.map((t) => ({
+        ...t,
+        createdAt: takenAt,
+        updatedAt: takenAt,
+        lastRefreshedAt: t.lastRefreshedAt ? new Date(t.lastRefreshedAt) : undefined,
+      })),
+      truncated: snapshot.truncated,
+      unverified: snapshot.unverified ?? [],
+      dataset: { rows: snapshot.rows, takenAt },
+    },
+  }
+}
+
+/** Public, read-only view of a dashboard published with a share link; no GCP access needed */
+export default function SharedDashboardPage() {
+  const { shareId = '' } = useParams<{ shareId: string }>()
+  const { user } = useAuth()
+  const [password, setPassword] = useState('')
+  const [attempt, setAttempt] = useState(0)
+  const [result, setResult] = useState<{ key: string; value: SharedDashboardResult } | null>(null)
+  const [signingIn, setSigningIn] = useState(false)
+
+  // Re-requested for a new password, a manual refresh or a different signed-in viewer
+  const requestKey = `${shareId}:${attempt}:${user?.uid ?? ''}`
+  const loading = result?.key !== requestKey
+  const current = result?.value ?? null
+
+  useEffect(() => {
+    let cancelled = false
+    fetchSharedDashboard(shareId, password)
+      .catch((err): SharedDashboardResult => ({ status: 'error', message: err instanceof Error ? err.message : 'Failed to load the dashboard' }))
+      .then((value) => {
+        if (!cancelled) setResult({ key: requestKey, value })
+      })
+    return () => { cancelled = true }
+    // password is sent with the request it was submitted for, not as it's typed
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [requestKey])
+
+  // Identity only: viewers don't grant the Cloud scopes the builder asks for
+  const signInToView = async () => {
+    if (!auth) return
+    setSigningIn(true)
+    try {
+      await signInWithPopup(auth, new GoogleAuthProvider())
+      setAttempt((a) => a + 1)
+    } catch (err) {
+      console.error('Sign-in failed:', err)
+    } finally {
+      setSigningIn(false)
+    }
+  }
+
+  if (current?.status === 'ready') {
+    return (
+      <SharedDashboardView
+        key={current.dashboard.dataset.takenAt.getTime()}
+        dashboard={current.dashboard}
+        refreshing={loading}
+        onRefresh={() => setAttempt((a) => a + 1)}
+      />
+    )
+  }
+
+  if (!current) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+          <Loader2 size={16} className="animate-spin" />
+          Loading dashboard…
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-6">
+      <div className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 p-6 w-full max-w-sm text-center shadow-sm">
+        {current.status === 'error' ? (
+          <>
+            <AlertCircle size={20} className="text-gray-400 mx-auto mb-3" />
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">Dashboard unavailable</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{current.message}</p>
+          </>
+        ) : current.requires === 'password' ? (
+          <form
+            onSubmit={(e) => {
+              e.preventDefault()
+              setAttempt((a) => a + 1)
+            }}
+          >
+            <Lock size={20} className="text-gray-400 mx-auto mb-3" />
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">Password required</h3>
+            <p className={cn('text-xs mb-4', password ? 'text-red-500' : 'text-gray-500 dark:text-gray-400')}>
+              {password ? current.message : 'Enter the password you were given to view this dashboard.'}
+            </p>
+            <input
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              className="w-full text-sm border border-gray-200 dark:border-gray-600 rounded-md px-3 py-2 mb-3 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:outline-none focus:ring-1 focus:ring-gray-300"
+            />
+            <button
+              type="submit"
+              disabled={loading || !password}
+              className="w-full inline-flex items-center justify-center gap-2 bg-gray-900 text-white text-sm font-medium rounded-md px-4 py-2 hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              {loading && <Loader2 size={14} className="animate-spin" />}
+              View dashboard
+            </button>
+          </form>
+        ) : (
+          <>
+            <Lock size={20} className="text-gray-400 mx-auto mb-3" />
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-gray-100 mb-1">Sign in to view</h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">{current.message}</p>
+            <button
+              onClick={signInToView}
+              disabled={signingIn || loading}
+              className="inline-flex items-center gap-2 bg-gray-900 text-white text-sm font-medium rounded-md px-4 py-2 hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              {(signingIn || loading) && <Loader2 size={14} className="animate-spin" />}
+              {user ? 'Use another Google account' : 'Sign in with Google'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function SharedDashboardView({
+  dashboard,
+  refreshing,
+  onRefresh,
+}: {
+  dashboard: SharedDashboard
+  refreshing: boolean
+  onRefresh: () => void
+}) {
+  // Viewers can change filter values for themselves; nothing is saved
+  const [filters, setFilters] = useState(dashboard.filters)
+
+  return (
+    <DashboardDataProvider accessToken={null} userId={null} refreshKey={0} snapshot={dashboard.dataset}>
+    <DashboardFiltersProvider filters={filters}>
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="px-6 h-14 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <img src="/logo.png" alt="Firegrid" className="w-7 h-7 rounded-md" />
+            <span className="text-gray-300 dark:text-gray-600">/</span>
+            <div className="flex items-center gap-1.5 text-sm">
+              <LayoutDashboard size={14} className="text-gray-400" />
+              <span className="font-medium text-gray-900 dark:text-gray-100">{dashboard.name}</span>
+            </div>
+            <span className="flex items-center gap-1 px-1.5 py-0.5 text-[10px] font-medium text-gray-500 bg-gray-100 rounded">
+              <Eye size={10} />
+              Read-only
+            </span>
+          </div>
+          <div className="flex items-center gap-3">
+            <span className="text-xs text-gray-400" title={dashboard.dataset.takenAt.toLocaleString()}>
+              Data as of {formatRelativeTime(dashboard.dataset.takenAt)}
+            </span>
+            <button
+              onClick={onRefresh}
+              disabled={refreshing}
+              className="flex items-center gap-1 px-2.5 py-1.5 text-xs font-medium text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors disabled:opacity-50"
+              title="Load the latest snapshot"
+            >
+              <RefreshCw className={cn('h-3 w-3', refreshing && 'animate-spin')} />
+              Refresh
+            </button>
+            <DarkModeToggle />
+          </div>
+        </div>
+      </header>
+
+      <main className="px-6 py-6">
+        {filters.length > 0 && (
+          <DashboardFilterBar filters={filters} tables={dashboard.tables} editMode={false} onChange={setFilters} />
+        )}
+        {dashboard.truncated.length > 0 && (
+          <div className="flex items-center gap-1.5 mb-3 text-xs text-amber-700">
+            <AlertCircle size={12} />
+            Showing the first rows only of {dashboard.truncated.join(', ')}; totals may be incomplete.
+          </div>
+        )}
+        {dashboard.unverified.length > 0 && (
+          <div className="flex items-center gap-1.5 mb-3 text-xs text-amber-700">
+            <AlertCircle size={12} />
+            {dashboard.unverified.join(', ')} will show once the owner opens and saves this dashboard.
+          </div>
+        )}
+        <GeneratedDashboardPreview widgets={dashboard.widgets} savedTables={dashboard.tables} accessToken={null} />
+      </main>
+    </div>
+    </DashboardFiltersProvider>
+    </DashboardDataProvider>
+  )
+}
@@ -2,23 +2,28 @@ import { useEffect, useState, useMemo, useCallback, useRef } from 'react'
 import { useParams, useSearchParams, useNavigate } from 'react-router-dom'
 import { useAuth } from '@/contexts/AuthContext'
 import {
-  fetchDocuments,
   sampleDocuments,
-  fetchCollectionGroup,
   sampleCollectionGroup,
+  fetchAllDocuments,
+  DEFAULT_DATABASE_ID,
 } from '@/lib/firestore-rest'
+import { fetchCollectionRows } from '@/lib/document-cache'
 import {
   discoverSchema,
-  flattenObject,
+  flattenDocuments,
   exportToCSV,
   exportToJSON,
   copyToClipboard,
   cn,
 } from '@/lib/utils'
-import type { FieldInfo, DocumentData, ColumnConfig, SavedTable } from '@/lib/types'
+import type { FieldInfo, ColumnConfig, SavedTable } from '@/lib/types'
 import { db } from '@/lib/firebase'
 import { trackTableSaved, trackPageView } from '@/lib/metrics'
-import { doc, getDoc, setDoc, serverTimestamp, collection, query, getDocs, orderBy, limit } from 'firebase/firestore'
+import { conditionsToQueryFilter, type ServerFilterCondition } from '@/lib/server-filters'
+import ServerFilterBar from '@/components/ServerFilterBar'
+import FirestoreErrorMessage from '@/components/FirestoreErrorMessage'
+import CacheStatus from '@/components/CacheStatus'
+import { doc, getDoc, setDoc, deleteField, serverTimestamp, collection, query, getDocs, orderBy, limit } from 'firebase/firestore'
 import {
   useReactTable,
   getCoreRowModel,
@@ -56,12 +61,15 @@ import {
   Settings2,
   GripVertical,
   Table,
+  Filter,
 } from 'lucide-react'
 import ProjectSwitcher from '@/components/ProjectSwitcher'
 import DarkModeToggle from '@/components/DarkModeToggle'
 
 type ViewMode = 'view' | 'edit'
 
+const NO_SERVER_FILTERS: ServerFilterCondition[] = []
+
 function ColumnRow({
   col,
   draggable,
@@ -189,6 +197,7 @@ export default function TableBuilderPage() {
   const [searchParams, setSearchParams] = useSearchParams()
   const tableId = searchParams.get('tableId')
   const isCollectionGroup = searchParams.get('group') === 'true'
+  const databaseId = searchParams.get('db') || DEFAULT_DATABASE_ID
   const initialMode = searchParams.get('mode') as ViewMode | null
   const { user, signOut } = useAuth()
   const navigate = useNavigate()
@@ -197,19 +206,33 @@ export default function TableBuilderPage() {
   const [mode, setMode] = useState<ViewMode>(initialMode || (tableId ? 'view' : 'edit'))
 
   // Data state
-  const [_allDocs, setAllDocs] = useState<DocumentData[]>([])
   const [flatDocs, setFlatDocs] = useState<Record<string, unknown>[]>([])
   const [schema, setSchema] = useState<FieldInfo[]>([])
   const [columns, setColumns] = useState<ColumnConfig[]>([])
   const [loading, setLoading] = useState(true)
   const [loadProgress, setLoadProgress] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [refreshedAt, setRefreshedAt] = useState<Date | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  // Set by handleRefresh so the next load skips the cache TTL
+  const forceReload = useRef(false)
 
   // Table state
   const [sorting, setSorting] = useState<SortingState>([])
   const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([])
   const [globalFilter, setGlobalFilter] = useState('')
 
+  // Server-side filters, keyed by source so switching collections drops them
+  const sourceKey = `${databaseId}/${collectionPath}/${isCollectionGroup}`
+  const [serverFilterState, setServerFilterState] = useState<{
+    sourceKey: string
+    conditions: ServerFilterCondition[]
+  }>({ sourceKey: '', conditions: NO_SERVER_FILTERS })
+  const serverFilters =
+    serverFilterState.sourceKey === sourceKey ? serverFilterState.conditions : NO_SERVER_FILTERS
+  const serverFilter = useMemo(() => conditionsToQueryFilter(serverFilters), [serverFilters])
+  const [showServerFilters, setShowServerFilters] = useState(false)
+
   // UI state
   const [showColumnPanel, setShowColumnPanel] = useState(true)
   const [tableName, setTableName] = useState('')
@@ -313,6 +336,8 @@ export default function TableBuilderPage() {
   useEffect(() => {
     if (!user?.accessToken || !projectId || !collectionPath) return
     let cancelled = false
+    const force = forceReload.current
+    forceReload.current = false
     setLoading(true)
     setLoadProgress(null)
     setError(null)
@@ -321,54 +346,42 @@ export default function TableBuilderPage() {
       try {
         // Sample for schema
         const samples = isCollectionGroup
-          ? await sampleCollectionGroup(user.accessToken!, projectId, collectionPath, 50)
-          : await sampleDocuments(user.accessToken!, projectId, collectionPath, 50)
+          ? await sampleCollectionGroup(user.accessToken!, projectId, collectionPath, 50, databaseId)
+          : await sampleDocuments(user.accessToken!, projectId, collectionPath, 50, databaseId)
         const discovered = discoverSchema(samples)
         setSchema(discovered)
 
-        // Fetch ALL documents by paging through entire collection.
-        // Uses 300 per batch (Firestore REST max) for efficiency.
-        const BATCH_SIZE = 300
-        const allDocuments: DocumentData[] = []
-
-        if (isCollectionGroup) {
-          let cursor: string | undefined
-          // eslint-disable-next-line no-constant-condition
-          while (true) {
-            if (cancelled) return
-            const result = await fetchCollectionGroup(user.accessToken!, projectId, collectionPath, BATCH_SIZE, cursor)
-            allDocuments.push(...result.documents)
-            cursor = result.lastDocumentPath
-            if (!cancelled) setLoadProgress(`Loaded ${allDocuments.length.toLocaleString()} documents…`)
-            if (!cursor || result.documents.length < BATCH_SIZE) break
-          }
+        if (serverFilter) {
+          // Only download documents matching the Firestore filters
+          const matched = await fetchAllDocuments(user.accessToken!, projectId, collectionPath, {
+            isCollectionGroup,
+            databaseId,
+            filter: serverFilter,
+            isCancelled: () => cancelled,
+            onProgress: (n) => {
+              if (!cancelled) setLoadProgress(`Loaded ${n.toLocaleString()} matching documents…`)
+            },
+          })
+          if (cancelled) return
+          setFlatDocs(flattenDocuments(matched, isCollectionGroup))
+          setRefreshedAt(new Date())
         } else {
-          let token: string | undefined
-          // eslint-disable-next-line no-constant-condition
-          while (true) {
-            if (cancelled) return
-            const result = await fetchDocuments(user.accessToken!, projectId, collectionPath, BATCH_SIZE, token)
-            allDocuments.push(...result.documents)
-            token = result.nextPageToken
-            if (!cancelled) setLoadProgress(`Loaded ${allDocuments.length.toLocaleString()} documents…`)
-            if (!token || result.documents.length < BATCH_SIZE) break
-          }
+          // Whole collection — served from the IndexedDB cache when fresh
+          const result = await fetchCollectionRows(user.accessToken!, projectId, collectionPath, {
+            userId: user.uid,
+            isCollectionGroup,
+            databaseId,
+            force,
+            isCancelled: () => cancelled,
+            onProgress: (n) => {
+              if (!cancelled) setLoadProgress(`Loaded ${n.toLocaleString()} documents…`)
+            },
+          })
+          if (cancelled) return
+          setFlatDocs(result.rows)
+          setRefreshedAt(result.refreshedAt)
         }
 
-        if (cancelled) return
-
-        setAllDocs(allDocuments)
-
-        const flattened = allDocuments.map((d) => {
-          const { __id, __path, __parentId, ...rest } = d
-          return {
-            __id,
-            ...(isCollectionGroup ? { __path: __path ?? '', __parentId: __parentId ?? '' } : {}),
-            ...flattenObject(rest as Record<string, unknown>),
-          }
-        })
-        setFlatDocs(flattened)
-
         // Initialise columns if not loading from a saved table
         if (!tableId) {
           const metaCols: ColumnConfig[] = [
@@ -427,7 +440,12 @@ export default function TableBuilderPage() {
 
     loadData()
     return () => { cancelled = true }
-  }, [user?.accessToken, projectId, collectionPath, tableId, isCollectionGroup])
+  }, [user?.accessToken, user?.uid, projectId, databaseId, collectionPath, tableId, isCollectionGroup, serverFilter, reloadKey])
+
+  const handleRefresh = useCallback(() => {
+    forceReload.current = true
+    setReloadKey((k) => k + 1)
+  }, [])
 
   // All data is loaded upfront — no "load more" needed
 
@@ -506,6 +524,7 @@ export default function TableBuilderPage() {
 
       const sameCollection =
         t.projectId === projectId &&
+        (t.databaseId || DEFAULT_DATABASE_ID) === databaseId &&
         t.collectionPath === collectionPath &&
         (!!t.isCollectionGroup === isCollectionGroup)
 
@@ -518,12 +537,12 @@ export default function TableBuilderPage() {
       } else {
         // Different collection — navigate to load new data, but columns/name are already set
         navigate(
-          `/project/${t.projectId}/collection/${encodeURIComponent(t.collectionPath)}?tableId=${t.id}&mode=view${t.isCollectionGroup ? '&group=true' : ''}`,
+          `/project/${t.projectId}/collection/${encodeURIComponent(t.collectionPath)}?tableId=${t.id}&mode=view${t.isCollectionGroup ? '&group=true' : ''}${t.databaseId ? `&db=${encodeURIComponent(t.databaseId)}` : ''}`,
           { replace: true }
         )
       }
     },
-    [navigate, projectId, collectionPath, isCollectionGroup, searchParams, setSearchParams]
+    [navigate, projectId, databaseId, collectionPath, isCollectionGroup, searchParams, setSearchParams]
   )
 
   // ---- TanStack Table ----
@@ -579,6 +598,8 @@ export default function TableBuilderPage() {
         {
           tableName: tableName.trim(),
           projectId,
+          // Left unset for the default database, like tables saved before named databases
+          databaseId: databaseId === DEFAULT_DATABASE_ID ? deleteField() : databaseId,
           collectionPath,
           isCollectionGroup,
           columns,
@@ -670,7 +691,7 @@ export default function TableBuilderPage() {
             <AlertCircle size={16} className="text-red-500 dark:text-red-400 mt-0.5 shrink-0" />
             <div>
               <p className="text-sm font-medium text-red-700 dark:text-red-400">Error loading data</p>
-              <p className="text-xs text-red-500 dark:text-red-400 mt-1">{error}</p>
+              <p className="text-xs text-red-500 dark:text-red-400 mt-1"><FirestoreErrorMessage message={error} /></p>
               <button onClick={() => navigate(-1)} className="mt-3 text-xs text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-200">
                 ← Go back
               </button>
@@ -689,7 +710,7 @@ export default function TableBuilderPage() {
           {/* Left: breadcrumb navigation */}
           <div className="flex items-center gap-2 min-w-0">
             <button
-              onClick={() => navigate(`/project/${projectId}`)}
+              onClick={() => navigate(`/project/${projectId}${databaseId !== DEFAULT_DATABASE_ID ? `?db=${encodeURIComponent(databaseId)}` : ''}`)}
               className="p-1 -ml-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
             >
               <ChevronLeft size={16} />
@@ -699,7 +720,7 @@ export default function TableBuilderPage() {
               <span className="font-semibold text-sm text-gray-900 dark:text-gray-100">Firegrid</span>
             </button>
             <ChevronRight size={14} className="text-gray-300 dark:text-gray-600 shrink-0" />
-            <ProjectSwitcher currentProjectId={projectId} />
+            <ProjectSwitcher currentProjectId={projectId} currentDatabaseId={databaseId} />
             <ChevronRight size={14} className="text-gray-300 dark:text-gray-600 shrink-0" />
             <span className="text-sm text-gray-700 dark:text-gray-300 font-medium truncate">{collectionPath}</span>
             {isCollectionGroup && (
@@ -899,6 +920,28 @@ export default function TableBuilderPage() {
             />
           </div>
 
+          {/* Server-side filters toggle */}
+          <button
+            onClick={() => setShowServerFilters((prev) => !prev)}
+            className={cn(
+              'flex items-center gap-1.5 px-2.5 py-1.5 text-xs font-medium rounded-md transition-colors shrink-0',
+              showServerFilters || serverFilters.length > 0
+                ? 'text-gray-800 bg-gray-100 dark:text-gray-200 dark:bg-gray-700'
+                : 'text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700'
+            )}
+          >
+            <Filter size={13} />
+            Filters
+            {serverFilters.length > 0 && (
+              <span className="text-[10px] bg-gray-200 dark:bg-gray-600 text-gray-500 dark:text-gray-400 px-1.5 py-0.5 rounded-md tabular-nums">
+                {serverFilters.length}
+              </span>
+            )}
+          </button>
+
+          {/* Last refreshed / cache settings */}
+          <CacheStatus refreshedAt={refreshedAt} onRefresh={handleRefresh} refreshing={loading} />
+
           {/* Right: Save, export, row count */}
           <div className="flex items-center gap-2 ml-auto shrink-0">
             {/* Table name & save (edit mode) / display name (view mode) */}
@@ -968,6 +1011,17 @@ export default function TableBuilderPage() {
         </div>
       </div>
 
+      {(showServerFilters || serverFilters.length > 0) && (
+        <div className="shrink-0">
+          <ServerFilterBar
+            fields={schema.map((f) => f.path)}
+            conditions={serverFilters}
+            onApply={(conditions) => setServerFilterState({ sourceKey, conditions })}
+            loading={loading}
+          />
+        </div>
+      )}
+
       <div className="flex flex-1 overflow-hidden">
         {/* ======== Column Configuration Panel (Edit mode only) ======== */}
         <AnimatePresence>
@@ -1102,7 +1156,7 @@ export default function TableBuilderPage() {
           {error && hasLoadedOnce && (
             <div className="mx-4 mt-3 bg-white dark:bg-gray-800 rounded-md border border-red-200 dark:border-red-800 p-3 flex items-center gap-2.5">
               <AlertCircle size={14} className="text-red-500 dark:text-red-400 shrink-0" />
-              <p className="text-xs text-red-600 dark:text-red-400 flex-1">{error}</p>
+              <p className="text-xs text-red-600 dark:text-red-400 flex-1"><FirestoreErrorMessage message={error} /></p>
               <button
                 onClick={() => setError(null)}
                 className="p-0.5 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 rounded hover:bg-gray-100 dark:hover:bg-gray-700"